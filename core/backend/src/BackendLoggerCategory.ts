@@ -54,6 +54,16 @@ export enum BackendLoggerCategory {
    */
   IModelDb = "imodeljs-backend.IModelDb",
 
+  /** The logger category used by the [GltfExporter]($backend) class.
+   * @beta
+   */
+  GltfExporter = "imodeljs-backend.GltfExporter",
+
+  /** The logger category used by the [IfcExportHandler]($backend) class.
+   * @beta
+   */
+  IfcExportHandler = "imodeljs-backend.IfcExportHandler",
+
   /** The logger category used by the following classes:
    * - [[IModelHost]]
    */
@@ -74,6 +84,11 @@ export enum BackendLoggerCategory {
    */
   IModelTransformer = "imodeljs-backend.IModelTransformer",
 
+  /** The logger category used by the [IModelDiff]($backend) class.
+   * @beta
+   */
+  IModelDiff = "imodeljs-backend.IModelDiff",
+
   /** The logger category used by the following classes:
    * - TileRequestMemoizer
    */
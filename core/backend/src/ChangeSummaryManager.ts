@@ -9,7 +9,7 @@
 import * as path from "path";
 import { assert, DbResult, GuidString, Id64String, Logger, PerfLogger, using } from "@bentley/bentleyjs-core";
 import { ChangeSet, ChangeSetQuery } from "@bentley/imodelhub-client";
-import { ChangedValueState, ChangeOpCode, IModelError, IModelStatus, IModelVersion } from "@bentley/imodeljs-common";
+import { ChangedValueState, ChangeOpCode, IModelError, IModelStatus, IModelVersion, QueryLimit, QueryResponseStatus } from "@bentley/imodeljs-common";
 import { IModelJsNative } from "@bentley/imodeljs-native";
 import { AuthorizedClientRequestContext } from "@bentley/itwin-client";
 import { BackendLoggerCategory } from "./BackendLoggerCategory";
@@ -65,6 +65,74 @@ export interface ChangeSummaryExtractOptions {
   currentVersionOnly?: boolean;
 }
 
+/** Information about a changeset file stored locally, for [ChangeSummaryManager.extractChangeSummaryFromFile]($backend).
+ * @beta
+ */
+export interface LocalChangeSetProps {
+  /** The id of the changeset */
+  id: GuidString;
+  /** The id of the parent changeset. Undefined or empty for the first changeset of the iModel. */
+  parentId?: GuidString;
+  /** The full path of the changeset file */
+  pathName: string;
+  description?: string;
+  pushDate?: string;
+  userCreated?: GuidString;
+}
+
+/** The change of a single property of an element, as returned by [ChangeSummaryManager.getElementChanges]($backend).
+ * @beta
+ */
+export interface ElementPropertyChange {
+  /** The access string of the property, e.g. `UserLabel` or `Origin.X` */
+  accessString: string;
+  /** The value before the change. Undefined for inserted elements. */
+  before?: any;
+  /** The value after the change. Undefined for deleted elements. */
+  after?: any;
+}
+
+/** The net change of an element over a range of changesets, as returned by [ChangeSummaryManager.getElementChanges]($backend).
+ * @beta
+ */
+export interface ElementChange {
+  elementId: Id64String;
+  /** The class of the element in the form `[schema name].[class name]` */
+  className: string;
+  /** The net operation over the range of changesets. An element that was inserted and then updated is reported as inserted. */
+  opCode: ChangeOpCode;
+  /** True if every change of the element in the range was an indirect change */
+  isIndirect: boolean;
+  /** True if the geometry stream or the placement of the element changed */
+  geometryChanged: boolean;
+  /** The properties that changed, with the value before the first change and after the last change in the range.
+   * The binary GeometryStream property is reported by [[geometryChanged]] and is not included.
+   */
+  properties: ElementPropertyChange[];
+}
+
+/** Options for [ChangeSummaryManager.getElementChanges]($backend).
+ * @beta
+ */
+export interface ElementChangesOptions {
+  /** The page of element changes to return */
+  limit?: QueryLimit;
+  /** If false, only the element ids and operations are returned, without property values. Default is true. */
+  wantPropertyValues?: boolean;
+}
+
+/** A page of element changes returned by [ChangeSummaryManager.getElementChanges]($backend).
+ * @beta
+ */
+export interface ElementChangesResponse {
+  changes: ElementChange[];
+  /** [QueryResponseStatus.Partial]($common) if there are more element changes after this page, [QueryResponseStatus.Done]($common) otherwise */
+  status: QueryResponseStatus;
+}
+
+/** The properties of an element that define its geometry and placement. */
+const geometryPropertyNames = new Set<string>(["GeometryStream", "Origin", "Yaw", "Pitch", "Roll", "Rotation", "BBoxLow", "BBoxHigh"]);
+
 /** @beta */
 export class ChangeSummaryExtractContext {
   public constructor(public readonly iModel: IModelDb) { }
@@ -258,6 +326,52 @@ export class ChangeSummaryManager {
     }
   }
 
+  /** Extracts the change summary of a changeset file that is stored locally, without access to iModelHub.
+   * This allows change summaries to be extracted for a [SnapshotDb]($backend) and the changeset files it was created from.
+   * @param iModel iModel to extract the change summary for. The iModel must be at the version that results from applying the changeset,
+   * e.g. a snapshot created from a briefcase as of that changeset.
+   * @param changeSet The changeset file and information about the changeset
+   * @return the Id of the extracted change summary. If the change summary has already been extracted, the Id of the existing change summary.
+   * @throws [IModelError]($common) if the changeset file does not exist, or if the extraction fails
+   */
+  public static extractChangeSummaryFromFile(iModel: IModelDb, changeSet: LocalChangeSetProps): Id64String {
+    if (!iModel?.isOpen)
+      throw new IModelError(IModelStatus.BadRequest, "iModel must be open");
+
+    if (!IModelJsFs.existsSync(changeSet.pathName))
+      throw new IModelError(IModelStatus.FileNotFound, `Failed to extract change summary: Changeset file "${changeSet.pathName}" does not exist.`);
+
+    // Detach change cache as it's being written to during the extraction
+    const isChangeCacheAttached = this.isChangeCacheAttached(iModel);
+    if (isChangeCacheAttached)
+      ChangeSummaryManager.detachChangeCache(iModel);
+
+    const changesFile: ECDb = ChangeSummaryManager.openOrCreateChangesFile(iModel);
+    try {
+      const existingSummaryId: Id64String | undefined = ChangeSummaryManager.isSummaryAlreadyExtracted(changesFile, changeSet.id);
+      if (undefined !== existingSummaryId) {
+        Logger.logInfo(loggerCategory, "Change Summary already exists. It is not extracted again.", () => ({ iModelId: iModel.iModelId, changeSetId: changeSet.id }));
+        return existingSummaryId;
+      }
+
+      const stat: IModelJsNative.ErrorStatusOrResult<DbResult, string> = iModel.nativeDb.extractChangeSummary(changesFile.nativeDb, changeSet.pathName);
+      if (stat.error && stat.error.status !== DbResult.BE_SQLITE_OK)
+        throw new IModelError(stat.error.status, stat.error.message);
+
+      const changeSummaryId: Id64String = stat.result!;
+      ChangeSummaryManager.addExtendedInfos(changesFile, changeSummaryId, changeSet.id, changeSet.parentId, changeSet.description, changeSet.pushDate, changeSet.userCreated);
+      changesFile.saveChanges();
+      Logger.logInfo(loggerCategory, "Finished Change Summary extraction from changeset file.", () => ({ iModelId: iModel.iModelId, changeSetId: changeSet.id }));
+      return changeSummaryId;
+    } finally {
+      changesFile.dispose();
+
+      // Reattach change cache if it was attached before the extraction
+      if (isChangeCacheAttached)
+        ChangeSummaryManager.attachChangeCache(iModel);
+    }
+  }
+
   public static async downloadChangeSets(requestContext: AuthorizedClientRequestContext, ctx: ChangeSummaryExtractContext, startChangeSetId: GuidString, endChangeSetId: GuidString): Promise<ChangeSet[]> {
     requestContext.enter();
     // Get the change set before the startChangeSet so that startChangeSet is included in the download and processing
@@ -285,7 +399,7 @@ export class ChangeSummaryManager {
     return changeSetInfos;
   }
 
-  private static openOrCreateChangesFile(iModel: BriefcaseDb): ECDb {
+  private static openOrCreateChangesFile(iModel: IModelDb): ECDb {
     if (!iModel?.isOpen)
       throw new IModelError(IModelStatus.BadArg, "Invalid iModel handle. iModel must be open.");
 
@@ -312,6 +426,8 @@ export class ChangeSummaryManager {
     if (!iModel?.isOpen)
       throw new IModelError(IModelStatus.BadArg, "Invalid iModel object. iModel must be open.");
 
+    // The iModel folder doesn't exist yet for snapshots and standalone iModels
+    IModelJsFs.recursiveMkDirSync(path.dirname(changeCacheFilePath));
     const stat: DbResult = iModel.nativeDb.createChangeCache(changesFile.nativeDb, changeCacheFilePath);
     if (stat !== DbResult.BE_SQLITE_OK)
       throw new IModelError(stat, `Failed to create Change Cache file at "${changeCacheFilePath}".`);
@@ -514,4 +630,188 @@ export class ChangeSummaryManager {
     ecsql += ` FROM main.${instanceChangeInfo.changedInstance.className}.Changes(${instanceChangeInfo.summaryId},${changedValueState}) WHERE ECInstanceId=${instanceChangeInfo.changedInstance.id}`;
     return ecsql;
   }
+
+  /** Gets the net changes of elements over a range of changesets, with the values of the changed properties before and after the range.
+   *
+   * The change summaries of the changesets must have been extracted, either by [ChangeSummaryManager.extractChangeSummaries]($backend) or
+   * by [ChangeSummaryManager.extractChangeSummaryFromFile]($backend), and the *Change Cache file* must be attached to the iModel.
+   *
+   * Changes to the same element in several changesets are combined: an element that was inserted and then updated is reported as inserted
+   * with the values after the last update, and an element that was inserted and then deleted within the range is not reported at all.
+   *
+   * See also [Change Summary Overview]($docs/learning/ChangeSummaries)
+   * @param iModel iModel
+   * @param fromChangeSetId Id of the first changeset of the range
+   * @param toChangeSetId Id of the last changeset of the range. The range includes both changesets.
+   * @param options The page of element changes to return, and whether to return property values
+   * @returns Returns the element changes, ordered by element id
+   * @throws [IModelError]($common) if the change cache file hasn't been attached, if the change summary of a changeset in the range
+   * hasn't been extracted, or in case of other errors.
+   */
+  public static getElementChanges(iModel: IModelDb, fromChangeSetId: GuidString, toChangeSetId: GuidString, options?: ElementChangesOptions): ElementChangesResponse {
+    if (!ChangeSummaryManager.isChangeCacheAttached(iModel))
+      throw new IModelError(IModelStatus.BadArg, "Change Cache file must be attached to iModel.");
+
+    const summaryIds = ChangeSummaryManager.getChangeSummaryIdsInRange(iModel, fromChangeSetId, toChangeSetId);
+
+    // query one more element than requested to find out whether there are more pages
+    const count = options?.limit?.count;
+    const pageIds = ChangeSummaryManager.queryChangedElementIds(iModel, summaryIds, options?.limit?.offset ?? 0, undefined !== count ? count + 1 : undefined);
+    const hasMore = undefined !== count && pageIds.length > count;
+    if (hasMore)
+      pageIds.pop();
+
+    // combine the changes of each element of the page in chronological order
+    const elementChanges = new Map<Id64String, { className: string, opCode: ChangeOpCode, isIndirect: boolean, instanceChanges: InstanceChange[] }>();
+    for (const summaryId of summaryIds) {
+      for (const instanceChange of ChangeSummaryManager.queryElementInstanceChanges(iModel, summaryId, pageIds)) {
+        const elementId = instanceChange.changedInstance.id;
+        const existing = elementChanges.get(elementId);
+        if (undefined === existing) {
+          elementChanges.set(elementId, { className: instanceChange.changedInstance.className, opCode: instanceChange.opCode, isIndirect: instanceChange.isIndirect, instanceChanges: [instanceChange] });
+          continue;
+        }
+
+        // an element inserted in the range stays inserted, and elements that were also deleted are not queried
+        if (ChangeOpCode.Delete === instanceChange.opCode)
+          existing.opCode = ChangeOpCode.Delete;
+
+        existing.className = instanceChange.changedInstance.className;
+        existing.isIndirect = existing.isIndirect && instanceChange.isIndirect;
+        existing.instanceChanges.push(instanceChange);
+      }
+    }
+
+    const wantPropertyValues = options?.wantPropertyValues ?? true;
+
+    const changes: ElementChange[] = pageIds.map((elementId: Id64String) => {
+      const elementChange = elementChanges.get(elementId)!;
+      const change: ElementChange = { elementId, className: elementChange.className, opCode: elementChange.opCode, isIndirect: elementChange.isIndirect, geometryChanged: false, properties: [] };
+      const properties = new Map<string, ElementPropertyChange>();
+      for (const instanceChange of elementChange.instanceChanges) {
+        const propertyNames = ChangeSummaryManager.getChangedPropertyValueNames(iModel, instanceChange.id);
+        const accessStrings = propertyNames.map((name: string) => name.replace(/[\[\]]/g, ""));
+        if (accessStrings.some((accessString: string) => geometryPropertyNames.has(accessString.split(".")[0])))
+          change.geometryChanged = true;
+
+        if (!wantPropertyValues)
+          continue;
+
+        // the binary geometry stream is only reported as a flag
+        const valueNames = propertyNames.filter((_name: string, index: number) => accessStrings[index] !== "GeometryStream");
+        const valueAccessStrings = accessStrings.filter((accessString: string) => accessString !== "GeometryStream");
+        if (valueNames.length === 0)
+          continue;
+
+        if (ChangeOpCode.Insert !== instanceChange.opCode) {
+          const state = ChangeOpCode.Delete === instanceChange.opCode ? ChangedValueState.BeforeDelete : ChangedValueState.BeforeUpdate;
+          const values = ChangeSummaryManager.queryPropertyValues(iModel, instanceChange, state, valueNames);
+          valueAccessStrings.forEach((accessString: string, index: number) => {
+            if (undefined === properties.get(accessString))
+              properties.set(accessString, { accessString, before: values[index] });
+          });
+        }
+
+        if (ChangeOpCode.Delete !== instanceChange.opCode) {
+          const state = ChangeOpCode.Insert === instanceChange.opCode ? ChangedValueState.AfterInsert : ChangedValueState.AfterUpdate;
+          const values = ChangeSummaryManager.queryPropertyValues(iModel, instanceChange, state, valueNames);
+          valueAccessStrings.forEach((accessString: string, index: number) => {
+            const property = properties.get(accessString);
+            if (undefined === property)
+              properties.set(accessString, { accessString, after: values[index] });
+            else
+              property.after = values[index];
+          });
+        }
+      }
+
+      for (const property of properties.values()) {
+        if (ChangeOpCode.Insert === change.opCode)
+          delete property.before;
+        else if (ChangeOpCode.Delete === change.opCode)
+          delete property.after;
+        change.properties.push(property);
+      }
+      return change;
+    });
+
+    return { changes, status: hasMore ? QueryResponseStatus.Partial : QueryResponseStatus.Done };
+  }
+
+  /** Gets the ids of the change summaries of a range of changesets, in chronological order */
+  private static getChangeSummaryIdsInRange(iModel: IModelDb, fromChangeSetId: GuidString, toChangeSetId: GuidString): Id64String[] {
+    const changeSets = new Map<GuidString, { summaryId: Id64String, parentId: GuidString }>();
+    iModel.withPreparedStatement("SELECT Summary.Id summaryId, WsgId, ParentWsgId FROM ecchange.imodelchange.ChangeSet", (stmt: ECSqlStatement) => {
+      while (stmt.step() === DbResult.BE_SQLITE_ROW) {
+        const row = stmt.getRow();
+        changeSets.set(row.wsgId, { summaryId: row.summaryId, parentId: row.parentWsgId ?? "" });
+      }
+    });
+
+    const summaryIds: Id64String[] = [];
+    let changeSetId: GuidString = toChangeSetId;
+    while (true) {
+      const changeSet = changeSets.get(changeSetId);
+      if (undefined === changeSet)
+        throw new IModelError(IModelStatus.BadArg, `No change summary found for changeset ${changeSetId} in the range from ${fromChangeSetId} to ${toChangeSetId}.`);
+
+      summaryIds.unshift(changeSet.summaryId);
+      if (changeSetId === fromChangeSetId)
+        return summaryIds;
+
+      changeSetId = changeSet.parentId;
+    }
+  }
+
+  /** Queries a page of the ids of the elements changed in a set of change summaries, ordered by element id.
+   * Elements that were both inserted and deleted in the change summaries are skipped.
+   */
+  private static queryChangedElementIds(iModel: IModelDb, summaryIds: Id64String[], offset: number, limit?: number): Id64String[] {
+    const page = undefined !== limit ? ` LIMIT ${limit} OFFSET ${offset}` : (offset > 0 ? ` LIMIT -1 OFFSET ${offset}` : "");
+    return iModel.withPreparedStatement(`SELECT ic.ChangedInstance.Id FROM ecchange.change.InstanceChange ic JOIN main.meta.ClassHasAllBaseClasses b ON b.SourceECInstanceId = ic.ChangedInstance.ClassId
+      JOIN main.meta.ECClassDef bc ON bc.ECInstanceId = b.TargetECInstanceId JOIN main.meta.ECSchemaDef bs ON bc.Schema.Id = bs.ECInstanceId
+      WHERE InVirtualSet(?, ic.Summary.Id) AND bs.Name='BisCore' AND bc.Name='Element'
+      GROUP BY ic.ChangedInstance.Id HAVING NOT (MIN(ic.OpCode)=${ChangeOpCode.Insert} AND MAX(ic.OpCode)=${ChangeOpCode.Delete}) ORDER BY ic.ChangedInstance.Id${page}`, (stmt: ECSqlStatement) => {
+      stmt.bindIdSet(1, summaryIds);
+      const elementIds: Id64String[] = [];
+      while (stmt.step() === DbResult.BE_SQLITE_ROW)
+        elementIds.push(stmt.getValue(0).getId());
+      return elementIds;
+    });
+  }
+
+  /** Queries the instance changes of a set of elements in a change summary, ordered by element id */
+  private static queryElementInstanceChanges(iModel: IModelDb, summaryId: Id64String, elementIds: Id64String[]): InstanceChange[] {
+    return iModel.withPreparedStatement(`SELECT ic.ECInstanceId id, s.Name changedInstanceSchemaName, c.Name changedInstanceClassName, ic.ChangedInstance.Id changedInstanceId,
+      ic.OpCode, ic.IsIndirect FROM ecchange.change.InstanceChange ic JOIN main.meta.ECClassDef c ON c.ECInstanceId = ic.ChangedInstance.ClassId
+      JOIN main.meta.ECSchemaDef s ON c.Schema.Id = s.ECInstanceId JOIN main.meta.ClassHasAllBaseClasses b ON b.SourceECInstanceId = c.ECInstanceId
+      JOIN main.meta.ECClassDef bc ON bc.ECInstanceId = b.TargetECInstanceId JOIN main.meta.ECSchemaDef bs ON bc.Schema.Id = bs.ECInstanceId
+      WHERE ic.Summary.Id=? AND InVirtualSet(?, ic.ChangedInstance.Id) AND bs.Name='BisCore' AND bc.Name='Element' ORDER BY ic.ChangedInstance.Id`, (stmt: ECSqlStatement) => {
+      stmt.bindId(1, summaryId);
+      stmt.bindIdSet(2, elementIds);
+      const instanceChanges: InstanceChange[] = [];
+      while (stmt.step() === DbResult.BE_SQLITE_ROW) {
+        const row = stmt.getRow();
+        instanceChanges.push({
+          id: row.id, summaryId, changedInstance: { id: row.changedInstanceId, className: `[${row.changedInstanceSchemaName}].[${row.changedInstanceClassName}]` },
+          opCode: row.opCode as ChangeOpCode, isIndirect: row.isIndirect,
+        });
+      }
+      return instanceChanges;
+    });
+  }
+
+  /** Queries the values of the specified properties of an instance change, in the order of the property names */
+  private static queryPropertyValues(iModel: IModelDb, instanceChange: InstanceChange, changedValueState: ChangedValueState, propertyNames: string[]): any[] {
+    const ecsql = ChangeSummaryManager.buildPropertyValueChangesECSql(iModel, instanceChange, changedValueState, propertyNames);
+    return iModel.withPreparedStatement(ecsql, (stmt: ECSqlStatement) => {
+      if (stmt.step() !== DbResult.BE_SQLITE_ROW)
+        return propertyNames.map(() => undefined);
+
+      return propertyNames.map((_name: string, index: number) => {
+        const value = stmt.getValue(index);
+        return value.isNull ? undefined : value.value;
+      });
+    });
+  }
 }
@@ -0,0 +1,618 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module iModels
+ */
+
+import { DbResult, GuidString, Id64Array, Id64String, IModelStatus } from "@bentley/bentleyjs-core";
+import { Point3d, PolyfaceBoolean, Range3d, Vector3d, XYZProps } from "@bentley/geometry-core";
+import { IModelError } from "@bentley/imodeljs-common";
+import { ECSqlStatement } from "./ECSqlStatement";
+import { ExportGraphicsInfo, ExportGraphicsMesh } from "./ExportGraphics";
+import { IModelDb } from "./IModelDb";
+import { IModelJsFs } from "./IModelJsFs";
+
+/** Specifies a set of elements for a clash test.
+ * An element is in the set if it matches any of the specified criteria. Only elements with 3d geometry take part in a clash test.
+ * @beta
+ */
+export interface ClashElementSet {
+  /** Elements specified by Id */
+  elementIds?: Id64Array;
+  /** All geometric elements in these categories */
+  categoryIds?: Id64Array;
+  /** All geometric elements in these models */
+  modelIds?: Id64Array;
+  /** An ECSql query whose first column is the ECInstanceId of an element, e.g. `SELECT ECInstanceId FROM bis.PhysicalElement WHERE UserLabel LIKE 'Duct%'` */
+  ecsql?: string;
+}
+
+/** Parameters for [[ClashDetector.run]].
+ * Only JSON-compatible values are allowed, so that the options can be saved in a [[ClashReport]] and used to run the same test again later.
+ * @beta
+ */
+export interface ClashDetectionOptions {
+  /** A name for the clash test, recorded in the report. */
+  name?: string;
+  /** The first set of elements. */
+  setA: ClashElementSet;
+  /** The second set of elements. If undefined, the elements of `setA` are tested against each other. */
+  setB?: ClashElementSet;
+  /** Elements closer than this distance are reported as [[ClashType.Clearance]] clashes. Defaults to 0, i.e. only hard clashes are reported. */
+  clearance?: number;
+  /** Distance within which surfaces are considered to touch rather than penetrate. Defaults to 1.0e-6 meters. */
+  tolerance?: number;
+  /** If true, elements that touch without penetrating are reported as [[ClashType.Touching]] clashes.
+   * Defaults to false, in which case touching elements are only reported (as [[ClashType.Clearance]] clashes) if `clearance` is positive.
+   */
+  reportTouching?: boolean;
+  /** The maximum number of intersection points recorded for each clash. Defaults to 100. */
+  maxPointsPerClash?: number;
+  /** Max distance from a face to the original geometry when faceting, see [StrokeOptions]($geometry-core) */
+  chordTol?: number;
+  /** Max angle difference in radians for approximated face when faceting, see [StrokeOptions]($geometry-core) */
+  angleTol?: number;
+}
+
+/** The kind of a clash between two elements.
+ * @beta
+ */
+export enum ClashType {
+  /** The elements penetrate each other, or one contains the other. */
+  Hard = 0,
+  /** The elements touch, but do not penetrate. */
+  Touching = 1,
+  /** The elements are separated by less than the required clearance. */
+  Clearance = 2,
+}
+
+/** A clash between two elements, as saved in a [[ClashReport]].
+ * @beta
+ */
+export interface ClashResultProps {
+  /** The element from [[ClashDetectionOptions.setA]] */
+  elementIdA: Id64String;
+  /** The element from [[ClashDetectionOptions.setB]] */
+  elementIdB: Id64String;
+  /** The kind of clash */
+  type: ClashType;
+  /** For a hard clash, points where the surfaces of the elements intersect (or a point of the contained element, if one contains the other).
+   * Otherwise, the closest points on element A and element B.
+   */
+  points: XYZProps[];
+  /** The distance between the elements. Zero for hard and touching clashes. */
+  distance: number;
+  /** For a hard clash, the largest distance from a vertex of either element that lies inside the other element to the surface of the other element.
+   * Zero if the surfaces cross without any vertex inside, and for other kinds of clash.
+   */
+  penetrationDepth: number;
+}
+
+/** The JSON representation of a [[ClashReport]].
+ * @beta
+ */
+export interface ClashReportProps {
+  /** The options used to run the clash test */
+  options: ClashDetectionOptions;
+  /** The iModel that was tested */
+  iModelId?: GuidString;
+  /** The changeset of the iModel that was tested */
+  changeSetId?: GuidString;
+  /** The time of the clash test, in ISO 8601 format */
+  createdAt: string;
+  /** The clashes found */
+  clashes: ClashResultProps[];
+}
+
+/** The differences between two [[ClashReport]]s, as returned by [[ClashReport.compare]].
+ * @beta
+ */
+export interface ClashReportComparison {
+  /** Clashes in the current report that were not in the previous report. */
+  added: ClashResultProps[];
+  /** Clashes in the previous report that are not in the current report. */
+  resolved: ClashResultProps[];
+  /** Clashes in both reports, as reported by the current report. */
+  unresolved: ClashResultProps[];
+}
+
+/** The results of a clash test, which can be saved to and reloaded from a JSON file.
+ * Reports of the same test on different changesets can be compared to track which clashes are new and which have been resolved.
+ * @beta
+ */
+export class ClashReport implements ClashReportProps {
+  public readonly options: ClashDetectionOptions;
+  public readonly iModelId?: GuidString;
+  public readonly changeSetId?: GuidString;
+  public readonly createdAt: string;
+  public readonly clashes: ClashResultProps[];
+
+  public constructor(props: ClashReportProps) {
+    this.options = props.options;
+    this.iModelId = props.iModelId;
+    this.changeSetId = props.changeSetId;
+    this.createdAt = props.createdAt;
+    this.clashes = props.clashes;
+  }
+
+  public toJSON(): ClashReportProps {
+    return { options: this.options, iModelId: this.iModelId, changeSetId: this.changeSetId, createdAt: this.createdAt, clashes: this.clashes };
+  }
+
+  /** Write the report to a JSON file, overwriting it if it exists. */
+  public save(fileName: string): void {
+    IModelJsFs.writeFileSync(fileName, JSON.stringify(this.toJSON(), undefined, 2));
+  }
+
+  /** Read a report from a JSON file written by [[save]].
+   * @throws [IModelError]($common) if the file does not exist or is not a clash report.
+   */
+  public static load(fileName: string): ClashReport {
+    if (!IModelJsFs.existsSync(fileName))
+      throw new IModelError(IModelStatus.FileNotFound, `Clash report ${fileName} not found`);
+
+    const props = JSON.parse(IModelJsFs.readFileSync(fileName).toString());
+    if (undefined === props.options || !Array.isArray(props.clashes))
+      throw new IModelError(IModelStatus.BadArg, `${fileName} is not a clash report`);
+
+    return new ClashReport(props);
+  }
+
+  /** Return a key that identifies the pair of elements of a clash, regardless of which element is A and which is B. */
+  public static getClashKey(clash: ClashResultProps): string {
+    return clash.elementIdA < clash.elementIdB ? `${clash.elementIdA}:${clash.elementIdB}` : `${clash.elementIdB}:${clash.elementIdA}`;
+  }
+
+  /** Compare this report to a previous report of the same clash test.
+   * Clashes are matched by their pair of elements, so a clash whose type or points changed is unresolved rather than added and resolved.
+   */
+  public compare(previous: ClashReport): ClashReportComparison {
+    const previousKeys = new Set<string>(previous.clashes.map((clash) => ClashReport.getClashKey(clash)));
+    const currentKeys = new Set<string>(this.clashes.map((clash) => ClashReport.getClashKey(clash)));
+    return {
+      added: this.clashes.filter((clash) => !previousKeys.has(ClashReport.getClashKey(clash))),
+      resolved: previous.clashes.filter((clash) => !currentKeys.has(ClashReport.getClashKey(clash))),
+      unresolved: this.clashes.filter((clash) => previousKeys.has(ClashReport.getClashKey(clash))),
+    };
+  }
+}
+
+/** A triangle of a [[ClashMesh]], with its unit normal and range. */
+class ClashTriangle {
+  public readonly points: Point3d[];
+  public readonly normal: Vector3d;
+  public readonly range: Range3d;
+
+  private constructor(points: Point3d[], normal: Vector3d) {
+    this.points = points;
+    this.normal = normal;
+    this.range = Range3d.createArray(points);
+  }
+
+  /** Create a triangle, or return undefined if it has no area. */
+  public static create(point0: Point3d, point1: Point3d, point2: Point3d): ClashTriangle | undefined {
+    const normal = point0.crossProductToPoints(point1, point2).normalize();
+    return undefined !== normal ? new ClashTriangle([point0, point1, point2], normal) : undefined;
+  }
+
+  /** Signed distance from the plane of the triangle. */
+  public altitude(point: Point3d): number { return this.normal.dotProductStartEnd(this.points[0], point); }
+
+  /** Test if the projection of `point` onto the plane of the triangle lies within the triangle. */
+  public containsProjection(point: Point3d, tolerance: number): boolean {
+    return PolyfaceBoolean.triangleContainsProjection(this.points, this.normal, point, tolerance);
+  }
+
+  /** Return the point of the triangle closest to `point` (Ericson, Real-Time Collision Detection, 5.1.5). */
+  public closestPoint(point: Point3d): Point3d {
+    const [a, b, c] = this.points;
+    const ab = Vector3d.createStartEnd(a, b);
+    const ac = Vector3d.createStartEnd(a, c);
+    const ap = Vector3d.createStartEnd(a, point);
+    const d1 = ab.dotProduct(ap);
+    const d2 = ac.dotProduct(ap);
+    if (d1 <= 0 && d2 <= 0)
+      return a.clone();
+
+    const bp = Vector3d.createStartEnd(b, point);
+    const d3 = ab.dotProduct(bp);
+    const d4 = ac.dotProduct(bp);
+    if (d3 >= 0 && d4 <= d3)
+      return b.clone();
+
+    const vc = d1 * d4 - d3 * d2;
+    if (vc <= 0 && d1 >= 0 && d3 <= 0)
+      return a.plusScaled(ab, d1 / (d1 - d3));
+
+    const cp = Vector3d.createStartEnd(c, point);
+    const d5 = ab.dotProduct(cp);
+    const d6 = ac.dotProduct(cp);
+    if (d6 >= 0 && d5 <= d6)
+      return c.clone();
+
+    const vb = d5 * d2 - d1 * d6;
+    if (vb <= 0 && d2 >= 0 && d6 <= 0)
+      return a.plusScaled(ac, d2 / (d2 - d6));
+
+    const va = d3 * d6 - d5 * d4;
+    if (va <= 0 && (d4 - d3) >= 0 && (d5 - d6) >= 0)
+      return b.interpolate((d4 - d3) / ((d4 - d3) + (d5 - d6)), c);
+
+    const denominator = 1 / (va + vb + vc);
+    return a.plus2Scaled(ab, vb * denominator, ac, vc * denominator);
+  }
+
+  /** Return the solid angle subtended by the triangle as seen from `point`, positive when `point` is behind the triangle. */
+  public solidAngle(point: Point3d): number {
+    return PolyfaceBoolean.triangleSolidAngle(this.points, point);
+  }
+}
+
+/** Closest points between segments p0-p1 and q0-q1 (Ericson, Real-Time Collision Detection, 5.1.9). */
+function closestPointsBetweenSegments(p0: Point3d, p1: Point3d, q0: Point3d, q1: Point3d): { pointA: Point3d, pointB: Point3d } {
+  const d1 = Vector3d.createStartEnd(p0, p1);
+  const d2 = Vector3d.createStartEnd(q0, q1);
+  const r = Vector3d.createStartEnd(q0, p0);
+  const a = d1.magnitudeSquared();
+  const e = d2.magnitudeSquared();
+  const f = d2.dotProduct(r);
+  const clamp = (x: number) => Math.max(0, Math.min(1, x));
+  let s = 0;
+  let t = 0;
+  if (a === 0 && e === 0)
+    return { pointA: p0.clone(), pointB: q0.clone() };
+
+  if (a === 0) {
+    t = clamp(f / e);
+  } else {
+    const c = d1.dotProduct(r);
+    if (e === 0) {
+      s = clamp(-c / a);
+    } else {
+      const b = d1.dotProduct(d2);
+      const denominator = a * e - b * b;
+      s = denominator !== 0 ? clamp((b * f - c * e) / denominator) : 0;
+      t = (b * s + f) / e;
+      if (t < 0) {
+        t = 0;
+        s = clamp(-c / a);
+      } else if (t > 1) {
+        t = 1;
+        s = clamp((b - c) / a);
+      }
+    }
+  }
+  return { pointA: p0.plusScaled(d1, s), pointB: q0.plusScaled(d2, t) };
+}
+
+/** The facets of an element, as triangles in world coordinates. */
+class ClashMesh {
+  public readonly triangles: ClashTriangle[] = [];
+  public readonly vertices: Point3d[] = [];
+  public readonly range = Range3d.createNull();
+
+  public addMesh(mesh: ExportGraphicsMesh): void {
+    const base = this.vertices.length;
+    const p = mesh.points;
+    for (let i = 0; i < p.length; i += 3)
+      this.vertices.push(Point3d.create(p[i], p[i + 1], p[i + 2]));
+
+    const indices = mesh.indices;
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      const triangle = ClashTriangle.create(this.vertices[base + indices[i]], this.vertices[base + indices[i + 1]], this.vertices[base + indices[i + 2]]);
+      if (undefined !== triangle) {
+        this.triangles.push(triangle);
+        this.range.extendRange(triangle.range);
+      }
+    }
+  }
+
+  /** Test if a point is inside the mesh, using the winding number of the mesh around the point. */
+  public isInside(point: Point3d): boolean {
+    if (!this.range.containsPoint(point))
+      return false;
+
+    let sum = 0;
+    for (const triangle of this.triangles)
+      sum += triangle.solidAngle(point);
+
+    return Math.abs(sum) > 2.0 * Math.PI;
+  }
+
+  /** Return the distance from a point to the nearest point on the surface of the mesh. */
+  public distanceToSurface(point: Point3d): number {
+    let distance = Number.MAX_VALUE;
+    for (const triangle of this.triangles) {
+      if (triangle.range.distanceToPoint(point) < distance)
+        distance = Math.min(distance, triangle.closestPoint(point).distance(point));
+    }
+    return distance;
+  }
+}
+
+/** Detects clashes between the geometry of two sets of elements in an iModel.
+ * Clash detection proceeds in two phases:
+ * - Candidate pairs of elements are found from the spatial index, by overlap of element ranges expanded by the clearance.
+ * - The facets of each candidate pair are tested for intersection, containment, and proximity.
+ * The facets of each element are generated by [IModelDb.exportGraphics]($backend) and cached by the detector for each combination of `chordTol` and `angleTol`;
+ * call [[clearCache]] if the geometry changes. [[rerun]] always clears the cache.
+ * @see [[ClashReport]]
+ * @beta
+ */
+export class ClashDetector {
+  /** The iModel to test. */
+  public readonly iModel: IModelDb;
+  /** Facets keyed by element Id and faceting tolerances. */
+  private _meshCache = new Map<string, ClashMesh | undefined>();
+
+  public constructor(iModel: IModelDb) {
+    this.iModel = iModel;
+  }
+
+  /** Discard the cached facets of all elements. */
+  public clearCache(): void {
+    this._meshCache.clear();
+  }
+
+  /** Return the Ids of the elements in a [[ClashElementSet]].
+   * @throws [IModelError]($common) if the set does not specify any criteria.
+   */
+  public getElementIds(elementSet: ClashElementSet): Set<Id64String> {
+    if (undefined === elementSet.elementIds && undefined === elementSet.categoryIds && undefined === elementSet.modelIds && undefined === elementSet.ecsql)
+      throw new IModelError(IModelStatus.BadArg, "ClashElementSet must specify elements, categories, models or a query");
+
+    const elementIds = new Set<Id64String>(elementSet.elementIds);
+    const collect = (ecsql: string, ids?: Id64Array) => {
+      this.iModel.withPreparedStatement(ecsql, (statement: ECSqlStatement) => {
+        if (undefined !== ids)
+          statement.bindIdSet(1, ids);
+        while (DbResult.BE_SQLITE_ROW === statement.step())
+          elementIds.add(statement.getValue(0).getId());
+      });
+    };
+    if (undefined !== elementSet.categoryIds)
+      collect("SELECT ECInstanceId FROM bis.GeometricElement3d WHERE InVirtualSet(?,Category.Id)", elementSet.categoryIds);
+    if (undefined !== elementSet.modelIds)
+      collect("SELECT ECInstanceId FROM bis.GeometricElement3d WHERE InVirtualSet(?,Model.Id)", elementSet.modelIds);
+    if (undefined !== elementSet.ecsql)
+      collect(elementSet.ecsql);
+
+    return elementIds;
+  }
+
+  /** Return the pairs of elements, one from each set, whose ranges in the spatial index are within `clearance` of each other.
+   * Each pair is returned once, and an element is never paired with itself.
+   */
+  public findCandidatePairs(setA: Set<Id64String>, setB: Set<Id64String>, clearance: number): Array<[Id64String, Id64String]> {
+    const ranges = new Map<Id64String, Range3d>();
+    this.iModel.withPreparedStatement("SELECT ECInstanceId,MinX,MinY,MinZ,MaxX,MaxY,MaxZ FROM bis.SpatialIndex WHERE InVirtualSet(?,ECInstanceId)", (statement: ECSqlStatement) => {
+      statement.bindIdSet(1, Array.from(setA));
+      while (DbResult.BE_SQLITE_ROW === statement.step()) {
+        const row = statement.getRow();
+        ranges.set(row.id, Range3d.createXYZXYZ(row.minX, row.minY, row.minZ, row.maxX, row.maxY, row.maxZ));
+      }
+    });
+
+    const pairs: Array<[Id64String, Id64String]> = [];
+    const pairKeys = new Set<string>();
+    this.iModel.withPreparedStatement("SELECT rt.ECInstanceId FROM bis.SpatialIndex rt WHERE rt.ECInstanceId MATCH iModel_spatial_overlap_aabb(?)", (statement: ECSqlStatement) => {
+      for (const [elementIdA, range] of ranges) {
+        range.expandInPlace(clearance);
+        statement.reset();
+        statement.clearBindings();
+        statement.bindRange3d(1, range);
+        while (DbResult.BE_SQLITE_ROW === statement.step()) {
+          const elementIdB = statement.getValue(0).getId();
+          if (elementIdB === elementIdA || !setB.has(elementIdB))
+            continue;
+
+          // When the sets overlap, the same pair can be found from either element.
+          const key = elementIdA < elementIdB ? `${elementIdA}:${elementIdB}` : `${elementIdB}:${elementIdA}`;
+          if (!pairKeys.has(key)) {
+            pairKeys.add(key);
+            pairs.push([elementIdA, elementIdB]);
+          }
+        }
+      }
+    });
+    return pairs;
+  }
+
+  /** Run a clash test.
+   * @throws [IModelError]($common) if an element set does not specify any criteria.
+   */
+  public run(options: ClashDetectionOptions): ClashReport {
+    const setA = this.getElementIds(options.setA);
+    const setB = undefined !== options.setB ? this.getElementIds(options.setB) : setA;
+    const clearance = options.clearance ?? 0;
+
+    const clashes: ClashResultProps[] = [];
+    for (const [elementIdA, elementIdB] of this.findCandidatePairs(setA, setB, clearance)) {
+      const meshA = this.getMesh(elementIdA, options);
+      const meshB = this.getMesh(elementIdB, options);
+      if (undefined === meshA || undefined === meshB)
+        continue;
+
+      const clash = this.testMeshes(meshA, meshB, options);
+      if (undefined !== clash)
+        clashes.push({ elementIdA, elementIdB, ...clash });
+    }
+
+    return new ClashReport({
+      options,
+      iModelId: this.iModel.iModelId,
+      changeSetId: this.iModel.changeSetId,
+      createdAt: new Date().toISOString(),
+      clashes,
+    });
+  }
+
+  /** Run the clash test recorded in a previous report again, e.g. after the iModel has been updated to a later changeset.
+   * The cached facets are discarded first, since the geometry of the elements may have changed since the report was created.
+   */
+  public rerun(report: ClashReport): ClashReport {
+    this.clearCache();
+    return this.run(report.options);
+  }
+
+  private getMesh(elementId: Id64String, options: ClashDetectionOptions): ClashMesh | undefined {
+    const key = `${elementId}:${options.chordTol}:${options.angleTol}`;
+    if (this._meshCache.has(key))
+      return this._meshCache.get(key);
+
+    const elementMesh = new ClashMesh();
+    this.iModel.exportGraphics({
+      elementIdArray: [elementId],
+      chordTol: options.chordTol,
+      angleTol: options.angleTol,
+      onGraphics: (info: ExportGraphicsInfo) => elementMesh.addMesh(info.mesh),
+    });
+
+    const mesh = elementMesh.triangles.length > 0 ? elementMesh : undefined;
+    this._meshCache.set(key, mesh);
+    return mesh;
+  }
+
+  /** Test the facets of two elements, returning the clash between them if any. */
+  private testMeshes(meshA: ClashMesh, meshB: ClashMesh, options: ClashDetectionOptions): Pick<ClashResultProps, "type" | "points" | "distance" | "penetrationDepth"> | undefined {
+    const clearance = options.clearance ?? 0;
+    const tolerance = options.tolerance ?? 1.0e-6;
+    const maxPoints = options.maxPointsPerClash ?? 100;
+    const searchDistance = Math.max(clearance, tolerance);
+    const measureDistance = clearance > 0 || true === options.reportTouching;
+    if (meshA.range.distanceToRange(meshB.range) > searchDistance)
+      return undefined;
+
+    // Only triangles near the range of the other element can clash.
+    const trianglesA = meshA.triangles.filter((triangle) => triangle.range.distanceToRange(meshB.range) <= searchDistance);
+    const trianglesB = meshB.triangles.filter((triangle) => triangle.range.distanceToRange(meshA.range) <= searchDistance);
+
+    const points: Point3d[] = [];
+    let isHard = false;
+    let distance = Number.MAX_VALUE;
+    let closestA: Point3d | undefined;
+    let closestB: Point3d | undefined;
+    for (const triangleA of trianglesA) {
+      for (const triangleB of trianglesB) {
+        if (triangleA.range.distanceToRange(triangleB.range) > searchDistance)
+          continue;
+
+        if (ClashDetector.appendCrossingPoints(triangleA, triangleB, tolerance, points, maxPoints)) {
+          isHard = true;
+        } else if (!isHard && measureDistance) {
+          const closest = ClashDetector.closestPointsBetweenTriangles(triangleA, triangleB);
+          const triangleDistance = closest.pointA.distance(closest.pointB);
+          if (triangleDistance < distance) {
+            distance = triangleDistance;
+            closestA = closest.pointA;
+            closestB = closest.pointB;
+          }
+        }
+      }
+    }
+
+    // Without crossing surfaces, the elements clash if either is inside the other.
+    if (!isHard) {
+      for (const [inner, outer] of [[meshA, meshB], [meshB, meshA]]) {
+        const vertex = inner.vertices[0];
+        if (outer.range.containsRange(inner.range) && outer.isInside(vertex) && outer.distanceToSurface(vertex) > tolerance) {
+          isHard = true;
+          points.push(vertex);
+          break;
+        }
+      }
+    }
+
+    if (isHard)
+      return { type: ClashType.Hard, points: points.map((point) => point.toJSON()), distance: 0, penetrationDepth: ClashDetector.computePenetrationDepth(meshA, meshB) };
+
+    if (undefined === closestA || undefined === closestB)
+      return undefined;
+
+    if (distance <= tolerance && true === options.reportTouching)
+      return { type: ClashType.Touching, points: [closestA.toJSON(), closestB.toJSON()], distance: 0, penetrationDepth: 0 };
+
+    // Touching elements also violate a clearance.
+    if (clearance > 0 && distance <= clearance)
+      return { type: ClashType.Clearance, points: [closestA.toJSON(), closestB.toJSON()], distance: distance <= tolerance ? 0 : distance, penetrationDepth: 0 };
+
+    return undefined;
+  }
+
+  /** If the triangles cross (each has vertices strictly on both sides of the plane of the other), append the ends of their intersection segment and return true.
+   * Triangles that merely touch, or are coplanar, do not cross.
+   */
+  private static appendCrossingPoints(triangleA: ClashTriangle, triangleB: ClashTriangle, tolerance: number, points: Point3d[], maxPoints: number): boolean {
+    const straddles = (triangle: ClashTriangle, plane: ClashTriangle) => {
+      let above = false;
+      let below = false;
+      for (const point of triangle.points) {
+        const altitude = plane.altitude(point);
+        above = above || altitude > tolerance;
+        below = below || altitude < -tolerance;
+      }
+      return above && below;
+    };
+    if (!straddles(triangleA, triangleB) || !straddles(triangleB, triangleA))
+      return false;
+
+    // The intersection segment runs between points where edges of one triangle pierce the other.
+    const crossings: Point3d[] = [];
+    for (const [edgeTriangle, plane] of [[triangleA, triangleB], [triangleB, triangleA]]) {
+      for (let i = 0; i < 3; i++) {
+        const point0 = edgeTriangle.points[i];
+        const point1 = edgeTriangle.points[(i + 1) % 3];
+        const altitude0 = plane.altitude(point0);
+        const altitude1 = plane.altitude(point1);
+        if ((altitude0 > 0) === (altitude1 > 0) || altitude0 === altitude1)
+          continue;
+
+        const crossing = point0.interpolate(altitude0 / (altitude0 - altitude1), point1);
+        if (plane.containsProjection(crossing, tolerance))
+          crossings.push(crossing);
+      }
+    }
+    if (0 === crossings.length)
+      return false;
+
+    for (const crossing of crossings) {
+      if (points.length < maxPoints && undefined === points.find((point) => point.isAlmostEqual(crossing, tolerance)))
+        points.push(crossing);
+    }
+    return true;
+  }
+
+  /** Return the closest points between two triangles that do not cross. */
+  private static closestPointsBetweenTriangles(triangleA: ClashTriangle, triangleB: ClashTriangle): { pointA: Point3d, pointB: Point3d } {
+    const candidates: Array<{ pointA: Point3d, pointB: Point3d }> = [];
+    for (const point of triangleA.points)
+      candidates.push({ pointA: point, pointB: triangleB.closestPoint(point) });
+    for (const point of triangleB.points)
+      candidates.push({ pointA: triangleA.closestPoint(point), pointB: point });
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++)
+        candidates.push(closestPointsBetweenSegments(triangleA.points[i], triangleA.points[(i + 1) % 3], triangleB.points[j], triangleB.points[(j + 1) % 3]));
+    }
+
+    let best = candidates[0];
+    for (const candidate of candidates) {
+      if (candidate.pointA.distance(candidate.pointB) < best.pointA.distance(best.pointB))
+        best = candidate;
+    }
+    return best;
+  }
+
+  /** Return the largest distance from a vertex of either mesh that lies inside the other mesh to the surface of the other mesh. */
+  private static computePenetrationDepth(meshA: ClashMesh, meshB: ClashMesh): number {
+    let depth = 0;
+    for (const [inner, outer] of [[meshA, meshB], [meshB, meshA]]) {
+      for (const vertex of inner.vertices) {
+        if (outer.isInside(vertex))
+          depth = Math.max(depth, outer.distanceToSurface(vertex));
+      }
+    }
+    return depth;
+  }
+}
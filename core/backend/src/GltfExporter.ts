@@ -0,0 +1,584 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module iModels
+ */
+
+import * as fs from "fs";
+import { DbResult, Id64, Id64Array, Id64String, Logger } from "@bentley/bentleyjs-core";
+import { Geometry, Matrix3d, Point3d } from "@bentley/geometry-core";
+import { ColorDef, ImageSourceFormat, RenderMaterialProps } from "@bentley/imodeljs-common";
+import { BackendLoggerCategory } from "./BackendLoggerCategory";
+import { ECSqlStatement } from "./ECSqlStatement";
+import { ExportGraphics, ExportGraphicsLines, ExportGraphicsMesh, ExportPartDisplayInfo, ExportPartInstanceInfo } from "./ExportGraphics";
+import { IModelDb } from "./IModelDb";
+import { RenderMaterialElement } from "./Material";
+import { Texture } from "./Texture";
+
+const loggerCategory: string = BackendLoggerCategory.GltfExporter;
+
+/* eslint-disable @typescript-eslint/naming-convention */
+
+/** The subset of the glTF 2.0 JSON schema written by [[GltfExporter]]. */
+interface Gltf {
+  asset: { generator: string, version: string };
+  scene: number;
+  scenes: Array<{ nodes: number[] }>;
+  nodes: GltfNode[];
+  meshes: GltfMesh[];
+  materials: GltfMaterial[];
+  accessors: GltfAccessor[];
+  bufferViews: GltfBufferView[];
+  buffers?: Array<{ byteLength: number }>;
+  textures?: Array<{ source: number, sampler: number }>;
+  images?: Array<{ bufferView: number, mimeType: string }>;
+  samplers?: Array<{ wrapS?: number, wrapT?: number }>;
+}
+
+interface GltfNode {
+  name?: string;
+  children?: number[];
+  mesh?: number;
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+  extras?: { [key: string]: any };
+}
+
+interface GltfMeshPrimitive {
+  attributes: { POSITION: number, NORMAL?: number, TEXCOORD_0?: number };
+  indices: number;
+  material: number;
+  mode: MeshPrimitiveMode;
+}
+
+interface GltfMesh {
+  primitives: GltfMeshPrimitive[];
+}
+
+interface GltfMaterial {
+  name?: string;
+  alphaMode?: "BLEND";
+  doubleSided: boolean;
+  pbrMetallicRoughness: {
+    baseColorFactor: number[];
+    baseColorTexture?: { index: number };
+    metallicFactor: number;
+    roughnessFactor: number;
+  };
+}
+
+interface GltfAccessor {
+  bufferView: number;
+  byteOffset: number;
+  componentType: AccessorComponentType;
+  count: number;
+  type: "SCALAR" | "VEC2" | "VEC3";
+  max?: number[];
+  min?: number[];
+}
+
+interface GltfBufferView {
+  buffer: 0;
+  byteOffset: number;
+  byteLength: number;
+  byteStride?: number;
+  target?: BufferViewTarget;
+}
+
+enum AccessorComponentType {
+  UInt16 = 5123,
+  UInt32 = 5125,
+  Float = 5126,
+}
+
+enum BufferViewTarget {
+  ArrayBuffer = 34962,
+  ElementArrayBuffer = 34963,
+}
+
+enum MeshPrimitiveMode {
+  GlLines = 1,
+  GlTriangles = 4,
+}
+
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/** Parameters for [[GltfExporter.exportGlb]]
+ * @beta
+ */
+export interface GltfExportOptions {
+  /** The source elements for the exported graphics. If undefined, all 3d geometric elements in the iModel are exported. */
+  elementIdArray?: Id64Array;
+  /** If true (the default), references to [GeometryPart]($backend)s are exported once per part and instanced by the nodes that reference them.
+   * Otherwise, the graphics of each reference are exported as part of the referencing element.
+   */
+  instanceParts?: boolean;
+  /** If true (the default), linework (including polylines of [GeometryPart]($backend)s) is exported as line primitives. */
+  includeLines?: boolean;
+  /** Max distance from a face to the original geometry, see [StrokeOptions]($geometry-core) */
+  chordTol?: number;
+  /** Max angle difference in radians for approximated face, see [StrokeOptions]($geometry-core) */
+  angleTol?: number;
+  /** Max length of any edge in generated faces, see [StrokeOptions]($geometry-core) */
+  maxEdgeLength?: number;
+  /** BRep features with bounding boxes smaller than this size will not generate graphics, see [ExportGraphicsOptions]($backend) */
+  minBRepFeatureSize?: number;
+}
+
+/** Accumulates the binary chunk of a GLB file, keeping each buffer view aligned to 4 bytes as required by glTF. */
+class GlbBinaryWriter {
+  private _chunks: Uint8Array[] = [];
+  private _byteLength = 0;
+
+  public get byteLength(): number { return this._byteLength; }
+
+  /** Append data to the binary chunk, returning its byte offset. */
+  public append(data: ArrayBufferView): number {
+    const byteOffset = this._byteLength;
+    this._chunks.push(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+    this._byteLength += data.byteLength;
+    const padding = (4 - (this._byteLength % 4)) % 4;
+    if (padding > 0) {
+      this._chunks.push(new Uint8Array(padding));
+      this._byteLength += padding;
+    }
+    return byteOffset;
+  }
+
+  public toBuffer(): Buffer {
+    return Buffer.concat(this._chunks, this._byteLength);
+  }
+}
+
+/** Writes the graphics of an iModel, or a subset of its elements, to a single binary glTF 2.0 (GLB) file.
+ * * The node hierarchy of the scene is model > category > element. Model and category nodes are named for the model or category.
+ * * Each element node has a mesh with a primitive for each unique combination of color, material and texture in its graphics,
+ * and records the Id of the element as `extras.elementId` so that viewers can map selection back to the iModel.
+ * * When [[GltfExportOptions.instanceParts]] is true, the graphics of each [GeometryPart]($backend) are written once
+ * and referenced by a child node of each element that instances it, with the instance transform. Those nodes record the Id of the part as `extras.partId`.
+ * * Materials use the metallic-roughness PBR model, derived from the [RenderMaterialElement]($backend) of the graphics if any. Textures are embedded in the GLB.
+ * * glTF is right-handed with Y up; the iModel's Z axis is mapped to glTF's Y axis. Vertex positions are written relative to the center of the
+ * [IModel.projectExtents]($common), with the root nodes translated to restore the original coordinates, to preserve precision in 32-bit floats.
+ * @beta
+ */
+export class GltfExporter {
+  /** The iModel to export graphics from. */
+  public readonly iModel: IModelDb;
+
+  private _gltf!: Gltf;
+  private _binary!: GlbBinaryWriter;
+  private _origin!: Point3d;
+  private _materialIndices = new Map<string, number>();
+  private _textureIndices = new Map<Id64String, number>();
+  private _elementMeshes = new Map<Id64String, GltfMesh>();
+  private _partDisplayProps = new Map<Id64String, ExportPartDisplayInfo[]>();
+
+  /** Construct a new GltfExporter
+   * @param iModel The iModel to export graphics from
+   */
+  public constructor(iModel: IModelDb) {
+    this.iModel = iModel;
+  }
+
+  /** Export graphics to a GLB file.
+   * @param fileName The full path of the output file, which will be overwritten if it already exists
+   * @param options Specifies which elements to export and how to facet them
+   * @returns The status returned by [IModelDb.exportGraphics]($backend)
+   */
+  public exportGlb(fileName: string, options: GltfExportOptions = {}): DbResult {
+    const elementIdArray = options.elementIdArray ?? this.queryGeometricElements3d();
+    const status = this.exportGltf(elementIdArray, options);
+    if (DbResult.BE_SQLITE_OK === status)
+      fs.writeFileSync(fileName, this.toGlb());
+
+    return status;
+  }
+
+  private exportGltf(elementIdArray: Id64Array, options: GltfExportOptions): DbResult {
+    this._gltf = {
+      asset: { generator: "imodeljs-backend GltfExporter", version: "2.0" },
+      scene: 0,
+      scenes: [{ nodes: [] }],
+      nodes: [],
+      meshes: [],
+      materials: [],
+      accessors: [],
+      bufferViews: [],
+      buffers: [{ byteLength: 0 }],
+    };
+    this._binary = new GlbBinaryWriter();
+    this._origin = this.iModel.projectExtents.isNull ? Point3d.createZero() : this.iModel.projectExtents.center;
+    this._materialIndices.clear();
+    this._textureIndices.clear();
+    this._elementMeshes.clear();
+    this._partDisplayProps.clear();
+
+    const includeLines = options.includeLines ?? true;
+    const partInstanceArray: ExportPartInstanceInfo[] | undefined = (options.instanceParts ?? true) ? [] : undefined;
+    const status = this.iModel.exportGraphics({
+      elementIdArray,
+      partInstanceArray,
+      onGraphics: (info) => this.getElementMesh(info.elementId).primitives.push(this.addMeshPrimitive(info.mesh, info.color, info.materialId, info.textureId, this._origin)),
+      onLineGraphics: includeLines ? (info) => this.getElementMesh(info.elementId).primitives.push(this.addLinesPrimitive(info.lines, info.color, this._origin)) : undefined,
+      chordTol: options.chordTol,
+      angleTol: options.angleTol,
+      maxEdgeLength: options.maxEdgeLength,
+      minBRepFeatureSize: options.minBRepFeatureSize,
+    });
+    if (DbResult.BE_SQLITE_OK !== status)
+      return status;
+
+    const partMeshes = undefined !== partInstanceArray ? this.exportParts(partInstanceArray, options) : new Map<string, number>();
+    this.buildNodeHierarchy(elementIdArray, partInstanceArray ?? [], partMeshes);
+    this._gltf.buffers![0].byteLength = this._binary.byteLength;
+    return status;
+  }
+
+  /** Export each unique combination of GeometryPart and display properties once, returning the index of the mesh for each combination.
+   * Part meshes are written in part coordinates, and are placed by the transforms of their instance nodes.
+   */
+  private exportParts(partInstanceArray: ExportPartInstanceInfo[], options: GltfExportOptions): Map<string, number> {
+    const partMeshes = new Map<string, number>();
+    const includeLines = options.includeLines ?? true;
+    for (const instance of partInstanceArray) {
+      const key = this.getPartKey(instance.partId, instance.displayProps);
+      if (partMeshes.has(key))
+        continue;
+
+      const mesh: GltfMesh = { primitives: [] };
+      this.iModel.exportPartGraphics({
+        elementId: instance.partId,
+        displayProps: instance.displayProps,
+        onPartGraphics: (info) => mesh.primitives.push(this.addMeshPrimitive(info.mesh, info.color, info.materialId, info.textureId)),
+        onPartLineGraphics: includeLines ? (info) => mesh.primitives.push(this.addLinesPrimitive(info.lines, info.color)) : undefined,
+        chordTol: options.chordTol,
+        angleTol: options.angleTol,
+        maxEdgeLength: options.maxEdgeLength,
+        minBRepFeatureSize: options.minBRepFeatureSize,
+      });
+
+      if (mesh.primitives.length === 0) {
+        Logger.logWarning(loggerCategory, `GeometryPart ${instance.partId} produced no graphics`);
+        partMeshes.set(key, -1);
+        continue;
+      }
+
+      partMeshes.set(key, this._gltf.meshes.length);
+      this._gltf.meshes.push(mesh);
+    }
+    return partMeshes;
+  }
+
+  /** Create the model > category > element node hierarchy, with part instance nodes as children of their element nodes. */
+  private buildNodeHierarchy(elementIdArray: Id64Array, partInstanceArray: ExportPartInstanceInfo[], partMeshes: Map<string, number>): void {
+    const instancesByElement = new Map<Id64String, ExportPartInstanceInfo[]>();
+    for (const instance of partInstanceArray) {
+      const instances = instancesByElement.get(instance.partInstanceId);
+      if (undefined === instances)
+        instancesByElement.set(instance.partInstanceId, [instance]);
+      else
+        instances.push(instance);
+    }
+
+    const nodes = this._gltf.nodes;
+    const modelNodes = new Map<Id64String, GltfNode>();
+    const categoryNodes = new Map<string, GltfNode>();
+    const addNode = (node: GltfNode, parent?: GltfNode): GltfNode => {
+      const index = nodes.length;
+      nodes.push(node);
+      if (undefined === parent)
+        this._gltf.scenes[0].nodes.push(index);
+      else
+        (parent.children = parent.children ?? []).push(index);
+
+      return node;
+    };
+
+    const translation = [this._origin.x, this._origin.z, -this._origin.y];
+    const hasTranslation = !Geometry.isSameCoordinate(this._origin.magnitude(), 0);
+    this.iModel.withPreparedStatement("SELECT ECInstanceId,Model.Id,Category.Id FROM bis.GeometricElement3d WHERE InVirtualSet(?,ECInstanceId) UNION ALL SELECT ECInstanceId,Model.Id,Category.Id FROM bis.GeometricElement2d WHERE InVirtualSet(?,ECInstanceId)", (statement: ECSqlStatement) => {
+      statement.bindIdSet(1, elementIdArray);
+      statement.bindIdSet(2, elementIdArray);
+      while (DbResult.BE_SQLITE_ROW === statement.step()) {
+        const elementId = statement.getValue(0).getId();
+        const mesh = this._elementMeshes.get(elementId);
+        const instances = instancesByElement.get(elementId);
+        if (undefined === mesh && undefined === instances)
+          continue;
+
+        const modelId = statement.getValue(1).getId();
+        let modelNode = modelNodes.get(modelId);
+        if (undefined === modelNode) {
+          const model = this.iModel.models.getModel(modelId);
+          modelNode = addNode({ name: model.name.length > 0 ? model.name : modelId, translation: hasTranslation ? translation : undefined, extras: { modelId } });
+          modelNodes.set(modelId, modelNode);
+        }
+
+        const categoryId = statement.getValue(2).getId();
+        let categoryNode = categoryNodes.get(`${modelId}:${categoryId}`);
+        if (undefined === categoryNode) {
+          const codeValue = this.iModel.elements.getElement(categoryId).code.getValue();
+          categoryNode = addNode({ name: codeValue.length > 0 ? codeValue : categoryId, extras: { categoryId } }, modelNode);
+          categoryNodes.set(`${modelId}:${categoryId}`, categoryNode);
+        }
+
+        const elementNode = addNode({ name: elementId, extras: { elementId } }, categoryNode);
+        if (undefined !== mesh) {
+          elementNode.mesh = this._gltf.meshes.length;
+          this._gltf.meshes.push(mesh);
+        }
+
+        for (const instance of instances ?? []) {
+          const meshIndex = partMeshes.get(this.getPartKey(instance.partId, instance.displayProps));
+          if (undefined === meshIndex || meshIndex < 0)
+            continue;
+
+          addNode({ name: instance.partId, mesh: meshIndex, ...this.convertTransform(instance.transform), extras: { elementId, partId: instance.partId } }, elementNode);
+        }
+      }
+    });
+  }
+
+  private getElementMesh(elementId: Id64String): GltfMesh {
+    let mesh = this._elementMeshes.get(elementId);
+    if (undefined === mesh) {
+      mesh = { primitives: [] };
+      this._elementMeshes.set(elementId, mesh);
+    }
+    return mesh;
+  }
+
+  /** Get a key identifying a GeometryPart exported with specific display properties. */
+  private getPartKey(partId: Id64String, displayProps: ExportPartDisplayInfo): string {
+    let displayPropsList = this._partDisplayProps.get(partId);
+    if (undefined === displayPropsList) {
+      displayPropsList = [];
+      this._partDisplayProps.set(partId, displayPropsList);
+    }
+
+    // It is legal for different instances of the same GeometryPart to have different display properties, which can result in different graphics.
+    let index = displayPropsList.findIndex((entry) => ExportGraphics.arePartDisplayInfosEqual(entry, displayProps));
+    if (index < 0) {
+      index = displayPropsList.length;
+      displayPropsList.push(displayProps);
+    }
+    return `${partId}:${index}`;
+  }
+
+  /** Convert a row-major 4x3 transform from exportGraphics to glTF translation, rotation and scale, omitting components equal to the glTF defaults. */
+  private convertTransform(transform?: Float64Array): Pick<GltfNode, "translation" | "rotation" | "scale"> {
+    const result: Pick<GltfNode, "translation" | "rotation" | "scale"> = {};
+    if (undefined === transform)
+      return result;
+
+    // Instance nodes are children of a model node translated to the origin, and the transform places the part in world coordinates.
+    if (!Geometry.isSameCoordinate(transform[3], this._origin.x) || !Geometry.isSameCoordinate(transform[7], this._origin.y) || !Geometry.isSameCoordinate(transform[11], this._origin.z))
+      result.translation = [transform[3] - this._origin.x, transform[11] - this._origin.z, -(transform[7] - this._origin.y)];
+
+    // Uniform and positive scale is guaranteed by exportGraphics.
+    const scale = Geometry.hypotenuseXYZ(transform[0], transform[4], transform[8]);
+    if (!Geometry.isAlmostEqualNumber(scale, 1))
+      result.scale = [scale, scale, scale];
+
+    const invScale = 1.0 / scale;
+    const matrix = Matrix3d.createRowValues(
+      transform[0] * invScale, transform[1] * invScale, transform[2] * invScale,
+      transform[4] * invScale, transform[5] * invScale, transform[6] * invScale,
+      transform[8] * invScale, transform[9] * invScale, transform[10] * invScale);
+    if (!matrix.isIdentity) {
+      const q = matrix.toQuaternion();
+      result.rotation = [q.x, q.z, -q.y, -q.w];
+    }
+    return result;
+  }
+
+  /** Convert points or normals from iModel (Z up) to glTF (Y up) coordinates, optionally relative to an origin. */
+  private convertXYZ(xyz: Float64Array | Float32Array, origin?: Point3d): Float32Array {
+    const ox = origin ? origin.x : 0, oy = origin ? origin.y : 0, oz = origin ? origin.z : 0;
+    const result = new Float32Array(xyz.length);
+    for (let i = 0; i < xyz.length; i += 3) {
+      result[i] = xyz[i] - ox;
+      result[i + 1] = xyz[i + 2] - oz;
+      result[i + 2] = -(xyz[i + 1] - oy);
+    }
+    return result;
+  }
+
+  private addAccessor(data: ArrayBufferView, componentType: AccessorComponentType, type: GltfAccessor["type"], count: number, target: BufferViewTarget, minMax?: { min: number[], max: number[] }): number {
+    const bufferView = this._gltf.bufferViews.length;
+    this._gltf.bufferViews.push({ buffer: 0, byteOffset: this._binary.append(data), byteLength: data.byteLength, target });
+    this._gltf.accessors.push({ bufferView, byteOffset: 0, componentType, count, type, min: minMax?.min, max: minMax?.max });
+    return this._gltf.accessors.length - 1;
+  }
+
+  private addIndices(indices: Int32Array, vertexCount: number): number {
+    if (vertexCount <= 0xffff)
+      return this.addAccessor(Uint16Array.from(indices), AccessorComponentType.UInt16, "SCALAR", indices.length, BufferViewTarget.ElementArrayBuffer);
+
+    return this.addAccessor(Uint32Array.from(indices), AccessorComponentType.UInt32, "SCALAR", indices.length, BufferViewTarget.ElementArrayBuffer);
+  }
+
+  private addPositions(points: Float64Array, origin?: Point3d): number {
+    const positions = this.convertXYZ(points, origin);
+    const min = [Number.MAX_VALUE, Number.MAX_VALUE, Number.MAX_VALUE];
+    const max = [-Number.MAX_VALUE, -Number.MAX_VALUE, -Number.MAX_VALUE];
+    for (let i = 0; i < positions.length; i += 3) {
+      for (let j = 0; j < 3; j++) {
+        min[j] = Math.min(min[j], positions[i + j]);
+        max[j] = Math.max(max[j], positions[i + j]);
+      }
+    }
+    return this.addAccessor(positions, AccessorComponentType.Float, "VEC3", positions.length / 3, BufferViewTarget.ArrayBuffer, { min, max });
+  }
+
+  private addMeshPrimitive(mesh: ExportGraphicsMesh, color: number, materialId?: Id64String, textureId?: Id64String, origin?: Point3d): GltfMeshPrimitive {
+    const vertexCount = mesh.points.length / 3;
+    const hasTexture = undefined !== textureId && Id64.isValidId64(textureId) && mesh.params.length > 0;
+    const primitive: GltfMeshPrimitive = {
+      mode: MeshPrimitiveMode.GlTriangles,
+      material: this.findOrAddMaterial(color, materialId, hasTexture ? textureId : undefined, mesh.isTwoSided),
+      indices: this.addIndices(mesh.indices, vertexCount),
+      attributes: { POSITION: this.addPositions(mesh.points, origin) }, // eslint-disable-line @typescript-eslint/naming-convention
+    };
+
+    if (mesh.normals.length > 0)
+      primitive.attributes.NORMAL = this.addAccessor(this.convertXYZ(mesh.normals), AccessorComponentType.Float, "VEC3", vertexCount, BufferViewTarget.ArrayBuffer);
+
+    if (hasTexture) {
+      // glTF places the origin of texture coordinates at the top left of the image.
+      const params = new Float32Array(mesh.params.length);
+      for (let i = 0; i < params.length; i += 2) {
+        params[i] = mesh.params[i];
+        params[i + 1] = 1 - mesh.params[i + 1];
+      }
+      primitive.attributes.TEXCOORD_0 = this.addAccessor(params, AccessorComponentType.Float, "VEC2", vertexCount, BufferViewTarget.ArrayBuffer);
+    }
+    return primitive;
+  }
+
+  private addLinesPrimitive(lines: ExportGraphicsLines, color: number, origin?: Point3d): GltfMeshPrimitive {
+    return {
+      mode: MeshPrimitiveMode.GlLines,
+      material: this.findOrAddMaterial(color, undefined, undefined, true),
+      indices: this.addIndices(lines.indices, lines.points.length / 3),
+      attributes: { POSITION: this.addPositions(lines.points, origin) }, // eslint-disable-line @typescript-eslint/naming-convention
+    };
+  }
+
+  private findOrAddMaterial(color: number, materialId: Id64String | undefined, textureId: Id64String | undefined, doubleSided: boolean): number {
+    const key = `${color}:${materialId ?? ""}:${textureId ?? ""}:${doubleSided}`;
+    let index = this._materialIndices.get(key);
+    if (undefined !== index)
+      return index;
+
+    const colors = ColorDef.getColors(color);
+    const alpha = (255 - colors.t) / 255;
+    let baseColor = [colors.r / 255, colors.g / 255, colors.b / 255];
+    let roughness = 1;
+    let name: string | undefined;
+
+    const renderMaterial = (undefined !== materialId && Id64.isValidId64(materialId)) ? this.iModel.elements.tryGetElement<RenderMaterialElement>(materialId) : undefined;
+    const assetProps = (renderMaterial?.jsonProperties as RenderMaterialProps["jsonProperties"])?.materialAssets?.renderMaterial;
+    if (undefined !== renderMaterial) {
+      const codeValue = renderMaterial.code.getValue();
+      name = codeValue.length > 0 ? codeValue : undefined;
+    }
+    if (undefined !== assetProps) {
+      if (assetProps.HasBaseColor && undefined !== assetProps.color)
+        baseColor = assetProps.color.slice(0, 3);
+
+      // Approximate the roughness corresponding to the specular exponent of the material.
+      if (assetProps.HasFinish && undefined !== assetProps.finish)
+        roughness = Math.sqrt(2 / (Math.max(assetProps.finish, 0) + 2));
+    }
+
+    const material: GltfMaterial = {
+      name,
+      doubleSided,
+      pbrMetallicRoughness: {
+        baseColorFactor: undefined !== textureId ? [1, 1, 1, alpha] : [...baseColor, alpha],
+        metallicFactor: 0,
+        roughnessFactor: roughness,
+      },
+    };
+    if (alpha < 1)
+      material.alphaMode = "BLEND";
+
+    if (undefined !== textureId) {
+      const textureIndex = this.findOrAddTexture(textureId);
+      if (undefined !== textureIndex)
+        material.pbrMetallicRoughness.baseColorTexture = { index: textureIndex };
+    }
+
+    index = this._gltf.materials.length;
+    this._gltf.materials.push(material);
+    this._materialIndices.set(key, index);
+    return index;
+  }
+
+  private findOrAddTexture(textureId: Id64String): number | undefined {
+    let index = this._textureIndices.get(textureId);
+    if (undefined !== index)
+      return index;
+
+    const texture = this.iModel.elements.tryGetElement<Texture>(textureId);
+    if (undefined === texture) {
+      Logger.logWarning(loggerCategory, `Texture ${textureId} not found`);
+      return undefined;
+    }
+
+    const gltf = this._gltf;
+    if (undefined === gltf.textures) {
+      gltf.textures = [];
+      gltf.images = [];
+      gltf.samplers = [{}]; // default sampler wraps (repeats) in both directions
+    }
+
+    const bufferView = gltf.bufferViews.length;
+    gltf.bufferViews.push({ buffer: 0, byteOffset: this._binary.append(texture.data), byteLength: texture.data.byteLength });
+    gltf.images!.push({ bufferView, mimeType: ImageSourceFormat.Jpeg === texture.format ? "image/jpeg" : "image/png" });
+
+    index = gltf.textures.length;
+    gltf.textures.push({ source: gltf.images!.length - 1, sampler: 0 });
+    this._textureIndices.set(textureId, index);
+    return index;
+  }
+
+  /** Assemble the GLB: a 12 byte header followed by the JSON chunk and the binary chunk, each padded to 4 bytes. */
+  private toGlb(): Buffer {
+    const binChunk = this._binary.toBuffer();
+    const hasBinChunk = binChunk.length > 0;
+    if (!hasBinChunk)
+      delete this._gltf.buffers;
+
+    const json = Buffer.from(JSON.stringify(this._gltf), "utf8");
+    const jsonChunk = Buffer.alloc(Math.ceil(json.length / 4) * 4, " "); // pad by bytes, not characters
+    json.copy(jsonChunk);
+    const totalLength = 12 + 8 + jsonChunk.length + (hasBinChunk ? 8 + binChunk.length : 0);
+    const header = Buffer.alloc(20);
+    header.writeUInt32LE(0x46546C67, 0); // "glTF"
+    header.writeUInt32LE(2, 4);
+    header.writeUInt32LE(totalLength, 8);
+    header.writeUInt32LE(jsonChunk.length, 12);
+    header.writeUInt32LE(0x4E4F534A, 16); // "JSON"
+    if (!hasBinChunk)
+      return Buffer.concat([header, jsonChunk]);
+
+    const binHeader = Buffer.alloc(8);
+    binHeader.writeUInt32LE(binChunk.length, 0);
+    binHeader.writeUInt32LE(0x004E4942, 4); // "BIN\0"
+    return Buffer.concat([header, jsonChunk, binHeader, binChunk]);
+  }
+
+  private queryGeometricElements3d(): Id64Array {
+    const elementIdArray: Id64Array = [];
+    this.iModel.withPreparedStatement("SELECT ECInstanceId FROM bis.GeometricElement3d", (statement: ECSqlStatement) => {
+      while (DbResult.BE_SQLITE_ROW === statement.step())
+        elementIdArray.push(statement.getValue(0).getId());
+    });
+    return elementIdArray;
+  }
+}
@@ -5,13 +5,26 @@
 /** @packageDocumentation
  * @module iModels
  */
-import { Id64, Id64String } from "@bentley/bentleyjs-core";
-import { CodeScopeSpec, CodeSpec, ElementProps, IModel, PropertyMetaData, RelatedElement } from "@bentley/imodeljs-common";
+import { Id64, Id64String, IModelStatus } from "@bentley/bentleyjs-core";
+import { Code, CodeProps, CodeScopeSpec, CodeSpec, ElementProps, IModel, IModelError, PropertyMetaData, RelatedElement } from "@bentley/imodeljs-common";
 import { IModelJsNative } from "@bentley/imodeljs-native";
 import { Element } from "./Element";
 import { IModelDb } from "./IModelDb";
 import { IModelHost } from "./IModelHost";
 
+/** The remapping rules of an [[IModelCloneContext]] in a form that can be persisted and later restored.
+ * @see [[IModelCloneContext.takeRecordedState]], [[IModelCloneContext.loadState]]
+ * @beta
+ */
+export interface IModelCloneContextState {
+  /** Pairs of source and target ElementIds. A target Id of [Id64.invalid]($bentley) removes the rule for the source Element. */
+  elementIds: Array<[Id64String, Id64String]>;
+  /** Pairs of source and target CodeSpec names. */
+  codeSpecNames: Array<[string, string]>;
+  /** Pairs of source and target class full names. */
+  classFullNames: Array<[string, string]>;
+}
+
 /** The context for transforming a *source* Element to a *target* Element and remapping internal identifiers to the target iModel.
  * @beta
  */
@@ -22,6 +35,8 @@ export class IModelCloneContext {
   public readonly targetDb: IModelDb;
   /** The native import context */
   private _nativeContext: IModelJsNative.ImportContext;
+  /** The remapping rules added since [[recordState]] or [[takeRecordedState]] was called, tracked in JavaScript since the native import context cannot enumerate them. */
+  private _recordedState?: { elementIds: Map<Id64String, Id64String>, codeSpecNames: Map<string, string>, classFullNames: Map<string, string> };
 
   /** Construct a new IModelCloneContext.
    * @param sourceDb The source IModelDb.
@@ -53,21 +68,60 @@ export class IModelCloneContext {
     const sourceCodeSpec: CodeSpec = this.sourceDb.codeSpecs.getByName(sourceCodeSpecName);
     const targetCodeSpec: CodeSpec = this.targetDb.codeSpecs.getByName(targetCodeSpecName);
     this._nativeContext.addCodeSpecId(sourceCodeSpec.id, targetCodeSpec.id);
+    this._recordedState?.codeSpecNames.set(sourceCodeSpecName, targetCodeSpecName);
   }
 
   /** Add a rule that remaps the specified source class to the specified target class. */
   public remapElementClass(sourceClassFullName: string, targetClassFullName: string): void {
     this._nativeContext.addClass(sourceClassFullName, targetClassFullName);
+    this._recordedState?.classFullNames.set(sourceClassFullName, targetClassFullName);
   }
 
   /** Add a rule that remaps the specified source Element to the specified target Element. */
   public remapElement(sourceId: Id64String, targetId: Id64String): void {
     this._nativeContext.addElementId(sourceId, targetId);
+    this._recordedState?.elementIds.set(sourceId, targetId);
   }
 
   /** Remove a rule that remaps the specified source Element. */
   public removeElement(sourceId: Id64String): void {
     this._nativeContext.removeElementId(sourceId);
+    this._recordedState?.elementIds.set(sourceId, Id64.invalid);
+  }
+
+  /** Start recording the remapping rules that are subsequently added to or removed from this IModelCloneContext so they can be saved by [[takeRecordedState]]. */
+  public recordState(): void {
+    if (undefined === this._recordedState) {
+      this._recordedState = { elementIds: new Map<Id64String, Id64String>(), codeSpecNames: new Map<string, string>(), classFullNames: new Map<string, string>() };
+    }
+  }
+
+  /** Return the remapping rules recorded since [[recordState]] or the previous call to this method so they can be restored later by [[loadState]].
+   * Each call only returns the changes since the previous call, so the rules can be persisted incrementally and restored by loading each result in order.
+   * @note Only the rules added through the `remap*` methods and removed by [[removeElement]] are recorded. SubCategory filters and imported fonts and CodeSpecs are not.
+   * @throws [[IModelError]] if [[recordState]] has not been called.
+   */
+  public takeRecordedState(): IModelCloneContextState {
+    if (undefined === this._recordedState) {
+      throw new IModelError(IModelStatus.BadRequest, "The IModelCloneContext is not recording its state");
+    }
+    const state: IModelCloneContextState = {
+      elementIds: Array.from(this._recordedState.elementIds),
+      codeSpecNames: Array.from(this._recordedState.codeSpecNames),
+      classFullNames: Array.from(this._recordedState.classFullNames),
+    };
+    this._recordedState = undefined;
+    this.recordState();
+    return state;
+  }
+
+  /** Restore remapping rules previously saved by [[takeRecordedState]].
+   * @throws [[IModelError]] if a remapped CodeSpec could not be found.
+   */
+  public loadState(state: IModelCloneContextState): void {
+    state.codeSpecNames.forEach(([sourceCodeSpecName, targetCodeSpecName]) => this.remapCodeSpec(sourceCodeSpecName, targetCodeSpecName));
+    state.classFullNames.forEach(([sourceClassFullName, targetClassFullName]) => this.remapElementClass(sourceClassFullName, targetClassFullName));
+    state.elementIds.forEach(([sourceId, targetId]) => Id64.isValidId64(targetId) ? this.remapElement(sourceId, targetId) : this.removeElement(sourceId));
   }
 
   /** Look up a target CodeSpecId from the source CodeSpecId.
@@ -90,6 +144,24 @@ export class IModelCloneContext {
     return this._nativeContext.findElementId(sourceElementId);
   }
 
+  /** Look up the target Element that uses the specified Code. This is how [[IModelTransformer]] and [[IModelDiff]] match a source Element that has not been remapped otherwise.
+   * An Element of a different class does not match, since matching it would change the class of the target Element.
+   * @param targetCode The Code of the source Element, remapped to the target iModel.
+   * @param targetClassFullName The class of the source Element in the target iModel.
+   * @returns the target ElementId, [Id64.invalid]($bentley) if the Code is used by an Element of a different class, or undefined if the Code is empty or not used.
+   * @internal
+   */
+  public findTargetElementIdByCode(targetCode: CodeProps, targetClassFullName: string): Id64String | undefined {
+    if (Code.isEmpty(targetCode)) {
+      return undefined;
+    }
+    const targetElementId: Id64String | undefined = this.targetDb.elements.queryElementIdByCode(new Code(targetCode));
+    if (undefined === targetElementId) {
+      return undefined;
+    }
+    return targetClassFullName === this.targetDb.elements.getElementProps(targetElementId).classFullName ? targetElementId : Id64.invalid;
+  }
+
   /** Filter out the specified SubCategory from GeometryStreams in the target iModel. */
   public filterSubCategory(sourceSubCategoryId: Id64String): void {
     this._nativeContext.filterSubCategoryId(sourceSubCategoryId);
@@ -0,0 +1,470 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module iModels
+ */
+import { DbResult, Id64, Id64String, Logger } from "@bentley/bentleyjs-core";
+import { Code, ElementProps, EntityProps, GeometrySummaryVerbosity, IModel, ModelProps } from "@bentley/imodeljs-common";
+import { BackendLoggerCategory } from "./BackendLoggerCategory";
+import { ECSqlStatement } from "./ECSqlStatement";
+import { Element, GeometricElement, GeometryPart } from "./Element";
+import { ElementAspect, ExternalSourceAspect } from "./ElementAspect";
+import { generateGeometrySummaries } from "./GeometrySummary";
+import { IModelCloneContext } from "./IModelCloneContext";
+import { IModelDb } from "./IModelDb";
+import { ElementDrivesElement, ElementRefersToElements, RelationshipProps } from "./Relationship";
+
+const loggerCategory: string = BackendLoggerCategory.IModelDiff;
+
+/** Options provided to the [[IModelDiff]] constructor.
+ * @beta
+ */
+export interface IModelDiffOptions {
+  /** Set to false to skip comparing the GeometryStreams of matched elements. The default is `true`. */
+  compareGeometry?: boolean;
+  /** The verbosity of the geometry summaries that are compared. The default is [GeometrySummaryVerbosity.Full]($common), which detects any change in coordinates. */
+  geometryVerbosity?: GeometrySummaryVerbosity;
+}
+
+/** A difference in the value of a property of an entity that exists in both iModels compared by [[IModelDiff]].
+ * @beta
+ */
+export interface IModelDiffProperty {
+  /** The name of the property. Differences within nested objects (e.g. `jsonProperties`) are reported by dotted paths like `jsonProperties.UserProps.color`. */
+  propertyName: string;
+  /** The value in the old iModel, with Ids remapped to the new iModel. Undefined if the property is not set in the old iModel. */
+  oldValue?: any;
+  /** The value in the new iModel. Undefined if the property is not set in the new iModel. */
+  newValue?: any;
+}
+
+/** An entity (element, model, aspect or relationship) added, removed or modified between the iModels compared by [[IModelDiff]].
+ * @beta
+ */
+export interface IModelDiffEntity {
+  /** The full name of the entity's class. For a modified entity, this is its class in the new iModel. */
+  classFullName: string;
+  /** The Id of the entity in the old iModel. Undefined for an added entity. */
+  oldId?: Id64String;
+  /** The Id of the entity in the new iModel. Undefined for a removed entity. */
+  newId?: Id64String;
+  /** The property differences of a modified entity. */
+  properties?: IModelDiffProperty[];
+}
+
+/** An added, removed or modified [[Element]].
+ * @beta
+ */
+export interface IModelDiffElement extends IModelDiffEntity {
+  /** The geometry summary (see [GeometrySummaryRequestProps]($common)) of the GeometryStream in each iModel, if the element is modified and its geometry differs. */
+  geometry?: { oldSummary: string, newSummary: string };
+}
+
+/** An added, removed or modified [[ElementAspect]] of an element that exists in both iModels.
+ * @beta
+ */
+export interface IModelDiffAspect extends IModelDiffEntity {
+  /** The Id of the owning element in the old iModel. */
+  oldElementId: Id64String;
+  /** The Id of the owning element in the new iModel. */
+  newElementId: Id64String;
+}
+
+/** The added, removed and modified entities of one kind.
+ * @beta
+ */
+export interface IModelDiffChanges<T extends IModelDiffEntity> {
+  added: T[];
+  removed: T[];
+  modified: T[];
+}
+
+/** The differences between the iModels compared by [[IModelDiff]].
+ * @beta
+ */
+export interface IModelDiffResult {
+  elements: IModelDiffChanges<IModelDiffElement>;
+  models: IModelDiffChanges<IModelDiffEntity>;
+  aspects: IModelDiffChanges<IModelDiffAspect>;
+  /** Differences in link table relationships, i.e. [[ElementRefersToElements]], [[ElementDrivesElement]] and their subclasses.
+   * Navigation relationships, e.g. [[ElementOwnsChildElements]], are compared as navigation properties of the elements, models and aspects.
+   */
+  relationships: IModelDiffChanges<IModelDiffEntity>;
+}
+
+/** Properties that are not compared because they are Ids local to each iModel or are compared separately. */
+const excludedPropertyNames = ["id", "geom", "geomBinary"];
+
+/** Matches the Ids in a geometry summary: those of the element, its category and model, its part references and the elements referenced by its symbology.
+ * Other hexadecimal text, e.g. of a TextString, is not an Id.
+ */
+const geometrySummaryIds = /(Element |Category: |Model: |part id: |Part references \(\d+\): |"(?:categoryId|subCategoryId|materialId|styleId|symbolId|textureId)":")(0x[0-9a-fA-F]+(?:,0x[0-9a-fA-F]+)*)/g;
+
+/** Compares two iModels (typically [[SnapshotDb]]s produced by successive deliveries of a connector) and reports what changed from the *old* to the *new* iModel.
+ * Since Ids are local to each iModel, elements are matched:
+ * - by FederationGuid,
+ * - by [[ExternalSourceAspect]] kind, scope and identifier,
+ * - by [Code]($common), if the matched elements have the same class.
+ *
+ * Matching by Code is shared with [[IModelTransformer]]. The other rules differ from the transformer's, which finds the target elements by the ExternalSourceAspects that record the Ids of the source elements it has copied.
+ * The iModels compared here are typically not related by a transformation, so their elements are matched by the FederationGuids and ExternalSourceAspects that a connector stores alike in each delivery.
+ *
+ * Matches are recorded in an [[IModelCloneContext]] from the old to the new iModel, which remaps Ids in the old properties before comparing them to the new properties.
+ * @see [iModel Transformation and Data Exchange]($docs/learning/backend/IModelTransformation.md)
+ * @beta
+ */
+export class IModelDiff {
+  /** The iModel to compare from. */
+  public readonly oldDb: IModelDb;
+  /** The iModel to compare to. */
+  public readonly newDb: IModelDb;
+  /** The context that maps old Ids to new Ids. */
+  public readonly context: IModelCloneContext;
+
+  private readonly _compareGeometry: boolean;
+  private readonly _geometryVerbosity: GeometrySummaryVerbosity;
+  /** The matched old --> new element Ids, kept in addition to `context` so that they can be enumerated. */
+  private readonly _oldToNewIds = new Map<Id64String, Id64String>();
+  private readonly _matchedNewIds = new Set<Id64String>();
+
+  /** Construct a new IModelDiff
+   * @param oldDb The iModel to compare from.
+   * @param newDb The iModel to compare to.
+   * @param options The options that specify how the comparison should be done.
+   */
+  public constructor(oldDb: IModelDb, newDb: IModelDb, options?: IModelDiffOptions) {
+    this.oldDb = oldDb;
+    this.newDb = newDb;
+    this._compareGeometry = options?.compareGeometry ?? true;
+    this._geometryVerbosity = options?.geometryVerbosity ?? GeometrySummaryVerbosity.Full;
+    this.context = new IModelCloneContext(oldDb, newDb);
+  }
+
+  /** Dispose any native resources associated with this IModelDiff. */
+  public dispose(): void {
+    this.context.dispose();
+  }
+
+  /** Look up the Id of the element in the new iModel that matches an element of the old iModel.
+   * @returns the matching Id or undefined if the element was removed or [[compare]] has not been called.
+   */
+  public findNewElementId(oldElementId: Id64String): Id64String | undefined {
+    return this._oldToNewIds.get(oldElementId);
+  }
+
+  /** Match the elements of the iModels and return their differences. */
+  public compare(): IModelDiffResult {
+    this.matchElements();
+    const result: IModelDiffResult = {
+      elements: { added: [], removed: [], modified: [] },
+      models: { added: [], removed: [], modified: [] },
+      aspects: { added: [], removed: [], modified: [] },
+      relationships: { added: [], removed: [], modified: [] },
+    };
+    this.compareElements(result);
+    this.compareModels(result.models);
+    this.compareRelationships(result.relationships);
+    Logger.logInfo(loggerCategory, `Elements added: ${result.elements.added.length}, removed: ${result.elements.removed.length}, modified: ${result.elements.modified.length}`);
+    return result;
+  }
+
+  private recordMatch(oldElementId: Id64String, newElementId: Id64String): void {
+    this.context.remapElement(oldElementId, newElementId);
+    this._oldToNewIds.set(oldElementId, newElementId);
+    this._matchedNewIds.add(newElementId);
+  }
+
+  private static queryIds(iModelDb: IModelDb, sql: string): Id64String[] {
+    const ids: Id64String[] = [];
+    iModelDb.withPreparedStatement(sql, (statement: ECSqlStatement) => {
+      while (DbResult.BE_SQLITE_ROW === statement.step())
+        ids.push(statement.getValue(0).getId());
+    });
+    return ids;
+  }
+
+  /** Map FederationGuids to the Ids of the elements that have them. */
+  private static queryFederationGuids(iModelDb: IModelDb): Map<string, Id64String> {
+    const guids = new Map<string, Id64String>();
+    iModelDb.withPreparedStatement(`SELECT ECInstanceId,FederationGuid FROM ${Element.classFullName} WHERE FederationGuid IS NOT NULL`, (statement: ECSqlStatement) => {
+      while (DbResult.BE_SQLITE_ROW === statement.step())
+        guids.set(statement.getValue(1).getGuid(), statement.getValue(0).getId());
+    });
+    return guids;
+  }
+
+  /** Return the element-kind ExternalSourceAspects of an iModel as [elementId, scopeId, identifier] tuples. */
+  private static queryExternalSourceAspects(iModelDb: IModelDb): Array<[Id64String, Id64String, string]> {
+    const aspects: Array<[Id64String, Id64String, string]> = [];
+    if (!iModelDb.containsClass(ExternalSourceAspect.classFullName))
+      return aspects;
+    const sql = `SELECT Element.Id,Scope.Id,Identifier FROM ${ExternalSourceAspect.classFullName} WHERE Kind=:kind`;
+    iModelDb.withPreparedStatement(sql, (statement: ECSqlStatement) => {
+      statement.bindString("kind", ExternalSourceAspect.Kind.Element);
+      while (DbResult.BE_SQLITE_ROW === statement.step())
+        aspects.push([statement.getValue(0).getId(), statement.getValue(1).getId(), statement.getValue(2).getString()]);
+    });
+    return aspects;
+  }
+
+  /** Match the elements of the old iModel to the elements of the new iModel. */
+  private matchElements(): void {
+    // The root Subject and dictionary model are the same in every iModel
+    this.recordMatch(IModel.rootSubjectId, IModel.rootSubjectId);
+    this.recordMatch(IModel.dictionaryId, IModel.dictionaryId);
+    this.oldDb.withPreparedStatement("SELECT Name FROM BisCore.CodeSpec", (statement: ECSqlStatement) => {
+      while (DbResult.BE_SQLITE_ROW === statement.step()) {
+        const codeSpecName = statement.getValue(0).getString();
+        if (this.newDb.codeSpecs.hasName(codeSpecName))
+          this.context.remapCodeSpec(codeSpecName, codeSpecName);
+      }
+    });
+
+    const newGuids = IModelDiff.queryFederationGuids(this.newDb);
+    IModelDiff.queryFederationGuids(this.oldDb).forEach((oldElementId: Id64String, guid: string) => {
+      const newElementId = newGuids.get(guid);
+      if (undefined !== newElementId && !this._oldToNewIds.has(oldElementId) && !this._matchedNewIds.has(newElementId))
+        this.recordMatch(oldElementId, newElementId);
+    });
+
+    // Aspect scopes and Code scopes are themselves elements, so keep matching until no more matches are found
+    const newAspectIndex = new Map<string, Id64String>();
+    for (const [elementId, scopeId, identifier] of IModelDiff.queryExternalSourceAspects(this.newDb))
+      newAspectIndex.set(`${scopeId}|${identifier}`, elementId);
+    const oldAspects = IModelDiff.queryExternalSourceAspects(this.oldDb);
+    let unmatchedIds = IModelDiff.queryIds(this.oldDb, `SELECT ECInstanceId FROM ${Element.classFullName}`).filter((id: Id64String) => !this._oldToNewIds.has(id));
+    let numMatched: number;
+    do {
+      numMatched = this._oldToNewIds.size;
+      for (const [oldElementId, oldScopeId, identifier] of oldAspects) {
+        const newScopeId = this._oldToNewIds.get(oldScopeId);
+        const newElementId = undefined !== newScopeId ? newAspectIndex.get(`${newScopeId}|${identifier}`) : undefined;
+        if (undefined !== newElementId && !this._oldToNewIds.has(oldElementId) && !this._matchedNewIds.has(newElementId))
+          this.recordMatch(oldElementId, newElementId);
+      }
+      for (const oldElementId of unmatchedIds) {
+        if (!this._oldToNewIds.has(oldElementId))
+          this.matchElementByCode(oldElementId);
+      }
+      unmatchedIds = unmatchedIds.filter((id: Id64String) => !this._oldToNewIds.has(id));
+    } while (this._oldToNewIds.size > numMatched && unmatchedIds.length > 0);
+    Logger.logTrace(loggerCategory, `Matched ${this._oldToNewIds.size} elements, ${unmatchedIds.length} unmatched`);
+  }
+
+  /** Match an element by its Code, as [[IModelTransformer]] does for elements that it has not already remapped. */
+  private matchElementByCode(oldElementId: Id64String): void {
+    const oldElementProps: ElementProps = this.oldDb.elements.getElementProps(oldElementId);
+    const newSpecId = this.context.findTargetCodeSpecId(oldElementProps.code.spec);
+    const newScopeId = this.context.findTargetElementId(oldElementProps.code.scope);
+    if (!Id64.isValidId64(newSpecId) || !Id64.isValidId64(newScopeId))
+      return;
+    const newCode = new Code({ spec: newSpecId, scope: newScopeId, value: oldElementProps.code.value });
+    const newElementId = this.context.findTargetElementIdByCode(newCode, oldElementProps.classFullName);
+    if (undefined !== newElementId && Id64.isValidId64(newElementId) && !this._matchedNewIds.has(newElementId))
+      this.recordMatch(oldElementId, newElementId);
+  }
+
+  private compareElements(result: IModelDiffResult): void {
+    for (const oldElementId of IModelDiff.queryIds(this.oldDb, `SELECT ECInstanceId FROM ${Element.classFullName}`)) {
+      const newElementId = this._oldToNewIds.get(oldElementId);
+      if (undefined === newElementId) {
+        result.elements.removed.push({ classFullName: this.oldDb.elements.getElementProps(oldElementId).classFullName, oldId: oldElementId });
+        continue;
+      }
+      const oldElement: Element = this.oldDb.elements.getElement(oldElementId);
+      const newElement: Element = this.newDb.elements.getElement(newElementId);
+      const properties = IModelDiff.compareProps(this.context.cloneElement(oldElement, { binaryGeometry: true }), this.newDb.elements.getElementProps(newElementId));
+      const geometry = this._compareGeometry ? this.compareGeometry(oldElement, newElement) : undefined;
+      if (properties.length > 0 || undefined !== geometry)
+        result.elements.modified.push({ classFullName: newElement.classFullName, oldId: oldElementId, newId: newElementId, properties, geometry });
+      this.compareAspects(oldElementId, newElementId, result.aspects);
+    }
+    for (const newElementId of IModelDiff.queryIds(this.newDb, `SELECT ECInstanceId FROM ${Element.classFullName}`)) {
+      if (!this._matchedNewIds.has(newElementId))
+        result.elements.added.push({ classFullName: this.newDb.elements.getElementProps(newElementId).classFullName, newId: newElementId });
+    }
+  }
+
+  private compareGeometry(oldElement: Element, newElement: Element): { oldSummary: string, newSummary: string } | undefined {
+    if (!(oldElement instanceof GeometricElement || oldElement instanceof GeometryPart) || !(newElement instanceof GeometricElement || newElement instanceof GeometryPart))
+      return undefined;
+    const options = { geometryVerbosity: this._geometryVerbosity };
+    // Summaries include element, category, model and part Ids, so remap those of the old iModel
+    const oldSummary = generateGeometrySummaries({ elementIds: [oldElement.id], options }, this.oldDb)
+      .replace(geometrySummaryIds, (_match: string, label: string, ids: string) => label + ids.split(",").map((id: string) => this._oldToNewIds.get(id) ?? id).join());
+    const newSummary = generateGeometrySummaries({ elementIds: [newElement.id], options }, this.newDb);
+    return oldSummary !== newSummary ? { oldSummary, newSummary } : undefined;
+  }
+
+  /** Aspects are matched by class and, for ExternalSourceAspects, by kind, scope and identifier. Other multi-aspects of a class are matched in order. */
+  private aspectKey(aspect: ElementAspect, ordinal: number, isOld: boolean): string {
+    if (aspect instanceof ExternalSourceAspect) {
+      const scopeId = isOld ? this._oldToNewIds.get(aspect.scope.id) ?? Id64.invalid : aspect.scope.id;
+      return `${aspect.classFullName}|${aspect.kind}|${scopeId}|${aspect.identifier}`;
+    }
+    return `${aspect.classFullName}|${ordinal}`;
+  }
+
+  private indexAspects(aspects: ElementAspect[], isOld: boolean): Map<string, ElementAspect> {
+    const index = new Map<string, ElementAspect>();
+    const classCounts = new Map<string, number>();
+    for (const aspect of aspects) {
+      const ordinal = classCounts.get(aspect.classFullName) ?? 0;
+      classCounts.set(aspect.classFullName, ordinal + 1);
+      index.set(this.aspectKey(aspect, ordinal, isOld), aspect);
+    }
+    return index;
+  }
+
+  private compareAspects(oldElementId: Id64String, newElementId: Id64String, changes: IModelDiffChanges<IModelDiffAspect>): void {
+    const oldAspects = this.indexAspects(this.oldDb.elements.getAspects(oldElementId), true);
+    const newAspects = this.indexAspects(this.newDb.elements.getAspects(newElementId), false);
+    oldAspects.forEach((oldAspect: ElementAspect, key: string) => {
+      const newAspect = newAspects.get(key);
+      if (undefined === newAspect) {
+        changes.removed.push({ classFullName: oldAspect.classFullName, oldId: oldAspect.id, oldElementId, newElementId });
+        return;
+      }
+      const properties = IModelDiff.compareProps(this.remapIds(oldAspect.toJSON()), newAspect.toJSON(), ["element"]);
+      if (properties.length > 0)
+        changes.modified.push({ classFullName: newAspect.classFullName, oldId: oldAspect.id, newId: newAspect.id, oldElementId, newElementId, properties });
+    });
+    newAspects.forEach((newAspect: ElementAspect, key: string) => {
+      if (!oldAspects.has(key))
+        changes.added.push({ classFullName: newAspect.classFullName, newId: newAspect.id, oldElementId, newElementId });
+    });
+  }
+
+  private compareModels(changes: IModelDiffChanges<IModelDiffEntity>): void {
+    const newModelIds = new Set<Id64String>(IModelDiff.queryIds(this.newDb, "SELECT ECInstanceId FROM BisCore.Model"));
+    const matchedNewModelIds = new Set<Id64String>();
+    for (const oldModelId of IModelDiff.queryIds(this.oldDb, "SELECT ECInstanceId FROM BisCore.Model")) {
+      const oldModelProps: ModelProps = this.oldDb.models.getModelProps(oldModelId);
+      const newModelId = this._oldToNewIds.get(oldModelId); // a model has the same Id as its modeled element
+      if (undefined === newModelId || !newModelIds.has(newModelId)) {
+        changes.removed.push({ classFullName: oldModelProps.classFullName, oldId: oldModelId });
+        continue;
+      }
+      matchedNewModelIds.add(newModelId);
+      const newModelProps: ModelProps = this.newDb.models.getModelProps(newModelId);
+      const properties = IModelDiff.compareProps(this.remapIds(oldModelProps), newModelProps);
+      if (properties.length > 0)
+        changes.modified.push({ classFullName: newModelProps.classFullName, oldId: oldModelId, newId: newModelId, properties });
+    }
+    for (const newModelId of newModelIds) {
+      if (!matchedNewModelIds.has(newModelId))
+        changes.added.push({ classFullName: this.newDb.models.getModelProps(newModelId).classFullName, newId: newModelId });
+    }
+  }
+
+  /** Map each link table relationship (of [[ElementRefersToElements]], [[ElementDrivesElement]] or their subclasses) by its class and its source and target in the new iModel.
+   * @param unmatched receives the relationships of the old iModel whose source or target was removed.
+   */
+  private indexRelationships(iModelDb: IModelDb, unmatched?: RelationshipProps[]): Map<string, RelationshipProps> {
+    const index = new Map<string, RelationshipProps>();
+    for (const baseClassFullName of [ElementRefersToElements.classFullName, ElementDrivesElement.classFullName]) {
+      for (const relInstanceId of IModelDiff.queryIds(iModelDb, `SELECT ECInstanceId FROM ${baseClassFullName}`)) {
+        let relProps = iModelDb.relationships.getInstanceProps(baseClassFullName, relInstanceId);
+        if (relProps.classFullName !== baseClassFullName) // query the properties of the subclass as well
+          relProps = iModelDb.relationships.getInstanceProps(relProps.classFullName, relInstanceId);
+        const sourceId = unmatched ? this._oldToNewIds.get(relProps.sourceId) : relProps.sourceId;
+        const targetId = unmatched ? this._oldToNewIds.get(relProps.targetId) : relProps.targetId;
+        if (undefined === sourceId || undefined === targetId)
+          unmatched!.push(relProps);
+        else
+          index.set(`${relProps.classFullName}|${sourceId}|${targetId}`, relProps);
+      }
+    }
+    return index;
+  }
+
+  private compareRelationships(changes: IModelDiffChanges<IModelDiffEntity>): void {
+    const removedRelationships: RelationshipProps[] = [];
+    const oldRelationships = this.indexRelationships(this.oldDb, removedRelationships);
+    const newRelationships = this.indexRelationships(this.newDb);
+    for (const oldRelProps of removedRelationships)
+      changes.removed.push({ classFullName: oldRelProps.classFullName, oldId: oldRelProps.id });
+    oldRelationships.forEach((oldRelProps: RelationshipProps, key: string) => {
+      const newRelProps = newRelationships.get(key);
+      if (undefined === newRelProps) {
+        changes.removed.push({ classFullName: oldRelProps.classFullName, oldId: oldRelProps.id });
+        return;
+      }
+      const properties = IModelDiff.compareProps(this.remapIds(oldRelProps), newRelProps, ["sourceId", "targetId"]);
+      if (properties.length > 0)
+        changes.modified.push({ classFullName: newRelProps.classFullName, oldId: oldRelProps.id, newId: newRelProps.id, properties });
+    });
+    newRelationships.forEach((newRelProps: RelationshipProps, key: string) => {
+      if (!oldRelationships.has(key))
+        changes.added.push({ classFullName: newRelProps.classFullName, newId: newRelProps.id });
+    });
+  }
+
+  /** Return a copy of the properties of an old entity with the Ids of related elements (e.g. `{ id, relClassName }` values) remapped to the new iModel. */
+  private remapIds<T extends EntityProps>(props: T): T {
+    return this.remapValue(props);
+  }
+
+  private remapValue(value: any): any {
+    if (Array.isArray(value))
+      return value.map((entry: any) => this.remapValue(entry));
+    if (null === value || "object" !== typeof value)
+      return value;
+    const result: { [key: string]: any } = {};
+    for (const key of Object.keys(value)) {
+      const propValue = value[key];
+      if ("id" !== key && "object" === typeof propValue && null !== propValue && "string" === typeof propValue.id && Id64.isId64(propValue.id))
+        result[key] = { ...propValue, id: this.context.findTargetElementId(propValue.id) };
+      else
+        result[key] = this.remapValue(propValue);
+    }
+    return result;
+  }
+
+  /** Treat related elements with an invalid Id like unset properties, since cloned properties set them explicitly. */
+  private static normalizeValue(value: any): any {
+    if ("object" === typeof value && null !== value && Id64.invalid === value.id)
+      return undefined;
+    return value;
+  }
+
+  private static isEqualValue(valueA: any, valueB: any): boolean {
+    if (valueA === valueB)
+      return true;
+    if ("object" !== typeof valueA || "object" !== typeof valueB || null === valueA || null === valueB || Array.isArray(valueA) !== Array.isArray(valueB))
+      return false;
+    const keys = new Set<string>([...Object.keys(valueA), ...Object.keys(valueB)]);
+    for (const key of keys) {
+      if (!this.isEqualValue(this.normalizeValue(valueA[key]), this.normalizeValue(valueB[key])))
+        return false;
+    }
+    return true;
+  }
+
+  /** Compare the properties of the old entity (with Ids already remapped) to those of the new entity. */
+  private static compareProps(oldProps: EntityProps, newProps: EntityProps, excludedNames: string[] = []): IModelDiffProperty[] {
+    const differences: IModelDiffProperty[] = [];
+    this.compareObjects(oldProps, newProps, [...excludedPropertyNames, ...excludedNames], "", differences);
+    return differences;
+  }
+
+  /** Compare the members of two objects, recursing into nested non-array objects. */
+  private static compareObjects(oldObject: { [key: string]: any }, newObject: { [key: string]: any }, excludedNames: string[], prefix: string, differences: IModelDiffProperty[]): void {
+    const keys = new Set<string>([...Object.keys(oldObject), ...Object.keys(newObject)]);
+    for (const key of keys) {
+      if (excludedNames.includes(key))
+        continue;
+      const oldValue = this.normalizeValue(oldObject[key]);
+      const newValue = this.normalizeValue(newObject[key]);
+      if (this.isEqualValue(oldValue, newValue))
+        continue;
+      const propertyName = `${prefix}${key}`;
+      if ("object" === typeof oldValue && "object" === typeof newValue && null !== oldValue && null !== newValue && !Array.isArray(oldValue) && !Array.isArray(newValue))
+        this.compareObjects(oldValue, newValue, [], `${propertyName}.`, differences);
+      else
+        differences.push({ propertyName, oldValue, newValue });
+    }
+  }
+}
@@ -6,18 +6,20 @@
  * @module iModels
  */
 import * as path from "path";
-import { ClientRequestContext, DbResult, Guid, GuidString, Id64, Id64Set, Id64String, IModelStatus, Logger, LogLevel } from "@bentley/bentleyjs-core";
+import {
+  ClientRequestContext, CompressedId64Set, DbResult, Guid, GuidString, Id64, Id64Set, Id64String, IModelStatus, Logger, LogLevel,
+} from "@bentley/bentleyjs-core";
 import { Transform } from "@bentley/geometry-core";
 import {
-  Code, CodeSpec, ElementAspectProps, ElementProps, ExternalSourceAspectProps, FontProps, GeometricElement3dProps, IModel, IModelError, ModelProps,
-  Placement3d, PrimitiveTypeCode, PropertyMetaData,
+  Code, CodeSpec, ElementAspectProps, ElementProps, ExternalSourceAspectProps, FilePropertyProps, FontProps, GeometricElement3dProps, IModel,
+  IModelError, ModelProps, Placement3d, PrimitiveTypeCode, PropertyMetaData,
 } from "@bentley/imodeljs-common";
 import { AuthorizedClientRequestContext } from "@bentley/itwin-client";
 import { BackendLoggerCategory } from "./BackendLoggerCategory";
 import { ECSqlStatement } from "./ECSqlStatement";
 import { DefinitionPartition, Element, GeometricElement3d, InformationPartitionElement, Subject } from "./Element";
 import { ChannelRootAspect, ElementAspect, ElementMultiAspect, ElementUniqueAspect, ExternalSourceAspect } from "./ElementAspect";
-import { IModelCloneContext } from "./IModelCloneContext";
+import { IModelCloneContext, IModelCloneContextState } from "./IModelCloneContext";
 import { IModelDb } from "./IModelDb";
 import { IModelExporter, IModelExportHandler } from "./IModelExporter";
 import { KnownLocations } from "./IModelHost";
@@ -54,8 +56,56 @@ export interface IModelTransformOptions {
    * @note The default is `true`.
    */
   cloneUsingBinaryGeometry?: boolean;
+
+  /** Flag that indicates whether or not [[IModelTransformer.processAll]] should checkpoint its progress so that it can be resumed and later re-run incrementally.
+   * When set, the changes to the target iModel are saved along with the [[IModelTransformerState]] every [IModelExporter.progressInterval]($backend) exported entities and again when `processAll` completes.
+   * A later `processAll` restores that state, skips the source Elements already processed by an interrupted run, and skips the source Elements not modified since the last completed run.
+   * @note The state is stored as file properties of the target iModel, so it is committed in the same transaction as the transformed entities.
+   * The default is `false`.
+   */
+  checkpoint?: boolean;
+}
+
+/** The state of an [[IModelTransformer]] as saved in the target iModel when the [[IModelTransformOptions.checkpoint]] option is set.
+ * @beta
+ */
+export interface IModelTransformerState {
+  /** The [[IModelDb.iModelId]] of the source iModel. */
+  sourceIModelId: GuidString;
+  /** The remapping rules of the [[IModelCloneContext]]. */
+  context: IModelCloneContextState;
+  /** The source Elements that were deferred because their predecessors had not been imported yet. */
+  deferredElementIds: CompressedId64Set;
+  /** The newest LastMod of the source Elements at the start of the last completed run. Later runs skip source Elements not modified since. */
+  lastModified?: string;
+  /** Defined when the last run was interrupted before it completed. */
+  resume?: {
+    /** The newest LastMod of the source Elements at the start of the interrupted run. */
+    lastModified: string;
+    /** The source Elements already processed by the interrupted run. */
+    processedElementIds: CompressedId64Set;
+  };
+}
+
+/** The part of the [[IModelTransformerState]] that each checkpoint rewrites.
+ * The remapping rules and the processed Elements are saved incrementally, by appending the changes since the previous checkpoint.
+ */
+interface IModelTransformerStateHeader {
+  sourceIModelId: GuidString;
+  deferredElementIds: CompressedId64Set;
+  lastModified?: string;
+  resumeLastModified?: string;
 }
 
+/** The names of the file properties of the target iModel that hold the parts of the [[IModelTransformerState]]. */
+const stateFilePropertyNames = {
+  header: "State",
+  /** The changes to the remapping rules, appended by each checkpoint. */
+  context: "ContextState",
+  /** The source Elements processed since the previous checkpoint, appended by each checkpoint and deleted when `processAll` completes. */
+  processedElements: "ProcessedElements",
+};
+
 /** Base class used to transform a source iModel into a different target iModel.
  * @see [iModel Transformation and Data Exchange]($docs/learning/backend/IModelTransformation.md), [IModelExporter]($backend), [IModelImporter]($backend)
  * @beta
@@ -80,6 +130,20 @@ export class IModelTransformer extends IModelExportHandler {
   private readonly _noProvenance: boolean;
   /** If true, clone elements using binary geometry as a performance optimization. */
   private readonly _cloneUsingBinaryGeometry: boolean;
+  /** If true, checkpoint the progress of [[processAll]] in the target iModel. */
+  private readonly _checkpoint: boolean;
+  /** The newest LastMod of the source Elements at the start of the last completed run. */
+  private _lastModified?: string;
+  /** The newest LastMod of the source Elements at the start of the current run. */
+  private _runLastModified?: string;
+  /** The source Elements processed by the interrupted runs being resumed, only tracked while checkpointing. */
+  private _resumedElementIds?: Id64Set;
+  /** The source Elements processed since the previous checkpoint, only tracked while checkpointing. */
+  private _processedElementIds?: Id64Set;
+  /** The number of changes to the remapping rules saved in the target iModel. */
+  private _numContextStates = 0;
+  /** The number of sets of processed source Elements saved in the target iModel. */
+  private _numProcessedStates = 0;
 
   /** Construct a new IModelTransformer
    * @param source Specifies the source IModelExporter or the source IModelDb that will be used to construct the source IModelExporter.
@@ -92,6 +156,7 @@ export class IModelTransformer extends IModelExportHandler {
     this.targetScopeElementId = options?.targetScopeElementId ?? IModel.rootSubjectId;
     this._noProvenance = options?.noProvenance ?? false;
     this._cloneUsingBinaryGeometry = options?.cloneUsingBinaryGeometry ?? true;
+    this._checkpoint = options?.checkpoint ?? false;
     // initialize exporter and sourceDb
     if (source instanceof IModelDb) {
       this.exporter = new IModelExporter(source);
@@ -307,16 +372,18 @@ export class IModelTransformer extends IModelExportHandler {
    * This override calls [[onTransformElement]] and then [IModelImporter.importElement]($backend) to update the target iModel.
    */
   protected onExportElement(sourceElement: Element): void {
+    if (this.isElementUpToDate(sourceElement.id)) {
+      return;
+    }
     let targetElementId: Id64String | undefined = this.context.findTargetElementId(sourceElement.id);
     const targetElementProps: ElementProps = this.onTransformElement(sourceElement);
     if (!Id64.isValidId64(targetElementId)) {
-      targetElementId = this.targetDb.elements.queryElementIdByCode(new Code(targetElementProps.code));
+      targetElementId = this.context.findTargetElementIdByCode(targetElementProps.code, targetElementProps.classFullName);
       if (undefined !== targetElementId) {
-        const targetElement: Element = this.targetDb.elements.getElement(targetElementId);
-        if (targetElement.classFullName === targetElementProps.classFullName) { // ensure code remapping doesn't change the target class
+        if (Id64.isValidId64(targetElementId)) {
           this.context.remapElement(sourceElement.id, targetElementId); // record that the targeElement was found by Code
         } else {
-          targetElementId = undefined;
+          targetElementId = undefined; // the Code is used by an Element of a different class
           targetElementProps.code = Code.createEmpty(); // clear out invalid code
         }
       }
@@ -324,6 +391,7 @@ export class IModelTransformer extends IModelExportHandler {
     if (undefined !== targetElementId) {
       // compare LastMod of sourceElement to ExternalSourceAspect of targetElement to see there are changes to import
       if (!this.hasElementChanged(sourceElement, targetElementId)) {
+        this._processedElementIds?.add(sourceElement.id);
         return;
       }
     } else {
@@ -353,6 +421,23 @@ export class IModelTransformer extends IModelExportHandler {
         this.targetDb.elements.updateAspect(aspectProps);
       }
     }
+    this._processedElementIds?.add(sourceElement.id);
+  }
+
+  /** Returns true if the target iModel already reflects the specified source Element according to the checkpointed state.
+   * That is the case if the Element was processed by an interrupted run that is being resumed, or if it was not modified since the last completed run.
+   */
+  private isElementUpToDate(sourceElementId: Id64String): boolean {
+    if (undefined === this._resumedElementIds) {
+      return false; // not checkpointing
+    }
+    if (this._resumedElementIds.has(sourceElementId)) {
+      return true;
+    }
+    if ((undefined === this._lastModified) || !Id64.isValidId64(this.context.findTargetElementId(sourceElementId))) {
+      return false;
+    }
+    return this.sourceDb.elements.queryLastModifiedTime(sourceElementId) <= this._lastModified; // LastMod values are ISO 8601 strings, so they sort chronologically
   }
 
   /** Override of [IModelExportHandler.onDeleteElement]($backend) that is called when [IModelExporter]($backend) detects that an Element has been deleted from the source iModel.
@@ -665,11 +750,174 @@ export class IModelTransformer extends IModelExportHandler {
     this.processDeferredElements();
   }
 
+  /** Override of [IModelExportHandler.onProgress]($backend) that saves a checkpoint if the [[IModelTransformOptions.checkpoint]] option is set.
+   * @note A subclass that overrides this method should call `super.onProgress`.
+   */
+  protected onProgress(): void {
+    if (undefined !== this._processedElementIds) {
+      this.saveCheckpoint();
+    }
+  }
+
+  /** Returns the FilePropertyProps under which part of the state of IModelTransformers with the specified scope is saved in the target iModel. */
+  private static getStateFileProperty(targetScopeElementId: Id64String, name: string, subId?: number): FilePropertyProps {
+    return { namespace: "IModelTransformer", name, id: targetScopeElementId, subId };
+  }
+
+  /** Return the values of the file properties with the specified name that were appended by successive checkpoints. */
+  private static queryStateFileProperties(targetDb: IModelDb, targetScopeElementId: Id64String, name: string): string[] {
+    const values: string[] = [];
+    for (let subId = 0; ; subId++) {
+      const value: string | undefined = targetDb.queryFilePropertyString(this.getStateFileProperty(targetScopeElementId, name, subId));
+      if (undefined === value) {
+        return values;
+      }
+      values.push(value);
+    }
+  }
+
+  /** Query the [[IModelTransformerState]] saved in the target iModel by a checkpointed [[IModelTransformer.processAll]].
+   * @param targetDb The target iModel.
+   * @param targetScopeElementId The [[IModelTransformOptions.targetScopeElementId]] used by the transformation.
+   * @returns The saved state or `undefined` if no state has been saved.
+   */
+  public static queryState(targetDb: IModelDb, targetScopeElementId: Id64String = IModel.rootSubjectId): IModelTransformerState | undefined {
+    const json: string | undefined = targetDb.queryFilePropertyString(this.getStateFileProperty(targetScopeElementId, stateFilePropertyNames.header));
+    if (undefined === json) {
+      return undefined;
+    }
+    const header: IModelTransformerStateHeader = JSON.parse(json);
+    // merge the changes to the remapping rules
+    const elementIds = new Map<Id64String, Id64String>();
+    const codeSpecNames = new Map<string, string>();
+    const classFullNames = new Map<string, string>();
+    for (const contextJson of this.queryStateFileProperties(targetDb, targetScopeElementId, stateFilePropertyNames.context)) {
+      const contextState: IModelCloneContextState = JSON.parse(contextJson);
+      contextState.elementIds.forEach(([sourceId, targetId]) => Id64.isValidId64(targetId) ? elementIds.set(sourceId, targetId) : elementIds.delete(sourceId));
+      contextState.codeSpecNames.forEach(([sourceCodeSpecName, targetCodeSpecName]) => codeSpecNames.set(sourceCodeSpecName, targetCodeSpecName));
+      contextState.classFullNames.forEach(([sourceClassFullName, targetClassFullName]) => classFullNames.set(sourceClassFullName, targetClassFullName));
+    }
+    const state: IModelTransformerState = {
+      sourceIModelId: header.sourceIModelId,
+      context: { elementIds: Array.from(elementIds), codeSpecNames: Array.from(codeSpecNames), classFullNames: Array.from(classFullNames) },
+      deferredElementIds: header.deferredElementIds,
+      lastModified: header.lastModified,
+    };
+    if (undefined !== header.resumeLastModified) {
+      const processedElementIds = new Set<Id64String>();
+      for (const compressedIds of this.queryStateFileProperties(targetDb, targetScopeElementId, stateFilePropertyNames.processedElements)) {
+        CompressedId64Set.decompressSet(compressedIds, processedElementIds);
+      }
+      state.resume = { lastModified: header.resumeLastModified, processedElementIds: CompressedId64Set.compressSet(processedElementIds) };
+    }
+    return state;
+  }
+
+  /** Return the newest LastMod of the Elements in the source iModel. */
+  private queryNewestLastModifiedTime(): string {
+    const sql = `SELECT LastMod FROM ${Element.classFullName} ORDER BY LastMod DESC LIMIT 1`;
+    return this.sourceDb.withPreparedStatement(sql, (statement: ECSqlStatement): string => {
+      return (DbResult.BE_SQLITE_ROW === statement.step()) ? statement.getValue(0).getDateTime() : "";
+    });
+  }
+
+  /** Restore the state saved in the target iModel by prior checkpointed runs.
+   * @throws [[IModelError]] if the state was saved by a transformation from a different source iModel.
+   */
+  private loadCheckpoint(): void {
+    const json: string | undefined = this.targetDb.queryFilePropertyString(IModelTransformer.getStateFileProperty(this.targetScopeElementId, stateFilePropertyNames.header));
+    const header: IModelTransformerStateHeader | undefined = (undefined !== json) ? JSON.parse(json) : undefined;
+    const resumedElementIds = new Set<Id64String>();
+    this._resumedElementIds = resumedElementIds;
+    this._processedElementIds = new Set<Id64String>();
+    this._numContextStates = 0;
+    this._numProcessedStates = 0;
+    this._lastModified = header?.lastModified;
+    this._runLastModified = header?.resumeLastModified ?? this.queryNewestLastModifiedTime();
+    if (undefined !== header) {
+      if (header.sourceIModelId !== this.sourceDb.iModelId) {
+        throw new IModelError(IModelStatus.BadRequest, "The saved IModelTransformer state is for a different source iModel", Logger.logError, loggerCategory);
+      }
+      const contextStates: string[] = IModelTransformer.queryStateFileProperties(this.targetDb, this.targetScopeElementId, stateFilePropertyNames.context);
+      contextStates.forEach((contextJson: string) => this.context.loadState(JSON.parse(contextJson)));
+      this._numContextStates = contextStates.length;
+      CompressedId64Set.decompressSet(header.deferredElementIds, this._deferredElementIds);
+      if (undefined !== header.resumeLastModified) {
+        const processedStates: string[] = IModelTransformer.queryStateFileProperties(this.targetDb, this.targetScopeElementId, stateFilePropertyNames.processedElements);
+        processedStates.forEach((compressedIds: string) => CompressedId64Set.decompressSet(compressedIds, resumedElementIds));
+        this._numProcessedStates = processedStates.length;
+        Logger.logInfo(loggerCategory, `Resuming transformation after ${resumedElementIds.size} processed Elements`);
+      }
+    }
+    this.context.recordState(); // so that each checkpoint only saves the remapping rules added since the previous one
+  }
+
+  /** Save the changes to the target iModel along with the state needed to resume the current run of [[processAll]].
+   * Only the remapping rules and processed source Elements added since the previous checkpoint are saved, so the cost of a checkpoint does not grow with the size of the transformation.
+   * @note This method is called periodically by a checkpointed `processAll`, so it only needs to be called directly by subclasses that want additional checkpoints.
+   */
+  protected saveCheckpoint(): void {
+    if ((undefined === this._processedElementIds) || (undefined === this._runLastModified)) {
+      throw new IModelError(IModelStatus.BadRequest, "The checkpoint option is not set or processAll is not running", Logger.logError, loggerCategory);
+    }
+    this.saveContextState();
+    if (this._processedElementIds.size > 0) {
+      this.saveStateFileProperty(stateFilePropertyNames.processedElements, this._numProcessedStates++, CompressedId64Set.compressSet(this._processedElementIds));
+      this._processedElementIds.clear();
+    }
+    this.saveStateHeader();
+  }
+
+  /** Save the state of a completed run of [[processAll]] so that the next run only processes source Elements modified since. */
+  private completeCheckpoint(): void {
+    this.saveContextState();
+    for (let subId = 0; subId < this._numProcessedStates; subId++) {
+      this.targetDb.deleteFileProperty(IModelTransformer.getStateFileProperty(this.targetScopeElementId, stateFilePropertyNames.processedElements, subId));
+    }
+    this._numProcessedStates = 0;
+    this._lastModified = this._runLastModified;
+    this._runLastModified = undefined;
+    this._resumedElementIds = undefined;
+    this._processedElementIds = undefined;
+    this.saveStateHeader();
+  }
+
+  /** Append the remapping rules added since the previous checkpoint. */
+  private saveContextState(): void {
+    const contextState: IModelCloneContextState = this.context.takeRecordedState();
+    if ((contextState.elementIds.length > 0) || (contextState.codeSpecNames.length > 0) || (contextState.classFullNames.length > 0)) {
+      this.saveStateFileProperty(stateFilePropertyNames.context, this._numContextStates++, JSON.stringify(contextState));
+    }
+  }
+
+  /** Save the rest of the state and all pending changes to the target iModel. */
+  private saveStateHeader(): void {
+    const header: IModelTransformerStateHeader = {
+      sourceIModelId: this.sourceDb.iModelId,
+      deferredElementIds: CompressedId64Set.compressSet(this._deferredElementIds),
+      lastModified: this._lastModified,
+      resumeLastModified: this._runLastModified,
+    };
+    this.saveStateFileProperty(stateFilePropertyNames.header, undefined, JSON.stringify(header));
+    this.targetDb.saveChanges();
+  }
+
+  private saveStateFileProperty(name: string, subId: number | undefined, value: string): void {
+    const result: DbResult = this.targetDb.saveFileProperty(IModelTransformer.getStateFileProperty(this.targetScopeElementId, name, subId), value);
+    if (DbResult.BE_SQLITE_OK !== result) {
+      throw new IModelError(result, "Unable to save IModelTransformer state", Logger.logError, loggerCategory);
+    }
+  }
+
   /** Export everything from the source iModel and import the transformed entities into the target iModel.
    * @note [[processSchemas]] is not called automatically since the target iModel may want a different collection of schemas.
+   * @see [[IModelTransformOptions.checkpoint]] for resuming interrupted runs and incrementally updating the target iModel.
    */
   public processAll(): void {
     this.initFromExternalSourceAspects();
+    if (this._checkpoint) {
+      this.loadCheckpoint();
+    }
     this.exporter.exportCodeSpecs();
     this.exporter.exportFonts();
     // The RepositoryModel and root Subject of the target iModel should not be transformed.
@@ -681,6 +929,9 @@ export class IModelTransformer extends IModelExportHandler {
     this.detectElementDeletes();
     this.detectRelationshipDeletes();
     this.importer.computeProjectExtents();
+    if (this._checkpoint) {
+      this.completeCheckpoint();
+    }
   }
 
   /** Export changes from the source iModel and import the transformed entities into the target iModel.
@@ -0,0 +1,530 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module iModels
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { DbResult, GuidString, Id64String, Logger } from "@bentley/bentleyjs-core";
+import { Angle, Geometry, Point3d, Transform } from "@bentley/geometry-core";
+import { ColorDef } from "@bentley/imodeljs-common";
+import { BackendLoggerCategory } from "./BackendLoggerCategory";
+import { Element, PhysicalElement, SpatialElement, SpatialLocationElement } from "./Element";
+import { ExportGraphicsMesh } from "./ExportGraphics";
+import { IModelDb } from "./IModelDb";
+import { IModelExporter, IModelExportHandler } from "./IModelExporter";
+
+const loggerCategory: string = BackendLoggerCategory.IfcExportHandler;
+
+/** The IFC entities that [[IfcExportHandler]] can write for a [PhysicalElement]($backend).
+ * @beta
+ */
+export enum IfcElementType {
+  BuildingElementProxy = "IFCBUILDINGELEMENTPROXY",
+  Beam = "IFCBEAM",
+  Column = "IFCCOLUMN",
+  Covering = "IFCCOVERING",
+  Footing = "IFCFOOTING",
+  Member = "IFCMEMBER",
+  Plate = "IFCPLATE",
+  Railing = "IFCRAILING",
+  Roof = "IFCROOF",
+  Slab = "IFCSLAB",
+  Wall = "IFCWALL",
+}
+
+/** The value of a property written by [[IfcExportHandler]]. Strings are written as IfcLabel (or IfcText if longer than 255 characters),
+ * numbers as IfcReal and booleans as IfcBoolean.
+ * @beta
+ */
+export type IfcPropertyValue = string | number | boolean;
+
+/** A set of properties written as an IfcPropertySet by [[IfcExportHandler]].
+ * @beta
+ */
+export interface IfcPropertySetProps {
+  /** The name of the property set */
+  name: string;
+  /** The properties of the set. Undefined values are omitted. */
+  properties: { [name: string]: IfcPropertyValue | undefined };
+}
+
+/** Options for [[IfcExportHandler]]
+ * @beta
+ */
+export interface IfcExportOptions {
+  /** The name of the IfcProject and IfcSite. If undefined, the name of the root [Subject]($backend) of the iModel is used. */
+  projectName?: string;
+  /** The author recorded in the header of the file */
+  author?: string;
+  /** The organization recorded in the header of the file */
+  organization?: string;
+  /** If false, elements are written without a representation. Default is true. */
+  includeGeometry?: boolean;
+  /** If false, no property sets are written. Default is true. */
+  includeProperties?: boolean;
+  /** Max distance from a face to the original geometry, see [StrokeOptions]($geometry-core) */
+  chordTol?: number;
+  /** Max angle difference in radians for approximated face, see [StrokeOptions]($geometry-core) */
+  angleTol?: number;
+  /** Max length of any edge in generated faces, see [StrokeOptions]($geometry-core) */
+  maxEdgeLength?: number;
+  /** BRep features with bounding boxes smaller than this size will not generate graphics, see [ExportGraphicsOptions]($backend) */
+  minBRepFeatureSize?: number;
+}
+
+/** The characters used by the 22 character base 64 encoding of an IfcGloballyUniqueId. */
+const ifcGuidChars = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_$";
+
+/** Compress a GUID (or any 32 hex digits) to an IfcGloballyUniqueId. The 128 bits are padded to 132 bits and written 6 bits per character. */
+function compressGuid(guid: string): string {
+  const hex = `0${guid.replace(/-/g, "")}`;
+  let result = "";
+  for (let i = 0; i < hex.length; i += 3) {
+    const value = parseInt(hex.substr(i, 3), 16);
+    result += ifcGuidChars[value >> 6] + ifcGuidChars[value & 63];
+  }
+  return result;
+}
+
+/** Encode a STEP string, escaping quotes and backslashes, and writing characters outside of printable ASCII as UTF-16 code units. */
+function stepString(value: string): string {
+  let result = "'";
+  let isEncoding = false;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    const needsEncoding = code < 0x20 || code > 0x7e;
+    if (needsEncoding !== isEncoding) {
+      result += needsEncoding ? "\\X2\\" : "\\X0\\";
+      isEncoding = needsEncoding;
+    }
+    if (needsEncoding)
+      result += code.toString(16).toUpperCase().padStart(4, "0");
+    else if ("'" === value[i])
+      result += "''";
+    else if ("\\" === value[i])
+      result += "\\\\";
+    else
+      result += value[i];
+  }
+  if (isEncoding)
+    result += "\\X0\\";
+
+  return `${result}'`;
+}
+
+/** Encode a STEP real, which must have a decimal point. */
+function stepReal(value: number): string {
+  const text = value.toString().toUpperCase();
+  if (text.includes("."))
+    return text;
+
+  const exponent = text.indexOf("E");
+  return exponent < 0 ? `${text}.` : `${text.slice(0, exponent)}.${text.slice(exponent)}`;
+}
+
+/** Encode coordinates as a list of reals, writing values within [Geometry.smallMetricDistance]($geometry-core) of zero as zero. */
+function stepCoordinates(x: number, y: number, z: number): string {
+  return stepList([x, y, z].map((value) => stepReal(Geometry.isSmallMetricDistance(value) ? 0 : value)));
+}
+
+function stepRef(id: number | undefined): string {
+  return undefined !== id ? `#${id}` : "$";
+}
+
+function stepList(items: string[]): string {
+  return `(${items.join(",")})`;
+}
+
+/** Encode an angle in degrees as an IfcCompoundPlaneAngleMeasure: degrees, minutes, seconds and millionths of seconds, all with the same sign. */
+function stepCompoundPlaneAngle(degrees: number): string {
+  const sign = degrees < 0 ? -1 : 1;
+  let remainder = Math.round(Math.abs(degrees) * 3600e6);
+  const parts = [3600e6, 60e6, 1e6].map((divisor) => {
+    const part = Math.floor(remainder / divisor);
+    remainder -= part * divisor;
+    return part;
+  });
+  parts.push(remainder);
+  return stepList(parts.map((part) => (sign * part).toString()));
+}
+
+/** An IfcBuilding written for a [SpatialModel]($backend), with the products to be related to it. */
+interface IfcBuildingInfo {
+  entityId: number;
+  placementId: number;
+  spaceIds: number[];
+  elementIds: number[];
+}
+
+/** Writes the instances of the DATA section of a STEP physical file (ISO 10303-21), numbering them sequentially. */
+class StepFileWriter {
+  private _fd: number;
+  private _nextId = 1;
+
+  public constructor(fileName: string) {
+    this._fd = fs.openSync(fileName, "w");
+  }
+
+  public writeLine(line: string): void {
+    fs.writeSync(this._fd, `${line}\n`);
+  }
+
+  /** Write an entity instance, returning its instance number. */
+  public add(entity: string, attributes: string[]): number {
+    const id = this._nextId++;
+    this.writeLine(`#${id}=${entity}${stepList(attributes)};`);
+    return id;
+  }
+
+  public close(): void {
+    fs.closeSync(this._fd);
+  }
+}
+
+/** An [IModelExportHandler]($backend) that writes an iModel to an IFC4 file in the STEP physical file format, for delivery to applications that consume IFC.
+ * * The root [Subject]($backend) of the iModel is written as the IfcProject, which aggregates a single IfcSite.
+ * * Each [SpatialModel]($backend) that contains exported elements is written as an IfcBuilding aggregated by the site.
+ * * Each [PhysicalElement]($backend) is written as the entity returned by [[getIfcElementType]] (IfcBuildingElementProxy by default), contained in the building of its model.
+ * * Each [SpatialLocationElement]($backend) is written as an IfcSpace aggregated by the building of its model.
+ * * The graphics of each element are written as IfcTriangulatedFaceSets in the local coordinates of its placement, with an IfcSurfaceStyle for each color.
+ * * The properties returned by [[getPropertySets]] are written as IfcPropertySets related to the element by IfcRelDefinesByProperties.
+ * * The IfcGloballyUniqueId of an element is its [Element.federationGuid]($backend) if defined. Other ids are derived from the iModel and element ids,
+ * so that exporting the same iModel again produces the same ids.
+ * * Lengths are written in meters.
+ * @beta
+ */
+export class IfcExportHandler extends IModelExportHandler {
+  /** The exporter that drives this handler */
+  public readonly exporter: IModelExporter;
+  /** The full path of the IFC file, which will be overwritten if it already exists */
+  public readonly outputFileName: string;
+  private _options: IfcExportOptions;
+  private _file?: StepFileWriter;
+  private _projectId = 0;
+  private _siteId = 0;
+  private _sitePlacementId = 0;
+  private _originId = 0;
+  private _worldAxesId = 0;
+  private _bodyContextId = 0;
+  private _buildings = new Map<Id64String, IfcBuildingInfo>();
+  private _surfaceStyles = new Map<number, number>();
+
+  /** Construct a new IfcExportHandler
+   * @param sourceDb The iModel to export
+   * @param outputFileName The full path of the IFC file, which will be overwritten if it already exists
+   * @param options Specifies what to write and how to facet geometry
+   */
+  public constructor(sourceDb: IModelDb, outputFileName: string, options: IfcExportOptions = {}) {
+    super();
+    this.outputFileName = outputFileName;
+    this._options = options;
+    this.exporter = new IModelExporter(sourceDb);
+    this.exporter.registerHandler(this);
+    this.exporter.wantGeometry = false; // graphics are obtained from IModelDb.exportGraphics
+    this.exporter.visitRelationships = false;
+  }
+
+  private get _sourceDb(): IModelDb { return this.exporter.sourceDb; }
+
+  private get _writer(): StepFileWriter {
+    if (undefined === this._file)
+      throw new Error("IfcExportHandler.export must be called to write the IFC file");
+
+    return this._file;
+  }
+
+  /** Export the iModel to the IFC file. */
+  public export(): void {
+    this._buildings.clear();
+    this._surfaceStyles.clear();
+    this._file = new StepFileWriter(this.outputFileName);
+    try {
+      this.writeHeader();
+      this.writeProject();
+      this.exporter.exportAll();
+      this.writeSpatialStructure();
+      this._writer.writeLine("ENDSEC;");
+      this._writer.writeLine("END-ISO-10303-21;");
+    } finally {
+      this._writer.close();
+      this._file = undefined;
+    }
+  }
+
+  /** Returns the IFC entity to write for a [PhysicalElement]($backend), or undefined to omit it from the IFC file.
+   * @note The base implementation returns [[IfcElementType.BuildingElementProxy]] for all elements. Override this method to map classes or categories to other entities.
+   */
+  protected getIfcElementType(_element: PhysicalElement): IfcElementType | undefined {
+    return IfcElementType.BuildingElementProxy;
+  }
+
+  /** Returns the property sets to write for an element.
+   * @note The base implementation returns a "BIS_Element" set with the identity, code and category of the element, and a set named for the class
+   * of the element with its primitive (non-custom-handled) properties, if any. Override this method to write other property sets.
+   */
+  protected getPropertySets(element: SpatialElement): IfcPropertySetProps[] {
+    const category = this._sourceDb.elements.tryGetElement<Element>(element.category);
+    /* eslint-disable @typescript-eslint/naming-convention */
+    const propertySets: IfcPropertySetProps[] = [{
+      name: "BIS_Element",
+      properties: {
+        ElementId: element.id,
+        FederationGuid: element.federationGuid,
+        ClassFullName: element.classFullName,
+        CodeValue: element.code.value,
+        UserLabel: element.userLabel,
+        Category: category?.getDisplayLabel(),
+      },
+    }];
+    /* eslint-enable @typescript-eslint/naming-convention */
+
+    const classProperties: IfcPropertySetProps = { name: element.className, properties: {} };
+    element.forEachProperty((name, meta) => {
+      const value = element.asAny[name];
+      if (!meta.isNavigation && ("string" === typeof value || "number" === typeof value || "boolean" === typeof value))
+        classProperties.properties[name] = value;
+    }, false);
+    if (Object.keys(classProperties.properties).length > 0)
+      propertySets.push(classProperties);
+
+    return propertySets;
+  }
+
+  /** Write PhysicalElements and SpatialLocationElements, and ignore other elements.
+   * @note A subclass that overrides this method should call `super.onExportElement`.
+   */
+  protected onExportElement(element: Element, _isUpdate: boolean | undefined): void {
+    if (element instanceof PhysicalElement) {
+      const elementType = this.getIfcElementType(element);
+      if (undefined !== elementType) {
+        const building = this.getBuilding(element.model);
+        building.elementIds.push(this.writeProduct(element, elementType, building, (tag) => [tag, ".NOTDEFINED."]));
+      }
+    } else if (element instanceof SpatialLocationElement) {
+      const building = this.getBuilding(element.model);
+      building.spaceIds.push(this.writeProduct(element, "IFCSPACE", building, () => ["$", ".ELEMENT.", "$", "$"]));
+    }
+  }
+
+  private getGlobalId(key: string, federationGuid?: GuidString): string {
+    if (undefined !== federationGuid)
+      return stepString(compressGuid(federationGuid));
+
+    const hash = crypto.createHash("md5").update(`${this._sourceDb.iModelId}:${key}`).digest("hex");
+    return stepString(compressGuid(hash));
+  }
+
+  private writeHeader(): void {
+    const writer = this._writer;
+    writer.writeLine("ISO-10303-21;");
+    writer.writeLine("HEADER;");
+    writer.writeLine(`FILE_DESCRIPTION((${stepString("ViewDefinition [ReferenceView_V1.2]")}),'2;1');`);
+    const fileNameAttributes = [
+      stepString(path.basename(this.outputFileName)),
+      stepString(new Date().toISOString().slice(0, 19)),
+      stepList([stepString(this._options.author ?? "")]),
+      stepList([stepString(this._options.organization ?? "")]),
+      stepString("imodeljs-backend"),
+      stepString("imodeljs-backend IfcExportHandler"),
+      stepString(""),
+    ];
+    writer.writeLine(`FILE_NAME${stepList(fileNameAttributes)};`);
+    writer.writeLine("FILE_SCHEMA(('IFC4'));");
+    writer.writeLine("ENDSEC;");
+    writer.writeLine("DATA;");
+  }
+
+  /** Write the project, its units and representation contexts, and the site. */
+  private writeProject(): void {
+    const writer = this._writer;
+    const name = stepString(this._options.projectName ?? this._sourceDb.rootSubject.name);
+    this._originId = writer.add("IFCCARTESIANPOINT", [stepCoordinates(0, 0, 0)]);
+    this._worldAxesId = writer.add("IFCAXIS2PLACEMENT3D", [stepRef(this._originId), "$", "$"]);
+    const contextId = writer.add("IFCGEOMETRICREPRESENTATIONCONTEXT", ["$", stepString("Model"), "3", stepReal(1.0e-5), stepRef(this._worldAxesId), "$"]);
+    this._bodyContextId = writer.add("IFCGEOMETRICREPRESENTATIONSUBCONTEXT", [stepString("Body"), stepString("Model"), "*", "*", "*", "*", stepRef(contextId), "$", ".MODEL_VIEW.", "$"]);
+
+    const unitIds = [
+      writer.add("IFCSIUNIT", ["*", ".LENGTHUNIT.", "$", ".METRE."]),
+      writer.add("IFCSIUNIT", ["*", ".AREAUNIT.", "$", ".SQUARE_METRE."]),
+      writer.add("IFCSIUNIT", ["*", ".VOLUMEUNIT.", "$", ".CUBIC_METRE."]),
+      writer.add("IFCSIUNIT", ["*", ".PLANEANGLEUNIT.", "$", ".RADIAN."]),
+    ];
+    const unitAssignmentId = writer.add("IFCUNITASSIGNMENT", [stepList(unitIds.map((id) => stepRef(id)))]);
+    this._projectId = writer.add("IFCPROJECT", [this.getGlobalId("project"), "$", name, "$", "$", "$", "$", stepList([stepRef(contextId)]), stepRef(unitAssignmentId)]);
+
+    // The site records the geographic location of the center of the project extents, if the iModel is geolocated.
+    let geolocation = ["$", "$", "$"];
+    if (this._sourceDb.isGeoLocated && !this._sourceDb.projectExtents.isNull) {
+      const cartographic = this._sourceDb.spatialToCartographicFromEcef(this._sourceDb.projectExtents.center);
+      geolocation = [
+        stepCompoundPlaneAngle(Angle.radiansToDegrees(cartographic.latitude)),
+        stepCompoundPlaneAngle(Angle.radiansToDegrees(cartographic.longitude)),
+        stepReal(cartographic.height),
+      ];
+    }
+    this._sitePlacementId = writer.add("IFCLOCALPLACEMENT", ["$", stepRef(this._worldAxesId)]);
+    this._siteId = writer.add("IFCSITE", [this.getGlobalId("site"), "$", name, "$", "$", stepRef(this._sitePlacementId), "$", "$", ".ELEMENT.", ...geolocation, "$", "$"]);
+  }
+
+  /** Get the building for a SpatialModel, writing it on first use. */
+  private getBuilding(modelId: Id64String): IfcBuildingInfo {
+    let building = this._buildings.get(modelId);
+    if (undefined === building) {
+      const model = this._sourceDb.models.getModel(modelId);
+      const name = stepString(model.name.length > 0 ? model.name : modelId);
+      const placementId = this._writer.add("IFCLOCALPLACEMENT", [stepRef(this._sitePlacementId), stepRef(this._worldAxesId)]);
+      const entityId = this._writer.add("IFCBUILDING", [this.getGlobalId(modelId), "$", name, "$", "$", stepRef(placementId), "$", "$", ".ELEMENT.", "$", "$", "$"]);
+      building = { entityId, placementId, spaceIds: [], elementIds: [] };
+      this._buildings.set(modelId, building);
+    }
+    return building;
+  }
+
+  /** Write an IfcProduct for an element with its placement, representation and property sets, returning its instance number.
+   * @param getTrailingAttributes Returns the attributes of the entity that follow its representation, given its tag.
+   */
+  private writeProduct(element: SpatialElement, entity: string, building: IfcBuildingInfo, getTrailingAttributes: (tag: string) => string[]): number {
+    const writer = this._writer;
+    const localToWorld = element.placement.transform;
+    const placementId = writer.add("IFCLOCALPLACEMENT", [stepRef(building.placementId), stepRef(this.writeAxes(localToWorld))]);
+    const representationId = (this._options.includeGeometry ?? true) ? this.writeRepresentation(element, localToWorld) : undefined;
+    const label = element.getDisplayLabel();
+    const productId = writer.add(entity, [
+      this.getGlobalId(element.id, element.federationGuid),
+      "$",
+      label.length > 0 ? stepString(label) : "$",
+      "$",
+      "$",
+      stepRef(placementId),
+      stepRef(representationId),
+      ...getTrailingAttributes(stepString(element.id)),
+    ]);
+
+    if (this._options.includeProperties ?? true) {
+      for (const propertySet of this.getPropertySets(element))
+        this.writePropertySet(element.id, productId, propertySet);
+    }
+    return productId;
+  }
+
+  private writeAxes(transform: Transform): number {
+    const writer = this._writer;
+    const origin = transform.getOrigin();
+    const locationId = origin.isAlmostZero ? this._originId : writer.add("IFCCARTESIANPOINT", [stepCoordinates(origin.x, origin.y, origin.z)]);
+    if (transform.matrix.isIdentity)
+      return locationId === this._originId ? this._worldAxesId : writer.add("IFCAXIS2PLACEMENT3D", [stepRef(locationId), "$", "$"]);
+
+    const writeDirection = (x: number, y: number, z: number) => writer.add("IFCDIRECTION", [stepCoordinates(x, y, z)]);
+    const matrix = transform.matrix;
+    const axisId = writeDirection(matrix.at(0, 2), matrix.at(1, 2), matrix.at(2, 2));
+    const refDirectionId = writeDirection(matrix.at(0, 0), matrix.at(1, 0), matrix.at(2, 0));
+    return writer.add("IFCAXIS2PLACEMENT3D", [stepRef(locationId), stepRef(axisId), stepRef(refDirectionId)]);
+  }
+
+  /** Write the graphics of an element as a tessellated body representation, returning the instance number of its IfcProductDefinitionShape. */
+  private writeRepresentation(element: SpatialElement, localToWorld: Transform): number | undefined {
+    const worldToLocal = localToWorld.inverse();
+    if (undefined === worldToLocal)
+      return undefined;
+
+    const itemIds: number[] = [];
+    const status = this._sourceDb.exportGraphics({
+      elementIdArray: [element.id],
+      onGraphics: (info) => {
+        if (info.mesh.indices.length > 0)
+          itemIds.push(this.writeFaceSet(info.mesh, info.color, worldToLocal));
+      },
+      chordTol: this._options.chordTol,
+      angleTol: this._options.angleTol,
+      maxEdgeLength: this._options.maxEdgeLength,
+      minBRepFeatureSize: this._options.minBRepFeatureSize,
+    });
+    if (DbResult.BE_SQLITE_OK !== status)
+      Logger.logWarning(loggerCategory, `exportGraphics failed for element ${element.id} with status ${status}`);
+
+    if (0 === itemIds.length)
+      return undefined;
+
+    const shapeId = this._writer.add("IFCSHAPEREPRESENTATION", [stepRef(this._bodyContextId), stepString("Body"), stepString("Tessellation"), stepList(itemIds.map((id) => stepRef(id)))]);
+    return this._writer.add("IFCPRODUCTDEFINITIONSHAPE", ["$", "$", stepList([stepRef(shapeId)])]);
+  }
+
+  private writeFaceSet(mesh: ExportGraphicsMesh, color: number, worldToLocal: Transform): number {
+    const coordinates: string[] = [];
+    const point = Point3d.createZero();
+    for (let i = 0; i < mesh.points.length; i += 3) {
+      worldToLocal.multiplyXYZ(mesh.points[i], mesh.points[i + 1], mesh.points[i + 2], point);
+      coordinates.push(stepCoordinates(point.x, point.y, point.z));
+    }
+
+    // IFC indices are one-based.
+    const triangles: string[] = [];
+    for (let i = 0; i < mesh.indices.length; i += 3)
+      triangles.push(stepList([mesh.indices[i] + 1, mesh.indices[i + 1] + 1, mesh.indices[i + 2] + 1].map((index) => index.toString())));
+
+    const pointListId = this._writer.add("IFCCARTESIANPOINTLIST3D", [stepList(coordinates), "$"]);
+    const faceSetId = this._writer.add("IFCTRIANGULATEDFACESET", [stepRef(pointListId), "$", "$", stepList(triangles), "$"]);
+    this._writer.add("IFCSTYLEDITEM", [stepRef(faceSetId), stepList([stepRef(this.findOrAddSurfaceStyle(color))]), "$"]);
+    return faceSetId;
+  }
+
+  private findOrAddSurfaceStyle(color: number): number {
+    let styleId = this._surfaceStyles.get(color);
+    if (undefined === styleId) {
+      const colors = ColorDef.getColors(color);
+      const rgbId = this._writer.add("IFCCOLOURRGB", ["$", stepReal(colors.r / 255), stepReal(colors.g / 255), stepReal(colors.b / 255)]);
+      const shadingId = this._writer.add("IFCSURFACESTYLESHADING", [stepRef(rgbId), stepReal(colors.t / 255)]);
+      styleId = this._writer.add("IFCSURFACESTYLE", ["$", ".BOTH.", stepList([stepRef(shadingId)])]);
+      this._surfaceStyles.set(color, styleId);
+    }
+    return styleId;
+  }
+
+  private writePropertySet(elementId: Id64String, productId: number, propertySet: IfcPropertySetProps): void {
+    const propertyIds: number[] = [];
+    for (const name of Object.keys(propertySet.properties)) {
+      const value = propertySet.properties[name];
+      let nominalValue: string;
+      if ("string" === typeof value)
+        nominalValue = `${value.length > 255 ? "IFCTEXT" : "IFCLABEL"}(${stepString(value)})`;
+      else if ("number" === typeof value && Number.isFinite(value))
+        nominalValue = `IFCREAL(${stepReal(value)})`;
+      else if ("boolean" === typeof value)
+        nominalValue = `IFCBOOLEAN(${value ? ".T." : ".F."})`;
+      else
+        continue;
+
+      propertyIds.push(this._writer.add("IFCPROPERTYSINGLEVALUE", [stepString(name), "$", nominalValue, "$"]));
+    }
+    if (0 === propertyIds.length)
+      return;
+
+    const key = `${elementId}:${propertySet.name}`;
+    const propertySetId = this._writer.add("IFCPROPERTYSET", [this.getGlobalId(key), "$", stepString(propertySet.name), "$", stepList(propertyIds.map((id) => stepRef(id)))]);
+    this._writer.add("IFCRELDEFINESBYPROPERTIES", [this.getGlobalId(`${key}:rel`), "$", "$", "$", stepList([stepRef(productId)]), stepRef(propertySetId)]);
+  }
+
+  /** Write the relationships that decompose the project into the site, buildings and spaces, and place elements in buildings. */
+  private writeSpatialStructure(): void {
+    const writer = this._writer;
+    const refs = (ids: number[]) => stepList(ids.map((id) => stepRef(id)));
+    writer.add("IFCRELAGGREGATES", [this.getGlobalId("project:site"), "$", "$", "$", stepRef(this._projectId), refs([this._siteId])]);
+    if (0 === this._buildings.size)
+      return;
+
+    const buildingIds = Array.from(this._buildings.values()).map((building) => building.entityId);
+    writer.add("IFCRELAGGREGATES", [this.getGlobalId("site:buildings"), "$", "$", "$", stepRef(this._siteId), refs(buildingIds)]);
+    this._buildings.forEach((building, modelId) => {
+      if (building.spaceIds.length > 0)
+        writer.add("IFCRELAGGREGATES", [this.getGlobalId(`${modelId}:spaces`), "$", "$", "$", stepRef(building.entityId), refs(building.spaceIds)]);
+
+      if (building.elementIds.length > 0)
+        writer.add("IFCRELCONTAINEDINSPATIALSTRUCTURE", [this.getGlobalId(`${modelId}:elements`), "$", "$", "$", refs(building.elementIds), stepRef(building.entityId)]);
+    });
+  }
+}
@@ -0,0 +1,630 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module iModels
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { DbResult, Id64, Id64Array, Id64String, IModelStatus } from "@bentley/bentleyjs-core";
+import { ColorDef, ImageSourceFormat, IModelError, RenderMaterialProps } from "@bentley/imodeljs-common";
+import { ECSqlStatement } from "./ECSqlStatement";
+import { GeometricElement } from "./Element";
+import { ExportGraphicsInfo, ExportGraphicsMesh } from "./ExportGraphics";
+import { IModelDb } from "./IModelDb";
+import { RenderMaterialElement } from "./Material";
+import { Texture } from "./Texture";
+
+/** Specifies how a [[MeshExporter]] partitions the exported graphics into named groups.
+ * @beta
+ */
+export enum MeshExportGrouping {
+  /** All graphics are written into a single unnamed group. */
+  None = 0,
+  /** Graphics are grouped by the element they originated from. */
+  Element = 1,
+  /** Graphics are grouped by the [Category]($backend) of the element they originated from. */
+  Category = 2,
+}
+
+/** Parameters for [[MeshExporter.exportElements]]
+ * @beta
+ */
+export interface MeshExportOptions {
+  /** The source elements for the exported graphics */
+  elementIdArray: Id64Array;
+  /** How to group the exported graphics. Defaults to [[MeshExportGrouping.None]]. */
+  grouping?: MeshExportGrouping;
+  /** Max distance from a face to the original geometry, see [StrokeOptions]($geometry-core) */
+  chordTol?: number;
+  /** Max angle difference in radians for approximated face, see [StrokeOptions]($geometry-core) */
+  angleTol?: number;
+  /** Max length of any edge in generated faces, see [StrokeOptions]($geometry-core) */
+  maxEdgeLength?: number;
+  /** BRep features with bounding boxes smaller than this size will not generate graphics, see [ExportGraphicsOptions]($backend) */
+  minBRepFeatureSize?: number;
+}
+
+/** Base class for writing the graphics produced by [IModelDb.exportGraphics]($backend) to a mesh file format.
+ * Graphics are streamed to the output file as they are produced, so memory use does not depend on the size of the export.
+ * @note Subclasses implement the format-specific `on*` methods. The file is opened by [[exportElements]] and closed before it returns.
+ * @see [[StlExporter]], [[ObjExporter]], [[PlyExporter]]
+ * @beta
+ */
+export abstract class MeshExporter {
+  /** The iModel to export graphics from. */
+  public readonly iModel: IModelDb;
+  /** The full path of the output file. */
+  public readonly fileName: string;
+  /** The number of triangles written by the most recent call to [[exportElements]]. */
+  public get triangleCount(): number { return this._triangleCount; }
+  /** The number of vertices written by the most recent call to [[exportElements]]. */
+  public get vertexCount(): number { return this._vertexCount; }
+
+  private _fd?: number;
+  private _triangleCount = 0;
+  private _vertexCount = 0;
+  private _currentGroup?: string;
+  private _groupNameCache = new Map<Id64String, string>();
+
+  /** Construct a new MeshExporter
+   * @param iModel The iModel to export graphics from
+   * @param fileName The full path of the output file, which will be overwritten if it already exists
+   */
+  protected constructor(iModel: IModelDb, fileName: string) {
+    this.iModel = iModel;
+    this.fileName = fileName;
+  }
+
+  /** Export the graphics of the specified elements to [[fileName]].
+   * @returns The status returned by [IModelDb.exportGraphics]($backend)
+   * @throws Error if the output file cannot be written.
+   */
+  public exportElements(options: MeshExportOptions): DbResult {
+    const grouping = options.grouping ?? MeshExportGrouping.None;
+    const elementIdArray = this.orderElements(options.elementIdArray, grouping);
+
+    this._triangleCount = 0;
+    this._vertexCount = 0;
+    this._currentGroup = undefined;
+    this._groupNameCache.clear();
+    this._fd = fs.openSync(this.fileName, "w");
+    try {
+      this.onBeginExport();
+      const onGraphics = (info: ExportGraphicsInfo) => {
+        if (info.mesh.indices.length === 0)
+          return;
+
+        const groupName = this.getGroupName(info.elementId, grouping);
+        if (groupName !== this._currentGroup) {
+          if (undefined !== this._currentGroup)
+            this.onEndGroup(this._currentGroup);
+
+          this._currentGroup = groupName;
+          this.onBeginGroup(groupName);
+        }
+
+        this.onExportMesh(info);
+        this._triangleCount += info.mesh.indices.length / 3;
+        this._vertexCount += info.mesh.points.length / 3;
+      };
+
+      const status = this.iModel.exportGraphics({
+        elementIdArray,
+        onGraphics,
+        chordTol: options.chordTol,
+        angleTol: options.angleTol,
+        maxEdgeLength: options.maxEdgeLength,
+        minBRepFeatureSize: options.minBRepFeatureSize,
+      });
+
+      if (undefined !== this._currentGroup)
+        this.onEndGroup(this._currentGroup);
+
+      this.onEndExport();
+      return status;
+    } finally {
+      fs.closeSync(this._fd);
+      this._fd = undefined;
+      this.onCloseExport();
+    }
+  }
+
+  /** Called once before any graphics are exported. */
+  protected abstract onBeginExport(): void;
+  /** Called before the graphics of a new group are exported.
+   * @param groupName The name of the group. This is an empty string when the [[MeshExportGrouping]] is `None`.
+   */
+  protected abstract onBeginGroup(groupName: string): void;
+  /** Called for each mesh produced by [IModelDb.exportGraphics]($backend). */
+  protected abstract onExportMesh(info: ExportGraphicsInfo): void;
+  /** Called after all the graphics of a group have been exported. */
+  protected abstract onEndGroup(groupName: string): void;
+  /** Called once after all graphics have been exported, before the output file is closed. */
+  protected abstract onEndExport(): void;
+  /** Called once after the output file is closed, whether or not the export succeeded. Override to release temporary resources. */
+  protected onCloseExport(): void { }
+
+  /** Append a string or binary data at the end of the output file. */
+  protected write(data: string | Uint8Array): void {
+    if (undefined === this._fd)
+      throw new IModelError(IModelStatus.NotOpen, "MeshExporter output file is not open");
+
+    if (typeof data === "string")
+      fs.writeSync(this._fd, data);
+    else
+      fs.writeSync(this._fd, data, 0, data.length);
+  }
+
+  /** Overwrite binary data at a specific byte offset in the output file, e.g. to patch a count in a header. */
+  protected writeAt(data: Uint8Array, position: number): void {
+    if (undefined === this._fd)
+      throw new IModelError(IModelStatus.NotOpen, "MeshExporter output file is not open");
+
+    fs.writeSync(this._fd, data, 0, data.length, position);
+  }
+
+  /** Return the name used for the group containing the graphics of the specified element.
+   * @note The base implementation uses the code value of the element or category, falling back to its Id if the code is empty.
+   */
+  protected getGroupName(elementId: Id64String, grouping: MeshExportGrouping): string {
+    if (MeshExportGrouping.None === grouping)
+      return "";
+
+    let name = this._groupNameCache.get(elementId);
+    if (undefined === name) {
+      const element = this.iModel.elements.getElement(elementId);
+      const groupElement = (MeshExportGrouping.Category === grouping && element instanceof GeometricElement) ? this.iModel.elements.getElement(element.category) : element;
+      const codeValue = groupElement.code.getValue();
+      name = (0 === codeValue.length) ? groupElement.id : codeValue;
+      this._groupNameCache.set(elementId, name);
+    }
+    return name;
+  }
+
+  /** Order the elements so that all the elements of each group are exported consecutively. */
+  private orderElements(elementIdArray: Id64Array, grouping: MeshExportGrouping): Id64Array {
+    if (MeshExportGrouping.Category !== grouping || elementIdArray.length === 0)
+      return elementIdArray;
+
+    const categoryIds = new Map<Id64String, Id64String>();
+    this.iModel.withPreparedStatement("SELECT ECInstanceId,Category.Id FROM bis.GeometricElement3d WHERE InVirtualSet(?,ECInstanceId) UNION ALL SELECT ECInstanceId,Category.Id FROM bis.GeometricElement2d WHERE InVirtualSet(?,ECInstanceId)", (statement: ECSqlStatement) => {
+      statement.bindIdSet(1, elementIdArray);
+      statement.bindIdSet(2, elementIdArray);
+      while (DbResult.BE_SQLITE_ROW === statement.step())
+        categoryIds.set(statement.getValue(0).getId(), statement.getValue(1).getId());
+    });
+
+    // Array.prototype.sort is not guaranteed to be stable in all supported versions of node, so break ties by original position.
+    const indexed = elementIdArray.map((elementId, index) => ({ elementId, index, categoryId: categoryIds.get(elementId) ?? Id64.invalid }));
+    indexed.sort((a, b) => a.categoryId < b.categoryId ? -1 : a.categoryId > b.categoryId ? 1 : a.index - b.index);
+    return indexed.map((entry) => entry.elementId);
+  }
+}
+
+/** Format a 32-bit floating point value without the spurious digits produced by widening it to a 64-bit number. */
+function formatFloat(value: number): string {
+  return parseFloat(value.toPrecision(7)).toString();
+}
+
+/** Compute the unit normal of the triangle at `indices[i]`, or a zero vector if the triangle is degenerate. */
+function computeTriangleNormal(mesh: ExportGraphicsMesh, i: number, result: Float64Array): Float64Array {
+  const p = mesh.points;
+  const i0 = 3 * mesh.indices[i], i1 = 3 * mesh.indices[i + 1], i2 = 3 * mesh.indices[i + 2];
+  const ux = p[i1] - p[i0], uy = p[i1 + 1] - p[i0 + 1], uz = p[i1 + 2] - p[i0 + 2];
+  const vx = p[i2] - p[i0], vy = p[i2 + 1] - p[i0 + 1], vz = p[i2 + 2] - p[i0 + 2];
+  const nx = uy * vz - uz * vy, ny = uz * vx - ux * vz, nz = ux * vy - uy * vx;
+  const magnitude = Math.sqrt(nx * nx + ny * ny + nz * nz);
+  const scale = magnitude > 0 ? 1.0 / magnitude : 0.0;
+  result[0] = nx * scale;
+  result[1] = ny * scale;
+  result[2] = nz * scale;
+  return result;
+}
+
+/** Writes graphics to a stereolithography (STL) file, in either the binary or the ASCII encoding.
+ * * STL has no notion of vertex sharing, normals per vertex, colors or texture coordinates; only facet geometry is written.
+ * * In the ASCII encoding, each group is written as a separate `solid` block named for the group.
+ * * In the binary encoding, groups are not represented.
+ * @beta
+ */
+export class StlExporter extends MeshExporter {
+  /** If true, write the binary encoding; otherwise, write the ASCII encoding. */
+  public readonly binary: boolean;
+  private readonly _normal = new Float64Array(3);
+
+  /** Construct a new StlExporter
+   * @param iModel The iModel to export graphics from
+   * @param fileName The full path of the output file, which will be overwritten if it already exists
+   * @param binary If true (the default), write the binary encoding; otherwise, write the ASCII encoding.
+   */
+  public constructor(iModel: IModelDb, fileName: string, binary: boolean = true) {
+    super(iModel, fileName);
+    this.binary = binary;
+  }
+
+  protected onBeginExport(): void {
+    if (!this.binary)
+      return;
+
+    // 80 byte header followed by the triangle count, which is patched in onEndExport.
+    const header = Buffer.alloc(84);
+    header.write("binary STL exported by imodeljs-backend", 0, "ascii");
+    this.write(header);
+  }
+
+  protected onBeginGroup(groupName: string): void {
+    if (!this.binary)
+      this.write(`solid ${groupName}\n`);
+  }
+
+  protected onExportMesh(info: ExportGraphicsInfo): void {
+    const mesh = info.mesh;
+    const p = mesh.points;
+    const indices = mesh.indices;
+    const normal = this._normal;
+    if (this.binary) {
+      // Each triangle is 12 32-bit floats (normal + 3 vertices) followed by a 16-bit attribute byte count.
+      const buffer = Buffer.alloc(50 * indices.length / 3);
+      let offset = 0;
+      for (let i = 0; i < indices.length; i += 3) {
+        computeTriangleNormal(mesh, i, normal);
+        offset = buffer.writeFloatLE(normal[0], offset);
+        offset = buffer.writeFloatLE(normal[1], offset);
+        offset = buffer.writeFloatLE(normal[2], offset);
+        for (let j = i; j < i + 3; j++) {
+          const k = 3 * indices[j];
+          offset = buffer.writeFloatLE(p[k], offset);
+          offset = buffer.writeFloatLE(p[k + 1], offset);
+          offset = buffer.writeFloatLE(p[k + 2], offset);
+        }
+        offset = buffer.writeUInt16LE(0, offset);
+      }
+      this.write(buffer);
+      return;
+    }
+
+    const lines: string[] = [];
+    for (let i = 0; i < indices.length; i += 3) {
+      computeTriangleNormal(mesh, i, normal);
+      lines.push(`  facet normal ${formatFloat(normal[0])} ${formatFloat(normal[1])} ${formatFloat(normal[2])}`);
+      lines.push("    outer loop");
+      for (let j = i; j < i + 3; j++) {
+        const k = 3 * indices[j];
+        lines.push(`      vertex ${p[k]} ${p[k + 1]} ${p[k + 2]}`);
+      }
+      lines.push("    endloop");
+      lines.push("  endfacet");
+    }
+    lines.push("");
+    this.write(lines.join("\n"));
+  }
+
+  protected onEndGroup(groupName: string): void {
+    if (!this.binary)
+      this.write(`endsolid ${groupName}\n`);
+  }
+
+  protected onEndExport(): void {
+    if (!this.binary)
+      return;
+
+    const count = Buffer.alloc(4);
+    count.writeUInt32LE(this.triangleCount, 0);
+    this.writeAt(count, 80);
+  }
+}
+
+/** Writes graphics to a Wavefront OBJ file, with its materials written to an accompanying MTL file.
+ * * Each group is written as an OBJ group (`g`) named for the group.
+ * * A material is written for each unique combination of color, [RenderMaterialElement]($backend) and [Texture]($backend).
+ * * Textures are written as image files in the same directory as the MTL file and referenced by relative path.
+ * @beta
+ */
+export class ObjExporter extends MeshExporter {
+  /** The full path of the MTL file, which is written in the same directory as the OBJ file. */
+  public readonly mtlFileName: string;
+  private _materialNames = new Map<string, string>();
+  private _mtlLines: string[] = [];
+  private _pointOffset = 1;
+  private _normalOffset = 1;
+  private _paramOffset = 1;
+
+  /** Construct a new ObjExporter
+   * @param iModel The iModel to export graphics from
+   * @param fileName The full path of the output OBJ file. The MTL file is written alongside it, with the same base name.
+   */
+  public constructor(iModel: IModelDb, fileName: string) {
+    super(iModel, fileName);
+    const parsed = path.parse(fileName);
+    this.mtlFileName = path.join(parsed.dir, `${parsed.name}.mtl`);
+  }
+
+  protected onBeginExport(): void {
+    this._materialNames.clear();
+    this._mtlLines = [];
+    this._pointOffset = this._normalOffset = this._paramOffset = 1;
+    this.write(`mtllib ${path.basename(this.mtlFileName)}\n`);
+  }
+
+  protected onBeginGroup(groupName: string): void {
+    if (groupName.length > 0)
+      this.write(`g ${groupName.replace(/\s/g, "_")}\n`);
+  }
+
+  protected onExportMesh(info: ExportGraphicsInfo): void {
+    const mesh = info.mesh;
+    const lines: string[] = [`usemtl ${this.getMaterialName(info)}`];
+
+    const p = mesh.points;
+    for (let i = 0; i < p.length; i += 3)
+      lines.push(`v ${p[i]} ${p[i + 1]} ${p[i + 2]}`);
+
+    const n = mesh.normals;
+    for (let i = 0; i < n.length; i += 3)
+      lines.push(`vn ${formatFloat(n[i])} ${formatFloat(n[i + 1])} ${formatFloat(n[i + 2])}`);
+
+    const uv = mesh.params;
+    for (let i = 0; i < uv.length; i += 2)
+      lines.push(`vt ${formatFloat(uv[i])} ${formatFloat(uv[i + 1])}`);
+
+    // Normals and params are indexed in parallel with points, but may be absent.
+    const hasNormals = n.length > 0;
+    const hasParams = uv.length > 0;
+    const formatVertex = (index: number): string => {
+      const point = this._pointOffset + index;
+      const param = hasParams ? this._paramOffset + index : "";
+      if (!hasNormals)
+        return hasParams ? `${point}/${param}` : `${point}`;
+      return `${point}/${param}/${this._normalOffset + index}`;
+    };
+
+    const indices = mesh.indices;
+    for (let i = 0; i < indices.length; i += 3)
+      lines.push(`f ${formatVertex(indices[i])} ${formatVertex(indices[i + 1])} ${formatVertex(indices[i + 2])}`);
+
+    lines.push("");
+    this.write(lines.join("\n"));
+
+    this._pointOffset += p.length / 3;
+    this._normalOffset += n.length / 3;
+    this._paramOffset += uv.length / 2;
+  }
+
+  protected onEndGroup(_groupName: string): void { }
+
+  protected onEndExport(): void {
+    fs.writeFileSync(this.mtlFileName, this._mtlLines.join("\n"));
+  }
+
+  /** Get the name of the MTL material for the specified graphics, appending its definition to the MTL file if not already defined. */
+  private getMaterialName(info: ExportGraphicsInfo): string {
+    const key = `${info.color}:${info.materialId ?? ""}:${info.textureId ?? ""}`;
+    let materialName = this._materialNames.get(key);
+    if (undefined !== materialName)
+      return materialName;
+
+    materialName = `Material${this._materialNames.size}`;
+    this._materialNames.set(key, materialName);
+
+    const lines = this._mtlLines;
+    const colors = ColorDef.getColors(info.color);
+    let diffuse = [colors.r / 255, colors.g / 255, colors.b / 255];
+    lines.push(`newmtl ${materialName}`);
+
+    const renderMaterial = (undefined !== info.materialId && Id64.isValidId64(info.materialId)) ? this.iModel.elements.tryGetElement<RenderMaterialElement>(info.materialId) : undefined;
+    const assetProps = (renderMaterial?.jsonProperties as RenderMaterialProps["jsonProperties"])?.materialAssets?.renderMaterial;
+    if (undefined !== assetProps) {
+      if (assetProps.HasBaseColor && undefined !== assetProps.color)
+        diffuse = assetProps.color;
+
+      if (assetProps.HasDiffuse && undefined !== assetProps.diffuse)
+        diffuse = diffuse.map((component) => component * assetProps.diffuse!);
+
+      if (assetProps.HasSpecular || assetProps.HasSpecularColor) {
+        const specularColor = assetProps.specular_color ?? [1, 1, 1];
+        const specular = assetProps.specular ?? 0.4;
+        lines.push(`Ks ${specularColor.map((component) => formatFloat(component * specular)).join(" ")}`);
+      }
+
+      if (assetProps.HasFinish && undefined !== assetProps.finish)
+        lines.push(`Ns ${formatFloat(assetProps.finish)}`);
+    }
+
+    lines.push(`Kd ${diffuse.map((component) => formatFloat(component)).join(" ")}`);
+    if (colors.t !== 0)
+      lines.push(`d ${formatFloat(1 - colors.t / 255)}`);
+
+    if (undefined !== info.textureId && Id64.isValidId64(info.textureId)) {
+      const textureFileName = this.writeTexture(info.textureId);
+      if (undefined !== textureFileName)
+        lines.push(`map_Kd ${textureFileName}`);
+    }
+
+    lines.push("");
+    return materialName;
+  }
+
+  /** Write the image of a Texture to the directory of the MTL file.
+   * @returns The file name of the image relative to the MTL file, or undefined if the Texture could not be found.
+   */
+  private writeTexture(textureId: Id64String): string | undefined {
+    const texture = this.iModel.elements.tryGetElement<Texture>(textureId);
+    if (undefined === texture)
+      return undefined;
+
+    const extension = ImageSourceFormat.Jpeg === texture.format ? ".jpg" : ".png";
+    const textureFileName = `${textureId}${extension}`;
+    fs.writeFileSync(path.join(path.dirname(this.mtlFileName), textureFileName), texture.data);
+    return textureFileName;
+  }
+}
+
+/** Writes graphics to a Polygon File Format (PLY) file, in either the binary (little endian) or the ASCII encoding.
+ * * Each vertex has a position, normal, texture coordinates and an RGBA color taken from the graphics' color.
+ * * When grouping is requested, each face has an additional `group` property indexing the group names, which are recorded as `comment group <index> <name>` lines in the header.
+ * * Because PLY requires all vertices to precede all faces, vertices and faces are first streamed to temporary files alongside the output file.
+ * @beta
+ */
+export class PlyExporter extends MeshExporter {
+  /** If true, write the binary encoding; otherwise, write the ASCII encoding. */
+  public readonly binary: boolean;
+  private _groupNames: string[] = [];
+  private _vertexFd?: number;
+  private _faceFd?: number;
+  private _vertexOffset = 0;
+
+  private get _vertexFileName(): string { return `${this.fileName}.vertices.tmp`; }
+  private get _faceFileName(): string { return `${this.fileName}.faces.tmp`; }
+
+  /** Construct a new PlyExporter
+   * @param iModel The iModel to export graphics from
+   * @param fileName The full path of the output file, which will be overwritten if it already exists
+   * @param binary If true (the default), write the binary little endian encoding; otherwise, write the ASCII encoding.
+   */
+  public constructor(iModel: IModelDb, fileName: string, binary: boolean = true) {
+    super(iModel, fileName);
+    this.binary = binary;
+  }
+
+  protected onBeginExport(): void {
+    this._groupNames = [];
+    this._vertexOffset = 0;
+    this._vertexFd = fs.openSync(this._vertexFileName, "w");
+    this._faceFd = fs.openSync(this._faceFileName, "w");
+  }
+
+  protected onBeginGroup(groupName: string): void {
+    if (groupName.length > 0)
+      this._groupNames.push(groupName);
+  }
+
+  protected onExportMesh(info: ExportGraphicsInfo): void {
+    const mesh = info.mesh;
+    const p = mesh.points;
+    const n = mesh.normals;
+    const uv = mesh.params;
+    const colors = ColorDef.getColors(info.color);
+    const alpha = 255 - colors.t;
+    const numVertices = p.length / 3;
+    const indices = mesh.indices;
+    const group = this._groupNames.length - 1;
+    const hasGroup = group >= 0;
+
+    if (this.binary) {
+      // x y z double, nx ny nz float, s t float, red green blue alpha uchar
+      const vertexBuffer = Buffer.alloc(numVertices * 48);
+      let offset = 0;
+      for (let i = 0; i < numVertices; i++) {
+        offset = vertexBuffer.writeDoubleLE(p[3 * i], offset);
+        offset = vertexBuffer.writeDoubleLE(p[3 * i + 1], offset);
+        offset = vertexBuffer.writeDoubleLE(p[3 * i + 2], offset);
+        offset = vertexBuffer.writeFloatLE(n.length > 0 ? n[3 * i] : 0, offset);
+        offset = vertexBuffer.writeFloatLE(n.length > 0 ? n[3 * i + 1] : 0, offset);
+        offset = vertexBuffer.writeFloatLE(n.length > 0 ? n[3 * i + 2] : 0, offset);
+        offset = vertexBuffer.writeFloatLE(uv.length > 0 ? uv[2 * i] : 0, offset);
+        offset = vertexBuffer.writeFloatLE(uv.length > 0 ? uv[2 * i + 1] : 0, offset);
+        offset = vertexBuffer.writeUInt8(colors.r, offset);
+        offset = vertexBuffer.writeUInt8(colors.g, offset);
+        offset = vertexBuffer.writeUInt8(colors.b, offset);
+        offset = vertexBuffer.writeUInt8(alpha, offset);
+      }
+      fs.writeSync(this._vertexFd!, vertexBuffer, 0, vertexBuffer.length);
+
+      // count uchar, 3 vertex indices uint, optional group uint
+      const faceBuffer = Buffer.alloc((indices.length / 3) * (hasGroup ? 17 : 13));
+      offset = 0;
+      for (let i = 0; i < indices.length; i += 3) {
+        offset = faceBuffer.writeUInt8(3, offset);
+        offset = faceBuffer.writeUInt32LE(this._vertexOffset + indices[i], offset);
+        offset = faceBuffer.writeUInt32LE(this._vertexOffset + indices[i + 1], offset);
+        offset = faceBuffer.writeUInt32LE(this._vertexOffset + indices[i + 2], offset);
+        if (hasGroup)
+          offset = faceBuffer.writeUInt32LE(group, offset);
+      }
+      fs.writeSync(this._faceFd!, faceBuffer, 0, faceBuffer.length);
+    } else {
+      const vertexLines: string[] = [];
+      for (let i = 0; i < numVertices; i++) {
+        const normal = n.length > 0 ? `${formatFloat(n[3 * i])} ${formatFloat(n[3 * i + 1])} ${formatFloat(n[3 * i + 2])}` : "0 0 0";
+        const param = uv.length > 0 ? `${formatFloat(uv[2 * i])} ${formatFloat(uv[2 * i + 1])}` : "0 0";
+        vertexLines.push(`${p[3 * i]} ${p[3 * i + 1]} ${p[3 * i + 2]} ${normal} ${param} ${colors.r} ${colors.g} ${colors.b} ${alpha}\n`);
+      }
+      fs.writeSync(this._vertexFd!, vertexLines.join(""));
+
+      const faceLines: string[] = [];
+      const groupSuffix = hasGroup ? ` ${group}` : "";
+      for (let i = 0; i < indices.length; i += 3)
+        faceLines.push(`3 ${this._vertexOffset + indices[i]} ${this._vertexOffset + indices[i + 1]} ${this._vertexOffset + indices[i + 2]}${groupSuffix}\n`);
+      fs.writeSync(this._faceFd!, faceLines.join(""));
+    }
+
+    this._vertexOffset += numVertices;
+  }
+
+  protected onEndGroup(_groupName: string): void { }
+
+  protected onEndExport(): void {
+    this.closeTempFiles();
+
+    const header = [
+      "ply",
+      `format ${this.binary ? "binary_little_endian" : "ascii"} 1.0`,
+      "comment exported by imodeljs-backend",
+      ...this._groupNames.map((name, index) => `comment group ${index} ${name}`),
+      `element vertex ${this.vertexCount}`,
+      "property double x",
+      "property double y",
+      "property double z",
+      "property float nx",
+      "property float ny",
+      "property float nz",
+      "property float s",
+      "property float t",
+      "property uchar red",
+      "property uchar green",
+      "property uchar blue",
+      "property uchar alpha",
+      `element face ${this.triangleCount}`,
+      "property list uchar uint vertex_indices",
+    ];
+    if (this._groupNames.length > 0)
+      header.push("property uint group");
+
+    header.push("end_header", "");
+    this.write(header.join("\n"));
+    this.appendFile(this._vertexFileName);
+    this.appendFile(this._faceFileName);
+  }
+
+  protected onCloseExport(): void {
+    this.closeTempFiles();
+    for (const fileName of [this._vertexFileName, this._faceFileName]) {
+      if (fs.existsSync(fileName))
+        fs.unlinkSync(fileName);
+    }
+  }
+
+  private closeTempFiles(): void {
+    if (undefined !== this._vertexFd)
+      fs.closeSync(this._vertexFd);
+    if (undefined !== this._faceFd)
+      fs.closeSync(this._faceFd);
+    this._vertexFd = this._faceFd = undefined;
+  }
+
+  /** Copy the contents of a temporary file to the end of the output file. */
+  private appendFile(fileName: string): void {
+    const buffer = Buffer.alloc(1024 * 1024);
+    const fd = fs.openSync(fileName, "r");
+    try {
+      let bytesRead: number;
+      while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0)
+        this.write(buffer.subarray(0, bytesRead));
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+}
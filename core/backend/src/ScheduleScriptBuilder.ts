@@ -0,0 +1,477 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module ViewDefinitions
+ */
+
+import { DbResult, Id64Array, Id64String, IModelStatus } from "@bentley/bentleyjs-core";
+import { Range3d, Vector3d, XYZProps } from "@bentley/geometry-core";
+import { ColorDef, IModelError, RenderSchedule } from "@bentley/imodeljs-common";
+import { ECSqlStatement } from "./ECSqlStatement";
+import { IModelDb } from "./IModelDb";
+
+/** The kind of work done by a [[ScheduleTaskProps]], which determines how its elements are animated.
+ * @beta
+ */
+export enum ScheduleTaskType {
+  /** The elements are hidden before the task, grow along the cutting plane direction during the task, and remain visible afterwards. */
+  Construct = "construct",
+  /** The elements are visible before the task, shrink against the cutting plane direction during the task, and are hidden afterwards. */
+  Demolish = "demolish",
+  /** The elements are only visible during the task, e.g. scaffolding or formwork. */
+  Temporary = "temporary",
+}
+
+/** A task of a construction schedule, as input to a [[ScheduleScriptBuilder]].
+ * @beta
+ */
+export interface ScheduleTaskProps {
+  /** Uniquely identifies the task within the schedule */
+  id: string;
+  name?: string;
+  /** The start of the task, as an ISO 8601 date string or as Unix Epoch (POSIX) seconds */
+  start: string | number;
+  /** The end of the task, as an ISO 8601 date string or as Unix Epoch (POSIX) seconds */
+  end: string | number;
+  type: ScheduleTaskType;
+  /** The elements on which the task works */
+  elementIds: Id64Array;
+}
+
+/** Options for a [[ScheduleScriptBuilder]].
+ * @beta
+ */
+export interface ScheduleScriptBuilderOptions {
+  /** The colors of elements while a task works on them. Defaults to green for construction, red for demolition and yellow for temporary elements.
+   * Elements are shown in their own colors before and after their tasks.
+   */
+  colors?: { [type in ScheduleTaskType]?: ColorDef };
+  /** The direction in which construction progresses. Defaults to the Z axis, i.e. elements are built from the bottom up. */
+  cuttingPlaneDirection?: XYZProps;
+  /** If false, elements appear and disappear at the start or end of their tasks without being clipped by a cutting plane. Defaults to true. */
+  useCuttingPlanes?: boolean;
+  /** If true, the children of the elements of a task are animated with their parent. Defaults to true. */
+  includeChildren?: boolean;
+}
+
+/** The kind of a [[ScheduleIssue]].
+ * @beta
+ */
+export enum ScheduleIssueType {
+  /** Two tasks that work on the same elements overlap in time. */
+  Overlap = "overlap",
+  /** Geometric elements in the scheduled models are not part of any task. */
+  UnscheduledElements = "unscheduledElements",
+  /** A task refers to elements that do not exist in the iModel. */
+  ElementsNotFound = "elementsNotFound",
+}
+
+/** A problem with a schedule, as reported by [[ScheduleScriptBuilder.validate]].
+ * @beta
+ */
+export interface ScheduleIssue {
+  type: ScheduleIssueType;
+  message: string;
+  /** The tasks involved in the problem */
+  taskIds: string[];
+  /** The elements involved in the problem */
+  elementIds: Id64Array;
+}
+
+/** A task whose dates have been converted to Unix Epoch (POSIX) seconds. */
+interface ScheduleTask {
+  props: ScheduleTaskProps;
+  start: number;
+  end: number;
+}
+
+/** An element worked on by tasks of a schedule. */
+interface ScheduledElement {
+  modelId: Id64String;
+  tasks: ScheduleTask[];
+}
+
+/** Values of [RenderSchedule.TimelineEntryProps.interpolation]($common) */
+const stepInterpolation = 1;
+const linearInterpolation = 2;
+
+/** Sort an array in place, keeping items that compare equal in their original order. (Array.prototype.sort is not stable before Node 11.) */
+function stableSort<T>(array: T[], compare: (a: T, b: T) => number): T[] {
+  const indices = new Map<T, number>(array.map((item: T, index: number) => [item, index]));
+  return array.sort((a: T, b: T) => compare(a, b) || indices.get(a)! - indices.get(b)!);
+}
+
+/** Convert a date to Unix Epoch (POSIX) seconds, or return undefined if it is not a valid date. */
+function toEpochSeconds(date: string | number): number | undefined {
+  if (typeof date === "number")
+    return Number.isFinite(date) ? date : undefined;
+
+  const trimmed = date.trim();
+  if (/^-?\d+(\.\d+)?$/.test(trimmed))
+    return Number(trimmed);
+
+  const milliseconds = Date.parse(trimmed);
+  return Number.isNaN(milliseconds) ? undefined : milliseconds / 1000;
+}
+
+/** Split one line of a CSV file into its fields, where fields that contain commas or quotes are enclosed in double quotes. */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === "\"" && line[i + 1] === "\"") {
+        field += char;
+        i++;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === "\"") {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/** Split a list of element Ids separated by semicolons or white space. */
+function splitElementIds(elementIds: string): Id64Array {
+  return elementIds.split(/[;\s]+/).filter((elementId: string) => elementId.length > 0);
+}
+
+/** Generates [RenderSchedule.ModelTimelineProps]($common) for a display style from the tasks of a construction schedule.
+ * Each element is animated according to the types of the tasks that work on it. Elements that are animated identically share an element timeline.
+ *
+ * ```ts
+ * const builder = new ScheduleScriptBuilder(iModel);
+ * builder.addTasks(ScheduleScriptBuilder.parseCsv(fs.readFileSync("schedule.csv", "utf8")));
+ * const issues = builder.validate();
+ * DisplayStyle3d.insert(iModel, definitionModelId, "Schedule", { scheduleScript: builder.build() });
+ * ```
+ * @beta
+ */
+export class ScheduleScriptBuilder {
+  private readonly _tasks = new Map<string, ScheduleTask>();
+  private readonly _options: ScheduleScriptBuilderOptions;
+
+  public constructor(public readonly iModel: IModelDb, options: ScheduleScriptBuilderOptions = {}) {
+    this._options = options;
+  }
+
+  /** Parse tasks from CSV text.
+   * The first line must be a header naming the columns `id`, `start`, `end`, `type` and `elementIds`, and optionally `name`, in any order.
+   * Element Ids within a field are separated by semicolons or white space.
+   * @throws [IModelError]($common) if a required column is missing.
+   */
+  public static parseCsv(csv: string): ScheduleTaskProps[] {
+    const lines = csv.split(/\r?\n/).filter((line: string) => line.trim().length > 0);
+    if (lines.length === 0)
+      return [];
+
+    const header = splitCsvLine(lines[0]).map((column: string) => column.trim().toLowerCase());
+    const columnIndex = (name: string, required: boolean): number => {
+      const index = header.indexOf(name.toLowerCase());
+      if (index < 0 && required)
+        throw new IModelError(IModelStatus.BadArg, `Schedule CSV is missing the "${name}" column`);
+      return index;
+    };
+    const idIndex = columnIndex("id", true);
+    const nameIndex = columnIndex("name", false);
+    const startIndex = columnIndex("start", true);
+    const endIndex = columnIndex("end", true);
+    const typeIndex = columnIndex("type", true);
+    const elementIdsIndex = columnIndex("elementIds", true);
+
+    return lines.slice(1).map((line: string) => {
+      const fields = splitCsvLine(line);
+      const field = (index: number) => (fields[index] ?? "").trim();
+      const task: ScheduleTaskProps = {
+        id: field(idIndex),
+        start: field(startIndex),
+        end: field(endIndex),
+        type: field(typeIndex).toLowerCase() as ScheduleTaskType,
+        elementIds: splitElementIds(field(elementIdsIndex)),
+      };
+      if (nameIndex >= 0 && field(nameIndex).length > 0)
+        task.name = field(nameIndex);
+      return task;
+    });
+  }
+
+  /** Parse tasks from JSON text containing an array of [[ScheduleTaskProps]], or an object with such an array in its `tasks` property.
+   * The element Ids of a task may also be given as a string, separated by semicolons or white space.
+   * @throws [IModelError]($common) if the JSON does not contain an array of tasks.
+   */
+  public static parseJson(json: string): ScheduleTaskProps[] {
+    const parsed = JSON.parse(json);
+    const tasks = Array.isArray(parsed) ? parsed : parsed?.tasks;
+    if (!Array.isArray(tasks))
+      throw new IModelError(IModelStatus.BadArg, "Schedule JSON must contain an array of tasks");
+
+    return tasks.map((task: any) => ({
+      ...task,
+      id: String(task.id),
+      type: typeof task.type === "string" ? task.type.toLowerCase() : task.type,
+      elementIds: typeof task.elementIds === "string" ? splitElementIds(task.elementIds) : task.elementIds ?? [],
+    }));
+  }
+
+  /** Add a task to the schedule.
+   * @throws [IModelError]($common) if the task has no id or a duplicate id, an unknown type, or invalid dates.
+   */
+  public addTask(props: ScheduleTaskProps): void {
+    if (undefined === props.id || props.id.length === 0)
+      throw new IModelError(IModelStatus.BadArg, "Schedule task must have an id");
+    if (this._tasks.has(props.id))
+      throw new IModelError(IModelStatus.DuplicateName, `Duplicate schedule task "${props.id}"`);
+    if (!Object.values(ScheduleTaskType).includes(props.type))
+      throw new IModelError(IModelStatus.BadArg, `Schedule task "${props.id}" has unknown type "${props.type}"`);
+
+    const start = toEpochSeconds(props.start);
+    const end = toEpochSeconds(props.end);
+    if (undefined === start || undefined === end)
+      throw new IModelError(IModelStatus.BadArg, `Schedule task "${props.id}" has an invalid start or end date`);
+    if (end < start)
+      throw new IModelError(IModelStatus.BadArg, `Schedule task "${props.id}" ends before it starts`);
+
+    this._tasks.set(props.id, { props, start, end });
+  }
+
+  /** Add several tasks to the schedule, see [[addTask]]. */
+  public addTasks(tasks: ScheduleTaskProps[]): void {
+    for (const task of tasks)
+      this.addTask(task);
+  }
+
+  /** The tasks of the schedule */
+  public get tasks(): ScheduleTaskProps[] {
+    return Array.from(this._tasks.values(), (task: ScheduleTask) => task.props);
+  }
+
+  /** Check the schedule for tasks that overlap in time on the same elements, for elements that do not exist, and for geometric elements without a task.
+   * @param modelIds The models to check for geometric elements without a task. Defaults to the models of the scheduled elements.
+   */
+  public validate(modelIds?: Id64Array): ScheduleIssue[] {
+    const issues: ScheduleIssue[] = [];
+    const elements = this.collectElements();
+
+    for (const task of this._tasks.values()) {
+      const missingIds = task.props.elementIds.filter((elementId: Id64String) => !elements.has(elementId));
+      if (missingIds.length > 0)
+        issues.push({ type: ScheduleIssueType.ElementsNotFound, message: `Task "${task.props.id}" refers to ${missingIds.length} elements that do not exist`, taskIds: [task.props.id], elementIds: missingIds });
+    }
+
+    const overlaps = new Map<string, ScheduleIssue>();
+    for (const [elementId, { tasks }] of elements) {
+      for (let i = 1; i < tasks.length; i++) {
+        for (let j = 0; j < i; j++) {
+          if (tasks[i].start >= tasks[j].end)
+            continue;
+
+          const key = JSON.stringify([tasks[j].props.id, tasks[i].props.id]);
+          const overlap = overlaps.get(key);
+          if (undefined !== overlap) {
+            overlap.elementIds.push(elementId);
+            continue;
+          }
+
+          overlaps.set(key, { type: ScheduleIssueType.Overlap, message: `Tasks "${tasks[j].props.id}" and "${tasks[i].props.id}" overlap on the same elements`, taskIds: [tasks[j].props.id, tasks[i].props.id], elementIds: [elementId] });
+        }
+      }
+    }
+    issues.push(...overlaps.values());
+
+    const models = modelIds ?? Array.from(new Set<Id64String>(Array.from(elements.values(), (element: ScheduledElement) => element.modelId)));
+    const unscheduledIds: Id64Array = [];
+    this.iModel.withPreparedStatement("SELECT ECInstanceId FROM bis.GeometricElement3d WHERE InVirtualSet(?,Model.Id)", (statement: ECSqlStatement) => {
+      statement.bindIdSet(1, models);
+      while (DbResult.BE_SQLITE_ROW === statement.step()) {
+        const elementId = statement.getValue(0).getId();
+        if (!elements.has(elementId))
+          unscheduledIds.push(elementId);
+      }
+    });
+    if (unscheduledIds.length > 0)
+      issues.push({ type: ScheduleIssueType.UnscheduledElements, message: `${unscheduledIds.length} geometric elements are not part of any task`, taskIds: [], elementIds: unscheduledIds });
+
+    return issues;
+  }
+
+  /** Generate the schedule script. Elements that do not exist are ignored.
+   * @returns a timeline for each model that contains scheduled elements, suitable for [DisplayStyleSettingsProps.scheduleScript]($common).
+   */
+  public build(): RenderSchedule.ModelTimelineProps[] {
+    const elements = this.collectElements();
+
+    // Elements with the same tasks in the same model share a timeline
+    const groups = new Map<Id64String, Map<string, { tasks: ScheduleTask[], elementIds: Id64Array }>>();
+    for (const [elementId, { modelId, tasks }] of elements) {
+      let modelGroups = groups.get(modelId);
+      if (undefined === modelGroups)
+        groups.set(modelId, modelGroups = new Map<string, { tasks: ScheduleTask[], elementIds: Id64Array }>());
+
+      const key = JSON.stringify(tasks.map((task: ScheduleTask) => task.props.id));
+      const group = modelGroups.get(key);
+      if (undefined === group)
+        modelGroups.set(key, { tasks, elementIds: [elementId] });
+      else
+        group.elementIds.push(elementId);
+    }
+
+    const script: RenderSchedule.ModelTimelineProps[] = [];
+    for (const [modelId, modelGroups] of groups) {
+      const elementTimelines: RenderSchedule.ElementTimelineProps[] = [];
+      for (const group of modelGroups.values())
+        elementTimelines.push({ batchId: elementTimelines.length + 1, elementIds: group.elementIds, ...this.createTimeline(group.tasks, group.elementIds) });
+
+      script.push({ modelId, elementTimelines });
+    }
+    return script;
+  }
+
+  /** Map each element of the tasks, and each of their children if requested, to its model and the tasks that work on it in order of their start.
+   * Children inherit the tasks of their parents. Elements that do not exist are omitted.
+   */
+  private collectElements(): Map<Id64String, ScheduledElement> {
+    const elements = new Map<Id64String, ScheduledElement>();
+    const sortedTasks = stableSort(Array.from(this._tasks.values()), (a: ScheduleTask, b: ScheduleTask) => a.start - b.start);
+    this.iModel.withPreparedStatement("SELECT ECInstanceId,Model.Id FROM bis.Element WHERE InVirtualSet(?,ECInstanceId)", (statement: ECSqlStatement) => {
+      statement.bindIdSet(1, Array.from(new Set<Id64String>(([] as Id64Array).concat(...sortedTasks.map((task: ScheduleTask) => task.props.elementIds)))));
+      while (DbResult.BE_SQLITE_ROW === statement.step())
+        elements.set(statement.getValue(0).getId(), { modelId: statement.getValue(1).getId(), tasks: [] });
+    });
+
+    for (const task of sortedTasks) {
+      for (const elementId of task.props.elementIds) {
+        const element = elements.get(elementId);
+        if (undefined !== element && !element.tasks.includes(task))
+          element.tasks.push(task);
+      }
+    }
+
+    if (false === this._options.includeChildren)
+      return elements;
+
+    this.iModel.withPreparedStatement("SELECT ECInstanceId,Model.Id FROM bis.Element WHERE Parent.Id=?", (statement: ECSqlStatement) => {
+      const parentIds = Array.from(elements.keys());
+      while (parentIds.length > 0) {
+        const parentId = parentIds.pop()!;
+        const parent = elements.get(parentId)!;
+        statement.reset();
+        statement.bindId(1, parentId);
+        while (DbResult.BE_SQLITE_ROW === statement.step()) {
+          const childId = statement.getValue(0).getId();
+          let child = elements.get(childId);
+          if (undefined === child) {
+            elements.set(childId, child = { modelId: statement.getValue(1).getId(), tasks: [] });
+            parentIds.push(childId);
+          }
+          for (const task of parent.tasks) {
+            if (!child.tasks.includes(task))
+              child.tasks.push(task);
+          }
+          stableSort(child.tasks, (a: ScheduleTask, b: ScheduleTask) => a.start - b.start);
+        }
+      }
+    });
+    return elements;
+  }
+
+  /** Create the visibility, color and cutting plane timelines for elements worked on by a sequence of tasks. */
+  private createTimeline(tasks: ScheduleTask[], elementIds: Id64Array): RenderSchedule.TimelineProps {
+    const visibilityTimeline: RenderSchedule.VisibilityEntryProps[] = [];
+    const colorTimeline: RenderSchedule.ColorEntryProps[] = [];
+    const cuttingPlaneTimeline: RenderSchedule.CuttingPlaneEntryProps[] = [];
+
+    // Before its first task, an element only exists if it is demolished.
+    // Two entries at the same time switch the value at that time, as the first entry applies up to and including the time of the next entry.
+    // A color entry without a value shows the elements in their own colors.
+    visibilityTimeline.push({ time: tasks[0].start, value: tasks[0].props.type === ScheduleTaskType.Demolish ? 100 : 0, interpolation: stepInterpolation });
+    colorTimeline.push({ time: tasks[0].start, interpolation: stepInterpolation });
+    for (const task of tasks) {
+      visibilityTimeline.push({ time: task.start, value: 100, interpolation: stepInterpolation });
+      visibilityTimeline.push({ time: task.end, value: task.props.type === ScheduleTaskType.Construct ? 100 : 0, interpolation: stepInterpolation });
+
+      const color = this.getColor(task.props.type).colors;
+      colorTimeline.push({ time: task.start, value: { red: color.r, green: color.g, blue: color.b }, interpolation: stepInterpolation });
+      colorTimeline.push({ time: task.end, interpolation: stepInterpolation });
+    }
+
+    const range = this.queryRange(elementIds);
+    if (false !== this._options.useCuttingPlanes && !range.isNull) {
+      const direction = Vector3d.fromJSON(this._options.cuttingPlaneDirection ?? [0, 0, 1]).normalize() ?? Vector3d.unitZ();
+      const center = range.center;
+      const corners = range.corners();
+      const distances = corners.map((corner) => direction.dotProductStartEnd(center, corner));
+      const position = (distance: number) => {
+        const point = center.plusScaled(direction, distance);
+        return [point.x, point.y, point.z];
+      };
+      const bottom = position(Math.min(...distances));
+      const top = position(Math.max(...distances));
+      const directionArray = [direction.x, direction.y, direction.z];
+
+      for (const task of tasks) {
+        switch (task.props.type) {
+          case ScheduleTaskType.Construct:
+            cuttingPlaneTimeline.push({ time: task.start, value: { position: bottom, direction: directionArray }, interpolation: linearInterpolation });
+            cuttingPlaneTimeline.push({ time: task.end, value: { position: top, direction: directionArray, visible: true }, interpolation: stepInterpolation });
+            break;
+          case ScheduleTaskType.Demolish:
+            cuttingPlaneTimeline.push({ time: task.start, value: { position: top, direction: directionArray }, interpolation: linearInterpolation });
+            cuttingPlaneTimeline.push({ time: task.end, value: { position: bottom, direction: directionArray, hidden: true }, interpolation: stepInterpolation });
+            break;
+          case ScheduleTaskType.Temporary:
+            cuttingPlaneTimeline.push({ time: task.start, value: { position: top, direction: directionArray, visible: true }, interpolation: stepInterpolation });
+            cuttingPlaneTimeline.push({ time: task.end, value: { position: bottom, direction: directionArray, hidden: true }, interpolation: stepInterpolation });
+            break;
+        }
+      }
+    }
+
+    // Entries at the same time must stay in the order they were added.
+    const byTime = (a: RenderSchedule.TimelineEntryProps, b: RenderSchedule.TimelineEntryProps) => a.time - b.time;
+    const timeline: RenderSchedule.TimelineProps = { visibilityTimeline: stableSort(visibilityTimeline, byTime), colorTimeline: stableSort(colorTimeline, byTime) };
+    if (cuttingPlaneTimeline.length > 0)
+      timeline.cuttingPlaneTimeline = stableSort(cuttingPlaneTimeline, byTime);
+
+    return timeline;
+  }
+
+  private getColor(type: ScheduleTaskType): ColorDef {
+    const color = this._options.colors?.[type];
+    if (undefined !== color)
+      return color;
+
+    switch (type) {
+      case ScheduleTaskType.Construct: return ColorDef.from(0, 255, 0);
+      case ScheduleTaskType.Demolish: return ColorDef.from(255, 0, 0);
+      case ScheduleTaskType.Temporary: return ColorDef.from(255, 255, 0);
+    }
+  }
+
+  /** Query the union of the ranges of the elements from the spatial index. */
+  private queryRange(elementIds: Id64Array): Range3d {
+    const range = Range3d.createNull();
+    this.iModel.withPreparedStatement("SELECT MinX,MinY,MinZ,MaxX,MaxY,MaxZ FROM bis.SpatialIndex WHERE InVirtualSet(?,ECInstanceId)", (statement: ECSqlStatement) => {
+      statement.bindIdSet(1, elementIds);
+      while (DbResult.BE_SQLITE_ROW === statement.step()) {
+        const row = statement.getRow();
+        range.extendXYZ(row.minX, row.minY, row.minZ);
+        range.extendXYZ(row.maxX, row.maxY, row.maxZ);
+      }
+    });
+    return range;
+  }
+}
@@ -0,0 +1,410 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module iModels
+ */
+import { Id64String, IModelStatus, Logger } from "@bentley/bentleyjs-core";
+import { Constant, ECClass, Property, Schema, SchemaItem, Unit } from "@bentley/ecschema-metadata";
+import { ECJsNames, ElementAspectProps, ElementProps, IModelError } from "@bentley/imodeljs-common";
+import { BackendLoggerCategory } from "./BackendLoggerCategory";
+import { Element } from "./Element";
+import { ElementAspect } from "./ElementAspect";
+import { Entity } from "./Entity";
+import { IModelDb } from "./IModelDb";
+import { IModelExporter } from "./IModelExporter";
+import { IModelImporter } from "./IModelImporter";
+import { IModelSchemaLoader } from "./IModelSchemaLoader";
+import { IModelTransformer, IModelTransformOptions } from "./IModelTransformer";
+
+const loggerCategory: string = BackendLoggerCategory.IModelTransformer;
+
+/** Describes how the instances of a source class are transformed into instances of a target class.
+ * @see [[SchemaMappingProps]]
+ * @beta
+ */
+export interface ClassMappingProps {
+  /** The full name (`Schema:Class` or `Schema.Class`) of an Element or ElementAspect class in the source iModel. Instances of subclasses are not affected. */
+  sourceClass: string;
+  /** The full name of the class in the target iModel that instances of the source class are transformed into. */
+  targetClass: string;
+  /** Maps the names of source class properties to the names of target class properties.
+   * Properties of the source class that are not listed here are transformed into the target class property of the same name.
+   * If both properties have a KindOfQuantity and their persistence units differ, the value is converted to the persistence unit of the target property.
+   */
+  properties?: { [sourcePropertyName: string]: string };
+  /** The names of source class properties that should not be transformed. */
+  dropProperties?: string[];
+}
+
+/** A declarative (JSON) mapping between the classes of the source and target schemas of a [[SchemaMappingTransformer]].
+ * @beta
+ */
+export interface SchemaMappingProps {
+  /** The class mappings. Each source class can only be mapped once. */
+  classes: ClassMappingProps[];
+}
+
+/** The factor and offset that convert a value from one unit to another. */
+interface UnitConversion {
+  factor: number;
+  offset: number;
+}
+
+/** A unit expressed in terms of base units, such that `baseValue = value * factor + offset`. */
+interface ResolvedUnit extends UnitConversion {
+  /** The exponents of the base units (by full name) that make up the unit. */
+  baseUnits: Map<string, number>;
+}
+
+/** How a single source property is transformed. */
+interface PropertyMapping {
+  /** The JavaScript name of the source property. */
+  sourceName: string;
+  /** The JavaScript name of the target property or undefined if the source property is dropped. */
+  targetName?: string;
+  /** The conversion from the persistence unit of the source property to that of the target property. */
+  conversion?: UnitConversion;
+  /** The relationship class of the target navigation property. */
+  relClassName?: string;
+}
+
+/** A validated [[ClassMappingProps]]. */
+interface ClassMapping {
+  targetClassFullName: string;
+  properties: PropertyMapping[];
+}
+
+/** Return the class full name in the `Schema:Class` format used by Entities. */
+function normalizeClassFullName(classFullName: string): string {
+  return classFullName.replace(".", ":");
+}
+
+/** Look up a Unit or Constant referenced by the definition of an item in the specified schema. */
+function lookupUnitItem(schema: Schema, name: string): Unit | Constant | undefined {
+  let fullName = name;
+  const separatorIndex = name.indexOf(":");
+  if (separatorIndex >= 0) {
+    // qualified by the alias of a referenced schema
+    const schemaName = schema.getReferenceNameByAlias(name.substring(0, separatorIndex));
+    if (undefined !== schemaName) {
+      fullName = `${schemaName}.${name.substring(separatorIndex + 1)}`;
+    }
+  }
+  const item = schema.lookupItemSync<SchemaItem>(fullName);
+  return ((item instanceof Unit) || (item instanceof Constant)) ? item : undefined;
+}
+
+/** Express a Unit or Constant in terms of base units by recursively evaluating its definition.
+ * A definition is a product of terms like `[MILLI]*M` or `M*S(-1)`, and the value in definition units is `(value + offset) * numerator / denominator`.
+ * @throws Error if the definition cannot be resolved.
+ */
+function resolveUnit(item: Unit | Constant, resolving: Set<string> = new Set<string>()): ResolvedUnit {
+  const terms: string[] = item.definition.split("*").map((term) => term.trim());
+  if ((1 === terms.length) && (terms[0] === item.name)) {
+    // a base unit is defined in terms of itself, and dimensionless base units do not contribute to the signature
+    const isDimensionless = "NUMBER" === item.phenomenon?.name;
+    return { factor: 1, offset: 0, baseUnits: isDimensionless ? new Map<string, number>() : new Map<string, number>([[item.fullName, 1]]) };
+  }
+  if (resolving.has(item.fullName)) {
+    throw new Error(`Circular definition of ${item.fullName}`);
+  }
+  resolving.add(item.fullName);
+  const scale = item.numerator / item.denominator;
+  const result: ResolvedUnit = { factor: scale, offset: 0, baseUnits: new Map<string, number>() };
+  for (const term of terms) {
+    const match = /^\[?([\w:.]+?)\]?(?:\((-?\d+)\))?$/.exec(term);
+    const termItem = match ? lookupUnitItem(item.schema, match[1]) : undefined;
+    if (!match || !termItem) {
+      throw new Error(`Unable to resolve "${term}" in the definition of ${item.fullName}`);
+    }
+    const exponent = (undefined !== match[2]) ? parseInt(match[2], 10) : 1;
+    const resolvedTerm = resolveUnit(termItem, resolving);
+    result.factor *= Math.pow(resolvedTerm.factor, exponent);
+    if ((1 === terms.length) && (1 === exponent)) {
+      result.offset = resolvedTerm.offset; // offsets are only meaningful for units defined by a single other unit
+    }
+    resolvedTerm.baseUnits.forEach((baseExponent: number, baseUnit: string) => {
+      const sum = (result.baseUnits.get(baseUnit) ?? 0) + baseExponent * exponent;
+      if (0 === sum) {
+        result.baseUnits.delete(baseUnit);
+      } else {
+        result.baseUnits.set(baseUnit, sum);
+      }
+    });
+  }
+  resolving.delete(item.fullName);
+  if (item instanceof Unit) {
+    result.offset += result.factor * item.offset;
+  }
+  return result;
+}
+
+/** Return the conversion between two units or undefined if they measure different quantities. */
+function computeUnitConversion(sourceUnit: Unit, targetUnit: Unit): UnitConversion | undefined {
+  const source = resolveUnit(sourceUnit);
+  const target = resolveUnit(targetUnit);
+  if (source.baseUnits.size !== target.baseUnits.size) {
+    return undefined;
+  }
+  for (const [baseUnit, exponent] of source.baseUnits) {
+    if (target.baseUnits.get(baseUnit) !== exponent) {
+      return undefined;
+    }
+  }
+  return { factor: source.factor / target.factor, offset: (source.offset - target.offset) / target.factor };
+}
+
+/** Apply a unit conversion to a number, a point, or an array of either. */
+function convertValue(value: any, conversion: UnitConversion): any {
+  if (typeof value === "number") {
+    return value * conversion.factor + conversion.offset;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry: any) => convertValue(entry, conversion));
+  }
+  if ((typeof value === "object") && (null !== value)) {
+    const converted: any = { ...value };
+    for (const coordinate of ["x", "y", "z"]) {
+      if (typeof value[coordinate] === "number") {
+        converted[coordinate] = convertValue(value[coordinate], conversion);
+      }
+    }
+    return converted;
+  }
+  return value;
+}
+
+/** IModelTransformer that transforms instances of source classes into instances of target classes as described by a declarative [[SchemaMappingProps]].
+ * The mapping is validated against the schemas of both iModels before the first Element is transformed.
+ * @note The target schemas must be imported before processing starts, for example by [[IModelTransformer.processSchemas]] or [IModelDb.importSchemas]($backend).
+ * @beta
+ */
+export class SchemaMappingTransformer extends IModelTransformer {
+  /** The mapping provided to the constructor. */
+  public readonly mapping: SchemaMappingProps;
+  /** The validated class mappings, keyed by the full name of the source class. */
+  private _classMappings?: Map<string, ClassMapping>;
+
+  /** Construct a new SchemaMappingTransformer
+   * @param source Specifies the source IModelExporter or the source IModelDb that will be used to construct the source IModelExporter.
+   * @param target Specifies the target IModelImporter or the target IModelDb that will be used to construct the target IModelImporter.
+   * @param mapping The mapping between the source and target classes.
+   * @param options The options that specify how the transformation should be done.
+   */
+  public constructor(source: IModelDb | IModelExporter, target: IModelDb | IModelImporter, mapping: SchemaMappingProps, options?: IModelTransformOptions) {
+    super(source, target, options);
+    this.mapping = mapping;
+  }
+
+  /** Validate the mapping against the schemas of the source and target iModels.
+   * @returns The validation errors, which is an empty array if the mapping is valid.
+   */
+  public validateMapping(): string[] {
+    const errors: string[] = [];
+    this.compileMapping(errors);
+    return errors;
+  }
+
+  /** Validate the mapping and set up the class remapping rules if that has not been done yet.
+   * @throws [[IModelError]] if the mapping is not valid.
+   */
+  private initMapping(): Map<string, ClassMapping> {
+    if (undefined === this._classMappings) {
+      const errors: string[] = [];
+      const classMappings = this.compileMapping(errors);
+      if (errors.length > 0) {
+        throw new IModelError(IModelStatus.BadSchema, `Invalid schema mapping: ${errors.join("; ")}`, Logger.logError, loggerCategory);
+      }
+      classMappings.forEach((classMapping: ClassMapping, sourceClassFullName: string) => {
+        this.context.remapElementClass(sourceClassFullName, classMapping.targetClassFullName);
+      });
+      this._classMappings = classMappings;
+    }
+    return this._classMappings;
+  }
+
+  /** Look up a class in the schemas of an iModel, reporting an error if it is not found. */
+  private static findClass(schemaLoader: IModelSchemaLoader, classFullName: string, iModelName: string, errors: string[]): ECClass | undefined {
+    const [schemaName, className] = SchemaItem.parseFullName(classFullName.replace(":", "."));
+    const schema = ("" !== schemaName) ? schemaLoader.tryGetSchema(schemaName) : undefined;
+    const ecClass = schema?.getItemSync<SchemaItem>(className);
+    if (!(ecClass instanceof ECClass)) {
+      errors.push(`Class ${classFullName} not found in the ${iModelName} iModel`);
+      return undefined;
+    }
+    return ecClass;
+  }
+
+  /** Return true if the class derives from a BisCore class. */
+  private static isSubclassOf(ecClass: ECClass, schemaLoader: IModelSchemaLoader, baseClassName: string): boolean {
+    const baseClass = schemaLoader.getSchema("BisCore").getItemSync<ECClass>(baseClassName);
+    return (undefined !== baseClass) && ecClass.isSync(baseClass);
+  }
+
+  /** Validate the mapping and convert it into the form used during transformation, appending any validation errors to the specified array. */
+  private compileMapping(errors: string[]): Map<string, ClassMapping> {
+    const sourceSchemaLoader = new IModelSchemaLoader(this.sourceDb);
+    const targetSchemaLoader = new IModelSchemaLoader(this.targetDb);
+    const classMappings = new Map<string, ClassMapping>();
+    for (const classMappingProps of this.mapping.classes) {
+      const sourceClass = SchemaMappingTransformer.findClass(sourceSchemaLoader, classMappingProps.sourceClass, "source", errors);
+      const targetClass = SchemaMappingTransformer.findClass(targetSchemaLoader, classMappingProps.targetClass, "target", errors);
+      if ((undefined === sourceClass) || (undefined === targetClass)) {
+        continue;
+      }
+      const sourceClassFullName = normalizeClassFullName(sourceClass.fullName);
+      if (classMappings.has(sourceClassFullName)) {
+        errors.push(`Class ${sourceClass.fullName} is mapped more than once`);
+        continue;
+      }
+      const isElementMapping = SchemaMappingTransformer.isSubclassOf(sourceClass, sourceSchemaLoader, Element.className);
+      const isAspectMapping = SchemaMappingTransformer.isSubclassOf(sourceClass, sourceSchemaLoader, ElementAspect.className);
+      if (!isElementMapping && !isAspectMapping) {
+        errors.push(`Class ${sourceClass.fullName} is neither an Element nor an ElementAspect class`);
+        continue;
+      }
+      if (!SchemaMappingTransformer.isSubclassOf(targetClass, targetSchemaLoader, isElementMapping ? Element.className : ElementAspect.className)) {
+        errors.push(`Class ${targetClass.fullName} is not an ${isElementMapping ? "Element" : "ElementAspect"} class like ${sourceClass.fullName}`);
+        continue;
+      }
+      // EC property names are case-insensitive, so the mapped and dropped property names are looked up in lower case
+      const propertyNames = new Map<string, string>(); // lower-case source property name --> target property name
+      for (const [sourcePropertyName, targetPropertyName] of Object.entries(classMappingProps.properties ?? {})) {
+        propertyNames.set(sourcePropertyName.toLowerCase(), targetPropertyName);
+      }
+      const dropPropertyNames = new Set<string>((classMappingProps.dropProperties ?? []).map((propertyName: string) => propertyName.toLowerCase()));
+      for (const propertyName of [...Object.keys(classMappingProps.properties ?? {}), ...(classMappingProps.dropProperties ?? [])]) {
+        if (undefined === sourceClass.getPropertySync(propertyName, true)) {
+          errors.push(`Property ${propertyName} not found in class ${sourceClass.fullName}`);
+        }
+      }
+      const propertyMappings: PropertyMapping[] = [];
+      const mappedSourceProperties = new Map<string, Property>(); // lower-case target property name --> the source property mapped to it
+      for (const sourceProperty of sourceClass.getPropertiesSync()) {
+        const sourcePropertyKey = sourceProperty.name.toLowerCase();
+        if (dropPropertyNames.has(sourcePropertyKey)) {
+          propertyMappings.push({ sourceName: ECJsNames.toJsName(sourceProperty.name, false) });
+          continue;
+        }
+        const explicitTargetPropertyName = propertyNames.get(sourcePropertyKey);
+        if ((undefined === explicitTargetPropertyName) && ("BisCore" === sourceProperty.class.schema.name)) {
+          // properties inherited from BisCore are handled by the standard cloning unless they are explicitly mapped or dropped
+          SchemaMappingTransformer.addTargetProperty(sourceProperty, sourceProperty.name, targetClass, mappedSourceProperties, errors);
+          continue;
+        }
+        const targetPropertyName = explicitTargetPropertyName ?? sourceProperty.name;
+        const targetProperty = targetClass.getPropertySync(targetPropertyName, true);
+        if (undefined === targetProperty) {
+          errors.push(`Property ${sourceProperty.fullName} has no counterpart ${targetPropertyName} in class ${targetClass.fullName}, so it must be mapped or dropped`);
+          continue;
+        }
+        if (!SchemaMappingTransformer.addTargetProperty(sourceProperty, targetProperty.name, targetClass, mappedSourceProperties, errors)) {
+          continue;
+        }
+        const propertyMapping = SchemaMappingTransformer.compilePropertyMapping(sourceProperty, targetProperty, errors);
+        if (undefined !== propertyMapping) {
+          propertyMappings.push(propertyMapping);
+        }
+      }
+      classMappings.set(sourceClassFullName, { targetClassFullName: normalizeClassFullName(targetClass.fullName), properties: propertyMappings });
+    }
+    return classMappings;
+  }
+
+  /** Record that a source property is transformed into a target property, validating that no other source property of the class is transformed into the same target property.
+   * @returns false if another source property is already transformed into the target property.
+   */
+  private static addTargetProperty(sourceProperty: Property, targetPropertyName: string, targetClass: ECClass, mappedSourceProperties: Map<string, Property>, errors: string[]): boolean {
+    const key = targetPropertyName.toLowerCase(); // EC property names are case-insensitive
+    const otherSourceProperty = mappedSourceProperties.get(key);
+    if (undefined !== otherSourceProperty) {
+      errors.push(`Properties ${otherSourceProperty.fullName} and ${sourceProperty.fullName} are both mapped to property ${targetPropertyName} in class ${targetClass.fullName}`);
+      return false;
+    }
+    mappedSourceProperties.set(key, sourceProperty);
+    return true;
+  }
+
+  /** Validate that a source property can be transformed into a target property, determining the unit conversion if needed. */
+  private static compilePropertyMapping(sourceProperty: Property, targetProperty: Property, errors: string[]): PropertyMapping | undefined {
+    if (sourceProperty.propertyType !== targetProperty.propertyType) {
+      errors.push(`Property ${sourceProperty.fullName} and property ${targetProperty.fullName} have different types`);
+      return undefined;
+    }
+    const propertyMapping: PropertyMapping = { sourceName: ECJsNames.toJsName(sourceProperty.name, false), targetName: ECJsNames.toJsName(targetProperty.name, false) };
+    if (targetProperty.isNavigation()) {
+      const relClass = targetProperty.getRelationshipClassSync();
+      propertyMapping.relClassName = relClass ? normalizeClassFullName(relClass.fullName) : undefined;
+    }
+    const sourceKindOfQuantity = sourceProperty.getKindOfQuantitySync();
+    const targetKindOfQuantity = targetProperty.getKindOfQuantitySync();
+    if ((undefined === sourceKindOfQuantity?.persistenceUnit) || (undefined === targetKindOfQuantity?.persistenceUnit)) {
+      return propertyMapping; // no unit conversion unless both properties have a KindOfQuantity
+    }
+    const sourceUnit = sourceKindOfQuantity.schema.lookupItemSync<SchemaItem>(sourceKindOfQuantity.persistenceUnit);
+    const targetUnit = targetKindOfQuantity.schema.lookupItemSync<SchemaItem>(targetKindOfQuantity.persistenceUnit);
+    if (!(sourceUnit instanceof Unit) || !(targetUnit instanceof Unit)) {
+      errors.push(`Unable to convert property ${sourceProperty.fullName} to property ${targetProperty.fullName}: only persistence units that are not inverted are supported`);
+      return undefined;
+    }
+    if (sourceUnit.fullName === targetUnit.fullName) {
+      return propertyMapping;
+    }
+    try {
+      const conversion = computeUnitConversion(sourceUnit, targetUnit);
+      if (undefined === conversion) {
+        errors.push(`Unable to convert property ${sourceProperty.fullName} from ${sourceUnit.fullName} to ${targetUnit.fullName}: the units measure different quantities`);
+        return undefined;
+      }
+      propertyMapping.conversion = conversion;
+    } catch (error) {
+      errors.push(`Unable to convert property ${sourceProperty.fullName}: ${error.message}`);
+      return undefined;
+    }
+    return propertyMapping;
+  }
+
+  /** Apply a class mapping to the transformed props of a source entity. */
+  private applyClassMapping(sourceEntity: Entity, classMapping: ClassMapping, targetProps: any): void {
+    targetProps.classFullName = classMapping.targetClassFullName;
+    // read all values before assigning any, since a target property may have the name of another source property
+    const values: any[] = classMapping.properties.map((propertyMapping: PropertyMapping) => sourceEntity.asAny[propertyMapping.sourceName]);
+    classMapping.properties.forEach((propertyMapping: PropertyMapping) => delete targetProps[propertyMapping.sourceName]);
+    classMapping.properties.forEach((propertyMapping: PropertyMapping, index: number) => {
+      let value: any = values[index];
+      if ((undefined === propertyMapping.targetName) || (undefined === value)) {
+        return;
+      }
+      if (undefined !== propertyMapping.relClassName) {
+        value = { id: this.context.findTargetElementId(value.id), relClassName: propertyMapping.relClassName };
+      } else if (undefined !== propertyMapping.conversion) {
+        value = convertValue(value, propertyMapping.conversion);
+      }
+      targetProps[propertyMapping.targetName] = value;
+    });
+  }
+
+  /** Override of [[IModelTransformer.onTransformElement]] that applies the class mapping of the source Element, if any. */
+  protected onTransformElement(sourceElement: Element): ElementProps {
+    const classMappings = this.initMapping();
+    const targetElementProps: ElementProps = super.onTransformElement(sourceElement);
+    const classMapping = classMappings.get(sourceElement.classFullName);
+    if (undefined !== classMapping) {
+      this.applyClassMapping(sourceElement, classMapping, targetElementProps);
+    }
+    return targetElementProps;
+  }
+
+  /** Override of [[IModelTransformer.onTransformElementAspect]] that applies the class mapping of the source ElementAspect, if any. */
+  protected onTransformElementAspect(sourceElementAspect: ElementAspect, targetElementId: Id64String): ElementAspectProps {
+    const classMappings = this.initMapping();
+    const targetElementAspectProps: ElementAspectProps = super.onTransformElementAspect(sourceElementAspect, targetElementId);
+    const classMapping = classMappings.get(sourceElementAspect.classFullName);
+    if (undefined !== classMapping) {
+      this.applyClassMapping(sourceElementAspect, classMapping, targetElementAspectProps);
+    }
+    return targetElementAspectProps;
+  }
+}
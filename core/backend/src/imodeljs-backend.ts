@@ -6,6 +6,7 @@ export * from "./BriefcaseManager";
 export * from "./Category";
 export * from "./ChangeSummaryManager";
 export * from "./CheckpointManager";
+export * from "./ClashDetector";
 export * from "./ClassRegistry";
 export * from "./CodeSpecs";
 export * from "./ConcurrencyControl";
@@ -16,6 +17,8 @@ export * from "./Element";
 export * from "./ElementAspect";
 export * from "./Entity";
 export * from "./ExportGraphics";
+export * from "./MeshExporter";
+export * from "./GltfExporter";
 export * from "./IModelJsFs";
 export * from "./Relationship";
 export * from "./Texture";
@@ -27,6 +30,7 @@ export * from "./NavigationRelationship";
 export * from "./Schema";
 export * from "./SqliteStatement";
 export * from "./ViewDefinition";
+export * from "./ScheduleScriptBuilder";
 export * from "./BisCoreSchema";
 export * from "./ChangedElementsDb";
 export * from "./EventSink";
@@ -39,9 +43,12 @@ export * from "./IModelCloneContext";
 export * from "./IModelHost";
 export * from "./NativeAppBackend";
 export * from "./IModelExporter";
+export * from "./IfcExportHandler";
 export * from "./IModelImporter";
 export * from "./IModelTransformer";
+export * from "./IModelDiff";
 export * from "./IModelSchemaLoader";
+export * from "./SchemaMappingTransformer";
 export * from "./AutoPush";
 export * from "./BackendRequestContext";
 export * from "./CloudStorageBackend";
@@ -7,12 +7,12 @@ import * as path from "path";
 import { DbResult, Id64, Id64String, Logger, LogLevel, OpenMode, PerfLogger } from "@bentley/bentleyjs-core";
 import { ChangeSet } from "@bentley/imodelhub-client";
 import {
-  ChangedValueState, ChangeOpCode, ColorDef, IModel, IModelVersion, SubCategoryAppearance,
+  ChangedValueState, ChangeOpCode, ColorDef, IModel, IModelError, IModelVersion, QueryResponseStatus, SubCategoryAppearance,
 } from "@bentley/imodeljs-common";
 import { TestUsers, TestUtility } from "@bentley/oidc-signin-tool";
 import {
   AuthorizedBackendRequestContext, BriefcaseDb, BriefcaseManager, ChangeSummary, ChangeSummaryManager, ConcurrencyControl, ECSqlStatement,
-  ElementOwnsChildElements, IModelJsFs, SpatialCategory,
+  ElementChange, ElementOwnsChildElements, IModelJsFs, SpatialCategory,
 } from "../../imodeljs-backend";
 import { IModelTestUtils, TestIModelInfo } from "../IModelTestUtils";
 import { KnownTestLocations } from "../KnownTestLocations";
@@ -579,6 +579,118 @@ describe("ChangeSummary (#integration)", () => {
     await BriefcaseManager.imodelClient.iModels.delete(requestContext, projectId, iModelId);
   });
 
+  it("Query element changes over a range of changesets", async () => {
+    // Generate a unique name for the iModel (so that this test can be run simultaneously by multiple users+hosts simultaneously)
+    const iModelName = HubUtility.generateUniqueName("ElementChangesTest");
+
+    // Recreate iModel
+    const managerRequestContext = await TestUtility.getAuthorizedClientRequestContext(TestUsers.manager);
+    const projectId: string = await HubUtility.queryProjectIdByName(managerRequestContext, "iModelJsIntegrationTest");
+    const iModelId = await HubUtility.recreateIModel(managerRequestContext, projectId, iModelName);
+
+    // Cleanup local cache
+    setupTest(iModelId);
+
+    // Populate the iModel with 3 elements
+    const iModel = await IModelTestUtils.downloadAndOpenBriefcase({ requestContext: managerRequestContext, contextId: projectId, iModelId });
+    iModel.concurrencyControl.setPolicy(new ConcurrencyControl.OptimisticPolicy());
+    const [, modelId] = IModelTestUtils.createAndInsertPhysicalPartitionAndModel(iModel, IModelTestUtils.getUniqueModelCode(iModel, "TestPhysicalModel"), true);
+    const categoryId = SpatialCategory.insert(iModel, IModel.dictionaryId, "TestSpatialCategory", new SubCategoryAppearance({ color: ColorDef.fromString("rgb(255,0,0)").toJSON() }));
+    const insertElement = (userLabel: string): Id64String => {
+      const element = IModelTestUtils.createPhysicalObject(iModel, modelId, categoryId);
+      element.userLabel = userLabel;
+      return iModel.elements.insertElement(element);
+    };
+    const elementId1 = insertElement("Element 1");
+    const elementId2 = insertElement("Element 2");
+    const elementId3 = insertElement("Element 3");
+    await iModel.concurrencyControl.request(managerRequestContext);
+    iModel.saveChanges("Added test elements");
+    await iModel.pushChanges(managerRequestContext, "Setup test model");
+    const firstChangeSetId = iModel.changeSetId;
+
+    // Update element1, delete element2 and insert element4
+    const element1 = iModel.elements.getElement(elementId1);
+    element1.userLabel = "Element 1 updated";
+    iModel.elements.updateElement(element1);
+    iModel.elements.deleteElement(elementId2);
+    const elementId4 = insertElement("Element 4");
+    await iModel.concurrencyControl.request(managerRequestContext);
+    iModel.saveChanges("Updated, deleted and inserted elements");
+    await iModel.pushChanges(managerRequestContext, "Updated, deleted and inserted elements");
+    const secondChangeSetId = iModel.changeSetId;
+
+    // Update element1 again and delete element4
+    element1.userLabel = "Element 1 updated again";
+    iModel.elements.updateElement(element1);
+    iModel.elements.deleteElement(elementId4);
+    await iModel.concurrencyControl.request(managerRequestContext);
+    iModel.saveChanges("Updated and deleted elements");
+    await iModel.pushChanges(managerRequestContext, "Updated and deleted elements");
+    const thirdChangeSetId = iModel.changeSetId;
+
+    try {
+      const changeSummaryIds: string[] = await ChangeSummaryManager.extractChangeSummaries(requestContext, iModel);
+      assert.strictEqual(3, changeSummaryIds.length);
+
+      expect(() => ChangeSummaryManager.getElementChanges(iModel, firstChangeSetId, thirdChangeSetId)).to.throw(IModelError);
+      ChangeSummaryManager.attachChangeCache(iModel);
+
+      const findChange = (changes: ElementChange[], elementId: Id64String) => changes.find((change) => change.elementId === elementId);
+      const findProperty = (change: ElementChange, accessString: string) => change.properties.find((property) => property.accessString === accessString);
+
+      // The first changeset only inserts elements
+      const inserted = ChangeSummaryManager.getElementChanges(iModel, firstChangeSetId, firstChangeSetId);
+      assert.strictEqual(inserted.status, QueryResponseStatus.Done);
+      for (const elementId of [elementId1, elementId2, elementId3]) {
+        const change = findChange(inserted.changes, elementId)!;
+        assert.isDefined(change);
+        assert.strictEqual(change.opCode, ChangeOpCode.Insert);
+        assert.strictEqual(change.className, "[Generic].[PhysicalObject]");
+        assert.isFalse(change.isIndirect);
+        assert.isTrue(change.properties.every((property) => property.before === undefined));
+      }
+      assert.deepEqual(findProperty(findChange(inserted.changes, elementId1)!, "UserLabel"), { accessString: "UserLabel", after: "Element 1" });
+
+      // The second changeset updates, deletes and inserts
+      const second = ChangeSummaryManager.getElementChanges(iModel, secondChangeSetId, secondChangeSetId);
+      assert.deepEqual(second.changes.map((change) => change.elementId), [elementId1, elementId2, elementId4]);
+      assert.strictEqual(second.changes[0].opCode, ChangeOpCode.Update);
+      assert.isFalse(second.changes[0].geometryChanged);
+      assert.deepEqual(findProperty(second.changes[0], "UserLabel"), { accessString: "UserLabel", before: "Element 1", after: "Element 1 updated" });
+      assert.strictEqual(second.changes[1].opCode, ChangeOpCode.Delete);
+      assert.deepEqual(findProperty(second.changes[1], "UserLabel"), { accessString: "UserLabel", before: "Element 2" });
+      assert.strictEqual(second.changes[2].opCode, ChangeOpCode.Insert);
+
+      // Over the last two changesets, element4 is inserted and deleted again, and element1 is updated twice
+      const range = ChangeSummaryManager.getElementChanges(iModel, secondChangeSetId, thirdChangeSetId);
+      assert.deepEqual(range.changes.map((change) => change.elementId), [elementId1, elementId2]);
+      assert.deepEqual(findProperty(range.changes[0], "UserLabel"), { accessString: "UserLabel", before: "Element 1", after: "Element 1 updated again" });
+
+      // Paging and changes without property values. The partition, category and sub-category are inserted before the test elements.
+      const all = ChangeSummaryManager.getElementChanges(iModel, firstChangeSetId, thirdChangeSetId, { wantPropertyValues: false });
+      assert.strictEqual(all.status, QueryResponseStatus.Done);
+      assert.deepEqual(all.changes.slice(-2).map((change) => change.elementId), [elementId1, elementId3], "element2 and element4 are inserted and deleted in the range");
+      assert.strictEqual(all.changes[all.changes.length - 2].opCode, ChangeOpCode.Insert, "inserted and updated is reported as inserted");
+      assert.isTrue(all.changes.every((change) => change.properties.length === 0));
+
+      const firstPage = ChangeSummaryManager.getElementChanges(iModel, firstChangeSetId, thirdChangeSetId, { limit: { count: all.changes.length - 1 } });
+      assert.strictEqual(firstPage.status, QueryResponseStatus.Partial);
+      assert.deepEqual(firstPage.changes.map((change) => change.elementId), all.changes.slice(0, -1).map((change) => change.elementId));
+      assert.deepEqual(findProperty(firstPage.changes[firstPage.changes.length - 1], "UserLabel"), { accessString: "UserLabel", after: "Element 1 updated again" });
+      const lastPage = ChangeSummaryManager.getElementChanges(iModel, firstChangeSetId, thirdChangeSetId, { limit: { offset: all.changes.length - 1, count: 10 } });
+      assert.strictEqual(lastPage.status, QueryResponseStatus.Done);
+      assert.deepEqual(lastPage.changes.map((change) => change.elementId), [elementId3]);
+
+      // Changesets that have not been extracted
+      expect(() => ChangeSummaryManager.getElementChanges(iModel, secondChangeSetId, "NoSuchChangeSet")).to.throw(IModelError);
+    } finally {
+      await IModelTestUtils.closeAndDeleteBriefcaseDb(requestContext, iModel);
+    }
+
+    await BriefcaseManager.imodelClient.iModels.delete(requestContext, projectId, iModelId);
+  });
+
   it("should be able to extract the last change summary right after applying a change set", async () => {
     const userContext1 = await TestUtility.getAuthorizedClientRequestContext(TestUsers.manager);
     const userContext2 = await TestUtility.getAuthorizedClientRequestContext(TestUsers.superManager);
@@ -0,0 +1,89 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { assert, expect } from "chai";
+import * as path from "path";
+import { ChangeSetStatus, Id64String } from "@bentley/bentleyjs-core";
+import { LineSegment3d, Point3d } from "@bentley/geometry-core";
+import { ChangeOpCode, GeometryStreamBuilder, IModel, IModelError, QueryResponseStatus, SubCategoryAppearance } from "@bentley/imodeljs-common";
+import {
+  BriefcaseManager, ChangeSetToken, ChangeSummaryManager, IModelJsFs, LocalChangeSetProps, PhysicalObject, SpatialCategory, StandaloneDb,
+} from "../../imodeljs-backend";
+import { IModelTestUtils } from "../IModelTestUtils";
+import { KnownTestLocations } from "../KnownTestLocations";
+
+/** Combine all local Txns into a changeset file that is kept in the output directory. */
+function createChangeSet(iModel: StandaloneDb): LocalChangeSetProps {
+  const res = iModel.nativeDb.startCreateChangeSet();
+  if (res.error)
+    throw new IModelError(res.error.status, "Error in startCreateChangeSet");
+
+  const token: ChangeSetToken = JSON.parse(res.result!);
+  const pathName = path.join(KnownTestLocations.outputDir, `${token.id}.cs`);
+  IModelJsFs.copySync(token.pathname, pathName);
+  const status = iModel.nativeDb.finishCreateChangeSet();
+  if (ChangeSetStatus.Success !== status)
+    throw new IModelError(status, "Error in finishCreateChangeSet");
+
+  return { id: token.id, parentId: token.parentId, pathName };
+}
+
+describe("ChangeSummaryManager", () => {
+  let iModel: StandaloneDb;
+
+  before(() => {
+    iModel = StandaloneDb.createEmpty(IModelTestUtils.prepareOutputFile("ChangeSummaryManager", "LocalChangeSet.bim"), { rootSubject: { name: "LocalChangeSet" } });
+    iModel.nativeDb.resetBriefcaseId(100);
+    iModel.saveChanges();
+  });
+
+  after(() => {
+    if (ChangeSummaryManager.isChangeCacheAttached(iModel))
+      ChangeSummaryManager.detachChangeCache(iModel);
+    iModel.close();
+  });
+
+  it("should extract the change summary of a local changeset file", () => {
+    const [, modelId] = IModelTestUtils.createAndInsertPhysicalPartitionAndModel(iModel, IModelTestUtils.getUniqueModelCode(iModel, "LocalChangeSetModel"));
+    const categoryId = SpatialCategory.insert(iModel, IModel.dictionaryId, "LocalChangeSetCategory", new SubCategoryAppearance());
+    const elementIds: Id64String[] = [];
+    for (const userLabel of ["a", "b", "c"]) {
+      const element = IModelTestUtils.createPhysicalObject(iModel, modelId, categoryId) as PhysicalObject;
+      element.userLabel = userLabel;
+      element.placement.origin.setFrom(Point3d.create(elementIds.length + 1, 0, 0));
+      const builder = new GeometryStreamBuilder();
+      builder.appendGeometry(LineSegment3d.createXYZXYZ(0, 0, 0, 1, 1, 0));
+      element.geom = builder.geometryStream;
+      elementIds.push(iModel.elements.insertElement(element));
+    }
+    iModel.saveChanges();
+    const changeSet = createChangeSet(iModel);
+
+    const summaryId = ChangeSummaryManager.extractChangeSummaryFromFile(iModel, changeSet);
+    assert.strictEqual(ChangeSummaryManager.extractChangeSummaryFromFile(iModel, changeSet), summaryId, "extracting again returns the existing summary");
+    expect(() => ChangeSummaryManager.extractChangeSummaryFromFile(iModel, { ...changeSet, pathName: `${changeSet.pathName}.missing` })).to.throw(IModelError);
+
+    ChangeSummaryManager.attachChangeCache(iModel);
+    const all = ChangeSummaryManager.getElementChanges(iModel, changeSet.id, changeSet.id);
+    assert.strictEqual(all.status, QueryResponseStatus.Done);
+    const inserted = all.changes.filter((change) => elementIds.includes(change.elementId));
+    assert.deepEqual(inserted.map((change) => change.elementId), elementIds);
+    for (const change of inserted) {
+      assert.strictEqual(change.opCode, ChangeOpCode.Insert);
+      assert.strictEqual(change.className, "[Generic].[PhysicalObject]");
+      assert.isTrue(change.geometryChanged);
+      const userLabel = change.properties.find((property) => property.accessString === "UserLabel")!;
+      assert.isUndefined(userLabel.before);
+      assert.strictEqual(userLabel.after, ["a", "b", "c"][elementIds.indexOf(change.elementId)]);
+    }
+
+    const firstPage = ChangeSummaryManager.getElementChanges(iModel, changeSet.id, changeSet.id, { limit: { count: 2 } });
+    assert.strictEqual(firstPage.status, QueryResponseStatus.Partial);
+    assert.deepEqual(firstPage.changes.map((change) => change.elementId), all.changes.slice(0, 2).map((change) => change.elementId));
+    const lastPage = ChangeSummaryManager.getElementChanges(iModel, changeSet.id, changeSet.id, { limit: { offset: 2, count: all.changes.length } });
+    assert.strictEqual(lastPage.status, QueryResponseStatus.Done);
+    assert.deepEqual(lastPage.changes.map((change) => change.elementId), all.changes.slice(2).map((change) => change.elementId));
+    assert.isTrue(IModelJsFs.existsSync(BriefcaseManager.getChangeCachePathName(iModel.iModelId)));
+  });
+});
@@ -0,0 +1,162 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { assert, expect } from "chai";
+import { Id64String } from "@bentley/bentleyjs-core";
+import { Box, Point3d, Range3d } from "@bentley/geometry-core";
+import { Code, GeometryStreamBuilder, GeometryStreamProps, IModelError, PhysicalElementProps } from "@bentley/imodeljs-common";
+import { ClashDetector, ClashReport, ClashType, GeometricElement, PhysicalObject, SnapshotDb } from "../../imodeljs-backend";
+import { IModelTestUtils } from "../IModelTestUtils";
+
+describe("ClashDetector", () => {
+  let imodel: SnapshotDb;
+  let seedElement: GeometricElement;
+  let box: Id64String;
+  let penetrating: Id64String;
+  let contained: Id64String;
+  let touching: Id64String;
+  let near: Id64String;
+  let far: Id64String;
+
+  function createBoxGeometry(low: Point3d, high: Point3d): GeometryStreamProps {
+    const builder = new GeometryStreamBuilder();
+    builder.appendGeometry(Box.createRange(Range3d.create(low, high), true)!);
+    return builder.geometryStream;
+  }
+
+  function insertBox(low: Point3d, high: Point3d): Id64String {
+    const elementProps: PhysicalElementProps = {
+      classFullName: PhysicalObject.classFullName,
+      model: seedElement.model,
+      category: seedElement.category,
+      code: Code.createEmpty(),
+      geom: createBoxGeometry(low, high),
+    };
+    return imodel.elements.insertElement(elementProps);
+  }
+
+  before(() => {
+    const seedFileName = IModelTestUtils.resolveAssetFile("CompatibilityTestSeed.bim");
+    const testFileName = IModelTestUtils.prepareOutputFile("ClashDetector", "ClashDetector.bim");
+    imodel = IModelTestUtils.createSnapshotFromSeed(testFileName, seedFileName);
+
+    // Boxes far from the geometry of the seed iModel
+    seedElement = imodel.elements.getElement<GeometricElement>("0x1d");
+    const origin = Point3d.create(1000, 1000, 1000);
+    const insertOffsetBox = (lowX: number, lowY: number, lowZ: number, highX: number, highY: number, highZ: number) =>
+      insertBox(origin.plusXYZ(lowX, lowY, lowZ), origin.plusXYZ(highX, highY, highZ));
+    box = insertOffsetBox(0, 0, 0, 1, 1, 1);
+    penetrating = insertOffsetBox(0.8, 0.2, 0.2, 1.8, 0.8, 0.8);
+    contained = insertOffsetBox(0.3, 0.3, 0.3, 0.6, 0.6, 0.6);
+    touching = insertOffsetBox(0, 1, 0, 1, 2, 1);
+    near = insertOffsetBox(0, -1.05, 0, 1, -0.05, 1);
+    far = insertOffsetBox(5, 0, 0, 6, 1, 1);
+    imodel.saveChanges();
+  });
+
+  after(() => {
+    imodel.close();
+  });
+
+  it("should resolve element sets", () => {
+    const detector = new ClashDetector(imodel);
+    const byCategory = detector.getElementIds({ categoryIds: [seedElement.category] });
+    for (const elementId of [box, penetrating, contained, touching, near, far])
+      assert.isTrue(byCategory.has(elementId));
+
+    const byQuery = detector.getElementIds({ ecsql: `SELECT ECInstanceId FROM bis.PhysicalElement WHERE ECInstanceId IN (${box},${far})` });
+    assert.sameMembers(Array.from(byQuery), [box, far]);
+
+    const union = detector.getElementIds({ elementIds: [near], ecsql: `SELECT ECInstanceId FROM bis.PhysicalElement WHERE ECInstanceId=${box}` });
+    assert.sameMembers(Array.from(union), [near, box]);
+
+    expect(() => detector.getElementIds({})).to.throw(IModelError);
+  });
+
+  it("should prefilter by range", () => {
+    const detector = new ClashDetector(imodel);
+    const setA = new Set<Id64String>([box]);
+    const setB = new Set<Id64String>([penetrating, contained, touching, near, far]);
+    const pairs = detector.findCandidatePairs(setA, setB, 0);
+    assert.sameMembers(pairs.map((pair) => pair[1]), [penetrating, contained, touching]);
+    assert.isTrue(pairs.every((pair) => pair[0] === box));
+
+    const clearancePairs = detector.findCandidatePairs(setA, setB, 0.1);
+    assert.sameMembers(clearancePairs.map((pair) => pair[1]), [penetrating, contained, touching, near]);
+  });
+
+  it("should detect hard clashes", () => {
+    const report = new ClashDetector(imodel).run({ setA: { elementIds: [box] }, setB: { categoryIds: [seedElement.category] } });
+    assert.sameMembers(report.clashes.map((clash) => clash.elementIdB), [penetrating, contained]);
+    for (const clash of report.clashes) {
+      assert.strictEqual(clash.elementIdA, box);
+      assert.strictEqual(clash.type, ClashType.Hard);
+      assert.strictEqual(clash.distance, 0);
+      assert.isAbove(clash.points.length, 0);
+    }
+
+    const penetratingClash = report.clashes.find((clash) => clash.elementIdB === penetrating)!;
+    assert.closeTo(penetratingClash.penetrationDepth, 0.2, 1.0e-6);
+    for (const point of penetratingClash.points)
+      assert.closeTo(Point3d.fromJSON(point).x, 1001, 1.0e-6);
+  });
+
+  it("should detect touching and clearance clashes", () => {
+    const detector = new ClashDetector(imodel);
+    const options = { setA: { elementIds: [box] }, setB: { elementIds: [touching, near, far] }, clearance: 0.1, reportTouching: true };
+    const report = detector.run(options);
+    assert.strictEqual(report.clashes.length, 2);
+
+    const touchingClash = report.clashes.find((clash) => clash.elementIdB === touching)!;
+    assert.strictEqual(touchingClash.type, ClashType.Touching);
+
+    const nearClash = report.clashes.find((clash) => clash.elementIdB === near)!;
+    assert.strictEqual(nearClash.type, ClashType.Clearance);
+    assert.closeTo(nearClash.distance, 0.05, 1.0e-6);
+    assert.strictEqual(nearClash.points.length, 2);
+    assert.closeTo(Point3d.fromJSON(nearClash.points[0]).distance(Point3d.fromJSON(nearClash.points[1])), 0.05, 1.0e-6);
+
+    // Touching elements violate the clearance.
+    const withoutTouching = detector.run({ ...options, reportTouching: false });
+    assert.sameMembers(withoutTouching.clashes.map((clash) => clash.elementIdB), [touching, near]);
+    assert.isTrue(withoutTouching.clashes.every((clash) => clash.type === ClashType.Clearance));
+
+    // Without a clearance, touching elements are not reported.
+    assert.strictEqual(detector.run({ ...options, clearance: 0, reportTouching: false }).clashes.length, 0);
+  });
+
+  it("should test a set against itself", () => {
+    const report = new ClashDetector(imodel).run({ setA: { elementIds: [box, penetrating, contained, far] } });
+    // Each pair is reported once: box with penetrating, box with contained. The penetrating and contained boxes do not meet.
+    assert.strictEqual(report.clashes.length, 2);
+    const pairs = report.clashes.map((clash) => [clash.elementIdA, clash.elementIdB].sort());
+    assert.sameDeepMembers(pairs, [[box, penetrating].sort(), [box, contained].sort()]);
+  });
+
+  it("should save, reload and compare reports", () => {
+    const detector = new ClashDetector(imodel);
+    const report = detector.run({ name: "Boxes", setA: { elementIds: [box] }, setB: { categoryIds: [seedElement.category] }, clearance: 0.1 });
+    const fileName = IModelTestUtils.prepareOutputFile("ClashDetector", "ClashReport.json");
+    report.save(fileName);
+
+    const reloaded = ClashReport.load(fileName);
+    assert.strictEqual(JSON.stringify(reloaded.toJSON()), JSON.stringify(report.toJSON()));
+    assert.strictEqual(reloaded.options.name, "Boxes");
+
+    // Remove the contained box, move the near box into the first box, and run the same test again.
+    imodel.elements.deleteElement(contained);
+    const nearProps = imodel.elements.getElementProps<PhysicalElementProps>({ id: near, wantGeometry: true });
+    imodel.elements.updateElement({ ...nearProps, geom: createBoxGeometry(Point3d.create(1000.2, 999.5, 1000.2), Point3d.create(1000.8, 1000.5, 1000.8)) });
+    imodel.saveChanges();
+
+    const rerun = detector.rerun(reloaded);
+    const comparison = rerun.compare(reloaded);
+    assert.deepEqual(comparison.added, []);
+    assert.deepEqual(comparison.resolved.map((clash) => clash.elementIdB), [contained]);
+    assert.sameMembers(comparison.unresolved.map((clash) => clash.elementIdB), [penetrating, touching, near]);
+    assert.strictEqual(rerun.clashes.find((clash) => clash.elementIdB === near)!.type, ClashType.Hard);
+
+    expect(() => ClashReport.load(IModelTestUtils.prepareOutputFile("ClashDetector", "NoSuchReport.json"))).to.throw(IModelError);
+  });
+});
@@ -0,0 +1,217 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { assert } from "chai";
+import * as fs from "fs";
+import { DbResult, Id64String } from "@bentley/bentleyjs-core";
+import { Angle, Box, Point3d, Range3d, YawPitchRollAngles } from "@bentley/geometry-core";
+import { Code, GeometryPartProps, GeometryStreamBuilder, GeometryStreamProps, IModel, PhysicalElementProps } from "@bentley/imodeljs-common";
+import { GeometricElement, GeometryPart, GltfExporter, PhysicalObject, SnapshotDb, SpatialCategory } from "../../imodeljs-backend";
+import { IModelTestUtils } from "../IModelTestUtils";
+
+/** Split a GLB file into its JSON and binary chunks. */
+function readGlb(fileName: string): { json: any, bin?: Buffer } {
+  const data = fs.readFileSync(fileName);
+  assert.strictEqual(data.readUInt32LE(0), 0x46546C67, "magic");
+  assert.strictEqual(data.readUInt32LE(4), 2, "version");
+  assert.strictEqual(data.readUInt32LE(8), data.length, "length");
+
+  const jsonLength = data.readUInt32LE(12);
+  assert.strictEqual(jsonLength % 4, 0, "JSON chunk alignment");
+  assert.strictEqual(data.readUInt32LE(16), 0x4E4F534A);
+  const json = JSON.parse(data.toString("utf8", 20, 20 + jsonLength));
+  if (20 + jsonLength === data.length)
+    return { json };
+
+  const binLength = data.readUInt32LE(20 + jsonLength);
+  assert.strictEqual(data.readUInt32LE(24 + jsonLength), 0x004E4942);
+  return { json, bin: data.slice(28 + jsonLength, 28 + jsonLength + binLength) };
+}
+
+/** Apply the translation, rotation and scale of a glTF node to a point. */
+function applyNodeTransform(node: any, point: number[]): number[] {
+  const scale = node.scale ?? [1, 1, 1];
+  const [qx, qy, qz, qw] = node.rotation ?? [0, 0, 0, 1];
+  const [vx, vy, vz] = [point[0] * scale[0], point[1] * scale[1], point[2] * scale[2]];
+  // v' = v + 2w(q x v) + 2q x (q x v)
+  const [cx, cy, cz] = [qy * vz - qz * vy, qz * vx - qx * vz, qx * vy - qy * vx];
+  const rotated = [
+    vx + 2 * (qw * cx + qy * cz - qz * cy),
+    vy + 2 * (qw * cy + qz * cx - qx * cz),
+    vz + 2 * (qw * cz + qx * cy - qy * cx),
+  ];
+  const translation = node.translation ?? [0, 0, 0];
+  return [rotated[0] + translation[0], rotated[1] + translation[1], rotated[2] + translation[2]];
+}
+
+describe("GltfExporter", () => {
+  let imodel: SnapshotDb;
+  let boxId: Id64String;
+  let partInstancesId: Id64String;
+  let partId: Id64String;
+
+  function insertElement(seedElement: GeometricElement, geom: GeometryStreamProps): Id64String {
+    const elementProps: PhysicalElementProps = {
+      classFullName: PhysicalObject.classFullName,
+      model: seedElement.model,
+      category: seedElement.category,
+      code: Code.createEmpty(),
+      geom,
+    };
+    return imodel.elements.insertElement(elementProps);
+  }
+
+  before(() => {
+    const seedFileName = IModelTestUtils.resolveAssetFile("CompatibilityTestSeed.bim");
+    const testFileName = IModelTestUtils.prepareOutputFile("GltfExporter", "GltfExporter.bim");
+    imodel = IModelTestUtils.createSnapshotFromSeed(testFileName, seedFileName);
+    const seedElement = imodel.elements.getElement<GeometricElement>("0x1d");
+
+    const boxBuilder = new GeometryStreamBuilder();
+    boxBuilder.appendGeometry(Box.createRange(Range3d.createXYZXYZ(0, 0, 0, 1, 1, 1), true)!);
+    boxId = insertElement(seedElement, boxBuilder.geometryStream);
+
+    const partProps: GeometryPartProps = {
+      classFullName: GeometryPart.classFullName,
+      model: IModel.dictionaryId,
+      code: Code.createEmpty(),
+      geom: boxBuilder.geometryStream,
+    };
+    partId = imodel.elements.insertElement(partProps);
+
+    const instanceBuilder = new GeometryStreamBuilder();
+    instanceBuilder.appendGeometryPart3d(partId, Point3d.create(5, 0, 0));
+    instanceBuilder.appendGeometryPart3d(partId, Point3d.create(10, 0, 0));
+    partInstancesId = insertElement(seedElement, instanceBuilder.geometryStream);
+    imodel.saveChanges();
+  });
+
+  after(() => {
+    imodel.close();
+  });
+
+  it("should export element hierarchy and instanced parts", () => {
+    const fileName = IModelTestUtils.prepareOutputFile("GltfExporter", "Instanced.glb");
+    const exporter = new GltfExporter(imodel);
+    assert.strictEqual(exporter.exportGlb(fileName, { elementIdArray: [boxId, partInstancesId] }), DbResult.BE_SQLITE_OK);
+
+    const { json, bin } = readGlb(fileName);
+    assert.isDefined(bin);
+    assert.strictEqual(json.asset.version, "2.0");
+    assert.strictEqual(json.buffers[0].byteLength, bin.length);
+
+    // One model node containing one category node containing both element nodes.
+    const roots: number[] = json.scenes[json.scene].nodes;
+    assert.strictEqual(roots.length, 1);
+    const modelNode = json.nodes[roots[0]];
+    assert.strictEqual(modelNode.children.length, 1);
+    const categoryNode = json.nodes[modelNode.children[0]];
+    const elementNodes = categoryNode.children.map((index: number) => json.nodes[index]);
+    assert.sameMembers(elementNodes.map((node: any) => node.extras.elementId), [boxId, partInstancesId]);
+
+    const boxNode = elementNodes.find((node: any) => node.extras.elementId === boxId);
+    assert.isDefined(boxNode.mesh);
+    assert.isUndefined(boxNode.children);
+
+    // The part is written once and referenced by both instances.
+    const instancesNode = elementNodes.find((node: any) => node.extras.elementId === partInstancesId);
+    assert.isUndefined(instancesNode.mesh);
+    const instanceNodes = instancesNode.children.map((index: number) => json.nodes[index]);
+    assert.strictEqual(instanceNodes.length, 2);
+    assert.strictEqual(instanceNodes[0].mesh, instanceNodes[1].mesh);
+    assert.notStrictEqual(instanceNodes[0].mesh, boxNode.mesh);
+    for (const instanceNode of instanceNodes) {
+      assert.strictEqual(instanceNode.extras.partId, partId);
+      assert.strictEqual(instanceNode.extras.elementId, partInstancesId);
+      assert.isDefined(instanceNode.translation);
+    }
+    assert.strictEqual(json.meshes.length, 2);
+
+    // Every accessor must lie within the binary chunk.
+    for (const accessor of json.accessors) {
+      const bufferView = json.bufferViews[accessor.bufferView];
+      assert.isAtMost(bufferView.byteOffset + bufferView.byteLength, bin.length);
+      assert.strictEqual(bufferView.byteOffset % 4, 0);
+    }
+
+    const boxPrimitive = json.meshes[boxNode.mesh].primitives[0];
+    assert.strictEqual(json.accessors[boxPrimitive.indices].count, 36);
+    const positions = json.accessors[boxPrimitive.attributes.POSITION];
+    assert.strictEqual(positions.min.length, 3);
+    assert.strictEqual(positions.max.length, 3);
+    // The box is 1 meter along iModel Z, which is glTF Y.
+    assert.approximately(positions.max[1] - positions.min[1], 1, 1.0e-6);
+  });
+
+  it("should place rotated part instances in world coordinates", () => {
+    const projectExtents = imodel.projectExtents;
+    imodel.updateProjectExtents(Range3d.createXYZXYZ(100, 200, 300, 200, 300, 400));
+    const seedElement = imodel.elements.getElement<GeometricElement>(boxId);
+    const instanceBuilder = new GeometryStreamBuilder();
+    instanceBuilder.appendGeometryPart3d(partId, Point3d.create(5, 0, 0), YawPitchRollAngles.createDegrees(90, 0, 0));
+    const rotatedInstanceId = insertElement(seedElement, instanceBuilder.geometryStream);
+    imodel.saveChanges();
+
+    const fileName = IModelTestUtils.prepareOutputFile("GltfExporter", "RotatedInstance.glb");
+    const exporter = new GltfExporter(imodel);
+    assert.strictEqual(exporter.exportGlb(fileName, { elementIdArray: [rotatedInstanceId] }), DbResult.BE_SQLITE_OK);
+    imodel.updateProjectExtents(projectExtents);
+    imodel.saveChanges();
+
+    const { json } = readGlb(fileName);
+    const modelNode = json.nodes[json.scenes[json.scene].nodes[0]];
+    assert.deepEqual(modelNode.translation, [150, 350, -250]);
+    const instanceNode = json.nodes.find((node: any) => undefined !== node.extras && node.extras.partId === partId);
+    // A rotation of 90 degrees about iModel Z is a rotation of 90 degrees about glTF Y.
+    const sin45 = Math.sin(Angle.piOver4Radians);
+    assert.isTrue(instanceNode.rotation.every((value: number, index: number) => Math.abs(Math.abs(value) - [0, sin45, 0, sin45][index]) < 1.0e-6));
+
+    // The part mesh is in part coordinates: the unit box spans glTF Z from -1 to 0.
+    const positions = json.accessors[json.meshes[instanceNode.mesh].primitives[0].attributes.POSITION];
+    assert.deepEqual(positions.min, [0, 0, -1]);
+    assert.deepEqual(positions.max, [1, 1, 0]);
+
+    // The part corner at iModel (1, 0, 0) is rotated to (0, 1, 0) and translated to (5, 1, 0), which is glTF (5, 0, -1).
+    const world = applyNodeTransform(modelNode, applyNodeTransform(instanceNode, [1, 0, 0]));
+    [5, 0, -1].forEach((value: number, index: number) => assert.approximately(world[index], value, 1.0e-6));
+  });
+
+  it("should export parts inline when not instancing", () => {
+    const fileName = IModelTestUtils.prepareOutputFile("GltfExporter", "NotInstanced.glb");
+    const exporter = new GltfExporter(imodel);
+    assert.strictEqual(exporter.exportGlb(fileName, { elementIdArray: [partInstancesId], instanceParts: false }), DbResult.BE_SQLITE_OK);
+
+    const { json } = readGlb(fileName);
+    const elementNodes = json.nodes.filter((node: any) => undefined !== node.extras && undefined !== node.extras.elementId);
+    assert.strictEqual(elementNodes.length, 1);
+    assert.isDefined(elementNodes[0].mesh);
+    assert.isUndefined(elementNodes[0].children);
+    const indexCount = json.meshes[elementNodes[0].mesh].primitives.reduce((count: number, primitive: any) => count + json.accessors[primitive.indices].count, 0);
+    assert.strictEqual(indexCount, 72);
+  });
+
+  it("should align the JSON chunk when names contain non-ASCII characters", () => {
+    const categoryName = "Catégorie ✓";
+    const categoryId = SpatialCategory.insert(imodel, IModel.dictionaryId, categoryName, {});
+    const boxBuilder = new GeometryStreamBuilder();
+    boxBuilder.appendGeometry(Box.createRange(Range3d.createXYZXYZ(0, 0, 0, 1, 1, 1), true)!);
+    const elementProps: PhysicalElementProps = {
+      classFullName: PhysicalObject.classFullName,
+      model: imodel.elements.getElement<GeometricElement>(boxId).model,
+      category: categoryId,
+      code: Code.createEmpty(),
+      geom: boxBuilder.geometryStream,
+    };
+    const elementId = imodel.elements.insertElement(elementProps);
+    imodel.saveChanges();
+
+    const fileName = IModelTestUtils.prepareOutputFile("GltfExporter", "NonAscii.glb");
+    const exporter = new GltfExporter(imodel);
+    assert.strictEqual(exporter.exportGlb(fileName, { elementIdArray: [elementId] }), DbResult.BE_SQLITE_OK);
+
+    const { json, bin } = readGlb(fileName);
+    assert.isTrue(json.nodes.some((node: any) => node.name === categoryName));
+    assert.isDefined(bin);
+  });
+});
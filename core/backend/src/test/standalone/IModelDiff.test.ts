@@ -0,0 +1,197 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { assert } from "chai";
+import { Guid, Id64String } from "@bentley/bentleyjs-core";
+import { Point3d } from "@bentley/geometry-core";
+import {
+  Code, CodeScopeSpec, ExternalSourceAspectProps, IModel, PhysicalElementProps, Placement3d,
+} from "@bentley/imodeljs-common";
+import {
+  ElementDrivesElement, ElementGroupsMembers, ExternalSourceAspect, IModelDb, IModelDiff, IModelTransformer, PhysicalModel, PhysicalObject, SnapshotDb, SpatialCategory,
+  SpatialLocation,
+} from "../../imodeljs-backend";
+import { IModelTestUtils } from "../IModelTestUtils";
+import { IModelTransformerUtils } from "../IModelTransformerUtils";
+
+function insertExternalSourceAspect(iModelDb: IModelDb, elementId: Id64String, scopeId: Id64String, kind: string, identifier: string, version: string): void {
+  const aspectProps: ExternalSourceAspectProps = {
+    classFullName: ExternalSourceAspect.classFullName,
+    element: { id: elementId },
+    scope: { id: scopeId },
+    identifier,
+    kind,
+    version,
+  };
+  iModelDb.elements.insertAspect(aspectProps);
+}
+
+function insertPhysicalObject(iModelDb: IModelDb, modelId: Id64String, categoryId: Id64String, userLabel: string, size: number, props?: Partial<PhysicalElementProps>): Id64String {
+  const elementProps: PhysicalElementProps = {
+    classFullName: PhysicalObject.classFullName,
+    model: modelId,
+    code: Code.createEmpty(),
+    userLabel,
+    category: categoryId,
+    geom: IModelTransformerUtils.createBox(new Point3d(size, size, size)),
+    placement: Placement3d.fromJSON({ origin: { x: size, y: size }, angles: {} }),
+    ...props,
+  };
+  return iModelDb.elements.insertElement(elementProps);
+}
+
+describe("IModelDiff", () => {
+  it("should report differences between snapshots", async () => {
+    const oldDbFile: string = IModelTestUtils.prepareOutputFile("IModelDiff", "Old.bim");
+    const oldDb = SnapshotDb.createEmpty(oldDbFile, { rootSubject: { name: "IModelDiff" } });
+    const oldCategoryId = SpatialCategory.insert(oldDb, IModel.dictionaryId, "Category", {});
+    const oldModelId = PhysicalModel.insert(oldDb, IModel.rootSubjectId, "Physical");
+    const oldIdA = insertPhysicalObject(oldDb, oldModelId, oldCategoryId, "A", 1, { federationGuid: Guid.createValue() });
+    const oldIdB = insertPhysicalObject(oldDb, oldModelId, oldCategoryId, "B", 2, { federationGuid: Guid.createValue() });
+    const oldIdC = insertPhysicalObject(oldDb, oldModelId, oldCategoryId, "C", 3, { federationGuid: Guid.createValue() });
+    oldDb.saveChanges();
+
+    // Create the new iModel by transformation, after another element so that its Ids differ from those of the old iModel
+    const newDbFile: string = IModelTestUtils.prepareOutputFile("IModelDiff", "New.bim");
+    const newDb = SnapshotDb.createEmpty(newDbFile, { rootSubject: { name: "IModelDiff" } });
+    const newOtherCategoryId = SpatialCategory.insert(newDb, IModel.dictionaryId, "Other Category", {});
+    const transformer = new IModelTransformer(oldDb, newDb, { noProvenance: true });
+    transformer.processAll();
+    const newIdA = transformer.context.findTargetElementId(oldIdA);
+    const newIdB = transformer.context.findTargetElementId(oldIdB);
+    const newIdC = transformer.context.findTargetElementId(oldIdC);
+    const newModelId = transformer.context.findTargetElementId(oldModelId);
+    const newCategoryId = transformer.context.findTargetElementId(oldCategoryId);
+    transformer.dispose();
+    assert.notEqual(newIdA, oldIdA);
+
+    newDb.elements.updateElement({ ...newDb.elements.getElementProps(newIdA), userLabel: "A2" });
+    newDb.elements.updateElement({ ...newDb.elements.getElementProps(newIdB), geom: IModelTransformerUtils.createBox(new Point3d(2, 2, 5)) });
+    newDb.elements.deleteElement(newIdC);
+    const newIdD = insertPhysicalObject(newDb, newModelId, newCategoryId, "D", 4);
+    const newRelationship = ElementGroupsMembers.create(newDb, newIdA, newIdB);
+    newRelationship.insert();
+    newDb.saveChanges();
+
+    const diff = new IModelDiff(oldDb, newDb);
+    const result = diff.compare();
+    assert.equal(diff.findNewElementId(oldIdA), newIdA);
+    assert.equal(diff.findNewElementId(oldCategoryId), newCategoryId);
+    assert.isUndefined(diff.findNewElementId(oldIdC));
+
+    assert.deepEqual(result.elements.removed, [{ classFullName: PhysicalObject.classFullName, oldId: oldIdC }]);
+    assert.isTrue(result.elements.added.some((element) => element.newId === newIdD && element.classFullName === PhysicalObject.classFullName));
+    assert.isTrue(result.elements.added.some((element) => element.newId === newOtherCategoryId));
+    assert.isFalse(result.elements.added.some((element) => element.newId === newIdA || element.newId === newIdB));
+
+    const modifiedA = result.elements.modified.find((element) => element.oldId === oldIdA)!;
+    assert.isDefined(modifiedA);
+    assert.equal(modifiedA.newId, newIdA);
+    assert.deepEqual(modifiedA.properties, [{ propertyName: "userLabel", oldValue: "A", newValue: "A2" }]);
+    assert.isUndefined(modifiedA.geometry);
+    const modifiedB = result.elements.modified.find((element) => element.oldId === oldIdB)!;
+    assert.isDefined(modifiedB);
+    assert.isDefined(modifiedB.geometry);
+    assert.notEqual(modifiedB.geometry.oldSummary, modifiedB.geometry.newSummary);
+    assert.isFalse(result.elements.modified.some((element) => element.oldId === oldCategoryId || element.oldId === oldModelId));
+
+    assert.equal(result.models.removed.length, 0);
+    assert.isFalse(result.models.added.some((model) => model.newId === newModelId));
+    assert.isFalse(result.models.modified.some((model) => model.oldId === oldModelId));
+    assert.equal(result.relationships.added.length, 1);
+    assert.equal(result.relationships.added[0].classFullName, ElementGroupsMembers.classFullName);
+    assert.equal(result.relationships.removed.length, 0);
+
+    diff.dispose();
+    oldDb.close();
+    newDb.close();
+  });
+
+  it("should match elements by ExternalSourceAspect and Code and compare their aspects", () => {
+    // Populate the old and new iModels independently, so that only ExternalSourceAspects and Codes match their elements
+    const populate = (iModelDb: IModelDb, isNew: boolean) => {
+      if (isNew)
+        SpatialCategory.insert(iModelDb, IModel.dictionaryId, "Other Category", {}); // so that the Ids of the new iModel differ from those of the old iModel
+      const codeSpecId = iModelDb.codeSpecs.insert("IModelDiff", CodeScopeSpec.Type.Model);
+      const categoryId = SpatialCategory.insert(iModelDb, IModel.dictionaryId, "Category", {});
+      const modelId = PhysicalModel.insert(iModelDb, IModel.rootSubjectId, "Physical");
+      const byCodeId = insertPhysicalObject(iModelDb, modelId, categoryId, "ByCode", 1, { code: new Code({ spec: codeSpecId, scope: modelId, value: "ByCode" }) });
+      insertExternalSourceAspect(iModelDb, byCodeId, IModel.rootSubjectId, ExternalSourceAspect.Kind.Relationship, isNew ? "Added" : "Removed", "1");
+      // The scope of the aspect is matched by its Code
+      const byAspectId = insertPhysicalObject(iModelDb, modelId, categoryId, "ByAspect", 2);
+      insertExternalSourceAspect(iModelDb, byAspectId, byCodeId, ExternalSourceAspect.Kind.Element, "ByAspect", isNew ? "2" : "1");
+      // The Code of an element whose class changed does not match
+      const changedClassId = iModelDb.elements.insertElement({
+        classFullName: isNew ? SpatialLocation.classFullName : PhysicalObject.classFullName,
+        model: modelId,
+        category: categoryId,
+        code: new Code({ spec: codeSpecId, scope: modelId, value: "ChangedClass" }),
+      } as PhysicalElementProps);
+      iModelDb.saveChanges();
+      return { categoryId, byCodeId, byAspectId, changedClassId };
+    };
+
+    const oldDb = SnapshotDb.createEmpty(IModelTestUtils.prepareOutputFile("IModelDiff", "OldMatching.bim"), { rootSubject: { name: "IModelDiff" } });
+    const oldIds = populate(oldDb, false);
+    const newDb = SnapshotDb.createEmpty(IModelTestUtils.prepareOutputFile("IModelDiff", "NewMatching.bim"), { rootSubject: { name: "IModelDiff" } });
+    const newIds = populate(newDb, true);
+    assert.notEqual(newIds.categoryId, oldIds.categoryId);
+
+    const diff = new IModelDiff(oldDb, newDb);
+    const result = diff.compare();
+    assert.equal(diff.findNewElementId(oldIds.categoryId), newIds.categoryId);
+    assert.equal(diff.findNewElementId(oldIds.byCodeId), newIds.byCodeId);
+    assert.equal(diff.findNewElementId(oldIds.byAspectId), newIds.byAspectId);
+    assert.isUndefined(diff.findNewElementId(oldIds.changedClassId));
+
+    assert.deepEqual(result.elements.removed, [{ classFullName: PhysicalObject.classFullName, oldId: oldIds.changedClassId }]);
+    assert.isTrue(result.elements.added.some((element) => element.newId === newIds.changedClassId && element.classFullName === SpatialLocation.classFullName));
+    assert.deepEqual(result.elements.modified, []);
+
+    assert.equal(result.aspects.modified.length, 1);
+    assert.equal(result.aspects.modified[0].oldElementId, oldIds.byAspectId);
+    assert.equal(result.aspects.modified[0].newElementId, newIds.byAspectId);
+    assert.deepEqual(result.aspects.modified[0].properties, [{ propertyName: "version", oldValue: "1", newValue: "2" }]);
+    assert.equal(result.aspects.removed.length, 1);
+    assert.equal(result.aspects.removed[0].oldElementId, oldIds.byCodeId);
+    assert.equal(result.aspects.added.length, 1);
+    assert.equal(result.aspects.added[0].newElementId, newIds.byCodeId);
+
+    diff.dispose();
+    oldDb.close();
+    newDb.close();
+  });
+
+  it("should compare link table relationships and the properties of their subclasses", () => {
+    const guidA = Guid.createValue();
+    const guidB = Guid.createValue();
+    const populate = (iModelDb: IModelDb, isNew: boolean) => {
+      const categoryId = SpatialCategory.insert(iModelDb, IModel.dictionaryId, "Category", {});
+      const modelId = PhysicalModel.insert(iModelDb, IModel.rootSubjectId, "Physical");
+      const idA = insertPhysicalObject(iModelDb, modelId, categoryId, "A", 1, { federationGuid: guidA });
+      const idB = insertPhysicalObject(iModelDb, modelId, categoryId, "B", 2, { federationGuid: guidB });
+      ElementGroupsMembers.create(iModelDb, idA, idB, isNew ? 2 : 1).insert();
+      const drivesId = (isNew ? ElementDrivesElement.create(iModelDb, idB, idA) : ElementDrivesElement.create(iModelDb, idA, idB)).insert();
+      iModelDb.saveChanges();
+      return { drivesId };
+    };
+
+    const oldDb = SnapshotDb.createEmpty(IModelTestUtils.prepareOutputFile("IModelDiff", "OldRelationships.bim"), { rootSubject: { name: "IModelDiff" } });
+    const oldIds = populate(oldDb, false);
+    const newDb = SnapshotDb.createEmpty(IModelTestUtils.prepareOutputFile("IModelDiff", "NewRelationships.bim"), { rootSubject: { name: "IModelDiff" } });
+    const newIds = populate(newDb, true);
+
+    const diff = new IModelDiff(oldDb, newDb);
+    const result = diff.compare();
+    assert.equal(result.relationships.modified.length, 1);
+    assert.equal(result.relationships.modified[0].classFullName, ElementGroupsMembers.classFullName);
+    assert.deepEqual(result.relationships.modified[0].properties, [{ propertyName: "memberPriority", oldValue: 1, newValue: 2 }]);
+    assert.deepEqual(result.relationships.removed, [{ classFullName: ElementDrivesElement.classFullName, oldId: oldIds.drivesId }]);
+    assert.deepEqual(result.relationships.added, [{ classFullName: ElementDrivesElement.classFullName, newId: newIds.drivesId }]);
+
+    diff.dispose();
+    oldDb.close();
+    newDb.close();
+  });
+});
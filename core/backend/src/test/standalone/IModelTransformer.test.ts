@@ -6,7 +6,7 @@ import { assert } from "chai";
 import * as path from "path";
 import { DbResult, Id64, Id64String, Logger, LogLevel } from "@bentley/bentleyjs-core";
 import { Point3d, Range3d, StandardViewIndex, Transform, YawPitchRollAngles } from "@bentley/geometry-core";
-import { AxisAlignedBox3d, Code, ColorDef, CreateIModelProps, IModel, PhysicalElementProps, Placement3d } from "@bentley/imodeljs-common";
+import { AxisAlignedBox3d, Code, ColorDef, CreateIModelProps, ElementProps, IModel, PhysicalElementProps, Placement3d } from "@bentley/imodeljs-common";
 import {
   BackendLoggerCategory, BackendRequestContext, CategorySelector, DefinitionPartition, DisplayStyle3d, ECSqlStatement, Element, ElementMultiAspect,
   ElementRefersToElements, ElementUniqueAspect, ExternalSourceAspect, IModelCloneContext, IModelDb, IModelExporter, IModelExportHandler, IModelJsFs,
@@ -571,6 +571,97 @@ describe("IModelTransformer", () => {
     iModelDb.close();
   });
 
+  it("should resume and incrementally update a checkpointed transformation", async () => {
+    // IModelTransformer that simulates a crash after transforming the specified number of elements
+    class CountingTransformer extends IModelTransformer {
+      public numTransformed = 0;
+      private readonly _crashAfter?: number;
+      public constructor(source: IModelDb, target: IModelDb, crashAfter?: number) {
+        super(source, target, { noProvenance: true, checkpoint: true });
+        this.exporter.progressInterval = 1; // checkpoint after every exported entity
+        this._crashAfter = crashAfter;
+      }
+      protected onTransformElement(sourceElement: Element): ElementProps {
+        if (this.numTransformed === this._crashAfter) {
+          throw new Error("Simulated crash");
+        }
+        this.numTransformed++;
+        return super.onTransformElement(sourceElement);
+      }
+    }
+    const sourceDbFile: string = IModelTestUtils.prepareOutputFile("IModelTransformer", "Checkpoint-Source.bim");
+    const sourceDb = SnapshotDb.createEmpty(sourceDbFile, { rootSubject: { name: "Checkpoint-Source" } });
+    const categoryId = SpatialCategory.insert(sourceDb, IModel.dictionaryId, "SpatialCategory", {});
+    const modelId = PhysicalModel.insert(sourceDb, IModel.rootSubjectId, "Physical");
+    const physicalObjectIds: Id64String[] = [];
+    for (let i = 0; i < 5; i++) {
+      physicalObjectIds.push(sourceDb.elements.insertElement({
+        classFullName: PhysicalObject.classFullName,
+        model: modelId,
+        category: categoryId,
+        code: Code.createEmpty(),
+        userLabel: `PhysicalObject${i}`,
+        geom: IModelTransformerUtils.createBox(Point3d.create(1, 1, 1)),
+        placement: { origin: Point3d.create(i, 0, 0), angles: { yaw: 0, pitch: 0, roll: 0 } },
+      } as PhysicalElementProps));
+    }
+    sourceDb.saveChanges();
+    const numSourceElements = count(sourceDb, Element.classFullName);
+
+    const targetDbFile: string = IModelTestUtils.prepareOutputFile("IModelTransformer", "Checkpoint-Target.bim");
+    const targetDb = SnapshotDb.createEmpty(targetDbFile, { rootSubject: { name: "Checkpoint-Target" } });
+
+    // an interrupted run leaves the changes and state of its last checkpoint
+    const crashingTransformer = new CountingTransformer(sourceDb, targetDb, 5);
+    assert.throws(() => crashingTransformer.processAll(), "Simulated crash");
+    crashingTransformer.dispose();
+    targetDb.abandonChanges();
+    const interruptedState = IModelTransformer.queryState(targetDb)!;
+    assert.isDefined(interruptedState);
+    assert.isDefined(interruptedState.resume);
+    assert.isUndefined(interruptedState.lastModified);
+    assert.equal(interruptedState.sourceIModelId, sourceDb.iModelId);
+
+    // the resumed run only transforms the remaining elements and does not duplicate the ones transformed before the crash
+    const resumingTransformer = new CountingTransformer(sourceDb, targetDb);
+    resumingTransformer.processAll();
+    assert.isAbove(resumingTransformer.numTransformed, 0);
+    assert.equal(crashingTransformer.numTransformed + resumingTransformer.numTransformed, numSourceElements - 1); // the root Subject is not transformed
+    const targetIds: Id64String[] = physicalObjectIds.map((sourceId: Id64String) => resumingTransformer.context.findTargetElementId(sourceId));
+    targetIds.forEach((targetId: Id64String) => assert.isTrue(Id64.isValidId64(targetId)));
+    resumingTransformer.dispose();
+    assert.equal(count(targetDb, PhysicalObject.classFullName), physicalObjectIds.length);
+    assert.equal(count(targetDb, Element.classFullName), numSourceElements);
+    const completedState = IModelTransformer.queryState(targetDb)!;
+    assert.isUndefined(completedState.resume);
+    assert.isDefined(completedState.lastModified);
+
+    // a later run only transforms the elements modified since the last completed run
+    sourceDb.elements.updateElement({ ...sourceDb.elements.getElementProps(physicalObjectIds[2]), userLabel: "Modified" });
+    sourceDb.saveChanges();
+    const incrementalTransformer = new CountingTransformer(sourceDb, targetDb);
+    incrementalTransformer.processAll();
+    assert.equal(incrementalTransformer.numTransformed, 1);
+    incrementalTransformer.dispose();
+    assert.equal(targetDb.elements.getElement(targetIds[2]).userLabel, "Modified");
+    assert.equal(count(targetDb, PhysicalObject.classFullName), physicalObjectIds.length);
+
+    // the saved remapping rules can also be restored into a new IModelCloneContext
+    const cloneContext = new IModelCloneContext(sourceDb, targetDb);
+    cloneContext.recordState();
+    cloneContext.loadState(IModelTransformer.queryState(targetDb)!.context);
+    assert.equal(cloneContext.findTargetElementId(physicalObjectIds[0]), targetIds[0]);
+    assert.sameDeepMembers(cloneContext.takeRecordedState().elementIds, completedState.context.elementIds);
+    // only the changes since the previous call are recorded
+    cloneContext.removeElement(physicalObjectIds[0]);
+    assert.deepEqual(cloneContext.takeRecordedState(), { elementIds: [[physicalObjectIds[0], Id64.invalid]], codeSpecNames: [], classFullNames: [] });
+    assert.equal(cloneContext.findTargetElementId(physicalObjectIds[0]), Id64.invalid);
+    cloneContext.dispose();
+
+    sourceDb.close();
+    targetDb.close();
+  });
+
   it("should clone across schema versions", async () => {
     // NOTE: schema differences between 01.00.00 and 01.00.01 were crafted to reproduce a cloning bug. The goal of this test is to prevent regressions.
     const cloneTestSchema100: string = path.join(KnownTestLocations.assetsDir, "CloneTest.01.00.00.ecschema.xml");
@@ -0,0 +1,197 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { assert } from "chai";
+import * as fs from "fs";
+import { DbResult, Id64String } from "@bentley/bentleyjs-core";
+import { Box, Point3d, Range3d } from "@bentley/geometry-core";
+import { Code, GeometricElement3dProps, GeometryStreamBuilder, GeometryStreamProps, IModel, PhysicalElementProps } from "@bentley/imodeljs-common";
+import {
+  ECSqlStatement, GeometricElement, IfcElementType, IfcExportHandler, IfcPropertySetProps, PhysicalElement, PhysicalObject, SnapshotDb, SpatialElement,
+  SpatialLocationModel, VolumeElement,
+} from "../../imodeljs-backend";
+import { IModelTestUtils } from "../IModelTestUtils";
+
+/** Parse the DATA section of an IFC file into a map from instance number to entity name and attributes. */
+function readIfcData(fileName: string): Map<number, { entity: string, attributes: string }> {
+  const lines = fs.readFileSync(fileName, "utf8").split("\n");
+  assert.strictEqual(lines[0], "ISO-10303-21;");
+  assert.include(lines, "FILE_SCHEMA(('IFC4'));");
+  assert.include(lines, "END-ISO-10303-21;");
+
+  const instances = new Map<number, { entity: string, attributes: string }>();
+  for (const line of lines.slice(lines.indexOf("DATA;") + 1, lines.lastIndexOf("ENDSEC;"))) {
+    const match = line.match(/^#(\d+)=([A-Z0-9]+)\((.*)\);$/);
+    assert.isNotNull(match, line);
+    assert.isFalse(instances.has(Number(match![1])), "unique instance numbers");
+    instances.set(Number(match![1]), { entity: match![2], attributes: match![3] });
+  }
+  return instances;
+}
+
+function findInstances(instances: Map<number, { entity: string, attributes: string }>, entity: string): Array<{ id: number, attributes: string }> {
+  const result = [];
+  for (const [id, instance] of instances)
+    if (instance.entity === entity)
+      result.push({ id, attributes: instance.attributes });
+  return result;
+}
+
+class WallExportHandler extends IfcExportHandler {
+  public wallId?: Id64String;
+  protected getIfcElementType(element: PhysicalElement): IfcElementType | undefined {
+    return element.id === this.wallId ? IfcElementType.Wall : undefined;
+  }
+  protected getPropertySets(element: SpatialElement): IfcPropertySetProps[] {
+    if (element.id !== this.wallId)
+      return [];
+    return [{ name: "Pset_WallCommon", properties: { Reference: element.id, IsExternal: true, ThermalTransmittance: 0.25, Unused: undefined } }]; // eslint-disable-line @typescript-eslint/naming-convention
+  }
+}
+
+describe("IfcExportHandler", () => {
+  let imodel: SnapshotDb;
+  let boxId: Id64String;
+  let spaceId: Id64String;
+
+  function boxGeometry(low: Point3d, high: Point3d): GeometryStreamProps {
+    const builder = new GeometryStreamBuilder();
+    builder.appendGeometry(Box.createRange(Range3d.create(low, high), true)!);
+    return builder.geometryStream;
+  }
+
+  before(() => {
+    const seedFileName = IModelTestUtils.resolveAssetFile("CompatibilityTestSeed.bim");
+    const testFileName = IModelTestUtils.prepareOutputFile("IfcExportHandler", "IfcExportHandler.bim");
+    imodel = IModelTestUtils.createSnapshotFromSeed(testFileName, seedFileName);
+    const seedElement = imodel.elements.getElement<GeometricElement>("0x1d");
+
+    const boxProps: PhysicalElementProps = {
+      classFullName: PhysicalObject.classFullName,
+      model: seedElement.model,
+      category: seedElement.category,
+      code: Code.createEmpty(),
+      userLabel: "Box 'A'",
+      placement: { origin: Point3d.create(10, 20, 30), angles: { yaw: 90 } },
+      geom: boxGeometry(Point3d.create(0, 0, 0), Point3d.create(1, 2, 3)),
+    };
+    boxId = imodel.elements.insertElement(boxProps);
+
+    const spaceProps: GeometricElement3dProps = {
+      classFullName: VolumeElement.classFullName,
+      model: SpatialLocationModel.insert(imodel, IModel.rootSubjectId, "Rooms"),
+      category: seedElement.category,
+      code: Code.createEmpty(),
+      userLabel: "Room",
+      geom: boxGeometry(Point3d.create(0, 0, 0), Point3d.create(4, 4, 3)),
+    };
+    spaceId = imodel.elements.insertElement(spaceProps);
+    imodel.saveChanges();
+  });
+
+  after(() => {
+    imodel.close();
+  });
+
+  it("should export spatial structure, geometry and properties", () => {
+    const fileName = IModelTestUtils.prepareOutputFile("IfcExportHandler", "Export.ifc");
+    new IfcExportHandler(imodel, fileName, { projectName: "Test Project" }).export();
+    const instances = readIfcData(fileName);
+
+    // every reference is to an instance in the file
+    for (const instance of instances.values())
+      for (const reference of instance.attributes.match(/#\d+/g) ?? [])
+        assert.isTrue(instances.has(Number(reference.slice(1))), reference);
+
+    const project = findInstances(instances, "IFCPROJECT");
+    assert.strictEqual(project.length, 1);
+    assert.include(project[0].attributes, "'Test Project'");
+    const sites = findInstances(instances, "IFCSITE");
+    assert.strictEqual(sites.length, 1);
+
+    // a building for each model of physical elements and spatial locations
+    const modelIds = new Set<Id64String>();
+    imodel.withPreparedStatement("SELECT DISTINCT Model.Id FROM bis.SpatialElement", (statement: ECSqlStatement) => {
+      while (DbResult.BE_SQLITE_ROW === statement.step())
+        modelIds.add(statement.getValue(0).getId());
+    });
+    const buildings = findInstances(instances, "IFCBUILDING");
+    assert.strictEqual(buildings.length, modelIds.size);
+    assert.isTrue(buildings.some((building) => building.attributes.includes("'Rooms'")));
+
+    const spaces = findInstances(instances, "IFCSPACE");
+    const room = spaces.find((space) => space.attributes.includes("'Room'"))!;
+    assert.isDefined(room);
+
+    const proxies = findInstances(instances, "IFCBUILDINGELEMENTPROXY");
+    const box = proxies.find((proxy) => proxy.attributes.includes(`'${boxId}',.NOTDEFINED.`))!;
+    assert.isDefined(box);
+    assert.include(box.attributes, "'Box ''A'''", "quotes are escaped");
+
+    // GlobalIds are unique and 22 characters long
+    const globalIds = new Set<string>();
+    for (const instance of instances.values()) {
+      const globalId = instance.attributes.match(/^'([0-9A-Za-z_$]+)'/);
+      if (null !== globalId && ["IFCPROJECT", "IFCSITE", "IFCBUILDING", "IFCSPACE", "IFCBUILDINGELEMENTPROXY", "IFCPROPERTYSET"].includes(instance.entity)) {
+        assert.strictEqual(globalId[1].length, 22);
+        assert.isFalse(globalIds.has(globalId[1]), "unique GlobalId");
+        globalIds.add(globalId[1]);
+      }
+    }
+
+    // The box is written in the local coordinates of its placement, which is rotated about Z.
+    const faceSets = findInstances(instances, "IFCTRIANGULATEDFACESET");
+    assert.isAtLeast(faceSets.length, 2);
+    assert.isAtLeast(findInstances(instances, "IFCSTYLEDITEM").length, faceSets.length);
+    const placement = instances.get(Number(box.attributes.split(",")[5].slice(1)))!;
+    assert.strictEqual(placement.entity, "IFCLOCALPLACEMENT");
+    const axes = instances.get(Number(placement.attributes.split(",")[1].slice(1)))!;
+    assert.strictEqual(axes.entity, "IFCAXIS2PLACEMENT3D");
+    const location = instances.get(Number(axes.attributes.split(",")[0].slice(1)))!;
+    assert.strictEqual(location.attributes, "(10.,20.,30.)");
+
+    // The element and spatial relationships
+    const contained = findInstances(instances, "IFCRELCONTAINEDINSPATIALSTRUCTURE");
+    assert.isTrue(contained.some((rel) => rel.attributes.includes(`#${box.id},`) || rel.attributes.includes(`#${box.id})`)));
+
+    // project > site, site > buildings, building > spaces
+    const aggregated = new Set<number>();
+    for (const rel of findInstances(instances, "IFCRELAGGREGATES"))
+      rel.attributes.slice(rel.attributes.lastIndexOf("(") + 1, -1).split(",").forEach((ref) => aggregated.add(Number(ref.slice(1))));
+    for (const { id } of [sites[0], ...buildings, room])
+      assert.isTrue(aggregated.has(id), `#${id} is aggregated`);
+
+    const elementIdProperty = findInstances(instances, "IFCPROPERTYSINGLEVALUE").find((property) => property.attributes.includes(`IFCLABEL('${boxId}')`));
+    assert.isDefined(elementIdProperty);
+    assert.isDefined(findInstances(instances, "IFCPROPERTYSINGLEVALUE").find((property) => property.attributes.includes(`IFCLABEL('${spaceId}')`)));
+    assert.isTrue(findInstances(instances, "IFCPROPERTYSET").some((propertySet) => propertySet.attributes.includes("'BIS_Element'")));
+    assert.isAtLeast(findInstances(instances, "IFCRELDEFINESBYPROPERTIES").length, proxies.length + spaces.length);
+
+    // Exporting again produces the same GlobalIds
+    const secondFileName = IModelTestUtils.prepareOutputFile("IfcExportHandler", "Export2.ifc");
+    new IfcExportHandler(imodel, secondFileName, { projectName: "Test Project" }).export();
+    assert.strictEqual(findInstances(readIfcData(secondFileName), "IFCBUILDINGELEMENTPROXY").find((proxy) => proxy.attributes.includes(`'${boxId}'`))!.attributes, box.attributes);
+  });
+
+  it("should allow subclasses to choose entities and property sets", () => {
+    const fileName = IModelTestUtils.prepareOutputFile("IfcExportHandler", "Walls.ifc");
+    const handler = new WallExportHandler(imodel, fileName, { includeGeometry: false });
+    handler.wallId = boxId;
+    handler.export();
+    const instances = readIfcData(fileName);
+
+    const walls = findInstances(instances, "IFCWALL");
+    assert.strictEqual(walls.length, 1);
+    assert.isTrue(walls[0].attributes.endsWith(`$,'${boxId}',.NOTDEFINED.`), "no representation");
+    assert.strictEqual(findInstances(instances, "IFCBUILDINGELEMENTPROXY").length, 0);
+    assert.strictEqual(findInstances(instances, "IFCTRIANGULATEDFACESET").length, 0);
+
+    const properties = findInstances(instances, "IFCPROPERTYSINGLEVALUE").map((property) => property.attributes);
+    assert.sameMembers(properties.filter((property) => property.startsWith("'IsExternal'") || property.startsWith("'ThermalTransmittance'")), [
+      "'IsExternal',$,IFCBOOLEAN(.T.),$",
+      "'ThermalTransmittance',$,IFCREAL(0.25),$",
+    ]);
+    assert.isFalse(properties.some((property) => property.startsWith("'Unused'")));
+  });
+});
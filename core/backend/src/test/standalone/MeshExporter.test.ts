@@ -0,0 +1,127 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { assert } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import { DbResult, Id64String } from "@bentley/bentleyjs-core";
+import { Box, Point3d, Range3d } from "@bentley/geometry-core";
+import { Code, GeometryStreamBuilder, PhysicalElementProps } from "@bentley/imodeljs-common";
+import { GeometricElement, MeshExportGrouping, ObjExporter, PhysicalObject, PlyExporter, SnapshotDb, StlExporter } from "../../imodeljs-backend";
+import { IModelTestUtils } from "../IModelTestUtils";
+
+describe("MeshExporter", () => {
+  let imodel: SnapshotDb;
+  const elementIds: Id64String[] = [];
+
+  function insertBox(seedElement: GeometricElement, low: Point3d): Id64String {
+    const box = Box.createRange(Range3d.create(low, low.plusXYZ(1.0, 1.0, 1.0)), true)!;
+    const builder = new GeometryStreamBuilder();
+    builder.appendGeometry(box);
+    const elementProps: PhysicalElementProps = {
+      classFullName: PhysicalObject.classFullName,
+      model: seedElement.model,
+      category: seedElement.category,
+      code: Code.createEmpty(),
+      geom: builder.geometryStream,
+    };
+    return imodel.elements.insertElement(elementProps);
+  }
+
+  before(() => {
+    const seedFileName = IModelTestUtils.resolveAssetFile("CompatibilityTestSeed.bim");
+    const testFileName = IModelTestUtils.prepareOutputFile("MeshExporter", "MeshExporter.bim");
+    imodel = IModelTestUtils.createSnapshotFromSeed(testFileName, seedFileName);
+
+    const seedElement = imodel.elements.getElement<GeometricElement>("0x1d");
+    elementIds.push(insertBox(seedElement, Point3d.create(0, 0, 0)));
+    elementIds.push(insertBox(seedElement, Point3d.create(5, 0, 0)));
+    imodel.saveChanges();
+  });
+
+  after(() => {
+    imodel.close();
+  });
+
+  it("should export binary STL", () => {
+    const fileName = IModelTestUtils.prepareOutputFile("MeshExporter", "Boxes.stl");
+    const exporter = new StlExporter(imodel, fileName);
+    assert.strictEqual(exporter.exportElements({ elementIdArray: elementIds }), DbResult.BE_SQLITE_OK);
+    assert.strictEqual(exporter.triangleCount, 24);
+
+    const data = fs.readFileSync(fileName);
+    assert.strictEqual(data.length, 84 + 50 * 24);
+    assert.strictEqual(data.readUInt32LE(80), 24);
+  });
+
+  it("should export ASCII STL with a solid per element", () => {
+    const fileName = IModelTestUtils.prepareOutputFile("MeshExporter", "BoxesAscii.stl");
+    const exporter = new StlExporter(imodel, fileName, false);
+    assert.strictEqual(exporter.exportElements({ elementIdArray: elementIds, grouping: MeshExportGrouping.Element }), DbResult.BE_SQLITE_OK);
+
+    const text = fs.readFileSync(fileName, "utf8");
+    // Elements without a code are grouped by Id.
+    assert.include(text, `solid ${elementIds[0]}\n`);
+    assert.include(text, `endsolid ${elementIds[0]}\n`);
+    assert.include(text, `solid ${elementIds[1]}\n`);
+    assert.strictEqual(text.split("facet normal").length - 1, 24);
+  });
+
+  it("should export OBJ and MTL", () => {
+    const fileName = IModelTestUtils.prepareOutputFile("MeshExporter", "Boxes.obj");
+    const exporter = new ObjExporter(imodel, fileName);
+    assert.strictEqual(exporter.exportElements({ elementIdArray: elementIds, grouping: MeshExportGrouping.Element }), DbResult.BE_SQLITE_OK);
+    assert.strictEqual(exporter.mtlFileName, path.join(path.dirname(fileName), "Boxes.mtl"));
+
+    const lines = fs.readFileSync(fileName, "utf8").split("\n");
+    assert.strictEqual(lines[0], "mtllib Boxes.mtl");
+    assert.deepEqual(lines.filter((line) => line.startsWith("g ")), [`g ${elementIds[0]}`, `g ${elementIds[1]}`]);
+    assert.strictEqual(lines.filter((line) => line.startsWith("v ")).length, exporter.vertexCount);
+    const faces = lines.filter((line) => line.startsWith("f "));
+    assert.strictEqual(faces.length, 24);
+
+    // Indices of the second element must be offset by the vertices of the first.
+    const maxIndex = Math.max(...faces.map((face) => Math.max(...face.substring(2).split(" ").map((vertex) => parseInt(vertex.split("/")[0], 10)))));
+    assert.strictEqual(maxIndex, exporter.vertexCount);
+
+    const mtl = fs.readFileSync(exporter.mtlFileName, "utf8");
+    for (const usemtl of lines.filter((line) => line.startsWith("usemtl ")))
+      assert.include(mtl, `newmtl ${usemtl.substring(7)}\n`);
+  });
+
+  it("should export PLY grouped by category", () => {
+    for (const binary of [true, false]) {
+      const fileName = IModelTestUtils.prepareOutputFile("MeshExporter", binary ? "Boxes.ply" : "BoxesAscii.ply");
+      const exporter = new PlyExporter(imodel, fileName, binary);
+      assert.strictEqual(exporter.exportElements({ elementIdArray: elementIds, grouping: MeshExportGrouping.Category }), DbResult.BE_SQLITE_OK);
+      assert.isFalse(fs.existsSync(`${fileName}.vertices.tmp`));
+      assert.isFalse(fs.existsSync(`${fileName}.faces.tmp`));
+
+      const data = fs.readFileSync(fileName);
+      const headerEnd = data.indexOf("end_header\n") + "end_header\n".length;
+      const header = data.toString("ascii", 0, headerEnd);
+      assert.include(header, `format ${binary ? "binary_little_endian" : "ascii"} 1.0`);
+      assert.include(header, `element vertex ${exporter.vertexCount}`);
+      assert.include(header, "element face 24");
+      assert.include(header, "comment group 0 ");
+      assert.notInclude(header, "comment group 1 ");
+      assert.include(header, "property uint group");
+      if (binary)
+        assert.strictEqual(data.length - headerEnd, exporter.vertexCount * 48 + 24 * 17);
+      else
+        assert.strictEqual(data.toString("ascii", headerEnd).trim().split("\n").length, exporter.vertexCount + 24);
+    }
+  });
+
+  it("should delete PLY temporary files when export fails", () => {
+    class FailingPlyExporter extends PlyExporter {
+      protected onEndGroup(): void { throw new Error("export failed"); }
+    }
+    const fileName = IModelTestUtils.prepareOutputFile("MeshExporter", "Failed.ply");
+    const exporter = new FailingPlyExporter(imodel, fileName);
+    assert.throws(() => exporter.exportElements({ elementIdArray: elementIds }), "export failed");
+    assert.isFalse(fs.existsSync(`${fileName}.vertices.tmp`));
+    assert.isFalse(fs.existsSync(`${fileName}.faces.tmp`));
+  });
+});
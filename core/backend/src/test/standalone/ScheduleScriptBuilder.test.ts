@@ -0,0 +1,192 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { assert, expect } from "chai";
+import { Id64String } from "@bentley/bentleyjs-core";
+import { Box, Point3d, Range3d } from "@bentley/geometry-core";
+import { Code, ColorDef, GeometryStreamBuilder, IModelError, PhysicalElementProps } from "@bentley/imodeljs-common";
+import {
+  GeometricElement, PhysicalObject, ScheduleIssueType, ScheduleScriptBuilder, ScheduleTaskProps, ScheduleTaskType, SnapshotDb,
+} from "../../imodeljs-backend";
+import { IModelTestUtils } from "../IModelTestUtils";
+
+describe("ScheduleScriptBuilder", () => {
+  let imodel: SnapshotDb;
+  let seedElement: GeometricElement;
+  let wall: Id64String;
+  let slab: Id64String;
+  let scaffold: Id64String;
+  let shed: Id64String;
+  let unscheduled: Id64String;
+
+  function insertBox(low: Point3d, high: Point3d, parent?: Id64String): Id64String {
+    const builder = new GeometryStreamBuilder();
+    builder.appendGeometry(Box.createRange(Range3d.create(low, high), true)!);
+    const elementProps: PhysicalElementProps = {
+      classFullName: PhysicalObject.classFullName,
+      model: seedElement.model,
+      category: seedElement.category,
+      code: Code.createEmpty(),
+      parent: undefined !== parent ? { id: parent, relClassName: "BisCore:ElementOwnsChildElements" } : undefined,
+      geom: builder.geometryStream,
+    };
+    return imodel.elements.insertElement(elementProps);
+  }
+
+  before(() => {
+    const seedFileName = IModelTestUtils.resolveAssetFile("CompatibilityTestSeed.bim");
+    const testFileName = IModelTestUtils.prepareOutputFile("ScheduleScriptBuilder", "ScheduleScriptBuilder.bim");
+    imodel = IModelTestUtils.createSnapshotFromSeed(testFileName, seedFileName);
+    seedElement = imodel.elements.getElement<GeometricElement>("0x1d");
+    wall = insertBox(Point3d.create(0, 0, 0), Point3d.create(10, 1, 3));
+    slab = insertBox(Point3d.create(0, 0, 3), Point3d.create(10, 10, 3.5));
+    scaffold = insertBox(Point3d.create(0, -2, 0), Point3d.create(10, -1, 4));
+    shed = insertBox(Point3d.create(20, 0, 0), Point3d.create(22, 2, 2));
+    unscheduled = insertBox(Point3d.create(30, 0, 0), Point3d.create(31, 1, 1));
+    imodel.saveChanges();
+  });
+
+  after(() => {
+    imodel.close();
+  });
+
+  it("should parse tasks from CSV and JSON", () => {
+    const csv = [
+      "ID,Name,Start,End,Type,ElementIds",
+      `T1,"Walls, ground floor",2020-03-01T00:00:00Z,2020-03-11T00:00:00Z,Construct,${wall}`,
+      `T2,Slab,1584403200,1585008000,construct,"${slab}; ${scaffold}"`,
+      "",
+    ].join("\r\n");
+    const tasks = ScheduleScriptBuilder.parseCsv(csv);
+    assert.deepEqual(tasks, [
+      { id: "T1", name: "Walls, ground floor", start: "2020-03-01T00:00:00Z", end: "2020-03-11T00:00:00Z", type: ScheduleTaskType.Construct, elementIds: [wall] },
+      { id: "T2", name: "Slab", start: "1584403200", end: "1585008000", type: ScheduleTaskType.Construct, elementIds: [slab, scaffold] },
+    ]);
+    expect(() => ScheduleScriptBuilder.parseCsv("id,start,end,type\nT1,0,1,construct")).to.throw(IModelError);
+
+    const json = JSON.stringify({ tasks: [{ id: 1, start: "2020-03-01", end: "2020-03-02", type: "Demolish", elementIds: `${shed} ${wall}` }] });
+    assert.deepEqual(ScheduleScriptBuilder.parseJson(json), [{ id: "1", start: "2020-03-01", end: "2020-03-02", type: ScheduleTaskType.Demolish, elementIds: [shed, wall] }]);
+    expect(() => ScheduleScriptBuilder.parseJson("{}")).to.throw(IModelError);
+  });
+
+  it("should reject invalid tasks", () => {
+    const builder = new ScheduleScriptBuilder(imodel);
+    const task: ScheduleTaskProps = { id: "T1", start: "2020-03-01", end: "2020-03-02", type: ScheduleTaskType.Construct, elementIds: [wall] };
+    builder.addTask(task);
+    expect(() => builder.addTask(task)).to.throw(IModelError, "Duplicate");
+    expect(() => builder.addTask({ ...task, id: "" })).to.throw(IModelError);
+    expect(() => builder.addTask({ ...task, id: "T2", type: "paint" as ScheduleTaskType })).to.throw(IModelError);
+    expect(() => builder.addTask({ ...task, id: "T3", start: "March" })).to.throw(IModelError);
+    expect(() => builder.addTask({ ...task, id: "T4", start: "2020-03-03" })).to.throw(IModelError);
+    assert.strictEqual(builder.tasks.length, 1);
+  });
+
+  it("should build timelines", () => {
+    const builder = new ScheduleScriptBuilder(imodel, { colors: { [ScheduleTaskType.Temporary]: ColorDef.from(0, 0, 255) } });
+    builder.addTasks([
+      { id: "walls", start: 1000, end: 2000, type: ScheduleTaskType.Construct, elementIds: [wall] },
+      { id: "slab", start: 2000, end: 3000, type: ScheduleTaskType.Construct, elementIds: [slab] },
+      { id: "scaffold", start: 1000, end: 3000, type: ScheduleTaskType.Temporary, elementIds: [scaffold] },
+      { id: "shed", start: 500, end: 800, type: ScheduleTaskType.Demolish, elementIds: [shed] },
+    ]);
+
+    const script = builder.build();
+    assert.strictEqual(script.length, 1);
+    assert.strictEqual(script[0].modelId, seedElement.model);
+    const timelines = script[0].elementTimelines;
+    assert.strictEqual(timelines.length, 4);
+    assert.sameMembers(timelines.map((timeline) => timeline.batchId), [1, 2, 3, 4]);
+    const findTimeline = (elementId: Id64String) => timelines.find((timeline) => (timeline.elementIds as Id64String[]).includes(elementId))!;
+
+    // The wall is hidden until its task starts, grows from the bottom up, and remains visible in its own color.
+    const wallTimeline = findTimeline(wall);
+    assert.deepEqual(wallTimeline.visibilityTimeline!.map((entry) => [entry.time, entry.value]), [[1000, 0], [1000, 100], [2000, 100]]);
+    assert.deepEqual(wallTimeline.colorTimeline!.map((entry) => entry.value), [undefined, { red: 0, green: 255, blue: 0 }, undefined]);
+    const wallPlanes = wallTimeline.cuttingPlaneTimeline!;
+    assert.strictEqual(wallPlanes.length, 2);
+    assert.closeTo(wallPlanes[0].value.position[2], 0, 1.0e-6);
+    assert.closeTo(wallPlanes[1].value.position[2], 3, 1.0e-6);
+    assert.deepEqual(wallPlanes[0].value.direction, [0, 0, 1]);
+    assert.strictEqual(wallPlanes[0].interpolation, 2);
+    assert.isTrue(wallPlanes[1].value.visible);
+
+    // Temporary elements are only visible during their task.
+    const scaffoldTimeline = findTimeline(scaffold);
+    assert.deepEqual(scaffoldTimeline.visibilityTimeline!.map((entry) => [entry.time, entry.value]), [[1000, 0], [1000, 100], [3000, 0]]);
+    assert.deepEqual(scaffoldTimeline.colorTimeline![1].value, { red: 0, green: 0, blue: 255 });
+
+    // Demolished elements are visible until their task starts, and disappear from the top down.
+    const shedTimeline = findTimeline(shed);
+    assert.deepEqual(shedTimeline.visibilityTimeline!.map((entry) => [entry.time, entry.value]), [[500, 100], [500, 100], [800, 0]]);
+    assert.closeTo(shedTimeline.cuttingPlaneTimeline![0].value.position[2], 2, 1.0e-6);
+    assert.isTrue(shedTimeline.cuttingPlaneTimeline![1].value.hidden);
+
+    const withoutPlanes = new ScheduleScriptBuilder(imodel, { useCuttingPlanes: false });
+    withoutPlanes.addTask({ id: "walls", start: 1000, end: 2000, type: ScheduleTaskType.Construct, elementIds: [wall] });
+    assert.isUndefined(withoutPlanes.build()[0].elementTimelines[0].cuttingPlaneTimeline);
+  });
+
+  it("should combine the tasks of an element", () => {
+    const child = insertBox(Point3d.create(0, 0, 3), Point3d.create(1, 1, 4), wall);
+    imodel.saveChanges();
+
+    const builder = new ScheduleScriptBuilder(imodel);
+    builder.addTasks([
+      { id: "demolish", start: 5000, end: 6000, type: ScheduleTaskType.Demolish, elementIds: [wall] },
+      { id: "construct", start: 1000, end: 2000, type: ScheduleTaskType.Construct, elementIds: [wall] },
+    ]);
+    const timelines = builder.build()[0].elementTimelines;
+    assert.strictEqual(timelines.length, 1, "the child is animated with its parent");
+    assert.sameMembers(timelines[0].elementIds as Id64String[], [wall, child]);
+    assert.deepEqual(timelines[0].visibilityTimeline!.map((entry) => [entry.time, entry.value]), [[1000, 0], [1000, 100], [2000, 100], [5000, 100], [6000, 0]]);
+    assert.deepEqual(timelines[0].cuttingPlaneTimeline!.map((entry) => entry.time), [1000, 2000, 5000, 6000]);
+
+    const withoutChildren = new ScheduleScriptBuilder(imodel, { includeChildren: false });
+    withoutChildren.addTasks(builder.tasks);
+    assert.deepEqual(withoutChildren.build()[0].elementTimelines[0].elementIds, [wall]);
+
+    imodel.elements.deleteElement(child);
+    imodel.saveChanges();
+  });
+
+  it("should keep the order of timeline entries at the same time", () => {
+    // Array.prototype.sort is not stable for more than 10 items before Node 11.
+    const tasks: ScheduleTaskProps[] = [];
+    for (let i = 0; i < 12; i++)
+      tasks.push({ id: `temporary${i}`, start: 1000 + 100 * i, end: 1100 + 100 * i, type: ScheduleTaskType.Temporary, elementIds: [wall] });
+    const builder = new ScheduleScriptBuilder(imodel, { useCuttingPlanes: false });
+    builder.addTasks(tasks);
+
+    const expected = [[1000, 0]];
+    for (const task of tasks)
+      expected.push([task.start as number, 100], [task.end as number, 0]);
+    const timeline = builder.build()[0].elementTimelines[0];
+    assert.deepEqual(timeline.visibilityTimeline!.map((entry) => [entry.time, entry.value]), expected);
+  });
+
+  it("should validate schedules", () => {
+    const builder = new ScheduleScriptBuilder(imodel);
+    builder.addTasks([
+      { id: "walls", start: 1000, end: 2000, type: ScheduleTaskType.Construct, elementIds: [wall, slab] },
+      { id: "slab", start: 1500, end: 3000, type: ScheduleTaskType.Construct, elementIds: [slab, "0xfffffff0"] },
+      { id: "scaffold", start: 1000, end: 3000, type: ScheduleTaskType.Temporary, elementIds: [scaffold, shed] },
+    ]);
+
+    const issues = builder.validate();
+    const notFound = issues.filter((issue) => issue.type === ScheduleIssueType.ElementsNotFound);
+    assert.deepEqual(notFound.map((issue) => [issue.taskIds, issue.elementIds]), [[["slab"], ["0xfffffff0"]]]);
+
+    const overlaps = issues.filter((issue) => issue.type === ScheduleIssueType.Overlap);
+    assert.deepEqual(overlaps.map((issue) => [issue.taskIds, issue.elementIds]), [[["walls", "slab"], [slab]]]);
+
+    const unscheduledIssue = issues.find((issue) => issue.type === ScheduleIssueType.UnscheduledElements)!;
+    assert.include(unscheduledIssue.elementIds, unscheduled);
+    assert.notInclude(unscheduledIssue.elementIds, wall);
+    assert.include(unscheduledIssue.elementIds, seedElement.id);
+
+    // Elements that do not exist are ignored when building the script.
+    const script = builder.build();
+    assert.isFalse(script[0].elementTimelines.some((timeline) => (timeline.elementIds as Id64String[]).includes("0xfffffff0")));
+  });
+});
@@ -0,0 +1,180 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { assert } from "chai";
+import { DbResult, Id64String } from "@bentley/bentleyjs-core";
+import { Code, IModel, PhysicalElementProps } from "@bentley/imodeljs-common";
+import {
+  BackendRequestContext, ECSqlStatement, PhysicalModel, SchemaMappingProps, SchemaMappingTransformer, SnapshotDb, SpatialCategory,
+} from "../../imodeljs-backend";
+import { IModelTestUtils } from "../IModelTestUtils";
+
+const unitsSchemaXml = `<?xml version="1.0" encoding="UTF-8"?>
+<ECSchema schemaName="MappingUnits" alias="mu" version="01.00.00" xmlns="http://www.bentley.com/schemas/Bentley.ECXML.3.2">
+  <Phenomenon typeName="LENGTH" definition="LENGTH"/>
+  <UnitSystem typeName="SI"/>
+  <Unit typeName="M" phenomenon="LENGTH" unitSystem="SI" definition="M"/>
+  <Unit typeName="MM" phenomenon="LENGTH" unitSystem="SI" definition="M" numerator="0.001"/>
+  <KindOfQuantity typeName="LENGTH_M" persistenceUnit="M" relativeError="0.0001"/>
+  <KindOfQuantity typeName="LENGTH_MM" persistenceUnit="MM" relativeError="0.1"/>
+</ECSchema>`;
+
+const sourceSchemaXml = `<?xml version="1.0" encoding="UTF-8"?>
+<ECSchema schemaName="MappingSource" alias="msrc" version="01.00.00" xmlns="http://www.bentley.com/schemas/Bentley.ECXML.3.2">
+  <ECSchemaReference name="BisCore" version="01.00.00" alias="bis"/>
+  <ECSchemaReference name="MappingUnits" version="01.00.00" alias="mu"/>
+  <ECEntityClass typeName="Pipe">
+    <BaseClass>bis:PhysicalElement</BaseClass>
+    <ECProperty propertyName="Diameter" typeName="double" kindOfQuantity="mu:LENGTH_M"/>
+    <ECProperty propertyName="Material" typeName="string"/>
+    <ECProperty propertyName="LegacyCode" typeName="string"/>
+  </ECEntityClass>
+</ECSchema>`;
+
+const targetSchemaXml = `<?xml version="1.0" encoding="UTF-8"?>
+<ECSchema schemaName="MappingTarget" alias="mtgt" version="01.00.00" xmlns="http://www.bentley.com/schemas/Bentley.ECXML.3.2">
+  <ECSchemaReference name="BisCore" version="01.00.00" alias="bis"/>
+  <ECSchemaReference name="MappingUnits" version="01.00.00" alias="mu"/>
+  <ECEntityClass typeName="PipeSegment">
+    <BaseClass>bis:PhysicalElement</BaseClass>
+    <ECProperty propertyName="NominalDiameter" typeName="double" kindOfQuantity="mu:LENGTH_MM"/>
+    <ECProperty propertyName="Material" typeName="string"/>
+  </ECEntityClass>
+</ECSchema>`;
+
+describe("SchemaMappingTransformer", () => {
+  const requestContext = new BackendRequestContext();
+  const mapping: SchemaMappingProps = {
+    classes: [{
+      sourceClass: "MappingSource:Pipe",
+      targetClass: "MappingTarget:PipeSegment",
+      properties: { Diameter: "NominalDiameter" }, // eslint-disable-line @typescript-eslint/naming-convention
+      dropProperties: ["LegacyCode"],
+    }],
+  };
+
+  async function createSourceDb(): Promise<SnapshotDb> {
+    const sourceDbFile: string = IModelTestUtils.prepareOutputFile("SchemaMappingTransformer", "Source.bim");
+    const sourceDb = SnapshotDb.createEmpty(sourceDbFile, { rootSubject: { name: "SchemaMappingTransformer-Source" } });
+    await sourceDb.importSchemaStrings(requestContext, [unitsSchemaXml, sourceSchemaXml]);
+    const categoryId: Id64String = SpatialCategory.insert(sourceDb, IModel.dictionaryId, "SpatialCategory", {});
+    const modelId: Id64String = PhysicalModel.insert(sourceDb, IModel.rootSubjectId, "Physical");
+    const pipeProps = {
+      classFullName: "MappingSource:Pipe",
+      model: modelId,
+      category: categoryId,
+      code: Code.createEmpty(),
+      userLabel: "Pipe",
+      diameter: 0.25,
+      material: "Steel",
+      legacyCode: "P-100",
+    };
+    sourceDb.elements.insertElement(pipeProps as PhysicalElementProps);
+    sourceDb.saveChanges();
+    return sourceDb;
+  }
+
+  /** Transform the source iModel with the specified mapping and return the transformed pipes. */
+  async function transformPipes(targetName: string, pipeMapping: SchemaMappingProps): Promise<any[]> {
+    const sourceDb = await createSourceDb();
+    const targetDbFile: string = IModelTestUtils.prepareOutputFile("SchemaMappingTransformer", `${targetName}.bim`);
+    const targetDb = SnapshotDb.createEmpty(targetDbFile, { rootSubject: { name: `SchemaMappingTransformer-${targetName}` } });
+    await targetDb.importSchemaStrings(requestContext, [unitsSchemaXml, targetSchemaXml]);
+
+    const transformer = new SchemaMappingTransformer(sourceDb, targetDb, pipeMapping);
+    assert.deepEqual(transformer.validateMapping(), []);
+    transformer.processAll();
+    transformer.dispose();
+    targetDb.saveChanges();
+
+    const targetPipes: any[] = targetDb.withPreparedStatement("SELECT ECInstanceId FROM MappingTarget.PipeSegment", (statement: ECSqlStatement) => {
+      const elements: any[] = [];
+      while (DbResult.BE_SQLITE_ROW === statement.step()) {
+        elements.push(targetDb.elements.getElement(statement.getValue(0).getId()).asAny);
+      }
+      return elements;
+    });
+    sourceDb.close();
+    targetDb.close();
+    return targetPipes;
+  }
+
+  it("should transform classes and properties as mapped", async () => {
+    const targetPipes = await transformPipes("Target", mapping);
+    assert.equal(targetPipes.length, 1);
+    assert.equal(targetPipes[0].userLabel, "Pipe");
+    assert.equal(targetPipes[0].material, "Steel");
+    assert.approximately(targetPipes[0].nominalDiameter, 250, 1e-9); // converted from meters to millimeters
+    assert.isUndefined(targetPipes[0].diameter);
+    assert.isUndefined(targetPipes[0].legacyCode);
+  });
+
+  it("should match property names case-insensitively and drop properties inherited from BisCore", async () => {
+    const targetPipes = await transformPipes("MixedCaseTarget", {
+      classes: [{
+        sourceClass: "MappingSource:Pipe",
+        targetClass: "MappingTarget:PipeSegment",
+        properties: { diameter: "nominaldiameter" },
+        dropProperties: ["legacycode", "UserLabel"],
+      }],
+    });
+    assert.equal(targetPipes.length, 1);
+    assert.isUndefined(targetPipes[0].userLabel);
+    assert.equal(targetPipes[0].material, "Steel");
+    assert.approximately(targetPipes[0].nominalDiameter, 250, 1e-9);
+    assert.isUndefined(targetPipes[0].legacyCode);
+  });
+
+  it("should validate the mapping against both schemas", async () => {
+    const sourceDb = await createSourceDb();
+    const targetDbFile: string = IModelTestUtils.prepareOutputFile("SchemaMappingTransformer", "InvalidTarget.bim");
+    const targetDb = SnapshotDb.createEmpty(targetDbFile, { rootSubject: { name: "SchemaMappingTransformer-InvalidTarget" } });
+    await targetDb.importSchemaStrings(requestContext, [unitsSchemaXml, targetSchemaXml]);
+
+    const invalidMapping: SchemaMappingProps = {
+      classes: [
+        { sourceClass: "MappingSource:Pipe", targetClass: "MappingTarget:PipeSegment", properties: { Diameter: "Material" } }, // eslint-disable-line @typescript-eslint/naming-convention
+        { sourceClass: "MappingSource:Valve", targetClass: "MappingTarget:PipeSegment" },
+      ],
+    };
+    const transformer = new SchemaMappingTransformer(sourceDb, targetDb, invalidMapping);
+    const errors: string[] = transformer.validateMapping();
+    assert.equal(errors.length, 4);
+    assert.isTrue(errors.some((error: string) => error.includes("Diameter") && error.includes("both mapped to property Material")));
+    assert.isTrue(errors.some((error: string) => error.includes("Diameter") && error.includes("different types")));
+    assert.isTrue(errors.some((error: string) => error.includes("LegacyCode") && error.includes("mapped or dropped")));
+    assert.isTrue(errors.some((error: string) => error.includes("MappingSource:Valve")));
+    assert.throws(() => transformer.processAll());
+    transformer.dispose();
+
+    sourceDb.close();
+    targetDb.close();
+  });
+
+  it("should report source properties mapped to the same target property", async () => {
+    const sourceDb = await createSourceDb();
+    const targetDbFile: string = IModelTestUtils.prepareOutputFile("SchemaMappingTransformer", "DuplicateTarget.bim");
+    const targetDb = SnapshotDb.createEmpty(targetDbFile, { rootSubject: { name: "SchemaMappingTransformer-DuplicateTarget" } });
+    await targetDb.importSchemaStrings(requestContext, [unitsSchemaXml, targetSchemaXml]);
+
+    // LegacyCode is explicitly mapped to the target property that Material is implicitly mapped to
+    const duplicateMapping: SchemaMappingProps = {
+      classes: [{
+        sourceClass: "MappingSource:Pipe",
+        targetClass: "MappingTarget:PipeSegment",
+        properties: { Diameter: "NominalDiameter", LegacyCode: "Material" }, // eslint-disable-line @typescript-eslint/naming-convention
+      }],
+    };
+    const transformer = new SchemaMappingTransformer(sourceDb, targetDb, duplicateMapping);
+    const errors: string[] = transformer.validateMapping();
+    assert.equal(errors.length, 1);
+    assert.include(errors[0], "LegacyCode");
+    assert.include(errors[0], "both mapped to property Material");
+    assert.throws(() => transformer.processAll());
+    transformer.dispose();
+
+    sourceDb.close();
+    targetDb.close();
+  });
+});
@@ -37,7 +37,8 @@ export namespace RenderSchedule {
    * (0,0,0) is black (1,1,1) is white.
    */
   export interface ColorEntryProps extends TimelineEntryProps {
-    value: { red: number, green: number, blue: number };
+    /** The color, or undefined (or null, as in schedules exported by SYNCHRO) to draw the geometry in its own color. */
+    value?: { red: number, green: number, blue: number };
   }
 
   /**
@@ -132,6 +132,7 @@ export * from "./tile/CompositeTileIO";
 export * from "./tile/GltfTileIO";
 export * from "./tile/I3dmTileIO";
 export * from "./tile/IModelTileIO";
+export * from "./tile/OrbitGtTilePoints";
 export * from "./tile/PntsTileIO";
 export * from "./tile/TileIO";
 export * from "./tile/TileMetadata";
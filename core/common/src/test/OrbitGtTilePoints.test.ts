@@ -0,0 +1,41 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+
+import { expect } from "chai";
+import { GrowableXYZArray } from "@bentley/geometry-core";
+import { OrbitGtTilePointData, readOrbitGtTilePoints } from "../tile/OrbitGtTilePoints";
+
+describe("readOrbitGtTilePoints", () => {
+  const xyz = [[10, 20, 30], [18, 24, 42], [26, 20, 38]];
+
+  function createPointData(pointCount: number): OrbitGtTilePointData {
+    return {
+      tileIndex: { pointCount },
+      getX: (pointIndex: number) => xyz[pointIndex][0],
+      getY: (pointIndex: number) => xyz[pointIndex][1],
+      getZ: (pointIndex: number) => xyz[pointIndex][2],
+    };
+  }
+
+  it("should read the points of the tile", () => {
+    const points = readOrbitGtTilePoints(createPointData(3));
+    expect(points.length).to.equal(3);
+    expect(points.getPoint3dAtUncheckedPointIndex(0).isAlmostEqualXYZ(10, 20, 30)).to.be.true;
+    expect(points.getPoint3dAtUncheckedPointIndex(1).isAlmostEqualXYZ(18, 24, 42)).to.be.true;
+    expect(points.getPoint3dAtUncheckedPointIndex(2).isAlmostEqualXYZ(26, 20, 38)).to.be.true;
+  });
+
+  it("should read an empty tile", () => {
+    expect(readOrbitGtTilePoints(createPointData(0)).length).to.equal(0);
+  });
+
+  it("should replace the contents of the result array", () => {
+    const result = new GrowableXYZArray();
+    result.pushXYZ(-1, -1, -1);
+    expect(readOrbitGtTilePoints(createPointData(3), result)).to.equal(result);
+    expect(result.length).to.equal(3);
+    expect(result.getPoint3dAtUncheckedPointIndex(0).isAlmostEqualXYZ(10, 20, 30)).to.be.true;
+  });
+});
@@ -0,0 +1,87 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+
+import { expect } from "chai";
+import { ByteStream } from "@bentley/bentleyjs-core";
+import { GrowableXYZArray } from "@bentley/geometry-core";
+import { readPointCloudTilePoints } from "../tile/PntsTileIO";
+import { TileFormat } from "../tile/TileIO";
+
+/** Build a point cloud tile whose feature table holds the quantized positions. */
+function createPntsTile(featureTable: any, qPoints: number[], format = TileFormat.Pnts): ByteStream {
+  const headerLength = 28;
+  let json = JSON.stringify(featureTable);
+  // The binary body must start on an 8-byte boundary.
+  while ((headerLength + json.length) % 8 !== 0)
+    json += " ";
+
+  const binaryLength = 2 * qPoints.length;
+  const buffer = new ArrayBuffer(headerLength + json.length + binaryLength);
+  const view = new DataView(buffer);
+  view.setUint32(0, format, true);
+  view.setUint32(4, 1, true);
+  view.setUint32(8, buffer.byteLength, true);
+  view.setUint32(12, json.length, true);
+  view.setUint32(16, binaryLength, true);
+  view.setUint32(20, 0, true);
+  view.setUint32(24, 0, true);
+
+  for (let i = 0; i < json.length; i++)
+    view.setUint8(headerLength + i, json.charCodeAt(i));
+
+  for (let i = 0; i < qPoints.length; i++)
+    view.setUint16(headerLength + json.length + 2 * i, qPoints[i], true);
+
+  return new ByteStream(buffer);
+}
+
+describe("readPointCloudTilePoints", () => {
+  /* eslint-disable @typescript-eslint/naming-convention */
+  const featureTable = {
+    POINTS_LENGTH: 3,
+    POSITION_QUANTIZED: { byteOffset: 0 },
+    QUANTIZED_VOLUME_OFFSET: [1, 2, 3],
+    QUANTIZED_VOLUME_SCALE: [10, 20, 30],
+  };
+  /* eslint-enable @typescript-eslint/naming-convention */
+  const qPoints = [0, 0, 0, 0xffff, 0xffff, 0xffff, 0xffff, 0, 0xffff];
+
+  it("should unquantize the point positions", () => {
+    const points = readPointCloudTilePoints(createPntsTile(featureTable, qPoints));
+    expect(points).not.to.be.undefined;
+    expect(points!.length).to.equal(3);
+    expect(points!.getPoint3dAtUncheckedPointIndex(0).isAlmostEqualXYZ(1, 2, 3)).to.be.true;
+    expect(points!.getPoint3dAtUncheckedPointIndex(1).isAlmostEqualXYZ(11, 22, 33)).to.be.true;
+    expect(points!.getPoint3dAtUncheckedPointIndex(2).isAlmostEqualXYZ(11, 2, 33)).to.be.true;
+  });
+
+  it("should offset the points by the RTC center", () => {
+    const points = readPointCloudTilePoints(createPntsTile({ ...featureTable, RTC_CENTER: [100, 200, 300] }, qPoints)); // eslint-disable-line @typescript-eslint/naming-convention
+    expect(points).not.to.be.undefined;
+    expect(points!.getPoint3dAtUncheckedPointIndex(0).isAlmostEqualXYZ(101, 202, 303)).to.be.true;
+    expect(points!.getPoint3dAtUncheckedPointIndex(1).isAlmostEqualXYZ(111, 222, 333)).to.be.true;
+  });
+
+  it("should replace the contents of the result array", () => {
+    const result = new GrowableXYZArray();
+    result.pushXYZ(-1, -1, -1);
+    const points = readPointCloudTilePoints(createPntsTile(featureTable, qPoints), result);
+    expect(points).to.equal(result);
+    expect(result.length).to.equal(3);
+    expect(result.getPoint3dAtUncheckedPointIndex(0).isAlmostEqualXYZ(1, 2, 3)).to.be.true;
+  });
+
+  it("should return undefined for other tile formats", () => {
+    expect(readPointCloudTilePoints(createPntsTile(featureTable, qPoints, TileFormat.B3dm))).to.be.undefined;
+  });
+
+  it("should return undefined for Draco compressed points", () => {
+    const dracoFeatureTable = {
+      POINTS_LENGTH: 3, // eslint-disable-line @typescript-eslint/naming-convention
+      extensions: { "3DTILES_draco_point_compression": { byteOffset: 0, byteLength: 18, properties: { POSITION: 0 } } }, // eslint-disable-line @typescript-eslint/naming-convention
+    };
+    expect(readPointCloudTilePoints(createPntsTile(dracoFeatureTable, qPoints))).to.be.undefined;
+  });
+});
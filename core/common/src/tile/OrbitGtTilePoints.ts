@@ -0,0 +1,42 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module Tile
+ */
+
+import { GrowableXYZArray } from "@bentley/geometry-core";
+
+/** The point positions of one tile of an OrbitGT point cloud, as provided by the point data of the tiles read by `@bentley/orbitgt-core`.
+ * @beta
+ */
+export interface OrbitGtTilePointData {
+  /** The index of the tile within the point cloud. */
+  readonly tileIndex: {
+    /** The number of points in the tile. */
+    readonly pointCount: number;
+  };
+  /** Return the x coordinate of a point, in the coordinate system of the point cloud. */
+  getX(pointIndex: number): number;
+  /** Return the y coordinate of a point, in the coordinate system of the point cloud. */
+  getY(pointIndex: number): number;
+  /** Return the z coordinate of a point, in the coordinate system of the point cloud. */
+  getZ(pointIndex: number): number;
+}
+
+/** Return the point positions of a block of OrbitGT point cloud data, e.g. for analysis by [PointCloudOps]($geometry-core).
+ * @param data the points of one tile of the point cloud.
+ * @param result optional array to receive the points.
+ * @returns the points, in the coordinate system of the point cloud.
+ * @beta
+ */
+export function readOrbitGtTilePoints(data: OrbitGtTilePointData, result?: GrowableXYZArray): GrowableXYZArray {
+  const pointCount = data.tileIndex.pointCount;
+  result = result ?? new GrowableXYZArray(pointCount);
+  result.clear();
+  for (let i = 0; i < pointCount; i++)
+    result.pushXYZ(data.getX(i), data.getY(i), data.getZ(i));
+
+  return result;
+}
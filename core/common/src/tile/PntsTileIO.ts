@@ -6,7 +6,9 @@
  * @module Tile
  */
 
-import { ByteStream } from "@bentley/bentleyjs-core";
+import { assert, ByteStream, utf8ToString } from "@bentley/bentleyjs-core";
+import { GrowableXYZArray, Point3d, Vector3d } from "@bentley/geometry-core";
+import { QParams3d, Quantization } from "../QPoint";
 import { TileFormat, TileHeader } from "./TileIO";
 
 /** Header preceding tile content in [pnts](https://github.com/AnalyticalGraphicsInc/3d-tiles/tree/master/specification/TileFormats/PointCloud) format.
@@ -29,3 +31,92 @@ export class PntsHeader extends TileHeader {
     this.batchTableBinaryLength = stream.nextUint32;
   }
 }
+
+/** The quantized points and colors of a point cloud tile in [pnts](https://github.com/AnalyticalGraphicsInc/3d-tiles/tree/master/specification/TileFormats/PointCloud) format.
+ * @internal
+ */
+export interface PntsPoints {
+  qParams: QParams3d;
+  qPoints: Uint16Array;
+  colors?: Uint8Array;
+  pointsLength: number;
+}
+
+/** Read the quantized points and colors from the feature table of a point cloud tile.
+ * @internal
+ */
+export function readPntsPoints(stream: ByteStream): PntsPoints | undefined {
+  const header = new PntsHeader(stream);
+
+  if (!header.isValid)
+    return undefined;
+
+  const featureTableJsonOffset = stream.curPos;
+  const featureStrData = stream.nextBytes(header.featureTableJsonLength);
+  const featureStr = utf8ToString(featureStrData);
+  const featureValue = JSON.parse(featureStr as string);
+
+  if (undefined === featureValue)
+    return undefined;
+
+  let qParams, qPoints;
+  let colors: Uint8Array | undefined;
+  const dracoPointExtension = featureValue.extensions ? featureValue.extensions["3DTILES_draco_point_compression"] : undefined;
+  const dataOffset = featureTableJsonOffset + header.featureTableJsonLength;
+  if (dracoPointExtension && dracoPointExtension.byteLength !== undefined && dracoPointExtension.byteOffset !== undefined && dracoPointExtension.properties?.POSITION !== undefined) {
+    return undefined; // Defer Draco decompression until web workers implementation.
+    /*
+    const bufferData = new Uint8Array(stream.arrayBuffer, dataOffset + dracoPointExtension.byteOffset, dracoPointExtension.byteLength);
+    const decoded = DracoDecoder.readDracoPointCloud(bufferData, dracoPointExtension.properties?.POSITION, dracoPointExtension.properties?.RGB);
+    if (decoded) {
+      qPoints = decoded.qPoints;
+      qParams = decoded.qParams;
+      colors = decoded.colors; */
+  } else {
+    if (undefined === featureValue.POSITION_QUANTIZED ||
+      undefined === featureValue.QUANTIZED_VOLUME_OFFSET ||
+      undefined === featureValue.QUANTIZED_VOLUME_SCALE ||
+      undefined === featureValue.POINTS_LENGTH ||
+      undefined === featureValue.POSITION_QUANTIZED) {
+      assert(false, "quantized point cloud points not found");
+      return undefined;
+    }
+
+    const qOrigin = new Point3d(featureValue.QUANTIZED_VOLUME_OFFSET[0], featureValue.QUANTIZED_VOLUME_OFFSET[1], featureValue.QUANTIZED_VOLUME_OFFSET[2]);
+    const qScale = new Point3d(Quantization.computeScale(featureValue.QUANTIZED_VOLUME_SCALE[0]), Quantization.computeScale(featureValue.QUANTIZED_VOLUME_SCALE[1]), Quantization.computeScale(featureValue.QUANTIZED_VOLUME_SCALE[2]));
+    qParams = QParams3d.fromOriginAndScale(qOrigin, qScale);
+    qPoints = new Uint16Array(stream.arrayBuffer, dataOffset + featureValue.POSITION_QUANTIZED.byteOffset, 3 * featureValue.POINTS_LENGTH);
+    if (undefined !== featureValue.RGB)
+      colors = new Uint8Array(stream.arrayBuffer, dataOffset + featureValue.RGB.byteOffset, 3 * featureValue.POINTS_LENGTH);
+  }
+  if (!qPoints || !qParams)
+    return undefined;
+
+  if (featureValue.RTC_CENTER)
+    qParams = QParams3d.fromOriginAndScale(qParams.origin.plus(Vector3d.fromJSON(featureValue.RTC_CENTER)), qParams.scale);
+
+  return { qParams, qPoints, colors, pointsLength: featureValue.POINTS_LENGTH };
+}
+
+/** Deserialize the point positions of a point cloud (PNTS) tile, e.g. for analysis by [PointCloudOps]($geometry-core).
+ * @param stream the tile content, positioned at the start of the tile header.
+ * @param result optional array to receive the points.
+ * @returns the points, in the coordinate system of the tile, or undefined if the tile could not be read.
+ * @beta
+ */
+export function readPointCloudTilePoints(stream: ByteStream, result?: GrowableXYZArray): GrowableXYZArray | undefined {
+  const points = readPntsPoints(stream);
+  if (undefined === points)
+    return undefined;
+
+  result = result ?? new GrowableXYZArray(points.pointsLength);
+  result.clear();
+  const { origin, scale } = points.qParams;
+  const qPoints = points.qPoints;
+  for (let i = 0; i < 3 * points.pointsLength; i += 3) {
+    result.pushXYZ(Quantization.unquantize(qPoints[i], origin.x, scale.x),
+      Quantization.unquantize(qPoints[i + 1], origin.y, scale.y),
+      Quantization.unquantize(qPoints[i + 2], origin.z, scale.z));
+  }
+  return result;
+}
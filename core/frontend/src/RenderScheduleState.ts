@@ -61,7 +61,7 @@ export namespace RenderScheduleState {
   }
 
   export class ColorEntry extends TimelineEntry implements RenderSchedule.ColorEntryProps {
-    public value: { red: number, green: number, blue: number };
+    public value?: { red: number, green: number, blue: number };
     constructor(props: RenderSchedule.ColorEntryProps) {
       super(props);
       this.value = props.value;
@@ -194,9 +194,9 @@ export namespace RenderScheduleState {
     public getColorOverride(time: number, interval: Interval): RgbColor | undefined {
       let colorOverride;
       if (undefined !== this.colorTimeline && Timeline.findTimelineInterval(interval, time, this.colorTimeline) && !isNullOrUndefined(this.colorTimeline[interval.index0].value)) {
-        const entry0 = this.colorTimeline[interval.index0].value;
+        const entry0 = this.colorTimeline[interval.index0].value!;
         if (interval.fraction > 0 && !isNullOrUndefined(this.colorTimeline[interval.index1].value)) {
-          const entry1 = this.colorTimeline[interval.index1].value;
+          const entry1 = this.colorTimeline[interval.index1].value!;
           colorOverride = new RgbColor(interpolate(entry0.red, entry1.red, interval.fraction), interpolate(entry0.green, entry1.green, interval.fraction), interpolate(entry0.blue, entry1.blue, interval.fraction));
         } else
           colorOverride = new RgbColor(entry0.red, entry0.green, entry0.blue);
@@ -6,9 +6,8 @@
  * @module Tiles
  */
 
-import { assert, ByteStream, Id64String, utf8ToString } from "@bentley/bentleyjs-core";
-import { Point3d, Vector3d } from "@bentley/geometry-core";
-import { BatchType, ElementAlignedBox3d, Feature, FeatureTable, PackedFeatureTable, PntsHeader, QParams3d, Quantization } from "@bentley/imodeljs-common";
+import { ByteStream, Id64String } from "@bentley/bentleyjs-core";
+import { BatchType, ElementAlignedBox3d, Feature, FeatureTable, PackedFeatureTable, readPntsPoints } from "@bentley/imodeljs-common";
 import { IModelConnection } from "../IModelConnection";
 import { Mesh } from "../render/primitives/mesh/MeshPrimitives";
 import { PointCloudArgs } from "../render/primitives/PointCloudPrimitive";
@@ -19,57 +18,14 @@ import { RenderSystem } from "../render/RenderSystem";
  * @internal
  */
 export function readPointCloudTileContent(stream: ByteStream, iModel: IModelConnection, modelId: Id64String, _is3d: boolean, range: ElementAlignedBox3d, system: RenderSystem): RenderGraphic | undefined {
-  const header = new PntsHeader(stream);
-
-  if (!header.isValid)
+  const points = readPntsPoints(stream);
+  if (undefined === points)
     return undefined;
 
-  const featureTableJsonOffset = stream.curPos;
-  const featureStrData = stream.nextBytes(header.featureTableJsonLength);
-  const featureStr = utf8ToString(featureStrData);
-  const featureValue = JSON.parse(featureStr as string);
-
-  if (undefined === featureValue)
-    return undefined;
-
-  let qParams, qPoints;
-  let colors: Uint8Array | undefined;
-  const dracoPointExtension = featureValue.extensions ? featureValue.extensions["3DTILES_draco_point_compression"] : undefined;
-  const dataOffset = featureTableJsonOffset + header.featureTableJsonLength;
-  if (dracoPointExtension && dracoPointExtension.byteLength !== undefined && dracoPointExtension.byteOffset !== undefined && dracoPointExtension.properties?.POSITION !== undefined) {
-    return undefined; // Defer Draco decompression until web workers implementation.
-    /*
-    const bufferData = new Uint8Array(stream.arrayBuffer, dataOffset + dracoPointExtension.byteOffset, dracoPointExtension.byteLength);
-    const decoded = DracoDecoder.readDracoPointCloud(bufferData, dracoPointExtension.properties?.POSITION, dracoPointExtension.properties?.RGB);
-    if (decoded) {
-      qPoints = decoded.qPoints;
-      qParams = decoded.qParams;
-      colors = decoded.colors; */
-  } else {
-    if (undefined === featureValue.POSITION_QUANTIZED ||
-      undefined === featureValue.QUANTIZED_VOLUME_OFFSET ||
-      undefined === featureValue.QUANTIZED_VOLUME_SCALE ||
-      undefined === featureValue.POINTS_LENGTH ||
-      undefined === featureValue.POSITION_QUANTIZED) {
-      assert(false, "quantized point cloud points not found");
-      return undefined;
-    }
-
-    const qOrigin = new Point3d(featureValue.QUANTIZED_VOLUME_OFFSET[0], featureValue.QUANTIZED_VOLUME_OFFSET[1], featureValue.QUANTIZED_VOLUME_OFFSET[2]);
-    const qScale = new Point3d(Quantization.computeScale(featureValue.QUANTIZED_VOLUME_SCALE[0]), Quantization.computeScale(featureValue.QUANTIZED_VOLUME_SCALE[1]), Quantization.computeScale(featureValue.QUANTIZED_VOLUME_SCALE[2]));
-    qParams = QParams3d.fromOriginAndScale(qOrigin, qScale);
-    qPoints = new Uint16Array(stream.arrayBuffer, dataOffset + featureValue.POSITION_QUANTIZED.byteOffset, 3 * featureValue.POINTS_LENGTH);
-    if (undefined !== featureValue.RGB)
-      colors = new Uint8Array(stream.arrayBuffer, dataOffset + featureValue.RGB.byteOffset, 3 * featureValue.POINTS_LENGTH);
-  }
-  if (!qPoints || !qParams)
-    return undefined;
-
-  if (featureValue.RTC_CENTER)
-    qParams = QParams3d.fromOriginAndScale(qParams.origin.plus(Vector3d.fromJSON(featureValue.RTC_CENTER)), qParams.scale);
-
+  const { qParams, qPoints } = points;
+  let colors = points.colors;
   if (undefined === colors) {
-    colors = new Uint8Array(3 * featureValue.POINTS_LENGTH);
+    colors = new Uint8Array(3 * points.pointsLength);
     colors.fill(0xff, 0, colors.length);    // TBD... Default color?
   }
 
@@ -446,6 +446,58 @@ export class BSplineCurve3d extends BSplineCurve3dBase {
     curve1.tryTransformInPlace(transform);
     return curve1;
   }
+  /**
+   * Return a curve for the interval from fractionA to fractionB.
+   * * The returned curve has the same knot values in the interval, with full multiplicity at all interior knots.
+   * * Fractions outside [0,1] extend the first or last span.
+   * * If fractionA is greater than fractionB, the returned curve is reversed.
+   */
+  public clonePartialCurve(fractionA: number, fractionB: number): BSplineCurve3d | undefined {
+    if (fractionB < fractionA) {
+      const curve1 = this.clonePartialCurve(fractionB, fractionA);
+      if (curve1)
+        curve1.reverseInPlace();
+      return curve1;
+    }
+    const knots = this._bcurve.knots;
+    const knotA = knots.fractionToKnot(fractionA);
+    const knotB = knots.fractionToKnot(fractionB);
+    if (Geometry.isAlmostEqualNumber(knotA, knotB))
+      return undefined;
+    const degree = this.degree;
+    const poles: Point3d[] = [];
+    const newKnots: number[] = [];
+    for (let i = 0; i < degree; i++) newKnots.push(knotA);
+    let firstRealSpan = -1;
+    let lastRealSpan = -1;
+    for (let spanIndex = 0; spanIndex < this.numSpan; spanIndex++) {
+      if (knots.isIndexOfRealSpan(spanIndex)) {
+        if (firstRealSpan < 0)
+          firstRealSpan = spanIndex;
+        lastRealSpan = spanIndex;
+      }
+    }
+    for (let spanIndex = firstRealSpan; spanIndex >= 0 && spanIndex <= lastRealSpan; spanIndex++) {
+      if (!knots.isIndexOfRealSpan(spanIndex))
+        continue;
+      const knot0 = knots.spanFractionToKnot(spanIndex, 0.0);
+      const knot1 = knots.spanFractionToKnot(spanIndex, 1.0);
+      const partialKnot0 = spanIndex === firstRealSpan ? knotA : Math.max(knotA, knot0);
+      const partialKnot1 = spanIndex === lastRealSpan ? knotB : Math.min(knotB, knot1);
+      if (partialKnot1 <= partialKnot0)
+        continue;
+      const bezier = this.getSaturatedBezierSpan3d(spanIndex) as BezierCurve3d;
+      const partialBezier = bezier.clonePartialCurve((partialKnot0 - knot0) / (knot1 - knot0), (partialKnot1 - knot0) / (knot1 - knot0));
+      if (partialBezier === undefined)
+        return undefined;
+      if (poles.length > 0)
+        for (let i = 0; i < degree; i++) newKnots.push(partialKnot0);
+      for (let i = poles.length === 0 ? 0 : 1; i <= degree; i++)
+        poles.push(partialBezier.getPolePoint3d(i)!);
+    }
+    for (let i = 0; i < degree; i++) newKnots.push(knotB);
+    return BSplineCurve3d.create(poles, newKnots, this.order);
+  }
   /** Evaluate at a position given by fractional position within a span. */
   public evaluatePointInSpan(spanIndex: number, spanFraction: number): Point3d {
     this._bcurve.evaluateBuffersInSpan(spanIndex, spanFraction);
@@ -12,8 +12,10 @@ import { BSplineCurve3dH } from "../bspline/BSplineCurve3dH";
 import { Geometry } from "../Geometry";
 import { NullGeometryHandler } from "../geometry3d/GeometryHandler";
 import { GrowableFloat64Array } from "../geometry3d/GrowableFloat64Array";
+import { Plane3dByOriginAndVectors } from "../geometry3d/Plane3dByOriginAndVectors";
 import { Point3d, Vector3d } from "../geometry3d/Point3dVector3d";
 import { Range3d } from "../geometry3d/Range";
+import { Newton2dUnboundedWithDerivative, NewtonEvaluatorRRtoRRD, SimpleNewton } from "../numerics/Newton";
 import { AnalyticRoots, SmallSystem } from "../numerics/Polynomials";
 import { Arc3d } from "./Arc3d";
 import { CurveIntervalRole, CurveLocationDetail, CurveLocationDetailPair } from "./CurveLocationDetail";
@@ -21,6 +23,7 @@ import { CurvePrimitive } from "./CurvePrimitive";
 import { GeometryQuery } from "./GeometryQuery";
 import { LineSegment3d } from "./LineSegment3d";
 import { LineString3d } from "./LineString3d";
+import { TransitionSpiral3d } from "./spiral/TransitionSpiral3d";
 
 // cspell:word XYRR
 /**
@@ -46,6 +49,42 @@ function classifyBitsPointRangeXY(x: number, y: number, range: Range3d): number
   return result;
 }
 
+/**
+ * * Private class for refining close approaches of curve primitives with continuous derivatives (e.g. spirals).
+ * * The target condition is that the xy vector between the two curve points is perpendicular to both xy tangents.
+ * @internal
+ */
+export class CurveCurveCloseApproachXYRRToRRD extends NewtonEvaluatorRRtoRRD {
+  private _curveA: CurvePrimitive;
+  private _curveB: CurvePrimitive;
+  private _planeA: Plane3dByOriginAndVectors;
+  private _planeB: Plane3dByOriginAndVectors;
+  constructor(curveA: CurvePrimitive, curveB: CurvePrimitive) {
+    super();
+    this._curveA = curveA;
+    this._curveB = curveB;
+    this._planeA = Plane3dByOriginAndVectors.createXYPlane();
+    this._planeB = Plane3dByOriginAndVectors.createXYPlane();
+  }
+  public evaluate(fractionA: number, fractionB: number): boolean {
+    const planeA = this._curveA.fractionToPointAnd2Derivatives(fractionA, this._planeA);
+    const planeB = this._curveB.fractionToPointAnd2Derivatives(fractionB, this._planeB);
+    if (!planeA || !planeB)
+      return false;
+    // F = [(B-A).A', (B-A).B'] with xy parts only.
+    const dx = planeB.origin.x - planeA.origin.x;
+    const dy = planeB.origin.y - planeA.origin.y;
+    const tangentA = planeA.vectorU;
+    const tangentB = planeB.vectorU;
+    const dotAB = tangentA.x * tangentB.x + tangentA.y * tangentB.y;
+    this.currentF.setOriginAndVectorsXYZ(
+      dx * tangentA.x + dy * tangentA.y, dx * tangentB.x + dy * tangentB.y, 0.0,
+      dx * planeA.vectorV.x + dy * planeA.vectorV.y - tangentA.magnitudeSquaredXY(), -dotAB, 0.0,
+      dotAB, dx * planeB.vectorV.x + dy * planeB.vectorV.y + tangentB.magnitudeSquaredXY(), 0.0);
+    return true;
+  }
+}
+
 /**
  * * Instances are initialized and called from CurveCurve.
  * * Constructor is told two geometry items A and B
@@ -234,15 +273,15 @@ export class CurveCurveCloseApproachXY extends NullGeometryHandler {
           return;
       }
     }
+    pair.detailA.setCurve(cpA);
+    pair.detailA.fraction = globalFractionA;
+    pair.detailB.setCurve(cpB);
+    pair.detailB.fraction = globalFractionB;
     pair.detailA.setIntervalRole(CurveIntervalRole.isolated);
     pair.detailB.setIntervalRole(CurveIntervalRole.isolated);
-
-    if (reversed) {
-      this._results.push(pair);
-    } else {
+    if (reversed)
       pair.swapDetails();
-      this._results.push(pair);
-    }
+    this._results.push(pair);
   }
 
   /**
@@ -287,7 +326,8 @@ export class CurveCurveCloseApproachXY extends NullGeometryHandler {
    * @param minDistanceSquared
    * @param closestApproach
    */
-  private static updatePointToSegmentDistance(fractionA: number, pointA: Point3d, pointB0: Point3d, pointB1: Point3d, fractionB: number, minDistanceSquared: number, closestApproach?: CurveLocationDetailPair): CurveLocationDetailPair | undefined {
+  private static updatePointToSegmentDistance(fractionA: number, pointA: Point3d, pointB0: Point3d, pointB1: Point3d, fractionB: number, minDistanceSquared: number, closestApproach?: CurveLocationDetailPair,
+    reversed: boolean = false): CurveLocationDetailPair | undefined {
     if (fractionB < 0)
       fractionB = 0;
     else if (fractionB > 1)
@@ -298,10 +338,13 @@ export class CurveCurveCloseApproachXY extends NullGeometryHandler {
       if (closestApproach === undefined || distanceSquared < closestApproach.detailA.a) {
         if (closestApproach === undefined)
           closestApproach = CurveLocationDetailPair.createCapture(CurveLocationDetail.create(), CurveLocationDetail.create());
-        closestApproach.detailA.setFP(fractionA, pointA);
-        closestApproach.detailA.a = distanceSquared;
-        closestApproach.detailB.setFP(fractionB, this._workPointB0);
+        // detailA is on the first segment of the caller, i.e. segment B when reversed.
+        const detailA = reversed ? closestApproach.detailB : closestApproach.detailA;
+        const detailB = reversed ? closestApproach.detailA : closestApproach.detailB;
+        detailA.setFP(fractionA, pointA);
+        detailB.setFP(fractionB, this._workPointB0);
         closestApproach.detailA.a = distanceSquared;
+        closestApproach.detailB.a = distanceSquared;
       }
     }
     return closestApproach;
@@ -348,9 +391,9 @@ export class CurveCurveCloseApproachXY extends NullGeometryHandler {
     let closestApproach: CurveLocationDetailPair | undefined;
     const uu = Geometry.hypotenuseSquaredXY(ux, uy);
     if (hab0 * hab0 < minDistanceSquared * uu)
-      closestApproach = this.updatePointToSegmentDistance(0, b0, a0, a1, Geometry.dotProductXYXY(ux, uy, e00x, e00y) / uu, minDistanceSquared, closestApproach);
+      closestApproach = this.updatePointToSegmentDistance(0, b0, a0, a1, Geometry.dotProductXYXY(ux, uy, e00x, e00y) / uu, minDistanceSquared, closestApproach, true);
     if (hab1 * hab1 < minDistanceSquared * uu)
-      closestApproach = this.updatePointToSegmentDistance(1, b1, a0, a1, Geometry.dotProductXYXY(ux, uy, e01x, e01y) / uu, minDistanceSquared, closestApproach);
+      closestApproach = this.updatePointToSegmentDistance(1, b1, a0, a1, Geometry.dotProductXYXY(ux, uy, e01x, e01y) / uu, minDistanceSquared, closestApproach, true);
 
     const vv = Geometry.hypotenuseSquaredXY(vx, vy);
     if (hba0 * hba0 < minDistanceSquared * vv)
@@ -462,7 +505,7 @@ export class CurveCurveCloseApproachXY extends NullGeometryHandler {
     // 1) endpoint to endpoint or projection
     // 2) true intersection
     // 3) line parallel to arc tangent.
-    this.testAndRecordFractionalPairApproach(cpA, 0, 1, true, arc, 0, 1, false, reversed);
+    this.testAndRecordFractionalPairApproach(cpA, fractionA0, fractionA1, true, arc, 0, 1, true, reversed);
     // Arc: X = C + cU + sV
     // Line:  contains points A0,A1
     // Arc point colinear with line if det (A0, A1, X) = 0
@@ -500,7 +543,8 @@ export class CurveCurveCloseApproachXY extends NullGeometryHandler {
       const arcPoint = data.center.plus2Scaled(data.vector0, Math.cos(radians1), data.vector90, Math.sin(radians1));
       const arcFraction = data.sweep.radiansToSignedPeriodicFraction(radians1);
       const lineFraction = SmallSystem.lineSegment3dXYClosestPointUnbounded(pointA0Local, pointA1Local, arcPoint);
-      if (lineFraction !== undefined && this.acceptFraction(lineFraction) && this.acceptFraction(arcFraction)) {
+      if (lineFraction !== undefined && this.acceptFraction(lineFraction) && this.acceptFraction(arcFraction)
+        && arcPoint.distanceSquaredXY(pointA0Local.interpolate(lineFraction, pointA1Local)) < this._maxDistanceSquared) {
         this.recordPointWithLocalFractions(lineFraction, cpA, fractionA0, fractionA1,
           arcFraction, arc, 0, 1, reversed);
       }
@@ -613,6 +657,89 @@ export class CurveCurveCloseApproachXY extends NullGeometryHandler {
 
   }
 
+  /** Stroke a spiral at uniform fraction steps, so that fractions on the strokes are also fractions on the spiral. */
+  private static strokeSpiralAtUniformFractions(spiral: TransitionSpiral3d): LineString3d {
+    const numStroke = Math.max(8, spiral.computeStrokeCountForOptions(), spiral.activeStrokes.numPoints() - 1);
+    const strokes = LineString3d.create();
+    for (let i = 0; i <= numStroke; i++)
+      strokes.addPoint(spiral.fractionToPoint(i / numStroke));
+    return strokes;
+  }
+  /** Return the fraction of the xy projection of a point onto a curve, by newton iteration from a start fraction.
+   * * Return the start fraction if the iteration fails or leaves the curve.
+   */
+  private static refinePointProjectionXY(point: Point3d, curve: CurvePrimitive, startFraction: number): number {
+    const plane = Plane3dByOriginAndVectors.createXYPlane();
+    let d = 0.0;
+    const fraction = SimpleNewton.runNewton1D(startFraction,
+      (f: number) => {
+        if (!curve.fractionToPointAnd2Derivatives(f, plane))
+          return undefined;
+        // (C-P).C' and save its derivative C'.C' + (C-P).C''
+        const dx = plane.origin.x - point.x;
+        const dy = plane.origin.y - point.y;
+        d = plane.vectorU.magnitudeSquaredXY() + dx * plane.vectorV.x + dy * plane.vectorV.y;
+        return dx * plane.vectorU.x + dy * plane.vectorU.y;
+      },
+      (_f: number) => d);
+    return fraction !== undefined && Geometry.isIn01(fraction) ? fraction : startFraction;
+  }
+  // Caller accesses data from a spiral and any other curve primitive (possibly another spiral).
+  // Candidate approaches are computed with strokes of the spirals, then refined by newton iteration on the true curves:
+  // * approaches at an end of either curve move only on the other curve.
+  // * interior approaches move on both curves.
+  private dispatchTransitionSpiralCurvePrimitive(
+    spiral: TransitionSpiral3d,
+    curveB: CurvePrimitive,
+    reversed: boolean) {
+    const strokesA = CurveCurveCloseApproachXY.strokeSpiralAtUniformFractions(spiral);
+    // A segment is passed as a linestring to use the linestring-linestring search.
+    let strokesB: CurvePrimitive = curveB;
+    if (curveB instanceof TransitionSpiral3d)
+      strokesB = CurveCurveCloseApproachXY.strokeSpiralAtUniformFractions(curveB);
+    else if (curveB instanceof LineSegment3d)
+      strokesB = LineString3d.create(curveB.point0Ref, curveB.point1Ref);
+    const strokeHandler = new CurveCurveCloseApproachXY(strokesA, strokesB);
+    strokeHandler.maxDistanceToAccept = this._maxDistanceToAccept;
+    strokesA.dispatchToGeometryHandler(strokeHandler);
+    const newtonSearcher = new Newton2dUnboundedWithDerivative(new CurveCurveCloseApproachXYRRToRRD(spiral, curveB));
+    const acceptedFractions: number[][] = [];
+    for (const pair of strokeHandler.grabPairedResults()) {
+      if (pair.detailA.curve !== strokesA)
+        pair.swapDetails();
+      const strokeFractionA = pair.detailA.fraction;
+      const strokeFractionB = pair.detailB.fraction;
+      let fractionA = strokeFractionA;
+      let fractionB = strokeFractionB;
+      const isEndA = strokeFractionA === 0.0 || strokeFractionA === 1.0;
+      const isEndB = strokeFractionB === 0.0 || strokeFractionB === 1.0;
+      if (isEndA && !isEndB) {
+        fractionB = CurveCurveCloseApproachXY.refinePointProjectionXY(spiral.fractionToPoint(fractionA), curveB, fractionB);
+      } else if (isEndB && !isEndA) {
+        fractionA = CurveCurveCloseApproachXY.refinePointProjectionXY(curveB.fractionToPoint(fractionB), spiral, fractionA);
+      } else if (!isEndA && !isEndB) {
+        newtonSearcher.setUV(fractionA, fractionB);
+        if (newtonSearcher.runIterations() && this.acceptFraction(newtonSearcher.getU()) && this.acceptFraction(newtonSearcher.getV())) {
+          fractionA = Geometry.clamp(newtonSearcher.getU(), 0, 1);
+          fractionB = Geometry.clamp(newtonSearcher.getV(), 0, 1);
+        }
+      }
+      let pointA = spiral.fractionToPoint(fractionA);
+      let pointB = curveB.fractionToPoint(fractionB);
+      // The iteration may converge to a different stationary point.  Keep the stroke result if that is closer.
+      const strokePointA = spiral.fractionToPoint(strokeFractionA);
+      const strokePointB = curveB.fractionToPoint(strokeFractionB);
+      if (strokePointA.distanceXY(strokePointB) < pointA.distanceXY(pointB) - Geometry.smallMetricDistance) {
+        fractionA = strokeFractionA; pointA = strokePointA;
+        fractionB = strokeFractionB; pointB = strokePointB;
+      }
+      if (acceptedFractions.some((fractions) => Geometry.isAlmostEqualNumber(fractions[0], fractionA) && Geometry.isAlmostEqualNumber(fractions[1], fractionB)))
+        continue;
+      acceptedFractions.push([fractionA, fractionB]);
+      this.testAndRecordPointPairApproach(spiral, fractionA, pointA, curveB, fractionB, pointB, reversed);
+    }
+  }
+
   private static _workPointAA0 = Point3d.create();
   private static _workPointAA1 = Point3d.create();
   private static _workPointBB0 = Point3d.create();
@@ -716,6 +843,8 @@ export class CurveCurveCloseApproachXY extends NullGeometryHandler {
         this._geometryB, false);
     } else if (this._geometryB instanceof BSplineCurve3d) {
       this.dispatchSegmentBsplineCurve(segmentA, this._geometryB, false);
+    } else if (this._geometryB instanceof TransitionSpiral3d) {
+      this.dispatchTransitionSpiralCurvePrimitive(this._geometryB, segmentA, true);
     }
   }
   private computeLineStringLineString(lsA: LineString3d, lsB: LineString3d, reversed: boolean) {
@@ -780,6 +909,8 @@ export class CurveCurveCloseApproachXY extends NullGeometryHandler {
       this.computeArcLineString(this._geometryB, lsA, true);
     } else if (this._geometryB instanceof BSplineCurve3d) {
       this.dispatchLineStringBSplineCurve(lsA, this._geometryB, false);
+    } else if (this._geometryB instanceof TransitionSpiral3d) {
+      this.dispatchTransitionSpiralCurvePrimitive(this._geometryB, lsA, true);
     }
     return undefined;
   }
@@ -795,6 +926,8 @@ export class CurveCurveCloseApproachXY extends NullGeometryHandler {
       this.dispatchArcArc(arc0, this._geometryB, false);
     } else if (this._geometryB instanceof BSplineCurve3d) {
       this.dispatchArcBsplineCurve3d(arc0, this._geometryB, false);
+    } else if (this._geometryB instanceof TransitionSpiral3d) {
+      this.dispatchTransitionSpiralCurvePrimitive(this._geometryB, arc0, true);
     }
     return undefined;
   }
@@ -808,6 +941,15 @@ export class CurveCurveCloseApproachXY extends NullGeometryHandler {
       this.dispatchArcBsplineCurve3d(this._geometryB, curve, true);
     } else if (this._geometryB instanceof BSplineCurve3dBase) {
       this.dispatchBSplineCurve3dBSplineCurve3d(curve, this._geometryB, false);
+    } else if (this._geometryB instanceof TransitionSpiral3d) {
+      this.dispatchTransitionSpiralCurvePrimitive(this._geometryB, curve, true);
+    }
+    return undefined;
+  }
+  /** double dispatch handler for strongly typed spiral curve .. */
+  public handleTransitionSpiral(spiral: TransitionSpiral3d): any {
+    if (this._geometryB instanceof CurvePrimitive) {
+      this.dispatchTransitionSpiralCurvePrimitive(spiral, this._geometryB, false);
     }
     return undefined;
   }
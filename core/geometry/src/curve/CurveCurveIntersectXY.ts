@@ -35,6 +35,7 @@ import { CurvePrimitive } from "./CurvePrimitive";
 import { GeometryQuery } from "./GeometryQuery";
 import { LineSegment3d } from "./LineSegment3d";
 import { LineString3d } from "./LineString3d";
+import { TransitionSpiral3d } from "./spiral/TransitionSpiral3d";
 
 // cspell:word XYRR
 
@@ -66,6 +67,65 @@ export class BezierBezierIntersectionXYRRToRRD extends NewtonEvaluatorRRtoRRD {
     return true;
   }
 }
+/**
+ * * Private class for refining intersections of curve primitives with continuous derivatives (e.g. spirals).
+ * * Curves are evaluated in world coordinates and (optionally) mapped by an affine or perspective worldToLocal matrix.
+ * * The target condition is to match x and y coordinates after the mapping (and, for perspective, division by weight).
+ * @internal
+ */
+export class CurveCurveIntersectionXYRRToRRD extends NewtonEvaluatorRRtoRRD {
+  private _curveA: CurvePrimitive;
+  private _curveB: CurvePrimitive;
+  private _worldToLocal: Transform | Matrix4d | undefined;
+  private _rayA: Ray3d;
+  private _rayB: Ray3d;
+  private _pointH: Point4d;
+  private _derivativeH: Point4d;
+  constructor(curveA: CurvePrimitive, curveB: CurvePrimitive, worldToLocal?: Transform | Matrix4d) {
+    super();
+    this._curveA = curveA;
+    this._curveB = curveB;
+    this._worldToLocal = worldToLocal;
+    this._rayA = Ray3d.createZero();
+    this._rayB = Ray3d.createZero();
+    this._pointH = Point4d.createZero();
+    this._derivativeH = Point4d.createZero();
+  }
+  /**
+   * Map a point and derivative by a perspective matrix and normalize.
+   * * The derivative of x/w is (dx - (x/w) dw) / w.
+   * * Returns false if the point maps to weight zero.
+   */
+  private projectRay(ray: Ray3d, worldToLocal: Matrix4d): boolean {
+    const pointH = worldToLocal.multiplyXYZW(ray.origin.x, ray.origin.y, ray.origin.z, 1.0, this._pointH);
+    const derivativeH = worldToLocal.multiplyXYZW(ray.direction.x, ray.direction.y, ray.direction.z, 0.0, this._derivativeH);
+    const divW = Geometry.conditionalDivideFraction(1.0, pointH.w);
+    if (undefined === divW)
+      return false;
+    ray.origin.set(pointH.x * divW, pointH.y * divW, pointH.z * divW);
+    ray.direction.set(
+      (derivativeH.x - ray.origin.x * derivativeH.w) * divW,
+      (derivativeH.y - ray.origin.y * derivativeH.w) * divW,
+      (derivativeH.z - ray.origin.z * derivativeH.w) * divW);
+    return true;
+  }
+  public evaluate(fractionA: number, fractionB: number): boolean {
+    this._curveA.fractionToPointAndDerivative(fractionA, this._rayA);
+    this._curveB.fractionToPointAndDerivative(fractionB, this._rayB);
+    if (this._worldToLocal instanceof Matrix4d) {
+      if (!this.projectRay(this._rayA, this._worldToLocal) || !this.projectRay(this._rayB, this._worldToLocal))
+        return false;
+    } else if (this._worldToLocal) {
+      this._rayA.transformInPlace(this._worldToLocal);
+      this._rayB.transformInPlace(this._worldToLocal);
+    }
+    this.currentF.setOriginAndVectorsXYZ(
+      this._rayB.origin.x - this._rayA.origin.x, this._rayB.origin.y - this._rayA.origin.y, 0.0,
+      -this._rayA.direction.x, -this._rayA.direction.y, 0.0,
+      this._rayB.direction.x, this._rayB.direction.y, 0.0);
+    return true;
+  }
+}
 /**
  * Data bundle for a pair of arrays of CurveLocationDetail structures such as produced by CurveCurve,IntersectXY and
  * CurveCurve.ClosestApproach
@@ -717,9 +777,9 @@ export class CurveCurveIntersectXY extends NullGeometryHandler {
           const strokeCountA = bezierSpanA[a].computeStrokeCountForOptions();
           const strokeCountB = bezierSpanB[b].computeStrokeCountForOptions();
           if (strokeCountA < strokeCountB)
-            this.dispatchBezierBezierStrokeFirst(bezierSpanA[a], bcurveA, strokeCountA, bezierSpanB[b], bcurveB, strokeCountB, univariateCoffsB, !_reversed);
+            this.dispatchBezierBezierStrokeFirst(bezierSpanA[a], bcurveA, strokeCountA, bezierSpanB[b], bcurveB, strokeCountB, univariateCoffsB, _reversed);
           else
-            this.dispatchBezierBezierStrokeFirst(bezierSpanB[b], bcurveB, strokeCountB, bezierSpanA[a], bcurveA, strokeCountA, univariateCoffsA, _reversed);
+            this.dispatchBezierBezierStrokeFirst(bezierSpanB[b], bcurveB, strokeCountB, bezierSpanA[a], bcurveA, strokeCountA, univariateCoffsA, !_reversed);
         }
       }
     }
@@ -787,6 +847,47 @@ export class CurveCurveIntersectXY extends NullGeometryHandler {
     }
   }
 
+  /** Stroke a spiral at uniform fraction steps, so that fractions on the strokes are also fractions on the spiral. */
+  private static strokeSpiralAtUniformFractions(spiral: TransitionSpiral3d): LineString3d {
+    const numStroke = Math.max(8, spiral.computeStrokeCountForOptions(), spiral.activeStrokes.numPoints() - 1);
+    const strokes = LineString3d.create();
+    for (let i = 0; i <= numStroke; i++)
+      strokes.addPoint(spiral.fractionToPoint(i / numStroke));
+    return strokes;
+  }
+  // Caller accesses data from a spiral and any other curve primitive (possibly another spiral).
+  // Candidate intersections are computed with strokes of the spirals, then refined by newton iteration on the true curves.
+  // The spiral is never extended.
+  private dispatchTransitionSpiralCurvePrimitive(
+    spiral: TransitionSpiral3d,
+    curveB: CurvePrimitive,
+    extendB: boolean,
+    reversed: boolean) {
+    const strokesA = CurveCurveIntersectXY.strokeSpiralAtUniformFractions(spiral);
+    const strokesB = curveB instanceof TransitionSpiral3d ? CurveCurveIntersectXY.strokeSpiralAtUniformFractions(curveB) : curveB;
+    const worldToLocal = this._worldToLocalPerspective ?? (this._worldToLocalAffine ? Matrix4d.createTransform(this._worldToLocalAffine) : undefined);
+    const strokeHandler = new CurveCurveIntersectXY(worldToLocal, strokesA, false, strokesB, extendB);
+    strokesA.dispatchToGeometryHandler(strokeHandler);
+    const newtonSearcher = new Newton2dUnboundedWithDerivative(new CurveCurveIntersectionXYRRToRRD(spiral, curveB, this._worldToLocalPerspective ?? this._worldToLocalAffine));
+    for (const pair of strokeHandler.grabPairedResults()) {
+      if (pair.detailA.hasFraction1 && pair.detailB.hasFraction1) {
+        // coincident interval -- the stroke fractions are spiral fractions
+        this.recordPointWithLocalFractions(pair.detailA.fraction, spiral, 0, 1, pair.detailB.fraction, curveB, 0, 1, reversed, pair);
+        continue;
+      }
+      let fractionA = pair.detailA.fraction;
+      let fractionB = pair.detailB.fraction;
+      newtonSearcher.setUV(fractionA, fractionB);
+      if (newtonSearcher.runIterations()
+        && this.acceptFraction(false, newtonSearcher.getU(), false)
+        && this.acceptFraction(extendB, newtonSearcher.getV(), extendB)) {
+        fractionA = newtonSearcher.getU();
+        fractionB = newtonSearcher.getV();
+      }
+      this.recordPointWithLocalFractions(fractionA, spiral, 0, 1, fractionB, curveB, 0, 1, reversed);
+    }
+  }
+
   private static _workPointAA0 = Point3d.create();
   private static _workPointAA1 = Point3d.create();
   private static _workPointBB0 = Point3d.create();
@@ -887,6 +988,8 @@ export class CurveCurveIntersectXY extends NullGeometryHandler {
       this.dispatchSegmentBsplineCurve(
         segmentA, this._extendA, segmentA.point0Ref, 0.0, segmentA.point1Ref, 1.0, this._extendA,
         this._geometryB, this._extendB, false);
+    } else if (this._geometryB instanceof TransitionSpiral3d) {
+      this.dispatchTransitionSpiralCurvePrimitive(this._geometryB, segmentA, this._extendA, true);
     }
   }
 
@@ -932,6 +1035,8 @@ export class CurveCurveIntersectXY extends NullGeometryHandler {
       this.computeArcLineString(this._geometryB, this._extendB, lsA, this._extendA, true);
     } else if (this._geometryB instanceof BSplineCurve3d) {
       this.dispatchLineStringBSplineCurve(lsA, this._extendA, this._geometryB, this._extendB, false);
+    } else if (this._geometryB instanceof TransitionSpiral3d) {
+      this.dispatchTransitionSpiralCurvePrimitive(this._geometryB, lsA, this._extendA, true);
     }
     return undefined;
   }
@@ -947,6 +1052,8 @@ export class CurveCurveIntersectXY extends NullGeometryHandler {
       this.dispatchArcArc(arc0, this._extendA, this._geometryB, this._extendB, false);
     } else if (this._geometryB instanceof BSplineCurve3d) {
       this.dispatchArcBsplineCurve3d(arc0, this._extendA, this._geometryB, this._extendB, false);
+    } else if (this._geometryB instanceof TransitionSpiral3d) {
+      this.dispatchTransitionSpiralCurvePrimitive(this._geometryB, arc0, this._extendA, true);
     }
     return undefined;
   }
@@ -962,6 +1069,15 @@ export class CurveCurveIntersectXY extends NullGeometryHandler {
       this.dispatchArcBsplineCurve3d(this._geometryB, this._extendB, curve, this._extendA, true);
     } else if (this._geometryB instanceof BSplineCurve3dBase) {
       this.dispatchBSplineCurve3dBSplineCurve3d(curve, this._geometryB, false);
+    } else if (this._geometryB instanceof TransitionSpiral3d) {
+      this.dispatchTransitionSpiralCurvePrimitive(this._geometryB, curve, this._extendA, true);
+    }
+    return undefined;
+  }
+  /** double dispatch handler for strongly typed spiral curve .. */
+  public handleTransitionSpiral(spiral: TransitionSpiral3d): any {
+    if (this._geometryB instanceof CurvePrimitive) {
+      this.dispatchTransitionSpiralCurvePrimitive(spiral, this._geometryB, this._extendB, false);
     }
     return undefined;
   }
@@ -885,6 +885,9 @@ class ClosestPointStrokeHandler extends NewtonRotRStrokeHandler implements IStro
       const fraction = Geometry.interpolate(fraction0, i * df, fraction1);
       cp.fractionToPointAndDerivative(fraction, this._workRay);
       this.announceRay(fraction, this._workRay);
+      // the ends of the interval are candidates too, e.g. when the projection is beyond an end of the curve.
+      if (i === 0 || i === numStrokes)
+        this.announceCandidate(cp, fraction, this._workRay.origin);
     }
   }
 
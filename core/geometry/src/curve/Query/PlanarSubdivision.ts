@@ -2,7 +2,7 @@
 * Copyright (c) Bentley Systems, Incorporated. All rights reserved.
 * See LICENSE.md in the project root for license terms and full copyright notice.
 *--------------------------------------------------------------------------------------------*/
-import { HalfEdge, HalfEdgeGraph } from "../../topology/Graph";
+import { HalfEdge, HalfEdgeGraph, HalfEdgeMask } from "../../topology/Graph";
 import { HalfEdgeGraphSearch } from "../../topology/HalfEdgeGraphSearch";
 import { HalfEdgeGraphMerge } from "../../topology/Merging";
 import { CurveLocationDetail, CurveLocationDetailPair } from "../CurveLocationDetail";
@@ -66,8 +66,12 @@ function tagString(name: string, value: number | undefined): string {
 export class PlanarSubdivision {
   public static assembleHalfEdgeGraph(_primitives: CurvePrimitive[], allPairs: CurveLocationDetailPair[]): HalfEdgeGraph {
     const detailByPrimitive = new MapCurvePrimitiveToCurveLocatioNDetailPairArray();   // map from key CurvePrimitive to CurveLocationDetailPair.
-    for (const p of _primitives)
+    for (const p of _primitives) {
       detailByPrimitive.assignPrimitiveIndex(p);
+      // Each primitive is bounded by its end points, whether or not other curves touch them.
+      for (const fraction of [0.0, 1.0])
+        detailByPrimitive.insertPrimitiveToPair(p, createFractionPair(p, fraction));
+    }
     for (const pair of allPairs) {
       detailByPrimitive.insertPair(pair);
     }
@@ -82,6 +86,10 @@ export class PlanarSubdivision {
           return -1000.0;
         return fractionA - fractionB;
       });
+      // A closed primitive (e.g. a full circle) touched only at its start needs an interior vertex to become edges.
+      const detailStart = getDetailOnCurve(details[0], p)!;
+      if (details.every((pair: CurveLocationDetailPair) => getDetailOnCurve(pair, p)!.point.isAlmostEqual(detailStart.point)))
+        details.splice(0, details.length, createFractionPair(p, 0.0), createFractionPair(p, 0.5), createFractionPair(p, 1.0));
       let detail0 = getDetailOnCurve(details[0], p)!;
       for (let i = 1; i < details.length; i++) {
         // create (both sides of) a graph edge . . .
@@ -124,20 +132,42 @@ export class PlanarSubdivision {
     let he = faceSeed;
     const loop = Loop.create();
     do {
-      const detail = he.edgeTag as CurveLocationDetail;
-      if (detail) {
-        let curve;
-        if (he.sortData! > 0)
-          curve = detail.curve!.clonePartialCurve(detail.fraction, detail.fraction1!);
-        else
-          curve = detail.curve!.clonePartialCurve(detail.fraction1!, detail.fraction);
-        if (curve)
-          loop.tryAddChild(curve);
-      }
+      const curve = clonePartialCurveOnEdge(he);
+      if (curve)
+        loop.tryAddChild(curve);
       he = he.faceSuccessor;
     } while (he !== faceSeed);
     return loop;
   }
+  /**
+   * Create loops around the regions formed by faces without the exterior mask.
+   * * Loops follow edges with the exterior mask on one side only, so edges between two interior faces are not part of any loop.
+   * * Each loop has the same orientation as the faces it bounds, so outer loops have positive area and holes have negative area.
+   */
+  public static createLoopsAroundInteriorFaces(graph: HalfEdgeGraph, exteriorMask: HalfEdgeMask): Loop[] {
+    const isBoundary = (he: HalfEdge) => !he.isMaskSet(exteriorMask) && he.edgeMate.isMaskSet(exteriorMask);
+    const visitMask = graph.grabMask();
+    const loops: Loop[] = [];
+    for (const seed of graph.allHalfEdges) {
+      if (seed.isMaskSet(visitMask) || !isBoundary(seed))
+        continue;
+      const loop = Loop.create();
+      let he = seed;
+      do {
+        he.setMask(visitMask);
+        const curve = clonePartialCurveOnEdge(he);
+        if (curve)
+          loop.tryAddChild(curve);
+        // rotate around the vertex, across edges between interior faces, to the next boundary edge
+        he = he.faceSuccessor;
+        while (!isBoundary(he))
+          he = he.edgeMate.faceSuccessor;
+      } while (he !== seed);
+      loops.push(loop);
+    }
+    graph.dropMask(visitMask);
+    return loops;
+  }
   public static collectSignedLoopSetsInHalfEdgeGraph(graph: HalfEdgeGraph, _zeroAreaTolerance: number = 1.0e-10): SignedLoops[] {
     const q = HalfEdgeGraphSearch.collectConnectedComponentsWithExteriorParityMasks(graph, undefined);
     const result: SignedLoops[] = [];
@@ -153,6 +183,21 @@ export class PlanarSubdivision {
   }
 }
 
+/** Clone the part of the curve under a half edge, oriented along the half edge. */
+function clonePartialCurveOnEdge(he: HalfEdge): CurvePrimitive | undefined {
+  const detail = he.edgeTag as CurveLocationDetail;
+  if (!detail)
+    return undefined;
+  if (he.sortData! > 0)
+    return detail.curve!.clonePartialCurve(detail.fraction, detail.fraction1!);
+  return detail.curve!.clonePartialCurve(detail.fraction1!, detail.fraction);
+}
+
+function createFractionPair(curve: CurvePrimitive, fraction: number): CurveLocationDetailPair {
+  const detail = CurveLocationDetail.createCurveEvaluatedFraction(curve, fraction);
+  return CurveLocationDetailPair.createCapture(detail, detail);
+}
+
 function sortAngle(curve: CurvePrimitive, fraction: number, reverse: boolean): number {
   const ray = curve.fractionToPointAndDerivative(fraction);
   const s = reverse ? -1.0 : 1.0;
@@ -187,7 +187,11 @@ export class StrokeCountChain {
     }
     return result;
   }
-  public getStrokes(): LineString3d {
+  /**
+   * Return stroked form of the chain.
+   * @param primitiveEndIndices optional array to receive (pushed) the index of the last stroke point of each primitive.
+   */
+  public getStrokes(primitiveEndIndices?: number[]): LineString3d {
     const ls = LineString3d.create();
     if (this.options) {
       if (this.options.needNormals || this.options.needParams) {
@@ -197,8 +201,11 @@ export class StrokeCountChain {
       }
     }
     for (const m of this.maps) {
-      if (m.primitive)
+      if (m.primitive) {
         m.primitive.addMappedStrokesToLineString3D(m, ls);
+        if (primitiveEndIndices)
+          primitiveEndIndices.push(ls.numPoints() - 1);
+      }
     }
     return ls;
 
@@ -390,20 +397,28 @@ export class StrokeCountSection {
 
   /**
    * Return stroked form of the section.
+   * @param primitiveEndIndices optional array to receive (pushed) one array per chain, with the index of the last stroke point of each primitive in the chain.
    */
-  public getStrokes(): AnyCurve {
+  public getStrokes(primitiveEndIndices?: number[][]): AnyCurve {
     if (this.chains.length === 1) {
-      return this.chains[0].getStrokes();
+      return this.chains[0].getStrokes(StrokeCountSection.pushEmptyArray(primitiveEndIndices));
     } else {
       const region = ParityRegion.create();
       for (const c of this.chains) {
-        const strokes = c.getStrokes();
+        const strokes = c.getStrokes(StrokeCountSection.pushEmptyArray(primitiveEndIndices));
         if (strokes instanceof LineString3d)
           region.tryAddChild(Loop.create(strokes));
       }
       return region;
     }
   }
+  private static pushEmptyArray(arrays?: number[][]): number[] | undefined {
+    if (!arrays)
+      return undefined;
+    const result: number[] = [];
+    arrays.push(result);
+    return result;
+  }
   /**
    * Given two compatible stroke sets (as returned by getStrokes) extend a range
    * with the distances between corresponding points.
@@ -9,12 +9,15 @@
 
 // import { Geometry, Angle, AngleSweep } from "../Geometry";
 
-import { BSplineCurve3d } from "../bspline/BSplineCurve";
+import { BSplineCurve3d, BSplineCurve3dBase } from "../bspline/BSplineCurve";
 import { BSplineCurve3dH } from "../bspline/BSplineCurve3dH";
+import { Geometry } from "../Geometry";
 import { Angle } from "../geometry3d/Angle";
 import { NullGeometryHandler } from "../geometry3d/GeometryHandler";
 import { Point3d } from "../geometry3d/Point3dVector3d";
+import { Ray3d } from "../geometry3d/Ray3d";
 import { MomentData } from "../geometry4d/MomentData";
+import { GaussMapper } from "../numerics/Quadrature";
 import { Arc3d } from "./Arc3d";
 import { CurvePrimitive } from "./CurvePrimitive";
 import { LineSegment3d } from "./LineSegment3d";
@@ -33,6 +36,8 @@ export class RegionMomentsXY extends NullGeometryHandler {
   private _activeMomentData?: MomentData;
   private _point0 = Point3d.create();
   private _point1 = Point3d.create();
+  private _ray?: Ray3d;
+  private _gaussMapper?: GaussMapper;
 
   /** Accumulate (independent) integrations over
    * * origin to chord of the arc.
@@ -155,20 +160,42 @@ export class RegionMomentsXY extends NullGeometryHandler {
     this._strokeOptions = options;
     return options;
   }
+  /** Accumulate gauss quadrature of the area swept from the origin to the curve, over equal intervals of a fraction range. */
+  private accumulateSweptMoments(cp: CurvePrimitive, fraction0: number, fraction1: number, numInterval: number) {
+    const momentData = this._activeMomentData!;
+    if (!this._gaussMapper)
+      this._gaussMapper = new GaussMapper(5);
+    const gaussMapper = this._gaussMapper;
+    for (let i = 0; i < numInterval; i++) {
+      const numGauss = gaussMapper.mapXAndW(Geometry.interpolate(fraction0, i / numInterval, fraction1), Geometry.interpolate(fraction0, (i + 1) / numInterval, fraction1));
+      for (let k = 0; k < numGauss; k++) {
+        this._ray = cp.fractionToPointAndDerivative(gaussMapper.gaussX[k], this._ray);
+        momentData.accumulateSweptMomentsXY(this._ray.origin, this._ray.direction, gaussMapper.gaussW[k]);
+      }
+    }
+  }
   /** Single curve primitive (not loop . . .).
-   * * stroke the curve
-   * * accumulate stroke array.
+   * * split the curve into intervals as if stroking.
+   * * accumulate gauss quadrature of the area swept from the origin to the curve over each interval.
    */
   public handleCurvePrimitive(cp: CurvePrimitive) {
-    const strokes = LineString3d.create();
-    const options = this.getStrokeOptions();
-    cp.emitStrokes(strokes, options);
-    this.handleLineString3d(strokes);
+    this.accumulateSweptMoments(cp, 0.0, 1.0, Math.max(1, cp.computeStrokeCountForOptions(this.getStrokeOptions())));
+  }
+  /** As with a generic curve primitive, but with quadrature intervals confined to bezier spans (where the curve is smooth). */
+  private handleBSplineCurve3dBase(g: BSplineCurve3dBase) {
+    const knots = g.copyKnots(false);
+    const leftKnot = knots[g.degree - 1];
+    const rightKnot = knots[knots.length - g.degree];
+    const numIntervalPerSpan = Math.max(1, Math.ceil(g.computeStrokeCountForOptions(this.getStrokeOptions()) / g.numSpan));
+    for (let i = g.degree; i <= knots.length - g.degree; i++) {
+      if (knots[i] > knots[i - 1])
+        this.accumulateSweptMoments(g, (knots[i - 1] - leftKnot) / (rightKnot - leftKnot), (knots[i] - leftKnot) / (rightKnot - leftKnot), numIntervalPerSpan);
+    }
   }
-  /** handle strongly typed  BSplineCurve3d  as generic curve primitive */
-  public handleBSplineCurve3d(g: BSplineCurve3d) { return this.handleCurvePrimitive(g); }
-  /** handle strongly typed  BSplineCurve3dH  as generic curve primitive */
-  public handleBSplineCurve3dH(g: BSplineCurve3dH) { return this.handleCurvePrimitive(g); }
+  /** handle strongly typed  BSplineCurve3d  with quadrature within each bezier span */
+  public handleBSplineCurve3d(g: BSplineCurve3d) { return this.handleBSplineCurve3dBase(g); }
+  /** handle strongly typed  BSplineCurve3dH  with quadrature within each bezier span */
+  public handleBSplineCurve3dH(g: BSplineCurve3dH) { return this.handleBSplineCurve3dBase(g); }
   /** handle strongly typed  TransitionSpiral as generic curve primitive  */
   public handleTransitionSpiral(g: TransitionSpiral3d) { return this.handleCurvePrimitive(g); }
 
@@ -39,7 +39,6 @@ import { RegionMomentsXY } from "./RegionMomentsXY";
 import { OffsetHelpers } from "./internalContexts/MultiChainCollector";
 import { GeometryQuery } from "./GeometryQuery";
 import { RegionBooleanContext, RegionGroupOpType, RegionOpsFaceToFaceSearch } from "./RegionOpsClassificationSweeps";
-import { UnionRegion } from "./UnionRegion";
 import { HalfEdgeGraphSearch } from "../topology/HalfEdgeGraphSearch";
 import { ParityRegion } from "./ParityRegion";
 /**
@@ -243,6 +242,8 @@ export class RegionOps {
    * return areas defined by a boolean operation.
    * * If there are multiple regions in loopsA, they are treated as a union.
    * * If there are multiple regions in loopsB, they are treated as a union.
+   * * Curves are split at their intersections but not stroked, so the result contains (partial) arcs, bspline curves, etc. of the inputs.
+   * * The result is a `Loop`, `ParityRegion`, or `UnionRegion` with outer loops counterclockwise and holes clockwise.
    * @param loopsA first set of loops
    * @param loopsB second set of loops
    * @param operation indicates Union, Intersection, Parity, AMinusB, or BMinusA
@@ -250,20 +251,15 @@ export class RegionOps {
    */
   public static regionBooleanXY(loopsA: AnyRegion | AnyRegion[] | undefined, loopsB: AnyRegion | AnyRegion[] | undefined, operation: RegionBinaryOpType): AnyRegion | undefined {
     // create and load a context . . .
-    const result = UnionRegion.create();
     const context = RegionBooleanContext.create(RegionGroupOpType.Union, RegionGroupOpType.Union);
     context.addMembers(loopsA, loopsB);
     context.annotateAndMergeCurvesInGraph();
-    context.runClassificationSweep(operation, (_graph: HalfEdgeGraph, face: HalfEdge, faceType: -1 | 0 | 1, area: number) => {
-      if (face.countEdgesAroundFace() < 3 && Geometry.isSameCoordinate(area, 0)) // NEED BETTER TOLERANCE
-        return;
-      if (faceType === 1) {
-        const loop = PlanarSubdivision.createLoopInFace(face);
-        if (loop)
-          result.tryAddChild(loop);
-      }
-    });
-    return result;
+    context.runClassificationSweep(operation);
+    // faces that are NOT in the result have the EXTERIOR mask.  Merge adjacent result faces into loops around their common boundary.
+    const loops = PlanarSubdivision.createLoopsAroundInteriorFaces(context.graph, HalfEdgeMask.EXTERIOR);
+    for (const loop of loops)
+      RegionOps.consolidateAdjacentPrimitives(loop);
+    return RegionOps.sortOuterAndHoleLoopsXY(loops);
   }
 
   /**
@@ -340,7 +336,10 @@ export class RegionOps {
    *      * outside the arc
    *      * have uniform turn angle less than `options.maxChamferDegrees`
    *      * each line segment (except first and last) touches the arc at its midpoint.
+   *   * if `options.naturalExtension` is set and both curves are lines or arcs, they are extended along their own geometry to intersection.
    *   * Otherwise the prior and successor curves are extended to simple intersection.
+   * * Offsets of curves other than lines and circular arcs (e.g. bsplines and spirals) are approximated by cubic bsplines within `options.approximationTolerance`.
+   * * If `options.trimSelfIntersections` is set, loops formed by self intersections that come closer to the input than the offset distance are removed.
    * @param curves input curves
    * @param offsetDistanceOrOptions offset controls.
    */
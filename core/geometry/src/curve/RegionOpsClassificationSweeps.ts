@@ -28,6 +28,8 @@ import { Range2d, Range3d } from "../geometry3d/Range";
 import { Point3d, Vector3d } from "../geometry3d/Point3dVector3d";
 import { PlaneAltitudeRangeContext } from "./internalContexts/PlaneAltitudeRangeContext";
 import { GeometryQuery } from "./GeometryQuery";
+import { GaussMapper } from "../numerics/Quadrature";
+import { Ray3d } from "../geometry3d/Ray3d";
 
 /**
  * base class for callbacks during region sweeps.
@@ -144,7 +146,6 @@ export class RegionOpsFaceToFaceSearch {
     seed.setMaskAroundFace(faceHasBeenVisited);
     let faceWalker = seed;
     do {
-      let entryNode = faceWalker;
       let mate = faceWalker.edgeMate;
       if (!mate.isMaskSet(faceHasBeenVisited)) {
         // the faceWalker seed is always on the base of the stack.
@@ -153,6 +154,7 @@ export class RegionOpsFaceToFaceSearch {
         // * faceNode is another node around that face.
         facePathStack.push(faceWalker);
         facePathStack.push(mate);
+        let entryNode = mate;
         let faceNode = mate.faceSuccessor;
         mate.setMaskAroundFace(faceHasBeenVisited);
         if (callbacks.enterFace(facePathStack, mate)) {
@@ -647,10 +649,30 @@ function areaUnderPartialCurveXY(detail: CurveLocationDetail | undefined, xyStar
       // ah .. nothing to do for a line segment
     } else if (detail.curve instanceof Arc3d) {
       areaToChord = detail.curve.areaToChordXY(detail.fraction, detail.fraction1!);
+    } else {
+      areaToChord = areaToChordXYByQuadrature(detail.curve, detail.fraction, detail.fraction1!);
     }
   }
   return trapezoidArea + areaToChord;
 }
+const gaussMapper = new GaussMapper(5);
+let workRay: Ray3d | undefined;
+/** return (signed) xy area between (a fractional portion of) a curve and the chord between those points.
+ * * Integrate the area swept by the vector from the chord start to the curve, with gauss quadrature on intervals sized by the curve stroke count.
+ */
+function areaToChordXYByQuadrature(curve: CurvePrimitive, fraction0: number, fraction1: number): number {
+  const point0 = curve.fractionToPoint(fraction0);
+  const numInterval = Math.max(1, Math.ceil(Math.abs(fraction1 - fraction0) * curve.computeStrokeCountForOptions()));
+  let sum = 0.0;
+  for (let i = 0; i < numInterval; i++) {
+    const numGauss = gaussMapper.mapXAndW(Geometry.interpolate(fraction0, i / numInterval, fraction1), Geometry.interpolate(fraction0, (i + 1) / numInterval, fraction1));
+    for (let k = 0; k < numGauss; k++) {
+      workRay = curve.fractionToPointAndDerivative(gaussMapper.gaussX[k], workRay);
+      sum += gaussMapper.gaussW[k] * Geometry.crossProductXYXY(workRay.origin.x - point0.x, workRay.origin.y - point0.y, workRay.direction.x, workRay.direction.y);
+    }
+  }
+  return 0.5 * sum;
+}
 /** Compute face area for a face whose edges are decorated with CurveLocationDetail for their (partial) curves */
 function faceAreaFromCurvedEdgeData(faceSeed: HalfEdge): number {
   let area = 0.0;
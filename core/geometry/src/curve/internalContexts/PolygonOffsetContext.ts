@@ -6,6 +6,7 @@
  * @module Curve
  */
 
+import { BSplineCurve3d } from "../../bspline/BSplineCurve";
 import { Geometry } from "../../Geometry";
 import { Angle } from "../../geometry3d/Angle";
 import { AngleSweep } from "../../geometry3d/AngleSweep";
@@ -53,14 +54,26 @@ export class JointOptions {
   public minArcDegrees = 180.0;
   public maxChamferTurnDegrees = 90;
   public leftOffsetDistance: number = 0;
+  /** If true, an outside turn that is not made with an arc extends line and arc offsets along their own geometry (rather than their end tangents) to their intersection.
+   * * Other curve types are still extended along their end tangents.
+   */
+  public naturalExtension = false;
+  /** If true, remove loops formed where the offset crosses itself and the loop comes closer to the base curves than the offset distance. */
+  public trimSelfIntersections = false;
+  /** Distance tolerance for approximating offsets of curves (e.g. bsplines and spirals) that have no exact offset of the same type. */
+  public approximationTolerance = 1.0e-4;
   /** Construct JointOptions.
    * * leftOffsetDistance is required
    * * minArcDegrees and maxChamferDegrees are optional.
+   * * naturalExtension, trimSelfIntersections and approximationTolerance are optional.
    */
-  constructor(leftOffsetDistance: number, minArcDegrees = 180, maxChamferDegrees = 90) {
+  constructor(leftOffsetDistance: number, minArcDegrees = 180, maxChamferDegrees = 90, naturalExtension = false, trimSelfIntersections = false, approximationTolerance = 1.0e-4) {
     this.leftOffsetDistance = leftOffsetDistance;
     this.minArcDegrees = minArcDegrees;
     this.maxChamferTurnDegrees = maxChamferDegrees;
+    this.naturalExtension = naturalExtension;
+    this.trimSelfIntersections = trimSelfIntersections;
+    this.approximationTolerance = approximationTolerance;
   }
   /**
    * Parse a number of JointOptions up to JointOptions:
@@ -288,6 +301,8 @@ class Joint {
               return;
             }
           }
+          if (options.naturalExtension && this.annotateNaturalExtension())
+            return;
           const numChamferPoints = options.numChamferPoints(theta);
           if (numChamferPoints <= 1) {
             this.jointCurve = LineString3d.create(ray0.origin, intersection.detailA.point, ray1.origin);
@@ -323,6 +338,27 @@ class Joint {
       this.fraction1 = 0.0;
     }
   }
+  /** Return true if the primitive extends naturally beyond its ends (i.e. is a line or an arc). */
+  private static hasNaturalExtension(cp: CurvePrimitive): boolean {
+    return cp instanceof LineSegment3d || cp instanceof Arc3d;
+  }
+  /**
+   * Try to extend curve0 beyond its end and curve1 before its start, each along its own geometry, to an intersection.
+   * * On success, set fraction0 and fraction1 at the intersection and return true.
+   */
+  private annotateNaturalExtension(): boolean {
+    if (this.curve0 && this.curve1 && Joint.hasNaturalExtension(this.curve0) && Joint.hasNaturalExtension(this.curve1)) {
+      const intersections = CurveCurve.intersectionXYPairs(this.curve0, true, this.curve1, true).filter(
+        (pair: CurveLocationDetailPair) => pair.detailA.fraction >= 1.0 && pair.detailB.fraction <= 0.0);
+      const intersectionIndex = this.selectIntersectionIndexByFraction(1.0, 0.0, intersections);
+      if (intersectionIndex >= 0) {
+        this.fraction0 = intersections[intersectionIndex].detailA.fraction;
+        this.fraction1 = intersections[intersectionIndex].detailB.fraction;
+        return true;
+      }
+    }
+    return false;
+  }
   // Select the index at which summed fraction difference is smallest.
   private selectIntersectionIndexByFraction(fractionA: number, fractionB: number, intersections: CurveLocationDetailPair[]): number {
     let index = -1;
@@ -377,6 +413,11 @@ class Joint {
             }
           }
         }
+      } else if (this.curve0.endPoint().isAlmostEqual(this.curve1.startPoint())) {
+        // offsets already meet -- e.g. at a cusp of an approximated offset.
+        this.fraction0 = 1.0;
+        this.fraction1 = 0.0;
+        this.flexure = JointMode.Trim;
       } else {
         // generic pair of curves ...
         const intersections = CurveCurve.intersectionXYPairs(this.curve0, false, this.curve1, false);
@@ -607,10 +648,12 @@ export class CurveChainWireOffsetContext {
    * * each primitive may be labeled (as an `any` object) with start or end point of base curve:
    *   * `(primitive as any).baseCurveStart: Point3d`
    *   * `(primitive as any).baseCurveEnd: Point3d`
+   * * primitives other than lines, circular arcs and linestrings (e.g. bsplines and spirals) are approximated by cubic bsplines.
    * @param g primitive to offset
    * @param distanceLeft
+   * @param tolerance distance tolerance for approximated offsets.
    */
-  public static createSingleOffsetPrimitiveXY(g: CurvePrimitive, distanceLeft: number): CurvePrimitive | CurvePrimitive[] | undefined {
+  public static createSingleOffsetPrimitiveXY(g: CurvePrimitive, distanceLeft: number, tolerance: number = 1.0e-4): CurvePrimitive | CurvePrimitive[] | undefined {
     const point0 = g.fractionToPoint(0.0);
     const point1 = g.fractionToPoint(1.0);
     if (g instanceof LineSegment3d) {
@@ -627,6 +670,8 @@ export class CurveChainWireOffsetContext {
           matrix.scaleColumnsInPlace(factor, factor, 1.0);
           return this.applyBasePoints(Arc3d.createRefs(g1.center.clone(), matrix, g1.sweep.clone()), g.startPoint(), g.endPoint());
         }
+      } else {
+        return this.createApproximateOffsetPrimitivesXY(g, distanceLeft, tolerance);
       }
     } else if (g instanceof LineString3d) {
       const n = g.numPoints();
@@ -644,10 +689,192 @@ export class CurveChainWireOffsetContext {
         }
         return offsets;
       }
-
+    } else {
+      return this.createApproximateOffsetPrimitivesXY(g, distanceLeft, tolerance);
     }
     return undefined;
   }
+  /**
+   * Return the xy offset of the point at fraction on g, with its derivative (scaled by `derivativeScale`) with respect to fraction.
+   * * Return undefined if the xy tangent is zero.
+   */
+  private static fractionToOffsetRayXY(g: CurvePrimitive, fraction: number, distanceLeft: number, derivativeScale: number): Ray3d | undefined {
+    const plane = g.fractionToPointAnd2Derivatives(fraction);
+    if (plane === undefined)
+      return undefined;
+    const d1 = plane.vectorU;
+    const d2 = plane.vectorV;
+    const speed = d1.magnitudeXY();
+    if (Geometry.isSmallMetricDistance(speed))
+      return undefined;
+    // unit left normal N = (-y', x') / speed, and its derivative is N' = (-y'', x'') / speed - N (d1.d2) / speed^2
+    const normal = Vector3d.create(-d1.y / speed, d1.x / speed);
+    const dotXY = d1.x * d2.x + d1.y * d2.y;
+    const derivative = Vector3d.create(
+      d1.x + distanceLeft * (-d2.y / speed - normal.x * dotXY / (speed * speed)),
+      d1.y + distanceLeft * (d2.x / speed - normal.y * dotXY / (speed * speed)),
+      d1.z);
+    derivative.scaleInPlace(derivativeScale);
+    return Ray3d.createCapture(plane.origin.plusScaled(normal, distanceLeft), derivative);
+  }
+  /**
+   * Return the ratio of the xy speed of the offset to the xy speed of g, i.e. `1 - distanceLeft * signedCurvatureXY`.
+   * * The ratio is negative where the offset runs backwards (i.e. in a "swallowtail" beyond a center of curvature).
+   */
+  private static offsetSpeedRatioXY(g: CurvePrimitive, fraction: number, distanceLeft: number): number {
+    const plane = g.fractionToPointAnd2Derivatives(fraction);
+    if (plane === undefined)
+      return 1.0;
+    const speedSquared = plane.vectorU.magnitudeSquaredXY();
+    if (Geometry.isSmallMetricDistanceSquared(speedSquared))
+      return 1.0;
+    return 1.0 - distanceLeft * plane.vectorU.crossProductXY(plane.vectorV) / (speedSquared * Math.sqrt(speedSquared));
+  }
+  /**
+   * Approximate the xy offset of a primitive that has no exact offset of the same type.
+   * * The primitive is split at fractions where the offset reverses direction.
+   * * Each part is a cubic bspline interpolating offset points and tangents at uniform fractions, with the number of
+   *    spans doubled until the offset at the middle of each span is within tolerance of the bspline.
+   */
+  private static createApproximateOffsetPrimitivesXY(g: CurvePrimitive, distanceLeft: number, tolerance: number): CurvePrimitive[] | undefined {
+    const numSample = Math.max(32, 4 * g.computeStrokeCountForOptions());
+    const breakFractions = [0.0];
+    let fractionA = 0.0;
+    let ratioA = this.offsetSpeedRatioXY(g, fractionA, distanceLeft);
+    for (let i = 1; i <= numSample; i++) {
+      const fractionB = i / numSample;
+      const ratioB = this.offsetSpeedRatioXY(g, fractionB, distanceLeft);
+      if (ratioA * ratioB < 0.0) {
+        // bisect to the sign change . . .
+        let f0 = fractionA;
+        let f1 = fractionB;
+        for (let iteration = 0; iteration < 50 && f1 - f0 > Geometry.smallFraction; iteration++) {
+          const f = 0.5 * (f0 + f1);
+          if (this.offsetSpeedRatioXY(g, f, distanceLeft) * ratioA > 0.0)
+            f0 = f;
+          else
+            f1 = f;
+        }
+        breakFractions.push(0.5 * (f0 + f1));
+      }
+      fractionA = fractionB;
+      ratioA = ratioB;
+    }
+    breakFractions.push(1.0);
+    const maxSpans = 1024;
+    const offsets: CurvePrimitive[] = [];
+    for (let k = 0; k + 1 < breakFractions.length; k++) {
+      const f0 = breakFractions[k];
+      const f1 = breakFractions[k + 1];
+      if (f1 - f0 < Geometry.smallFraction)
+        continue;
+      let bspline: BSplineCurve3d | undefined;
+      for (let numSpan = 4; numSpan <= maxSpans && bspline === undefined; numSpan *= 2) {
+        // cubic Hermite interpolation of offset points and derivatives, as a bspline with triple interior knots.
+        const poles: Point3d[] = [];
+        const knots = [0, 0, 0];
+        let rayA = this.fractionToOffsetRayXY(g, f0, distanceLeft, (f1 - f0) / numSpan);
+        for (let i = 1; i <= numSpan && rayA !== undefined; i++) {
+          const rayB = this.fractionToOffsetRayXY(g, Geometry.interpolate(f0, i / numSpan, f1), distanceLeft, (f1 - f0) / numSpan);
+          if (rayB === undefined)
+            return undefined;
+          if (i === 1)
+            poles.push(rayA.origin);
+          poles.push(rayA.origin.plusScaled(rayA.direction, 1.0 / 3.0), rayB.origin.plusScaled(rayB.direction, -1.0 / 3.0), rayB.origin);
+          const knot = i / numSpan;
+          knots.push(knot, knot, knot);
+          rayA = rayB;
+        }
+        const candidate = BSplineCurve3d.create(poles, knots, 4);
+        if (candidate === undefined)
+          return undefined;
+        let maxError = 0.0;
+        for (let i = 0; i < numSpan && maxError <= tolerance; i++) {
+          const u = (i + 0.5) / numSpan;
+          const ray = this.fractionToOffsetRayXY(g, Geometry.interpolate(f0, u, f1), distanceLeft, 1.0);
+          if (ray !== undefined)
+            maxError = Math.max(maxError, candidate.fractionToPoint(u).distance(ray.origin));
+        }
+        if (maxError <= tolerance || 2 * numSpan > maxSpans)
+          bspline = candidate;
+      }
+      const offset = this.applyBasePoints(bspline, g.fractionToPoint(f0), g.fractionToPoint(f1));
+      if (offset)
+        offsets.push(offset);
+    }
+    return offsets;
+  }
+  /** Return true if any sample point of the primitives is closer than `distance - tolerance` (in xy) to the base curves. */
+  private static isCloserThanOffsetXY(primitives: CurvePrimitive[], baseCurves: CurveCollection, distance: number, tolerance: number): boolean {
+    for (const primitive of primitives) {
+      for (const fraction of [0.25, 0.5, 0.75]) {
+        const point = primitive.fractionToPoint(fraction);
+        const detail = baseCurves.closestPoint(point);
+        if (detail !== undefined && detail.point.distanceXY(point) < distance - tolerance)
+          return true;
+      }
+    }
+    return false;
+  }
+  /** Append the fractional portion of primitive to the array, unless it is shorter than tolerance. */
+  private static pushPartialCurve(destination: CurvePrimitive[], primitive: CurvePrimitive, fraction0: number, fraction1: number, tolerance: number) {
+    const partial = primitive.clonePartialCurve(fraction0, fraction1);
+    if (partial !== undefined && partial.curveLength() > tolerance)
+      destination.push(partial);
+  }
+  /**
+   * Remove loops formed by self intersections of offset primitives, where the loop comes closer to the base curves than the offset distance.
+   * * For each primitive (in order) the last primitive that it intersects is found.  The portion between the intersection points
+   *    (or for a closed chain, the portion that wraps around the start) is removed if it is too close to the base curves.
+   */
+  private static trimSelfIntersectionsXY(offsets: CurvePrimitive[], baseCurves: CurveCollection, distance: number, tolerance: number, isClosed: boolean) {
+    const fractionTolerance = 1.0e-8;
+    const maxTrim = offsets.length;
+    for (let numTrim = 0; numTrim < maxTrim; numTrim++) {
+      let trimmed = false;
+      const n = offsets.length;
+      for (let i = 0; i < n && !trimmed; i++) {
+        for (let j = n - 1; j > i && !trimmed; j--) {
+          if (!offsets[i].range().intersectsRangeXY(offsets[j].range()))
+            continue;
+          for (const pair of CurveCurve.intersectionXYPairs(offsets[i], false, offsets[j], false)) {
+            const fractionA = pair.detailA.fraction;
+            const fractionB = pair.detailB.fraction;
+            // ignore the shared endpoints of successive primitives
+            if (j === i + 1 && Math.abs(fractionA - 1.0) < fractionTolerance && Math.abs(fractionB) < fractionTolerance)
+              continue;
+            if (isClosed && i === 0 && j === n - 1 && Math.abs(fractionA) < fractionTolerance && Math.abs(fractionB - 1.0) < fractionTolerance)
+              continue;
+            const inner: CurvePrimitive[] = [];
+            this.pushPartialCurve(inner, offsets[i], fractionA, 1.0, tolerance);
+            inner.push(...offsets.slice(i + 1, j));
+            this.pushPartialCurve(inner, offsets[j], 0.0, fractionB, tolerance);
+            if (this.isCloserThanOffsetXY(inner, baseCurves, distance, tolerance)) {
+              const replacement: CurvePrimitive[] = [];
+              this.pushPartialCurve(replacement, offsets[i], 0.0, fractionA, tolerance);
+              this.pushPartialCurve(replacement, offsets[j], fractionB, 1.0, tolerance);
+              offsets.splice(i, j - i + 1, ...replacement);
+              trimmed = true;
+              break;
+            }
+            if (isClosed) {
+              const outer: CurvePrimitive[] = [];
+              this.pushPartialCurve(outer, offsets[j], fractionB, 1.0, tolerance);
+              outer.push(...offsets.slice(j + 1), ...offsets.slice(0, i));
+              this.pushPartialCurve(outer, offsets[i], 0.0, fractionA, tolerance);
+              if (this.isCloserThanOffsetXY(outer, baseCurves, distance, tolerance)) {
+                offsets.splice(0, n, ...inner);
+                trimmed = true;
+                break;
+              }
+            }
+          }
+        }
+      }
+      if (!trimmed)
+        break;
+    }
+  }
 
   /**
    * Construct curves that are offset from a Path or Loop
@@ -660,7 +887,10 @@ export class CurveChainWireOffsetContext {
    *      * outside the arc
    *      * have uniform turn angle less than `options.maxChamferDegrees`
    *      * each line segment (except first and last) touches the arc at its midpoint.
+   *   * if `options.naturalExtension` is set and both curves are lines or arcs, they are extended along their own geometry to intersection.
    *   * Otherwise the prior and successor curves are extended to simple intersection.
+   * * Offsets of curves other than lines and circular arcs (e.g. bsplines and spirals) are approximated by cubic bsplines within `options.approximationTolerance`.
+   * * If `options.trimSelfIntersections` is set, loops formed by self intersections that come closer to the input than the offset distance are removed.
    * @param curves input curves
    * @param offsetDistanceOrOptions offset controls.
    */
@@ -672,7 +902,7 @@ export class CurveChainWireOffsetContext {
     const simpleOffsets: CurvePrimitive[] = [];
     // setup pass: get simple offsets of each primitive
     for (const c of curves.children) {
-      const c1 = CurveChainWireOffsetContext.createSingleOffsetPrimitiveXY(c, options.leftOffsetDistance);
+      const c1 = CurveChainWireOffsetContext.createSingleOffsetPrimitiveXY(c, options.leftOffsetDistance, options.approximationTolerance);
       if (c1 === undefined) {
         // bad .. maybe arc to inside?
       } else if (c1 instanceof CurvePrimitive)
@@ -708,6 +938,8 @@ export class CurveChainWireOffsetContext {
 
     const outputCurves: CurvePrimitive[] = [];
     Joint.collectCurvesFromChain(joint0, outputCurves, numOffset);
+    if (options.trimSelfIntersections)
+      CurveChainWireOffsetContext.trimSelfIntersectionsXY(outputCurves, curves, Math.abs(options.leftOffsetDistance), options.approximationTolerance, wrap);
     return RegionOps.createLoopPathOrBagOfCurves(outputCurves, wrap, true);
   }
   /**
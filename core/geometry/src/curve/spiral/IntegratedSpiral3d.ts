@@ -300,7 +300,8 @@ export class IntegratedSpiral3d extends TransitionSpiral3d {
     const activeStrokes = this.activeStrokes;
     dest.startParentCurvePrimitive(this);
     if (n <= activeStrokes.numPoints()) {
-      this.activeStrokes.emitStrokableParts(dest, options);
+      // announce the spiral (not its strokes) so that handlers such as distance indexing evaluate the true curve.
+      dest.announceIntervalForUniformStepStrokes(this, activeStrokes.numPoints() - 1, 0.0, 1.0);
     } else {
       dest.announceIntervalForUniformStepStrokes(this, n, 0.0, 1.0);
     }
@@ -384,9 +385,8 @@ export class IntegratedSpiral3d extends TransitionSpiral3d {
     const radians = this.globalFractionToBearingRadians(globalFraction);
     const c = Math.cos(radians);
     const s = Math.sin(radians);
-    const delta = this.activeFractionInterval.signedDelta();
-    const a = delta;
-    const b = a * delta;
+    const a = this._arcLength01 * this.activeFractionInterval.signedDelta();
+    const b = a * a;
     const vectorX = this.localToWorld.matrix.multiplyXY(a * c, a * s);
     const vectorY = this.localToWorld.matrix.multiplyXY(-b * s, b * c);
     vectorY.scaleInPlace(this.globalFractionToCurvature(globalFraction));
@@ -138,6 +138,7 @@ export * from "./geometry3d/IndexedXYCollection";
 export * from "./geometry3d/IndexedXYZCollection";
 export * from "./geometry3d/Matrix3d";
 export * from "./geometry3d/OrderedRotationAngles";
+export * from "./geometry3d/OrientedBox3d";
 export * from "./geometry3d/Plane3dByOriginAndUnitNormal";
 export * from "./geometry3d/Plane3dByOriginAndVectors";
 export * from "./geometry3d/Point2dArrayCarrier";
@@ -145,6 +146,7 @@ export * from "./geometry3d/Point2dVector2d";
 export * from "./geometry3d/Point3dVector3d";
 export * from "./geometry3d/PointHelpers";
 export * from "./geometry3d/Point3dArrayCarrier";
+export * from "./geometry3d/PointCloudOps";
 export * from "./geometry3d/PolylineOps";
 export * from "./geometry3d/PolygonOps";
 export * from "./geometry3d/Range";
@@ -232,6 +234,7 @@ export * from "./bspline/BSplineSurface";
 export * from "./bspline/KnotVector";
 export * from "./polyface/AuxData";
 export * from "./polyface/BoxTopology";
+export * from "./polyface/ConvexHull3d";
 export * from "./polyface/FacetFaceData";
 export * from "./polyface/Polyface";
 export * from "./polyface/IndexedPolyfaceVisitor";
@@ -239,6 +242,7 @@ export * from "./polyface/PolyfaceBuilder";
 export * from "./polyface/PolyfaceData";
 export * from "./polyface/PolyfaceQuery";
 export * from "./polyface/PolyfaceClip";
+export * from "./polyface/PolyfaceBoolean";
 export * from "./topology/Graph";
 export * from "./topology/Triangulation";
 export * from "./serialization/IModelJsonSchema";
@@ -0,0 +1,354 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+
+/** @packageDocumentation
+ * @module CartesianGeometry
+ */
+
+import { GeometryQuery } from "../curve/GeometryQuery";
+import { StrokeOptions } from "../curve/StrokeOptions";
+import { AxisOrder, Geometry } from "../Geometry";
+import { MomentData } from "../geometry4d/MomentData";
+import { ConvexHull3d } from "../polyface/ConvexHull3d";
+import { Polyface } from "../polyface/Polyface";
+import { GrowableXYZArray } from "./GrowableXYZArray";
+import { Matrix3d } from "./Matrix3d";
+import { Point3d, Vector3d } from "./Point3dVector3d";
+import { Point3dArray } from "./PointHelpers";
+import { PolygonOps } from "./PolygonOps";
+import { Range3d } from "./Range";
+import { Transform } from "./Transform";
+
+/**
+ * Enumeration of the methods for fitting an [[OrientedBox3d]] to points.
+ * @beta
+ */
+export enum OrientedBoxMethod {
+  /** Box aligned with the principal axes of the points. */
+  PrincipalAxes = 0,
+  /** For each principal axis, fit the minimum area rectangle of the points projected onto the perpendicular plane (rotating calipers); keep the smallest box. */
+  PrincipalAxesWithCalipers = 1,
+  /** As `PrincipalAxesWithCalipers`, but also try each face normal of the convex hull of the points. */
+  MinimumVolume = 2,
+}
+
+/**
+ * Candidate box under construction: axes, and the coordinate ranges of the points along those axes.
+ * @internal
+ */
+interface BoxCandidate {
+  axes: Matrix3d;
+  low: Point3d;
+  high: Point3d;
+}
+
+/**
+ * A rectangular box with arbitrary orientation.
+ * * The box is described by a rigid frame with origin at the box center, and the half-extents of the box along the frame axes.
+ * * When created from points, the axes are ordered so that `halfExtents.x >= halfExtents.y >= halfExtents.z`.
+ * @beta
+ */
+export class OrientedBox3d {
+  private _localToWorld: Transform;
+  private _halfExtents: Vector3d;
+
+  private constructor(localToWorld: Transform, halfExtents: Vector3d) {
+    this._localToWorld = localToWorld;
+    this._halfExtents = halfExtents;
+  }
+  /**
+   * Create a box from center, axes and half-extents.
+   * * The axes are normalized and squared up (with x as the primary direction); returns undefined if they are degenerate.
+   * * Negative half-extents are replaced by their absolute values.
+   * @param center center of the box
+   * @param axes matrix whose columns are the box axes
+   * @param halfExtents half of the box size along each axis
+   */
+  public static createFromCenterAxesHalfExtents(center: Point3d, axes: Matrix3d, halfExtents: Vector3d): OrientedBox3d | undefined {
+    const rigidAxes = Matrix3d.createRigidFromColumns(axes.columnX(), axes.columnY(), AxisOrder.XYZ);
+    if (rigidAxes === undefined)
+      return undefined;
+    return new OrientedBox3d(Transform.createOriginAndMatrix(center, rigidAxes),
+      Vector3d.create(Math.abs(halfExtents.x), Math.abs(halfExtents.y), Math.abs(halfExtents.z)));
+  }
+  /** Return a deep copy of this box. */
+  public clone(): OrientedBox3d {
+    return new OrientedBox3d(this._localToWorld.clone(), this._halfExtents.clone());
+  }
+  /** Return the center of the box. */
+  public get center(): Point3d { return this._localToWorld.getOrigin(); }
+  /** Return the (orthonormal) axes of the box as the columns of a matrix. */
+  public get axes(): Matrix3d { return this._localToWorld.matrix.clone(); }
+  /** Return the half-extents of the box along its axes. */
+  public get halfExtents(): Vector3d { return this._halfExtents.clone(); }
+  /** Return the rigid transform from box coordinates (origin at center) to world. */
+  public get localToWorld(): Transform { return this._localToWorld.clone(); }
+  /** Return the volume of the box. */
+  public get volume(): number { return 8.0 * this._halfExtents.x * this._halfExtents.y * this._halfExtents.z; }
+  /** Return the 8 corners of the box, in the same order as [[Range3d.corners]] returns the corners of its local range. */
+  public getCorners(): Point3d[] {
+    const h = this._halfExtents;
+    const corners = Range3d.createXYZXYZ(-h.x, -h.y, -h.z, h.x, h.y, h.z).corners();
+    this._localToWorld.multiplyPoint3dArrayInPlace(corners);
+    return corners;
+  }
+  /** Return the world range of the box. */
+  public worldRange(result?: Range3d): Range3d {
+    return Range3d.createArray(this.getCorners(), result);
+  }
+  /** Return the coordinates of a world point in the box frame (origin at center). */
+  public worldToLocal(point: Point3d, result?: Point3d): Point3d {
+    const origin = this._localToWorld.origin;
+    const local = this._localToWorld.matrix.multiplyTransposeXYZ(point.x - origin.x, point.y - origin.y, point.z - origin.z);
+    return Point3d.create(local.x, local.y, local.z, result);
+  }
+  /**
+   * Test if a point is inside (or on) the box.
+   * @param point world point
+   * @param tolerance distance by which the point may be outside the box.
+   */
+  public containsPoint(point: Point3d, tolerance: number = Geometry.smallMetricDistance): boolean {
+    const local = this.worldToLocal(point);
+    return Math.abs(local.x) <= this._halfExtents.x + tolerance
+      && Math.abs(local.y) <= this._halfExtents.y + tolerance
+      && Math.abs(local.z) <= this._halfExtents.z + tolerance;
+  }
+  /** Return the half-width of the projection of the box onto a unit vector. */
+  private projectedRadius(unitVector: Vector3d): number {
+    const matrix = this._localToWorld.matrix;
+    return this._halfExtents.x * Math.abs(matrix.dotColumnX(unitVector))
+      + this._halfExtents.y * Math.abs(matrix.dotColumnY(unitVector))
+      + this._halfExtents.z * Math.abs(matrix.dotColumnZ(unitVector));
+  }
+  /**
+   * Test if this box intersects another.
+   * * Uses the separating axis test: the boxes are disjoint if and only if their projections are disjoint on one of
+   *   the 6 face normals or one of the 9 cross products of edge directions.
+   * @param other the other box
+   * @param tolerance distance by which the boxes may be separated and still be considered intersecting.
+   */
+  public intersectsOrientedBox(other: OrientedBox3d, tolerance: number = Geometry.smallMetricDistance): boolean {
+    const centerToCenter = Vector3d.createStartEnd(this._localToWorld.origin, other._localToWorld.origin);
+    const axesA = [0, 1, 2].map((i: number) => this._localToWorld.matrix.getColumn(i));
+    const axesB = [0, 1, 2].map((i: number) => other._localToWorld.matrix.getColumn(i));
+    const candidates: Vector3d[] = [...axesA, ...axesB];
+    for (const axisA of axesA)
+      for (const axisB of axesB) {
+        const cross = axisA.crossProduct(axisB);
+        // parallel edges produce no new axis -- the face normals cover that case.
+        if (cross.normalizeInPlace())
+          candidates.push(cross);
+      }
+    for (const axis of candidates) {
+      const gap = Math.abs(centerToCenter.dotProduct(axis)) - this.projectedRadius(axis) - other.projectedRadius(axis);
+      if (gap > tolerance)
+        return false;
+    }
+    return true;
+  }
+  /**
+   * Fit a box to points.
+   * * See [[OrientedBoxMethod]] for the candidate directions considered by each method.
+   * * If the points are coplanar or colinear, some half-extents are zero.
+   * * Returns undefined if there are no points.
+   * @param points points to enclose
+   * @param method fitting method
+   */
+  public static createFromPoints(points: Point3d[] | GrowableXYZArray, method: OrientedBoxMethod = OrientedBoxMethod.MinimumVolume): OrientedBox3d | undefined {
+    let pointArray = points instanceof GrowableXYZArray ? points.getPoint3dArray() : points;
+    if (pointArray.length === 0)
+      return undefined;
+    const moments = MomentData.pointsToPrincipalAxes(pointArray);
+    const principalAxes = moments ? moments.localToWorldMap.matrix : Matrix3d.createIdentity();
+    let best = this.createCandidate(principalAxes, pointArray);
+    if (method !== OrientedBoxMethod.PrincipalAxes) {
+      const normals = [principalAxes.columnX(), principalAxes.columnY(), principalAxes.columnZ()];
+      if (method === OrientedBoxMethod.MinimumVolume) {
+        const hull = ConvexHull3d.createFromPoints(pointArray);
+        if (hull !== undefined) {
+          // only the hull vertices matter for the box . . .
+          pointArray = hull.data.point.getPoint3dArray();
+          this.appendFacetNormals(hull, normals);
+        }
+      }
+      for (const normal of normals) {
+        const candidate = this.createCalipersCandidate(normal, pointArray);
+        if (candidate !== undefined && this.isBetterCandidate(candidate, best))
+          best = candidate;
+      }
+    }
+    return this.createFromCandidate(best);
+  }
+  /**
+   * Fit a box to the points of a polyface.
+   * * See [[createFromPoints]].
+   */
+  public static createFromPolyface(polyface: Polyface, method: OrientedBoxMethod = OrientedBoxMethod.MinimumVolume): OrientedBox3d | undefined {
+    return this.createFromPoints(polyface.data.point, method);
+  }
+  /**
+   * Fit a box to geometry.
+   * * Points are collected as described by [[ConvexHull3d.collectPoints]].
+   * * See [[createFromPoints]].
+   */
+  public static createFromGeometry(geometry: GeometryQuery | GeometryQuery[], method: OrientedBoxMethod = OrientedBoxMethod.MinimumVolume, options?: StrokeOptions): OrientedBox3d | undefined {
+    const points = new GrowableXYZArray();
+    ConvexHull3d.collectPoints(geometry, points, options);
+    return this.createFromPoints(points, method);
+  }
+  /** Append unit normals of the facets of the polyface, skipping (near) duplicates of normals already present. */
+  private static appendFacetNormals(polyface: Polyface, normals: Vector3d[]) {
+    const visitor = polyface.createVisitor(0);
+    while (visitor.moveToNextFacet()) {
+      const normal = PolygonOps.areaNormalGo(visitor.point);
+      if (normal === undefined || !normal.normalizeInPlace())
+        continue;
+      // opposite normals give the same box.
+      if (normals.find((other: Vector3d) => Math.abs(Math.abs(other.dotProduct(normal)) - 1.0) < Geometry.smallAngleRadians))
+        continue;
+      normals.push(normal);
+    }
+  }
+  /** Return a candidate with the given (rigid) axes and the range of the points in that frame. */
+  private static createCandidate(axes: Matrix3d, points: Point3d[]): BoxCandidate {
+    const range = Range3d.createNull();
+    for (const point of points) {
+      const local = axes.multiplyTransposeXYZ(point.x, point.y, point.z);
+      range.extendXYZ(local.x, local.y, local.z);
+    }
+    return { axes, low: range.low, high: range.high };
+  }
+  /**
+   * Compare candidates by volume, then (for flat boxes) by area of the largest face, then (for colinear points) by length.
+   * * Each comparison uses a tolerance relative to the box size, so that roundoff does not decide between equivalent boxes.
+   */
+  private static isBetterCandidate(candidate: BoxCandidate, best: BoxCandidate): boolean {
+    const keyA = this.candidateSortKey(candidate);
+    const keyB = this.candidateSortKey(best);
+    const size = Math.max(keyA[2], keyB[2]);
+    for (let i = 0; i < 3; i++) {
+      const tolerance = Geometry.smallFraction * Math.pow(size, 3 - i);
+      if (keyA[i] < keyB[i] - tolerance)
+        return true;
+      if (keyA[i] > keyB[i] + tolerance)
+        return false;
+    }
+    return false;
+  }
+  private static candidateSortKey(candidate: BoxCandidate): number[] {
+    const extents = [0, 1, 2].map((i: number) => candidate.high.at(i) - candidate.low.at(i)).sort((a: number, b: number) => b - a);
+    return [extents[0] * extents[1] * extents[2], extents[0] * extents[1], extents[0]];
+  }
+  /**
+   * Return the candidate with one axis along `normal` and the other two chosen by rotating calipers
+   * to minimize the area of the rectangle enclosing the points projected to the plane perpendicular to `normal`.
+   */
+  private static createCalipersCandidate(normal: Vector3d, points: Point3d[]): BoxCandidate | undefined {
+    const frame = Matrix3d.createRigidHeadsUp(normal);
+    let zLow = Number.MAX_VALUE;
+    let zHigh = -Number.MAX_VALUE;
+    const planePoints: Point3d[] = [];
+    for (const point of points) {
+      const local = frame.multiplyTransposeXYZ(point.x, point.y, point.z);
+      planePoints.push(Point3d.create(local.x, local.y, 0));
+      zLow = Math.min(zLow, local.z);
+      zHigh = Math.max(zHigh, local.z);
+    }
+    const hull: Point3d[] = [];
+    Point3dArray.computeConvexHullXY(planePoints, hull, [], false);
+    const rectangle = this.minimumAreaRectangleXY(hull);
+    if (rectangle === undefined)
+      return undefined;
+    const u = rectangle.direction;
+    const vectorU = frame.multiplyXYZ(u.x, u.y, 0);
+    const vectorV = frame.multiplyXYZ(-u.y, u.x, 0);
+    const vectorW = frame.columnZ();
+    return {
+      axes: Matrix3d.createColumns(vectorU, vectorV, vectorW),
+      low: Point3d.create(rectangle.uLow, rectangle.vLow, zLow),
+      high: Point3d.create(rectangle.uHigh, rectangle.vHigh, zHigh),
+    };
+  }
+  /**
+   * Rotating calipers on a convex polygon (xy parts only).
+   * * The minimum area enclosing rectangle has a side collinear with a polygon edge.
+   * * As the edge advances around the polygon, the extreme points in the edge direction, its perpendicular,
+   *   and the negated edge direction advance monotonically, so all edges are examined in linear time.
+   * @returns unit direction of the best rectangle, and the coordinate ranges of the polygon along that direction (u) and its perpendicular (v).
+   */
+  private static minimumAreaRectangleXY(hull: Point3d[]): { direction: Vector3d, uLow: number, uHigh: number, vLow: number, vHigh: number } | undefined {
+    const n = hull.length;
+    if (n === 0)
+      return undefined;
+    if (n < 3 || PolygonOps.areaXY(hull) === 0.0) {
+      // colinear: the rectangle is the segment between the extreme points.
+      let iFar = 0;
+      for (let i = 1; i < n; i++)
+        if (hull[0].distanceXY(hull[i]) > hull[0].distanceXY(hull[iFar]))
+          iFar = i;
+      const direction = Vector3d.createStartEnd(hull[0], hull[iFar]);
+      direction.z = 0;
+      if (!direction.normalizeInPlace())
+        direction.set(1, 0, 0);
+      const u0 = direction.x * hull[0].x + direction.y * hull[0].y;
+      const v0 = -direction.y * hull[0].x + direction.x * hull[0].y;
+      return { direction, uLow: u0, uHigh: direction.x * hull[iFar].x + direction.y * hull[iFar].y, vLow: v0, vHigh: v0 };
+    }
+    if (PolygonOps.areaXY(hull) < 0.0)
+      hull.reverse();
+    const dotU = (k: number, ux: number, uy: number) => ux * hull[k % n].x + uy * hull[k % n].y;
+    const dotV = (k: number, ux: number, uy: number) => -uy * hull[k % n].x + ux * hull[k % n].y;
+    let iU = 0;
+    let iV = 0;
+    let iW = 0;
+    let bestArea = Number.MAX_VALUE;
+    let result;
+    for (let i = 0; i < n; i++) {
+      const direction = Vector3d.createStartEnd(hull[i], hull[(i + 1) % n]);
+      direction.z = 0;
+      if (!direction.normalizeInPlace())
+        continue;
+      const ux = direction.x;
+      const uy = direction.y;
+      if (result === undefined) {
+        // first edge: start the calipers at the edge start; they only advance from there.
+        iU = iV = iW = i;
+      }
+      // The polygon is on the left of the edge, so the minimum v is at the edge itself.
+      // Advance the calipers while their measure strictly increases (bounded by n steps).
+      for (let k = 0; k < n && dotU(iU + 1, ux, uy) >= dotU(iU, ux, uy); k++) iU++;
+      if (iV < iU) iV = iU;
+      for (let k = 0; k < n && dotV(iV + 1, ux, uy) >= dotV(iV, ux, uy); k++) iV++;
+      if (iW < iV) iW = iV;
+      for (let k = 0; k < n && dotU(iW + 1, ux, uy) <= dotU(iW, ux, uy); k++) iW++;
+      const uLow = dotU(iW, ux, uy);
+      const uHigh = dotU(iU, ux, uy);
+      const vLow = dotV(i, ux, uy);
+      const vHigh = dotV(iV, ux, uy);
+      const area = (uHigh - uLow) * (vHigh - vLow);
+      if (area < bestArea) {
+        bestArea = area;
+        result = { direction, uLow, uHigh, vLow, vHigh };
+      }
+    }
+    return result;
+  }
+  /**
+   * Convert a candidate to a box.
+   * * The axes are permuted so that the extents decrease from x to z, and z is negated if needed to keep the frame right handed.
+   */
+  private static createFromCandidate(candidate: BoxCandidate): OrientedBox3d {
+    const axes = candidate.axes;
+    const low = candidate.low;
+    const high = candidate.high;
+    const center = Point3d.createFrom(axes.multiplyXYZ(0.5 * (low.x + high.x), 0.5 * (low.y + high.y), 0.5 * (low.z + high.z)));
+    const order = [0, 1, 2].sort((i: number, j: number) => (high.at(j) - low.at(j)) - (high.at(i) - low.at(i)));
+    const columns = order.map((i: number) => axes.getColumn(i));
+    if (columns[0].tripleProduct(columns[1], columns[2]) < 0.0)
+      columns[2].scaleInPlace(-1.0);
+    const halfExtents = Vector3d.create(0.5 * (high.at(order[0]) - low.at(order[0])), 0.5 * (high.at(order[1]) - low.at(order[1])), 0.5 * (high.at(order[2]) - low.at(order[2])));
+    return new OrientedBox3d(Transform.createOriginAndMatrix(center, Matrix3d.createColumns(columns[0], columns[1], columns[2])), halfExtents);
+  }
+}
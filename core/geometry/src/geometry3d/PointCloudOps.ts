@@ -0,0 +1,336 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module CartesianGeometry
+ */
+
+import { LineString3d } from "../curve/LineString3d";
+import { Geometry } from "../Geometry";
+import { MomentData } from "../geometry4d/MomentData";
+import { GrowableXYZArray } from "./GrowableXYZArray";
+import { IndexedXYZCollection } from "./IndexedXYZCollection";
+import { Plane3dByOriginAndUnitNormal } from "./Plane3dByOriginAndUnitNormal";
+import { Point3d, Vector3d } from "./Point3dVector3d";
+import { Range3d } from "./Range";
+
+/**
+ * Options for [[PointCloudOps.fitPlaneRansac]].
+ * @beta
+ */
+export interface RansacPlaneOptions {
+  /** Maximum distance from the plane for a point to be counted as an inlier. */
+  distanceTolerance: number;
+  /** Number of random 3-point samples to test. Default 200. */
+  numIterations?: number;
+  /** Random number generator returning values in [0,1). Default is `Math.random`; supply a seeded generator for repeatable results. */
+  random?: () => number;
+}
+
+/**
+ * A plane fitted to the points of a point cloud.
+ * @beta
+ */
+export interface PointCloudPlaneFit {
+  /** The fitted plane. */
+  plane: Plane3dByOriginAndUnitNormal;
+  /** Indices of the points within the distance tolerance of the plane. */
+  inlierIndices: number[];
+}
+
+/**
+ * Spatial hash of point indices into cubic cells, for nearest neighbor searches.
+ * @internal
+ */
+class PointCellGrid {
+  private _points: IndexedXYZCollection;
+  private _cellSize: number;
+  private _cells: Map<string, number[]>;
+  /** Largest number of cells between any two points along any axis. */
+  private _maxCellSpan: number;
+  public constructor(points: IndexedXYZCollection, cellSize: number) {
+    this._points = points;
+    this._cellSize = cellSize;
+    this._cells = new Map<string, number[]>();
+    const cellRange = Range3d.createNull();
+    for (let i = 0; i < points.length; i++) {
+      const ix = this.cellIndex(points.getXAtUncheckedPointIndex(i));
+      const iy = this.cellIndex(points.getYAtUncheckedPointIndex(i));
+      const iz = this.cellIndex(points.getZAtUncheckedPointIndex(i));
+      cellRange.extendXYZ(ix, iy, iz);
+      const key = PointCellGrid.cellKey(ix, iy, iz);
+      const cell = this._cells.get(key);
+      if (cell)
+        cell.push(i);
+      else
+        this._cells.set(key, [i]);
+    }
+    this._maxCellSpan = cellRange.isNull ? 0 : cellRange.maxLength();
+  }
+  private cellIndex(a: number): number { return Math.floor(a / this._cellSize); }
+  private static cellKey(ix: number, iy: number, iz: number): string { return `${ix},${iy},${iz}`; }
+  /**
+   * Return the distances from a point to its nearest other points, in increasing order.
+   * * Fewer than `numNeighbors` distances are returned only if the cloud has fewer other points.
+   */
+  public nearestNeighborDistances(pointIndex: number, numNeighbors: number): number[] {
+    const x = this._points.getXAtUncheckedPointIndex(pointIndex);
+    const y = this._points.getYAtUncheckedPointIndex(pointIndex);
+    const z = this._points.getZAtUncheckedPointIndex(pointIndex);
+    const ix = this.cellIndex(x);
+    const iy = this.cellIndex(y);
+    const iz = this.cellIndex(z);
+    const distances: number[] = [];
+    // search rings of cells at increasing (chebychev) cell distance.
+    // Any point beyond ring r is at least r * cellSize away.
+    for (let r = 0; r <= this._maxCellSpan; r++) {
+      for (let di = -r; di <= r; di++) {
+        for (let dj = -r; dj <= r; dj++) {
+          const dkStep = (Math.abs(di) === r || Math.abs(dj) === r) ? 1 : 2 * r;
+          for (let dk = -r; dk <= r; dk += dkStep) {
+            const cell = this._cells.get(PointCellGrid.cellKey(ix + di, iy + dj, iz + dk));
+            if (cell) {
+              for (const j of cell) {
+                if (j !== pointIndex)
+                  distances.push(Geometry.distanceXYZXYZ(x, y, z,
+                    this._points.getXAtUncheckedPointIndex(j), this._points.getYAtUncheckedPointIndex(j), this._points.getZAtUncheckedPointIndex(j)));
+              }
+            }
+          }
+        }
+      }
+      if (distances.length >= numNeighbors) {
+        distances.sort((a: number, b: number) => a - b);
+        if (distances[numNeighbors - 1] <= r * this._cellSize)
+          break;
+      }
+    }
+    distances.sort((a: number, b: number) => a - b);
+    distances.length = Math.min(distances.length, numNeighbors);
+    return distances;
+  }
+  /**
+   * Return a cell size for which a cell holds about `pointsPerCell` points, assuming points are evenly spread over the
+   * dimensions in which the range has nonzero extent.
+   */
+  public static chooseCellSize(range: Range3d, numPoints: number, pointsPerCell: number): number {
+    const tolerance = Geometry.smallMetricDistance * Math.max(1.0, range.maxAbs());
+    let product = 1.0;
+    let numDimensions = 0;
+    for (const extent of [range.xLength(), range.yLength(), range.zLength()]) {
+      if (extent > tolerance) {
+        product *= extent;
+        numDimensions++;
+      }
+    }
+    if (numDimensions === 0 || numPoints === 0)
+      return 1.0;
+    return Math.pow(product * pointsPerCell / numPoints, 1.0 / numDimensions);
+  }
+}
+
+/**
+ * PointCloudOps is a collection of static methods for analysis of point clouds.
+ * * Points are given as an [[IndexedXYZCollection]], e.g. a [[GrowableXYZArray]] filled from a point cloud tile.
+ * @beta
+ */
+export class PointCloudOps {
+  /**
+   * Return the centroids of the points in each cubic voxel of a grid.
+   * * The grid has a voxel corner at the origin.
+   * * Centroids are returned in the order their voxels are first entered by the input points.
+   * @param points points to downsample.
+   * @param voxelSize edge length of the voxels.
+   * @param result optional array to receive the centroids.
+   */
+  public static voxelDownsample(points: IndexedXYZCollection, voxelSize: number, result?: GrowableXYZArray): GrowableXYZArray {
+    result = result ? result : new GrowableXYZArray();
+    result.clear();
+    if (!(voxelSize > 0.0))
+      return result;
+    const sums = new Map<string, { sum: Point3d, count: number }>();
+    for (let i = 0; i < points.length; i++) {
+      const x = points.getXAtUncheckedPointIndex(i);
+      const y = points.getYAtUncheckedPointIndex(i);
+      const z = points.getZAtUncheckedPointIndex(i);
+      const key = `${Math.floor(x / voxelSize)},${Math.floor(y / voxelSize)},${Math.floor(z / voxelSize)}`;
+      const voxel = sums.get(key);
+      if (voxel) {
+        voxel.sum.addXYZInPlace(x, y, z);
+        voxel.count++;
+      } else {
+        sums.set(key, { sum: Point3d.create(x, y, z), count: 1 });
+      }
+    }
+    for (const voxel of sums.values())
+      result.pushXYZ(voxel.sum.x / voxel.count, voxel.sum.y / voxel.count, voxel.sum.z / voxel.count);
+    return result;
+  }
+  /**
+   * Return the indices of points whose mean distance to their nearest neighbors is unusually large.
+   * * For each point, the mean distance `d` to its `numNeighbors` nearest other points is computed.
+   * * A point is an outlier if its `d` exceeds the mean of all `d` by more than `stdDevMultiplier` standard deviations.
+   * @param points points to examine.
+   * @param numNeighbors number of neighbors considered for each point.
+   * @param stdDevMultiplier number of standard deviations beyond the mean for a point to be an outlier.
+   */
+  public static findStatisticalOutlierIndices(points: IndexedXYZCollection, numNeighbors: number, stdDevMultiplier: number = 1.0): number[] {
+    const numPoints = points.length;
+    if (numPoints < 2 || numNeighbors < 1)
+      return [];
+    const grid = new PointCellGrid(points, PointCellGrid.chooseCellSize(points.getRange(), numPoints, numNeighbors));
+    const meanDistances: number[] = [];
+    let sum = 0.0;
+    for (let i = 0; i < numPoints; i++) {
+      const distances = grid.nearestNeighborDistances(i, numNeighbors);
+      let d = 0.0;
+      for (const distance of distances)
+        d += distance;
+      d /= distances.length;
+      meanDistances.push(d);
+      sum += d;
+    }
+    const mean = sum / numPoints;
+    let sumSquares = 0.0;
+    for (const d of meanDistances)
+      sumSquares += (d - mean) * (d - mean);
+    const threshold = mean + stdDevMultiplier * Math.sqrt(sumSquares / numPoints);
+    const outliers = [];
+    for (let i = 0; i < numPoints; i++) {
+      if (meanDistances[i] > threshold)
+        outliers.push(i);
+    }
+    return outliers;
+  }
+  /**
+   * Return the points that are not outliers as determined by [[findStatisticalOutlierIndices]].
+   * @param points points to filter.
+   * @param numNeighbors number of neighbors considered for each point.
+   * @param stdDevMultiplier number of standard deviations beyond the mean for a point to be an outlier.
+   * @param result optional array to receive the retained points.
+   */
+  public static removeStatisticalOutliers(points: IndexedXYZCollection, numNeighbors: number, stdDevMultiplier: number = 1.0, result?: GrowableXYZArray): GrowableXYZArray {
+    result = result ? result : new GrowableXYZArray();
+    result.clear();
+    const outliers = this.findStatisticalOutlierIndices(points, numNeighbors, stdDevMultiplier);
+    let k = 0;
+    for (let i = 0; i < points.length; i++) {
+      if (k < outliers.length && outliers[k] === i)
+        k++;
+      else
+        result.pushXYZ(points.getXAtUncheckedPointIndex(i), points.getYAtUncheckedPointIndex(i), points.getZAtUncheckedPointIndex(i));
+    }
+    return result;
+  }
+  /**
+   * Fit a plane to the points by random sample consensus (RANSAC).
+   * * Each iteration passes a plane through 3 randomly chosen points and counts the points within `options.distanceTolerance` of it.
+   * * The plane with the most such inliers is refined by a least squares fit to its inliers.
+   * @returns the fitted plane and its inliers, or undefined if no 3 sampled points were independent.
+   */
+  public static fitPlaneRansac(points: IndexedXYZCollection, options: RansacPlaneOptions): PointCloudPlaneFit | undefined {
+    const numPoints = points.length;
+    if (numPoints < 3)
+      return undefined;
+    const random = options.random ?? Math.random;
+    const numIterations = options.numIterations ?? 200;
+    const origin = Point3d.create();
+    const normal = Vector3d.create();
+    const plane = Plane3dByOriginAndUnitNormal.createXYPlane();
+    let bestPlane: Plane3dByOriginAndUnitNormal | undefined;
+    let bestCount = 0;
+    for (let iteration = 0; iteration < numIterations; iteration++) {
+      const i0 = Math.floor(random() * numPoints);
+      const i1 = Math.floor(random() * numPoints);
+      const i2 = Math.floor(random() * numPoints);
+      if (i0 === i1 || i1 === i2 || i2 === i0 || !points.crossProductIndexIndexIndex(i0, i1, i2, normal))
+        continue;
+      // reject nearly collinear samples
+      const edgeProduct = points.distanceIndexIndex(i0, i1)! * points.distanceIndexIndex(i0, i2)!;
+      if (normal.magnitude() <= Geometry.smallAngleRadians * edgeProduct || !normal.normalizeInPlace())
+        continue;
+      plane.set(points.getPoint3dAtUncheckedPointIndex(i0, origin), normal);
+      const count = this.countPointsNearPlane(points, plane, options.distanceTolerance);
+      if (count > bestCount) {
+        bestCount = count;
+        bestPlane = plane.clone(bestPlane);
+      }
+    }
+    if (!bestPlane)
+      return undefined;
+    let inlierIndices = this.collectPointsNearPlane(points, bestPlane, options.distanceTolerance);
+    const inlierPoints = inlierIndices.map((i: number) => points.getPoint3dAtUncheckedPointIndex(i));
+    const moments = MomentData.pointsToPrincipalAxes(inlierPoints);
+    if (moments) {
+      // planar data has its largest moment about the local z axis
+      const refinedPlane = Plane3dByOriginAndUnitNormal.create(moments.localToWorldMap.getOrigin(), moments.localToWorldMap.matrix.columnZ());
+      if (refinedPlane) {
+        const refinedIndices = this.collectPointsNearPlane(points, refinedPlane, options.distanceTolerance);
+        if (refinedIndices.length >= inlierIndices.length) {
+          bestPlane = refinedPlane;
+          inlierIndices = refinedIndices;
+        }
+      }
+    }
+    return { plane: bestPlane, inlierIndices };
+  }
+  private static countPointsNearPlane(points: IndexedXYZCollection, plane: Plane3dByOriginAndUnitNormal, tolerance: number): number {
+    let count = 0;
+    for (let i = 0; i < points.length; i++) {
+      if (Math.abs(plane.altitudeXYZ(points.getXAtUncheckedPointIndex(i), points.getYAtUncheckedPointIndex(i), points.getZAtUncheckedPointIndex(i))) <= tolerance)
+        count++;
+    }
+    return count;
+  }
+  private static collectPointsNearPlane(points: IndexedXYZCollection, plane: Plane3dByOriginAndUnitNormal, tolerance: number): number[] {
+    const indices = [];
+    for (let i = 0; i < points.length; i++) {
+      if (Math.abs(plane.altitudeXYZ(points.getXAtUncheckedPointIndex(i), points.getYAtUncheckedPointIndex(i), points.getZAtUncheckedPointIndex(i))) <= tolerance)
+        indices.push(i);
+    }
+    return indices;
+  }
+  /**
+   * Extract a section of the point cloud along a plane.
+   * * Points within `halfThickness` of the plane are projected to the plane.
+   * * The projected points are ordered along their direction of greatest spread within the plane, so the section
+   *   should be monotone along that direction (e.g. a terrain profile or a cut through a wall). Closed sections are not traced around.
+   * * Successive points farther apart than `maxGap` start a new linestring.
+   * @param points points to section.
+   * @param plane section plane.
+   * @param halfThickness largest distance from the plane of points included in the section.
+   * @param maxGap largest distance between successive points of a linestring. Default is no limit.
+   * @returns linestrings of the section. Runs of fewer than 2 points are omitted.
+   */
+  public static sectionByPlane(points: IndexedXYZCollection, plane: Plane3dByOriginAndUnitNormal, halfThickness: number, maxGap?: number): LineString3d[] {
+    const projected: Point3d[] = [];
+    const point = Point3d.create();
+    for (let i = 0; i < points.length; i++) {
+      points.getPoint3dAtUncheckedPointIndex(i, point);
+      if (Math.abs(plane.altitude(point)) <= halfThickness)
+        projected.push(plane.projectPointToPlane(point));
+    }
+    if (projected.length < 2)
+      return [];
+    const moments = MomentData.pointsToPrincipalAxes(projected);
+    const direction = moments ? moments.localToWorldMap.matrix.columnX() : plane.getLocalToWorld().matrix.columnX();
+    const origin = projected[0].clone();
+    const sortable = projected.map((p: Point3d) => ({ point: p, a: direction.dotProductStartEnd(origin, p) }));
+    sortable.sort((dataA: { a: number }, dataB: { a: number }) => dataA.a - dataB.a);
+
+    const result: LineString3d[] = [];
+    let current = LineString3d.create();
+    for (const data of sortable) {
+      if (maxGap !== undefined && current.numPoints() > 0 && current.endPoint().distance(data.point) > maxGap) {
+        if (current.numPoints() > 1)
+          result.push(current);
+        current = LineString3d.create();
+      }
+      current.addPoint(data.point);
+    }
+    if (current.numPoints() > 1)
+      result.push(current);
+    return result;
+  }
+}
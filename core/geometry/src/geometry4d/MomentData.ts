@@ -330,6 +330,26 @@ export class MomentData {
       this.sums.addScaledOuterProductInPlace(vectorC, vectorC, r1_12);
     }
   }
+  /** compute moments of the (infinitesimal) triangle swept by the vector from the origin to a moving point.
+   * Accumulate them to this.sums.
+   * * The point moves along a curve with the given derivative.
+   * * `weight` is the (e.g. quadrature) weight of this sample in an integral along the curve.
+   * * If `this.needOrigin` is set, `point` is used.
+   */
+  public accumulateSweptMomentsXY(point: XAndY, derivative: XAndY, weight: number) {
+    this.setOriginXYZIfNeeded(point.x, point.y, 0.0);
+    const vectorA = MomentData._vectorA = Point4d.create(0, 0, 0, 1, MomentData._vectorA);
+    const vectorB = MomentData._vectorB = Point4d.create(point.x - this.origin.x, point.y - this.origin.y, 0, 0, MomentData._vectorB);
+    // integrate over the triangle with sweep fraction s from the origin:  area density is 2s, point is (s*vectorB + vectorA)
+    const dA = 0.5 * weight * Geometry.crossProductXYXY(vectorB.x, vectorB.y, derivative.x, derivative.y);
+    if (dA !== 0.0) {
+      const r2_3 = 2.0 * dA / 3.0;
+      this.sums.addScaledOuterProductInPlace(vectorA, vectorA, dA);
+      this.sums.addScaledOuterProductInPlace(vectorA, vectorB, r2_3);
+      this.sums.addScaledOuterProductInPlace(vectorB, vectorA, r2_3);
+      this.sums.addScaledOuterProductInPlace(vectorB, vectorB, 0.5 * dA);
+    }
+  }
   /** add scaled outer product of (4d, unit weight) point to this.sums */
   public accumulateScaledOuterProduct(point: XYAndZ, scaleFactor: number) {
     this.setOriginXYZIfNeeded(point.x, point.y, 0.0);
@@ -0,0 +1,377 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+
+/** @packageDocumentation
+ * @module Polyface
+ */
+
+import { BSplineSurface3d, BSplineSurface3dH } from "../bspline/BSplineSurface";
+import { CoordinateXYZ } from "../curve/CoordinateXYZ";
+import { CurveCollection } from "../curve/CurveCollection";
+import { CurvePrimitive } from "../curve/CurvePrimitive";
+import { GeometryQuery } from "../curve/GeometryQuery";
+import { LineString3d } from "../curve/LineString3d";
+import { PointString3d } from "../curve/PointString3d";
+import { StrokeOptions } from "../curve/StrokeOptions";
+import { Geometry } from "../Geometry";
+import { GrowableXYZArray } from "../geometry3d/GrowableXYZArray";
+import { Matrix3d } from "../geometry3d/Matrix3d";
+import { Point3d, Vector3d } from "../geometry3d/Point3dVector3d";
+import { Point3dArray } from "../geometry3d/PointHelpers";
+import { PolygonOps } from "../geometry3d/PolygonOps";
+import { SolidPrimitive } from "../solid/SolidPrimitive";
+import { IndexedPolyface, Polyface } from "./Polyface";
+import { PolyfaceBuilder } from "./PolyfaceBuilder";
+
+/**
+ * A triangle of the hull under construction, with its outward plane and the points that are still outside it.
+ * @internal
+ */
+class HullFace {
+  public readonly indices: number[];
+  public readonly normal: Vector3d;
+  public readonly altitude0: number;
+  public outsidePoints: number[] = [];
+  public isAlive = true;
+  public constructor(points: Point3d[], indexA: number, indexB: number, indexC: number) {
+    this.indices = [indexA, indexB, indexC];
+    this.normal = Vector3d.createCrossProductToPoints(points[indexA], points[indexB], points[indexC]);
+    this.normal.normalizeInPlace();
+    this.altitude0 = this.normal.dotProduct(points[indexA]);
+  }
+  /** Return the signed distance from the plane of this face to the point. */
+  public altitude(point: Point3d): number {
+    return this.normal.dotProduct(point) - this.altitude0;
+  }
+}
+
+/**
+ * Quickhull construction context.
+ * * Faces are triangles with outward normals.
+ * * Adjacency is found through a map from directed edge (start, end) to the face that has that edge.
+ * @internal
+ */
+class QuickHullContext {
+  private _points: Point3d[];
+  private _tolerance: number;
+  private _edgeToFace = new Map<number, HullFace>();
+  private _faces: HullFace[] = [];
+  public constructor(points: Point3d[], tolerance: number) {
+    this._points = points;
+    this._tolerance = tolerance;
+  }
+  private edgeKey(indexA: number, indexB: number): number { return indexA * this._points.length + indexB; }
+
+  private addFace(indexA: number, indexB: number, indexC: number): HullFace {
+    const face = new HullFace(this._points, indexA, indexB, indexC);
+    this._faces.push(face);
+    for (let i = 0; i < 3; i++)
+      this._edgeToFace.set(this.edgeKey(face.indices[i], face.indices[(i + 1) % 3]), face);
+    return face;
+  }
+  private removeFace(face: HullFace) {
+    face.isAlive = false;
+    for (let i = 0; i < 3; i++) {
+      const key = this.edgeKey(face.indices[i], face.indices[(i + 1) % 3]);
+      if (this._edgeToFace.get(key) === face)
+        this._edgeToFace.delete(key);
+    }
+  }
+  /** Assign the point to the first face that it is outside of.  Return false if it is inside all faces. */
+  private assignOutsidePoint(pointIndex: number, faces: HullFace[]): boolean {
+    const point = this._points[pointIndex];
+    for (const face of faces) {
+      if (face.isAlive && face.altitude(point) > this._tolerance) {
+        face.outsidePoints.push(pointIndex);
+        return true;
+      }
+    }
+    return false;
+  }
+  /** Return the index of the point at maximum distance from the line through points i0 and i1. */
+  private farthestFromLine(i0: number, i1: number): { index: number, distance: number } {
+    const result = { index: -1, distance: 0 };
+    const pointA = this._points[i0];
+    const direction = Vector3d.createStartEnd(pointA, this._points[i1]);
+    direction.normalizeInPlace();
+    for (let i = 0; i < this._points.length; i++) {
+      const distance = direction.crossProductStartEnd(pointA, this._points[i]).magnitude();
+      if (distance > result.distance) {
+        result.index = i;
+        result.distance = distance;
+      }
+    }
+    return result;
+  }
+  /**
+   * Find four points that span a tetrahedron and create its (outward) faces.
+   * * Return false if all points are within tolerance of a plane.
+   */
+  private createInitialTetrahedron(): boolean {
+    const points = this._points;
+    // extreme pair along the axis of largest spread . . .
+    let i0 = 0;
+    let i1 = 0;
+    let maxSpread = -1;
+    for (let axis = 0; axis < 3; axis++) {
+      let iMin = 0;
+      let iMax = 0;
+      for (let i = 1; i < points.length; i++) {
+        if (points[i].at(axis) < points[iMin].at(axis))
+          iMin = i;
+        if (points[i].at(axis) > points[iMax].at(axis))
+          iMax = i;
+      }
+      const spread = points[iMax].at(axis) - points[iMin].at(axis);
+      if (spread > maxSpread) {
+        maxSpread = spread;
+        i0 = iMin;
+        i1 = iMax;
+      }
+    }
+    if (maxSpread <= this._tolerance)
+      return false;
+    const lineData = this.farthestFromLine(i0, i1);
+    if (lineData.distance <= this._tolerance)
+      return false;
+    let i2 = lineData.index;
+    const normal = Vector3d.createCrossProductToPoints(points[i0], points[i1], points[i2]);
+    normal.normalizeInPlace();
+    let i3 = -1;
+    let maxAltitude = 0;
+    for (let i = 0; i < points.length; i++) {
+      const altitude = Math.abs(normal.dotProductStartEnd(points[i0], points[i]));
+      if (altitude > maxAltitude) {
+        maxAltitude = altitude;
+        i3 = i;
+      }
+    }
+    if (maxAltitude <= this._tolerance)
+      return false;
+    // orient so that i3 is below the plane of (i0, i1, i2) ...
+    if (normal.dotProductStartEnd(points[i0], points[i3]) > 0.0) {
+      const i = i1;
+      i1 = i2;
+      i2 = i;
+    }
+    const faces = [
+      this.addFace(i0, i1, i2),
+      this.addFace(i0, i3, i1),
+      this.addFace(i1, i3, i2),
+      this.addFace(i2, i3, i0)];
+    for (let i = 0; i < points.length; i++) {
+      if (i !== i0 && i !== i1 && i !== i2 && i !== i3)
+        this.assignOutsidePoint(i, faces);
+    }
+    return true;
+  }
+  /** Add the farthest outside point of the face to the hull. */
+  private expandHull(face: HullFace) {
+    const points = this._points;
+    let eyeIndex = face.outsidePoints[0];
+    let maxAltitude = face.altitude(points[eyeIndex]);
+    for (const i of face.outsidePoints) {
+      const altitude = face.altitude(points[i]);
+      if (altitude > maxAltitude) {
+        maxAltitude = altitude;
+        eyeIndex = i;
+      }
+    }
+    const eyePoint = points[eyeIndex];
+    // flood from the face to all faces visible from the eye point . . .
+    const visibleFaces = [face];
+    const isVisible = new Set<HullFace>(visibleFaces);
+    const horizon: number[] = [];
+    // (the array iterator also visits faces pushed during the loop)
+    for (const visibleFace of visibleFaces) {
+      for (let i = 0; i < 3; i++) {
+        const indexA = visibleFace.indices[i];
+        const indexB = visibleFace.indices[(i + 1) % 3];
+        const neighbor = this._edgeToFace.get(this.edgeKey(indexB, indexA));
+        if (neighbor === undefined || isVisible.has(neighbor))
+          continue;
+        if (neighbor.altitude(eyePoint) > this._tolerance) {
+          isVisible.add(neighbor);
+          visibleFaces.push(neighbor);
+        }
+      }
+    }
+    // horizon edges are edges of visible faces whose neighbor is not visible.
+    for (const visibleFace of visibleFaces) {
+      for (let i = 0; i < 3; i++) {
+        const indexA = visibleFace.indices[i];
+        const indexB = visibleFace.indices[(i + 1) % 3];
+        const neighbor = this._edgeToFace.get(this.edgeKey(indexB, indexA));
+        if (neighbor === undefined || !isVisible.has(neighbor))
+          horizon.push(indexA, indexB);
+      }
+    }
+    const orphans: number[] = [];
+    for (const visibleFace of visibleFaces) {
+      for (const i of visibleFace.outsidePoints)
+        if (i !== eyeIndex)
+          orphans.push(i);
+      visibleFace.outsidePoints.length = 0;
+      this.removeFace(visibleFace);
+    }
+    const newFaces: HullFace[] = [];
+    for (let i = 0; i + 1 < horizon.length; i += 2)
+      newFaces.push(this.addFace(horizon[i], horizon[i + 1], eyeIndex));
+    for (const i of orphans)
+      this.assignOutsidePoint(i, newFaces);
+  }
+  /**
+   * Construct the hull.
+   * * Return the (alive) triangles as index triples, or undefined if the points are coplanar.
+   */
+  public computeTriangles(): number[][] | undefined {
+    if (this._points.length < 4 || !this.createInitialTetrahedron())
+      return undefined;
+    // new faces are pushed onto this._faces (and visited) as the hull expands.
+    for (const face of this._faces) {
+      if (face.isAlive && face.outsidePoints.length > 0)
+        this.expandHull(face);
+    }
+    const triangles: number[][] = [];
+    for (const face of this._faces)
+      if (face.isAlive)
+        triangles.push(face.indices);
+    return triangles;
+  }
+}
+
+/**
+ * Static methods to compute the convex hull of points in 3d.
+ * * The hull is returned as a closed [IndexedPolyface]($geometry-core) with outward-facing triangles.
+ * * If all points are coplanar, the hull is a single convex polygon facet.
+ * * If all points are colinear (or there are fewer than 3 points), there is no hull and `undefined` is returned.
+ * @beta
+ */
+export class ConvexHull3d {
+  /**
+   * Append points that represent the geometry to the array.
+   * * Curves are stroked, and solids are faceted, according to `options`.
+   * * Bspline surfaces contribute their poles, which enclose the surface.
+   * * Other geometry (e.g. polyface, point string) contributes its points.
+   * @param geometry geometry to collect
+   * @param points destination array
+   * @param options stroke options for curves and solids
+   */
+  public static collectPoints(geometry: GeometryQuery | GeometryQuery[], points: GrowableXYZArray, options?: StrokeOptions) {
+    if (Array.isArray(geometry)) {
+      for (const g of geometry)
+        this.collectPoints(g, points, options);
+    } else if (geometry instanceof CurvePrimitive) {
+      const strokes = LineString3d.create();
+      geometry.emitStrokes(strokes, options);
+      points.pushFromGrowableXYZArray(strokes.packedPoints);
+    } else if (geometry instanceof CurveCollection) {
+      for (const primitive of geometry.collectCurvePrimitives())
+        this.collectPoints(primitive, points, options);
+    } else if (geometry instanceof Polyface) {
+      points.pushFromGrowableXYZArray(geometry.data.point);
+    } else if (geometry instanceof PointString3d) {
+      points.pushAll(geometry.points);
+    } else if (geometry instanceof CoordinateXYZ) {
+      points.push(geometry.point);
+    } else if (geometry instanceof BSplineSurface3d || geometry instanceof BSplineSurface3dH) {
+      const numU = geometry.numPolesUV(0);
+      const numV = geometry.numPolesUV(1);
+      for (let j = 0; j < numV; j++)
+        for (let i = 0; i < numU; i++) {
+          const pole = geometry.getPole(i, j);
+          if (pole)
+            points.push(pole);
+        }
+    } else if (geometry instanceof SolidPrimitive) {
+      const builder = PolyfaceBuilder.create(options);
+      builder.addGeometryQuery(geometry);
+      points.pushFromGrowableXYZArray(builder.claimPolyface(true).data.point);
+    }
+  }
+  /**
+   * Compute the convex hull of points.
+   * @param points points to enclose
+   * @param tolerance distance tolerance for deciding that a point is outside a hull face.
+   */
+  public static createFromPoints(points: Point3d[] | GrowableXYZArray, tolerance: number = Geometry.smallMetricDistance): IndexedPolyface | undefined {
+    const pointArray = points instanceof GrowableXYZArray ? points.getPoint3dArray() : points;
+    const context = new QuickHullContext(pointArray, tolerance);
+    const triangles = context.computeTriangles();
+    if (triangles === undefined)
+      return this.createPlanarHull(pointArray, tolerance);
+    const polyface = IndexedPolyface.create();
+    const newIndex = new Map<number, number>();
+    for (const triangle of triangles) {
+      for (const i of triangle) {
+        let index = newIndex.get(i);
+        if (index === undefined) {
+          index = polyface.addPoint(pointArray[i]);
+          newIndex.set(i, index);
+        }
+        polyface.addPointIndex(index);
+      }
+      polyface.terminateFacet();
+    }
+    return polyface;
+  }
+  /** Compute the convex hull of the points of a polyface. */
+  public static createFromPolyface(polyface: Polyface, tolerance: number = Geometry.smallMetricDistance): IndexedPolyface | undefined {
+    return this.createFromPoints(polyface.data.point, tolerance);
+  }
+  /**
+   * Compute the convex hull of geometry.
+   * * See [[collectPoints]] for the points used for each type of geometry.
+   */
+  public static createFromGeometry(geometry: GeometryQuery | GeometryQuery[], options?: StrokeOptions, tolerance: number = Geometry.smallMetricDistance): IndexedPolyface | undefined {
+    const points = new GrowableXYZArray();
+    this.collectPoints(geometry, points, options);
+    return this.createFromPoints(points, tolerance);
+  }
+  /** Return a single-facet polyface for the hull of coplanar points, or undefined if the points are colinear. */
+  private static createPlanarHull(points: Point3d[], tolerance: number): IndexedPolyface | undefined {
+    if (points.length < 3)
+      return undefined;
+    const normal = PolygonOps.areaNormal(points);
+    // the area normal of scattered points can vanish; fall back to the cross product of the most distant points.
+    let maxCross = normal.magnitude();
+    for (let i = 1; i < points.length && maxCross <= tolerance * tolerance; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        const cross = Vector3d.createCrossProductToPoints(points[0], points[i], points[j]);
+        if (cross.magnitude() > maxCross) {
+          maxCross = cross.magnitude();
+          normal.setFrom(cross);
+        }
+      }
+    }
+    if (maxCross <= tolerance * tolerance)
+      return undefined;
+    const frame = Matrix3d.createRigidHeadsUp(normal);
+    const localPoints = points.map((point: Point3d) => Point3d.createFrom(frame.multiplyTransposeXYZ(point.x, point.y, point.z)));
+    const hullPoints: Point3d[] = [];
+    Point3dArray.computeConvexHullXY(localPoints, hullPoints, [], false);
+    if (hullPoints.length < 3)
+      return undefined;
+    // roundoff in the local frame can leave points along hull edges; drop them.
+    for (let i = 0; i < hullPoints.length && hullPoints.length > 3;) {
+      const n = hullPoints.length;
+      const pointA = hullPoints[(i + n - 1) % n];
+      const pointC = hullPoints[(i + 1) % n];
+      if (Math.abs(pointA.crossProductToPointsXY(hullPoints[i], pointC)) <= tolerance * pointA.distanceXY(pointC))
+        hullPoints.splice(i, 1);
+      else
+        i++;
+    }
+    if (PolygonOps.areaXY(hullPoints) < 0.0)
+      hullPoints.reverse();
+    const polyface = IndexedPolyface.create();
+    for (const localPoint of hullPoints) {
+      const worldPoint = Point3d.createFrom(frame.multiplyXYZ(localPoint.x, localPoint.y, localPoint.z));
+      polyface.addPointIndex(polyface.addPoint(worldPoint));
+    }
+    polyface.terminateFacet();
+    return polyface;
+  }
+}
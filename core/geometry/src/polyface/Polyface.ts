@@ -499,6 +499,25 @@ export class IndexedPolyface extends Polyface {
   public getFaceDataByFacetIndex(facetIndex: number): FacetFaceData {
     return this.data.face[this._facetToFaceData[facetIndex]];
   }
+  /** Given the index of a facet, return the index of the face it is a part of, or undefined if the facet has not been assigned to a face. */
+  public tryGetFaceIndex(facetIndex: number): number | undefined {
+    if (!this.isValidFacetIndex(facetIndex) || facetIndex >= this._facetToFaceData.length)
+      return undefined;
+    return this._facetToFaceData[facetIndex];
+  }
+  /**
+   * Return the indices of the facets in each face.
+   * * Entry [i] of the returned array lists the facets whose face data is `this.data.face[i]`.
+   * * Facets that have not been assigned to a face are not listed.
+   */
+  public collectFacetIndicesByFace(): number[][] {
+    const result: number[][] = [];
+    for (let i = 0; i < this.faceCount; i++)
+      result.push([]);
+    for (let facetIndex = 0; facetIndex < this._facetToFaceData.length && facetIndex < this.facetCount; facetIndex++)
+      result[this._facetToFaceData[facetIndex]].push(facetIndex);
+    return result;
+  }
 
   /**
    * All terminated facets since the last face declaration will be mapped to a single new FacetFaceData object
@@ -510,7 +529,7 @@ export class IndexedPolyface extends Polyface {
       return false;
 
     if (0 === endFacetIndex)  // The default for endFacetIndex is really the last facet
-      endFacetIndex = this._facetStart.length; // Last facetStart index corresponds to the next facet if we were to create one
+      endFacetIndex = this.facetCount; // facetCount is the index of the next facet if we were to create one
 
     const faceData = FacetFaceData.createNull();
     const visitor = IndexedPolyfaceVisitor.create(this, 0);
@@ -0,0 +1,653 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+
+/** @packageDocumentation
+ * @module Polyface
+ */
+
+import { Geometry } from "../Geometry";
+import { GrowableXYZArray } from "../geometry3d/GrowableXYZArray";
+import { Matrix3d } from "../geometry3d/Matrix3d";
+import { Point2d } from "../geometry3d/Point2dVector2d";
+import { Point3d, Vector3d } from "../geometry3d/Point3dVector3d";
+import { PolygonOps } from "../geometry3d/PolygonOps";
+import { Range3d } from "../geometry3d/Range";
+import { ClusterableArray } from "../numerics/ClusterableArray";
+import { UnionFindContext } from "../numerics/UnionFind";
+import { HalfEdge, HalfEdgeGraph, HalfEdgeMask } from "../topology/Graph";
+import { HalfEdgeGraphMerge } from "../topology/Merging";
+import { RegularizationContext } from "../topology/RegularizeFace";
+import { Triangulator } from "../topology/Triangulation";
+import { IndexedPolyface } from "./Polyface";
+import { PolyfaceQuery } from "./PolyfaceQuery";
+
+/** Boolean operation selector. */
+enum BooleanOp { Union, Intersection, Difference }
+
+/** Position of a connected set of pieces relative to the other mesh. */
+enum PieceClass { Outside, Inside, OnSame, OnOpposite }
+
+/** Mask for triangle boundary edges in the per-triangle graphs. (Must be one of the masks that survive edge splits.) */
+const boundaryMask = HalfEdgeMask.PRIMARY_EDGE;
+/** Mask for edges along the intersection with the other mesh. (Must be one of the masks that survive edge splits.) */
+const cutMask = HalfEdgeMask.BOUNDARY_EDGE;
+
+/** Weights of the three vertices of a triangle. */
+type Barycentric = [number, number, number];
+
+/** Return true if point `a` is lexically before point `b`. */
+function isLexicallyBefore(a: Point3d, b: Point3d): boolean {
+  if (a.x !== b.x)
+    return a.x < b.x;
+  if (a.y !== b.y)
+    return a.y < b.y;
+  return a.z < b.z;
+}
+
+/** Return the point where an edge crosses a plane, given the (opposite signed) altitudes of its ends.
+ * * The computation is independent of the order of the ends, so triangles sharing the edge compute identical points.
+ */
+function interpolateCrossing(point0: Point3d, h0: number, point1: Point3d, h1: number): Point3d {
+  if (isLexicallyBefore(point1, point0))
+    return interpolateCrossing(point1, h1, point0, h0);
+  return point0.interpolate(h0 / (h0 - h1), point1);
+}
+
+/** A piece of an input triangle, split along intersections with the other mesh. */
+class BooleanPiece {
+  public readonly points: Point3d[];
+  public readonly normals?: Vector3d[];
+  public readonly params?: Point2d[];
+  /** true for edge `i` (from vertex `i` to vertex `i + 1`) if it lies along the intersection with the other mesh. */
+  public readonly isCutEdge: boolean[];
+  /** Unit normal of the source triangle. */
+  public readonly unitNormal: Vector3d;
+  /** Indices of the vertices after welding, assigned when all pieces are known. */
+  public vertexIndices: number[] = [];
+
+  public constructor(points: Point3d[], normals: Vector3d[] | undefined, params: Point2d[] | undefined, isCutEdge: boolean[], unitNormal: Vector3d) {
+    this.points = points;
+    this.normals = normals;
+    this.params = params;
+    this.isCutEdge = isCutEdge;
+    this.unitNormal = unitNormal;
+  }
+  /** Return true if welding did not collapse the piece. */
+  public get isValid(): boolean {
+    const indices = this.vertexIndices;
+    return indices[0] !== indices[1] && indices[1] !== indices[2] && indices[2] !== indices[0];
+  }
+  public get area(): number { return 0.5 * this.points[0].crossProductToPointsMagnitude(this.points[1], this.points[2]); }
+  public get centroid(): Point3d {
+    const p = this.points;
+    return Point3d.create((p[0].x + p[1].x + p[2].x) / 3, (p[0].y + p[1].y + p[2].y) / 3, (p[0].z + p[1].z + p[2].z) / 3);
+  }
+}
+
+/** A triangle of an input mesh, with the intersection segments found on it. */
+class BooleanTriangle {
+  public readonly points: Point3d[];
+  public readonly normals?: Vector3d[];
+  public readonly params?: Point2d[];
+  public readonly unitNormal: Vector3d;
+  /** Indices of the vertices in the source mesh. */
+  public readonly pointIndices: number[];
+  /** Range, expanded by the boolean tolerance. */
+  public readonly range: Range3d;
+  /** Start and end points of segments along which the triangle must be split. */
+  public readonly cuts: Point3d[] = [];
+
+  private constructor(points: Point3d[], pointIndices: number[], normals: Vector3d[] | undefined, params: Point2d[] | undefined, unitNormal: Vector3d, tolerance: number) {
+    this.points = points;
+    this.pointIndices = pointIndices;
+    this.normals = normals;
+    this.params = params;
+    this.unitNormal = unitNormal;
+    this.range = Range3d.createArray(points);
+    this.range.expandInPlace(tolerance);
+  }
+  /** Create a triangle, or return undefined if it has no area. */
+  public static create(points: Point3d[], pointIndices: number[], normals: Vector3d[] | undefined, params: Point2d[] | undefined, tolerance: number): BooleanTriangle | undefined {
+    const unitNormal = points[0].crossProductToPoints(points[1], points[2]).normalize();
+    return undefined !== unitNormal ? new BooleanTriangle(points, pointIndices, normals, params, unitNormal, tolerance) : undefined;
+  }
+  /** Return the key of edge `i` (from vertex `i` to vertex `i + 1`), shared with the adjacent triangle. */
+  public edgeKey(i: number): string { return edgeKey(this.pointIndices[i], this.pointIndices[(i + 1) % 3]); }
+  /** Signed distance from the plane of the triangle. */
+  public altitude(point: Point3d): number { return this.unitNormal.dotProductStartEnd(this.points[0], point); }
+  /** Return the unit vector in the plane of the triangle, perpendicular to edge `i` and pointing into the triangle. */
+  public inwardEdgePerpendicular(i: number): Vector3d | undefined {
+    return this.unitNormal.crossProduct(Vector3d.createStartEnd(this.points[i], this.points[(i + 1) % 3])).normalize();
+  }
+  /** Test if the projection of `point` onto the plane of the triangle lies within the triangle. */
+  public containsProjection(point: Point3d, tolerance: number): boolean {
+    return PolyfaceBoolean.triangleContainsProjection(this.points, this.unitNormal, point, tolerance);
+  }
+  /** Return the solid angle subtended by the triangle as seen from `point`, signed positive when `point` is behind the triangle. */
+  public solidAngle(point: Point3d): number {
+    return PolyfaceBoolean.triangleSolidAngle(this.points, point);
+  }
+  /** Return the portion of segment `point0` to `point1` (assumed to be in the plane of the triangle) that is inside the triangle. */
+  public clipCoplanarSegment(point0: Point3d, point1: Point3d, tolerance: number): Point3d[] | undefined {
+    let f0 = 0.0;
+    let f1 = 1.0;
+    for (let i = 0; i < 3; i++) {
+      const perpendicular = this.inwardEdgePerpendicular(i);
+      if (undefined === perpendicular)
+        continue;
+      // The tolerance decides which ends are outside, but crossings are computed exactly so that they are on the edge.
+      const h0 = perpendicular.dotProductStartEnd(this.points[i], point0);
+      const h1 = perpendicular.dotProductStartEnd(this.points[i], point1);
+      if (h0 < -tolerance && h1 < -tolerance)
+        return undefined;
+      if (h0 < -tolerance)
+        f0 = Math.max(f0, h0 / (h0 - h1));
+      else if (h1 < -tolerance)
+        f1 = Math.min(f1, h0 / (h0 - h1));
+    }
+    if (f1 <= f0)
+      return undefined;
+    const clipped = [point0.interpolate(f0, point1), point0.interpolate(f1, point1)];
+    return clipped[0].distance(clipped[1]) > tolerance ? clipped : undefined;
+  }
+  /** Create a piece from barycentric weights of its vertices. */
+  public createPiece(weights: Barycentric[], isCutEdge: boolean[]): BooleanPiece {
+    const points = weights.map((w) => Point3d.createAdd3Scaled(this.points[0], w[0], this.points[1], w[1], this.points[2], w[2]));
+    let normals;
+    if (undefined !== this.normals) {
+      const n = this.normals;
+      normals = weights.map((w) => {
+        const normal = Vector3d.createAdd3Scaled(n[0], w[0], n[1], w[1], n[2], w[2]);
+        return normal.normalize() ?? this.unitNormal.clone();
+      });
+    }
+    let params;
+    if (undefined !== this.params) {
+      const uv = this.params;
+      params = weights.map((w) => Point2d.create(
+        w[0] * uv[0].x + w[1] * uv[1].x + w[2] * uv[2].x,
+        w[0] * uv[0].y + w[1] * uv[1].y + w[2] * uv[2].y));
+    }
+    return new BooleanPiece(points, normals, params, isCutEdge, this.unitNormal);
+  }
+}
+
+/** Split a polygon into triangles, returned as triples of indices into the polygon.
+ * * The triangulation is computed in the plane of the polygon, so nonplanar facets are accepted.
+ */
+function triangulatePolygonIndices(points: Point3d[]): number[][] {
+  const fan = () => {
+    const fanTriangles = [];
+    for (let i = 1; i + 1 < points.length; i++)
+      fanTriangles.push([0, i, i + 1]);
+    return fanTriangles;
+  };
+  const normal = PolygonOps.areaNormal(points);
+  const axes = Matrix3d.createRigidHeadsUp(normal);
+  const local = points.map((point) => axes.multiplyTransposeXYZ(point.x, point.y, point.z));
+  const graph = Triangulator.createTriangulatedGraphFromSingleLoop(local.map((vector) => Point2d.create(vector.x, vector.y)));
+  const findIndex = (node: HalfEdge): number => {
+    let index = 0;
+    for (let i = 1; i < local.length; i++)
+      if (Geometry.distanceXYXY(node.x, node.y, local[i].x, local[i].y) < Geometry.distanceXYXY(node.x, node.y, local[index].x, local[index].y))
+        index = i;
+    return index;
+  };
+  const triangles: number[][] = [];
+  for (const face of graph.collectFaceLoops()) {
+    if (face.countEdgesAroundFace() === 3 && face.signedFaceArea() > 0.0)
+      triangles.push([findIndex(face), findIndex(face.faceSuccessor), findIndex(face.facePredecessor)]);
+  }
+  return triangles.length === points.length - 2 ? triangles : fan();
+}
+
+/** Return the triangles of a polyface, optionally with reversed orientation. */
+function collectTriangles(polyface: IndexedPolyface, reverse: boolean, tolerance: number): BooleanTriangle[] {
+  const triangles: BooleanTriangle[] = [];
+  const visitor = polyface.createVisitor(0);
+  for (visitor.reset(); visitor.moveToNextFacet();) {
+    const points = visitor.point.getPoint3dArray();
+    if (points.length < 3)
+      continue;
+    const indexTriples = points.length === 3 ? [[0, 1, 2]] : triangulatePolygonIndices(points);
+    for (const triple of indexTriples) {
+      const order = reverse ? [triple[0], triple[2], triple[1]] : triple;
+      let normals;
+      if (undefined !== visitor.normal && visitor.normal.length === points.length)
+        normals = order.map((i) => {
+          const normal = visitor.normal!.getVector3dAtCheckedVectorIndex(i)!;
+          return reverse ? normal.negate() : normal;
+        });
+      let params;
+      if (undefined !== visitor.param && visitor.param.length === points.length)
+        params = order.map((i) => visitor.param!.getPoint2dAtUncheckedPointIndex(i));
+      const triangle = BooleanTriangle.create(order.map((i) => points[i]), order.map((i) => visitor.pointIndex[i]), normals, params, tolerance);
+      if (undefined !== triangle)
+        triangles.push(triangle);
+    }
+  }
+  return triangles;
+}
+
+/** Return the points where the plane with given vertex altitudes cuts a triangle, or undefined if it does not cut along a segment. */
+function planeSection(points: Point3d[], altitudes: number[]): Point3d[] | undefined {
+  const section = [];
+  for (let i = 0; i < 3; i++) {
+    const j = (i + 1) % 3;
+    if (0.0 === altitudes[i])
+      section.push(points[i]);
+    else if (altitudes[i] * altitudes[j] < 0.0)
+      section.push(interpolateCrossing(points[i], altitudes[i], points[j], altitudes[j]));
+  }
+  return section.length === 2 ? section : undefined;
+}
+
+/** Record on both triangles the segment (if any) along which they intersect. */
+function intersectTriangles(triangleA: BooleanTriangle, triangleB: BooleanTriangle, tolerance: number) {
+  const snap = (h: number) => Math.abs(h) <= tolerance ? 0.0 : h;
+  const altitudesA = triangleA.points.map((point) => snap(triangleB.altitude(point)));
+  const altitudesB = triangleB.points.map((point) => snap(triangleA.altitude(point)));
+  const isOneSided = (altitudes: number[]) => altitudes.every((h) => h > 0.0) || altitudes.every((h) => h < 0.0);
+  if (altitudesA.every((h) => 0.0 === h)) {
+    // Coplanar triangles split each other along their edges.
+    for (let i = 0; i < 3; i++) {
+      const j = (i + 1) % 3;
+      const inA = triangleA.clipCoplanarSegment(triangleB.points[i], triangleB.points[j], tolerance);
+      if (undefined !== inA)
+        triangleA.cuts.push(...inA);
+      const inB = triangleB.clipCoplanarSegment(triangleA.points[i], triangleA.points[j], tolerance);
+      if (undefined !== inB)
+        triangleB.cuts.push(...inB);
+    }
+    return;
+  }
+  if (isOneSided(altitudesA) || isOneSided(altitudesB))
+    return;
+  const sectionA = planeSection(triangleA.points, altitudesA);
+  const sectionB = planeSection(triangleB.points, altitudesB);
+  const direction = triangleA.unitNormal.crossProduct(triangleB.unitNormal).normalize();
+  if (undefined === sectionA || undefined === sectionB || undefined === direction)
+    return;
+  // Both sections are on the line common to the planes.  The cut is their overlap.
+  const sortAlong = (section: Point3d[]) => direction.dotProduct(section[0]) <= direction.dotProduct(section[1]) ? section : [section[1], section[0]];
+  const [a0, a1] = sortAlong(sectionA);
+  const [b0, b1] = sortAlong(sectionB);
+  const start = direction.dotProduct(a0) >= direction.dotProduct(b0) ? a0 : b0;
+  const end = direction.dotProduct(a1) <= direction.dotProduct(b1) ? a1 : b1;
+  if (direction.dotProductStartEnd(start, end) <= tolerance)
+    return;
+  triangleA.cuts.push(start, end);
+  triangleB.cuts.push(start, end);
+}
+
+/** Find all intersections between triangles of the two meshes, using a sweep over x ranges to find candidate pairs. */
+function intersectMeshes(trianglesA: BooleanTriangle[], trianglesB: BooleanTriangle[], tolerance: number) {
+  const events: Array<{ triangle: BooleanTriangle, isA: boolean }> = [];
+  for (const triangle of trianglesA)
+    events.push({ triangle, isA: true });
+  for (const triangle of trianglesB)
+    events.push({ triangle, isA: false });
+  events.sort((a, b) => a.triangle.range.low.x - b.triangle.range.low.x);
+  const activeA: BooleanTriangle[] = [];
+  const activeB: BooleanTriangle[] = [];
+  for (const event of events) {
+    const candidates = event.isA ? activeB : activeA;
+    const lowX = event.triangle.range.low.x;
+    let numActive = 0;
+    for (const candidate of candidates) {
+      if (candidate.range.high.x >= lowX)
+        candidates[numActive++] = candidate;
+    }
+    candidates.length = numActive;
+    for (const candidate of candidates) {
+      if (candidate.range.intersectsRange(event.triangle.range)) {
+        if (event.isA)
+          intersectTriangles(event.triangle, candidate, tolerance);
+        else
+          intersectTriangles(candidate, event.triangle, tolerance);
+      }
+    }
+    (event.isA ? activeA : activeB).push(event.triangle);
+  }
+}
+
+/** Record the cut ends that are on edges of the triangle, so that the adjacent triangle is split at the same points. */
+function collectEdgePoints(triangle: BooleanTriangle, tolerance: number, edgePoints: Map<string, Point3d[]>) {
+  for (const point of triangle.cuts) {
+    for (let i = 0; i < 3; i++) {
+      const point0 = triangle.points[i];
+      const point1 = triangle.points[(i + 1) % 3];
+      const fraction = point.fractionOfProjectionToLine(point0, point1);
+      if (fraction > 0.0 && fraction < 1.0 && point.distance(point0.interpolate(fraction, point1)) <= tolerance) {
+        const key = triangle.edgeKey(i);
+        const points = edgePoints.get(key);
+        if (undefined === points)
+          edgePoints.set(key, [point]);
+        else
+          points.push(point);
+      }
+    }
+  }
+}
+
+/** Split a triangle along its cuts.
+ * * The triangle boundary and the cuts are merged in a `HalfEdgeGraph` in the plane of the triangle, and the resulting faces are triangulated.
+ * * Returns undefined if the graph faces do not cover the triangle.
+ */
+function splitTriangle(triangle: BooleanTriangle, tolerance: number, edgePoints: Map<string, Point3d[]>): BooleanPiece[] | undefined {
+  const pointsOnEdges = [0, 1, 2].map((i) => edgePoints.get(triangle.edgeKey(i)) ?? []);
+  if (0 === triangle.cuts.length && pointsOnEdges.every((points) => 0 === points.length))
+    return [triangle.createPiece([[1, 0, 0], [0, 1, 0], [0, 0, 1]], [false, false, false])];
+
+  const origin = triangle.points[0];
+  const xAxis = Vector3d.createStartEnd(origin, triangle.points[1]).normalize()!;
+  const yAxis = triangle.unitNormal.crossProduct(xAxis);
+  const toLocal = (point: Point3d) => Point3d.create(xAxis.dotProductStartEnd(origin, point), yAxis.dotProductStartEnd(origin, point), 0.0);
+  const corners = triangle.points.map(toLocal);
+  const edgeLengths = [0, 1, 2].map((i) => corners[i].distance(corners[(i + 1) % 3]));
+
+  // Snap cut ends to the triangle boundary.  Cuts along the boundary become intervals of boundary edges.
+  const edgeFractions: number[][] = [[], [], []];
+  const boundaryCuts: number[][][] = [[], [], []];
+  const interiorCuts: Point3d[][] = [];
+  const snap = (point: Point3d): { point: Point3d, edges: Array<{ edge: number, fraction: number }> } => {
+    const edges = [];
+    for (let i = 0; i < 3; i++) {
+      const fraction = Geometry.clamp(point.fractionOfProjectionToLine(corners[i], corners[(i + 1) % 3]), 0, 1);
+      const projection = corners[i].interpolate(fraction, corners[(i + 1) % 3]);
+      if (projection.distance(point) <= tolerance) {
+        if (0 === edges.length)
+          point = projection;
+        edges.push({ edge: i, fraction });
+      }
+    }
+    return { point, edges };
+  };
+  for (let k = 0; k + 1 < triangle.cuts.length; k += 2) {
+    const end0 = snap(toLocal(triangle.cuts[k]));
+    const end1 = snap(toLocal(triangle.cuts[k + 1]));
+    if (end0.point.distance(end1.point) <= tolerance)
+      continue;
+    for (const end of [end0, end1]) {
+      for (const onEdge of end.edges)
+        edgeFractions[onEdge.edge].push(onEdge.fraction);
+    }
+    let isOnBoundary = false;
+    for (const onEdge0 of end0.edges) {
+      const onEdge1 = end1.edges.find((candidate) => candidate.edge === onEdge0.edge);
+      if (undefined !== onEdge1) {
+        boundaryCuts[onEdge0.edge].push([Math.min(onEdge0.fraction, onEdge1.fraction), Math.max(onEdge0.fraction, onEdge1.fraction)]);
+        isOnBoundary = true;
+        break;
+      }
+    }
+    if (!isOnBoundary)
+      interiorCuts.push([end0.point, end1.point]);
+  }
+
+  // The boundary loop includes all snapped points, so cuts meet it at vertices.
+  // It also includes the points where the adjacent triangles are cut, so the pieces do not have T-junctions.
+  const boundary: Point3d[] = [];
+  for (let i = 0; i < 3; i++) {
+    for (const point of pointsOnEdges[i])
+      edgeFractions[i].push(toLocal(point).fractionOfProjectionToLine(corners[i], corners[(i + 1) % 3]));
+    const fractionTolerance = tolerance / edgeLengths[i];
+    boundary.push(corners[i]);
+    let previousFraction = 0.0;
+    for (const fraction of edgeFractions[i].sort((a, b) => a - b)) {
+      if (fraction - previousFraction > fractionTolerance && fraction < 1.0 - fractionTolerance) {
+        boundary.push(corners[i].interpolate(fraction, corners[(i + 1) % 3]));
+        previousFraction = fraction;
+      }
+    }
+  }
+  boundary.push(corners[0]);
+
+  const graph = new HalfEdgeGraph();
+  for (const seed of Triangulator.directCreateChainsFromCoordinates(graph, [boundary]))
+    seed.setMaskAroundFace(boundaryMask);
+  if (interiorCuts.length > 0) {
+    for (const seed of Triangulator.directCreateChainsFromCoordinates(graph, interiorCuts))
+      seed.setMaskAroundFace(cutMask);
+  }
+  HalfEdgeGraphMerge.splitIntersectingEdges(graph);
+  HalfEdgeGraphMerge.clusterAndMergeXYTheta(graph);
+
+  for (const node of graph.allHalfEdges) {
+    if (node.isMaskSet(boundaryMask) && !node.isMaskSet(cutMask)) {
+      // boundary edges within an interval of a boundary cut are cut edges.
+      const mid = node.fractionToPoint2d(0.5);
+      for (let i = 0; i < 3; i++) {
+        const fraction = Point3d.create(mid.x, mid.y).fractionOfProjectionToLine(corners[i], corners[(i + 1) % 3]);
+        if (boundaryCuts[i].some((interval) => interval[0] <= fraction && fraction <= interval[1])
+          && corners[i].interpolate(fraction, corners[(i + 1) % 3]).distanceXY(mid) <= tolerance)
+          node.setMaskAroundEdge(cutMask);
+      }
+    }
+  }
+  for (const node of graph.allHalfEdges) {
+    // a cut that duplicates another edge forms a null face.  Both edges of the null face are cut edges.
+    if (node.isMaskSet(HalfEdgeMask.NULL_FACE) && 2 === node.countEdgesAroundFace()
+      && (node.isMaskSet(cutMask) || node.faceSuccessor.isMaskSet(cutMask))) {
+      node.setMaskAroundEdge(cutMask);
+      node.faceSuccessor.setMaskAroundEdge(cutMask);
+    }
+  }
+
+  const context = new RegularizationContext(graph);
+  context.regularizeGraph(true, true);
+  Triangulator.triangulateAllPositiveAreaFaces(graph);
+
+  const doubleArea = corners[0].crossProductToPointsXY(corners[1], corners[2]);
+  const toBarycentric = (node: HalfEdge): Barycentric => {
+    const w1 = corners[0].crossProductToPointsXY(Point3d.create(node.x, node.y), corners[2]) / doubleArea;
+    const w2 = corners[0].crossProductToPointsXY(corners[1], Point3d.create(node.x, node.y)) / doubleArea;
+    return [1.0 - w1 - w2, w1, w2];
+  };
+  const pieces = [];
+  let pieceArea = 0.0;
+  for (const face of graph.collectFaceLoops()) {
+    if (3 !== face.countEdgesAroundFace())
+      continue;
+    const area = face.signedFaceArea();
+    if (area <= 0.0)
+      continue;
+    const nodes = [face, face.faceSuccessor, face.facePredecessor];
+    pieces.push(triangle.createPiece(nodes.map(toBarycentric), nodes.map((node) => node.isMaskSet(cutMask))));
+    pieceArea += area;
+  }
+  return Geometry.isSameCoordinate(pieceArea, 0.5 * doubleArea, tolerance * (edgeLengths[0] + edgeLengths[1] + edgeLengths[2])) ? pieces : undefined;
+}
+
+/** Classify each piece relative to the other mesh.
+ * * Pieces connected by edges that are not cut edges form a component.  All pieces of a component have the same classification.
+ * * A component is classified by a representative point against the generalized winding number of the other mesh.
+ */
+function classifyPieces(pieces: BooleanPiece[], otherTriangles: BooleanTriangle[], cutEdges: Set<string>, tolerance: number): PieceClass[] {
+  const components = new UnionFindContext(pieces.length);
+  const edgeToPiece = new Map<string, number>();
+  pieces.forEach((piece, i) => {
+    if (!piece.isValid)
+      return;
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(piece.vertexIndices[k], piece.vertexIndices[(k + 1) % 3]);
+      if (cutEdges.has(key))
+        continue;
+      const j = edgeToPiece.get(key);
+      if (undefined === j)
+        edgeToPiece.set(key, i);
+      else
+        components.mergeSubsets(i, j);
+    }
+  });
+
+  // Classify the largest piece of each component.
+  const representatives = new Map<number, number>();
+  pieces.forEach((piece, i) => {
+    if (!piece.isValid)
+      return;
+    const root = components.findRoot(i);
+    const representative = representatives.get(root);
+    if (undefined === representative || piece.area > pieces[representative].area)
+      representatives.set(root, i);
+  });
+  const rootClass = new Map<number, PieceClass>();
+  representatives.forEach((i, root) => {
+    const piece = pieces[i];
+    const point = piece.centroid;
+    let solidAngle = 0.0;
+    for (const triangle of otherTriangles) {
+      if (Math.abs(triangle.altitude(point)) <= tolerance && triangle.containsProjection(point, tolerance)) {
+        rootClass.set(root, piece.unitNormal.dotProduct(triangle.unitNormal) > 0.0 ? PieceClass.OnSame : PieceClass.OnOpposite);
+        return;
+      }
+      solidAngle += triangle.solidAngle(point);
+    }
+    // the winding number is solidAngle / 4pi.
+    rootClass.set(root, solidAngle > 2.0 * Math.PI ? PieceClass.Inside : PieceClass.Outside);
+  });
+  return pieces.map((_piece, i) => rootClass.get(components.findRoot(i)) ?? PieceClass.Outside);
+}
+
+/** Return a key for the undirected edge between two vertex indices. */
+function edgeKey(index0: number, index1: number): string {
+  return index0 < index1 ? `${index0},${index1}` : `${index1},${index0}`;
+}
+
+/**
+ * Boolean operations on closed meshes.
+ * * Inputs must be closed, as tested by `PolyfaceQuery.isPolyfaceClosedByEdgePairing`.
+ * * Facets of each mesh are split along the intersection with the other mesh, and the pieces are selected by their position relative to the other mesh.
+ * * Normals and uv parameters are interpolated onto the new vertices.  They are present in the result only if both inputs have them.
+ * * The result is oriented with outward facet normals, regardless of the orientation of the inputs.
+ * @alpha
+ */
+export class PolyfaceBoolean {
+  /** Return the union of two closed meshes, or undefined if either mesh is not closed. */
+  public static union(meshA: IndexedPolyface, meshB: IndexedPolyface): IndexedPolyface | undefined {
+    return this.compute(meshA, meshB, BooleanOp.Union);
+  }
+  /** Return the intersection of two closed meshes, or undefined if either mesh is not closed. */
+  public static intersect(meshA: IndexedPolyface, meshB: IndexedPolyface): IndexedPolyface | undefined {
+    return this.compute(meshA, meshB, BooleanOp.Intersection);
+  }
+  /** Return `meshA` with the volume of `meshB` removed, or undefined if either mesh is not closed. */
+  public static subtract(meshA: IndexedPolyface, meshB: IndexedPolyface): IndexedPolyface | undefined {
+    return this.compute(meshA, meshB, BooleanOp.Difference);
+  }
+  /**
+   * Return the solid angle subtended by a triangle as seen from `point` (Van Oosterom and Strackee).
+   * * The angle is positive when `point` is behind the triangle, i.e. on the side opposite its counterclockwise normal.
+   * * Summed over the facets of a closed mesh with outward normals, the result is `4 pi` for points inside and 0 for points outside.
+   * @param trianglePoints the 3 vertices of the triangle.
+   * @param point the point of view.
+   */
+  public static triangleSolidAngle(trianglePoints: Point3d[], point: Point3d): number {
+    const a = Vector3d.createStartEnd(point, trianglePoints[0]);
+    const b = Vector3d.createStartEnd(point, trianglePoints[1]);
+    const c = Vector3d.createStartEnd(point, trianglePoints[2]);
+    const aa = a.magnitude(), bb = b.magnitude(), cc = c.magnitude();
+    const numerator = a.tripleProduct(b, c);
+    const denominator = aa * bb * cc + a.dotProduct(b) * cc + b.dotProduct(c) * aa + c.dotProduct(a) * bb;
+    return 2.0 * Math.atan2(numerator, denominator);
+  }
+  /**
+   * Test if the projection of `point` onto the plane of a triangle lies within the triangle.
+   * @param trianglePoints the 3 vertices of the triangle.
+   * @param unitNormal the unit normal of the triangle, counterclockwise from its vertex order.
+   * @param point the point to project.
+   * @param tolerance distance the projection may be outside an edge and still be accepted.
+   */
+  public static triangleContainsProjection(trianglePoints: Point3d[], unitNormal: Vector3d, point: Point3d, tolerance: number): boolean {
+    for (let i = 0; i < 3; i++) {
+      const start = trianglePoints[i];
+      const perpendicular = unitNormal.crossProduct(Vector3d.createStartEnd(start, trianglePoints[(i + 1) % 3])).normalize();
+      if (undefined !== perpendicular && perpendicular.dotProductStartEnd(start, point) < -tolerance)
+        return false;
+    }
+    return true;
+  }
+
+  private static compute(meshA: IndexedPolyface, meshB: IndexedPolyface, op: BooleanOp): IndexedPolyface | undefined {
+    if (!PolyfaceQuery.isPolyfaceClosedByEdgePairing(meshA) || !PolyfaceQuery.isPolyfaceClosedByEdgePairing(meshB))
+      return undefined;
+    const rangeA = meshA.range();
+    const rangeB = meshB.range();
+    const tolerance = Geometry.smallMetricDistance * Math.max(1.0, rangeA.maxAbs(), rangeB.maxAbs());
+    // Work with outward facing normals.
+    const trianglesA = collectTriangles(meshA, PolyfaceQuery.sumTetrahedralVolumes(meshA) < 0.0, tolerance);
+    const trianglesB = collectTriangles(meshB, PolyfaceQuery.sumTetrahedralVolumes(meshB) < 0.0, tolerance);
+    intersectMeshes(trianglesA, trianglesB, tolerance);
+
+    const piecesA: BooleanPiece[] = [];
+    const piecesB: BooleanPiece[] = [];
+    for (const [triangles, pieces] of [[trianglesA, piecesA], [trianglesB, piecesB]] as Array<[BooleanTriangle[], BooleanPiece[]]>) {
+      const edgePoints = new Map<string, Point3d[]>();
+      for (const triangle of triangles)
+        collectEdgePoints(triangle, tolerance, edgePoints);
+      for (const triangle of triangles) {
+        const split = splitTriangle(triangle, tolerance, edgePoints);
+        if (undefined === split)
+          return undefined;
+        pieces.push(...split);
+      }
+    }
+
+    // Weld the vertices of all pieces, and collect the cut edges in terms of welded indices.
+    const allPoints = new GrowableXYZArray();
+    for (const piece of [...piecesA, ...piecesB])
+      allPoints.pushAll(piece.points);
+    const packed = ClusterableArray.clusterGrowablePoint3dArray(allPoints, tolerance);
+    let k = 0;
+    const cutEdges = new Set<string>();
+    for (const piece of [...piecesA, ...piecesB]) {
+      piece.vertexIndices = [packed.oldToNew[k], packed.oldToNew[k + 1], packed.oldToNew[k + 2]];
+      k += 3;
+      for (let i = 0; i < 3; i++) {
+        if (piece.isCutEdge[i])
+          cutEdges.add(edgeKey(piece.vertexIndices[i], piece.vertexIndices[(i + 1) % 3]));
+      }
+    }
+    const classA = classifyPieces(piecesA, trianglesB, cutEdges, tolerance);
+    const classB = classifyPieces(piecesB, trianglesA, cutEdges, tolerance);
+
+    const needNormals = trianglesA.every((t) => undefined !== t.normals) && trianglesB.every((t) => undefined !== t.normals);
+    const needParams = trianglesA.every((t) => undefined !== t.params) && trianglesB.every((t) => undefined !== t.params);
+    const result = IndexedPolyface.create(needNormals, needParams);
+    const packedToResult = new Map<number, number>();
+    const addPiece = (piece: BooleanPiece, reverse: boolean) => {
+      if (!piece.isValid)
+        return;
+      for (const i of reverse ? [0, 2, 1] : [0, 1, 2]) {
+        const packedIndex = piece.vertexIndices[i];
+        let pointIndex = packedToResult.get(packedIndex);
+        if (undefined === pointIndex) {
+          pointIndex = result.addPoint(packed.growablePackedPoints!.getPoint3dAtUncheckedPointIndex(packedIndex));
+          packedToResult.set(packedIndex, pointIndex);
+        }
+        result.addPointIndex(pointIndex);
+        if (needNormals)
+          result.addNormalIndex(result.addNormal(reverse ? piece.normals![i].negate() : piece.normals![i]));
+        if (needParams)
+          result.addParamIndex(result.addParam(piece.params![i]));
+      }
+      result.terminateFacet();
+    };
+    piecesA.forEach((piece, i) => {
+      const c = classA[i];
+      if (op === BooleanOp.Union ? (c === PieceClass.Outside || c === PieceClass.OnSame)
+        : op === BooleanOp.Intersection ? (c === PieceClass.Inside || c === PieceClass.OnSame)
+          : (c === PieceClass.Outside || c === PieceClass.OnOpposite))
+        addPiece(piece, false);
+    });
+    piecesB.forEach((piece, i) => {
+      const c = classB[i];
+      if (op === BooleanOp.Union ? c === PieceClass.Outside : c === PieceClass.Inside)
+        addPiece(piece, op === BooleanOp.Difference);
+    });
+    result.data.compress();
+    return result;
+  }
+}
@@ -715,6 +715,11 @@ export class PolyfaceBuilder extends NullGeometryHandler {
    * * addIndexedQuad is free to apply reversal or triangulation options.
    */
   public addBetweenLineStringsWithRuleEdgeNormals(lineStringA: LineString3d, vA: number, lineStringB: LineString3d, vB: number, addClosure: boolean = false) {
+    this.addBetweenLineStringsWithRuleEdgeNormalsInIndexRange(lineStringA, vA, lineStringB, vB, 0, lineStringA.numPoints() - 1, addClosure);
+  }
+  /** As in `addBetweenLineStringsWithRuleEdgeNormals`, but only for linestring points `index0` through `index1`. */
+  private addBetweenLineStringsWithRuleEdgeNormalsInIndexRange(lineStringA: LineString3d, vA: number, lineStringB: LineString3d, vB: number,
+    index0: number, index1: number, addClosure: boolean) {
     const pointA = lineStringA.packedPoints;
     const pointB = lineStringB.packedPoints;
     const derivativeA = lineStringA.packedDerivatives;
@@ -731,9 +736,9 @@ export class PolyfaceBuilder extends NullGeometryHandler {
     const sectorB00 = new FacetSector(needNormals, needParams, needNormals);
 
     const numPoints = pointA.length;
-    if (numPoints < 2 || numPoints !== pointB.length) return;
-    sectorA0.loadIndexedPointAndDerivativeCoordinatesFromPackedArrays(0, pointA, derivativeA, fractionA, vA);
-    sectorB0.loadIndexedPointAndDerivativeCoordinatesFromPackedArrays(0, pointB, derivativeB, fractionB, vB);
+    if (numPoints < 2 || numPoints !== pointB.length || index0 < 0 || index1 <= index0 || index1 >= numPoints) return;
+    sectorA0.loadIndexedPointAndDerivativeCoordinatesFromPackedArrays(index0, pointA, derivativeA, fractionA, vA);
+    sectorB0.loadIndexedPointAndDerivativeCoordinatesFromPackedArrays(index0, pointB, derivativeB, fractionB, vB);
     if (needNormals)
       FacetSector.computeNormalsAlongRuleLine(sectorA0, sectorB0);
     this.setSectorIndices(sectorA0);
@@ -741,7 +746,7 @@ export class PolyfaceBuilder extends NullGeometryHandler {
 
     sectorA00.copyContentsFrom(sectorA0);
     sectorB00.copyContentsFrom(sectorB0);
-    for (let i = 1; i < numPoints; i++) {
+    for (let i = index0 + 1; i <= index1; i++) {
       sectorA1.loadIndexedPointAndDerivativeCoordinatesFromPackedArrays(i, pointA, derivativeA, fractionA, vA);
       sectorB1.loadIndexedPointAndDerivativeCoordinatesFromPackedArrays(i, pointB, derivativeA, fractionB, vB);
       FacetSector.computeNormalsAlongRuleLine(sectorA1, sectorB1);
@@ -762,6 +767,10 @@ export class PolyfaceBuilder extends NullGeometryHandler {
    * * uv indices pre-stored
    */
   public addBetweenLineStringsWithStoredIndices(lineStringA: LineString3d, lineStringB: LineString3d) {
+    this.addBetweenLineStringsWithStoredIndicesInIndexRange(lineStringA, lineStringB, 0, lineStringA.pointIndices!.length - 1);
+  }
+  /** As in `addBetweenLineStringsWithStoredIndices`, but only for linestring points `index0` through `index1`. */
+  private addBetweenLineStringsWithStoredIndicesInIndexRange(lineStringA: LineString3d, lineStringB: LineString3d, index0: number, index1: number) {
     const pointA = lineStringA.pointIndices!;
     const pointB = lineStringB.pointIndices!;
     let normalA: GrowableFloat64Array | undefined = lineStringA.normalIndices;
@@ -777,8 +786,7 @@ export class PolyfaceBuilder extends NullGeometryHandler {
       paramB = undefined;
     }
 
-    const numPoints = pointA.length;
-    for (let i = 1; i < numPoints; i++) {
+    for (let i = Math.max(1, index0 + 1); i <= index1 && i < pointA.length; i++) {
       if (pointA.atUncheckedIndex(i - 1) !== pointA.atUncheckedIndex(i) || pointB.atUncheckedIndex(i - 1) !== pointB.atUncheckedIndex(i)) {
         this.addIndexedQuadPointIndexes(pointA.atUncheckedIndex(i - 1), pointA.atUncheckedIndex(i), pointB.atUncheckedIndex(i - 1), pointB.atUncheckedIndex(i));
         if (normalA && normalB)
@@ -893,6 +901,7 @@ export class PolyfaceBuilder extends NullGeometryHandler {
     const sizes = surface.maxIsoParametricDistance();
     this.addUVGridBody(surface, numU, numV, Segment1d.create(0, sizes.x), Segment1d.create(0, sizes.y));
     this.toggleReversedFacetFlag();
+    this.endFace();
 
     if (surface.capped && thetaFraction < 1.0) {
       const centerFrame = surface.getConstructiveFrame()!;
@@ -912,6 +921,7 @@ export class PolyfaceBuilder extends NullGeometryHandler {
         const ls0 = UVSurfaceOps.createLinestringOnUVLine(surface, 0, 0, 1, 0, numU, false, true);
         ls0.computeUVFromXYZTransform(worldToCap0);
         this.addTrianglesInUncheckedConvexPolygon(ls0, false);
+        this.endFace();
       }
       const thetaRadians = surface.getSweepAngle().radians;
       const cc = Math.cos(thetaRadians);
@@ -928,6 +938,7 @@ export class PolyfaceBuilder extends NullGeometryHandler {
         const ls1 = UVSurfaceOps.createLinestringOnUVLine(surface, 1, 1, 0, 1, numU, false, true);
         ls1.computeUVFromXYZTransform(worldToCap1);
         this.addTrianglesInUncheckedConvexPolygon(ls1, false);
+        this.endFace();
       }
 
     }
@@ -973,7 +984,8 @@ export class PolyfaceBuilder extends NullGeometryHandler {
   public addRotationalSweep(surface: RotationalSweep) {
     const contour = surface.getCurves();
     const section0 = StrokeCountSection.createForParityRegionOrChain(contour, this._options);
-    const baseStrokes = section0.getStrokes();
+    const primitiveEndIndices: number[][] = [];
+    const baseStrokes = section0.getStrokes(primitiveEndIndices);
 
     const axis = surface.cloneAxisRay();
     const perpendicularVector = CylindricalRangeQuery.computeMaxVectorFromRay(axis, baseStrokes);
@@ -984,17 +996,18 @@ export class PolyfaceBuilder extends NullGeometryHandler {
     const maxPath = Math.abs(maxDistance * surface.getSweep().radians);
     let numStep = StrokeOptions.applyAngleTol(this._options, 1, surface.getSweep().radians, undefined);
     numStep = StrokeOptions.applyMaxEdgeLength(this._options, numStep, maxPath);
-    for (let i = 1; i <= numStep; i++) {
-      const transformA = surface.getFractionalRotationTransform((i - 1) / numStep);
-      const transformB = surface.getFractionalRotationTransform(i / numStep);
-      this.addBetweenRotatedStrokeSets(baseStrokes, transformA, i - 1, transformB, i);
-    }
+    const transforms = [];
+    for (let i = 0; i <= numStep; i++)
+      transforms.push(surface.getFractionalRotationTransform(i / numStep));
+    this.addBetweenRotatedStrokeSetsByFace(baseStrokes, transforms, primitiveEndIndices);
     if (surface.capped) {
       const capContour = surface.getSweepContourRef();
       capContour.purgeFacets();
       capContour.emitFacets(this, true, undefined);
+      this.endFace();
       // final loop pass left transformA at end ..
       capContour.emitFacets(this, false, surface.getFractionalRotationTransform(1.0));
+      this.endFace();
     }
   }
   /**
@@ -1024,7 +1037,7 @@ export class PolyfaceBuilder extends NullGeometryHandler {
     }
   }
 
-  private addBetweenStrokeSetsWithRuledNormals(stroke0: AnyCurve, stroke1: AnyCurve, numVEdge: number) {
+  private addBetweenStrokeSetsWithRuledNormals(stroke0: AnyCurve, stroke1: AnyCurve, numVEdge: number, primitiveEndIndices?: number[][]) {
     const strokeSets = [stroke0];
     const fractions = [0.0];
     for (let vIndex = 1; vIndex < numVEdge; vIndex++) {
@@ -1035,8 +1048,38 @@ export class PolyfaceBuilder extends NullGeometryHandler {
     }
     strokeSets.push(stroke1);
     fractions.push(1.0);
-    for (let vIndex = 0; vIndex < numVEdge; vIndex++) {
-      this.addBetweenStrokeSetPair(strokeSets[vIndex], fractions[vIndex], strokeSets[vIndex + 1], fractions[vIndex + 1]);
+    this.addBetweenStrokeSetsByFace(strokeSets, fractions, primitiveEndIndices);
+  }
+  /**
+   * Add facets between successive stroke sets, ending a face after the facets of each primitive of the swept contour.
+   * * All stroke sets are expected to have the structure of the first.
+   * * `primitiveEndIndices` are as returned by `StrokeCountSection.getStrokes`.
+   */
+  private addBetweenStrokeSetsByFace(strokeSets: AnyCurve[], fractions: number[], primitiveEndIndices?: number[][]) {
+    const data0 = strokeSets[0];
+    if (data0 instanceof LineString3d) {
+      let index0 = 0;
+      for (const index1 of resolvePrimitiveEndIndices(data0, primitiveEndIndices)) {
+        for (let vIndex = 0; vIndex + 1 < strokeSets.length; vIndex++) {
+          const lineStringA = strokeSets[vIndex];
+          const lineStringB = strokeSets[vIndex + 1];
+          if (lineStringA instanceof LineString3d && lineStringB instanceof LineString3d)
+            this.addBetweenLineStringsWithRuleEdgeNormalsInIndexRange(lineStringA, fractions[vIndex], lineStringB, fractions[vIndex + 1], index0, index1, false);
+        }
+        this.endFace();
+        index0 = index1;
+      }
+    } else if (data0 instanceof ParityRegion || data0 instanceof CurveChain) {
+      const numChildren = data0.children.length;
+      for (const data of strokeSets) {
+        if (!(data instanceof ParityRegion || data instanceof CurveChain) || data.children.length !== numChildren)
+          return;
+      }
+      for (let i = 0; i < numChildren; i++) {
+        // each loop of a parity region has its own primitives
+        const childEndIndices = (data0 instanceof ParityRegion && primitiveEndIndices) ? [primitiveEndIndices[i]] : primitiveEndIndices;
+        this.addBetweenStrokeSetsByFace(strokeSets.map((data: AnyCurve) => (data as ParityRegion | CurveChain).children[i]), fractions, childEndIndices);
+      }
     }
   }
   private createIndicesInLineString(ls: LineString3d, vParam: number, transform?: Transform) {
@@ -1096,24 +1139,34 @@ export class PolyfaceBuilder extends NullGeometryHandler {
 
   }
 
-  private addBetweenRotatedStrokeSets(stroke0: AnyCurve, transformA: Transform, vA: number, transformB: Transform, vB: number) {
+  /**
+   * Add facets between successive rotations of the strokes, ending a face after the facets of each primitive of the swept contour.
+   * * `primitiveEndIndices` are as returned by `StrokeCountSection.getStrokes`.
+   */
+  private addBetweenRotatedStrokeSetsByFace(stroke0: AnyCurve, transforms: Transform[], primitiveEndIndices?: number[][]) {
     if (stroke0 instanceof LineString3d) {
-      const strokeA = stroke0.cloneTransformed(transformA) as LineString3d;
-      this.createIndicesInLineString(strokeA, vA);
-      const strokeB = stroke0.cloneTransformed(transformB) as LineString3d;
-      this.createIndicesInLineString(strokeB, vB);
-      this.addBetweenLineStringsWithStoredIndices(strokeA, strokeB);
+      const strokes = [];
+      for (let i = 0; i < transforms.length; i++) {
+        const strokeA = stroke0.cloneTransformed(transforms[i]) as LineString3d;
+        this.createIndicesInLineString(strokeA, i);
+        strokes.push(strokeA);
+      }
+      let index0 = 0;
+      for (const index1 of resolvePrimitiveEndIndices(stroke0, primitiveEndIndices)) {
+        for (let i = 1; i < strokes.length; i++) {
+          this.addBetweenLineStringsWithStoredIndicesInIndexRange(strokes[i - 1], strokes[i], index0, index1);
+        }
+        this.endFace();
+        index0 = index1;
+      }
     } else if (stroke0 instanceof ParityRegion) {
-      for (let i = 0; i < stroke0.children.length; i++) {  // eslint-disable-line @typescript-eslint/prefer-for-of
-        this.addBetweenRotatedStrokeSets(stroke0.children[i], transformA, vA, transformB, vB);
+      for (let i = 0; i < stroke0.children.length; i++) {
+        this.addBetweenRotatedStrokeSetsByFace(stroke0.children[i], transforms, primitiveEndIndices ? [primitiveEndIndices[i]] : undefined);
       }
     } else if (stroke0 instanceof CurveChain) {
-      const chainA = stroke0.children;
-      for (let i = 0; i < chainA.length; i++) { // eslint-disable-line @typescript-eslint/prefer-for-of
-        const cpA = chainA[i];
-        if (cpA instanceof LineString3d) {
-          this.addBetweenRotatedStrokeSets(cpA, transformA, vA, transformB, vB);
-        }
+      for (const cp of stroke0.children) {
+        if (cp instanceof LineString3d)
+          this.addBetweenRotatedStrokeSetsByFace(cp, transforms, primitiveEndIndices);
       }
     }
   }
@@ -1126,19 +1179,22 @@ export class PolyfaceBuilder extends NullGeometryHandler {
   public addLinearSweep(surface: LinearSweep) {
     const contour = surface.getCurvesRef();
     const section0 = StrokeCountSection.createForParityRegionOrChain(contour, this._options);
-    const stroke0 = section0.getStrokes();
+    const primitiveEndIndices: number[][] = [];
+    const stroke0 = section0.getStrokes(primitiveEndIndices);
     const sweepVector = surface.cloneSweepVector();
     const sweepTransform = Transform.createTranslation(sweepVector);
     const stroke1 = stroke0.cloneTransformed(sweepTransform) as AnyCurve;
     const numVEdge = this._options.applyMaxEdgeLength(1, sweepVector.magnitude());
-    this.addBetweenStrokeSetsWithRuledNormals(stroke0, stroke1, numVEdge);
+    this.addBetweenStrokeSetsWithRuledNormals(stroke0, stroke1, numVEdge, primitiveEndIndices);
 
     if (surface.capped && contour.isAnyRegionType) {
       const contourA = surface.getSweepContourRef();
       contourA.purgeFacets();
 
       contourA.emitFacets(this, true, undefined);
+      this.endFace();
       contourA.emitFacets(this, false, sweepTransform);
+      this.endFace();
     }
   }
 
@@ -1149,6 +1205,8 @@ export class PolyfaceBuilder extends NullGeometryHandler {
     const contours = surface.sweepContoursRef();
     let stroke0: AnyCurve | undefined;
     let stroke1: AnyCurve;
+    let primitiveEndIndices0: number[][] | undefined;
+    let primitiveEndIndices1: number[][] | undefined;
     const sectionMaps = [];
     for (let i = 0; i < contours.length; i++) { // eslint-disable-line @typescript-eslint/prefer-for-of
       sectionMaps.push(StrokeCountSection.createForParityRegionOrChain(contours[i].curves, this._options));
@@ -1156,18 +1214,22 @@ export class PolyfaceBuilder extends NullGeometryHandler {
     if (StrokeCountSection.enforceStrokeCountCompatibility(sectionMaps)) {
       StrokeCountSection.enforceCompatibleDistanceSums(sectionMaps);
       for (let i = 0; i < contours.length; i++) {
-        stroke1 = sectionMaps[i].getStrokes();
-        if (!stroke1)
+        primitiveEndIndices1 = [];
+        stroke1 = sectionMaps[i].getStrokes(primitiveEndIndices1);
+        if (!stroke1) {
           stroke1 = contours[i].curves.cloneStroked();
+          primitiveEndIndices1 = undefined;
+        }
         if (i > 0 && stroke0 && stroke1) {
           const distanceRange = Range1d.createNull();
           if (StrokeCountSection.extendDistanceRangeBetweenStrokes(stroke0, stroke1, distanceRange)
             && !distanceRange.isNull) {
             const numVEdge = this._options.applyMaxEdgeLength(1, distanceRange.high);
-            this.addBetweenStrokeSetsWithRuledNormals(stroke0, stroke1, numVEdge);
+            this.addBetweenStrokeSetsWithRuledNormals(stroke0, stroke1, numVEdge, primitiveEndIndices0);
           }
         }
         stroke0 = stroke1;
+        primitiveEndIndices0 = primitiveEndIndices1;
       }
     }
 
@@ -1175,8 +1237,10 @@ export class PolyfaceBuilder extends NullGeometryHandler {
       contours[0].purgeFacets();
 
       contours[0].emitFacets(this, true, undefined);
+      this.endFace();
       contours[contours.length - 1].purgeFacets();
       contours[contours.length - 1].emitFacets(this, false, undefined);
+      this.endFace();
     }
     return true;
   }
@@ -1639,6 +1703,22 @@ export class PolyfaceBuilder extends NullGeometryHandler {
       return PolyfaceBuilder.graphToPolyface(graph);
     return undefined;
   }
+  /**
+   * Create a constrained Delaunay triangulation of points, breaklines and holes as viewed in xy, e.g. a terrain model.
+   * * The triangulation covers the convex hull of all the coordinates, excluding the hole interiors.
+   * * Each breakline and hole edge is an edge of the triangulation, split where it crosses other breaklines or passes through other points.
+   * * Contour lines of the triangulation are computed by [[PolyfaceQuery.collectContours]].
+   * @param points isolated points.
+   * @param breaklines chains whose edges must appear in the triangulation.
+   * @param holes loops whose interiors are excluded from the triangulation.
+   * @beta
+   */
+  public static pointsAndBreaklinesToTriangulatedPolyface(points: Point3d[], breaklines: Point3d[][] = [], holes: Point3d[][] = []): IndexedPolyface | undefined {
+    const graph = Triangulator.createConstrainedDelaunay(points, breaklines, holes);
+    if (graph)
+      return PolyfaceBuilder.graphToPolyface(graph);
+    return undefined;
+  }
   /** Create (and add to the builder) triangles that bridge the gap between two linestrings.
    * * Each triangle will have 1 vertex on one of the linestrings and 2 on the other
    * * Choice of triangles is heuristic, hence does not have a unique solution.
@@ -1698,6 +1778,19 @@ export class PolyfaceBuilder extends NullGeometryHandler {
   }
 }
 
+/**
+ * Return the primitive end indices of a single stroked chain, as collected by `StrokeCountSection.getStrokes`.
+ * * If these are missing or do not match the linestring, the whole linestring is treated as one primitive.
+ */
+function resolvePrimitiveEndIndices(lineString: LineString3d, primitiveEndIndices?: number[][]): number[] {
+  const lastIndex = lineString.numPoints() - 1;
+  if (primitiveEndIndices && primitiveEndIndices.length === 1) {
+    const endIndices = primitiveEndIndices[0];
+    if (endIndices.length > 0 && endIndices[endIndices.length - 1] === lastIndex)
+      return endIndices;
+  }
+  return [lastIndex];
+}
 function resolveToIndexedXYZCollectionOrCarrier(points: Point3d[] | LineString3d | IndexedXYZCollection): IndexedXYZCollection {
   if (Array.isArray(points))
     return new Point3dArrayCarrier(points);
@@ -29,6 +29,7 @@ import { FacetOrientationFixup } from "./FacetOrientation";
 import { IndexedEdgeMatcher, SortableEdge, SortableEdgeCluster } from "./IndexedEdgeMatcher";
 import { IndexedPolyfaceSubsetVisitor } from "./IndexedPolyfaceVisitor";
 import { BuildAverageNormalsContext } from "./multiclip/BuildAverageNormalsContext";
+import { PolyfaceDecimationContext } from "./multiclip/PolyfaceDecimationContext";
 import { SweepLineStringToFacetContext } from "./multiclip/SweepLineStringToFacetContext";
 import { XYPointBuckets } from "./multiclip/XYPointBuckets";
 import { IndexedPolyface, Polyface, PolyfaceVisitor } from "./Polyface";
@@ -61,6 +62,29 @@ export enum DuplicateFacetClusterSelector {
   /** retain one from any cluster with an odd number of faces */
   SelectOneByParity = 3,
 }
+/**
+ * Options for [[PolyfaceQuery.cloneWithDecimation]].
+ * * Decimation stops when either limit is reached, or when no more edges can be collapsed.
+ * @beta
+ */
+export interface PolyfaceDecimationOptions {
+  /** Stop when the number of (triangular) facets is at most this count.  Default is 0, i.e. decimate as far as other limits allow. */
+  targetFacetCount?: number;
+  /** Maximum distance from any vertex of the result to the plane of any original facet it replaces.  Default is unlimited. */
+  maxDeviation?: number;
+  /** Edges between facets whose normals differ by more than this angle are creases, and are preserved.  Default is 30 degrees. */
+  creaseAngle?: Angle;
+}
+/**
+ * Contour lines at a single elevation, as computed by [[PolyfaceQuery.collectContours]].
+ * @beta
+ */
+export interface PolyfaceContour {
+  /** z coordinate of the contour lines. */
+  elevation: number;
+  /** Maximal chains of contour segments. */
+  chains: LineString3d[];
+}
 /** PolyfaceQuery is a static class whose methods implement queries on a polyface or polyface visitor provided as a parameter to each method.
  * @public
  */
@@ -94,6 +118,21 @@ export class PolyfaceQuery {
     }
     return s;
   }
+  /**
+   * Sum areas of facets in each face of the polyface.
+   * * Entry [i] of the returned array is the area of the facets whose face data is `polyface.data.face[i]`.
+   * * Facets that have not been assigned to a face are ignored.
+   */
+  public static sumFacetAreasByFace(polyface: IndexedPolyface): number[] {
+    const areas = new Array<number>(polyface.faceCount).fill(0);
+    const visitor = polyface.createVisitor(1);
+    while (visitor.moveToNextFacet()) {
+      const faceIndex = polyface.tryGetFaceIndex(visitor.currentReadIndex());
+      if (faceIndex !== undefined)
+        areas[faceIndex] += PolygonOps.sumTriangleAreas(visitor.point.getPoint3dArray());
+    }
+    return areas;
+  }
   /** sum volumes of tetrahedra from origin to all facets.
    * * if origin is omitted, the first point encountered (by the visitor) is used as origin.
    * * If the mesh is closed, this sum is the volume.
@@ -601,6 +640,74 @@ export class PolyfaceQuery {
     chainContext.clusterAndMergeVerticesXYZ();
     return chainContext.collectMaximalChains();
   }
+  /**
+   * Compute contour lines of facets (e.g. a terrain model) at each elevation (z) that differs from `baseElevation` by a multiple of `interval`.
+   * * Each facet that crosses an elevation contributes segments between the crossings of its edges.  Vertices exactly at an elevation are treated as above it.
+   * * The segments at each elevation are joined into maximal chains.
+   * @param polyface facets to contour.
+   * @param interval elevation difference between successive contours.
+   * @param baseElevation elevation of one of the contours.
+   * @returns contours in order of increasing elevation.  Elevations without contour lines are omitted.
+   * @beta
+   */
+  public static collectContours(polyface: Polyface | PolyfaceVisitor, interval: number, baseElevation: number = 0): PolyfaceContour[] {
+    if (polyface instanceof Polyface)
+      return PolyfaceQuery.collectContours(polyface.createVisitor(1), interval, baseElevation);
+    if (!(interval > 0))
+      return [];
+    // contexts for the segments at each elevation, keyed by multiple of the interval.
+    const contexts = new Map<number, ChainMergeContext>();
+    const visitor = polyface;
+    visitor.setNumWrap(1);
+    const points = visitor.point;
+    const crossings: Array<{ point: Point3d, isDown: boolean }> = [];
+    for (visitor.reset(); visitor.moveToNextFacet();) {
+      const range = points.getRange();
+      const k0 = Math.ceil((range.low.z - baseElevation) / interval);
+      const k1 = Math.floor((range.high.z - baseElevation) / interval);
+      for (let k = k0; k <= k1; k++) {
+        const z = baseElevation + k * interval;
+        crossings.length = 0;
+        for (let i = 0; i + 1 < points.length; i++) {
+          const pointA = points.getPoint3dAtUncheckedPointIndex(i);
+          const pointB = points.getPoint3dAtUncheckedPointIndex(i + 1);
+          const isAboveA = pointA.z >= z;
+          if (isAboveA === (pointB.z >= z))
+            continue;
+          // interpolate from the lower end, so the facets on both sides of the edge compute the same point.
+          const point = isAboveA ? pointB.interpolate((z - pointB.z) / (pointA.z - pointB.z), pointA) : pointA.interpolate((z - pointA.z) / (pointB.z - pointA.z), pointB);
+          point.z = z;
+          crossings.push({ point, isDown: isAboveA });
+        }
+        // Crossings alternate down and up around the facet.  Each segment starts at a down crossing.
+        const n = crossings.length;
+        if (n < 2)
+          continue;
+        const start = crossings[0].isDown ? 0 : 1;
+        let context = contexts.get(k);
+        if (undefined === context) {
+          context = ChainMergeContext.create();
+          contexts.set(k, context);
+        }
+        for (let m = 0; m + 1 < n; m += 2) {
+          const point0 = crossings[(start + m) % n].point;
+          const point1 = crossings[(start + m + 1) % n].point;
+          // a vertex at the elevation between two lower vertices gives a degenerate segment.
+          if (!point0.isAlmostEqual(point1))
+            context.addSegment(point0, point1);
+        }
+      }
+    }
+    const contours: PolyfaceContour[] = [];
+    for (const k of Array.from(contexts.keys()).sort((a, b) => a - b)) {
+      const context = contexts.get(k)!;
+      context.clusterAndMergeVerticesXYZ();
+      const chains = context.collectMaximalChains();
+      if (chains.length > 0)
+        contours.push({ elevation: baseElevation + k * interval, chains });
+    }
+    return contours;
+  }
   /** Find segments (within the linestring) which project to facets.
    * * This is done as a sequence of "await" steps.
    * * Each "await" step deals with approximately PolyfaceQuery.asyncWorkLimit pairings of (linestring edge) with (facet edge)
@@ -977,6 +1084,19 @@ export class PolyfaceQuery {
     BuildAverageNormalsContext.buildFastAverageNormals(polyface, toleranceAngle);
   }
 
+  /**
+   * Return a triangulated copy of the polyface with fewer facets, by repeated collapse of the edge with least quadric error.
+   * * Boundary, crease and nonmanifold edges are preserved.
+   * * Normals, params and aux data are interpolated at collapsed vertices.  Colors are taken from the nearer vertex.
+   * * Edge visibility of the original facet edges is retained; edges introduced by triangulation are hidden.
+   * @param polyface polyface to decimate.
+   * @param options limits on decimation.
+   * @beta
+   */
+  public static cloneWithDecimation(polyface: IndexedPolyface, options: PolyfaceDecimationOptions): IndexedPolyface {
+    return PolyfaceDecimationContext.decimate(polyface, options);
+  }
+
 }
 
 /** Announce the points on a drape panel.
@@ -0,0 +1,567 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+
+/** @packageDocumentation
+ * @module Polyface
+ */
+
+import { PriorityQueue } from "@bentley/bentleyjs-core";
+import { Angle } from "../../geometry3d/Angle";
+import { GrowableXYArray } from "../../geometry3d/GrowableXYArray";
+import { GrowableXYZArray } from "../../geometry3d/GrowableXYZArray";
+import { Point3d, Vector3d } from "../../geometry3d/Point3dVector3d";
+import { PolygonOps } from "../../geometry3d/PolygonOps";
+import { AuxChannel, AuxChannelData, PolyfaceAuxData } from "../AuxData";
+import { IndexedEdgeMatcher, SortableEdge, SortableEdgeCluster } from "../IndexedEdgeMatcher";
+import { IndexedPolyface } from "../Polyface";
+import { PolyfaceDecimationOptions } from "../PolyfaceQuery";
+
+/**
+ * Data indexed per facet corner (normals, params, colors or aux data).
+ * * New values are created by interpolation when an edge collapses to a point strictly within the edge.
+ */
+abstract class CornerAttribute {
+  /** Index of the value at each triangle corner. */
+  public readonly indices: number[];
+  public constructor(indices: number[]) { this.indices = indices; }
+  /** Append a value interpolated between two existing values, and return its index. */
+  public abstract interpolate(index0: number, index1: number, fraction: number): number;
+  /** Add the value at `index` to the polyface. */
+  protected abstract addValue(polyface: IndexedPolyface, index: number): void;
+  /** Install per-corner indices in the polyface. */
+  protected abstract setIndices(polyface: IndexedPolyface, indices: number[]): void;
+  /** Copy the values used by `corners` to the polyface, and index them in the order of `corners`. */
+  public copyTo(polyface: IndexedPolyface, corners: number[]) {
+    const oldToNew = new Map<number, number>();
+    const newIndices = corners.map((corner) => {
+      const index = this.indices[corner];
+      let newIndex = oldToNew.get(index);
+      if (undefined === newIndex) {
+        newIndex = oldToNew.size;
+        oldToNew.set(index, newIndex);
+        this.addValue(polyface, index);
+      }
+      return newIndex;
+    });
+    this.setIndices(polyface, newIndices);
+  }
+}
+
+class NormalAttribute extends CornerAttribute {
+  private _values: GrowableXYZArray;
+  public constructor(values: GrowableXYZArray, indices: number[]) {
+    super(indices);
+    this._values = values.clone();
+  }
+  public interpolate(index0: number, index1: number, fraction: number): number {
+    const normal0 = this._values.getVector3dAtCheckedVectorIndex(index0)!;
+    const normal = normal0.interpolate(fraction, this._values.getVector3dAtCheckedVectorIndex(index1)!);
+    this._values.push(normal.normalize() ?? normal0);
+    return this._values.length - 1;
+  }
+  protected addValue(polyface: IndexedPolyface, index: number) { polyface.addNormal(this._values.getVector3dAtCheckedVectorIndex(index)!); }
+  protected setIndices(polyface: IndexedPolyface, indices: number[]) { polyface.data.normalIndex = indices; }
+}
+
+class ParamAttribute extends CornerAttribute {
+  private _values: GrowableXYArray;
+  public constructor(values: GrowableXYArray, indices: number[]) {
+    super(indices);
+    this._values = values.clone();
+  }
+  public interpolate(index0: number, index1: number, fraction: number): number {
+    this._values.push(this._values.getPoint2dAtUncheckedPointIndex(index0).interpolate(fraction, this._values.getPoint2dAtUncheckedPointIndex(index1)));
+    return this._values.length - 1;
+  }
+  protected addValue(polyface: IndexedPolyface, index: number) { polyface.addParam(this._values.getPoint2dAtUncheckedPointIndex(index)); }
+  protected setIndices(polyface: IndexedPolyface, indices: number[]) { polyface.data.paramIndex = indices; }
+}
+
+/** Colors are not blended.  The nearer color is selected. */
+class ColorAttribute extends CornerAttribute {
+  private _values: number[];
+  public constructor(values: number[], indices: number[]) {
+    super(indices);
+    this._values = values;
+  }
+  public interpolate(index0: number, index1: number, fraction: number): number { return fraction < 0.5 ? index0 : index1; }
+  protected addValue(polyface: IndexedPolyface, index: number) { polyface.addColor(this._values[index]); }
+  protected setIndices(polyface: IndexedPolyface, indices: number[]) { polyface.data.colorIndex = indices; }
+}
+
+/** All channels of aux data share the indices, so a new value is interpolated in every channel. */
+class AuxDataAttribute extends CornerAttribute {
+  private _channels: AuxChannel[];
+  private _valueCount: number;
+  public constructor(auxData: PolyfaceAuxData, indices: number[]) {
+    super(indices);
+    this._channels = auxData.channels.map((channel) => channel.clone());
+    this._valueCount = this._channels.length > 0 ? this._channels[0].valueCount : 0;
+  }
+  public interpolate(index0: number, index1: number, fraction: number): number {
+    for (const channel of this._channels) {
+      const blockSize = channel.entriesPerValue;
+      for (const data of channel.data) {
+        for (let i = 0; i < blockSize; i++) {
+          const value0 = data.values[index0 * blockSize + i];
+          data.values.push(value0 + fraction * (data.values[index1 * blockSize + i] - value0));
+        }
+      }
+    }
+    return this._valueCount++;
+  }
+  private _outputChannels?: AuxChannel[];
+  protected addValue(polyface: IndexedPolyface, index: number) {
+    if (undefined === this._outputChannels) {
+      this._outputChannels = this._channels.map((channel) => new AuxChannel(channel.data.map((data) => new AuxChannelData(data.input, [])), channel.dataType, channel.name, channel.inputName));
+      polyface.data.auxData = new PolyfaceAuxData(this._outputChannels, []);
+    }
+    this._outputChannels.forEach((outputChannel, channelIndex) => {
+      const blockSize = outputChannel.entriesPerValue;
+      outputChannel.data.forEach((outputData, dataIndex) => {
+        const values = this._channels[channelIndex].data[dataIndex].values;
+        for (let i = 0; i < blockSize; i++)
+          outputData.values.push(values[index * blockSize + i]);
+      });
+    });
+  }
+  protected setIndices(polyface: IndexedPolyface, indices: number[]) {
+    if (undefined !== polyface.data.auxData)
+      polyface.data.auxData.indices = indices;
+  }
+}
+
+/** A candidate edge collapse in the priority queue. */
+interface CollapseCandidate {
+  /** Quadric error of the collapsed vertex. */
+  cost: number;
+  vertexA: number;
+  vertexB: number;
+  /** Versions of the vertices when the candidate was computed.  A candidate is stale if either vertex has changed. */
+  versionA: number;
+  versionB: number;
+}
+
+/** A collapse of edge `vertexA`, `vertexB` to `vertexA + fraction * (vertexB - vertexA)` */
+interface CollapsePlan {
+  cost: number;
+  fraction: number;
+  point: Point3d;
+  /** Triangles with both vertices. */
+  edgeTriangles: number[];
+  /** Per attribute, pairs of indices at `vertexA` and `vertexB` in `edgeTriangles`, keyed by the index at each end. */
+  indexPairsA: Array<Map<number, number>>;
+  indexPairsB: Array<Map<number, number>>;
+}
+
+/**
+ * Context for mesh decimation by edge collapse, ordered by the quadric error metric of Garland and Heckbert.
+ * * Facets are triangulated.
+ * * Each vertex has a quadric, initially the sum of the squared distance functions to the planes of its triangles.  A collapsed vertex has the sum of the quadrics of the two vertices.
+ * * The cheapest edge is collapsed repeatedly, to the point on the edge that minimizes the quadric.
+ * * A collapse is rejected if it would make the mesh nonmanifold, fold a triangle over, or (with `maxDeviation`) move the vertex too far from the planes of the original facets it replaces.
+ * * Vertices on boundary, crease and nonmanifold edges are not moved or removed.
+ * * Along seams of normals, params, colors or aux data, an edge collapses to the vertex whose values are not shared by the edge's triangles.
+ * @internal
+ */
+export class PolyfaceDecimationContext {
+  private _points: Point3d[];
+  private _vertexTriangles: number[][];
+  private _vertexVersion: number[];
+  private _isFixedVertex: boolean[];
+  /** Quadrics, 10 per vertex: the upper triangle of the symmetric 4x4 matrix. */
+  private _quadrics: Float64Array;
+  /** Planes (normal and constant, 4 numbers each) of the original triangles. */
+  private _planes: number[] = [];
+  /** Per vertex, indices of planes of the original triangles it replaces.  Undefined if no deviation limit is given. */
+  private _vertexPlanes?: number[][];
+  private _maxDeviation?: number;
+  /** Vertex indices, 3 per triangle. */
+  private _triangleVertices: number[] = [];
+  /** Edge visibility, 3 per triangle. */
+  private _triangleEdgeVisible: boolean[] = [];
+  private _triangleAlive: boolean[] = [];
+  private _numAliveTriangles = 0;
+  private _attributes: CornerAttribute[] = [];
+  private _queue: PriorityQueue<CollapseCandidate>;
+
+  private constructor(polyface: IndexedPolyface, options: PolyfaceDecimationOptions) {
+    const data = polyface.data;
+    this._points = data.point.getPoint3dArray();
+    const numVertex = this._points.length;
+    this._vertexTriangles = [];
+    for (let i = 0; i < numVertex; i++)
+      this._vertexTriangles.push([]);
+    this._vertexVersion = new Array(numVertex).fill(0);
+    this._isFixedVertex = new Array(numVertex).fill(false);
+    this._quadrics = new Float64Array(10 * numVertex);
+    this._maxDeviation = options.maxDeviation;
+    if (undefined !== this._maxDeviation)
+      this._vertexPlanes = this._vertexTriangles.map(() => []);
+    this._queue = new PriorityQueue<CollapseCandidate>((a, b) => a.cost - b.cost);
+
+    // Fan-triangulate the facets, recording the source corner of each triangle corner.
+    const sourceCorners: number[] = [];
+    for (let facetIndex = 0; facetIndex < polyface.facetCount; facetIndex++) {
+      const k0 = polyface.facetIndex0(facetIndex);
+      const k1 = polyface.facetIndex1(facetIndex);
+      for (let k = k0 + 1; k + 1 < k1; k++) {
+        sourceCorners.push(k0, k, k + 1);
+        this._triangleEdgeVisible.push(k === k0 + 1 && data.edgeVisible[k0], data.edgeVisible[k], k + 2 === k1 && data.edgeVisible[k + 1]);
+      }
+    }
+    this._triangleVertices = sourceCorners.map((k) => data.pointIndex[k]);
+    const cornerIndices = (indices: number[]) => sourceCorners.map((k) => indices[k]);
+    if (undefined !== data.normal && undefined !== data.normalIndex)
+      this._attributes.push(new NormalAttribute(data.normal, cornerIndices(data.normalIndex)));
+    if (undefined !== data.param && undefined !== data.paramIndex)
+      this._attributes.push(new ParamAttribute(data.param, cornerIndices(data.paramIndex)));
+    if (undefined !== data.color && undefined !== data.colorIndex)
+      this._attributes.push(new ColorAttribute(data.color, cornerIndices(data.colorIndex)));
+    if (undefined !== data.auxData)
+      this._attributes.push(new AuxDataAttribute(data.auxData, cornerIndices(data.auxData.indices)));
+
+    const numTriangles = sourceCorners.length / 3;
+    for (let t = 0; t < numTriangles; t++) {
+      const normal = this.triangleNormal(t);
+      const isAlive = undefined !== normal.normalize(normal);
+      this._triangleAlive.push(isAlive);
+      if (!isAlive)
+        continue;
+      this._numAliveTriangles++;
+      const planeIndex = this._planes.length / 4;
+      this._planes.push(normal.x, normal.y, normal.z, -normal.dotProduct(this._points[this._triangleVertices[3 * t]]));
+      for (let i = 0; i < 3; i++) {
+        const vertex = this._triangleVertices[3 * t + i];
+        this._vertexTriangles[vertex].push(t);
+        this.addPlaneToQuadric(vertex, planeIndex);
+        if (undefined !== this._vertexPlanes)
+          this._vertexPlanes[vertex].push(planeIndex);
+      }
+    }
+    this.markFixedVertices(polyface, options.creaseAngle ?? Angle.createDegrees(30));
+  }
+
+  /**
+   * Return a decimated copy of the polyface.
+   * * See [[PolyfaceQuery.cloneWithDecimation]].
+   */
+  public static decimate(polyface: IndexedPolyface, options: PolyfaceDecimationOptions): IndexedPolyface {
+    const context = new PolyfaceDecimationContext(polyface, options);
+    context.run(options.targetFacetCount ?? 0);
+    return context.createPolyface(polyface.twoSided);
+  }
+
+  /** Fix the vertices of boundary, crease and nonmanifold edges. */
+  private markFixedVertices(polyface: IndexedPolyface, creaseAngle: Angle) {
+    const edges = new IndexedEdgeMatcher();
+    const facetNormals: Array<Vector3d | undefined> = [];
+    const visitor = polyface.createVisitor(1);
+    for (visitor.reset(); visitor.moveToNextFacet();) {
+      const numEdges = visitor.pointCount - 1;
+      for (let i = 0; i < numEdges; i++)
+        edges.addEdge(visitor.clientPointIndex(i), visitor.clientPointIndex(i + 1), visitor.currentReadIndex());
+      const normal = Vector3d.create();
+      facetNormals.push(PolygonOps.unitNormal(visitor.point, normal) ? normal : undefined);
+    }
+    const pairs: SortableEdgeCluster[] = [];
+    const others: SortableEdgeCluster[] = [];
+    edges.sortAndCollectClusters(pairs, others, undefined, others);
+    const fixEdge = (edge: SortableEdge) => {
+      this._isFixedVertex[edge.vertexIndexA] = true;
+      this._isFixedVertex[edge.vertexIndexB] = true;
+    };
+    for (const cluster of others) {
+      for (const edge of Array.isArray(cluster) ? cluster : [cluster])
+        fixEdge(edge);
+    }
+    for (const pair of pairs) {
+      if (Array.isArray(pair) && 2 === pair.length) {
+        const normal0 = facetNormals[pair[0].facetIndex];
+        const normal1 = facetNormals[pair[1].facetIndex];
+        if (undefined === normal0 || undefined === normal1 || normal0.angleTo(normal1).radians > creaseAngle.radians)
+          fixEdge(pair[0]);
+      }
+    }
+  }
+
+  private triangleNormal(t: number, movedVertex?: number, movedPoint?: Point3d): Vector3d {
+    const point = (i: number) => {
+      const vertex = this._triangleVertices[3 * t + i];
+      return vertex === movedVertex ? movedPoint! : this._points[vertex];
+    };
+    return point(0).crossProductToPoints(point(1), point(2));
+  }
+
+  private addPlaneToQuadric(vertex: number, planeIndex: number) {
+    const p = this._planes;
+    const a = p[4 * planeIndex], b = p[4 * planeIndex + 1], c = p[4 * planeIndex + 2], d = p[4 * planeIndex + 3];
+    const q = this._quadrics;
+    const k = 10 * vertex;
+    q[k] += a * a; q[k + 1] += a * b; q[k + 2] += a * c; q[k + 3] += a * d;
+    q[k + 4] += b * b; q[k + 5] += b * c; q[k + 6] += b * d;
+    q[k + 7] += c * c; q[k + 8] += c * d;
+    q[k + 9] += d * d;
+  }
+
+  /** Evaluate the sum of the quadrics of two vertices at a point. */
+  private evaluateQuadrics(vertexA: number, vertexB: number, point: Point3d): number {
+    const q = this._quadrics;
+    const kA = 10 * vertexA;
+    const kB = 10 * vertexB;
+    const e = (i: number) => q[kA + i] + q[kB + i];
+    const x = point.x, y = point.y, z = point.z;
+    return e(0) * x * x + 2 * e(1) * x * y + 2 * e(2) * x * z + 2 * e(3) * x
+      + e(4) * y * y + 2 * e(5) * y * z + 2 * e(6) * y
+      + e(7) * z * z + 2 * e(8) * z
+      + e(9);
+  }
+
+  /** Return the vertices adjacent to `vertex`. */
+  private collectNeighbors(vertex: number): Set<number> {
+    const neighbors = new Set<number>();
+    for (const t of this._vertexTriangles[vertex]) {
+      for (let i = 0; i < 3; i++)
+        neighbors.add(this._triangleVertices[3 * t + i]);
+    }
+    neighbors.delete(vertex);
+    return neighbors;
+  }
+
+  /** Return the corner of triangle `t` at `vertex`. */
+  private cornerOf(t: number, vertex: number): number {
+    for (let i = 0; i < 3; i++) {
+      if (this._triangleVertices[3 * t + i] === vertex)
+        return 3 * t + i;
+    }
+    return -1;
+  }
+
+  /**
+   * Determine how (and whether) edge `vertexA`, `vertexB` can collapse.
+   * * Returns undefined if the collapse is not allowed.
+   */
+  private planCollapse(vertexA: number, vertexB: number): CollapsePlan | undefined {
+    const fixedA = this._isFixedVertex[vertexA];
+    const fixedB = this._isFixedVertex[vertexB];
+    if (fixedA && fixedB)
+      return undefined;
+    const edgeTriangles = this._vertexTriangles[vertexA].filter((t) => this.cornerOf(t, vertexB) >= 0);
+    if (0 === edgeTriangles.length || edgeTriangles.length > 2)
+      return undefined;
+
+    // Link condition: the only common neighbors are the vertices opposite the edge.
+    const neighborsB = this.collectNeighbors(vertexB);
+    let numCommon = 0;
+    for (const neighbor of this.collectNeighbors(vertexA)) {
+      if (neighbor !== vertexB && neighborsB.has(neighbor))
+        numCommon++;
+    }
+    if (numCommon !== edgeTriangles.length)
+      return undefined;
+
+    // Fraction constraints: 0 keeps vertexA, 1 keeps vertexB.
+    let mustKeepA = fixedA;
+    let mustKeepB = fixedB;
+    const indexPairsA: Array<Map<number, number>> = [];
+    const indexPairsB: Array<Map<number, number>> = [];
+    for (const attribute of this._attributes) {
+      const pairsA = new Map<number, number>();
+      const pairsB = new Map<number, number>();
+      for (const t of edgeTriangles) {
+        const indexA = attribute.indices[this.cornerOf(t, vertexA)];
+        const indexB = attribute.indices[this.cornerOf(t, vertexB)];
+        if (pairsA.has(indexA) && pairsA.get(indexA) !== indexB)
+          mustKeepA = true;
+        if (pairsB.has(indexB) && pairsB.get(indexB) !== indexA)
+          mustKeepB = true;
+        pairsA.set(indexA, indexB);
+        pairsB.set(indexB, indexA);
+      }
+      // A value at a vertex that is not paired across the edge cannot be interpolated.
+      for (const t of this._vertexTriangles[vertexA]) {
+        if (!pairsA.has(attribute.indices[this.cornerOf(t, vertexA)]))
+          mustKeepA = true;
+      }
+      for (const t of this._vertexTriangles[vertexB]) {
+        if (!pairsB.has(attribute.indices[this.cornerOf(t, vertexB)]))
+          mustKeepB = true;
+      }
+      indexPairsA.push(pairsA);
+      indexPairsB.push(pairsB);
+    }
+    if (mustKeepA && mustKeepB)
+      return undefined;
+
+    // Minimize the quadric f(t) = a t^2 + b t + c along the edge.
+    const pointA = this._points[vertexA];
+    const pointB = this._points[vertexB];
+    let fraction = mustKeepA ? 0.0 : 1.0;
+    if (!mustKeepA && !mustKeepB) {
+      const f0 = this.evaluateQuadrics(vertexA, vertexB, pointA);
+      const f1 = this.evaluateQuadrics(vertexA, vertexB, pointB);
+      const fMid = this.evaluateQuadrics(vertexA, vertexB, pointA.interpolate(0.5, pointB));
+      const a = 2.0 * f0 + 2.0 * f1 - 4.0 * fMid;
+      const b = f1 - f0 - a;
+      fraction = a > 0.0 ? Math.max(0.0, Math.min(1.0, -b / (2.0 * a))) : (f0 <= f1 ? 0.0 : 1.0);
+    }
+    const point = pointA.interpolate(fraction, pointB);
+    const cost = Math.max(0.0, this.evaluateQuadrics(vertexA, vertexB, point));
+
+    if (undefined !== this._vertexPlanes && undefined !== this._maxDeviation) {
+      const p = this._planes;
+      for (const planes of [this._vertexPlanes[vertexA], this._vertexPlanes[vertexB]]) {
+        for (const i of planes) {
+          if (Math.abs(p[4 * i] * point.x + p[4 * i + 1] * point.y + p[4 * i + 2] * point.z + p[4 * i + 3]) > this._maxDeviation)
+            return undefined;
+        }
+      }
+    }
+
+    // Reject collapses that fold or degenerate the surviving triangles, or that duplicate a triangle.
+    const survivingTriangles = new Set<number>();
+    for (const vertex of [vertexA, vertexB]) {
+      for (const t of this._vertexTriangles[vertex]) {
+        if (!edgeTriangles.includes(t))
+          survivingTriangles.add(t);
+      }
+    }
+    for (const t of survivingTriangles) {
+      const oldNormal = this.triangleNormal(t);
+      const newNormal = this.triangleNormal(t, this.cornerOf(t, vertexA) >= 0 ? vertexA : vertexB, point);
+      if (newNormal.dotProduct(oldNormal) <= 0.0 || newNormal.magnitude() <= 1.0e-12 * oldNormal.magnitude())
+        return undefined;
+    }
+    const vertexSets = new Set<string>();
+    for (const t of survivingTriangles) {
+      const vertices = [0, 1, 2].map((i) => this._triangleVertices[3 * t + i] === vertexB ? vertexA : this._triangleVertices[3 * t + i]);
+      const key = vertices.sort((x, y) => x - y).join(",");
+      if (vertexSets.has(key))
+        return undefined;
+      vertexSets.add(key);
+    }
+    return { cost, fraction, point, edgeTriangles, indexPairsA, indexPairsB };
+  }
+
+  private pushCandidate(vertexA: number, vertexB: number) {
+    const plan = this.planCollapse(vertexA, vertexB);
+    if (undefined !== plan)
+      this._queue.push({ cost: plan.cost, vertexA, vertexB, versionA: this._vertexVersion[vertexA], versionB: this._vertexVersion[vertexB] });
+  }
+
+  /** Collapse edges until the triangle count reaches the target or no more edges can collapse. */
+  private run(targetFacetCount: number) {
+    for (let vertex = 0; vertex < this._points.length; vertex++) {
+      for (const neighbor of this.collectNeighbors(vertex)) {
+        if (vertex < neighbor)
+          this.pushCandidate(vertex, neighbor);
+      }
+    }
+    let candidate;
+    while (this._numAliveTriangles > targetFacetCount && undefined !== (candidate = this._queue.pop())) {
+      if (candidate.versionA !== this._vertexVersion[candidate.vertexA] || candidate.versionB !== this._vertexVersion[candidate.vertexB])
+        continue;
+      // Neighboring collapses may have changed the validity or cost.
+      const plan = this.planCollapse(candidate.vertexA, candidate.vertexB);
+      if (undefined === plan)
+        continue;
+      if (plan.cost > candidate.cost) {
+        candidate.cost = plan.cost;
+        this._queue.push(candidate);
+        continue;
+      }
+      this.collapse(candidate.vertexA, candidate.vertexB, plan);
+    }
+  }
+
+  /** Collapse edge `vertexA`, `vertexB` into `vertexA`. */
+  private collapse(vertexA: number, vertexB: number, plan: CollapsePlan) {
+    const fraction = plan.fraction;
+    // Assign the values at the collapsed vertex before the corners of vertexB are renamed.
+    this._attributes.forEach((attribute, k) => {
+      const newIndices = new Map<string, number>();
+      const valueAt = (indexA: number, indexB: number) => {
+        if (0.0 === fraction)
+          return indexA;
+        if (1.0 === fraction)
+          return indexB;
+        const key = `${indexA},${indexB}`;
+        let index = newIndices.get(key);
+        if (undefined === index) {
+          index = attribute.interpolate(indexA, indexB, fraction);
+          newIndices.set(key, index);
+        }
+        return index;
+      };
+      for (const t of this._vertexTriangles[vertexA]) {
+        const corner = this.cornerOf(t, vertexA);
+        const indexA = attribute.indices[corner];
+        const indexB = plan.indexPairsA[k].get(indexA);
+        attribute.indices[corner] = undefined === indexB ? indexA : valueAt(indexA, indexB);
+      }
+      for (const t of this._vertexTriangles[vertexB]) {
+        if (plan.edgeTriangles.includes(t))
+          continue;
+        const corner = this.cornerOf(t, vertexB);
+        const indexB = attribute.indices[corner];
+        const indexA = plan.indexPairsB[k].get(indexB);
+        attribute.indices[corner] = undefined === indexA ? indexB : valueAt(indexA, indexB);
+      }
+    });
+
+    for (const t of plan.edgeTriangles) {
+      this._triangleAlive[t] = false;
+      this._numAliveTriangles--;
+      for (let i = 0; i < 3; i++) {
+        const vertex = this._triangleVertices[3 * t + i];
+        const triangles = this._vertexTriangles[vertex];
+        triangles.splice(triangles.indexOf(t), 1);
+      }
+    }
+    for (const t of this._vertexTriangles[vertexB]) {
+      this._triangleVertices[this.cornerOf(t, vertexB)] = vertexA;
+      this._vertexTriangles[vertexA].push(t);
+    }
+    this._vertexTriangles[vertexB] = [];
+
+    this._points[vertexA] = plan.point;
+    this._isFixedVertex[vertexA] = this._isFixedVertex[vertexA] || this._isFixedVertex[vertexB];
+    for (let i = 0; i < 10; i++)
+      this._quadrics[10 * vertexA + i] += this._quadrics[10 * vertexB + i];
+    if (undefined !== this._vertexPlanes) {
+      this._vertexPlanes[vertexA] = Array.from(new Set([...this._vertexPlanes[vertexA], ...this._vertexPlanes[vertexB]]));
+      this._vertexPlanes[vertexB] = [];
+    }
+    this._vertexVersion[vertexA]++;
+    this._vertexVersion[vertexB]++;
+    for (const neighbor of this.collectNeighbors(vertexA))
+      this.pushCandidate(vertexA, neighbor);
+  }
+
+  /** Return the surviving triangles as a new polyface, with unused points and attribute values removed. */
+  private createPolyface(twoSided: boolean): IndexedPolyface {
+    const polyface = IndexedPolyface.create(false, false, false, twoSided);
+    const corners: number[] = [];
+    for (let t = 0; t < this._triangleAlive.length; t++) {
+      if (this._triangleAlive[t])
+        corners.push(3 * t, 3 * t + 1, 3 * t + 2);
+    }
+    for (const attribute of this._attributes)
+      attribute.copyTo(polyface, corners);
+    const pointToNew = new Map<number, number>();
+    corners.forEach((corner, i) => {
+      const vertex = this._triangleVertices[corner];
+      let newIndex = pointToNew.get(vertex);
+      if (undefined === newIndex) {
+        newIndex = polyface.addPoint(this._points[vertex]);
+        pointToNew.set(vertex, newIndex);
+      }
+      polyface.addPointIndex(newIndex, this._triangleEdgeVisible[corner]);
+      if (2 === i % 3)
+        polyface.terminateFacet(false);
+    });
+    return polyface;
+  }
+}
@@ -40,6 +40,7 @@ import { TransitionSpiral3d } from "../curve/spiral/TransitionSpiral3d";
 import { Geometry } from "../Geometry";
 import { Segment1d } from "../geometry3d/Segment1d";
 import { IntegratedSpiral3d } from "../curve/spiral/IntegratedSpiral3d";
+import { DirectSpiral3d } from "../curve/spiral/DirectSpiral3d";
 
 /** * Context to write to a flatbuffer blob.
  *  * This class is internal.
@@ -118,7 +119,19 @@ export class BGFBReader {
 
       const activeFractionInterval = Segment1d.create(detailHeader.fractionA(),
         detailHeader.fractionB());
-      if (!directDetailHeader) {
+      if (directDetailHeader || DgnSpiralTypeQueries.isDirectSpiralType(detailHeader.spiralType())) {
+        if (spiralTypeName === undefined)
+          return undefined;
+        // Direct spirals are defined by nominal length and final radius.
+        // If the direct detail is missing, recover the length from the bearing change as for a clothoid.
+        const radius1 = TransitionSpiral3d.curvatureToRadius(curvature1);
+        const nominalLength = directDetailHeader ? directDetailHeader.nominalLength()
+          : TransitionSpiral3d.radiusRadiusSweepRadiansToArcLength(0.0, radius1, bearing1Radians - bearing0Radians);
+        const spiral = DirectSpiral3d.createFromLengthAndRadius(spiralTypeName, TransitionSpiral3d.curvatureToRadius(curvature0), radius1,
+          undefined, undefined, nominalLength, activeFractionInterval, localToWorld);
+        if (spiral)
+          return spiral;
+      } else {
         const spiral = IntegratedSpiral3d.createRadiusRadiusBearingBearing(
           Segment1d.create(IntegratedSpiral3d.curvatureToRadius(curvature0), IntegratedSpiral3d.curvatureToRadius(curvature1)),
           AngleSweep.createStartEndRadians(bearing0Radians, bearing1Radians),
@@ -35,6 +35,7 @@ import { Point3d } from "../geometry3d/Point3dVector3d";
 import { AuxChannel, AuxChannelData, PolyfaceAuxData } from "../polyface/AuxData";
 import { TransitionSpiral3d } from "../curve/spiral/TransitionSpiral3d";
 import { IntegratedSpiral3d } from "../curve/spiral/IntegratedSpiral3d";
+import { DirectSpiral3d } from "../curve/spiral/DirectSpiral3d";
 import { DgnSpiralTypeQueries } from "./BGFBReader";
 
 /**
@@ -185,7 +186,7 @@ export class BGFBWriter {
       const spiralDetailOffset = BGFBAccessors.TransitionSpiralDetail.createTransitionSpiralDetail(this.builder,
         placement.matrix.coffs[0], placement.matrix.coffs[1], placement.matrix.coffs[2], placement.origin.x,
         placement.matrix.coffs[3], placement.matrix.coffs[4], placement.matrix.coffs[5], placement.origin.y,
-        placement.matrix.coffs[6], placement.matrix.coffs[5], placement.matrix.coffs[8], placement.origin.z,
+        placement.matrix.coffs[6], placement.matrix.coffs[7], placement.matrix.coffs[8], placement.origin.z,
         curvePrimitive.activeFractionInterval.x0, curvePrimitive.activeFractionInterval.x1,
         curvePrimitive.bearing01.startRadians, curvePrimitive.bearing01.endRadians,
         TransitionSpiral3d.radiusToCurvature(curvePrimitive.radius01.x0),
@@ -196,6 +197,29 @@ export class BGFBWriter {
         spiralDetailOffset, 0, 0);
       return BGFBAccessors.VariantGeometry.createVariantGeometry(this.builder,
         BGFBAccessors.VariantGeometryUnion.tagTransitionSpiral, transitionTableOffset, 0);
+    } else if (curvePrimitive instanceof DirectSpiral3d) {
+      const placement = curvePrimitive.localToWorld;
+      const typeCode = DgnSpiralTypeQueries.stringToTypeCode(curvePrimitive.spiralType, false);
+      if (typeCode === undefined)
+        return undefined;
+      // Direct spirals are defined by nominal length and final radius.  The bearings are those of a clothoid with the same length and radius.
+      // The detail structs are serialized inline, so the table is assembled step by step.
+      BGFBAccessors.TransitionSpiral.startTransitionSpiral(this.builder);
+      BGFBAccessors.TransitionSpiral.addDetail(this.builder, BGFBAccessors.TransitionSpiralDetail.createTransitionSpiralDetail(this.builder,
+        placement.matrix.coffs[0], placement.matrix.coffs[1], placement.matrix.coffs[2], placement.origin.x,
+        placement.matrix.coffs[3], placement.matrix.coffs[4], placement.matrix.coffs[5], placement.origin.y,
+        placement.matrix.coffs[6], placement.matrix.coffs[7], placement.matrix.coffs[8], placement.origin.z,
+        curvePrimitive.activeFractionInterval.x0, curvePrimitive.activeFractionInterval.x1,
+        0.0, TransitionSpiral3d.radiusRadiusLengthToSweepRadians(0.0, curvePrimitive.nominalR1, curvePrimitive.nominalL1),
+        0.0, TransitionSpiral3d.radiusToCurvature(curvePrimitive.nominalR1),
+        typeCode,
+        0));
+      // true length is not carried
+      BGFBAccessors.TransitionSpiral.addDirectDetail(this.builder, BGFBAccessors.DirectSpiralDetail.createDirectSpiralDetail(this.builder,
+        curvePrimitive.nominalL1, 0.0, 0.0, 0.0, 0, 0));
+      const transitionTableOffset = BGFBAccessors.TransitionSpiral.endTransitionSpiral(this.builder);
+      return BGFBAccessors.VariantGeometry.createVariantGeometry(this.builder,
+        BGFBAccessors.VariantGeometryUnion.tagTransitionSpiral, transitionTableOffset, 0);
     }
     return undefined;
   }
@@ -8,11 +8,17 @@ import { CurveCurve } from "../../curve/CurveCurve";
 import { GeometryQuery } from "../../curve/GeometryQuery";
 import { LineSegment3d } from "../../curve/LineSegment3d";
 import { Point3d } from "../../geometry3d/Point3dVector3d";
+import { Angle } from "../../geometry3d/Angle";
+import { Matrix3d } from "../../geometry3d/Matrix3d";
+import { Transform } from "../../geometry3d/Transform";
 import { Checker } from "../Checker";
 import { GeometryCoreTestIO } from "../GeometryCoreTestIO";
 import { CurvePrimitive } from "../../curve/CurvePrimitive";
 import { LineString3d } from "../../curve/LineString3d";
 import { BSplineCurve3d } from "../../bspline/BSplineCurve";
+import { DirectSpiral3d } from "../../curve/spiral/DirectSpiral3d";
+import { IntegratedSpiral3d } from "../../curve/spiral/IntegratedSpiral3d";
+import { TransitionSpiral3d } from "../../curve/spiral/TransitionSpiral3d";
 
 /**
  * Create line segments joining various fractional positions on two arcs.
@@ -231,4 +237,47 @@ describe("CurveCurveCloseApproachXY", () => {
     expect(ck.getNumErrors()).equals(0);
   });
 
+  it("Spirals", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const spirals: TransitionSpiral3d[] = [IntegratedSpiral3d.createFrom4OutOf5("clothoid", 0, 200, Angle.createDegrees(0), undefined, 100, undefined, Transform.createIdentity())!];
+    for (const spiralType of ["JapaneseCubic", "Arema", "HalfCosine", "Czech", "AustralianRailCorp", "WesternAustralian"])
+      spirals.push(DirectSpiral3d.createFromLengthAndRadius(spiralType, 0, 200, undefined, undefined, 100, undefined, Transform.createIdentity())!);
+    let x0 = 0;
+    for (const spiral of spirals) {
+      let y0 = 0;
+      // Each curve is on the convex side of the spiral, with its closest approach at the midpoint of the spiral.
+      const frame = spiral.fractionToFrenetFrame(0.5)!;
+      const spiralB = spiral.cloneTransformed(Transform.createFixedPointAndMatrix(frame.multiplyXYZ(0, -3), Matrix3d.createRotationAroundAxisIndex(2, Angle.createDegrees(180))))!;
+      for (const [curve, distance] of [
+        [LineSegment3d.create(frame.multiplyXYZ(-30, -2), frame.multiplyXYZ(30, -2)), 2],
+        [LineString3d.create(frame.multiplyXYZ(-30, -2), frame.multiplyXYZ(10, -2), frame.multiplyXYZ(30, -3)), 2],
+        [Arc3d.createXY(frame.multiplyXYZ(0, -7), 5), 2],
+        [spiralB, 6],
+      ] as Array<[CurvePrimitive, number]>) {
+        const maxDistance = distance + 0.5;
+        for (const reversed of [false, true]) {
+          const approaches = reversed ? CurveCurve.closeApproachProjectedXYPairs(curve, spiral, maxDistance)
+            : CurveCurve.closeApproachProjectedXYPairs(spiral, curve, maxDistance);
+          GeometryCoreTestIO.captureCloneGeometry(allGeometry, [spiral, curve], x0, y0);
+          let numAtMidpoint = 0;
+          for (const pair of approaches) {
+            const spiralDetail = reversed ? pair.detailB : pair.detailA;
+            ck.testTrue(spiralDetail.curve === spiral, "spiral detail is on the spiral");
+            const approach = pair.detailA.point.distanceXY(pair.detailB.point);
+            ck.testLE(approach, maxDistance, "approach within max distance");
+            // newton refinement makes the approach precise
+            if (Math.abs(spiralDetail.fraction - 0.5) < 1.0e-10 && Math.abs(approach - distance) < 1.0e-10)
+              numAtMidpoint++;
+            GeometryCoreTestIO.captureGeometry(allGeometry, LineSegment3d.create(pair.detailA.point, pair.detailB.point), x0, y0);
+          }
+          ck.testExactNumber(1, numAtMidpoint, "closest approach at spiral midpoint", spiral.spiralType, curve);
+          y0 += 20;
+        }
+      }
+      x0 += 150;
+    }
+    GeometryCoreTestIO.saveGeometry(allGeometry, "CurveCurveCloseApproachXY", "Spirals");
+    expect(ck.getNumErrors()).equals(0);
+  });
 });
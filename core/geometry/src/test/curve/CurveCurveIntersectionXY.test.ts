@@ -7,9 +7,15 @@ import { BSplineCurve3d } from "../../bspline/BSplineCurve";
 import { Arc3d } from "../../curve/Arc3d";
 import { CurveCurve } from "../../curve/CurveCurve";
 import { CurveLocationDetailPair } from "../../curve/CurveLocationDetail";
+import { CurvePrimitive } from "../../curve/CurvePrimitive";
 import { GeometryQuery } from "../../curve/GeometryQuery";
 import { LineSegment3d } from "../../curve/LineSegment3d";
 import { LineString3d } from "../../curve/LineString3d";
+import { DirectSpiral3d } from "../../curve/spiral/DirectSpiral3d";
+import { IntegratedSpiral3d } from "../../curve/spiral/IntegratedSpiral3d";
+import { TransitionSpiral3d } from "../../curve/spiral/TransitionSpiral3d";
+import { Angle } from "../../geometry3d/Angle";
+import { Matrix3d } from "../../geometry3d/Matrix3d";
 import { Point2d } from "../../geometry3d/Point2dVector2d";
 import { Point3d, Vector3d } from "../../geometry3d/Point3dVector3d";
 import { Transform } from "../../geometry3d/Transform";
@@ -415,6 +421,8 @@ describe("CurveCurveXY", () => {
             if (!testIntersectionsXY(ck, worldToLocal, intersectionsAB, 1, 1))
               intersectionsAB = CurveCurve.intersectionProjectedXYPairs(worldToLocal, bspline0, false, bspline1, false);
             for (const pair of intersectionsAB) {
+              ck.testPoint3d(pair.detailA.point, bspline0.fractionToPoint(pair.detailA.fraction), "intersection fraction on bspline0");
+              ck.testPoint3d(pair.detailB.point, bspline1.fractionToPoint(pair.detailB.fraction), "intersection fraction on bspline1");
               GeometryCoreTestIO.captureGeometry(allGeometry, Arc3d.createXY(pair.detailA.point, rA), dx, dy);
               GeometryCoreTestIO.captureGeometry(allGeometry, Arc3d.createXY(pair.detailB.point, rB), dx, dy);
               captureEyeStroke(allGeometry, map, pair.detailA.point, pair.detailB.point, 2.0 * z0, dx, dy);
@@ -443,4 +451,52 @@ describe("CurveCurveXY", () => {
     expect(ck.getNumErrors()).equals(0);
   });
 
+  it("SpiralIntersections", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const spirals: TransitionSpiral3d[] = [IntegratedSpiral3d.createFrom4OutOf5("clothoid", 0, 200, Angle.createDegrees(0), undefined, 100, undefined, Transform.createIdentity())!];
+    for (const spiralType of ["JapaneseCubic", "Arema", "HalfCosine", "Czech", "AustralianRailCorp", "WesternAustralian"])
+      spirals.push(DirectSpiral3d.createFromLengthAndRadius(spiralType, 0, 200, undefined, undefined, 100, undefined, Transform.createIdentity())!);
+    let dy0 = 0;
+    for (const map of createSamplePerspectiveMaps()) {
+      const worldToLocal = map.transform0;
+      let dx = 0;
+      for (const spiral of spirals) {
+        let dy = dy0;
+        // spiralB crosses the spiral at its midpoint.
+        const spiralB = spiral.cloneTransformed(Transform.createFixedPointAndMatrix(spiral.fractionToPoint(0.5), Matrix3d.createRotationAroundAxisIndex(2, Angle.createDegrees(90))))!;
+        for (const [curve, numExpected] of [
+          [LineSegment3d.createXYXY(50, -5, 60, 20), 1],
+          [Arc3d.createXY(Point3d.create(50, 1), 10), 2],
+          [LineString3d.create([20, -5], [30, 10], [40, -5]), 2],
+          [BSplineCurve3d.createUniformKnots([Point3d.create(70, -5), Point3d.create(75, 20), Point3d.create(80, -5)], 3)!, 2],
+          [spiralB, 1],
+        ] as Array<[CurvePrimitive, number]>) {
+          GeometryCoreTestIO.captureCloneGeometry(allGeometry, [spiral, curve], dx, dy);
+          for (const reversed of [false, true]) {
+            const intersections = reversed ? CurveCurve.intersectionProjectedXYPairs(worldToLocal, curve, false, spiral, false)
+              : CurveCurve.intersectionProjectedXYPairs(worldToLocal, spiral, false, curve, false);
+            // newton refinement makes the intersection precise, also in perspective
+            testIntersectionsXY(ck, worldToLocal, intersections, numExpected, numExpected, true);
+            for (const pair of intersections) {
+              const spiralDetail = reversed ? pair.detailB : pair.detailA;
+              ck.testTrue(spiralDetail.curve === spiral, "spiral detail is on the spiral");
+              ck.testLE(worldToLocal.multiplyPoint3dQuietNormalize(pair.detailA.point).distanceXY(worldToLocal.multiplyPoint3dQuietNormalize(pair.detailB.point)), 1.0e-10, "precise intersection");
+              GeometryCoreTestIO.createAndCaptureXYCircle(allGeometry, pair.detailA.point, 0.5, dx, dy);
+            }
+            if (curve === spiralB && intersections.length === 1) {
+              ck.testCoordinate(0.5, intersections[0].detailA.fraction, "spirals cross at midpoint");
+              ck.testCoordinate(0.5, intersections[0].detailB.fraction, "spirals cross at midpoint");
+            }
+          }
+          dy += 30;
+        }
+        dx += 150;
+      }
+      dy0 += 200;
+    }
+    GeometryCoreTestIO.saveGeometry(allGeometry, "CurveCurveIntersection", "SpiralIntersections");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
 });
@@ -5,6 +5,7 @@
 
 import { expect } from "chai";
 import * as fs from "fs";
+import { BSplineCurve3d } from "../../bspline/BSplineCurve";
 import { Arc3d } from "../../curve/Arc3d";
 import { AnyCurve, AnyRegion } from "../../curve/CurveChain";
 import { CurveFactory } from "../../curve/CurveFactory";
@@ -15,11 +16,13 @@ import { LineString3d } from "../../curve/LineString3d";
 import { Loop, SignedLoops } from "../../curve/Loop";
 import { ParityRegion } from "../../curve/ParityRegion";
 import { RegionBinaryOpType, RegionOps } from "../../curve/RegionOps";
+import { StrokeOptions } from "../../curve/StrokeOptions";
 import { Angle } from "../../geometry3d/Angle";
 import { GrowableXYZArray } from "../../geometry3d/GrowableXYZArray";
 import { Matrix3d } from "../../geometry3d/Matrix3d";
 import { Point3d, Vector3d } from "../../geometry3d/Point3dVector3d";
 import { Transform } from "../../geometry3d/Transform";
+import { MomentData } from "../../geometry4d/MomentData";
 import { PolyfaceBuilder } from "../../polyface/PolyfaceBuilder";
 import { DuplicateFacetClusterSelector, PolyfaceQuery } from "../../polyface/PolyfaceQuery";
 import { IModelJson } from "../../serialization/IModelJsonSchema";
@@ -586,8 +589,62 @@ describe("GeneralSweepBooleans", () => {
     GeometryCoreTestIO.saveGeometry(allGeometry, "sweepBooleans", "DocDemo");
     expect(ck.getNumErrors()).equals(0);
   });
+
+  it("CurvedBoundaries", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const circleA = Loop.create(Arc3d.createXY(Point3d.create(0, 0), 1));
+    const circleB = Loop.create(Arc3d.createXY(Point3d.create(1, 0), 1));
+    const farCircle = Loop.create(Arc3d.createXY(Point3d.create(10, 0), 1));
+    const innerCircle = Loop.create(Arc3d.createXY(Point3d.create(0, 0), 0.5));
+    const rectangle = CurveFactory.createRectangleXY(0, -2, 3, 2);
+    // the lens between unit circles with centers 1 apart . ..
+    const lensArea = 2 * Math.PI / 3 - 0.5 * Math.sqrt(3);
+    const lens = RegionOps.regionBooleanXY(circleA, circleB, RegionBinaryOpType.Intersection)!;
+    ck.testCoordinate(lensArea, RegionOps.computeXYArea(lens)!, "lens area");
+    const lensMoments = RegionOps.computeXYAreaMoments(lens)!;
+    const lensPrincipalMoments = MomentData.inertiaProductsToPrincipalAxes(lensMoments.origin, lensMoments.sums)!;
+    ck.testPoint3d(Point3d.create(0.5, 0), lensPrincipalMoments.origin, "lens centroid");
+    ck.testTrue(isCurveTypeOnly(lens, "arc"), "lens is bounded by arcs");
+    ck.testCoordinate(2 * Math.PI - lensArea, RegionOps.computeXYArea(RegionOps.regionBooleanXY(circleA, circleB, RegionBinaryOpType.Union)!)!, "circle union area");
+    ck.testCoordinate(Math.PI - lensArea, RegionOps.computeXYArea(RegionOps.regionBooleanXY(circleA, circleB, RegionBinaryOpType.AMinusB)!)!, "circle difference area");
+    const halfDisk = RegionOps.regionBooleanXY(circleA, rectangle, RegionBinaryOpType.Intersection)!;
+    ck.testCoordinate(0.5 * Math.PI, RegionOps.computeXYArea(halfDisk)!, "half disk area");
+    const halfDiskMoments = RegionOps.computeXYAreaMoments(halfDisk)!;
+    const halfDiskPrincipalMoments = MomentData.inertiaProductsToPrincipalAxes(halfDiskMoments.origin, halfDiskMoments.sums)!;
+    ck.testPoint3d(Point3d.create(4 / (3 * Math.PI), 0), halfDiskPrincipalMoments.origin, "half disk centroid");
+    ck.testCoordinate(2 * Math.PI, RegionOps.computeXYArea(RegionOps.regionBooleanXY(circleA, farCircle, RegionBinaryOpType.Union)!)!, "disjoint circle union area");
+    const annulus = RegionOps.regionBooleanXY(circleA, innerCircle, RegionBinaryOpType.AMinusB)!;
+    ck.testTrue(annulus instanceof ParityRegion, "annulus is a parity region");
+    ck.testCoordinate(0.75 * Math.PI, RegionOps.computeXYArea(annulus)!, "annulus area");
+
+    const bspline = BSplineCurve3d.createUniformKnots([Point3d.create(0, 0), Point3d.create(2, -1), Point3d.create(4, 0), Point3d.create(4, 3), Point3d.create(0, 3), Point3d.create(0, 0)], 3)!;
+    const bsplineLoop = Loop.create(bspline);
+    const strokeOptions = StrokeOptions.createForCurves();
+    strokeOptions.angleTol = Angle.createDegrees(0.05);
+    ck.testCoordinateWithToleranceFactor(RegionOps.computeXYArea(bsplineLoop.cloneStroked(strokeOptions) as Loop)!, RegionOps.computeXYArea(bsplineLoop)!, 1.0e5, "bspline area by quadrature");
+    const splitter = CurveFactory.createRectangleXY(1, -2, 2, 4);
+    const bsplineCap = RegionOps.regionBooleanXY(bsplineLoop, splitter, RegionBinaryOpType.Intersection)!;
+    const bsplineSides = RegionOps.regionBooleanXY(bsplineLoop, splitter, RegionBinaryOpType.AMinusB)!;
+    ck.testTrue(isCurveTypeOnly(bsplineSides, "bsplineCurve", "lineSegment", "lineString"), "bspline pieces are preserved");
+    ck.testCoordinate(RegionOps.computeXYArea(bsplineLoop)!, RegionOps.computeXYArea(bsplineCap)! + RegionOps.computeXYArea(bsplineSides)!, "bspline split area");
+
+    let x0 = 0;
+    exerciseAreaBooleans([circleA], [circleB], ck, allGeometry, x0, 0);
+    exerciseAreaBooleans([circleA], [rectangle], ck, allGeometry, x0 += 10, 0);
+    exerciseAreaBooleans([circleA], [farCircle], ck, allGeometry, x0 += 10, 0);
+    exerciseAreaBooleans([bsplineLoop], [splitter], ck, allGeometry, x0 += 20, 0);
+    GeometryCoreTestIO.saveGeometry(allGeometry, "sweepBooleans", "CurvedBoundaries");
+    expect(ck.getNumErrors()).equals(0);
+  });
 });
 
+/** Test if all primitives of a region have one of the given curve types. */
+function isCurveTypeOnly(region: AnyRegion, ...curvePrimitiveTypes: string[]): boolean {
+  const primitives = region.collectCurvePrimitives();
+  return primitives.length > 0 && primitives.every((primitive: CurvePrimitive) => curvePrimitiveTypes.includes(primitive.curvePrimitiveType));
+}
+
 function exerciseAreaBooleans(dataA: AnyRegion[], dataB: AnyRegion[],
   ck: Checker, allGeometry: GeometryQuery[], x0: number, y0Start: number) {
   const areas = [];
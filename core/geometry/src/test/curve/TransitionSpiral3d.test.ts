@@ -34,9 +34,12 @@ import { LineSegment3d } from "../../curve/LineSegment3d";
 import { CurveFactory } from "../../curve/CurveFactory";
 import { Quadrature } from "../../numerics/Quadrature";
 import { IModelJson } from "../../serialization/IModelJsonSchema";
+import { BentleyGeometryFlatBuffer } from "../../serialization/BentleyGeometryFlatBuffer";
 import * as fs from "fs";
 import { CurvePrimitive } from "../../curve/CurvePrimitive";
 import { CurveCollection } from "../../curve/CurveCollection";
+import { CurveChainWithDistanceIndex } from "../../curve/CurveChainWithDistanceIndex";
+import { Path } from "../../curve/Path";
 
 function exerciseCloneAndScale(ck: Checker, data: TransitionConditionalProperties) {
   const data1 = data.clone();
@@ -189,6 +192,7 @@ describe("TransitionSpiral3d", () => {
       ck.testPoint3d(planeA.origin, planeB.origin, `spiral.fractionToPoint () in partial spiral at partial fraction ${f}`);
       ck.testVector3d(planeA.vectorU.scale(delta), planeB.vectorU, "spiral.fractionToPointAnd2Derivatives in partial spiral at partial fraction");
       ck.testVector3d(planeA.vectorV.scale(delta * delta), planeB.vectorV, "spiral.fractionToPointAnd2Derivatives in partial spiral at partial fraction");
+      ck.testVector3d(tangentB.direction, planeB.vectorU, "spiral first derivative from fractionToPointAnd2Derivatives");
     }
     expect(ck.getNumErrors()).equals(0);
   });
@@ -832,6 +836,68 @@ describe("TransitionSpiral3d", () => {
     }
     GeometryCoreTestIO.saveGeometry(allGeometry, "TransitionSpiral3d", "spiralStroking");
   });
+
+  it("DistanceIndexAndClosestPoint", () => {
+    const ck = new Checker();
+    const spirals: TransitionSpiral3d[] = [
+      IntegratedSpiral3d.createRadiusRadiusBearingBearing(Segment1d.create(0, 200), AngleSweep.createStartEndDegrees(0, 10), Segment1d.create(0, 1), Transform.createIdentity())!,
+      DirectSpiral3d.createFromLengthAndRadius("Arema", 0, 200, undefined, undefined, 70, undefined, Transform.createIdentity())!];
+    for (const spiral of spirals) {
+      // distances along the chain are true spiral distances
+      const chain = CurveChainWithDistanceIndex.createCapture(Path.create(spiral))!;
+      ck.testCoordinate(spiral.curveLength(), chain.curveLength(), "chain length", spiral.spiralType);
+      for (const fraction of [0, 0.3, 1]) {
+        const ray = spiral.fractionToPointAndUnitTangent(fraction);
+        // offset perpendicular, and also beyond the ends
+        const spacePoint = ray.origin.plus(Vector3d.create(-3 * ray.direction.y, 3 * ray.direction.x));
+        if (fraction === 0)
+          spacePoint.addInPlace(ray.direction.scale(-5));
+        else if (fraction === 1)
+          spacePoint.addInPlace(ray.direction.scale(5));
+        const spiralDetail = spiral.closestPoint(spacePoint, false);
+        const chainDetail = chain.closestPoint(spacePoint, false);
+        if (ck.testDefined(spiralDetail, "spiral closest point") && ck.testDefined(chainDetail, "chain closest point")) {
+          ck.testCoordinate(fraction, spiralDetail!.fraction, "spiral closest point fraction", spiral.spiralType);
+          ck.testCoordinate(spiral.curveLengthBetweenFractions(0, fraction), chainDetail!.fraction * chain.curveLength(), "chain closest point distance", spiral.spiralType);
+        }
+      }
+    }
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("SerializationRoundTrip", () => {
+    const ck = new Checker();
+    const placement = Transform.createOriginAndMatrix(Point3d.create(10, 20, 3), Matrix3d.createRotationAroundVector(Vector3d.create(1, 2, 3), Angle.createDegrees(30)));
+    const spirals: TransitionSpiral3d[] = [];
+    for (const activeInterval of [undefined, Segment1d.create(0.2, 0.8)]) {
+      for (const radius1 of [300, -300]) {
+        for (const spiralType of ["clothoid", "bloss", "biquadratic", "sine", "cosine"]) {
+          spirals.push(IntegratedSpiral3d.createFrom4OutOf5(spiralType, 0, radius1, Angle.createDegrees(0), undefined, 100, activeInterval, placement)!);
+        }
+        for (const spiralType of ["JapaneseCubic", "Arema", "ChineseCubic", "HalfCosine", "Czech", "AustralianRailCorp", "WesternAustralian"]) {
+          const spiral = DirectSpiral3d.createFromLengthAndRadius(spiralType, 0, radius1, undefined, undefined, 100, activeInterval, placement);
+          if (ck.testDefined(spiral, `create ${spiralType}`) && spiral)
+            spirals.push(spiral);
+        }
+      }
+    }
+    for (const spiral of spirals.slice()) {
+      const reversed = spiral.clone() as TransitionSpiral3d;
+      reversed.reverseInPlace();
+      spirals.push(reversed);
+    }
+    for (const spiral of spirals) {
+      const json = IModelJson.Writer.toIModelJson(spiral);
+      const spiralB = IModelJson.Reader.parse(json);
+      ck.testTrue(spiralB instanceof TransitionSpiral3d && spiral.isAlmostEqual(spiralB), `IModelJson round trip ${spiral.spiralType}`);
+      const bytes = BentleyGeometryFlatBuffer.geometryToBytes(spiral);
+      if (ck.testDefined(bytes, `flatbuffer write ${spiral.spiralType}`) && bytes) {
+        const spiralC = BentleyGeometryFlatBuffer.bytesToGeometry(bytes);
+        ck.testTrue(spiralC instanceof TransitionSpiral3d && spiral.isAlmostEqual(spiralC), `flatbuffer round trip ${spiral.spiralType}`);
+      }
+    }
+    expect(ck.getNumErrors()).equals(0);
+  });
 });
 function xyString(name: string, x: number, y: number): string {
   return (`  (${name}  ${x} + ${y})`);
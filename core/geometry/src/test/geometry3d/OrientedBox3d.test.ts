@@ -0,0 +1,158 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { expect } from "chai";
+import { GeometryQuery } from "../../curve/GeometryQuery";
+import { AxisOrder } from "../../Geometry";
+import { LineSegment3d } from "../../curve/LineSegment3d";
+import { LineString3d } from "../../curve/LineString3d";
+import { PointString3d } from "../../curve/PointString3d";
+import { Angle } from "../../geometry3d/Angle";
+import { Matrix3d } from "../../geometry3d/Matrix3d";
+import { OrientedBox3d, OrientedBoxMethod } from "../../geometry3d/OrientedBox3d";
+import { Point3d, Vector3d } from "../../geometry3d/Point3dVector3d";
+import { Range3d } from "../../geometry3d/Range";
+import { Transform } from "../../geometry3d/Transform";
+import { PolyfaceBuilder } from "../../polyface/PolyfaceBuilder";
+import { Box } from "../../solid/Box";
+import { Checker } from "../Checker";
+import { GeometryCoreTestIO } from "../GeometryCoreTestIO";
+
+/** Deterministic pseudo-random number in [0,1). */
+function hash(x: number): number {
+  const y = 43758.5453 * Math.sin(x);
+  return y - Math.floor(y);
+}
+
+/** Return points on the corners and inside the box (-a..a, -b..b, -c..c), transformed to world. */
+function boxPoints(a: number, b: number, c: number, localToWorld: Transform, numInterior: number): Point3d[] {
+  const points = Range3d.createXYZXYZ(-a, -b, -c, a, b, c).corners();
+  for (let i = 0; i < numInterior; i++) {
+    const f = (k: number) => 2.0 * hash(12.9898 * i + 78.233 * k) - 1.0;
+    points.push(Point3d.create(0.9 * a * f(1), 0.9 * b * f(2), 0.9 * c * f(3)));
+  }
+  localToWorld.multiplyPoint3dArrayInPlace(points);
+  return points;
+}
+
+function captureBox(allGeometry: GeometryQuery[], box: OrientedBox3d | undefined, x0: number, y0: number) {
+  if (box) {
+    const builder = PolyfaceBuilder.create();
+    const h = box.halfExtents;
+    builder.addBox(Box.createRange(Range3d.createXYZXYZ(-h.x, -h.y, -h.z, h.x, h.y, h.z), true)!);
+    const mesh = builder.claimPolyface();
+    mesh.tryTransformInPlace(box.localToWorld);
+    GeometryCoreTestIO.captureCloneGeometry(allGeometry, mesh, x0, y0);
+  }
+}
+
+function verifyContainsAll(ck: Checker, box: OrientedBox3d | undefined, points: Point3d[]): boolean {
+  if (!ck.testDefined(box, "box exists") || !box)
+    return false;
+  let numOutside = 0;
+  for (const point of points)
+    if (!box.containsPoint(point, 1.0e-10))
+      numOutside++;
+  ck.testExactNumber(0, numOutside, "all points in box");
+  ck.testTrue(box.axes.isRigid(), "rigid axes");
+  const h = box.halfExtents;
+  ck.testTrue(h.x >= h.y && h.y >= h.z, "extents are sorted");
+  return true;
+}
+
+describe("OrientedBox3d", () => {
+
+  it("RotatedBoxPoints", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const localToWorld = Transform.createOriginAndMatrix(Point3d.create(3, -2, 5),
+      Matrix3d.createRotationAroundVector(Vector3d.create(1, -2, 0.4), Angle.createDegrees(27)));
+    const points = boxPoints(1, 3, 0.5, localToWorld, 200);
+    GeometryCoreTestIO.captureCloneGeometry(allGeometry, PointString3d.create(points), 0, 0);
+    let x0 = 0;
+    for (const method of [OrientedBoxMethod.PrincipalAxes, OrientedBoxMethod.PrincipalAxesWithCalipers, OrientedBoxMethod.MinimumVolume]) {
+      const box = OrientedBox3d.createFromPoints(points, method);
+      if (verifyContainsAll(ck, box, points)) {
+        ck.testLE(12 - 1.0e-10, box!.volume, "box is no smaller than the true box");
+        if (method === OrientedBoxMethod.MinimumVolume) {
+          ck.testCoordinate(12, box!.volume, "minimum volume");
+          ck.testVector3d(Vector3d.create(3, 1, 0.5), box!.halfExtents, "half extents");
+          ck.testPoint3d(localToWorld.getOrigin(), box!.center, "center");
+          ck.testTrue(box!.axes.columnX().isParallelTo(localToWorld.matrix.columnY(), true), "long axis");
+        }
+      }
+      captureBox(allGeometry, box, x0, 0);
+      x0 += 10;
+    }
+    GeometryCoreTestIO.saveGeometry(allGeometry, "OrientedBox3d", "RotatedBoxPoints");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("CalipersInPlane", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    // The principal axes of the vertices of this polygon are not the axes of its smallest rectangle.
+    const polygon = [Point3d.create(0, 0), Point3d.create(4, 0), Point3d.create(4, 1), Point3d.create(1, 1), Point3d.create(1, 3), Point3d.create(0, 3), Point3d.create(0.2, 2)];
+    const rotation = Transform.createOriginAndMatrix(Point3d.create(1, 1, 1), Matrix3d.createRotationAroundVector(Vector3d.create(0, 1, 1), Angle.createDegrees(50)));
+    rotation.multiplyPoint3dArrayInPlace(polygon);
+    const principal = OrientedBox3d.createFromPoints(polygon, OrientedBoxMethod.PrincipalAxes);
+    const calipers = OrientedBox3d.createFromPoints(polygon, OrientedBoxMethod.PrincipalAxesWithCalipers);
+    if (verifyContainsAll(ck, principal, polygon) && verifyContainsAll(ck, calipers, polygon)) {
+      ck.testCoordinate(0, calipers!.halfExtents.z, "flat box");
+      const area = 4.0 * calipers!.halfExtents.x * calipers!.halfExtents.y;
+      ck.testCoordinate(12, area, "minimum rectangle is the range rectangle");
+      ck.testLE(area, 4.0 * principal!.halfExtents.x * principal!.halfExtents.y, "calipers improve on principal axes");
+    }
+    GeometryCoreTestIO.captureCloneGeometry(allGeometry, LineString3d.create(polygon, polygon[0]), 0, 0);
+    captureBox(allGeometry, calipers, 0, 0);
+    captureBox(allGeometry, principal, 10, 0);
+    GeometryCoreTestIO.saveGeometry(allGeometry, "OrientedBox3d", "CalipersInPlane");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("Degenerate", () => {
+    const ck = new Checker();
+    const segment = LineSegment3d.createXYZXYZ(1, 2, 3, 4, 6, 3);
+    const box = OrientedBox3d.createFromGeometry(segment);
+    if (verifyContainsAll(ck, box, [segment.point0Ref, segment.point1Ref])) {
+      ck.testVector3d(Vector3d.create(2.5, 0, 0), box!.halfExtents, "segment box");
+      ck.testPoint3d(segment.fractionToPoint(0.5), box!.center, "segment midpoint");
+    }
+    const pointBox = OrientedBox3d.createFromPoints([Point3d.create(1, 2, 3)]);
+    if (ck.testDefined(pointBox) && pointBox) {
+      ck.testExactNumber(0, pointBox.volume, "single point");
+      ck.testPoint3d(Point3d.create(1, 2, 3), pointBox.center);
+    }
+    ck.testUndefined(OrientedBox3d.createFromPoints([]), "no points");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("Intersection", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const boxA = OrientedBox3d.createFromCenterAxesHalfExtents(Point3d.create(0, 0, 0), Matrix3d.createIdentity(), Vector3d.create(1, 1, 1))!;
+    const rotation = Matrix3d.createRotationAroundVector(Vector3d.unitZ(), Angle.createDegrees(45))!;
+    const touching = OrientedBox3d.createFromCenterAxesHalfExtents(Point3d.create(1 + Math.sqrt(2), 0, 0), rotation, Vector3d.create(1, 1, 1))!;
+    const separated = OrientedBox3d.createFromCenterAxesHalfExtents(Point3d.create(1.1 + Math.sqrt(2), 0, 0), rotation, Vector3d.create(1, 1, 1))!;
+    // range boxes of these overlap, but a cross product axis separates them.
+    const tilted = Matrix3d.createRigidFromColumns(Vector3d.create(1, -1, 0), Vector3d.create(1, 1, Math.sqrt(2)), AxisOrder.XYZ)!;
+    const edgeSeparated = OrientedBox3d.createFromCenterAxesHalfExtents(Point3d.create(1.1, 1.1, 0), tilted, Vector3d.create(3, 0.05, 0.05))!;
+    ck.testTrue(boxA.intersectsOrientedBox(boxA.clone()), "self");
+    ck.testTrue(boxA.intersectsOrientedBox(touching), "touching");
+    ck.testTrue(touching.intersectsOrientedBox(boxA), "touching, reversed");
+    ck.testFalse(boxA.intersectsOrientedBox(separated), "separated");
+    ck.testTrue(boxA.worldRange().intersectsRange(edgeSeparated.worldRange()), "ranges overlap");
+    ck.testFalse(boxA.intersectsOrientedBox(edgeSeparated), "separated by a rotated axis");
+    ck.testCoordinate(8, boxA.volume);
+    ck.testExactNumber(8, touching.getCorners().length);
+    let x0 = 0;
+    for (const box of [boxA, touching, separated, edgeSeparated]) {
+      captureBox(allGeometry, box, x0, 0);
+      captureBox(allGeometry, boxA, x0, 0);
+      x0 += 10;
+    }
+    GeometryCoreTestIO.saveGeometry(allGeometry, "OrientedBox3d", "Intersection");
+    expect(ck.getNumErrors()).equals(0);
+  });
+});
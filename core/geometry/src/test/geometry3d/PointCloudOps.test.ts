@@ -0,0 +1,118 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+
+import { expect } from "chai";
+import { GeometryQuery } from "../../curve/GeometryQuery";
+import { LineString3d } from "../../curve/LineString3d";
+import { Geometry } from "../../Geometry";
+import { GrowableXYZArray } from "../../geometry3d/GrowableXYZArray";
+import { Plane3dByOriginAndUnitNormal } from "../../geometry3d/Plane3dByOriginAndUnitNormal";
+import { PointCloudOps } from "../../geometry3d/PointCloudOps";
+import { Point3d, Vector3d } from "../../geometry3d/Point3dVector3d";
+import { Checker } from "../Checker";
+import { GeometryCoreTestIO } from "../GeometryCoreTestIO";
+
+/** Return a (Park-Miller) generator of numbers in [0,1), for repeatable "random" tests. */
+function createSeededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+}
+
+/** Return points on a grid over [0,numX) x [0,numY) in the plane z = ax + by + c, perturbed in z by up to +-noise. */
+function createPlanarGrid(numX: number, numY: number, a: number, b: number, c: number, noise: number, random: () => number): GrowableXYZArray {
+  const points = new GrowableXYZArray();
+  for (let j = 0; j < numY; j++) {
+    for (let i = 0; i < numX; i++)
+      points.pushXYZ(i, j, a * i + b * j + c + noise * (2.0 * random() - 1.0));
+  }
+  return points;
+}
+
+describe("PointCloudOps", () => {
+  it("VoxelDownsample", () => {
+    const ck = new Checker();
+    const points = createPlanarGrid(10, 10, 0, 0, 0.5, 0, createSeededRandom(1));
+    const downsampled = PointCloudOps.voxelDownsample(points, 2.0);
+    ck.testExactNumber(25, downsampled.length, "2x2 points per voxel");
+    ck.testPoint3d(Point3d.create(0.5, 0.5, 0.5), downsampled.getPoint3dAtUncheckedPointIndex(0), "voxel centroid");
+    ck.testPoint3d(Point3d.create(8.5, 8.5, 0.5), downsampled.getPoint3dAtUncheckedPointIndex(24), "last voxel centroid");
+    ck.testExactNumber(points.length, PointCloudOps.voxelDownsample(points, 0.5).length, "one point per voxel");
+    ck.testExactNumber(0, PointCloudOps.voxelDownsample(points, 0.0).length, "invalid voxel size");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("StatisticalOutliers", () => {
+    const ck = new Checker();
+    const random = createSeededRandom(7);
+    const points = createPlanarGrid(20, 20, 0.1, 0.2, 3, 0.01, random);
+    const numInliers = points.length;
+    const outliers = [Point3d.create(10, 10, 20), Point3d.create(-15, 4, 3), Point3d.create(30, 30, -10)];
+    for (const outlier of outliers)
+      points.push(outlier);
+    const outlierIndices = PointCloudOps.findStatisticalOutlierIndices(points, 8, 2.0);
+    ck.testNumberArray([numInliers, numInliers + 1, numInliers + 2], outlierIndices);
+    const filtered = PointCloudOps.removeStatisticalOutliers(points, 8, 2.0);
+    ck.testExactNumber(numInliers, filtered.length);
+    ck.testPoint3d(points.getPoint3dAtUncheckedPointIndex(numInliers - 1), filtered.back()!);
+    ck.testExactNumber(0, PointCloudOps.findStatisticalOutlierIndices(createPlanarGrid(1, 1, 0, 0, 0, 0, random), 8).length, "single point");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("FitPlaneRansac", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const random = createSeededRandom(42);
+    const points = createPlanarGrid(15, 15, 0.1, -0.2, 3, 0.01, random);
+    const numInliers = points.length;
+    // scatter points above and below the plane
+    for (let i = 0; i < 100; i++)
+      points.pushXYZ(15 * random(), 15 * random(), 3 + 10 * (2.0 * random() - 1.0));
+    const fit = PointCloudOps.fitPlaneRansac(points, { distanceTolerance: 0.05, random });
+    if (ck.testDefined(fit) && fit) {
+      const expectedNormal = Vector3d.create(-0.1, 0.2, 1).normalize()!;
+      ck.testLE(expectedNormal.angleTo(fit.plane.getNormalRef()).radians, 0.01, "fitted plane normal");
+      ck.testLE(Math.abs(fit.plane.altitude(Point3d.create(5, 5, 2.5))), 0.01, "fitted plane passes near the grid");
+      ck.testLE(numInliers, fit.inlierIndices.length, "all grid points are inliers");
+      ck.testLE(fit.inlierIndices.length, numInliers + 10, "few scattered points are inliers");
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, LineString3d.create(points.getPoint3dArray()));
+    }
+    ck.testUndefined(PointCloudOps.fitPlaneRansac(createPlanarGrid(2, 1, 0, 0, 0, 0, random), { distanceTolerance: 0.1 }), "too few points");
+    GeometryCoreTestIO.saveGeometry(allGeometry, "PointCloudOps", "FitPlaneRansac");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("SectionByPlane", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    // a "roof" profile, sloping up to y = 10 and down beyond it
+    const points = new GrowableXYZArray();
+    for (let j = 0; j <= 20; j++) {
+      if (j >= 12 && j <= 14)
+        continue;   // a hole in the scan
+      for (let i = 0; i < 10; i++)
+        points.pushXYZ(i, j, 0.5 * Math.min(j, 20 - j));
+    }
+    const plane = Plane3dByOriginAndUnitNormal.createYZPlane(Point3d.create(4.2, 0, 0));
+    const sections = PointCloudOps.sectionByPlane(points, plane, 0.3);
+    if (ck.testExactNumber(1, sections.length)) {
+      const section = sections[0];
+      ck.testExactNumber(18, section.numPoints());
+      for (let i = 0; i < section.numPoints(); i++)
+        ck.testCoordinate(4.2, section.pointAt(i)!.x, "points are projected to the plane");
+      const y0 = section.startPoint().y;
+      const y1 = section.endPoint().y;
+      ck.testTrue(Geometry.isSameCoordinate(Math.min(y0, y1), 0) && Geometry.isSameCoordinate(Math.max(y0, y1), 20), "ordered along the profile");
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, section);
+    }
+    const splitSections = PointCloudOps.sectionByPlane(points, plane, 0.3, 2.0);
+    ck.testExactNumber(2, splitSections.length, "gap splits the section");
+    ck.testExactNumber(0, PointCloudOps.sectionByPlane(points, Plane3dByOriginAndUnitNormal.createYZPlane(Point3d.create(4.5, 0, 0)), 0.3).length, "no points near plane");
+    GeometryCoreTestIO.saveGeometry(allGeometry, "PointCloudOps", "SectionByPlane");
+    expect(ck.getNumErrors()).equals(0);
+  });
+});
@@ -0,0 +1,158 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { expect } from "chai";
+import { GeometryQuery } from "../../curve/GeometryQuery";
+import { LineSegment3d } from "../../curve/LineSegment3d";
+import { PointString3d } from "../../curve/PointString3d";
+import { Angle } from "../../geometry3d/Angle";
+import { Matrix3d } from "../../geometry3d/Matrix3d";
+import { Point3d, Vector3d } from "../../geometry3d/Point3dVector3d";
+import { PolygonOps } from "../../geometry3d/PolygonOps";
+import { Range3d } from "../../geometry3d/Range";
+import { ConvexHull3d } from "../../polyface/ConvexHull3d";
+import { IndexedPolyface } from "../../polyface/Polyface";
+import { PolyfaceQuery } from "../../polyface/PolyfaceQuery";
+import { Sphere } from "../../solid/Sphere";
+import { Checker } from "../Checker";
+import { GeometryCoreTestIO } from "../GeometryCoreTestIO";
+
+/** Deterministic pseudo-random number in [0,1). */
+function hash(x: number): number {
+  const y = 43758.5453 * Math.sin(x);
+  return y - Math.floor(y);
+}
+
+/** Deterministic scattered points in the unit cube. */
+function scatteredPoints(numPoints: number): Point3d[] {
+  const points = [];
+  for (let i = 0; i < numPoints; i++) {
+    const f = (k: number) => hash(12.9898 * i + 78.233 * k);
+    points.push(Point3d.create(f(1), f(2), f(3)));
+  }
+  return points;
+}
+
+/** Verify that the hull is closed, and that every point is inside (or on) every facet plane. */
+function verifyHull(ck: Checker, hull: IndexedPolyface | undefined, points: Point3d[]): boolean {
+  if (!ck.testDefined(hull, "hull exists") || !hull)
+    return false;
+  ck.testTrue(PolyfaceQuery.isPolyfaceClosedByEdgePairing(hull), "hull is closed");
+  const visitor = hull.createVisitor(0);
+  let numOutside = 0;
+  while (visitor.moveToNextFacet()) {
+    const normal = PolygonOps.areaNormalGo(visitor.point)!;
+    normal.normalizeInPlace();
+    const origin = visitor.point.getPoint3dAtUncheckedPointIndex(0);
+    for (const point of points)
+      if (normal.dotProductStartEnd(origin, point) > 1.0e-10)
+        numOutside++;
+  }
+  return ck.testExactNumber(0, numOutside, "all points inside hull");
+}
+
+describe("ConvexHull3d", () => {
+
+  it("CubeWithInteriorPoints", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const points = Range3d.createXYZXYZ(0, 0, 0, 1, 1, 1).corners();
+    for (const point of scatteredPoints(50))
+      points.push(Point3d.create(0.1 + 0.8 * point.x, 0.1 + 0.8 * point.y, 0.1 + 0.8 * point.z));
+    const hull = ConvexHull3d.createFromPoints(points);
+    if (verifyHull(ck, hull, points)) {
+      ck.testExactNumber(8, hull!.data.point.length, "only the corners are on the hull");
+      ck.testExactNumber(12, hull!.facetCount, "two triangles per cube face");
+      ck.testCoordinate(1.0, PolyfaceQuery.sumTetrahedralVolumes(hull!), "unit volume");
+      ck.testCoordinate(6.0, PolyfaceQuery.sumFacetAreas(hull), "unit cube area");
+    }
+    GeometryCoreTestIO.captureCloneGeometry(allGeometry, [hull!, PointString3d.create(points)], 0, 0);
+    GeometryCoreTestIO.saveGeometry(allGeometry, "ConvexHull3d", "CubeWithInteriorPoints");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("ScatteredPoints", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    let x0 = 0;
+    for (const numPoints of [4, 10, 100, 1000]) {
+      const points = scatteredPoints(numPoints);
+      const hull = ConvexHull3d.createFromPoints(points);
+      if (verifyHull(ck, hull, points)) {
+        ck.testTrue(PolyfaceQuery.sumTetrahedralVolumes(hull!) > 0.0, "positive volume (outward facets)");
+        ck.testLE(hull!.data.point.length, numPoints, "hull vertices are input points");
+      }
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, [hull!, PointString3d.create(points)], x0, 0);
+      x0 += 2;
+    }
+    GeometryCoreTestIO.saveGeometry(allGeometry, "ConvexHull3d", "ScatteredPoints");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("PointsOnSphere", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    // every point of a sphere sampling is a hull vertex; include duplicates and the poles.
+    const points = [Point3d.create(0, 0, 1), Point3d.create(0, 0, -1)];
+    for (let i = 1; i < 8; i++) {
+      const phi = Angle.createDegrees(-90 + i * 180 / 8);
+      for (let j = 0; j < 12; j++) {
+        const theta = Angle.createDegrees(j * 30);
+        points.push(Point3d.create(phi.cos() * theta.cos(), phi.cos() * theta.sin(), phi.sin()));
+      }
+    }
+    points.push(points[5].clone());
+    const hull = ConvexHull3d.createFromPoints(points);
+    if (verifyHull(ck, hull, points))
+      ck.testExactNumber(points.length - 1, hull!.data.point.length, "all distinct points on hull");
+    GeometryCoreTestIO.captureCloneGeometry(allGeometry, hull, 0, 0);
+    GeometryCoreTestIO.saveGeometry(allGeometry, "ConvexHull3d", "PointsOnSphere");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("Degenerate", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    // coplanar points in a tilted plane give a single facet
+    const matrix = Matrix3d.createRotationAroundVector(Vector3d.create(1, 2, 3), Angle.createDegrees(35))!;
+    const planarPoints: Point3d[] = [];
+    for (let i = 0; i <= 4; i++)
+      for (let j = 0; j <= 3; j++)
+        planarPoints.push(Point3d.createFrom(matrix.multiplyXYZ(i, j, 0)));
+    const planarHull = ConvexHull3d.createFromPoints(planarPoints);
+    if (ck.testDefined(planarHull, "planar hull") && planarHull) {
+      ck.testExactNumber(1, planarHull.facetCount, "single facet");
+      ck.testExactNumber(4, planarHull.data.point.length, "rectangle corners");
+      ck.testCoordinate(12.0, PolyfaceQuery.sumFacetAreas(planarHull), "rectangle area");
+      const normal = PolygonOps.areaNormalGo(planarHull.data.point)!;
+      ck.testTrue(normal.isParallelTo(matrix.columnZ(), true), "facet in the plane of the points");
+    }
+    GeometryCoreTestIO.captureCloneGeometry(allGeometry, planarHull, 0, 0);
+    // colinear and insufficient points have no hull
+    ck.testUndefined(ConvexHull3d.createFromPoints([Point3d.create(0, 0, 0), Point3d.create(1, 1, 1), Point3d.create(3, 3, 3)]), "colinear");
+    ck.testUndefined(ConvexHull3d.createFromPoints([Point3d.create(0, 0, 0), Point3d.create(1, 1, 1)]), "two points");
+    ck.testUndefined(ConvexHull3d.createFromPoints([]), "no points");
+    GeometryCoreTestIO.saveGeometry(allGeometry, "ConvexHull3d", "Degenerate");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("FromGeometry", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const sphere = Sphere.createCenterRadius(Point3d.create(1, 2, 3), 2);
+    const segment = LineSegment3d.createXYZXYZ(1, 2, 6, 1, 2, 8);
+    const hull = ConvexHull3d.createFromGeometry([sphere, segment]);
+    if (ck.testDefined(hull, "hull of geometry") && hull) {
+      ck.testTrue(PolyfaceQuery.isPolyfaceClosedByEdgePairing(hull), "closed");
+      const range = hull.range();
+      ck.testCoordinate(8, range.high.z, "segment end is on hull");
+      ck.testLE(range.high.x, 3 + 1.0e-10, "inside sphere range");
+      const volume = PolyfaceQuery.sumTetrahedralVolumes(hull);
+      ck.testLE(volume, 4 * Math.PI * 8 / 3 + 2 * 4 * Math.PI / 3, "volume less than sphere plus cone");
+    }
+    GeometryCoreTestIO.captureCloneGeometry(allGeometry, [hull!, sphere, segment], 0, 0);
+    GeometryCoreTestIO.saveGeometry(allGeometry, "ConvexHull3d", "FromGeometry");
+    expect(ck.getNumErrors()).equals(0);
+  });
+});
@@ -6,6 +6,7 @@ import { expect } from "chai";
 import * as fs from "fs";
 import { Arc3d } from "../../curve/Arc3d";
 import { GeometryQuery } from "../../curve/GeometryQuery";
+import { LineSegment3d } from "../../curve/LineSegment3d";
 import { LineString3d } from "../../curve/LineString3d";
 import { Loop } from "../../curve/Loop";
 import { ParityRegion } from "../../curve/ParityRegion";
@@ -32,6 +33,7 @@ import { Sample } from "../../serialization/GeometrySamples";
 import { IModelJson } from "../../serialization/IModelJsonSchema";
 import { Box } from "../../solid/Box";
 import { Cone } from "../../solid/Cone";
+import { LinearSweep } from "../../solid/LinearSweep";
 import { SolidPrimitive } from "../../solid/SolidPrimitive";
 import { Sphere } from "../../solid/Sphere";
 import { SweepContour } from "../../solid/SweepContour";
@@ -757,6 +759,50 @@ describe("Polyface.Faces", () => {
     expect(ck.getNumErrors()).equals(0);
   });
 
+  it("SolidPrimitiveFaces", () => {
+    const ck = new Checker();
+    const allSolids = flattenGeometry(Sample.createBoxes(true), Sample.createCones(), Sample.createSpheres(), Sample.createTorusPipes(),
+      Sample.createSimpleLinearSweeps(), Sample.createSimpleRotationalSweeps(), Sample.createRuledSweeps(true), Sample.createClosedSolidSampler(true));
+    for (const solid of allSolids) {
+      const builder = PolyfaceBuilder.create();
+      builder.addGeometryQuery(solid);
+      const polyface = builder.claimPolyface();
+      verifyFaceData(ck, polyface);
+      const facetsByFace = polyface.collectFacetIndicesByFace();
+      ck.testExactNumber(polyface.faceCount, facetsByFace.length);
+      let numFacets = 0;
+      for (let faceIndex = 0; faceIndex < facetsByFace.length; faceIndex++) {
+        ck.testTrue(facetsByFace[faceIndex].length > 0, "each face has facets");
+        for (const facetIndex of facetsByFace[faceIndex])
+          ck.testExactNumber(faceIndex, polyface.tryGetFaceIndex(facetIndex)!, "facet to face to facet");
+        numFacets += facetsByFace[faceIndex].length;
+      }
+      ck.testExactNumber(polyface.facetCount, numFacets, "every facet is in a face", (solid as SolidPrimitive).solidPrimitiveType);
+      const faceAreas = PolyfaceQuery.sumFacetAreasByFace(polyface);
+      ck.testCoordinate(PolyfaceQuery.sumFacetAreas(polyface), faceAreas.reduce((a: number, b: number) => a + b, 0), "face areas sum to mesh area");
+    }
+    // box: one face around the sides, and a face for each cap.
+    const box = Box.createRange(Range3d.createXYZXYZ(0, 0, 0, 2, 3, 4), true)!;
+    const boxBuilder = PolyfaceBuilder.create();
+    boxBuilder.addGeometryQuery(box);
+    ck.testNumberArray([40, 6, 6], PolyfaceQuery.sumFacetAreasByFace(boxBuilder.claimPolyface()), "box face areas");
+    // a "D" shape swept upward has a face for each primitive of the contour, and a face for each cap.
+    const dShape = Loop.create(
+      LineSegment3d.createXYXY(0, -1, 0, 1),
+      Arc3d.createXY(Point3d.createZero(), 1, AngleSweep.createStartEndDegrees(90, 270)));
+    const sweep = LinearSweep.create(dShape, Vector3d.create(0, 0, 3), true)!;
+    const sweepBuilder = PolyfaceBuilder.create();
+    sweepBuilder.addGeometryQuery(sweep);
+    const sweepAreas = PolyfaceQuery.sumFacetAreasByFace(sweepBuilder.claimPolyface());
+    if (ck.testExactNumber(4, sweepAreas.length, "faces of swept D")) {
+      ck.testCoordinate(6, sweepAreas[0], "flat side of swept D");
+      ck.testTrue(Math.abs(sweepAreas[1] - 3 * Math.PI) < 0.1, "round side of swept D");
+      ck.testCoordinate(sweepAreas[2], sweepAreas[3], "caps of swept D");
+      ck.testTrue(Math.abs(sweepAreas[2] - 0.5 * Math.PI) < 0.05, "cap of swept D");
+    }
+    expect(ck.getNumErrors()).equals(0);
+  });
+
   it("Add grid w/ params, normals", () => {
     const allGeometry: GeometryQuery[] = [];
     const ck = new Checker();
@@ -0,0 +1,172 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { expect } from "chai";
+import { GeometryQuery } from "../../curve/GeometryQuery";
+import { StrokeOptions } from "../../curve/StrokeOptions";
+import { Point3d, Vector3d } from "../../geometry3d/Point3dVector3d";
+import { Range3d } from "../../geometry3d/Range";
+import { IndexedPolyface } from "../../polyface/Polyface";
+import { PolyfaceBoolean } from "../../polyface/PolyfaceBoolean";
+import { PolyfaceBuilder } from "../../polyface/PolyfaceBuilder";
+import { PolyfaceQuery } from "../../polyface/PolyfaceQuery";
+import { Box } from "../../solid/Box";
+import { Sphere } from "../../solid/Sphere";
+import { Checker } from "../Checker";
+import { GeometryCoreTestIO } from "../GeometryCoreTestIO";
+
+function createBoxMesh(range: Range3d, needNormalsAndParams: boolean = false): IndexedPolyface {
+  const options = StrokeOptions.createForFacets();
+  options.needNormals = options.needParams = needNormalsAndParams;
+  const builder = PolyfaceBuilder.create(options);
+  builder.addBox(Box.createRange(range, true)!);
+  return builder.claimPolyface(true);
+}
+
+function rangeVolume(range: Range3d): number {
+  return range.isNull ? 0 : range.xLength() * range.yLength() * range.zLength();
+}
+
+/** Check closure and volume of the union, intersection and both differences of two boxes. */
+function testBoxBooleans(ck: Checker, allGeometry: GeometryQuery[], rangeA: Range3d, rangeB: Range3d, x0: number) {
+  const meshA = createBoxMesh(rangeA);
+  const meshB = createBoxMesh(rangeB);
+  const volumeA = rangeVolume(rangeA);
+  const volumeB = rangeVolume(rangeB);
+  const volumeAB = rangeVolume(rangeA.intersect(rangeB));
+  const cases: Array<[string, IndexedPolyface | undefined, number]> = [
+    ["union", PolyfaceBoolean.union(meshA, meshB), volumeA + volumeB - volumeAB],
+    ["intersect", PolyfaceBoolean.intersect(meshA, meshB), volumeAB],
+    ["A-B", PolyfaceBoolean.subtract(meshA, meshB), volumeA - volumeAB],
+    ["B-A", PolyfaceBoolean.subtract(meshB, meshA), volumeB - volumeAB],
+  ];
+  let y0 = 0;
+  for (const [name, result, expectedVolume] of cases) {
+    if (ck.testDefined(result, name) && result) {
+      ck.testTrue(PolyfaceQuery.isPolyfaceClosedByEdgePairing(result), `${name} is closed`);
+      ck.testCoordinate(PolyfaceQuery.sumTetrahedralVolumes(result), expectedVolume, `${name} volume`);
+      GeometryCoreTestIO.captureGeometry(allGeometry, result, x0, y0);
+    }
+    y0 += 5;
+  }
+}
+
+describe("PolyfaceBoolean", () => {
+
+  it("OverlappingBoxes", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    // general position
+    testBoxBooleans(ck, allGeometry, Range3d.createXYZXYZ(0, 0, 0, 1, 1, 1), Range3d.createXYZXYZ(0.5, 0.25, 0.125, 1.5, 1.25, 1.125), 0);
+    // coplanar faces
+    testBoxBooleans(ck, allGeometry, Range3d.createXYZXYZ(0, 0, 0, 1, 1, 1), Range3d.createXYZXYZ(0.5, 0, 0, 1.5, 1, 1), 5);
+    // B passes through A, so the intersection loops are interior to facets of A
+    testBoxBooleans(ck, allGeometry, Range3d.createXYZXYZ(0, 0, 0, 4, 4, 1), Range3d.createXYZXYZ(1, 1.5, -1, 2, 2.5, 2), 10);
+    // disjoint
+    testBoxBooleans(ck, allGeometry, Range3d.createXYZXYZ(0, 0, 0, 1, 1, 1), Range3d.createXYZXYZ(2, 0, 0, 3, 1, 1), 15);
+    GeometryCoreTestIO.saveGeometry(allGeometry, "PolyfaceBoolean", "OverlappingBoxes");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("SphereAndBox", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const sphereBuilder = PolyfaceBuilder.create();
+    sphereBuilder.addSphere(Sphere.createCenterRadius(Point3d.create(1, 1, 1), 0.8), 12);
+    const sphere = sphereBuilder.claimPolyface(true);
+    const box = createBoxMesh(Range3d.createXYZXYZ(0, 0, 0, 1.3, 1.2, 1.1));
+    const union = PolyfaceBoolean.union(sphere, box);
+    const intersection = PolyfaceBoolean.intersect(sphere, box);
+    const difference = PolyfaceBoolean.subtract(sphere, box);
+    if (ck.testDefined(union) && union && ck.testDefined(intersection) && intersection && ck.testDefined(difference) && difference) {
+      // Some sphere edges pass exactly through box edges.
+      let x0 = 0;
+      for (const result of [union, intersection, difference]) {
+        ck.testTrue(PolyfaceQuery.isPolyfaceClosedByEdgePairing(result));
+        GeometryCoreTestIO.captureGeometry(allGeometry, result, x0, 0);
+        x0 += 3;
+      }
+      const volumeA = PolyfaceQuery.sumTetrahedralVolumes(sphere);
+      const volumeB = PolyfaceQuery.sumTetrahedralVolumes(box);
+      const volumeAB = PolyfaceQuery.sumTetrahedralVolumes(intersection);
+      ck.testCoordinate(PolyfaceQuery.sumTetrahedralVolumes(union), volumeA + volumeB - volumeAB);
+      ck.testCoordinate(PolyfaceQuery.sumTetrahedralVolumes(difference), volumeA - volumeAB);
+    }
+    GeometryCoreTestIO.saveGeometry(allGeometry, "PolyfaceBoolean", "SphereAndBox");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("NormalsAndParams", () => {
+    const ck = new Checker();
+    const meshA = createBoxMesh(Range3d.createXYZXYZ(0, 0, 0, 2, 2, 1), true);
+    const meshB = createBoxMesh(Range3d.createXYZXYZ(0.5, 0.5, 0.5, 1.5, 1.5, 2), true);
+    const result = PolyfaceBoolean.subtract(meshA, meshB);
+    if (ck.testDefined(result) && result) {
+      ck.testCoordinate(PolyfaceQuery.sumTetrahedralVolumes(result), 4 - 0.5);
+      ck.testExactNumber(result.data.normalIndex!.length, result.data.pointIndex.length);
+      ck.testExactNumber(result.data.paramIndex!.length, result.data.pointIndex.length);
+      // Each normal is the outward normal of its facet, including the reversed facets of B.
+      const visitor = result.createVisitor(0);
+      for (visitor.reset(); visitor.moveToNextFacet();) {
+        const facetNormal = visitor.point.getPoint3dAtUncheckedPointIndex(0).crossProductToPoints(
+          visitor.point.getPoint3dAtUncheckedPointIndex(1), visitor.point.getPoint3dAtUncheckedPointIndex(2));
+        for (let i = 0; i < visitor.normal!.length; i++)
+          ck.testTrue(visitor.normal!.getVector3dAtCheckedVectorIndex(i)!.dotProduct(facetNormal) > 0, "normal direction");
+      }
+    }
+    // Only one input with normals and params.
+    const mixed = PolyfaceBoolean.union(meshA, createBoxMesh(Range3d.createXYZXYZ(0.5, 0.5, 0.5, 1.5, 1.5, 2)));
+    if (ck.testDefined(mixed) && mixed) {
+      ck.testUndefined(mixed.data.normal);
+      ck.testUndefined(mixed.data.param);
+    }
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("ReversedAndOpenInputs", () => {
+    const ck = new Checker();
+    const meshA = createBoxMesh(Range3d.createXYZXYZ(0, 0, 0, 1, 1, 1));
+    const meshB = createBoxMesh(Range3d.createXYZXYZ(0.5, 0.5, 0.5, 1.5, 1.5, 1.5));
+    // Inward facing input gives the same result.
+    meshB.reverseIndices();
+    const result = PolyfaceBoolean.union(meshA, meshB);
+    if (ck.testDefined(result) && result)
+      ck.testCoordinate(PolyfaceQuery.sumTetrahedralVolumes(result), 2 - 0.125);
+
+    const builder = PolyfaceBuilder.create();
+    builder.addPolygon([Point3d.create(0, 0, 0), Point3d.create(1, 0, 0), Point3d.create(1, 1, 0), Point3d.create(0, 1, 0)]);
+    const open = builder.claimPolyface(true);
+    ck.testFalse(PolyfaceQuery.isPolyfaceClosedByEdgePairing(open));
+    ck.testUndefined(PolyfaceBoolean.union(meshA, open));
+    ck.testUndefined(PolyfaceBoolean.subtract(open, meshA));
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("TriangleHelpers", () => {
+    const ck = new Checker();
+    const points = [Point3d.create(0, 0, 0), Point3d.create(1, 0, 0), Point3d.create(0, 1, 0)];
+    const normal = Vector3d.unitZ();
+    ck.testTrue(PolyfaceBoolean.triangleContainsProjection(points, normal, Point3d.create(0.25, 0.25, 5), 0));
+    ck.testFalse(PolyfaceBoolean.triangleContainsProjection(points, normal, Point3d.create(0.6, 0.6, 0), 0));
+    ck.testTrue(PolyfaceBoolean.triangleContainsProjection(points, normal, Point3d.create(0.6, 0.6, 0), 0.2));
+    // The solid angle is positive behind the triangle, and changes sign in front of it.
+    ck.testTrue(PolyfaceBoolean.triangleSolidAngle(points, Point3d.create(0, 0, -1)) > 0);
+    ck.testCoordinate(PolyfaceBoolean.triangleSolidAngle(points, Point3d.create(0, 0, -1)), -PolyfaceBoolean.triangleSolidAngle(points, Point3d.create(0, 0, 1)));
+    // The faces of a closed mesh subtend 4 pi from inside and 0 from outside.
+    const mesh = createBoxMesh(Range3d.createXYZXYZ(0, 0, 0, 1, 1, 1));
+    const visitor = mesh.createVisitor(0);
+    let inside = 0, outside = 0;
+    for (visitor.reset(); visitor.moveToNextFacet();) {
+      const facetPoints = visitor.point.getPoint3dArray();
+      for (let i = 1; i + 1 < facetPoints.length; i++) {
+        const triangle = [facetPoints[0], facetPoints[i], facetPoints[i + 1]];
+        inside += PolyfaceBoolean.triangleSolidAngle(triangle, Point3d.create(0.3, 0.4, 0.5));
+        outside += PolyfaceBoolean.triangleSolidAngle(triangle, Point3d.create(3, 0.4, 0.5));
+      }
+    }
+    ck.testCoordinate(Math.abs(inside), 4.0 * Math.PI);
+    ck.testCoordinate(outside, 0);
+    expect(ck.getNumErrors()).equals(0);
+  });
+});
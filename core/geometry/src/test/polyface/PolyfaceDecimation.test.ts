@@ -0,0 +1,126 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { expect } from "chai";
+import { GeometryQuery } from "../../curve/GeometryQuery";
+import { Angle } from "../../geometry3d/Angle";
+import { Point3d, Vector3d } from "../../geometry3d/Point3dVector3d";
+import { AuxChannel, AuxChannelData, AuxChannelDataType, PolyfaceAuxData } from "../../polyface/AuxData";
+import { IndexedPolyface } from "../../polyface/Polyface";
+import { PolyfaceBuilder } from "../../polyface/PolyfaceBuilder";
+import { PolyfaceQuery } from "../../polyface/PolyfaceQuery";
+import { Sample } from "../../serialization/GeometrySamples";
+import { Sphere } from "../../solid/Sphere";
+import { Checker } from "../Checker";
+import { GeometryCoreTestIO } from "../GeometryCoreTestIO";
+
+function createSphereMesh(radius: number, numStrokes: number): IndexedPolyface {
+  const builder = PolyfaceBuilder.create();
+  builder.addSphere(Sphere.createCenterRadius(Point3d.createZero(), radius), numStrokes);
+  return builder.claimPolyface(true);
+}
+
+describe("PolyfaceDecimation", () => {
+
+  it("FlatGrid", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const numSide = 11;
+    const grid = Sample.createTriangularUnitGridPolyface(Point3d.createZero(), Vector3d.unitX(), Vector3d.unitY(), numSide, numSide, true, true, false);
+    const result = PolyfaceQuery.cloneWithDecimation(grid, {});
+    GeometryCoreTestIO.captureGeometry(allGeometry, [grid, result], 0, 0);
+    // All interior vertices are removed.  The boundary vertices are fixed.
+    ck.testExactNumber(4 * (numSide - 1), result.data.point.length, "boundary points");
+    ck.testExactNumber(4 * (numSide - 1) - 2, result.facetCount, "facets");
+    ck.testCoordinate(PolyfaceQuery.sumFacetAreas(grid), PolyfaceQuery.sumFacetAreas(result), "area");
+    ck.testTrue(result.data.point.getRange().isAlmostEqual(grid.data.point.getRange()), "range");
+    ck.testExactNumber(1, result.data.normal!.length, "single normal");
+    // params were (i,j) at grid point (i,j)
+    const visitor = result.createVisitor(0);
+    for (visitor.reset(); visitor.moveToNextFacet();) {
+      for (let i = 0; i < visitor.pointCount; i++) {
+        const point = visitor.point.getPoint3dAtUncheckedPointIndex(i);
+        const param = visitor.param!.getPoint2dAtUncheckedPointIndex(i);
+        ck.testCoordinate(point.x, param.x);
+        ck.testCoordinate(point.y, param.y);
+      }
+    }
+    // The facet count limit is respected.
+    const partial = PolyfaceQuery.cloneWithDecimation(grid, { targetFacetCount: 150 });
+    ck.testTrue(partial.facetCount <= 150 && partial.facetCount >= 148, "target facet count");
+    GeometryCoreTestIO.captureGeometry(allGeometry, partial, 15, 0);
+    GeometryCoreTestIO.saveGeometry(allGeometry, "PolyfaceDecimation", "FlatGrid");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("SphereWithAuxData", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const radius = 2.0;
+    const sphere = createSphereMesh(radius, 24);
+    // Aux data channel with the height of each point.
+    const heights: number[] = [];
+    for (let i = 0; i < sphere.data.point.length; i++)
+      heights.push(sphere.data.point.getPoint3dAtUncheckedPointIndex(i).z);
+    sphere.data.auxData = new PolyfaceAuxData([new AuxChannel([new AuxChannelData(0.0, heights)], AuxChannelDataType.Distance, "Height")], sphere.data.pointIndex.slice());
+
+    const target = Math.floor(sphere.facetCount / 4);
+    const result = PolyfaceQuery.cloneWithDecimation(sphere, { targetFacetCount: target, creaseAngle: Angle.createDegrees(90) });
+    GeometryCoreTestIO.captureGeometry(allGeometry, [sphere, result], 0, 0);
+    ck.testTrue(result.facetCount <= target, "target facet count");
+    ck.testTrue(result.facetCount > target - 3, "decimation stops at target");
+    ck.testTrue(PolyfaceQuery.isPolyfaceClosedByEdgePairing(result), "closed");
+    ck.testTrue(PolyfaceQuery.sumTetrahedralVolumes(result) > 0.75 * PolyfaceQuery.sumTetrahedralVolumes(sphere), "volume");
+    // Vertices move along edges, so the interpolated heights match the points.
+    const auxData = result.data.auxData!;
+    ck.testExactNumber(result.data.pointIndex.length, auxData.indices.length);
+    const values = auxData.channels[0].data[0].values;
+    for (let k = 0; k < auxData.indices.length; k++)
+      ck.testCoordinate(result.data.point.getPoint3dAtUncheckedPointIndex(result.data.pointIndex[k]).z, values[auxData.indices[k]], "height");
+    for (let i = 0; i < result.data.point.length; i++)
+      ck.testTrue(result.data.point.getPoint3dAtUncheckedPointIndex(i).magnitude() <= radius + 1.0e-12, "points within sphere");
+    GeometryCoreTestIO.saveGeometry(allGeometry, "PolyfaceDecimation", "SphereWithAuxData");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("MaxDeviation", () => {
+    const ck = new Checker();
+    const sphere = createSphereMesh(2.0, 24);
+    const options = { creaseAngle: Angle.createDegrees(90) };
+    const unlimited = PolyfaceQuery.cloneWithDecimation(sphere, options);
+    const loose = PolyfaceQuery.cloneWithDecimation(sphere, { ...options, maxDeviation: 0.2 });
+    const tight = PolyfaceQuery.cloneWithDecimation(sphere, { ...options, maxDeviation: 0.02 });
+    ck.testTrue(unlimited.facetCount < loose.facetCount, "loose deviation limits decimation");
+    ck.testTrue(loose.facetCount < tight.facetCount, "tight deviation limits decimation further");
+    ck.testTrue(tight.data.point.length < sphere.data.point.length, "some decimation within tight deviation");
+    // Vertices are within the deviation of the sphere, which is within the deviation of the original facets.
+    const sagitta = 2.0 * (1.0 - Math.cos(Math.PI / 24));
+    for (let i = 0; i < loose.data.point.length; i++)
+      ck.testTrue(loose.data.point.getPoint3dAtUncheckedPointIndex(i).magnitude() >= 2.0 - sagitta - 0.2, "deviation");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("Creases", () => {
+    const ck = new Checker();
+    // A grid folded along a crease at x = 5.
+    const grid = Sample.createTriangularUnitGridPolyface(Point3d.createZero(), Vector3d.unitX(), Vector3d.unitY(), 11, 11);
+    for (let i = 0; i < grid.data.point.length; i++) {
+      const point = grid.data.point.getPoint3dAtUncheckedPointIndex(i);
+      grid.data.point.setXYZAtCheckedPointIndex(i, point.x, point.y, Math.abs(point.x - 5));
+    }
+    const result = PolyfaceQuery.cloneWithDecimation(grid, {});
+    const crease = [];
+    for (let i = 0; i < result.data.point.length; i++) {
+      const point = result.data.point.getPoint3dAtUncheckedPointIndex(i);
+      if (point.z === 0.0)
+        crease.push(point);
+    }
+    ck.testExactNumber(11, crease.length, "crease vertices preserved");
+    ck.testCoordinate(PolyfaceQuery.sumFacetAreas(grid), PolyfaceQuery.sumFacetAreas(result), "area");
+    // With a larger crease angle, the fold is not preserved.
+    const smoothed = PolyfaceQuery.cloneWithDecimation(grid, { creaseAngle: Angle.createDegrees(100) });
+    ck.testTrue(smoothed.data.point.length < result.data.point.length, "crease removed");
+    expect(ck.getNumErrors()).equals(0);
+  });
+});
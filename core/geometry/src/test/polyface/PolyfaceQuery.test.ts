@@ -554,6 +554,61 @@ describe("ReOrientFacets", () => {
   });
 });
 
+describe("Contours", () => {
+  it("PlaneAndCone", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    // A tilted plane z = x + 0.5, so no vertex is at a contour elevation.
+    const grid = Sample.createTriangularUnitGridPolyface(Point3d.createZero(), Vector3d.unitX(), Vector3d.unitY(), 11, 11);
+    for (let i = 0; i < grid.data.point.length; i++) {
+      const point = grid.data.point.getPoint3dAtUncheckedPointIndex(i);
+      grid.data.point.setXYZAtCheckedPointIndex(i, point.x, point.y, point.x + 0.5);
+    }
+    const planeContours = PolyfaceQuery.collectContours(grid, 1.0);
+    ck.testExactNumber(10, planeContours.length, "plane contour count");
+    planeContours.forEach((contour, i) => {
+      ck.testCoordinate(i + 1, contour.elevation, "elevation");
+      if (ck.testExactNumber(1, contour.chains.length, "one chain per elevation")) {
+        ck.testCoordinate(10, contour.chains[0].curveLength(), "chain length");
+        for (const point of contour.chains[0].points) {
+          ck.testCoordinate(contour.elevation, point.z);
+          ck.testCoordinate(contour.elevation - 0.5, point.x);
+        }
+      }
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, contour.chains, 0, 0);
+    });
+    GeometryCoreTestIO.captureGeometry(allGeometry, grid, 0, 0);
+
+    // A cone from a triangulated point cloud has closed contours around its apex.  Some points are at contour elevations.
+    const points: Point3d[] = [];
+    for (let i = 0; i <= 20; i++) {
+      for (let j = 0; j <= 20; j++) {
+        const radius = Math.sqrt((i - 10) * (i - 10) + (j - 10) * (j - 10));
+        if (radius <= 10)
+          points.push(Point3d.create(i, j, 10 - radius));
+      }
+    }
+    const cone = PolyfaceBuilder.pointsAndBreaklinesToTriangulatedPolyface(points);
+    if (ck.testDefined(cone) && cone) {
+      const coneContours = PolyfaceQuery.collectContours(cone, 2.0, 1.0);
+      ck.testExactNumber(5, coneContours.length, "cone contour count");
+      for (const contour of coneContours) {
+        ck.testExactNumber(1, contour.chains.length, "one chain per elevation");
+        const chain = contour.chains[0];
+        ck.testPoint3d(chain.startPoint(), chain.endPoint(), "closed contour");
+        const radius = 10 - contour.elevation;
+        // no shorter than an inscribed square, no longer than the circle.
+        ck.testTrue(chain.curveLength() > 0.99 * 4 * Math.sqrt(2) * radius && chain.curveLength() < 2 * Math.PI * radius, "contour approximates circle");
+        GeometryCoreTestIO.captureCloneGeometry(allGeometry, chain, 25, 0);
+      }
+      GeometryCoreTestIO.captureGeometry(allGeometry, cone, 25, 0);
+    }
+    ck.testExactNumber(0, PolyfaceQuery.collectContours(grid, 0).length, "zero interval");
+    GeometryCoreTestIO.saveGeometry(allGeometry, "PolyfaceQuery", "Contours");
+    expect(ck.getNumErrors()).equals(0);
+  });
+});
+
 type LoopOrParityLoops = Point3d[] | Point3d[][];
 function exerciseMultiUnionDiff(ck: Checker, allGeometry: GeometryQuery[],
   data: LoopOrParityLoops[],
@@ -24,6 +24,12 @@ import { Arc3d } from "../../curve/Arc3d";
 import { Point3d } from "../../geometry3d/Point3dVector3d";
 import { Transform } from "../../geometry3d/Transform";
 import { Matrix3d } from "../../geometry3d/Matrix3d";
+import { BSplineCurve3d } from "../../bspline/BSplineCurve";
+import { IntegratedSpiral3d } from "../../curve/spiral/IntegratedSpiral3d";
+import { Segment1d } from "../../geometry3d/Segment1d";
+import { AngleSweep } from "../../geometry3d/AngleSweep";
+import { CurvePrimitive } from "../../curve/CurvePrimitive";
+import { GrowableXYZArray } from "../../geometry3d/GrowableXYZArray";
 
 /**
  * Exercise PolygonWireOffset and output to a file.
@@ -215,4 +221,99 @@ describe("CurveOffset", () => {
     expect(ck.getNumErrors()).equals(0);
   });
 
+  it("SplineAndSpiralPaths", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const line = LineSegment3d.createXYXY(0, 0, 10, 0);
+    const spiral = IntegratedSpiral3d.createRadiusRadiusBearingBearing(Segment1d.create(0, 40), AngleSweep.createStartEndDegrees(0, 15),
+      Segment1d.create(0, 1), Transform.createTranslationXYZ(10, 0, 0))!;
+    const spiralEnd = spiral.endPoint();
+    const bspline = BSplineCurve3d.createThroughPoints(GrowableXYZArray.create([spiralEnd, spiralEnd.plusXYZ(6, 2), spiralEnd.plusXYZ(12, 0), spiralEnd.plusXYZ(18, 3)]), 4)!;
+    const path = Path.create(line, spiral, bspline);
+    const tolerance = 1.0e-4;
+    let x0 = 0;
+    for (const offsetDistance of [1, -1, 2.5, -2.5]) {
+      const options = new JointOptions(offsetDistance, 180, 90, false, false, tolerance);
+      const offsetCurves = RegionOps.constructCurveXYOffset(path, options);
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, path, x0, 0);
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, offsetCurves, x0, 0);
+      if (ck.testDefined(offsetCurves, "offset of spline and spiral path") && offsetCurves instanceof Path) {
+        const numApproximated = offsetCurves.children.filter((cp: CurvePrimitive) => cp instanceof BSplineCurve3d).length;
+        for (const base of [spiral, bspline]) {
+          for (const fraction of [0.2, 0.4, 0.6, 0.8]) {
+            const ray = base.fractionToPointAndDerivative(fraction);
+            const exactOffset = ray.origin.plusScaled(ray.direction.unitPerpendicularXY(), offsetDistance);
+            const detail = offsetCurves.closestPoint(exactOffset)!;
+            ck.testLE(detail.point.distanceXY(exactOffset), 10 * tolerance, "approximated offset is within tolerance");
+          }
+        }
+        ck.testLE(2, numApproximated, "spiral and bspline offsets are approximated");
+      }
+      x0 += 40;
+    }
+    GeometryCoreTestIO.saveGeometry(allGeometry, "CurveOffset", "SplineAndSpiralPaths");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("NaturalExtension", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const arcA = Arc3d.createCircularStartMiddleEnd(Point3d.create(0, 0), Point3d.create(2, 1), Point3d.create(4, 0)) as Arc3d;
+    const arcB = Arc3d.createCircularStartMiddleEnd(Point3d.create(4, 0), Point3d.create(6, 1), Point3d.create(8, 0)) as Arc3d;
+    const path = Path.create(arcA, arcB);
+    let y0 = 0;
+    for (const naturalExtension of [false, true]) {
+      const options = new JointOptions(-0.5, 180, 90, naturalExtension);
+      const offsetCurves = RegionOps.constructCurveXYOffset(path, options);
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, path, 0, y0);
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, offsetCurves, 0, y0);
+      if (ck.testDefined(offsetCurves) && offsetCurves instanceof Path) {
+        const numArcs = offsetCurves.children.filter((cp: CurvePrimitive) => cp instanceof Arc3d).length;
+        ck.testExactNumber(2, numArcs, "offset arcs");
+        ck.testExactNumber(naturalExtension ? 2 : 3, offsetCurves.children.length, "natural extension has no joint curve");
+        if (naturalExtension) {
+          const [offsetA, offsetB] = offsetCurves.children as Arc3d[];
+          ck.testPoint3d(offsetA.endPoint(), offsetB.startPoint(), "extended arcs meet");
+          ck.testCoordinate(arcA.circularRadius()! - 0.5, offsetA.endPoint().distance(arcA.center), "point on extended arc A");
+        }
+      }
+      y0 += 5;
+    }
+    GeometryCoreTestIO.saveGeometry(allGeometry, "CurveOffset", "NaturalExtension");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("TrimSelfIntersections", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const bspline = BSplineCurve3d.createUniformKnots([Point3d.create(0, 0), Point3d.create(5, 10), Point3d.create(10, 0)], 3)!;
+    // apex radius of curvature is 2.5, so the offset to the concave side has a swallowtail.
+    const path = Path.create(bspline);
+    const offsetDistance = -4;
+    const tolerance = 1.0e-3;
+    let y0 = 0;
+    for (const trimSelfIntersections of [false, true]) {
+      const options = new JointOptions(offsetDistance, 180, 90, false, trimSelfIntersections);
+      const offsetCurves = RegionOps.constructCurveXYOffset(path, options);
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, path, 0, y0);
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, offsetCurves, 0, y0);
+      if (ck.testDefined(offsetCurves) && offsetCurves instanceof Path) {
+        let minDistance = Number.MAX_VALUE;
+        for (const primitive of offsetCurves.children) {
+          for (let fraction = 0; fraction <= 1; fraction += 0.0625) {
+            const point = primitive.fractionToPoint(fraction);
+            minDistance = Math.min(minDistance, path.closestPoint(point)!.point.distanceXY(point));
+          }
+        }
+        if (trimSelfIntersections)
+          ck.testLE(-offsetDistance - tolerance, minDistance, "trimmed offset stays at offset distance");
+        else
+          ck.testLE(minDistance, -offsetDistance - 0.1, "untrimmed offset has swallowtail");
+      }
+      y0 += 15;
+    }
+    GeometryCoreTestIO.saveGeometry(allGeometry, "CurveOffset", "TrimSelfIntersections");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
 });
@@ -20,7 +20,7 @@ import { PolyfaceBuilder } from "../../polyface/PolyfaceBuilder";
 import { Sample } from "../../serialization/GeometrySamples";
 import { IModelJson } from "../../serialization/IModelJsonSchema";
 import { SweepContour } from "../../solid/SweepContour";
-import { HalfEdgeMask } from "../../topology/Graph";
+import { HalfEdge, HalfEdgeMask } from "../../topology/Graph";
 import { HalfEdgeGraphSearch } from "../../topology/HalfEdgeGraphSearch";
 import { HalfEdgeGraphMerge, HalfEdgeGraphOps } from "../../topology/Merging";
 import { Triangulator } from "../../topology/Triangulation";
@@ -786,4 +786,98 @@ describe("Triangulation", () => {
     expect(ck.getNumErrors()).equals(0);
   });
 
+  it("ConstrainedDelaunay", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    // scattered points over a 10x10 square, with the corners to fix the hull.
+    const surfaceZ = (x: number, y: number) => 0.1 * x * y;
+    const points = [Point3d.create(0, 0, 0), Point3d.create(10, 0, 0), Point3d.create(10, 10, 10), Point3d.create(0, 10, 0)];
+    for (let i = 0; i < 200; i++) {
+      const x = 5 + 4.9 * Math.sin(i * 1.37);
+      const y = 5 + 4.9 * Math.cos(i * 2.11);
+      points.push(Point3d.create(x, y, surfaceZ(x, y)));
+    }
+    // Two crossing breaklines, one passing through an input point, and a square hole.
+    points.push(Point3d.create(2, 5, 1));
+    const breaklines = [
+      [Point3d.create(0.5, 1, 3), Point3d.create(4, 7, 3), Point3d.create(9.5, 8, 3)],
+      [Point3d.create(1, 8, 1), Point3d.create(3, 2, 1), Point3d.create(9, 0.5, 1)],
+    ];
+    const holes = [[Point3d.create(6, 3, 0), Point3d.create(8, 3, 0), Point3d.create(8, 5, 0), Point3d.create(6, 5, 0)]];
+    const graph = Triangulator.createConstrainedDelaunay(points, breaklines, holes);
+    if (ck.testDefined(graph) && graph) {
+      const mesh = PolyfaceBuilder.graphToPolyface(graph);
+      GeometryCoreTestIO.captureGeometry(allGeometry, mesh);
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, breaklines.map((breakline) => LineString3d.create(breakline)), 0, 12);
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, points.map((point) => LineSegment3d.create(point, point)), 0, 12);
+      ck.testExactNumber(graph.countFaceLoopsWithMaskFilter(HalfEdge.filterIsMaskOff, HalfEdgeMask.EXTERIOR), mesh.facetCount, "facets");
+
+      // Constrained edges have the combined length of the hull, breaklines and hole.
+      let expectedLength = 40 + 8;
+      for (const breakline of breaklines)
+        expectedLength += LineString3d.create(breakline).curveLength();
+      let constrainedLength = 0;
+      for (const node of graph.allHalfEdges) {
+        if (node.isMaskSet(HalfEdgeMask.BOUNDARY_EDGE))
+          constrainedLength += 0.5 * node.distanceXY(node.faceSuccessor);
+      }
+      ck.testCoordinate(expectedLength, constrainedLength, "constrained edges");
+
+      // The crossing of the breaklines is a vertex with the average z.
+      const crossing = graph.allHalfEdges.find((node) => node.isMaskSet(HalfEdgeMask.BOUNDARY_EDGE) && node.countMaskAroundVertex(HalfEdgeMask.BOUNDARY_EDGE) === 4);
+      if (ck.testDefined(crossing, "breakline crossing") && crossing)
+        ck.testCoordinate(2, crossing.z, "average z at crossing");
+
+      // Triangles have positive area and cover the square except the hole.  Unconstrained edges are Delaunay.
+      let area = 0;
+      for (const face of graph.collectFaceLoops()) {
+        if (!face.isMaskSet(HalfEdgeMask.EXTERIOR)) {
+          ck.testExactNumber(3, face.countEdgesAroundFace(), "triangle");
+          ck.testTrue(face.signedFaceArea() > 0, "positive area");
+          area += face.signedFaceArea();
+        }
+      }
+      ck.testCoordinate(100 - 4, area, "area excludes hole");
+      for (const node of graph.allHalfEdges) {
+        if (!node.isMaskSet(HalfEdgeMask.BOUNDARY_EDGE | HalfEdgeMask.EXTERIOR) && !node.edgeMate.isMaskSet(HalfEdgeMask.EXTERIOR))
+          ck.testFalse(Triangulator.computeInCircleDeterminantIsStrongPositive(node), "Delaunay");
+      }
+    }
+    ck.testUndefined(Triangulator.createConstrainedDelaunay([Point3d.create(0, 0, 0)], [[Point3d.create(1, 1, 1), Point3d.create(1, 1, 2)]]));
+    GeometryCoreTestIO.saveGeometry(allGeometry, "Triangulation", "ConstrainedDelaunay");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
+  it("ConstrainedDelaunayOverlappingBreaklines", () => {
+    const ck = new Checker();
+    const allGeometry: GeometryQuery[] = [];
+    const points = [Point3d.create(0, 0, 0), Point3d.create(10, 0, 0), Point3d.create(10, 10, 0), Point3d.create(0, 10, 0), Point3d.create(5, 2, 0), Point3d.create(5, 8, 0)];
+    // Collinear breaklines overlapping along y = 5 from x = 4 to x = 6, one of them containing a third.
+    const breaklines = [
+      [Point3d.create(1, 5, 2), Point3d.create(6, 5, 2)],
+      [Point3d.create(4, 5, 2), Point3d.create(9, 5, 2)],
+      [Point3d.create(7, 5, 2), Point3d.create(8, 5, 2)],
+    ];
+    const graph = Triangulator.createConstrainedDelaunay(points, breaklines);
+    if (ck.testDefined(graph) && graph) {
+      GeometryCoreTestIO.captureGeometry(allGeometry, PolyfaceBuilder.graphToPolyface(graph));
+      GeometryCoreTestIO.captureCloneGeometry(allGeometry, breaklines.map((breakline) => LineString3d.create(breakline)), 0, 12);
+      // The constrained edges are the hull and the union of the breaklines, each edge once.
+      let constrainedLength = 0;
+      for (const node of graph.allHalfEdges) {
+        if (node.isMaskSet(HalfEdgeMask.BOUNDARY_EDGE))
+          constrainedLength += 0.5 * node.distanceXY(node.faceSuccessor);
+      }
+      ck.testCoordinate(40 + 8, constrainedLength, "constrained edges");
+      // Every breakline end is a vertex on the constrained line.
+      for (const x of [1, 4, 6, 7, 8, 9]) {
+        const vertex = graph.allHalfEdges.find((node) => Geometry.isSameCoordinate(node.x, x) && Geometry.isSameCoordinate(node.y, 5));
+        if (ck.testDefined(vertex, "breakline end is a vertex") && vertex)
+          ck.testExactNumber(x === 1 || x === 9 ? 1 : 2, vertex.countMaskAroundVertex(HalfEdgeMask.BOUNDARY_EDGE), "constrained edges at breakline end");
+      }
+    }
+    GeometryCoreTestIO.saveGeometry(allGeometry, "Triangulation", "ConstrainedDelaunayOverlappingBreaklines");
+    expect(ck.getNumErrors()).equals(0);
+  });
+
 });
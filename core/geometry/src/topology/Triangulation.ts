@@ -12,7 +12,9 @@ import { GrowableXYZArray } from "../geometry3d/GrowableXYZArray";
 import { IndexedXYZCollection } from "../geometry3d/IndexedXYZCollection";
 import { Point3d } from "../geometry3d/Point3dVector3d";
 import { Point3dArray } from "../geometry3d/PointHelpers";
+import { PolygonOps } from "../geometry3d/PolygonOps";
 import { PointStreamXYZXYZHandlerBase, VariantPointDataStream } from "../geometry3d/PointStreaming";
+import { Range3d } from "../geometry3d/Range";
 import { XAndY, XYAndZ } from "../geometry3d/XYZProps";
 import { HalfEdge, HalfEdgeGraph, HalfEdgeMask } from "./Graph";
 import { MarkedEdgeSet } from "./HalfEdgeMarkSet";
@@ -194,6 +196,186 @@ export class Triangulator {
         */
     return graph;
   }
+  /**
+   * Create a constrained Delaunay triangulation (e.g. a terrain TIN) of points, breaklines and holes, as viewed in xy.
+   * * The outer limit of the graph is the convex hull of all the coordinates.  The outside loop is marked `HalfEdgeMask.EXTERIOR`.
+   * * Each breakline and hole edge appears in the triangulation (possibly split at other vertices), marked `HalfEdgeMask.BOUNDARY_EDGE` on both sides.
+   * * Crossing breaklines are split at their intersection, with the average of their z values.
+   * * Overlapping collinear breaklines are split at each other's ends, and share the edges where they overlap.
+   * * Faces inside holes are marked `HalfEdgeMask.EXTERIOR`.
+   * * All other edges satisfy the Delaunay condition.
+   * @param points isolated points.
+   * @param breaklines chains whose edges must appear in the triangulation.
+   * @param holes loops whose interiors are excluded from the triangulation.  Closure point is optional.
+   * @returns triangulated graph, or undefined if there are fewer than 3 points or a breakline or hole edge cannot be inserted.
+   */
+  public static createConstrainedDelaunay(points: Point3d[], breaklines: Point3d[][] = [], holes: Point3d[][] = []): HalfEdgeGraph | undefined {
+    const segments: Point3d[][] = [];
+    for (const chain of breaklines) {
+      for (let i = 0; i + 1 < chain.length; i++)
+        segments.push([chain[i], chain[i + 1]]);
+    }
+    for (const loop of holes) {
+      for (let i = 0; i < loop.length; i++)
+        segments.push([loop[i], loop[(i + 1) % loop.length]]);
+    }
+    const constraints = splitCrossingSegmentsXY(segments.filter((segment) => !segment[0].isAlmostEqualXY(segment[1])));
+    const allPoints = points.slice();
+    for (const segment of constraints)
+      allPoints.push(segment[0], segment[1]);
+    const graph = Triangulator.createTriangulatedGraphFromPoints(allPoints);
+    if (undefined === graph)
+      return undefined;
+
+    // Number the vertices in `HalfEdge.i`, and record one node at each vertex.
+    const vertexNodes: HalfEdge[] = [];
+    const vertexIndices = new Map<string, number>();
+    graph.announceVertexLoops((_graph: HalfEdgeGraph, seed: HalfEdge) => {
+      vertexIndices.set(`${seed.x},${seed.y}`, vertexNodes.length);
+      let node = seed;
+      do {
+        node.i = vertexNodes.length;
+        node = node.vertexSuccessor;
+      } while (node !== seed);
+      vertexNodes.push(seed);
+      return true;
+    });
+    const findVertex = (point: Point3d): number => {
+      const index = vertexIndices.get(`${point.x},${point.y}`);
+      if (undefined !== index)
+        return index;
+      // The point was merged with a nearby vertex.
+      let nearestIndex = 0;
+      for (let i = 1; i < vertexNodes.length; i++) {
+        if (point.distanceSquaredXY(vertexNodes[i]) < point.distanceSquaredXY(vertexNodes[nearestIndex]))
+          nearestIndex = i;
+      }
+      return nearestIndex;
+    };
+    for (const segment of constraints) {
+      if (!Triangulator.insertConstrainedEdge(vertexNodes, findVertex(segment[0]), findVertex(segment[1])))
+        return undefined;
+    }
+    Triangulator.flipTriangles(graph);
+
+    for (const loop of holes) {
+      const range = Range3d.createArray(loop);
+      for (const face of graph.collectFaceLoops()) {
+        if (face.isMaskSet(HalfEdgeMask.EXTERIOR) || 3 !== face.countEdgesAroundFace())
+          continue;
+        const x = (face.x + face.faceSuccessor.x + face.facePredecessor.x) / 3.0;
+        const y = (face.y + face.faceSuccessor.y + face.facePredecessor.y) / 3.0;
+        if (range.containsXY(x, y) && 1 === PolygonOps.classifyPointInPolygon(x, y, loop))
+          face.setMaskAroundFace(HalfEdgeMask.EXTERIOR);
+      }
+    }
+    return graph;
+  }
+
+  /** Flip the edge at `node`, and update `vertexNodes` (a node at each vertex, indexed by `HalfEdge.i`). */
+  private static flipEdgeAndUpdateVertexNodes(node: HalfEdge, vertexNodes: HalfEdge[]) {
+    const mate = node.edgeMate;
+    // These nodes remain at the vertices of the flipped edge.
+    const nodeA = mate.faceSuccessor;
+    const nodeB = node.faceSuccessor;
+    Triangulator.flipEdgeBetweenTriangles(mate.faceSuccessor, mate.facePredecessor, mate, node.faceSuccessor, node, node.facePredecessor);
+    vertexNodes[nodeA.i] = nodeA;
+    vertexNodes[nodeB.i] = nodeB;
+    vertexNodes[node.i] = node;
+    vertexNodes[mate.i] = mate;
+  }
+
+  /**
+   * Walk through the triangles crossed by the segment from vertex `indexA` to vertex `indexB`.
+   * * Push the nodes of crossed edges to `crossings`.  Each is at the vertex to the right of the segment.
+   * * Return the first vertex on the segment, i.e. `indexB` or an intermediate vertex within tolerance of the segment.
+   * * Return undefined if the segment crosses an edge that is already constrained.
+   */
+  private static collectEdgesCrossingSegment(vertexNodes: HalfEdge[], indexA: number, indexB: number, crossings: HalfEdge[]): number | undefined {
+    const nodeA = vertexNodes[indexA];
+    const nodeB = vertexNodes[indexB];
+    const ux = nodeB.x - nodeA.x;
+    const uy = nodeB.y - nodeA.y;
+    const length = Geometry.hypotenuseXY(ux, uy);
+    const tolerance = Geometry.smallMetricDistance;
+    const signedDistance = (other: HalfEdge) => Geometry.crossProductXYXY(ux, uy, other.x - nodeA.x, other.y - nodeA.y) / length;
+    const isOnSegment = (other: HalfEdge) => Math.abs(signedDistance(other)) <= tolerance && Geometry.dotProductXYXY(ux, uy, other.x - nodeA.x, other.y - nodeA.y) > 0.0;
+
+    // Find the triangle at A whose far edge is crossed by the segment.
+    let edge: HalfEdge | undefined;
+    let node = nodeA;
+    do {
+      if (!node.isMaskSet(HalfEdgeMask.EXTERIOR)) {
+        const node1 = node.faceSuccessor;
+        if (node1.i === indexB || isOnSegment(node1))
+          return node1.i;
+        if (signedDistance(node1) < -tolerance && signedDistance(node1.faceSuccessor) > tolerance) {
+          edge = node1;
+          break;
+        }
+      }
+      node = node.vertexSuccessor;
+    } while (node !== nodeA);
+
+    for (let numStep = 0; undefined !== edge && numStep <= vertexNodes.length; numStep++) {
+      if (edge.isMaskSet(HalfEdgeMask.BOUNDARY_EDGE))
+        return undefined;
+      crossings.push(edge);
+      // The mate is in the next triangle, starting at the vertex to the left of the segment.
+      const mate = edge.edgeMate;
+      const farNode = mate.facePredecessor;
+      if (farNode.i === indexB || isOnSegment(farNode))
+        return farNode.i;
+      edge = signedDistance(farNode) > 0.0 ? mate.faceSuccessor : farNode;
+    }
+    return undefined;
+  }
+
+  /**
+   * Modify the triangulation so that it includes the edge from vertex `indexA` to vertex `indexB`, and mark the edge `HalfEdgeMask.BOUNDARY_EDGE`.
+   * * Triangles must satisfy the Delaunay condition again afterwards, e.g. by `flipTriangles`.
+   * * The edge is split at intermediate vertices within tolerance of the segment.
+   * * Edges crossing the segment are flipped per Sloan, "A fast algorithm for generating constrained Delaunay triangulations", 1993.
+   * @returns false if an existing constrained edge crosses the segment.
+   */
+  private static insertConstrainedEdge(vertexNodes: HalfEdge[], indexA: number, indexB: number): boolean {
+    while (indexA !== indexB) {
+      const crossings: HalfEdge[] = [];
+      const indexC = Triangulator.collectEdgesCrossingSegment(vertexNodes, indexA, indexB, crossings);
+      if (undefined === indexC)
+        return false;
+      const ax = vertexNodes[indexA].x, ay = vertexNodes[indexA].y;
+      const ux = vertexNodes[indexC].x - ax, uy = vertexNodes[indexC].y - ay;
+      const side = (other: HalfEdge) => Geometry.crossProductXYXY(ux, uy, other.x - ax, other.y - ay);
+      // Flip each crossing edge whose triangles form a convex quadrilateral.  Keep the new edge if it still crosses.
+      const maxTest = 10 * crossings.length * crossings.length + 10;
+      for (let numTest = 0; crossings.length > 0; numTest++) {
+        if (numTest > maxTest)
+          return false;
+        const edge = crossings.shift()!;
+        const node2 = edge.facePredecessor;
+        const mate2 = edge.edgeMate.facePredecessor;
+        const dx = mate2.x - node2.x, dy = mate2.y - node2.y;
+        if (Geometry.crossProductXYXY(dx, dy, edge.x - node2.x, edge.y - node2.y) * Geometry.crossProductXYXY(dx, dy, edge.faceSuccessor.x - node2.x, edge.faceSuccessor.y - node2.y) >= 0.0) {
+          crossings.push(edge);
+          continue;
+        }
+        Triangulator.flipEdgeAndUpdateVertexNodes(edge, vertexNodes);
+        const mate = edge.edgeMate;
+        if (edge.i !== indexA && edge.i !== indexC && mate.i !== indexA && mate.i !== indexC && side(edge) * side(mate) < 0.0)
+          crossings.push(side(edge) < 0.0 ? edge : mate);
+      }
+      let node = vertexNodes[indexA];
+      while (node.faceSuccessor.i !== indexC) {
+        node = node.vertexSuccessor;
+        if (node === vertexNodes[indexA])
+          return false;
+      }
+      node.setMaskAroundEdge(HalfEdgeMask.BOUNDARY_EDGE);
+      indexA = indexC;
+    }
+    return true;
+  }
   /**
    * * Only one outer loop permitted.
    * * Largest area loop is assumed outer.
@@ -894,3 +1076,72 @@ class AssembleXYZXYZChains extends PointStreamXYZXYZHandlerBase {
     return this._seeds;
   }
 }
+
+/**
+ * Split segments (point pairs) where they cross or touch in xy.
+ * * Where two segments cross at interior points, both are split at a new point with the average of their z values.
+ * * Where the end of one segment touches the interior of another, the other is split at the end point.
+ * * Where collinear segments overlap, each is split at the ends of the other, so the overlap is a segment of both.
+ */
+function splitCrossingSegmentsXY(segments: Point3d[][]): Point3d[][] {
+  const fractionTolerance = Geometry.smallFraction;
+  const splits: Array<Array<{ fraction: number, point: Point3d }>> = segments.map(() => []);
+  const ranges = segments.map((segment) => Range3d.create(segment[0], segment[1]));
+  const order = segments.map((_segment, i) => i).sort((i, j) => ranges[i].low.x - ranges[j].low.x);
+  for (let k = 0; k < order.length; k++) {
+    const i = order[k];
+    const [pointA0, pointA1] = segments[i];
+    for (let m = k + 1; m < order.length && ranges[order[m]].low.x <= ranges[i].high.x; m++) {
+      const j = order[m];
+      if (!ranges[i].intersectsRangeXY(ranges[j]))
+        continue;
+      const [pointB0, pointB1] = segments[j];
+      const ux = pointA1.x - pointA0.x, uy = pointA1.y - pointA0.y;
+      const vx = pointB1.x - pointB0.x, vy = pointB1.y - pointB0.y;
+      const wx = pointB0.x - pointA0.x, wy = pointB0.y - pointA0.y;
+      const fractionA = Geometry.conditionalDivideFraction(Geometry.crossProductXYXY(wx, wy, vx, vy), Geometry.crossProductXYXY(ux, uy, vx, vy));
+      const fractionB = Geometry.conditionalDivideFraction(Geometry.crossProductXYXY(wx, wy, ux, uy), Geometry.crossProductXYXY(ux, uy, vx, vy));
+      if (undefined === fractionA || undefined === fractionB) {
+        // Parallel segments only interact if they are collinear.
+        if (Math.abs(Geometry.crossProductXYXY(ux, uy, wx, wy)) > Geometry.smallMetricDistance * Geometry.hypotenuseXY(ux, uy))
+          continue;
+        const isInterior = (fraction: number) => fraction > fractionTolerance && fraction < 1 - fractionTolerance;
+        for (const pointB of [pointB0, pointB1]) {
+          const fraction = Geometry.dotProductXYXY(ux, uy, pointB.x - pointA0.x, pointB.y - pointA0.y) / Geometry.hypotenuseSquaredXY(ux, uy);
+          if (isInterior(fraction))
+            splits[i].push({ fraction, point: pointB });
+        }
+        for (const pointA of [pointA0, pointA1]) {
+          const fraction = Geometry.dotProductXYXY(vx, vy, pointA.x - pointB0.x, pointA.y - pointB0.y) / Geometry.hypotenuseSquaredXY(vx, vy);
+          if (isInterior(fraction))
+            splits[j].push({ fraction, point: pointA });
+        }
+        continue;
+      }
+      if (fractionA < -fractionTolerance || fractionA > 1 + fractionTolerance || fractionB < -fractionTolerance || fractionB > 1 + fractionTolerance)
+        continue;
+      const isInteriorA = fractionA > fractionTolerance && fractionA < 1 - fractionTolerance;
+      const isInteriorB = fractionB > fractionTolerance && fractionB < 1 - fractionTolerance;
+      if (isInteriorA && isInteriorB) {
+        const point = pointA0.interpolate(fractionA, pointA1);
+        point.z = 0.5 * (point.z + Geometry.interpolate(pointB0.z, fractionB, pointB1.z));
+        splits[i].push({ fraction: fractionA, point });
+        splits[j].push({ fraction: fractionB, point });
+      } else if (isInteriorA) {
+        splits[i].push({ fraction: fractionA, point: fractionB < 0.5 ? pointB0 : pointB1 });
+      } else if (isInteriorB) {
+        splits[j].push({ fraction: fractionB, point: fractionA < 0.5 ? pointA0 : pointA1 });
+      }
+    }
+  }
+  const result: Point3d[][] = [];
+  segments.forEach((segment, i) => {
+    let point0 = segment[0];
+    for (const split of splits[i].sort((a, b) => a.fraction - b.fraction)) {
+      result.push([point0, split.point]);
+      point0 = split.point;
+    }
+    result.push([point0, segment[1]]);
+  });
+  return result;
+}
@@ -19,6 +19,7 @@ export enum QuantityStatus {
   UnitLabelSuppliedButNotMatched = QUANTITY_ERROR_BASE + 5,
   UnknownUnit = QUANTITY_ERROR_BASE + 6,
   UnableToConvertParseTokensToQuantity = QUANTITY_ERROR_BASE + 7,
+  InvalidStation = QUANTITY_ERROR_BASE + 8,
 }
 
 /** The error type thrown by this module. See [[QuantityStatus]] for `errorNumber` values.
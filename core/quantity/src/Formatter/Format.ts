@@ -6,7 +6,7 @@ import { QuantityConstants } from "../Constants";
 import { QuantityError, QuantityStatus } from "../Exception";
 import { UnitConversion, UnitConversionSpec, UnitProps, UnitsProvider } from "../Interfaces";
 import { DecimalPrecision, FormatTraits, FormatType, FractionalPrecision, ScientificType, ShowSignOption } from "./FormatEnums";
-import { FormatProps } from "./Interfaces";
+import { FormatProps, StationEquationProps } from "./Interfaces";
 
 // cSpell:ignore ZERONORMALIZED, nosign, onlynegative, signalways, negativeparentheses
 // cSpell:ignore trailzeroes, keepsinglezero, zeroempty, keepdecimalpoint, applyrounding, fractiondash, showunitlabel, prependunitlabel, exponentonlynegative
@@ -27,6 +27,11 @@ export class Format {
   protected _uomSeparator = " "; // optional; default is " "; defined separator between magnitude and the unit
   protected _stationSeparator = "+"; // optional; default is "+"
   protected _stationOffsetSize?: number; // required when type is station; positive integer > 0
+  protected _stationEquations?: StationEquationProps[]; // optional; only allowed when type is station
+  protected _hasStationOffset = false; // true if an offset from the alignment is formatted after the station
+  protected _offsetSpacer = " "; // optional; default is " "
+  protected _leftOffsetLabel = "L"; // optional; default is "L"
+  protected _rightOffsetLabel = "R"; // optional; default is "R"
   protected _formatTraits: FormatTraits = 0x0;
   protected _spacer: string = " "; // optional; default is " "
   protected _includeZero: boolean = true; // optional; default is true
@@ -51,6 +56,11 @@ export class Format {
   public get uomSeparator(): string { return this._uomSeparator; }
   public get stationSeparator(): string { return this._stationSeparator; }
   public get stationOffsetSize(): number | undefined { return this._stationOffsetSize; }
+  public get stationEquations(): StationEquationProps[] | undefined { return this._stationEquations; }
+  public get hasStationOffset(): boolean { return this._hasStationOffset; }
+  public get offsetSpacer(): string { return this._offsetSpacer; }
+  public get leftOffsetLabel(): string { return this._leftOffsetLabel; }
+  public get rightOffsetLabel(): string { return this._rightOffsetLabel; }
   public get formatTraits(): FormatTraits { return this._formatTraits; }
   public get spacer(): string | undefined { return this._spacer; }
   public get includeZero(): boolean | undefined { return this._includeZero; }
@@ -266,6 +276,48 @@ export class Format {
     return (this._formatTraits & formatTrait) === formatTrait;
   }
 
+  /** Returns the station of a location given its distance along an alignment, by applying the station equations of this Format. */
+  public stationFromDistance(distance: number): number {
+    let shift = 0.0;
+    for (const equation of this._stationEquations ?? []) {
+      if (distance < equation.backStation - shift)
+        break;
+      shift += equation.aheadStation - equation.backStation;
+    }
+    return distance + shift;
+  }
+
+  /** Returns the distance along an alignment of the first location with the given station, or undefined if the station equations of this Format skip over it. */
+  public distanceFromStation(station: number): number | undefined {
+    let shift = 0.0;
+    let startDistance = -Number.MAX_VALUE;
+    for (const equation of this._stationEquations ?? []) {
+      const equationDistance = equation.backStation - shift;
+      if (station - shift >= startDistance && station - shift <= equationDistance)
+        return station - shift;
+      startDistance = equationDistance;
+      shift += equation.aheadStation - equation.backStation;
+    }
+    return station - shift >= startDistance ? station - shift : undefined;
+  }
+
+  private loadStationEquations(equations: StationEquationProps[]) {
+    if (!Array.isArray(equations))
+      throw new QuantityError(QuantityStatus.InvalidJson, `The Format ${this.name} has an invalid 'stationEquations' attribute. It must be of type 'array'.`);
+    let shift = 0.0;
+    let previousDistance = -Number.MAX_VALUE;
+    for (const equation of equations) {
+      if (typeof (equation.backStation) !== "number" || typeof (equation.aheadStation) !== "number")
+        throw new QuantityError(QuantityStatus.InvalidJson, `The Format ${this.name} has a station equation with an invalid 'backStation' or 'aheadStation' attribute. They should be of type 'number'.`);
+      const distance = equation.backStation - shift;
+      if (distance < previousDistance) // equations must be ordered along the alignment
+        throw new QuantityError(QuantityStatus.InvalidJson, `The Format ${this.name} has a station equation with back station ${equation.backStation} located before the previous equation.`);
+      previousDistance = distance;
+      shift += equation.aheadStation - equation.backStation;
+    }
+    this._stationEquations = equations.map((equation) => ({ backStation: equation.backStation, aheadStation: equation.aheadStation }));
+  }
+
   private async createUnit(unitsProvider: UnitsProvider, name: string, label?: string): Promise<void> {
     if (name === undefined || typeof (name) !== "string" || (label !== undefined && typeof (label) !== "string")) // throws if name is undefined or name isn't a string or if label is defined and isn't a string
       throw new QuantityError(QuantityStatus.InvalidJson, `This Composite has a unit with an invalid 'name' or 'label' attribute.`);
@@ -311,6 +363,11 @@ export class Format {
       if (!Number.isInteger(jsonObj.stationOffsetSize) || jsonObj.stationOffsetSize <= 0) // must be a positive int > 0
         throw new QuantityError(QuantityStatus.InvalidJson, `The Format ${this.name} has an invalid 'stationOffsetSize' attribute. It should be a positive integer.`);
       this._stationOffsetSize = jsonObj.stationOffsetSize;
+
+      if (undefined !== jsonObj.stationEquations) // optional
+        this.loadStationEquations(jsonObj.stationEquations);
+    } else if (undefined !== jsonObj.stationEquations || undefined !== jsonObj.stationOffset) {
+      throw new QuantityError(QuantityStatus.InvalidJson, `The Format ${this.name} has a 'stationEquations' or 'stationOffset' attribute therefore type 'Station' is required.`);
     }
 
     if (undefined !== jsonObj.roundFactor) { // optional; default is 0.0
@@ -371,6 +428,27 @@ export class Format {
         throw new QuantityError(QuantityStatus.InvalidJson, `The Format ${this.name} has an invalid 'stationSeparator' attribute. It must be a one character string.`);
       this._stationSeparator = jsonObj.stationSeparator;
     }
+
+    if (undefined !== jsonObj.stationOffset) { // optional
+      this._hasStationOffset = true;
+      if (undefined !== jsonObj.stationOffset.spacer) { // optional; default is " "
+        if (typeof (jsonObj.stationOffset.spacer) !== "string" || jsonObj.stationOffset.spacer.length !== 1)
+          throw new QuantityError(QuantityStatus.InvalidJson, `The Format ${this.name} has a Station Offset with an invalid 'spacer' attribute. It must be a one character string.`);
+        this._offsetSpacer = jsonObj.stationOffset.spacer;
+      }
+      if (undefined !== jsonObj.stationOffset.leftLabel) { // optional; default is "L"
+        if (typeof (jsonObj.stationOffset.leftLabel) !== "string" || jsonObj.stationOffset.leftLabel.trim().length === 0)
+          throw new QuantityError(QuantityStatus.InvalidJson, `The Format ${this.name} has a Station Offset with an invalid 'leftLabel' attribute. It must be a non-empty string.`);
+        this._leftOffsetLabel = jsonObj.stationOffset.leftLabel;
+      }
+      if (undefined !== jsonObj.stationOffset.rightLabel) { // optional; default is "R"
+        if (typeof (jsonObj.stationOffset.rightLabel) !== "string" || jsonObj.stationOffset.rightLabel.trim().length === 0)
+          throw new QuantityError(QuantityStatus.InvalidJson, `The Format ${this.name} has a Station Offset with an invalid 'rightLabel' attribute. It must be a non-empty string.`);
+        this._rightOffsetLabel = jsonObj.stationOffset.rightLabel;
+      }
+      if (this._leftOffsetLabel.toLowerCase() === this._rightOffsetLabel.toLowerCase())
+        throw new QuantityError(QuantityStatus.InvalidJson, `The Format ${this.name} has a Station Offset with identical 'leftLabel' and 'rightLabel' attributes.`);
+    }
   }
 
   /**
@@ -448,6 +526,8 @@ export class Format {
       scientificType: this.scientificType ? Format.scientificTypeToString(this.scientificType) : undefined,
       stationOffsetSize: this.stationOffsetSize,
       stationSeparator: this.stationSeparator,
+      stationEquations: this.stationEquations,
+      stationOffset: this.hasStationOffset ? { spacer: this.offsetSpacer, leftLabel: this.leftOffsetLabel, rightLabel: this.rightOffsetLabel } : undefined,
       composite,
     };
     return schemaJson;
@@ -225,8 +225,9 @@ export class Formatter {
 
   /** Format a quantity value into a single text string. Imitate how formatting done by server method NumericFormatSpec::FormatDouble.
    *  @param magnitude   quantity value
+   *  @param asDecimal   If true the value is formatted as a decimal value, ignoring the type of the format. Used for the offset of a station format.
    */
-  private static formatMagnitude(magnitude: number, spec: FormatterSpec): string {
+  private static formatMagnitude(magnitude: number, spec: FormatterSpec, asDecimal = false): string {
     let posMagnitude = Math.abs(magnitude);
     if ((Math.abs(posMagnitude) < 0.0001) && spec.format.hasFormatTraitSet(FormatTraits.ZeroEmpty)) return "";
 
@@ -234,7 +235,7 @@ export class Formatter {
       posMagnitude = Math.abs(Formatter.roundDouble(magnitude, spec.format.roundFactor));
 
     const isSci = ((posMagnitude > 1.0e12) || spec.format.type === FormatType.Scientific);
-    const isDecimal = (isSci || spec.format.type === FormatType.Decimal);
+    const isDecimal = (isSci || asDecimal || spec.format.type === FormatType.Decimal);
     const isFractional = (!isDecimal && spec.format.type === FormatType.Fractional);
     /* const usesStops = spec.format.type === FormatType.Station; */
     const isPrecisionZero = spec.format.precision === DecimalPrecision.Zero;
@@ -333,11 +334,45 @@ export class Formatter {
     return formattedValue;
   }
 
+  /** Apply the station equations of a station format to a distance along the alignment. The equations are defined in the display unit of the format,
+   * so the distance is converted to that unit before applying them and the resulting station is converted back to the unit of the distance.
+   */
+  private static applyStationEquations(distance: number, spec: FormatterSpec): number {
+    if (0 === spec.unitConversions.length)
+      return spec.format.stationFromDistance(distance);
+
+    const conversion = spec.unitConversions[0].conversion;
+    const station = spec.format.stationFromDistance(distance * conversion.factor + conversion.offset);
+    return (station - conversion.offset) / conversion.factor;
+  }
+
+  /** Format the offset of a station-offset value, like "L 4.20". The label identifies the side of the alignment, so the offset itself is formatted without sign.
+   * A zero offset is not formatted.
+   *  @param offset   offset from the alignment, positive to the left, in the same unit as the station magnitude.
+   */
+  private static formatStationOffset(offset: number, spec: FormatterSpec): string {
+    if (0.0 === offset)
+      return "";
+
+    // an offset is a length rather than a location so only the factor of the conversion applies
+    const factor = spec.format.hasUnits ? spec.unitConversions[0].conversion.factor : 1.0;
+    const offsetText = Formatter.formatMagnitude(offset * factor, spec, true);
+    if (0 === offsetText.length)
+      return offsetText;
+
+    const sideLabel = offset > 0.0 ? spec.format.leftOffsetLabel : spec.format.rightOffsetLabel;
+    return sideLabel + spec.format.offsetSpacer + offsetText;
+  }
+
   /** Format a quantity value into a single text string based on the current format specification of this class.
-   *  @param magnitude   defines the value to spec.format.
+   *  @param magnitude   defines the value to spec.format. For a station format, this is the distance along the alignment, before applying station equations.
    *  @param spec      A FormatterSpec object the defines specification for the magnitude and unit conversions for the formatter.
+   *  @param offset    Optional offset from the alignment, positive to the left, in the same unit as magnitude. Only formatted if the format defines a station offset.
    */
-  public static formatQuantity(magnitude: number, spec: FormatterSpec): string {
+  public static formatQuantity(magnitude: number, spec: FormatterSpec, offset?: number): string {
+    if (spec.format.type === FormatType.Station)
+      magnitude = Formatter.applyStationEquations(magnitude, spec);
+
     const valueIsNegative = magnitude < 0.0;
     let prefix = "";
     let suffix = "";
@@ -385,6 +420,12 @@ export class Formatter {
     else
       formattedValue = formattedMagnitude;
 
+    if (undefined !== offset && spec.format.hasStationOffset) {
+      const offsetText = Formatter.formatStationOffset(offset, spec);
+      if (offsetText.length > 0)
+        formattedValue = formattedValue + spec.format.offsetSpacer + offsetText;
+    }
+
     if (spec.format.minWidth && spec.format.minWidth < formattedValue.length)
       formattedValue.padStart(spec.format.minWidth, " ");
 
@@ -2,6 +2,18 @@
 * Copyright (c) Bentley Systems, Incorporated. All rights reserved.
 * See LICENSE.md in the project root for license terms and full copyright notice.
 *--------------------------------------------------------------------------------------------*/
+/** A station equation, resetting the stationing of an alignment at a location along it. The location is identified by its station
+ * computed from the preceding stationing (its "back" station). Both stations are expressed in the display unit of the format, that is
+ * the first unit of its composite, and are converted to and from the unit of the quantity being formatted using the units provider.
+ * @alpha
+ */
+export interface StationEquationProps {
+  /** Station of the location computed from the preceding stationing, in the display unit of the format. */
+  readonly backStation: number;
+  /** Station from which the stationing restarts at that location, in the display unit of the format. */
+  readonly aheadStation: number;
+}
+
 /** This interface defines the persistence format for defining the format of quantity values.
  * @alpha
  */
@@ -18,6 +30,12 @@ export interface FormatProps {
   readonly scientificType?: string; // conditionally required
   readonly stationOffsetSize?: number; // conditionally required
   readonly stationSeparator?: string;
+  readonly stationEquations?: StationEquationProps[]; // only allowed when type is station
+  readonly stationOffset?: { // only allowed when type is station
+    readonly spacer?: string;
+    readonly leftLabel?: string;
+    readonly rightLabel?: string;
+  };
   readonly composite?: {
     readonly spacer?: string;
     readonly includeZero?: boolean;
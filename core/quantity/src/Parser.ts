@@ -15,6 +15,8 @@ import { Quantity } from "./Quantity";
  */
 export interface ParseResult {
   value?: number | undefined;
+  /** Offset from the alignment parsed from a station-offset string, positive to the left. */
+  offset?: number;
   status: QuantityStatus;
 }
 
@@ -471,11 +473,67 @@ export class Parser {
   }
 
   /** Method to generate a Quantity given a string that represents a quantity value and likely a unit label.
+   * If the format is a station format, the returned value is the distance along the alignment after removing station equations, and
+   * the offset of a station-offset string like "12+345.67 L 4.20" is returned in the offset of the result.
    *  @param inString A string that contains text represent a quantity.
    *  @param format   Defines the likely format of inString. Primary unit serves as a default unit if no unit label found in string.
    *  @param unitsConversions dictionary of conversions used to convert from unit used in inString to output quantity
    */
   public static parseIntoQuantityValue(inString: string, format: Format, unitsConversions: UnitConversionSpec[]): ParseResult {
+    if (format.type === FormatType.Station)
+      return Parser.parseStationIntoQuantityValue(inString, format, unitsConversions);
+
+    return Parser.parseMagnitudeIntoQuantityValue(inString, format, unitsConversions);
+  }
+
+  /** Split a station-offset string at its left or right offset label. The returned side is 1 for left, -1 for right and 0 if no label is found. */
+  private static splitStationOffset(inString: string, format: Format): { station: string, offset: string, side: number } {
+    const parts = inString.trim().split(format.offsetSpacer.trim().length > 0 ? format.offsetSpacer : /\s+/);
+    const leftLabel = format.leftOffsetLabel.toLocaleLowerCase();
+    const rightLabel = format.rightOffsetLabel.toLocaleLowerCase();
+    for (let i = 1; i < parts.length; i++) {
+      const label = parts[i].trim().toLocaleLowerCase();
+      if (label === leftLabel || label === rightLabel)
+        return { station: parts.slice(0, i).join(" "), offset: parts.slice(i + 1).join(" "), side: label === leftLabel ? 1 : -1 };
+    }
+    return { station: inString, offset: "", side: 0 };
+  }
+
+  /** Remove the station equations of a station format from a parsed station. The equations are defined in the display unit of the format, so the
+   * station is converted to that unit before removing them and the resulting distance is converted back to the unit of the parsed station.
+   */
+  private static removeStationEquations(station: number, format: Format, unitsConversions: UnitConversionSpec[]): number | undefined {
+    const displayUnit = format.units && format.units.length > 0 ? format.units[0][0] : undefined;
+    const conversion = displayUnit ? Parser.tryFindUnitConversion(displayUnit.label, unitsConversions) : undefined;
+    if (undefined === conversion)
+      return format.distanceFromStation(station);
+
+    const distance = format.distanceFromStation((station - conversion.offset) / conversion.factor);
+    return undefined !== distance ? distance * conversion.factor + conversion.offset : undefined;
+  }
+
+  private static parseStationIntoQuantityValue(inString: string, format: Format, unitsConversions: UnitConversionSpec[]): ParseResult {
+    const parts = format.hasStationOffset ? Parser.splitStationOffset(inString, format) : { station: inString, offset: "", side: 0 };
+    const stationResult = Parser.parseMagnitudeIntoQuantityValue(parts.station, format, unitsConversions);
+    if (undefined === stationResult.value)
+      return stationResult;
+
+    const value = Parser.removeStationEquations(stationResult.value, format, unitsConversions);
+    if (undefined === value)
+      return { status: QuantityStatus.InvalidStation };
+
+    if (0 === parts.side)
+      return { value, status: stationResult.status };
+
+    const offsetResult = Parser.parseMagnitudeIntoQuantityValue(parts.offset, format, unitsConversions);
+    if (undefined === offsetResult.value)
+      return { status: offsetResult.status };
+
+    const status = (QuantityStatus.Success !== stationResult.status) ? stationResult.status : offsetResult.status;
+    return { value, offset: parts.side * Math.abs(offsetResult.value), status };
+  }
+
+  private static parseMagnitudeIntoQuantityValue(inString: string, format: Format, unitsConversions: UnitConversionSpec[]): ParseResult {
     const tokens: ParseToken[] = Parser.parseQuantitySpecification(inString, format);
     if (tokens.length === 0)
       return { status: QuantityStatus.UnableToGenerateParseTokens };
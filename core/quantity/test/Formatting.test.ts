@@ -318,6 +318,27 @@ describe("Formatting tests:", () => {
     });
   });
 
+  it("Bad station offset and station equations", async () => {
+    const unitsProvider = new TestUnitsProvider();
+
+    const testData = [
+      { json: { precision: 2, type: "Decimal", stationOffset: {} }, message: `The Format test has a 'stationEquations' or 'stationOffset' attribute therefore type 'Station' is required.` },
+      { json: { precision: 2, type: "Station", stationOffsetSize: 2, stationOffset: { spacer: "" } }, message: `The Format test has a Station Offset with an invalid 'spacer' attribute. It must be a one character string.` },
+      { json: { precision: 2, type: "Station", stationOffsetSize: 2, stationOffset: { leftLabel: "LT", rightLabel: "lt" } }, message: `The Format test has a Station Offset with identical 'leftLabel' and 'rightLabel' attributes.` },
+      { json: { precision: 2, type: "Station", stationOffsetSize: 2, stationEquations: [{ backStation: 100, aheadStation: 300 }, { backStation: 250, aheadStation: 0 }] }, message: `The Format test has a station equation with back station 250 located before the previous equation.` },
+    ];
+
+    for (const testEntry of testData) {
+      const testFormat = new Format("test");
+      let message = "";
+      await testFormat.fromJson(unitsProvider, testEntry.json).catch((err) => {
+        assert.isTrue(err instanceof QuantityError);
+        message = err.message;
+      });
+      assert.strictEqual(message, testEntry.message);
+    }
+  });
+
   it("Scientific type is required", async () => {
     const unitsProvider = new TestUnitsProvider();
 
@@ -509,6 +509,43 @@ describe("Numeric Formats tests:", () => {
     }
   });
 
+  it("Station Offset Formatting", async () => {
+    const unitsProvider = new TestUnitsProvider();
+
+    const formatData = {
+      composite: {
+        units: [{ label: "ft", name: "Units.FT" }],
+      },
+      formatTraits: ["trailZeroes"],
+      precision: 2,
+      stationOffsetSize: 2,
+      type: "Station",
+      stationEquations: [{ backStation: 0, aheadStation: 1000 }, { backStation: 1500, aheadStation: 1600 }],
+      stationOffset: {},
+    };
+
+    const format = new Format("test");
+    await format.fromJson(unitsProvider, formatData);
+    assert.isTrue(format.hasStationOffset);
+    assert.deepEqual(format.toJson().stationOffset, { spacer: " ", leftLabel: "L", rightLabel: "R" });
+
+    // persistence unit is meter, and the station equations are in feet, the display unit of the format
+    const unit = await unitsProvider.findUnitByName("Units.M");
+    const spec = await FormatterSpec.create("test", format, unitsProvider, unit);
+    const testQuantityData = [
+      { magnitude: 110, offset: 3.048, result: "13+60.89 L 10.00" },
+      { magnitude: 110, offset: -0.3048, result: "13+60.89 R 1.00" },
+      { magnitude: 110, offset: 0.0, result: "13+60.89" },
+      { magnitude: 110, offset: undefined, result: "13+60.89" },
+      { magnitude: 160, offset: 1.524, result: "16+24.93 L 5.00" },
+    ];
+
+    for (const testEntry of testQuantityData) {
+      const formattedValue = Formatter.formatQuantity(testEntry.magnitude, spec, testEntry.offset);
+      assert.strictEqual(formattedValue, testEntry.result);
+    }
+  });
+
   it("Feet (fractional) ", async () => {
     const unitsProvider = new TestUnitsProvider();
 
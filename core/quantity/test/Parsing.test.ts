@@ -497,6 +497,48 @@ describe("Synchronous Parsing tests:", async () => {
     }
   });
 
+  it("Parse into station offset values", async () => {
+    const stationFormat = new Format("testStation");
+    await stationFormat.fromJson(unitsProvider, {
+      composite: {
+        units: [{ label: "ft", name: "Units.FT" }],
+      },
+      formatTraits: ["trailZeroes"],
+      precision: 2,
+      stationOffsetSize: 2,
+      type: "Station",
+      stationEquations: [{ backStation: 0, aheadStation: 1000 }, { backStation: 1500, aheadStation: 1600 }],
+      stationOffset: { leftLabel: "LT", rightLabel: "RT" },
+    });
+    const stationFormatSpec = await FormatterSpec.create("test", stationFormat, unitsProvider, outUnit);
+
+    const testData = [
+      { value: "13+60.89 LT 10.00", magnitude: 110, offset: 3.048 },
+      { value: "16+24.93 rt 5", magnitude: 160, offset: -1.524 },
+      { value: "16+24.93 RT 5 ft", magnitude: 160, offset: -1.524 },
+      { value: "16+24.93 RT 1.524 m", magnitude: 160, offset: -1.524 },
+      { value: "13+60.89", magnitude: 110, offset: undefined },
+    ];
+
+    for (const testEntry of testData) {
+      const parseResult = Parser.parseIntoQuantityValue(testEntry.value, stationFormat, meterConversionSpecs);
+      assert.strictEqual(parseResult.status, QuantityStatus.Success);
+      assert.approximately(parseResult.value!, testEntry.magnitude, 0.005);
+      if (undefined === testEntry.offset) {
+        assert.isUndefined(parseResult.offset);
+        continue;
+      }
+      assert.approximately(parseResult.offset!, testEntry.offset, 0.0001);
+      const formattedValue = Formatter.formatQuantity(parseResult.value!, stationFormatSpec, parseResult.offset);
+      const roundTrip = Parser.parseIntoQuantityValue(formattedValue, stationFormat, meterConversionSpecs);
+      assert.approximately(roundTrip.value!, parseResult.value!, 0.001);
+      assert.approximately(roundTrip.offset!, parseResult.offset!, 0.0001);
+    }
+
+    // station 15+50 ft is skipped by the second station equation
+    assert.strictEqual(Parser.parseIntoQuantityValue("15+50 LT 1", stationFormat, meterConversionSpecs).status, QuantityStatus.InvalidStation);
+  });
+
   it("Parse into angle values using default parse labels", () => {
     const testData = [
       // if no quantity is provided then the format unit is used to determine unit
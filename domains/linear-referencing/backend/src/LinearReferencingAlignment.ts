@@ -0,0 +1,284 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module LinearReferencing
+ */
+
+import { IModelStatus } from "@bentley/bentleyjs-core";
+import { CurveChainWithDistanceIndex, Geometry, Path, Point3d, Vector3d, YawPitchRollAngles } from "@bentley/geometry-core";
+import { IModelError, Placement3dProps } from "@bentley/imodeljs-common";
+import {
+  DistanceExpressionProps, StationEquationProps, StationOffsetProps, VerticalAlignmentProps, VerticalIntersectionProps,
+} from "@bentley/linear-referencing-common";
+
+/** Vertical profile of an [[Alignment]]: constant grades between vertical points of intersection (VPIs), joined by symmetric parabolic curves.
+ * * Elevations are defined as a function of the distance along the horizontal alignment.
+ * * The grades of the first and last tangents extend before the first and after the last VPI.
+ * @beta
+ */
+export class VerticalAlignment {
+  private _intersections: VerticalIntersectionProps[];
+  private _grades: number[];
+
+  private constructor(intersections: VerticalIntersectionProps[]) {
+    this._intersections = intersections;
+    this._grades = [];
+    for (let i = 0; i + 1 < intersections.length; i++)
+      this._grades.push((intersections[i + 1].elevation - intersections[i].elevation) / (intersections[i + 1].distanceAlong - intersections[i].distanceAlong));
+    if (this._grades.length === 0)
+      this._grades.push(0.0);
+  }
+
+  /** Create a vertical alignment from its vertical points of intersection.
+   * @throws [[IModelError]] if there are no VPIs, if they are not in increasing distance along, or if vertical curves overlap or are placed on the first or last VPI.
+   */
+  public static create(intersections: VerticalIntersectionProps[]): VerticalAlignment {
+    const numIntersections = intersections.length;
+    if (numIntersections === 0)
+      throw new IModelError(IModelStatus.BadArg, "A vertical alignment requires at least one vertical point of intersection");
+
+    let previousCurveEnd = -Number.MAX_VALUE;
+    for (let i = 0; i < numIntersections; i++) {
+      const vpi = intersections[i];
+      const halfLength = 0.5 * (vpi.curveLength ?? 0.0);
+      if (halfLength < 0.0 || (halfLength > 0.0 && (i === 0 || i + 1 === numIntersections)))
+        throw new IModelError(IModelStatus.BadArg, `Invalid vertical curve length at distance along ${vpi.distanceAlong}`);
+      if (i > 0 && vpi.distanceAlong <= intersections[i - 1].distanceAlong)
+        throw new IModelError(IModelStatus.BadArg, "Vertical points of intersection must be in increasing distance along");
+      if (vpi.distanceAlong - halfLength < previousCurveEnd - Geometry.smallMetricDistance)
+        throw new IModelError(IModelStatus.BadArg, `Overlapping vertical curves at distance along ${vpi.distanceAlong}`);
+      previousCurveEnd = vpi.distanceAlong + halfLength;
+    }
+
+    return new VerticalAlignment(intersections.map((vpi) => ({ ...vpi })));
+  }
+
+  /** Create a vertical alignment from its JSON representation.
+   * @throws [[IModelError]] if the VPIs are invalid, as described in [[VerticalAlignment.create]].
+   */
+  public static fromJSON(props: VerticalAlignmentProps): VerticalAlignment {
+    return this.create(props.intersections);
+  }
+
+  public toJSON(): VerticalAlignmentProps {
+    return { intersections: this._intersections.map((vpi) => ({ ...vpi })) };
+  }
+
+  /** The vertical points of intersection, in increasing distance along. */
+  public get intersections(): ReadonlyArray<Readonly<VerticalIntersectionProps>> { return this._intersections; }
+
+  /** Return the index of the vertical curve containing a distance along, or undefined if it is on a tangent. */
+  private findCurve(distanceAlong: number): number | undefined {
+    for (let i = 1; i + 1 < this._intersections.length; i++) {
+      const vpi = this._intersections[i];
+      const halfLength = 0.5 * (vpi.curveLength ?? 0.0);
+      if (halfLength > 0.0 && Math.abs(distanceAlong - vpi.distanceAlong) < halfLength)
+        return i;
+    }
+    return undefined;
+  }
+
+  /** Return the index of the tangent whose grade applies at a distance along outside vertical curves. */
+  private findTangent(distanceAlong: number): number {
+    let tangentIndex = 0;
+    while (tangentIndex + 1 < this._grades.length && distanceAlong > this._intersections[tangentIndex + 1].distanceAlong)
+      tangentIndex++;
+    return tangentIndex;
+  }
+
+  /** Return the elevation at a distance along the horizontal alignment. */
+  public elevationAt(distanceAlong: number): number {
+    const curveIndex = this.findCurve(distanceAlong);
+    if (undefined !== curveIndex) {
+      const vpi = this._intersections[curveIndex];
+      const curveLength = vpi.curveLength!;
+      const grade0 = this._grades[curveIndex - 1];
+      const grade1 = this._grades[curveIndex];
+      const x = distanceAlong - (vpi.distanceAlong - 0.5 * curveLength);
+      return vpi.elevation - 0.5 * curveLength * grade0 + x * grade0 + 0.5 * x * x * (grade1 - grade0) / curveLength;
+    }
+
+    const tangentIndex = this.findTangent(distanceAlong);
+    const start = this._intersections[tangentIndex];
+    return start.elevation + (distanceAlong - start.distanceAlong) * this._grades[tangentIndex];
+  }
+
+  /** Return the grade (rise over run) at a distance along the horizontal alignment. */
+  public gradeAt(distanceAlong: number): number {
+    const curveIndex = this.findCurve(distanceAlong);
+    if (undefined !== curveIndex) {
+      const vpi = this._intersections[curveIndex];
+      const curveLength = vpi.curveLength!;
+      const grade0 = this._grades[curveIndex - 1];
+      const grade1 = this._grades[curveIndex];
+      const x = distanceAlong - (vpi.distanceAlong - 0.5 * curveLength);
+      return grade0 + x * (grade1 - grade0) / curveLength;
+    }
+
+    return this._grades[this.findTangent(distanceAlong)];
+  }
+}
+
+/** A stretch of an [[Alignment]] with continuous stationing. */
+interface StationRegion {
+  distanceAlong: number;
+  station: number;
+}
+
+/** An alignment for linear referencing: a horizontal alignment in the xy plane, an optional [[VerticalAlignment]], and its stationing.
+ * * Distances along are measured along the horizontal alignment from its start, as in [DistanceExpressionProps]($linear-referencing-common).
+ * * Stations are distances along shifted by the start station, and reset by station equations.
+ * * Lateral offsets are positive to the left of the direction of increasing distance along.
+ * * Elevations come from the vertical alignment if there is one, and from the horizontal alignment otherwise.
+ * @beta
+ */
+export class Alignment {
+  private _horizontal: CurveChainWithDistanceIndex;
+  private _vertical?: VerticalAlignment;
+  private _stationEquations: StationEquationProps[];
+  private _regions: StationRegion[];
+
+  private constructor(horizontal: CurveChainWithDistanceIndex, vertical: VerticalAlignment | undefined, startStation: number, stationEquations: StationEquationProps[]) {
+    this._horizontal = horizontal;
+    this._vertical = vertical;
+    this._stationEquations = stationEquations.map((equation) => ({ ...equation }));
+    this._regions = [{ distanceAlong: 0.0, station: startStation }];
+    const length = horizontal.curveLength();
+    for (const equation of stationEquations) {
+      const region = this._regions[this._regions.length - 1];
+      const distanceAlong = region.distanceAlong + equation.backStation - region.station;
+      if (distanceAlong <= region.distanceAlong || distanceAlong > length + Geometry.smallMetricDistance)
+        throw new IModelError(IModelStatus.BadArg, `Station equation back station ${equation.backStation} is not on the alignment`);
+      this._regions.push({ distanceAlong, station: equation.aheadStation });
+    }
+  }
+
+  /** Create an alignment.
+   * @param horizontal The horizontal alignment, typically a chain of lines, arcs and transition spirals in the xy plane. A `Path` is captured into a new `CurveChainWithDistanceIndex`.
+   * @param vertical The optional vertical alignment.
+   * @param startStation The station at the start of the horizontal alignment.
+   * @param stationEquations The station equations, in increasing distance along.
+   * @throws [[IModelError]] if the horizontal alignment is empty, or if a station equation is not on it.
+   */
+  public static create(horizontal: CurveChainWithDistanceIndex | Path, vertical?: VerticalAlignment, startStation: number = 0.0, stationEquations: StationEquationProps[] = []): Alignment {
+    const chain = horizontal instanceof Path ? CurveChainWithDistanceIndex.createCapture(horizontal) : horizontal;
+    if (undefined === chain || chain.curveLength() <= 0.0)
+      throw new IModelError(IModelStatus.BadArg, "An alignment requires a horizontal alignment with non-zero length");
+    return new Alignment(chain, vertical, startStation, stationEquations);
+  }
+
+  public get horizontal(): CurveChainWithDistanceIndex { return this._horizontal; }
+  public get vertical(): VerticalAlignment | undefined { return this._vertical; }
+  public get startStation(): number { return this._regions[0].station; }
+  public get stationEquations(): ReadonlyArray<Readonly<StationEquationProps>> { return this._stationEquations; }
+  /** The length of the horizontal alignment. */
+  public get length(): number { return this._horizontal.curveLength(); }
+
+  /** Return the station at a distance along.  At the location of a station equation, the ahead station is returned. */
+  public distanceAlongToStation(distanceAlong: number): number {
+    let region = this._regions[0];
+    for (const candidate of this._regions)
+      if (candidate.distanceAlong <= distanceAlong)
+        region = candidate;
+    return region.station + distanceAlong - region.distanceAlong;
+  }
+
+  /** Return the distance along of a station, or undefined if the station is not on the alignment.
+   * * Station equations can make a station occur more than once along the alignment.  The first occurrence is returned.
+   */
+  public stationToDistanceAlong(station: number): number | undefined {
+    const length = this.length;
+    for (let i = 0; i < this._regions.length; i++) {
+      const region = this._regions[i];
+      const regionEnd = i + 1 < this._regions.length ? this._regions[i + 1].distanceAlong : length;
+      const distanceAlong = region.distanceAlong + station - region.station;
+      if (distanceAlong >= region.distanceAlong - Geometry.smallMetricDistance && distanceAlong <= regionEnd + Geometry.smallMetricDistance)
+        return Geometry.clamp(distanceAlong, 0.0, length);
+    }
+    return undefined;
+  }
+
+  /** Return the point of the horizontal alignment and its unit tangent in the xy plane, or undefined if the distance along is not on the alignment. */
+  private evaluateHorizontal(distanceAlong: number): { point: Point3d, tangent: Vector3d } | undefined {
+    const length = this.length;
+    if (distanceAlong < -Geometry.smallMetricDistance || distanceAlong > length + Geometry.smallMetricDistance)
+      return undefined;
+    const ray = this._horizontal.fractionToPointAndUnitTangent(Geometry.clamp(distanceAlong, 0.0, length) / length);
+    const tangent = Vector3d.create(ray.direction.x, ray.direction.y).normalize();
+    if (undefined === tangent)
+      return undefined;
+    return { point: ray.origin, tangent };
+  }
+
+  /** Return the elevation of the alignment at a distance along. */
+  private elevationAt(distanceAlong: number, horizontalPoint: Point3d): number {
+    return undefined !== this._vertical ? this._vertical.elevationAt(distanceAlong) : horizontalPoint.z;
+  }
+
+  /** Return the point at a distance along and offsets, or undefined if the distance along is not on the alignment. */
+  public distanceAlongToPoint(distanceAlong: number, lateralOffset: number = 0.0, verticalOffset: number = 0.0): Point3d | undefined {
+    const horizontal = this.evaluateHorizontal(distanceAlong);
+    if (undefined === horizontal)
+      return undefined;
+    return Point3d.create(
+      horizontal.point.x - lateralOffset * horizontal.tangent.y,
+      horizontal.point.y + lateralOffset * horizontal.tangent.x,
+      this.elevationAt(distanceAlong, horizontal.point) + verticalOffset);
+  }
+
+  /** Return the point of a linear position, or undefined if it is not on the alignment. */
+  public distanceExpressionToPoint(position: DistanceExpressionProps): Point3d | undefined {
+    return this.distanceAlongToPoint(position.distanceAlongFromStart, position.lateralOffsetFromILinearElement, position.verticalOffsetFromILinearElement);
+  }
+
+  /** Return the point of a station and offsets, or undefined if the station is not on the alignment. */
+  public stationOffsetToPoint(stationOffset: StationOffsetProps): Point3d | undefined {
+    const distanceAlong = this.stationToDistanceAlong(stationOffset.station);
+    return undefined !== distanceAlong ? this.distanceAlongToPoint(distanceAlong, stationOffset.offset, stationOffset.verticalOffset) : undefined;
+  }
+
+  /** Return the linear position of the projection of a point onto the horizontal alignment, or undefined if the projection fails. */
+  public pointToDistanceExpression(point: Point3d): DistanceExpressionProps | undefined {
+    const startPoint = this._horizontal.startPoint();
+    const detail = this._horizontal.closestPoint(Point3d.create(point.x, point.y, startPoint.z), false);
+    if (undefined === detail)
+      return undefined;
+    const distanceAlong = Geometry.clamp(detail.fraction, 0.0, 1.0) * this.length;
+    const horizontal = this.evaluateHorizontal(distanceAlong);
+    if (undefined === horizontal)
+      return undefined;
+    return {
+      distanceAlongFromStart: distanceAlong,
+      lateralOffsetFromILinearElement: Geometry.crossProductXYXY(horizontal.tangent.x, horizontal.tangent.y, point.x - horizontal.point.x, point.y - horizontal.point.y),
+      verticalOffsetFromILinearElement: point.z - this.elevationAt(distanceAlong, horizontal.point),
+    };
+  }
+
+  /** Return the station and offsets of the projection of a point onto the horizontal alignment, or undefined if the projection fails. */
+  public pointToStationOffset(point: Point3d): StationOffsetProps | undefined {
+    const position = this.pointToDistanceExpression(point);
+    if (undefined === position)
+      return undefined;
+    return {
+      station: this.distanceAlongToStation(position.distanceAlongFromStart),
+      offset: position.lateralOffsetFromILinearElement,
+      verticalOffset: position.verticalOffsetFromILinearElement,
+    };
+  }
+
+  /** Compute the placement of an element at a linear position: its origin is the point of the position, and its x axis is the horizontal tangent of the alignment.
+   * @returns the placement, or undefined if the position is not on the alignment.
+   */
+  public computePlacement(position: DistanceExpressionProps): Placement3dProps | undefined {
+    const origin = this.distanceExpressionToPoint(position);
+    const horizontal = this.evaluateHorizontal(position.distanceAlongFromStart);
+    if (undefined === origin || undefined === horizontal)
+      return undefined;
+    return {
+      origin: origin.toJSON(),
+      angles: YawPitchRollAngles.createRadians(Math.atan2(horizontal.tangent.y, horizontal.tangent.x), 0.0, 0.0).toJSON(),
+    };
+  }
+}
@@ -6,14 +6,15 @@
  * @module LinearReferencing
  */
 
-import { assert, DbResult, Id64String } from "@bentley/bentleyjs-core";
+import { assert, DbResult, Id64String, IModelStatus } from "@bentley/bentleyjs-core";
 import { ECSqlStatement, ElementAspect, IModelDb, PhysicalElement, SpatialLocationElement } from "@bentley/imodeljs-backend";
-import { Code, ElementProps, GeometricElement3dProps, IModelError, PhysicalElementProps, RelatedElement } from "@bentley/imodeljs-common";
+import { Code, ElementProps, GeometricElement3dProps, IModelError, PhysicalElementProps, Placement3d, RelatedElement } from "@bentley/imodeljs-common";
 import {
-  ComparisonOption, LinearLocationReference, LinearlyLocatedAttributionProps, LinearlyReferencedAtLocationAspectProps,
+  ComparisonOption, DistanceExpressionProps, LinearLocationReference, LinearlyLocatedAttributionProps, LinearlyReferencedAtLocationAspectProps,
   LinearlyReferencedAtLocationProps, LinearlyReferencedFromToLocationAspectProps, LinearlyReferencedFromToLocationProps,
   LinearlyReferencedLocationType, QueryParams, ReferentElementProps,
 } from "@bentley/linear-referencing-common";
+import { Alignment } from "./LinearReferencingAlignment";
 import { LinearlyReferencedAtLocation, LinearlyReferencedFromToLocation } from "./LinearReferencingElementAspects";
 import {
   ILinearLocationLocatesElement, ILinearlyLocatedAlongILinearElement, ILinearlyLocatedAttributesElement, IReferentReferencesElement,
@@ -80,16 +81,17 @@ export class LinearLocation extends LinearLocationElement {
   }
 
   public static insertFromTo(iModel: IModelDb, modelId: Id64String, categoryId: Id64String, linearElementId: Id64String,
-    fromToPosition: LinearlyReferencedFromToLocationProps, locatedElementId: Id64String): Id64String {
-    const newId = LinearlyLocated.insertFromTo(iModel, this.toProps(modelId, categoryId), linearElementId, fromToPosition);
+    fromToPosition: LinearlyReferencedFromToLocationProps, locatedElementId: Id64String, alignment?: Alignment): Id64String {
+    const newId = LinearlyLocated.insertFromTo(iModel, this.toProps(modelId, categoryId), linearElementId, fromToPosition, alignment);
 
     ILinearLocationLocatesElement.insert(iModel, newId, locatedElementId);
 
     return newId;
   }
 
-  public insertFromTo(iModel: IModelDb, linearElementId: Id64String, fromToPosition: LinearlyReferencedFromToLocationProps, locatedElementId: Id64String): Id64String {
-    const newId = LinearlyLocated.insertFromTo(iModel, this, linearElementId, fromToPosition);
+  public insertFromTo(iModel: IModelDb, linearElementId: Id64String, fromToPosition: LinearlyReferencedFromToLocationProps, locatedElementId: Id64String,
+    alignment?: Alignment): Id64String {
+    const newId = LinearlyLocated.insertFromTo(iModel, this, linearElementId, fromToPosition, alignment);
 
     ILinearLocationLocatesElement.insert(iModel, newId, locatedElementId);
 
@@ -97,16 +99,17 @@ export class LinearLocation extends LinearLocationElement {
   }
 
   public static insertAt(iModel: IModelDb, modelId: Id64String, categoryId: Id64String, linearElementId: Id64String,
-    atPosition: LinearlyReferencedAtLocationProps, locatedElementId: Id64String): Id64String {
-    const newId = LinearlyLocated.insertAt(iModel, this.toProps(modelId, categoryId), linearElementId, atPosition);
+    atPosition: LinearlyReferencedAtLocationProps, locatedElementId: Id64String, alignment?: Alignment): Id64String {
+    const newId = LinearlyLocated.insertAt(iModel, this.toProps(modelId, categoryId), linearElementId, atPosition, alignment);
 
     ILinearLocationLocatesElement.insert(iModel, newId, locatedElementId);
 
     return newId;
   }
 
-  public insertAt(iModel: IModelDb, linearElementId: Id64String, atPosition: LinearlyReferencedAtLocationProps, locatedElementId: Id64String): Id64String {
-    const newId = LinearlyLocated.insertAt(iModel, this, linearElementId, atPosition);
+  public insertAt(iModel: IModelDb, linearElementId: Id64String, atPosition: LinearlyReferencedAtLocationProps, locatedElementId: Id64String,
+    alignment?: Alignment): Id64String {
+    const newId = LinearlyLocated.insertAt(iModel, this, linearElementId, atPosition, alignment);
 
     ILinearLocationLocatesElement.insert(iModel, newId, locatedElementId);
 
@@ -172,12 +175,12 @@ export class Referent extends ReferentElement {
   }
 
   public static insertAt(iModel: IModelDb, modelId: Id64String, categoryId: Id64String, linearElementId: Id64String,
-    atPosition: LinearlyReferencedAtLocationProps, referencedElementId: Id64String): Id64String {
-    return LinearlyLocated.insertAt(iModel, this.toProps(modelId, categoryId, referencedElementId), linearElementId, atPosition);
+    atPosition: LinearlyReferencedAtLocationProps, referencedElementId: Id64String, alignment?: Alignment): Id64String {
+    return LinearlyLocated.insertAt(iModel, this.toProps(modelId, categoryId, referencedElementId), linearElementId, atPosition, alignment);
   }
 
-  public insertAt(iModel: IModelDb, linearElementId: Id64String, atPosition: LinearlyReferencedAtLocationProps): Id64String {
-    return LinearlyLocated.insertAt(iModel, this, linearElementId, atPosition);
+  public insertAt(iModel: IModelDb, linearElementId: Id64String, atPosition: LinearlyReferencedAtLocationProps, alignment?: Alignment): Id64String {
+    return LinearlyLocated.insertAt(iModel, this, linearElementId, atPosition, alignment);
   }
 }
 
@@ -456,8 +459,20 @@ class QueryLinearLocationsECSQLGen {
  * @beta
  */
 export class LinearlyLocated {
-  private static insertBasic(iModel: IModelDb, elProps: ElementProps, linearElementId: Id64String): Id64String {
-    const newId = iModel.elements.insertElement(elProps);
+  private static insertBasic(iModel: IModelDb, elProps: ElementProps, linearElementId: Id64String,
+    alignment?: Alignment, position?: DistanceExpressionProps): Id64String {
+    let props = elProps;
+    if (undefined !== alignment && undefined !== position) {
+      const placement = alignment.computePlacement(position);
+      if (undefined === placement)
+        throw new IModelError(IModelStatus.BadArg, `Distance along ${position.distanceAlongFromStart} is not on the alignment`);
+
+      // don't modify the caller's props
+      const geomProps = elProps as GeometricElement3dProps;
+      props = { ...geomProps, placement: Placement3d.fromJSON({ ...placement, bbox: geomProps.placement?.bbox }) } as GeometricElement3dProps;
+    }
+
+    const newId = iModel.elements.insertElement(props);
 
     const linearlyLocatedAlongLinearElement =
       ILinearlyLocatedAlongILinearElement.create(iModel, newId, linearElementId);
@@ -471,12 +486,13 @@ export class LinearlyLocated {
    * @param elProps The properties of the new element.
    * @param linearElementId The Id of the Linear-Element along which the new LinearlyLocated will be inserted.
    * @param atPosition Linear position.
+   * @param alignment If defined, the alignment of the Linear-Element, used to compute the placement of the new element at the linear position.
    * @returns The newly inserted element's Id.
-   * @throws [[IModelError]] if unable to insert the element.
+   * @throws [[IModelError]] if unable to insert the element, or if the linear position is not on the alignment.
    */
   public static insertAt(iModel: IModelDb, elProps: ElementProps, linearElementId: Id64String,
-    atPosition: LinearlyReferencedAtLocationProps): Id64String {
-    const newId: Id64String = this.insertBasic(iModel, elProps, linearElementId);
+    atPosition: LinearlyReferencedAtLocationProps, alignment?: Alignment): Id64String {
+    const newId: Id64String = this.insertBasic(iModel, elProps, linearElementId, alignment, atPosition.atPosition);
 
     LinearlyReferencedAtLocation.insert(iModel, newId, atPosition.atPosition,
       (atPosition.fromReferent === undefined) ? undefined : atPosition.fromReferent.id);
@@ -489,12 +505,13 @@ export class LinearlyLocated {
    * @param elProps The properties of the new element.
    * @param linearElementId The Id of the Linear-Element along which the new LinearlyLocated will be inserted.
    * @param fromToPosition Linear position.
+   * @param alignment If defined, the alignment of the Linear-Element, used to compute the placement of the new element at the from-position.
    * @returns The newly inserted element's Id.
-   * @throws [[IModelError]] if unable to insert the element.
+   * @throws [[IModelError]] if unable to insert the element, or if the from-position is not on the alignment.
    */
   public static insertFromTo(iModel: IModelDb, elProps: ElementProps, linearElementId: Id64String,
-    fromToPosition: LinearlyReferencedFromToLocationProps): Id64String {
-    const newId: Id64String = this.insertBasic(iModel, elProps, linearElementId);
+    fromToPosition: LinearlyReferencedFromToLocationProps, alignment?: Alignment): Id64String {
+    const newId: Id64String = this.insertBasic(iModel, elProps, linearElementId, alignment, fromToPosition.fromPosition);
 
     LinearlyReferencedFromToLocation.insert(iModel, newId,
       fromToPosition.fromPosition, fromToPosition.toPosition,
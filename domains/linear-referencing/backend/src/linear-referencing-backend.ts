@@ -3,6 +3,7 @@
 * See LICENSE.md in the project root for license terms and full copyright notice.
 *--------------------------------------------------------------------------------------------*/
 
+export * from "./LinearReferencingAlignment";
 export * from "./LinearReferencingElementAspects";
 export * from "./LinearReferencingElements";
 export * from "./LinearReferencingRelationships";
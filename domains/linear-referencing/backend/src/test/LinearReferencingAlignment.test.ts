@@ -0,0 +1,115 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { assert } from "chai";
+import { AngleSweep, Arc3d, IntegratedSpiral3d, LineSegment3d, Path, Point3d, Segment1d, Transform, YawPitchRollAngles } from "@bentley/geometry-core";
+import { Alignment, VerticalAlignment } from "../linear-referencing-backend";
+
+/** A line of length 100 along the x axis, then a quarter circle of radius 100 turning left. */
+function createLineArcPath(): Path {
+  return Path.create(
+    LineSegment3d.createXYXY(0, 0, 100, 0),
+    Arc3d.createCircularStartMiddleEnd(Point3d.create(100, 0), Point3d.create(100 + 50 * Math.SQRT2, 100 - 50 * Math.SQRT2), Point3d.create(200, 100))!,
+  );
+}
+
+describe("LinearReferencing Alignment", () => {
+
+  it("should evaluate vertical alignments", () => {
+    // +2% grade, 200 long crest curve, -1% grade
+    const vertical = VerticalAlignment.create([
+      { distanceAlong: 0, elevation: 100 },
+      { distanceAlong: 300, elevation: 106, curveLength: 200 },
+      { distanceAlong: 500, elevation: 104 },
+    ]);
+
+    assert.approximately(vertical.elevationAt(100), 102, 1.0e-12);
+    assert.approximately(vertical.gradeAt(100), 0.02, 1.0e-12);
+    assert.approximately(vertical.elevationAt(400), 105, 1.0e-12);
+    assert.approximately(vertical.gradeAt(400), -0.01, 1.0e-12);
+    // The curve is below its VPI by (g2 - g1) * L / 8
+    assert.approximately(vertical.elevationAt(300), 106 - 0.03 * 200 / 8, 1.0e-12);
+    assert.approximately(vertical.gradeAt(300), 0.005, 1.0e-12);
+    // Grades extend beyond the first and last VPI
+    assert.approximately(vertical.elevationAt(-50), 99, 1.0e-12);
+    assert.approximately(vertical.elevationAt(600), 103, 1.0e-12);
+
+    const flat = VerticalAlignment.fromJSON({ intersections: [{ distanceAlong: 10, elevation: 5 }] });
+    assert.equal(flat.elevationAt(1000), 5);
+    assert.deepEqual(VerticalAlignment.fromJSON(vertical.toJSON()).toJSON(), vertical.toJSON());
+
+    assert.throws(() => VerticalAlignment.create([]));
+    assert.throws(() => VerticalAlignment.create([{ distanceAlong: 0, elevation: 0, curveLength: 10 }, { distanceAlong: 100, elevation: 0 }]));
+    assert.throws(() => VerticalAlignment.create([{ distanceAlong: 100, elevation: 0 }, { distanceAlong: 0, elevation: 0 }]));
+    assert.throws(() => VerticalAlignment.create([
+      { distanceAlong: 0, elevation: 0 },
+      { distanceAlong: 100, elevation: 10, curveLength: 100 },
+      { distanceAlong: 150, elevation: 0, curveLength: 50 },
+      { distanceAlong: 300, elevation: 0 },
+    ]));
+  });
+
+  it("should convert between stations and distances along", () => {
+    const alignment = Alignment.create(createLineArcPath(), undefined, 1000, [
+      { backStation: 1050, aheadStation: 2000 },
+      { backStation: 2050, aheadStation: 2040 },
+    ]);
+
+    assert.approximately(alignment.length, 100 + 50 * Math.PI, 1.0e-10);
+    assert.equal(alignment.distanceAlongToStation(20), 1020);
+    assert.equal(alignment.distanceAlongToStation(50), 2000);
+    assert.equal(alignment.distanceAlongToStation(120), 2060);
+    assert.equal(alignment.stationToDistanceAlong(1020), 20);
+    assert.equal(alignment.stationToDistanceAlong(2010), 60);
+    // Station 2045 occurs before and after the second equation
+    assert.equal(alignment.stationToDistanceAlong(2045), 95);
+    assert.isUndefined(alignment.stationToDistanceAlong(1060));
+    assert.isUndefined(alignment.stationToDistanceAlong(999));
+
+    assert.throws(() => Alignment.create(createLineArcPath(), undefined, 0, [{ backStation: -10, aheadStation: 100 }]));
+    assert.throws(() => Alignment.create(createLineArcPath(), undefined, 0, [{ backStation: 1000, aheadStation: 100 }]));
+  });
+
+  it("should convert between linear positions and points", () => {
+    const vertical = VerticalAlignment.create([{ distanceAlong: 0, elevation: 10 }, { distanceAlong: 200, elevation: 14 }]);
+    const alignment = Alignment.create(createLineArcPath(), vertical, 100);
+
+    const onLine = alignment.distanceAlongToPoint(40, 5, 1)!;
+    assert.isTrue(onLine.isAlmostEqual(Point3d.create(40, 5, 11.8)));
+    // On the arc, a positive offset moves towards its center.
+    const arcMiddle = 100 + 25 * Math.PI;
+    const onArc = alignment.stationOffsetToPoint({ station: 100 + arcMiddle, offset: 10 })!;
+    const radial = 90 / Math.sqrt(2);
+    assert.isTrue(onArc.isAlmostEqual(Point3d.create(100 + radial, 100 - radial, 10 + 4 * arcMiddle / 200)));
+    assert.isUndefined(alignment.distanceAlongToPoint(-1));
+    assert.isUndefined(alignment.distanceAlongToPoint(alignment.length + 1));
+
+    const position = alignment.pointToDistanceExpression(Point3d.create(150, 20, 20))!;
+    const roundTrip = alignment.distanceExpressionToPoint(position)!;
+    assert.isTrue(roundTrip.isAlmostEqual(Point3d.create(150, 20, 20)));
+    assert.isAbove(position.distanceAlongFromStart, 100);
+    assert.isAbove(position.lateralOffsetFromILinearElement!, 0);
+
+    const stationOffset = alignment.pointToStationOffset(Point3d.create(30, -4, 0))!;
+    assert.approximately(stationOffset.station, 130, 1.0e-10);
+    assert.approximately(stationOffset.offset!, -4, 1.0e-10);
+    assert.approximately(stationOffset.verticalOffset!, -10.6, 1.0e-10);
+
+    const placement = alignment.computePlacement({ distanceAlongFromStart: arcMiddle })!;
+    assert.approximately(YawPitchRollAngles.fromJSON(placement.angles).yaw.degrees, 45, 1.0e-10);
+    assert.isUndefined(alignment.computePlacement({ distanceAlongFromStart: -10 }));
+  });
+
+  it("should evaluate alignments with transition spirals", () => {
+    const spiral = IntegratedSpiral3d.createRadiusRadiusBearingBearing(Segment1d.create(0, 200), AngleSweep.createStartEndDegrees(0, 10),
+      Segment1d.create(0, 1), Transform.createIdentity())!;
+    const alignment = Alignment.create(Path.create(spiral));
+    for (const distanceAlong of [0, 10, 50, alignment.length]) {
+      const point = alignment.distanceAlongToPoint(distanceAlong, 3)!;
+      const position = alignment.pointToDistanceExpression(point)!;
+      assert.approximately(position.distanceAlongFromStart, distanceAlong, 1.0e-8);
+      assert.approximately(position.lateralOffsetFromILinearElement!, 3, 1.0e-8);
+    }
+  });
+});
@@ -5,16 +5,17 @@
 import { assert } from "chai";
 import * as path from "path";
 import { Guid, Id64, Id64String } from "@bentley/bentleyjs-core";
+import { LineSegment3d, Path, Point3d } from "@bentley/geometry-core";
 import {
-  BackendRequestContext, ClassRegistry, IModelDb, IModelHost, IModelJsFs, PhysicalModel, PhysicalPartition, Schema, Schemas, SnapshotDb,
-  SpatialCategory, SubjectOwnsPartitionElements,
+  BackendRequestContext, ClassRegistry, IModelDb, IModelHost, IModelJsFs, PhysicalElement, PhysicalModel, PhysicalPartition, Schema, Schemas,
+  SnapshotDb, SpatialCategory, SubjectOwnsPartitionElements,
 } from "@bentley/imodeljs-backend";
 import {
   CategoryProps, Code, GeometricElement3dProps, IModel, InformationPartitionElementProps, PhysicalElementProps,
 } from "@bentley/imodeljs-common";
 import { ILinearElementProps, LinearlyLocatedAttributionProps, LinearlyReferencedFromToLocationProps } from "@bentley/linear-referencing-common";
 import {
-  LinearElement, LinearlyLocated, LinearlyLocatedAttribution, LinearlyLocatedSingleFromTo, LinearlyReferencedFromToLocation, LinearReferencingSchema,
+  Alignment, LinearElement, LinearlyLocated, LinearlyLocatedAttribution, LinearlyLocatedSingleFromTo, LinearlyReferencedFromToLocation, LinearReferencingSchema,
 } from "../linear-referencing-backend";
 
 class TestLinearReferencingSchema extends Schema {
@@ -224,6 +225,12 @@ describe("LinearReferencing Domain", () => {
     assert.equal(linearLocationRefs[0].linearlyLocatedId, linearlyLocatedAttributionId);
     assert.equal(linearLocationRefs[1].linearlyLocatedId, linearPhysicalElementId);
 
+    // The placement is computed from the alignment, without modifying the props passed in
+    const alignment = Alignment.create(Path.create(LineSegment3d.createXYXY(0, 0, 100, 0)));
+    const placedPhysicalElementId = LinearlyLocated.insertFromTo(iModelDb, testPhysicalLinearProps, linearElementId, linearFromToPosition, alignment);
+    assert.isUndefined((testPhysicalLinearProps as GeometricElement3dProps).placement);
+    assert.isTrue(iModelDb.elements.getElement<PhysicalElement>(placedPhysicalElementId).placement.origin.isAlmostEqual(Point3d.create(30, 0, 0)));
+
     iModelDb.saveChanges("Insert Test LinearReferencing elements");
     iModelDb.close();
   });
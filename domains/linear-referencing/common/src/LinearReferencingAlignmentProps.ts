@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module LinearReferencing
+ */
+
+/** A station equation, resetting the stationing of an [Alignment]($linear-referencing-backend) at a location along it.
+ * The location is identified by its station as computed from the preceding stationing (its "back" station).
+ * @beta
+ */
+export interface StationEquationProps {
+  /** Station of the location, as computed from the stationing before the equation. */
+  backStation: number;
+  /** Station of the location, as computed from the stationing after the equation. */
+  aheadStation: number;
+}
+
+/** A vertical point of intersection (VPI) of a [VerticalAlignment]($linear-referencing-backend).
+ * @beta
+ */
+export interface VerticalIntersectionProps {
+  /** Distance along the horizontal alignment, from its start. */
+  distanceAlong: number;
+  /** Elevation of the intersection of the grades before and after the VPI. */
+  elevation: number;
+  /** Horizontal length of the parabolic vertical curve centered on the VPI. Zero or undefined for a grade break. */
+  curveLength?: number;
+}
+
+/** Properties of a [VerticalAlignment]($linear-referencing-backend)
+ * @beta
+ */
+export interface VerticalAlignmentProps {
+  /** Vertical points of intersection, in increasing distance along. */
+  intersections: VerticalIntersectionProps[];
+}
+
+/** A location relative to an [Alignment]($linear-referencing-backend), in stationing units.
+ * @beta
+ */
+export interface StationOffsetProps {
+  station: number;
+  /** Horizontal distance from the alignment, positive to the left of the direction of increasing stations. */
+  offset?: number;
+  /** Vertical distance from the vertical alignment, or from the horizontal alignment if there is no vertical alignment. */
+  verticalOffset?: number;
+}
@@ -3,6 +3,7 @@
 * See LICENSE.md in the project root for license terms and full copyright notice.
 *--------------------------------------------------------------------------------------------*/
 
+export * from "./LinearReferencingAlignmentProps";
 export * from "./LinearReferencingCommon";
 export * from "./LinearReferencingElementProps";
 
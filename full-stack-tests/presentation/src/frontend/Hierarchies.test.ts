@@ -7,8 +7,8 @@ import * as faker from "faker";
 import { Id64, using } from "@bentley/bentleyjs-core";
 import { IModelConnection, SnapshotConnection } from "@bentley/imodeljs-frontend";
 import {
-  ChildNodeSpecificationTypes, ECInstancesNodeKey, getInstancesCount, InstanceKey, KeySet, RegisteredRuleset, RelationshipDirection, Ruleset,
-  RuleTypes,
+  ChildNodeSpecificationTypes, ECInstancesNodeKey, FieldDescriptorType, getInstancesCount, InstanceFilterDefinition, InstanceFilterOperator, InstanceKey,
+  KeySet, PropertiesFieldDescriptor, RegisteredRuleset, RelationshipDirection, Ruleset, RuleTypes,
 } from "@bentley/presentation-common";
 import { Presentation, PresentationManager } from "@bentley/presentation-frontend";
 import { initialize, resetBackend, terminate } from "../IntegrationTests";
@@ -212,6 +212,65 @@ describe("Hierarchies", () => {
 
   });
 
+  describe("Filtering hierarchy levels", () => {
+
+    it("filters only the requested hierarchy level", async () => {
+      const ruleset: Ruleset = {
+        id: faker.random.word(),
+        rules: [{
+          ruleType: RuleTypes.RootNodes,
+          specifications: [{
+            specType: ChildNodeSpecificationTypes.InstanceNodesOfSpecificClasses,
+            classes: { schemaName: "BisCore", classNames: ["Subject"] },
+            instanceFilter: "this.Parent = NULL",
+            groupByClass: false,
+            groupByLabel: false,
+          }],
+        }, {
+          ruleType: RuleTypes.ChildNodes,
+          condition: `ParentNode.IsOfClass("Element", "BisCore")`,
+          specifications: [{
+            specType: ChildNodeSpecificationTypes.RelatedInstanceNodes,
+            relationshipPaths: [{
+              relationship: { schemaName: "BisCore", className: "ElementOwnsChildElements" },
+              direction: RelationshipDirection.Forward,
+            }],
+            groupByClass: false,
+            groupByLabel: false,
+          }],
+        }],
+      };
+      /*
+      [BisCore:Subject] 0x1
+        [BisCore:LinkPartition] 0xe "BisCore.RealityDataSources"
+        [BisCore:DefinitionPartition] 0x10 "BisCore.DictionaryModel"
+        [BisCore:Subject] 0x12 "DgnV8Bridge:D:\Temp\Properties_60InstancesWithUrl2.dgn, Default"
+          [BisCore:GroupInformationPartition] 0x13 "Converted Groups"
+          ...
+          [BisCore:Subject] 0x1b "Properties_60InstancesWithUrl2"
+      the filter only accepts the 0x12 subject, but none of its children
+      */
+      const codeValueField: PropertiesFieldDescriptor = {
+        type: FieldDescriptorType.Properties,
+        pathFromSelectToPropertyClass: [],
+        properties: [{ class: "BisCore:Element", name: "CodeValue" }],
+      };
+      const instanceFilter: InstanceFilterDefinition = {
+        conditions: [
+          { field: codeValueField, operator: InstanceFilterOperator.Greater, value: "DgnV8Bridge" },
+          { field: codeValueField, operator: InstanceFilterOperator.Less, value: "E" },
+        ],
+      };
+      const rootNodes = await Presentation.presentation.getNodes({ imodel, rulesetOrId: ruleset });
+      expect(rootNodes).to.have.lengthOf(1);
+
+      const filteredNodes = await Presentation.presentation.getNodes({ imodel, rulesetOrId: ruleset, parentKey: rootNodes[0].key, instanceFilter });
+      expect(filteredNodes.map((node) => (node.key as ECInstancesNodeKey).instanceKeys[0].id)).to.deep.eq(["0x12"]);
+      expect(filteredNodes[0].hasChildren).to.be.true;
+    });
+
+  });
+
   describe("Multiple backends for one frontend", async () => {
 
     let frontend: PresentationManager;
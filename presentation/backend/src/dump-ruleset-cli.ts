@@ -0,0 +1,33 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+
+/* eslint-disable no-console */
+import * as fs from "fs";
+import * as path from "path";
+import { Ruleset, RulesetsFactory } from "@bentley/presentation-common";
+
+const [rulesetPath, ...baseRulesetPaths] = process.argv.slice(2);
+if (!rulesetPath) {
+  console.log("Usage: dump-ruleset <ruleset path> [<base ruleset path or directory> ...]");
+  process.exit(1);
+}
+
+const readRuleset = (filePath: string): Ruleset => JSON.parse(fs.readFileSync(filePath, "utf8"));
+const readRulesets = (rulesetsPath: string): Ruleset[] => {
+  if (!fs.statSync(rulesetsPath).isDirectory())
+    return [readRuleset(rulesetsPath)];
+  return fs.readdirSync(rulesetsPath)
+    .filter((fileName) => fileName.endsWith(".json"))
+    .map((fileName) => readRuleset(path.join(rulesetsPath, fileName)));
+};
+
+const baseRulesets = baseRulesetPaths.reduce<Ruleset[]>((rulesets, baseRulesetPath) => [...rulesets, ...readRulesets(baseRulesetPath)], []);
+try {
+  const compositeRuleset = new RulesetsFactory().createCompositeRuleset(readRuleset(rulesetPath), (id) => baseRulesets.find((r) => r.id === id));
+  console.log(JSON.stringify(compositeRuleset, undefined, 2));
+} catch (e) {
+  console.error(e.message);
+  process.exit(1);
+}
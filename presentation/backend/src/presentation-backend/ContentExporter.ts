@@ -0,0 +1,322 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module Core
+ */
+
+import * as zlib from "zlib";
+import {
+  ContentExportFormat, Descriptor, DisplayValue, Field, Item, PresentationError, PresentationStatus, Value, ValuesDictionary,
+} from "@bentley/presentation-common";
+
+/**
+ * A column of exported content. Nested content fields are flattened into
+ * a column per (possibly nested) primitive field.
+ * @internal
+ */
+export interface ContentExportColumn {
+  /** Unique column name built from names of fields on the path to the column's field */
+  name: string;
+  /** Column header built from labels of fields on the path to the column's field */
+  label: string;
+  /** Names of fields from descriptor's root field to the column's field */
+  fieldNamesPath: string[];
+}
+
+/**
+ * Value of a single exported content cell
+ * @internal
+ */
+export type ContentExportCellValue = Value | DisplayValue | ContentExportCellValue[];
+
+/**
+ * Create a flat list of export columns from the given content descriptor.
+ * @internal
+ */
+export function createContentExportColumns(descriptor: Descriptor): ContentExportColumn[] {
+  const columns: ContentExportColumn[] = [];
+  const addColumns = (fields: Field[], parent?: ContentExportColumn) => {
+    for (const field of fields) {
+      const column: ContentExportColumn = {
+        name: parent ? `${parent.name}.${field.name}` : field.name,
+        label: parent ? `${parent.label} - ${field.label}` : field.label,
+        fieldNamesPath: parent ? [...parent.fieldNamesPath, field.name] : [field.name],
+      };
+      if (field.isNestedContentField())
+        addColumns(field.nestedFields, column);
+      else
+        columns.push(column);
+    }
+  };
+  addColumns(descriptor.fields);
+  return columns;
+}
+
+/**
+ * Get value of a (possibly nested) field at the given path. Values of fields nested under
+ * multiple related instances are returned as an array with a value per related instance.
+ */
+function getCellValue(values: ValuesDictionary<Value>, displayValues: ValuesDictionary<DisplayValue>, mergedFieldNames: string[], fieldNamesPath: string[], rawValues: boolean): ContentExportCellValue {
+  const [fieldName, ...nestedFieldNamesPath] = fieldNamesPath;
+  if (-1 !== mergedFieldNames.indexOf(fieldName)) {
+    // merged values have no raw value - only a display value saying that values vary
+    return rawValues ? undefined : displayValues[fieldName];
+  }
+  if (0 === nestedFieldNamesPath.length)
+    return rawValues ? values[fieldName] : displayValues[fieldName];
+
+  const nestedValues = values[fieldName];
+  if (!Value.isNestedContent(nestedValues))
+    return undefined;
+  const cellValues = nestedValues
+    .map((nestedValue) => getCellValue(nestedValue.values, nestedValue.displayValues, nestedValue.mergedFieldNames, nestedFieldNamesPath, rawValues))
+    .filter((value) => value !== undefined);
+  if (0 === cellValues.length)
+    return undefined;
+  return (1 === cellValues.length) ? cellValues[0] : cellValues;
+}
+
+/**
+ * Get values of all export columns for the given content item.
+ * @internal
+ */
+export function getContentExportRow(item: Item, columns: ContentExportColumn[], rawValues: boolean): ContentExportCellValue[] {
+  return columns.map((column) => getCellValue(item.values, item.displayValues, item.mergedFieldNames, column.fieldNamesPath, rawValues));
+}
+
+function isPrimitiveCellValue(value: unknown): value is string | number | boolean | undefined {
+  return value === undefined || value === null || typeof value !== "object";
+}
+
+/** Convert cell value to text for formats that don't support structured values */
+function toCellText(value: unknown): string {
+  if (value === undefined || value === null)
+    return "";
+  if (typeof value === "string")
+    return value;
+  if (typeof value === "number" || typeof value === "boolean")
+    return value.toString();
+  if (Array.isArray(value) && value.every(isPrimitiveCellValue))
+    return value.map(toCellText).join("; ");
+  return JSON.stringify(value);
+}
+
+async function write(stream: NodeJS.WritableStream, chunk: string | Buffer): Promise<void> {
+  if (stream.write(chunk))
+    return;
+  await new Promise((resolve, reject) => {
+    const onDrain = () => { stream.removeListener("error", onError); resolve(); };
+    const onError = (e: Error) => { stream.removeListener("drain", onDrain); reject(e); };
+    stream.once("drain", onDrain);
+    stream.once("error", onError);
+  });
+}
+
+interface ContentExportWriter {
+  writeHeader(columns: ContentExportColumn[]): Promise<void>;
+  writeRow(columns: ContentExportColumn[], row: ContentExportCellValue[]): Promise<void>;
+  finish(): Promise<void>;
+}
+
+/** Writes RFC 4180 compliant comma separated values */
+class CsvWriter implements ContentExportWriter {
+  public constructor(private _stream: NodeJS.WritableStream) { }
+  private static escape(text: string): string {
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, `""`)}"` : text;
+  }
+  public async writeHeader(columns: ContentExportColumn[]) {
+    await write(this._stream, `${columns.map((column) => CsvWriter.escape(column.label)).join(",")}\r\n`);
+  }
+  public async writeRow(_columns: ContentExportColumn[], row: ContentExportCellValue[]) {
+    await write(this._stream, `${row.map((value) => CsvWriter.escape(toCellText(value))).join(",")}\r\n`);
+  }
+  public async finish() { }
+}
+
+/** Writes a JSON object per row, keyed by column name */
+class JsonLinesWriter implements ContentExportWriter {
+  public constructor(private _stream: NodeJS.WritableStream) { }
+  public async writeHeader() { }
+  public async writeRow(columns: ContentExportColumn[], row: ContentExportCellValue[]) {
+    const json: { [columnName: string]: ContentExportCellValue } = {};
+    columns.forEach((column, index) => {
+      if (row[index] !== undefined)
+        json[column.name] = row[index];
+    });
+    await write(this._stream, `${JSON.stringify(json)}\n`);
+  }
+  public async finish() { }
+}
+
+/**
+ * Writes an Office Open XML workbook with a single worksheet. The worksheet is kept in memory
+ * until [[finish]] is called, because zip entry sizes have to be known up-front.
+ */
+class XlsxWriter implements ContentExportWriter {
+  private _rows: string[] = [];
+  public constructor(private _stream: NodeJS.WritableStream) { }
+  private static escape(text: string): string {
+    // eslint-disable-next-line no-control-regex
+    return text.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+  }
+  private static createCell(value: ContentExportCellValue): string {
+    if (typeof value === "number" && isFinite(value))
+      return `<c><v>${value}</v></c>`;
+    if (typeof value === "boolean")
+      return `<c t="b"><v>${value ? 1 : 0}</v></c>`;
+    return `<c t="inlineStr"><is><t xml:space="preserve">${XlsxWriter.escape(toCellText(value))}</t></is></c>`;
+  }
+  public async writeHeader(columns: ContentExportColumn[]) {
+    this._rows.push(`<row>${columns.map((column) => XlsxWriter.createCell(column.label)).join("")}</row>`);
+  }
+  public async writeRow(_columns: ContentExportColumn[], row: ContentExportCellValue[]) {
+    this._rows.push(`<row>${row.map((value) => XlsxWriter.createCell(value)).join("")}</row>`);
+  }
+  public async finish() {
+    const xmlHeader = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`;
+    const archive = createZipArchive([{
+      name: "[Content_Types].xml",
+      content: `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>`
+        + `<Default Extension="xml" ContentType="application/xml"/>`
+        + `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>`
+        + `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        + `</Types>`,
+    }, {
+      name: "_rels/.rels",
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>`
+        + `</Relationships>`,
+    }, {
+      name: "xl/workbook.xml",
+      content: `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`
+        + `<sheets><sheet name="Content" sheetId="1" r:id="rId1"/></sheets>`
+        + `</workbook>`,
+    }, {
+      name: "xl/_rels/workbook.xml.rels",
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>`
+        + `</Relationships>`,
+    }, {
+      name: "xl/worksheets/sheet1.xml",
+      content: `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+        + `<sheetData>${this._rows.join("")}</sheetData>`
+        + `</worksheet>`,
+    }]);
+    this._rows = [];
+    await write(this._stream, archive);
+  }
+}
+
+let crcTable: number[] | undefined;
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; ++n) {
+      let c = n;
+      for (let k = 0; k < 8; ++k)
+        c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+      crcTable.push(c >>> 0);
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (const byte of data)
+    crc = crcTable[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/** Create a zip archive with deflated entries */
+function createZipArchive(entries: Array<{ name: string, content: string }>): Buffer {
+  const dosDate = (1 << 5) | 1; // 1980-01-01
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const data = Buffer.from(entry.content, "utf8");
+    const compressed = zlib.deflateRawSync(data);
+    const crc = crc32(data);
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0);
+    localHeader.writeUInt16LE(20, 4); // version needed to extract
+    localHeader.writeUInt16LE(0x0800, 6); // UTF-8 names
+    localHeader.writeUInt16LE(8, 8); // deflate
+    localHeader.writeUInt16LE(0, 10); // time
+    localHeader.writeUInt16LE(dosDate, 12);
+    localHeader.writeUInt32LE(crc, 14);
+    localHeader.writeUInt32LE(compressed.length, 18);
+    localHeader.writeUInt32LE(data.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+    localHeader.writeUInt16LE(0, 28); // extra field length
+    localParts.push(localHeader, name, compressed);
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0);
+    centralHeader.writeUInt16LE(20, 4); // version made by
+    centralHeader.writeUInt16LE(20, 6); // version needed to extract
+    centralHeader.writeUInt16LE(0x0800, 8);
+    centralHeader.writeUInt16LE(8, 10);
+    centralHeader.writeUInt16LE(0, 12);
+    centralHeader.writeUInt16LE(dosDate, 14);
+    centralHeader.writeUInt32LE(crc, 16);
+    centralHeader.writeUInt32LE(compressed.length, 20);
+    centralHeader.writeUInt32LE(data.length, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    centralHeader.writeUInt32LE(offset, 42); // other fields (extra, comment, disk, attributes) are all zeros
+    centralParts.push(centralHeader, name);
+
+    offset += localHeader.length + name.length + compressed.length;
+  }
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Writes content items to a stream in one of [[ContentExportFormat]] formats.
+ * @internal
+ */
+export class ContentExporter {
+  private _writer: ContentExportWriter;
+  private _rawValues: boolean;
+  private _columns?: ContentExportColumn[];
+  private _rowsCount = 0;
+
+  public constructor(stream: NodeJS.WritableStream, format: ContentExportFormat, rawValues?: boolean) {
+    this._rawValues = !!rawValues;
+    switch (format) {
+      case ContentExportFormat.Csv: this._writer = new CsvWriter(stream); break;
+      case ContentExportFormat.Xlsx: this._writer = new XlsxWriter(stream); break;
+      case ContentExportFormat.JsonLines: this._writer = new JsonLinesWriter(stream); break;
+      default: throw new PresentationError(PresentationStatus.InvalidArgument, `Unsupported content export format: ${format}`);
+    }
+  }
+
+  /** Number of content items written so far */
+  public get rowsCount() { return this._rowsCount; }
+
+  /** Write content items. Export columns are created from the descriptor on first call. */
+  public async writeItems(descriptor: Descriptor, items: Item[]): Promise<void> {
+    if (!this._columns) {
+      this._columns = createContentExportColumns(descriptor);
+      await this._writer.writeHeader(this._columns);
+    }
+    for (const item of items) {
+      await this._writer.writeRow(this._columns, getContentExportRow(item, this._columns, this._rawValues));
+      ++this._rowsCount;
+    }
+  }
+
+  /** Finish writing content. Doesn't end the stream. */
+  public async finish(): Promise<void> {
+    await this._writer.finish();
+  }
+}
@@ -0,0 +1,217 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module Core
+ */
+
+import { Id64String } from "@bentley/bentleyjs-core";
+import { ECClass, Enumeration, PrimitiveType, Property, PropertyTypeUtils } from "@bentley/ecschema-metadata";
+import { IModelDb, IModelSchemaLoader } from "@bentley/imodeljs-backend";
+import { ECJsNames } from "@bentley/imodeljs-common";
+import {
+  ContentValueChange, Field, InstanceKey, Item, NestedContentField, PresentationError, PresentationStatus, PropertiesField, PropertyInfo, Value,
+} from "@bentley/presentation-common";
+
+interface InstanceChange {
+  key: InstanceKey;
+  isAspect: boolean;
+  properties: { [jsPropertyName: string]: Value };
+}
+
+/**
+ * Get keys of ECInstances that own values of the given field in the given content item. Values of
+ * fields nested in [[NestedContentField]]s are owned by related instances, so nested content values
+ * are followed down to the field.
+ * @internal
+ */
+export function getContentValueOwnerKeys(item: Item, field: Field): InstanceKey[] {
+  const nestingPath: NestedContentField[] = [];
+  for (let parent = field.parent; parent; parent = parent.parent)
+    nestingPath.unshift(parent);
+
+  let owners: Array<{ primaryKeys: InstanceKey[], values: { [fieldName: string]: Value }, mergedFieldNames: string[] }> = [item];
+  for (const nestedField of nestingPath) {
+    const nestedOwners: typeof owners = [];
+    owners.forEach((owner) => {
+      if (owner.mergedFieldNames.includes(nestedField.name))
+        throw new PresentationError(PresentationStatus.InvalidArgument, `Unable to determine owners of merged field "${nestedField.name}" values`);
+      const nestedValue = owner.values[nestedField.name];
+      if (nestedValue !== undefined && Value.isNestedContent(nestedValue))
+        nestedOwners.push(...nestedValue);
+    });
+    owners = nestedOwners;
+  }
+  owners.forEach((owner) => {
+    if (owner.mergedFieldNames.includes(field.name))
+      throw new PresentationError(PresentationStatus.InvalidArgument, `Unable to determine owners of merged field "${field.name}" values`);
+  });
+  return owners.reduce<InstanceKey[]>((keys, owner) => [...keys, ...owner.primaryKeys], []);
+}
+
+/**
+ * Maps content value changes to properties of ECInstances that own the values, validates the new
+ * values against ECProperties and writes them to the iModel.
+ * @internal
+ */
+export class ContentValuesUpdater {
+  private _imodel: IModelDb;
+  private _schemaLoader: IModelSchemaLoader;
+  private _classesCache = new Map<string, ECClass | undefined>();
+
+  public constructor(imodel: IModelDb) {
+    this._imodel = imodel;
+    this._schemaLoader = new IModelSchemaLoader(imodel);
+  }
+
+  /**
+   * Validate the changes and, if all of them are valid, update the owning elements and element aspects.
+   * @returns Keys of updated ECInstances
+   */
+  public update(changes: ContentValueChange[]): InstanceKey[] {
+    if (this._imodel.isReadonly)
+      throw new PresentationError(PresentationStatus.InvalidArgument, "Unable to update content values of a read-only iModel");
+
+    const instanceChanges = new Map<Id64String, InstanceChange>();
+    changes.forEach((change) => {
+      for (const key of getContentValueOwnerKeys(change.item, change.field)) {
+        let instanceChange = instanceChanges.get(key.id);
+        if (!instanceChange) {
+          instanceChange = { key, isAspect: this.isElementAspect(key.className), properties: {} };
+          instanceChanges.set(key.id, instanceChange);
+        }
+        const { property, propertyInfo } = this.getProperty(key.className, change.field);
+        validatePropertyValue(property, propertyInfo, change.value);
+        instanceChange.properties[ECJsNames.toJsName(property.name)] = change.value;
+      }
+    });
+
+    const updatedKeys: InstanceKey[] = [];
+    instanceChanges.forEach(({ key, isAspect, properties }) => {
+      if (isAspect)
+        this._imodel.elements.updateAspect({ ...this._imodel.elements.getAspect(key.id).toJSON(), ...properties });
+      else
+        this._imodel.elements.updateElement({ ...this._imodel.elements.getElementProps(key.id), ...properties });
+      updatedKeys.push(key);
+    });
+    return updatedKeys;
+  }
+
+  private isElementAspect(className: string): boolean {
+    const ecClass = this.getClass(className);
+    if (ecClass.isSync(this.getClass("BisCore:ElementAspect")))
+      return true;
+    if (ecClass.isSync(this.getClass("BisCore:Element")))
+      return false;
+    throw new PresentationError(PresentationStatus.InvalidArgument, `Unable to update instance of class "${className}": only elements and element aspects can be updated`);
+  }
+
+  private getProperty(className: string, field: PropertiesField): { property: Property, propertyInfo: PropertyInfo } {
+    const ecClass = this.getClass(className);
+    for (const { property: propertyInfo } of field.properties) {
+      const propertyClass = this.findClass(propertyInfo.classInfo.name);
+      const property = (propertyClass && ecClass.isSync(propertyClass)) ? ecClass.getPropertySync(propertyInfo.name, true) : undefined;
+      if (property)
+        return { property, propertyInfo };
+    }
+    throw new PresentationError(PresentationStatus.InvalidArgument, `Field "${field.name}" has no property of class "${className}"`);
+  }
+
+  private getClass(fullClassName: string): ECClass {
+    const ecClass = this.findClass(fullClassName);
+    if (!ecClass)
+      throw new PresentationError(PresentationStatus.InvalidArgument, `Class "${fullClassName}" does not exist in the iModel`);
+    return ecClass;
+  }
+
+  private findClass(fullClassName: string): ECClass | undefined {
+    if (this._classesCache.has(fullClassName))
+      return this._classesCache.get(fullClassName);
+    const [schemaName, className] = fullClassName.split(/[:.]/);
+    const item = this._schemaLoader.tryGetSchema(schemaName)?.getItemSync(className);
+    const ecClass = (item instanceof ECClass) ? item : undefined;
+    this._classesCache.set(fullClassName, ecClass);
+    return ecClass;
+  }
+}
+
+const normalizeFullName = (fullName: string) => fullName.replace(".", ":");
+
+const isPoint = (value: Value, is3d: boolean) => {
+  if (typeof value !== "object" || Array.isArray(value))
+    return false;
+  const coordinates = is3d ? ["x", "y", "z"] : ["x", "y"];
+  return coordinates.every((coordinate) => typeof value[coordinate] === "number");
+};
+
+function validatePropertyValue(property: Property, propertyInfo: PropertyInfo, value: Value) {
+  const fail = (reason: string) => {
+    throw new PresentationError(PresentationStatus.InvalidArgument, `Invalid value for property "${property.fullName}": ${reason}`);
+  };
+
+  if (property.isReadOnly)
+    fail("the property is read-only");
+  if (!property.isPrimitive() || property.isArray())
+    fail("only primitive properties can be updated");
+  if (value === undefined)
+    fail("value is required");
+
+  switch (PropertyTypeUtils.getPrimitiveType(property.propertyType)) {
+    case PrimitiveType.Boolean:
+      if (typeof value !== "boolean")
+        fail("expected a boolean");
+      break;
+    case PrimitiveType.Integer:
+    case PrimitiveType.Long:
+      if (!Number.isInteger(value as number))
+        fail("expected an integer");
+      break;
+    case PrimitiveType.Double:
+      if (typeof value !== "number" || !isFinite(value))
+        fail("expected a number");
+      break;
+    case PrimitiveType.String:
+      if (typeof value !== "string")
+        fail("expected a string");
+      break;
+    case PrimitiveType.DateTime:
+      if (typeof value !== "string" || isNaN(Date.parse(value)))
+        fail("expected a date string");
+      break;
+    case PrimitiveType.Point2d:
+      if (!isPoint(value, false))
+        fail("expected a 2d point");
+      break;
+    case PrimitiveType.Point3d:
+      if (!isPoint(value, true))
+        fail("expected a 3d point");
+      break;
+    default:
+      fail("properties of this type can't be updated");
+  }
+
+  if (property.isEnumeration() && property.enumeration) {
+    const enumeration = property.class.schema.lookupItemSync<Enumeration>(property.enumeration.fullName);
+    if (enumeration && enumeration.isStrict && !enumeration.enumerators.some((enumerator) => enumerator.value === value))
+      fail(`the value is not one of "${enumeration.fullName}" enumerators`);
+  }
+
+  if (property.isPrimitive()) {
+    if (typeof value === "number" && property.minValue !== undefined && value < property.minValue)
+      fail(`the value is less than ${property.minValue}`);
+    if (typeof value === "number" && property.maxValue !== undefined && value > property.maxValue)
+      fail(`the value is greater than ${property.maxValue}`);
+    if (typeof value === "string" && property.minLength !== undefined && value.length < property.minLength)
+      fail(`the value is shorter than ${property.minLength} characters`);
+    if (typeof value === "string" && property.maxLength !== undefined && value.length > property.maxLength)
+      fail(`the value is longer than ${property.maxLength} characters`);
+  }
+
+  // values are expected in persistence units of the KindOfQuantity the field was created with, so a mismatch
+  // means the field doesn't describe this property
+  const kindOfQuantity = property.getKindOfQuantitySync();
+  const kindOfQuantityName = kindOfQuantity ? normalizeFullName(kindOfQuantity.fullName) : undefined;
+  if (kindOfQuantityName !== propertyInfo.kindOfQuantity?.name)
+    fail(`KindOfQuantity of the field doesn't match KindOfQuantity "${kindOfQuantityName ?? ""}" of the property`);
+}
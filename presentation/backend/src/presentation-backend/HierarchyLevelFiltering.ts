@@ -0,0 +1,130 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module Core
+ */
+
+import { Id64String } from "@bentley/bentleyjs-core";
+import {
+  ChildNodeRule, ChildNodeSpecification, ChildNodeSpecificationTypes, InstanceFilterDefinition, NodeKey, RootNodeRule, Rule, Ruleset, RuleTypes,
+  SubCondition,
+} from "@bentley/presentation-common";
+
+/**
+ * Create a copy of the given ruleset with the filter applied to instance node specifications that
+ * produce the requested hierarchy level - the root level, if `parentKey` is not specified, or children
+ * of the node with given key. Hierarchy levels below the requested one stay unfiltered, so the
+ * filtered nodes report their children the same way as without the filter.
+ *
+ * To keep the levels below unfiltered, every child node rule is split into a filtered copy that's
+ * only used for the parent node and an unfiltered copy for all other nodes. The parent node is
+ * identified by its type and instance IDs, grouping class or label, so a descendant node that
+ * matches the same condition (only possible in recursive hierarchies) gets filtered children as well.
+ *
+ * Custom node and custom query specifications are not filtered.
+ *
+ * @internal
+ */
+export const createHierarchyLevelFilteredRuleset = (ruleset: Ruleset, filter: InstanceFilterDefinition, parentKey?: NodeKey): Ruleset => {
+  const filterExpression = InstanceFilterDefinition.toECExpression(filter);
+  if (!parentKey) {
+    return {
+      ...ruleset,
+      rules: ruleset.rules.map((rule: Rule): Rule => (rule.ruleType === RuleTypes.RootNodes) ? filterNavigationRule(rule, filterExpression) : rule),
+    };
+  }
+
+  const parentNodeCondition = createParentNodeCondition(parentKey);
+  const rules: Rule[] = [];
+  for (const rule of ruleset.rules) {
+    switch (rule.ruleType) {
+      case RuleTypes.RootNodes:
+        rules.push(splitNestedRules(rule, filterExpression, parentNodeCondition));
+        break;
+      case RuleTypes.ChildNodes:
+        rules.push(...splitChildNodeRule(rule, filterExpression, parentNodeCondition));
+        break;
+      default:
+        rules.push(rule);
+    }
+  }
+  return { ...ruleset, rules };
+};
+
+/** Split the rule into a filtered copy used for children of the parent node and an unfiltered copy used for children of all other nodes */
+function splitChildNodeRule(rule: ChildNodeRule, filterExpression: string, parentNodeCondition: string): ChildNodeRule[] {
+  const unfilteredRule = splitNestedRules(rule, filterExpression, parentNodeCondition);
+  return [
+    filterNavigationRule({ ...unfilteredRule, condition: joinConditions(rule.condition, parentNodeCondition) }, filterExpression),
+    { ...unfilteredRule, condition: joinConditions(rule.condition, `Not (${parentNodeCondition})`) },
+  ];
+}
+
+/** Split nested rules of the rule specifications, which create children of the nodes produced by the rule */
+function splitNestedRules<TRule extends RootNodeRule | ChildNodeRule | SubCondition>(rule: TRule, filterExpression: string, parentNodeCondition: string): TRule {
+  const splitSpecification = (spec: ChildNodeSpecification): ChildNodeSpecification => {
+    if (!spec.nestedRules)
+      return spec;
+    const nestedRules: ChildNodeRule[] = [];
+    for (const nestedRule of spec.nestedRules)
+      nestedRules.push(...splitChildNodeRule(nestedRule, filterExpression, parentNodeCondition));
+    return { ...spec, nestedRules };
+  };
+  return {
+    ...rule,
+    ...(rule.specifications ? { specifications: rule.specifications.map(splitSpecification) } : undefined),
+    ...(rule.subConditions ? { subConditions: rule.subConditions.map((subCondition) => splitNestedRules(subCondition, filterExpression, parentNodeCondition)) } : undefined),
+  };
+}
+
+/** Apply the filter to instance node specifications of the rule. Nested rules of the specifications are left as they are. */
+function filterNavigationRule<TRule extends RootNodeRule | ChildNodeRule | SubCondition>(rule: TRule, filterExpression: string): TRule {
+  return {
+    ...rule,
+    ...(rule.specifications ? { specifications: rule.specifications.map((spec) => filterSpecification(spec, filterExpression)) } : undefined),
+    ...(rule.subConditions ? { subConditions: rule.subConditions.map((subCondition) => filterNavigationRule(subCondition, filterExpression)) } : undefined),
+  };
+}
+
+function filterSpecification(spec: ChildNodeSpecification, filterExpression: string): ChildNodeSpecification {
+  if (spec.specType === ChildNodeSpecificationTypes.InstanceNodesOfSpecificClasses || spec.specType === ChildNodeSpecificationTypes.RelatedInstanceNodes)
+    return { ...spec, instanceFilter: spec.instanceFilter ? `(${spec.instanceFilter}) AndAlso (${filterExpression})` : filterExpression };
+  return spec;
+}
+
+/** Create a child node rule condition that's only met for the node with given key */
+function createParentNodeCondition(key: NodeKey): string {
+  const conditions = [`ParentNode.Type = ${createStringLiteral(key.type)}`];
+  if (NodeKey.isInstancesNodeKey(key)) {
+    const instanceConditions = key.instanceKeys.map((instanceKey) => `ParentNode.InstanceId = ${createIdLiteral(instanceKey.id)}`);
+    conditions.push((instanceConditions.length === 1) ? instanceConditions[0] : `(${instanceConditions.join(" OrElse ")})`);
+  } else if (NodeKey.isClassGroupingNodeKey(key) || NodeKey.isPropertyGroupingNodeKey(key)) {
+    const [schemaName, className] = key.className.split(/[:.]/);
+    conditions.push(`ParentNode.SchemaName = ${createStringLiteral(schemaName)}`, `ParentNode.ClassName = ${createStringLiteral(className)}`);
+  } else if (NodeKey.isLabelGroupingNodeKey(key)) {
+    conditions.push(`ParentNode.Label = ${createStringLiteral(key.label)}`);
+  }
+  return conditions.join(" AndAlso ");
+}
+
+const joinConditions = (condition: string | undefined, additionalCondition: string) => condition ? `(${condition}) AndAlso (${additionalCondition})` : additionalCondition;
+
+const createStringLiteral = (value: string) => `"${value.replace(/"/g, "\"\"")}"`;
+
+/** Create a decimal integer literal for the ID, which doesn't lose precision for IDs that exceed the safe integer range */
+const createIdLiteral = (id: Id64String) => {
+  const digits = [0]; // least significant digit first
+  for (const hexDigit of id.substr(2)) {
+    let carry = parseInt(hexDigit, 16);
+    for (let i = 0; i < digits.length; ++i) {
+      const value = digits[i] * 16 + carry;
+      digits[i] = value % 10;
+      carry = Math.floor(value / 10);
+    }
+    for (; carry > 0; carry = Math.floor(carry / 10))
+      digits.push(carry % 10);
+  }
+  return digits.reverse().join("");
+};
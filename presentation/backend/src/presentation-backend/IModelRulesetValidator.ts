@@ -0,0 +1,339 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module Core
+ */
+
+import { ECClass, RelationshipClass, RelationshipConstraint, SchemaItemKey } from "@bentley/ecschema-metadata";
+import { IModelDb, IModelSchemaLoader } from "@bentley/imodeljs-backend";
+import {
+  appendRulesetPath, ChildNodeRule, ChildNodeSpecification, ContentModifiersList, ContentSpecification, GroupingSpecificationTypes,
+  InstanceLabelOverrideValueSpecification, InstanceLabelOverrideValueSpecificationType, MultiSchemaClassesSpecification, PropertySpecification,
+  RelatedInstanceSpecification, RelatedPropertiesSpecification, RelationshipDirection, RelationshipStepSpecification, Rule, Ruleset,
+  RulesetValidationIssue, RulesetValidationIssueSeverity, RulesetValidator, RuleTypes, SingleSchemaClassSpecification, SubCondition,
+} from "@bentley/presentation-common";
+
+/**
+ * Properties for creating [[IModelRulesetValidator]]
+ * @alpha
+ */
+export interface IModelRulesetValidatorProps {
+  /** iModel whose ECSchemas rulesets should be validated against */
+  imodel: IModelDb;
+}
+
+/**
+ * Validates presentation rulesets against ECSchemas of an iModel. In addition to the static checks done by
+ * [RulesetValidator]($presentation-common), reports:
+ * - schemas, classes and properties that don't exist in the iModel,
+ * - relationships that can't be followed in the specified direction or to the specified target class.
+ *
+ * @alpha
+ */
+export class IModelRulesetValidator {
+  private _staticValidator: RulesetValidator;
+  private _schemaLoader: IModelSchemaLoader;
+
+  /** Constructor */
+  public constructor(props: IModelRulesetValidatorProps) {
+    this._staticValidator = new RulesetValidator({ jsonSchema: require("@bentley/presentation-common/Ruleset.schema.json") }); // eslint-disable-line @typescript-eslint/no-var-requires
+    this._schemaLoader = new IModelSchemaLoader(props.imodel);
+  }
+
+  /** Validate the given ruleset and get a list of found issues. The list is empty if the ruleset is valid. */
+  public validate(ruleset: Ruleset): RulesetValidationIssue[] {
+    const issues = this._staticValidator.validate(ruleset);
+    new RulesetECSchemaChecker(this._schemaLoader, issues).checkRuleset(ruleset);
+    return issues;
+  }
+}
+
+const createError = (path: string, message: string): RulesetValidationIssue => ({ severity: RulesetValidationIssueSeverity.Error, path, message });
+const createWarning = (path: string, message: string): RulesetValidationIssue => ({ severity: RulesetValidationIssueSeverity.Warning, path, message });
+
+const toArray = <T>(value: T | T[] | undefined): T[] => {
+  if (value === undefined)
+    return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+const getClassNames = (classes: ECClass[]) => classes.map((ecClass) => `"${ecClass.fullName}"`).join(", ");
+
+/** Walks through the ruleset and checks every ECSchema-related part of it against schemas in the iModel */
+class RulesetECSchemaChecker {
+  private _classesCache = new Map<string, ECClass | undefined>();
+
+  public constructor(private _schemaLoader: IModelSchemaLoader, private _issues: RulesetValidationIssue[]) {
+  }
+
+  public checkRuleset(ruleset: Ruleset) {
+    if (ruleset.supportedSchemas && !ruleset.supportedSchemas.isExclude) {
+      ruleset.supportedSchemas.schemaNames.forEach((schemaName, index) => {
+        if (!this._schemaLoader.tryGetSchema(schemaName))
+          this._issues.push(createWarning(appendRulesetPath("supportedSchemas.schemaNames", index), `Schema "${schemaName}" does not exist in the iModel`));
+      });
+    }
+    if (Array.isArray(ruleset.rules))
+      ruleset.rules.forEach((rule, index) => this.checkRule(rule, appendRulesetPath("rules", index)));
+  }
+
+  private checkRule(rule: Rule, path: string) {
+    switch (rule.ruleType) {
+      case RuleTypes.RootNodes:
+      case RuleTypes.ChildNodes:
+        this.checkChildNodeRule(rule, path);
+        break;
+      case RuleTypes.Content:
+        toArray(rule.specifications).forEach((spec, index) => this.checkContentSpecification(spec, appendRulesetPath(appendRulesetPath(path, "specifications"), index)));
+        break;
+      case RuleTypes.ContentModifier: {
+        const modifierClass = rule.class ? this.checkSingleClass(rule.class, appendRulesetPath(path, "class")) : undefined;
+        this.checkContentModifiers(rule, path, modifierClass ? [modifierClass] : []);
+        break;
+      }
+      case RuleTypes.Grouping: {
+        const groupedClass = this.checkSingleClass(rule.class, appendRulesetPath(path, "class"));
+        toArray(rule.groups).forEach((group, index) => {
+          const groupPath = appendRulesetPath(appendRulesetPath(path, "groups"), index);
+          if (group.specType === GroupingSpecificationTypes.Class && group.baseClass)
+            this.checkSingleClass(group.baseClass, appendRulesetPath(groupPath, "baseClass"));
+          if (group.specType === GroupingSpecificationTypes.Property && groupedClass)
+            this.checkProperty([groupedClass], group.propertyName, appendRulesetPath(groupPath, "propertyName"));
+        });
+        break;
+      }
+      case RuleTypes.PropertySorting:
+      case RuleTypes.DisabledSorting: {
+        const sortedClass = rule.class ? this.checkSingleClass(rule.class, appendRulesetPath(path, "class")) : undefined;
+        if (rule.ruleType === RuleTypes.PropertySorting && sortedClass)
+          this.checkProperty([sortedClass], rule.propertyName, appendRulesetPath(path, "propertyName"));
+        break;
+      }
+      case RuleTypes.InstanceLabelOverride: {
+        const labeledClass = this.checkSingleClass(rule.class, appendRulesetPath(path, "class"));
+        if (labeledClass)
+          toArray(rule.values).forEach((value, index) => this.checkLabelOverrideValue(labeledClass, value, appendRulesetPath(appendRulesetPath(path, "values"), index)));
+        break;
+      }
+    }
+  }
+
+  private checkChildNodeRule(rule: ChildNodeRule | SubCondition, path: string) {
+    toArray(rule.specifications).forEach((spec, index) => this.checkChildNodeSpecification(spec, appendRulesetPath(appendRulesetPath(path, "specifications"), index)));
+    toArray(rule.subConditions).forEach((subCondition, index) => this.checkChildNodeRule(subCondition, appendRulesetPath(appendRulesetPath(path, "subConditions"), index)));
+  }
+
+  private checkChildNodeSpecification(spec: ChildNodeSpecification, path: string) {
+    let sourceClasses: ECClass[] | undefined;
+    if ("classes" in spec) {
+      sourceClasses = this.checkMultiClasses(spec.classes, appendRulesetPath(path, "classes"));
+    } else if ("relationshipPaths" in spec) {
+      toArray(spec.relationshipPaths).forEach((relationshipPath, index) => this.checkRelationshipPath(toArray(relationshipPath), appendRulesetPath(appendRulesetPath(path, "relationshipPaths"), index), undefined));
+    } else if ("relationships" in spec || "relatedClasses" in spec) {
+      this.checkRelatedClasses(spec, path);
+    } else if ("queries" in spec) {
+      toArray(spec.queries).forEach((query, index) => this.checkSingleClass(query.class, appendRulesetPath(appendRulesetPath(appendRulesetPath(path, "queries"), index), "class")));
+    }
+    toArray(spec.relatedInstances).forEach((relatedInstance, index) => this.checkRelatedInstance(relatedInstance, appendRulesetPath(appendRulesetPath(path, "relatedInstances"), index), sourceClasses));
+    toArray(spec.nestedRules).forEach((nestedRule, index) => this.checkChildNodeRule(nestedRule, appendRulesetPath(appendRulesetPath(path, "nestedRules"), index)));
+  }
+
+  private checkContentSpecification(spec: ContentSpecification, path: string) {
+    let sourceClasses: ECClass[] | undefined;
+    if ("classes" in spec) {
+      sourceClasses = this.checkMultiClasses(spec.classes, appendRulesetPath(path, "classes"));
+    } else if ("relationshipPaths" in spec) {
+      toArray(spec.relationshipPaths).forEach((relationshipPath, index) => this.checkRelationshipPath(toArray(relationshipPath), appendRulesetPath(appendRulesetPath(path, "relationshipPaths"), index), undefined));
+    } else if ("relationships" in spec || "relatedClasses" in spec) {
+      this.checkRelatedClasses(spec, path);
+    }
+    toArray(spec.relatedInstances).forEach((relatedInstance, index) => this.checkRelatedInstance(relatedInstance, appendRulesetPath(appendRulesetPath(path, "relatedInstances"), index), sourceClasses));
+    this.checkContentModifiers(spec, path, sourceClasses ?? []);
+  }
+
+  private checkContentModifiers(modifiers: ContentModifiersList, path: string, classes: ECClass[]) {
+    toArray(modifiers.relatedProperties).forEach((spec, index) => this.checkRelatedProperties(spec, appendRulesetPath(appendRulesetPath(path, "relatedProperties"), index), classes));
+    toArray(modifiers.propertyOverrides).forEach((spec, index) => this.checkProperty(classes, spec.name, appendRulesetPath(appendRulesetPath(appendRulesetPath(path, "propertyOverrides"), index), "name")));
+    toArray(modifiers.propertiesDisplay).forEach((spec, index) => this.checkProperties(classes, spec.propertyNames, appendRulesetPath(appendRulesetPath(appendRulesetPath(path, "propertiesDisplay"), index), "propertyNames"))); // eslint-disable-line deprecation/deprecation
+    toArray(modifiers.propertyEditors).forEach((spec, index) => this.checkProperty(classes, spec.propertyName, appendRulesetPath(appendRulesetPath(appendRulesetPath(path, "propertyEditors"), index), "propertyName"))); // eslint-disable-line deprecation/deprecation
+  }
+
+  private checkRelatedProperties(spec: RelatedPropertiesSpecification, path: string, sourceClasses: ECClass[]) {
+    let relatedClasses: ECClass[] = [];
+    if ("propertiesSource" in spec) {
+      relatedClasses = this.checkRelationshipPath(toArray(spec.propertiesSource), appendRulesetPath(path, "propertiesSource"), sourceClasses);
+    } else {
+      relatedClasses = this.checkRelatedClasses(spec, path);
+      if (Array.isArray(spec.propertyNames)) // eslint-disable-line deprecation/deprecation
+        this.checkProperties(relatedClasses, spec.propertyNames, appendRulesetPath(path, "propertyNames")); // eslint-disable-line deprecation/deprecation
+      toArray(spec.nestedRelatedProperties).forEach((nestedSpec, index) => this.checkRelatedProperties(nestedSpec, appendRulesetPath(appendRulesetPath(path, "nestedRelatedProperties"), index), relatedClasses));
+    }
+    if (Array.isArray(spec.properties)) {
+      spec.properties.forEach((property: string | PropertySpecification, index) => {
+        const propertyPath = appendRulesetPath(appendRulesetPath(path, "properties"), index);
+        if (typeof property === "string")
+          this.checkProperty(relatedClasses, property, propertyPath);
+        else
+          this.checkProperty(relatedClasses, property.name, appendRulesetPath(propertyPath, "name"));
+      });
+    }
+  }
+
+  private checkRelatedInstance(spec: RelatedInstanceSpecification, path: string, sourceClasses: ECClass[] | undefined) {
+    if ("relationshipPath" in spec) {
+      this.checkRelationshipPath(toArray(spec.relationshipPath), appendRulesetPath(path, "relationshipPath"), sourceClasses);
+      return;
+    }
+    // deprecated related instance specification is a single relationship step with different attribute names
+    const relationship = this.checkSingleClass(spec.relationship, appendRulesetPath(path, "relationship"), true) as RelationshipClass | undefined;
+    const relatedClass = spec.class ? this.checkSingleClass(spec.class, appendRulesetPath(path, "class")) : undefined;
+    if (relationship)
+      this.checkRelationshipStepClasses(relationship, spec.requiredDirection, sourceClasses, relatedClass, path, appendRulesetPath(path, "class"));
+  }
+
+  /** Check relationships and related classes of deprecated specifications that don't use relationship paths */
+  private checkRelatedClasses(spec: { relationships?: MultiSchemaClassesSpecification | MultiSchemaClassesSpecification[], relatedClasses?: MultiSchemaClassesSpecification | MultiSchemaClassesSpecification[], requiredDirection?: RelationshipDirection }, path: string): ECClass[] {
+    const relationships = spec.relationships ? this.checkMultiClasses(spec.relationships, appendRulesetPath(path, "relationships"), true) : [];
+    const relatedClasses = spec.relatedClasses ? this.checkMultiClasses(spec.relatedClasses, appendRulesetPath(path, "relatedClasses")) : [];
+    if (spec.requiredDirection !== RelationshipDirection.Forward && spec.requiredDirection !== RelationshipDirection.Backward)
+      return relatedClasses;
+    relatedClasses.forEach((relatedClass) => {
+      const targetConstraints = relationships.map((relationship) => getRelationshipEnds(relationship as RelationshipClass, spec.requiredDirection!).target);
+      if (targetConstraints.length === 0 || targetConstraints.some((constraint) => this.isClassCompatibleWithConstraint(relatedClass, constraint)))
+        return;
+      const sourceConstraints = relationships.map((relationship) => getRelationshipEnds(relationship as RelationshipClass, spec.requiredDirection!).source);
+      const message = sourceConstraints.some((constraint) => this.isClassCompatibleWithConstraint(relatedClass, constraint))
+        ? `Class "${relatedClass.fullName}" can only be reached by following the relationships in the opposite direction than "${spec.requiredDirection}"`
+        : `Class "${relatedClass.fullName}" can't be reached by following any of the relationships`;
+      this._issues.push(createError(appendRulesetPath(path, "relatedClasses"), message));
+    });
+    return relatedClasses;
+  }
+
+  /**
+   * Check classes and directions of the given relationship path
+   * @returns Target class of the last relationship step or an empty list, if it's not specified. Classes of
+   * relationship constraints are not returned, because they're generally too generic to check properties against.
+   */
+  private checkRelationshipPath(steps: RelationshipStepSpecification[], path: string, sourceClasses: ECClass[] | undefined): ECClass[] {
+    let currentClasses = sourceClasses;
+    steps.forEach((step, index) => {
+      const stepPath = steps.length > 1 ? appendRulesetPath(path, index) : path;
+      const relationship = this.checkSingleClass(step.relationship, appendRulesetPath(stepPath, "relationship"), true) as RelationshipClass | undefined;
+      const targetClass = step.targetClass ? this.checkSingleClass(step.targetClass, appendRulesetPath(stepPath, "targetClass")) : undefined;
+      if (!relationship) {
+        currentClasses = targetClass ? [targetClass] : undefined;
+        return;
+      }
+      this.checkRelationshipStepClasses(relationship, step.direction, currentClasses, targetClass, appendRulesetPath(stepPath, "direction"), appendRulesetPath(stepPath, "targetClass"));
+      currentClasses = targetClass ? [targetClass] : this.getConstraintClasses(getRelationshipEnds(relationship, step.direction).target);
+    });
+    const lastStep = steps[steps.length - 1];
+    return (lastStep && lastStep.targetClass && currentClasses) ? currentClasses : [];
+  }
+
+  private checkRelationshipStepClasses(relationship: RelationshipClass, direction: RelationshipDirection, sourceClasses: ECClass[] | undefined, targetClass: ECClass | undefined, directionPath: string, targetClassPath: string) {
+    const ends = getRelationshipEnds(relationship, direction);
+    if (sourceClasses && sourceClasses.length > 0 && !sourceClasses.some((sourceClass) => this.isClassCompatibleWithConstraint(sourceClass, ends.source))) {
+      const message = sourceClasses.some((sourceClass) => this.isClassCompatibleWithConstraint(sourceClass, ends.target))
+        ? `Relationship "${relationship.fullName}" can't be followed in "${direction}" direction from ${getClassNames(sourceClasses)} - the direction should be reversed`
+        : `Relationship "${relationship.fullName}" can't be followed from ${getClassNames(sourceClasses)}`;
+      this._issues.push(createError(directionPath, message));
+      return;
+    }
+    if (targetClass && !this.isClassCompatibleWithConstraint(targetClass, ends.target)) {
+      if (this.isClassCompatibleWithConstraint(targetClass, ends.source))
+        this._issues.push(createError(directionPath, `Relationship "${relationship.fullName}" leads to "${targetClass.fullName}" only in the opposite direction than "${direction}"`));
+      else
+        this._issues.push(createError(targetClassPath, `Class "${targetClass.fullName}" can't be reached by following relationship "${relationship.fullName}"`));
+    }
+  }
+
+  private checkLabelOverrideValue(ecClass: ECClass, value: InstanceLabelOverrideValueSpecification, path: string) {
+    if (value.specType === InstanceLabelOverrideValueSpecificationType.Property)
+      this.checkProperty([ecClass], value.propertyName, appendRulesetPath(path, "propertyName"));
+    if (value.specType === InstanceLabelOverrideValueSpecificationType.Composite)
+      toArray(value.parts).forEach((part, index) => this.checkLabelOverrideValue(ecClass, part.spec, appendRulesetPath(appendRulesetPath(appendRulesetPath(path, "parts"), index), "spec")));
+  }
+
+  private checkProperties(classes: ECClass[], propertyNames: string[], path: string) {
+    propertyNames.forEach((propertyName, index) => this.checkProperty(classes, propertyName, appendRulesetPath(path, index)));
+  }
+
+  /** Check that at least one of the given classes has the property. Special names like `*` or `_none_` are skipped. */
+  private checkProperty(classes: ECClass[], propertyName: string, path: string) {
+    if (classes.length === 0 || !/^\w+$/.test(propertyName) || propertyName.startsWith("_"))
+      return;
+    if (!classes.some((ecClass) => undefined !== ecClass.getPropertySync(propertyName, true)))
+      this._issues.push(createError(path, `Property "${propertyName}" does not exist in ${getClassNames(classes)}`));
+  }
+
+  private checkSingleClass(spec: SingleSchemaClassSpecification, path: string, expectRelationship?: boolean): ECClass | undefined {
+    return this.checkClass(spec.schemaName, spec.className, path, expectRelationship);
+  }
+
+  /** @returns Classes that exist in the iModel, excluding the ones marked with `E:` and `PE:` prefixes */
+  private checkMultiClasses(specs: MultiSchemaClassesSpecification | MultiSchemaClassesSpecification[], path: string, expectRelationship?: boolean): ECClass[] {
+    const classes: ECClass[] = [];
+    toArray(specs).forEach((spec, specIndex) => {
+      const specPath = Array.isArray(specs) ? appendRulesetPath(path, specIndex) : path;
+      toArray(spec.classNames).forEach((className, classIndex) => {
+        const match = className.match(/^(E:|PE:)?(.*)$/)!;
+        const ecClass = this.checkClass(spec.schemaName, match[2], appendRulesetPath(appendRulesetPath(specPath, "classNames"), classIndex), expectRelationship);
+        if (ecClass && !match[1])
+          classes.push(ecClass);
+      });
+    });
+    return classes;
+  }
+
+  private checkClass(schemaName: string, className: string, path: string, expectRelationship?: boolean): ECClass | undefined {
+    if (!this._schemaLoader.tryGetSchema(schemaName)) {
+      this._issues.push(createError(path, `Schema "${schemaName}" does not exist in the iModel`));
+      return undefined;
+    }
+    const ecClass = this.findClass(schemaName, className);
+    if (!ecClass) {
+      this._issues.push(createError(path, `Class "${schemaName}:${className}" does not exist in the iModel`));
+      return undefined;
+    }
+    if (expectRelationship && !(ecClass instanceof RelationshipClass)) {
+      this._issues.push(createError(path, `Class "${ecClass.fullName}" is not a relationship class`));
+      return undefined;
+    }
+    return ecClass;
+  }
+
+  private findClass(schemaName: string, className: string): ECClass | undefined {
+    const key = `${schemaName}:${className}`.toUpperCase();
+    if (this._classesCache.has(key))
+      return this._classesCache.get(key);
+    const item = this._schemaLoader.tryGetSchema(schemaName)?.getItemSync(className);
+    const ecClass = (item instanceof ECClass) ? item : undefined;
+    this._classesCache.set(key, ecClass);
+    return ecClass;
+  }
+
+  private getConstraintClasses(constraint: RelationshipConstraint): ECClass[] {
+    const classes: ECClass[] = [];
+    toArray(constraint.constraintClasses).forEach((key: Readonly<SchemaItemKey>) => {
+      const ecClass = this.findClass(key.schemaName, key.name);
+      if (ecClass)
+        classes.push(ecClass);
+    });
+    return classes;
+  }
+
+  /** A class is compatible with a constraint if its instances may be on that end of the relationship */
+  private isClassCompatibleWithConstraint(ecClass: ECClass, constraint: RelationshipConstraint): boolean {
+    return this.getConstraintClasses(constraint).some((constraintClass) => ecClass.isSync(constraintClass) || constraintClass.isSync(ecClass));
+  }
+}
+
+const getRelationshipEnds = (relationship: RelationshipClass, direction: RelationshipDirection) => {
+  return (direction === RelationshipDirection.Backward)
+    ? { source: relationship.target, target: relationship.source }
+    : { source: relationship.source, target: relationship.target };
+};
@@ -6,19 +6,23 @@
  * @module Core
  */
 
+import * as fs from "fs";
 import * as hash from "object-hash";
 import * as path from "path";
 import { ClientRequestContext, Id64String, Logger } from "@bentley/bentleyjs-core";
 import { BriefcaseDb, EventSink, IModelDb, IModelHost, IModelJsNative } from "@bentley/imodeljs-backend";
 import {
-  Content, ContentDescriptorRequestOptions, ContentFlags, ContentRequestOptions, DefaultContentDisplayTypes, Descriptor, DescriptorOverrides,
-  DisplayLabelRequestOptions, DisplayLabelsRequestOptions, DisplayValueGroup, DistinctValuesRequestOptions, ExtendedContentRequestOptions,
-  ExtendedHierarchyRequestOptions, getLocalesDirectory, HierarchyRequestOptions, InstanceKey, KeySet, LabelDefinition, LabelRequestOptions, Node,
-  NodeKey, NodePathElement, Paged, PagedResponse, PartialHierarchyModification, PresentationDataCompareOptions, PresentationError, PresentationStatus,
-  PresentationUnitSystem, RequestPriority, Ruleset, SelectionInfo, SelectionScope, SelectionScopeRequestOptions,
+  Content, ContentDescriptorRequestOptions, ContentExportRequestOptions, ContentFlags, ContentRequestOptions, ContentValuesUpdateRequestOptions,
+  DefaultContentDisplayTypes, Descriptor, DescriptorOverrides, DisplayLabelRequestOptions, DisplayLabelsRequestOptions, DisplayValueGroup, DistinctValuesRequestOptions,
+  ExtendedContentRequestOptions, ExtendedHierarchyRequestOptions, getLocalesDirectory, HierarchyRequestOptions, InstanceFilterDefinition, InstanceKey, KeySet, LabelDefinition,
+  LabelRequestOptions, Node, NodeKey, NodePathElement, Paged, PagedResponse, PartialHierarchyModification, PresentationDataCompareOptions,
+  PresentationError, PresentationStatus, PresentationUnitSystem, RegisteredRuleset, RequestPriority, Ruleset, RulesetsFactory, SelectionInfo, SelectionScope, SelectionScopeRequestOptions,
 } from "@bentley/presentation-common";
 import { PresentationBackendLoggerCategory } from "./BackendLoggerCategory";
 import { PRESENTATION_BACKEND_ASSETS_ROOT, PRESENTATION_COMMON_ASSETS_ROOT } from "./Constants";
+import { ContentExporter } from "./ContentExporter";
+import { ContentValuesUpdater } from "./ContentValuesUpdater";
+import { createHierarchyLevelFilteredRuleset } from "./HierarchyLevelFiltering";
 import { createDefaultNativePlatform, NativePlatformDefinition, NativePlatformRequestTypes } from "./NativePlatform";
 import { RulesetManager, RulesetManagerImpl } from "./RulesetManager";
 import { RulesetVariablesManager, RulesetVariablesManagerImpl } from "./RulesetVariablesManager";
@@ -278,6 +282,7 @@ export class PresentationManager {
   private _isDisposed: boolean;
   private _disposeIModelOpenedListener?: () => void;
   private _updatesTracker?: UpdatesTracker;
+  private _hierarchyLevelRulesets = new Map<string, RegisteredRuleset>();
 
   /** Get / set active locale used for localizing presentation data */
   public activeLocale: string | undefined;
@@ -440,6 +445,49 @@ export class PresentationManager {
     return { rulesetId: registeredRulesetId, strippedOptions };
   }
 
+  /**
+   * Registers given ruleset, adjusted to apply the instance filter to the requested hierarchy level,
+   * and replaces the ruleset and the filter with ruleset ID in the resulting object
+   */
+  private registerHierarchyLevelRuleset<TOptions extends { rulesetOrId: Ruleset | string, instanceFilter?: InstanceFilterDefinition, parentKey?: NodeKey }>(options: TOptions) {
+    const { instanceFilter, ...unfilteredOptions } = options;
+    if (!instanceFilter || instanceFilter.conditions.length === 0) {
+      if (this._hierarchyLevelRulesets.size !== 0)
+        this.setHierarchyLevelRuleset(getHierarchyLevelId(options), undefined);
+      return this.registerRuleset(unfilteredOptions);
+    }
+    const { rulesetOrId, ...strippedOptions } = unfilteredOptions;
+    const ruleset = this.getRuleset(rulesetOrId);
+    const filteredRuleset = { ...createHierarchyLevelFilteredRuleset(ruleset, instanceFilter, options.parentKey), id: `${ruleset.id}-filtered-${hash.MD5({ instanceFilter, parentKey: options.parentKey })}` };
+    const registeredRuleset = this.rulesets().add({ ...filteredRuleset, id: this.getRulesetId(filteredRuleset) });
+    this.setHierarchyLevelRuleset(getHierarchyLevelId(options), registeredRuleset);
+    return { rulesetId: registeredRuleset.id, strippedOptions };
+  }
+
+  /**
+   * Sets the filtered ruleset used by the given hierarchy level. The ruleset previously used by the
+   * hierarchy level is unregistered - filtered rulesets are specific to the hierarchy level, so no other
+   * level uses it.
+   */
+  private setHierarchyLevelRuleset(hierarchyLevelId: string, ruleset: RegisteredRuleset | undefined) {
+    const previousRuleset = this._hierarchyLevelRulesets.get(hierarchyLevelId);
+    if (ruleset)
+      this._hierarchyLevelRulesets.set(hierarchyLevelId, ruleset);
+    else
+      this._hierarchyLevelRulesets.delete(hierarchyLevelId);
+    if (previousRuleset && previousRuleset.id !== ruleset?.id)
+      this.rulesets().remove(previousRuleset);
+  }
+
+  private getRuleset(rulesetOrId: Ruleset | string): Ruleset {
+    if (typeof rulesetOrId === "object")
+      return new RulesetsFactory().createCompositeRuleset(rulesetOrId, (id) => this.rulesets().get(id)?.toJSON());
+    const registeredRuleset = this.rulesets().get(rulesetOrId);
+    if (!registeredRuleset)
+      throw new PresentationError(PresentationStatus.InvalidArgument, `Ruleset "${rulesetOrId}" is not registered`);
+    return registeredRuleset.toJSON();
+  }
+
   /**
    * Retrieves nodes and node count
    * @param requestContext Client request context
@@ -471,7 +519,7 @@ export class PresentationManager {
     if (requestContextOrOptions instanceof ClientRequestContext) {
       return this.getNodes({ ...deprecatedRequestOptions!, requestContext: requestContextOrOptions, parentKey: deprecatedParentKey });
     }
-    const { rulesetId, strippedOptions: { parentKey, ...strippedOptions } } = this.registerRuleset(requestContextOrOptions);
+    const { rulesetId, strippedOptions: { parentKey, ...strippedOptions } } = this.registerHierarchyLevelRuleset(requestContextOrOptions);
     const params = {
       requestId: parentKey ? NativePlatformRequestTypes.GetChildren : NativePlatformRequestTypes.GetRootNodes,
       rulesetId,
@@ -495,7 +543,7 @@ export class PresentationManager {
     if (requestContextOrOptions instanceof ClientRequestContext) {
       return this.getNodesCount({ ...deprecatedRequestOptions!, requestContext: requestContextOrOptions, parentKey: deprecatedParentKey });
     }
-    const { rulesetId, strippedOptions: { parentKey, ...strippedOptions } } = this.registerRuleset(requestContextOrOptions);
+    const { rulesetId, strippedOptions: { parentKey, ...strippedOptions } } = this.registerHierarchyLevelRuleset(requestContextOrOptions);
     const params = {
       requestId: parentKey ? NativePlatformRequestTypes.GetChildrenCount : NativePlatformRequestTypes.GetRootNodesCount,
       rulesetId,
@@ -726,6 +774,60 @@ export class PresentationManager {
     return this.request(params, reviver);
   }
 
+  /**
+   * Exports content to a file or a stream. Content is requested page by page and nested content fields
+   * are flattened into a column per nested field. Unless raw values are requested, values are exported
+   * as display values, formatted using requested unit system.
+   * @param requestOptions      Options for the request
+   * @param target              Path of a file or a stream to export content to. The stream is not ended after export.
+   * @return A promise object that returns the number of exported content items.
+   * @alpha
+   */
+  public async exportContent(requestOptions: WithClientRequestContext<ContentExportRequestOptions<IModelDb, Descriptor, KeySet>>, target: string | NodeJS.WritableStream): Promise<number> {
+    if (typeof target === "string") {
+      const fileStream = fs.createWriteStream(target);
+      const fileClosed = new Promise((resolve, reject) => {
+        fileStream.once("finish", resolve);
+        fileStream.once("error", reject);
+      });
+      try {
+        return await this.exportContent(requestOptions, fileStream);
+      } finally {
+        fileStream.end();
+        await fileClosed;
+      }
+    }
+
+    const { format, rawValues, pageSize, ...contentRequestOptions } = requestOptions;
+    const size = pageSize ?? DEFAULT_CONTENT_EXPORT_PAGE_SIZE;
+    const exporter = new ContentExporter(target, format, rawValues);
+    let content: Content | undefined;
+    do {
+      content = await this.getContent({ ...contentRequestOptions, paging: { start: exporter.rowsCount, size } });
+      if (content)
+        await exporter.writeItems(content.descriptor, content.contentSet);
+    } while (content && content.contentSet.length === size);
+    await exporter.finish();
+    return exporter.rowsCount;
+  }
+
+  /**
+   * Updates content values in the iModel. Every changed field is mapped to the element or element aspect that
+   * owns its value in the content item - for fields nested in [[NestedContentField]]s that's the related instance.
+   * New values are validated against type, value range and KindOfQuantity of the ECProperty and written
+   * using `IModelDb.elements.updateElement` or `IModelDb.elements.updateAspect`. Nothing is written if any of
+   * the values is invalid.
+   *
+   * **Note:** Changes are not saved - acquiring necessary locks and calling `IModelDb.saveChanges` is up to the caller.
+   *
+   * @param requestOptions      Options for the request
+   * @return A promise object that returns keys of updated elements and element aspects.
+   * @alpha
+   */
+  public async updateContentValues(requestOptions: WithClientRequestContext<ContentValuesUpdateRequestOptions<IModelDb>>): Promise<InstanceKey[]> {
+    return new ContentValuesUpdater(requestOptions.imodel).update(requestOptions.changes);
+  }
+
   /**
    * Retrieves display label definition of specific item
    * @deprecated Use an overload with [[DisplayLabelRequestOptions]]
@@ -886,6 +988,16 @@ export class PresentationManager {
   }
 }
 
+const DEFAULT_CONTENT_EXPORT_PAGE_SIZE = 1000;
+
+/** Get a unique identifier of the hierarchy level requested with given options */
+const getHierarchyLevelId = (options: { rulesetOrId: Ruleset | string, parentKey?: NodeKey }): string => {
+  return hash.MD5({
+    rulesetId: (typeof options.rulesetOrId === "object") ? options.rulesetOrId.id : options.rulesetOrId,
+    parentKey: options.parentKey,
+  });
+};
+
 const getKeysForContentRequest = (imodel: IModelDb, keys: KeySet): KeySet => {
   const elementClassName = "BisCore:Element";
   const instanceKeys = keys.instanceKeys;
@@ -6,18 +6,19 @@
  * @module RPC
  */
 
+import { Writable } from "stream";
 import { ClientRequestContext, Id64String, Logger } from "@bentley/bentleyjs-core";
 import { IModelDb } from "@bentley/imodeljs-backend";
 import { IModelRpcProps } from "@bentley/imodeljs-common";
 import {
-  ContentDescriptorRpcRequestOptions, ContentJSON, ContentRpcRequestOptions, Descriptor, DescriptorJSON, DescriptorOverrides, DiagnosticsOptions,
-  DiagnosticsScopeLogs, DisplayLabelRpcRequestOptions, DisplayLabelsRpcRequestOptions, DisplayValueGroup, DisplayValueGroupJSON,
-  DistinctValuesRpcRequestOptions, ExtendedContentRpcRequestOptions, ExtendedHierarchyRpcRequestOptions, HierarchyRpcRequestOptions, InstanceKey,
-  InstanceKeyJSON, isContentDescriptorRequestOptions, isDisplayLabelRequestOptions, isExtendedContentRequestOptions,
-  isExtendedHierarchyRequestOptions, ItemJSON, KeySet, KeySetJSON, LabelDefinition, LabelDefinitionJSON, LabelRpcRequestOptions, Node, NodeJSON,
-  NodeKey, NodeKeyJSON, NodePathElement, NodePathElementJSON, Paged, PagedResponse, PageOptions, PartialHierarchyModification,
-  PartialHierarchyModificationJSON, PresentationDataCompareRpcOptions, PresentationError, PresentationRpcInterface, PresentationRpcResponse,
-  PresentationStatus, Ruleset, SelectionInfo, SelectionScope, SelectionScopeRpcRequestOptions,
+  ContentDescriptorRpcRequestOptions, ContentExportFormat, ContentExportRpcRequestOptions, ContentJSON, ContentRpcRequestOptions, Descriptor,
+  DescriptorJSON, DescriptorOverrides, DiagnosticsOptions, DiagnosticsScopeLogs, DisplayLabelRpcRequestOptions, DisplayLabelsRpcRequestOptions,
+  DisplayValueGroup, DisplayValueGroupJSON, DistinctValuesRpcRequestOptions, ExtendedContentRpcRequestOptions, ExtendedHierarchyRpcRequestOptions,
+  HierarchyRpcRequestOptions, InstanceKey, InstanceKeyJSON, isContentDescriptorRequestOptions, isDisplayLabelRequestOptions,
+  isExtendedContentRequestOptions, isExtendedHierarchyRequestOptions, ItemJSON, KeySet, KeySetJSON, LabelDefinition, LabelDefinitionJSON,
+  LabelRpcRequestOptions, Node, NodeJSON, NodeKey, NodeKeyJSON, NodePathElement, NodePathElementJSON, Paged, PagedResponse, PageOptions,
+  PartialHierarchyModification, PartialHierarchyModificationJSON, PresentationDataCompareRpcOptions, PresentationError, PresentationRpcInterface,
+  PresentationRpcResponse, PresentationStatus, Ruleset, SelectionInfo, SelectionScope, SelectionScopeRpcRequestOptions,
 } from "@bentley/presentation-common";
 import { PresentationBackendLoggerCategory } from "./BackendLoggerCategory";
 import { Presentation } from "./Presentation";
@@ -28,6 +29,13 @@ type ContentGetter<TResult = any, TOptions = any> = (requestOptions: TOptions) =
 /** @internal */
 export const MAX_ALLOWED_PAGE_SIZE = 1000;
 
+/**
+ * Maximum number of content items exported through RPC. The whole export is returned in a single
+ * response, so larger exports should be done using [[PresentationManager.exportContent]] on the backend.
+ * @internal
+ */
+export const MAX_ALLOWED_CONTENT_EXPORT_ROWS = 100000;
+
 /**
  * The backend implementation of PresentationRpcInterface. All it's basically
  * responsible for is forwarding calls to [[Presentation.manager]].
@@ -317,6 +325,29 @@ export class PresentationRpcImpl extends PresentationRpcInterface {
     });
   }
 
+  public async exportContent(token: IModelRpcProps, requestOptions: ContentExportRpcRequestOptions): PresentationRpcResponse<string> {
+    return this.makeRequest(token, "exportContent", requestOptions, async (options) => {
+      options = {
+        ...options,
+        descriptor: descriptorFromJson(options.descriptor),
+        keys: KeySet.fromJSON(options.keys),
+      };
+      const { format, rawValues, pageSize, ...contentRequestOptions } = options; // eslint-disable-line @typescript-eslint/no-unused-vars
+      const rowsCount = await this.getManager(requestOptions.clientId).getContentSetSize(contentRequestOptions);
+      if (rowsCount > MAX_ALLOWED_CONTENT_EXPORT_ROWS)
+        throw new PresentationError(PresentationStatus.InvalidArgument, `Content of ${rowsCount} items is too large to export through RPC - at most ${MAX_ALLOWED_CONTENT_EXPORT_ROWS} items are allowed`);
+      const chunks: Buffer[] = [];
+      const stream = new Writable({
+        write: (chunk: Buffer, _encoding: string, callback: () => void) => {
+          chunks.push(chunk);
+          callback();
+        },
+      });
+      await this.getManager(requestOptions.clientId).exportContent(options, stream);
+      return Buffer.concat(chunks).toString((requestOptions.format === ContentExportFormat.Xlsx) ? "base64" : "utf8");
+    });
+  }
+
   public async getDisplayLabelDefinition(token: IModelRpcProps, requestOptions: LabelRpcRequestOptions | DisplayLabelRpcRequestOptions, key?: InstanceKeyJSON): PresentationRpcResponse<LabelDefinitionJSON> {
     return this.makeRequest(token, "getDisplayLabelDefinition", requestOptions, async (options) => {
       const label = await this.getManager(requestOptions.clientId).getDisplayLabelDefinition({ ...options, key: isDisplayLabelRequestOptions(options) ? options.key : key! });
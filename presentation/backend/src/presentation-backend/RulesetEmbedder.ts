@@ -14,7 +14,7 @@ import {
 import {
   BisCodeSpec, Code, CodeScopeSpec, CodeSpec, DefinitionElementProps, InformationPartitionElementProps, ModelProps, SubjectProps,
 } from "@bentley/imodeljs-common";
-import { Ruleset } from "@bentley/presentation-common";
+import { Ruleset, RulesetsFactory } from "@bentley/presentation-common";
 import { PresentationRules } from "./domain/PresentationRulesDomain";
 import * as RulesetElements from "./domain/RulesetElements";
 
@@ -73,6 +73,21 @@ export class RulesetEmbedder {
     return this.insertNewRuleset(ruleset, model, rulesetCode);
   }
 
+  /**
+   * Inserts a composite of the given ruleset and its [[Ruleset.baseRulesets]] into iModel. Base rulesets
+   * are looked up in the given list first and then among rulesets already embedded in the iModel.
+   * @param ruleset Ruleset to insert
+   * @param baseRulesets Rulesets the inserted ruleset may extend
+   * @param duplicateHandlingStrategy Strategy for handling duplicate rulesets. Defaults to [[DuplicateRulesetHandlingStrategy.Skip]]
+   * @returns ID of inserted ruleset element
+   * @alpha
+   */
+  public async insertCompositeRuleset(ruleset: Ruleset, baseRulesets: Ruleset[] = [], duplicateHandlingStrategy = DuplicateRulesetHandlingStrategy.Skip): Promise<Id64String> {
+    const availableRulesets = [...baseRulesets, ...(await this.getRulesets())];
+    const compositeRuleset = new RulesetsFactory().createCompositeRuleset(ruleset, (id) => availableRulesets.find((r) => r.id === id));
+    return this.insertRuleset(compositeRuleset, duplicateHandlingStrategy);
+  }
+
   private handleDuplicateRuleset(ruleset: Ruleset, duplicateHandlingStrategy: DuplicateRulesetHandlingStrategy, rulesetId: Id64String): Id64String {
     if (DuplicateRulesetHandlingStrategy.Skip === duplicateHandlingStrategy)
       return rulesetId;
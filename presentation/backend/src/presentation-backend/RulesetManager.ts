@@ -6,7 +6,7 @@
  * @module Core
  */
 
-import { RegisteredRuleset, Ruleset } from "@bentley/presentation-common";
+import { RegisteredRuleset, Ruleset, RulesetsFactory } from "@bentley/presentation-common";
 import { NativePlatformDefinition } from "./NativePlatform";
 
 /**
@@ -20,7 +20,8 @@ export interface RulesetManager {
   get(id: string): RegisteredRuleset | undefined;
 
   /**
-   * Register the supplied ruleset
+   * Register the supplied ruleset. If the ruleset extends other rulesets through [[Ruleset.baseRulesets]],
+   * they're looked up in this manager and the composite ruleset is registered instead.
    */
   add(ruleset: Ruleset): RegisteredRuleset;
 
@@ -71,8 +72,9 @@ export class RulesetManagerImpl implements RulesetManager {
     if (foundRuleset)
       return foundRuleset;
 
-    const hash = this._getNativePlatform().addRuleset(JSON.stringify(ruleset)).result;
-    return this.saveRuleset(ruleset, hash, (r: RegisteredRuleset) => this.remove(r));
+    const compositeRuleset = new RulesetsFactory().createCompositeRuleset(ruleset, (id) => this.get(id)?.toJSON());
+    const hash = this._getNativePlatform().addRuleset(JSON.stringify(compositeRuleset)).result;
+    return this.saveRuleset(compositeRuleset, hash, (r: RegisteredRuleset) => this.remove(r));
   }
 
   /**
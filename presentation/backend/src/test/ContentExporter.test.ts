@@ -0,0 +1,198 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import "@bentley/presentation-common/lib/test/_helpers/Promises";
+import { expect } from "chai";
+import { Writable } from "stream";
+import * as zlib from "zlib";
+import { ContentExportFormat, Descriptor, Field, Item, PresentationError } from "@bentley/presentation-common";
+import {
+  createRandomCategory, createRandomECInstanceKey, createRandomNestedContentField, createRandomPrimitiveField,
+} from "@bentley/presentation-common/lib/test/_helpers/random";
+import { ContentExporter, createContentExportColumns } from "../presentation-backend/ContentExporter";
+
+/** Read zip archive entries by walking local file headers */
+const readZipEntries = (archive: Buffer) => {
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.toString("utf8", offset + 30, offset + 30 + nameLength);
+    const dataOffset = offset + 30 + nameLength;
+    entries.set(name, zlib.inflateRawSync(archive.slice(dataOffset, dataOffset + compressedSize)).toString());
+    offset = dataOffset + compressedSize;
+  }
+  return entries;
+};
+
+describe("ContentExporter", () => {
+
+  let descriptor: Descriptor;
+  let items: Item[];
+
+  const createField = (name: string, label: string) => {
+    const field = createRandomPrimitiveField(createRandomCategory());
+    field.name = name;
+    field.label = label;
+    return field;
+  };
+
+  const createNestedValue = (materialName: string, density: number) => ({
+    primaryKeys: [createRandomECInstanceKey()],
+    values: { materialName, density },
+    displayValues: { materialName, density: `${density} g/cm3` },
+    mergedFieldNames: [],
+  });
+
+  beforeEach(() => {
+    const materialField = createRandomNestedContentField([createField("materialName", "Name"), createField("density", "Density")], createRandomCategory());
+    materialField.name = "material";
+    materialField.label = "Material";
+    const fields: Field[] = [createField("name", "Name"), createField("size", "Size"), materialField];
+    descriptor = new Descriptor({ displayType: "", selectClasses: [], fields, contentFlags: 0 });
+    items = [
+      new Item([createRandomECInstanceKey()], "a", "", undefined,
+        { name: `A, "quoted"`, size: 1.5, material: [createNestedValue("Steel", 7.8)] },
+        { name: `A, "quoted"`, size: "1.5 m" }, []),
+      new Item([createRandomECInstanceKey(), createRandomECInstanceKey()], "b", "", undefined,
+        { name: "B", material: [createNestedValue("Steel", 7.8), createNestedValue("Iron", 7.9)] },
+        { name: "B", size: "*** Varies ***" }, ["size"]),
+    ];
+  });
+
+  const exportItems = async (format: ContentExportFormat, rawValues?: boolean) => {
+    const chunks: Buffer[] = [];
+    const stream = new Writable({
+      write: (chunk: Buffer, _encoding: string, callback: () => void) => {
+        chunks.push(chunk);
+        callback();
+      },
+    });
+    const exporter = new ContentExporter(stream, format, rawValues);
+    await exporter.writeItems(descriptor, items.slice(0, 1));
+    await exporter.writeItems(descriptor, items.slice(1));
+    await exporter.finish();
+    expect(exporter.rowsCount).to.eq(2);
+    return Buffer.concat(chunks);
+  };
+
+  it("flattens nested content fields into columns", () => {
+    expect(createContentExportColumns(descriptor)).to.deep.eq([
+      { name: "name", label: "Name", fieldNamesPath: ["name"] },
+      { name: "size", label: "Size", fieldNamesPath: ["size"] },
+      { name: "material.materialName", label: "Material - Name", fieldNamesPath: ["material", "materialName"] },
+      { name: "material.density", label: "Material - Density", fieldNamesPath: ["material", "density"] },
+    ]);
+  });
+
+  it("exports display values to CSV", async () => {
+    const result = await exportItems(ContentExportFormat.Csv);
+    expect(result.toString()).to.eq([
+      "Name,Size,Material - Name,Material - Density",
+      `"A, ""quoted""",1.5 m,Steel,7.8 g/cm3`,
+      "B,*** Varies ***,Steel; Iron,7.8 g/cm3; 7.9 g/cm3",
+      "",
+    ].join("\r\n"));
+  });
+
+  it("exports raw values to CSV", async () => {
+    const result = await exportItems(ContentExportFormat.Csv, true);
+    expect(result.toString()).to.eq([
+      "Name,Size,Material - Name,Material - Density",
+      `"A, ""quoted""",1.5,Steel,7.8`,
+      "B,,Steel; Iron,7.8; 7.9",
+      "",
+    ].join("\r\n"));
+  });
+
+  it("exports raw values to JSON Lines", async () => {
+    const result = await exportItems(ContentExportFormat.JsonLines, true);
+    const lines = result.toString().split("\n");
+    expect(lines.length).to.eq(3);
+    expect(lines[2]).to.eq("");
+    expect(JSON.parse(lines[0])).to.deep.eq({ "name": `A, "quoted"`, "size": 1.5, "material.materialName": "Steel", "material.density": 7.8 });
+    expect(JSON.parse(lines[1])).to.deep.eq({ "name": "B", "material.materialName": ["Steel", "Iron"], "material.density": [7.8, 7.9] });
+  });
+
+  it("exports display values to XLSX", async () => {
+    const entries = readZipEntries(await exportItems(ContentExportFormat.Xlsx));
+    expect([...entries.keys()]).to.deep.eq(["[Content_Types].xml", "_rels/.rels", "xl/workbook.xml", "xl/_rels/workbook.xml.rels", "xl/worksheets/sheet1.xml"]);
+    const sheet = entries.get("xl/worksheets/sheet1.xml")!;
+    expect(sheet).to.contain(`<c t="inlineStr"><is><t xml:space="preserve">Material - Density</t></is></c>`);
+    expect(sheet).to.contain(`<c t="inlineStr"><is><t xml:space="preserve">A, &quot;quoted&quot;</t></is></c>`);
+    expect(sheet).to.contain(`<c t="inlineStr"><is><t xml:space="preserve">Steel; Iron</t></is></c>`);
+    expect(sheet.match(/<row>/g)!.length).to.eq(3);
+  });
+
+  it("exports raw numbers to XLSX as numeric cells", async () => {
+    const entries = readZipEntries(await exportItems(ContentExportFormat.Xlsx, true));
+    expect(entries.get("xl/worksheets/sheet1.xml")).to.contain("<c><v>1.5</v></c>");
+  });
+
+  it("exports raw booleans to XLSX as boolean cells", async () => {
+    items[0].values.size = true;
+    items[1].values.size = false;
+    items[1].mergedFieldNames = [];
+    const sheet = readZipEntries(await exportItems(ContentExportFormat.Xlsx, true)).get("xl/worksheets/sheet1.xml");
+    expect(sheet).to.contain(`<c t="b"><v>1</v></c>`);
+    expect(sheet).to.contain(`<c t="b"><v>0</v></c>`);
+  });
+
+  it("exports structured values to CSV as JSON", async () => {
+    items[0].values.size = { x: 1, y: 2 };
+    const result = await exportItems(ContentExportFormat.Csv, true);
+    expect(result.toString().split("\r\n")[1]).to.eq(`"A, ""quoted""","{""x"":1,""y"":2}",Steel,7.8`);
+  });
+
+  it("exports empty cells when there's no nested content", async () => {
+    items[0].values.material = undefined;
+    items[1].values.material = [];
+    const result = await exportItems(ContentExportFormat.Csv, true);
+    expect(result.toString()).to.eq([
+      "Name,Size,Material - Name,Material - Density",
+      `"A, ""quoted""",1.5,,`,
+      "B,,,",
+      "",
+    ].join("\r\n"));
+  });
+
+  it("waits for the stream to drain", async () => {
+    const chunks: Buffer[] = [];
+    const stream = new Writable({
+      highWaterMark: 1,
+      write: (chunk: Buffer, _encoding: string, callback: () => void) => {
+        chunks.push(chunk);
+        setImmediate(callback);
+      },
+    });
+    const exporter = new ContentExporter(stream, ContentExportFormat.Csv);
+    await exporter.writeItems(descriptor, items);
+    await exporter.finish();
+    expect(chunks.length).to.eq(3);
+    expect(Buffer.concat(chunks).toString()).to.eq([
+      "Name,Size,Material - Name,Material - Density",
+      `"A, ""quoted""",1.5 m,Steel,7.8 g/cm3`,
+      "B,*** Varies ***,Steel; Iron,7.8 g/cm3; 7.9 g/cm3",
+      "",
+    ].join("\r\n"));
+  });
+
+  it("rejects when the stream fails", async () => {
+    const stream = new Writable({
+      highWaterMark: 1,
+      write: (_chunk: Buffer, _encoding: string, callback: (error?: Error) => void) => {
+        setImmediate(() => callback(new Error("disk full")));
+      },
+    });
+    const exporter = new ContentExporter(stream, ContentExportFormat.Csv);
+    await expect(exporter.writeItems(descriptor, items)).to.eventually.be.rejectedWith(Error, "disk full");
+    expect(exporter.rowsCount).to.eq(0);
+  });
+
+  it("throws on unsupported format", () => {
+    expect(() => new ContentExporter(new Writable(), "pdf" as ContentExportFormat)).to.throw(PresentationError);
+  });
+
+});
@@ -0,0 +1,250 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { expect } from "chai";
+import { IModelStatus } from "@bentley/bentleyjs-core";
+import { IModelDb } from "@bentley/imodeljs-backend";
+import {
+  CategoryDescription, ContentValueChange, InstanceKey, Item, KindOfQuantityInfo, NestedContentField, PresentationError, PropertiesField,
+  PropertyValueFormat, Value,
+} from "@bentley/presentation-common";
+import * as moq from "@bentley/presentation-common/lib/test/_helpers/Mocks";
+import { ContentValuesUpdater, getContentValueOwnerKeys } from "../presentation-backend/ContentValuesUpdater";
+
+/* eslint-disable @typescript-eslint/naming-convention */
+const testSchema = {
+  $schema: "https://dev.bentley.com/json_schemas/ec/32/ecschema",
+  name: "BisCore",
+  version: "1.0.0",
+  alias: "bis",
+  items: {
+    LINEAR: { schemaItemType: "Phenomenon", definition: "LINEAR" },
+    SI: { schemaItemType: "UnitSystem" },
+    M: { schemaItemType: "Unit", phenomenon: "BisCore.LINEAR", unitSystem: "BisCore.SI", definition: "M" },
+    Length: { schemaItemType: "KindOfQuantity", relativeError: 0.001, persistenceUnit: "BisCore.M" },
+    Status: {
+      schemaItemType: "Enumeration",
+      type: "int",
+      isStrict: true,
+      enumerators: [{ name: "Off", value: 0 }, { name: "On", value: 1 }],
+    },
+    Model: {
+      schemaItemType: "EntityClass",
+      properties: [{ name: "IsPrivate", type: "PrimitiveProperty", typeName: "boolean" }],
+    },
+    Element: {
+      schemaItemType: "EntityClass",
+      properties: [{ name: "UserLabel", type: "PrimitiveProperty", typeName: "string", maxLength: 5 }],
+    },
+    PhysicalElement: {
+      schemaItemType: "EntityClass",
+      baseClass: "BisCore.Element",
+      properties: [
+        { name: "Count", type: "PrimitiveProperty", typeName: "int", minValue: 0 },
+        { name: "Width", type: "PrimitiveProperty", typeName: "double", kindOfQuantity: "BisCore.Length" },
+        { name: "Status", type: "PrimitiveProperty", typeName: "BisCore.Status" },
+        { name: "Origin", type: "PrimitiveProperty", typeName: "point3d" },
+        { name: "Checksum", type: "PrimitiveProperty", typeName: "string", isReadOnly: true },
+        { name: "IsVisible", type: "PrimitiveProperty", typeName: "boolean" },
+        { name: "FederationId", type: "PrimitiveProperty", typeName: "long" },
+        { name: "Opacity", type: "PrimitiveProperty", typeName: "double", maxValue: 1 },
+        { name: "Code", type: "PrimitiveProperty", typeName: "string", minLength: 2 },
+        { name: "CreatedOn", type: "PrimitiveProperty", typeName: "dateTime" },
+        { name: "Placement", type: "PrimitiveProperty", typeName: "point2d" },
+        { name: "Data", type: "PrimitiveProperty", typeName: "binary" },
+      ],
+    },
+    ElementAspect: {
+      schemaItemType: "EntityClass",
+    },
+    Note: {
+      schemaItemType: "EntityClass",
+      baseClass: "BisCore.ElementAspect",
+      properties: [{ name: "Text", type: "PrimitiveProperty", typeName: "string" }],
+    },
+  },
+};
+
+const category: CategoryDescription = { name: "test", label: "Test", description: "", priority: 0, expand: false };
+
+const createField = (name: string, className: string, typeName: string, kindOfQuantity?: KindOfQuantityInfo) => new PropertiesField(category, name, name,
+  { valueFormat: PropertyValueFormat.Primitive, typeName }, false, 0, [{
+    property: { classInfo: { id: "0x1", name: className, label: className }, name, type: typeName, kindOfQuantity },
+    relatedClassPath: [],
+  }]);
+
+const createNestedField = (name: string, nestedFields: PropertiesField[]) => {
+  const field = new NestedContentField(category, name, name, { valueFormat: PropertyValueFormat.Struct, typeName: name, members: [] }, false, 0,
+    { id: "0x2", name: "BisCore:Note", label: "Note" }, [{
+      sourceClassInfo: { id: "0x2", name: "BisCore:Note", label: "Note" },
+      relationshipInfo: { id: "0x3", name: "BisCore:ElementOwnsNotes", label: "Owns" },
+      targetClassInfo: { id: "0x4", name: "BisCore:PhysicalElement", label: "Element" },
+      isPolymorphicTargetClass: true,
+      isForwardRelationship: false,
+      isPolymorphicRelationship: true,
+    }], nestedFields);
+  field.rebuildParentship();
+  return field;
+};
+
+const createItem = (primaryKeys: InstanceKey[], values: { [fieldName: string]: Value }, mergedFieldNames: string[] = []) => new Item(primaryKeys, "", "", undefined, values, {}, mergedFieldNames);
+
+describe("getContentValueOwnerKeys", () => {
+
+  it("returns item primary keys for root field", () => {
+    const keys = [{ className: "BisCore:PhysicalElement", id: "0x10" }];
+    expect(getContentValueOwnerKeys(createItem(keys, { Count: 1 }), createField("Count", "BisCore:PhysicalElement", "int"))).to.deep.eq(keys);
+  });
+
+  it("returns related instance keys for nested field", () => {
+    const textField = createField("Text", "BisCore:Note", "string");
+    createNestedField("Notes", [textField]);
+    const item = createItem([{ className: "BisCore:PhysicalElement", id: "0x10" }], {
+      Notes: [
+        { primaryKeys: [{ className: "BisCore:Note", id: "0x20" }], values: { Text: "a" }, displayValues: {}, mergedFieldNames: [] },
+        { primaryKeys: [{ className: "BisCore:Note", id: "0x21" }], values: { Text: "b" }, displayValues: {}, mergedFieldNames: [] },
+      ],
+    });
+    expect(getContentValueOwnerKeys(item, textField)).to.deep.eq([{ className: "BisCore:Note", id: "0x20" }, { className: "BisCore:Note", id: "0x21" }]);
+  });
+
+  it("throws for merged field", () => {
+    const item = createItem([{ className: "BisCore:PhysicalElement", id: "0x10" }, { className: "BisCore:PhysicalElement", id: "0x11" }], {}, ["Count"]);
+    expect(() => getContentValueOwnerKeys(item, createField("Count", "BisCore:PhysicalElement", "int"))).to.throw(PresentationError);
+  });
+
+});
+
+describe("ContentValuesUpdater", () => {
+
+  const elementKey = { className: "BisCore:PhysicalElement", id: "0x10" };
+  let isReadonly: boolean;
+  let updatedElements: any[];
+  let updatedAspects: any[];
+  let updater: ContentValuesUpdater;
+
+  beforeEach(() => {
+    isReadonly = false;
+    updatedElements = [];
+    updatedAspects = [];
+    const nativeDb = {
+      getSchema: (name: string) => (name === "BisCore") ? { result: JSON.stringify(testSchema) } : { error: { status: IModelStatus.NotFound } },
+    };
+    const elements = {
+      getElementProps: (id: string) => ({ id, classFullName: "BisCore:PhysicalElement", userLabel: "old" }),
+      updateElement: (props: any) => updatedElements.push(props),
+      getAspect: (id: string) => ({ toJSON: () => ({ id, classFullName: "BisCore:Note", element: { id: "0x10" } }) }),
+      updateAspect: (props: any) => updatedAspects.push(props),
+    };
+    const imodelMock = moq.Mock.ofType<IModelDb>();
+    imodelMock.setup((x) => x.nativeDb).returns(() => nativeDb as any);
+    imodelMock.setup((x) => x.elements).returns(() => elements as any);
+    imodelMock.setup((x) => x.isReadonly).returns(() => isReadonly);
+    updater = new ContentValuesUpdater(imodelMock.object);
+  });
+
+  const createChange = (field: PropertiesField, value: Value, keys: InstanceKey[] = [elementKey]): ContentValueChange => ({
+    item: createItem(keys, {}),
+    field,
+    value,
+  });
+
+  it("updates element properties", () => {
+    const updatedKeys = updater.update([
+      createChange(createField("Count", "BisCore:PhysicalElement", "int"), 5),
+      createChange(createField("UserLabel", "BisCore:Element", "string"), "new"),
+      createChange(createField("Origin", "BisCore:PhysicalElement", "point3d"), { x: 1, y: 2, z: 3 }),
+      createChange(createField("Width", "BisCore:PhysicalElement", "double", { name: "BisCore:Length", label: "Length", persistenceUnit: "BisCore:M" }), 1.5),
+    ]);
+    expect(updatedKeys).to.deep.eq([elementKey]);
+    expect(updatedElements).to.deep.eq([{
+      id: "0x10",
+      classFullName: "BisCore:PhysicalElement",
+      userLabel: "new",
+      count: 5,
+      origin: { x: 1, y: 2, z: 3 },
+      width: 1.5,
+    }]);
+  });
+
+  it("updates properties of related element aspects", () => {
+    const textField = createField("Text", "BisCore:Note", "string");
+    createNestedField("Notes", [textField]);
+    const item = createItem([elementKey], {
+      Notes: [{ primaryKeys: [{ className: "BisCore:Note", id: "0x20" }], values: { Text: "a" }, displayValues: {}, mergedFieldNames: [] }],
+    });
+    const updatedKeys = updater.update([{ item, field: textField, value: "b" }]);
+    expect(updatedKeys).to.deep.eq([{ className: "BisCore:Note", id: "0x20" }]);
+    expect(updatedAspects).to.deep.eq([{ id: "0x20", classFullName: "BisCore:Note", element: { id: "0x10" }, text: "b" }]);
+  });
+
+  it("throws and doesn't update anything when any of the values is invalid", () => {
+    expect(() => updater.update([
+      createChange(createField("UserLabel", "BisCore:Element", "string"), "new"),
+      createChange(createField("Count", "BisCore:PhysicalElement", "int"), 1.5),
+    ])).to.throw(PresentationError, "expected an integer");
+    expect(updatedElements).to.be.empty;
+  });
+
+  it("throws when value doesn't match property constraints", () => {
+    expect(() => updater.update([createChange(createField("Count", "BisCore:PhysicalElement", "int"), -1)])).to.throw(PresentationError, "less than 0");
+    expect(() => updater.update([createChange(createField("UserLabel", "BisCore:Element", "string"), "too long")])).to.throw(PresentationError, "longer than 5");
+    expect(() => updater.update([createChange(createField("Status", "BisCore:PhysicalElement", "int"), 2)])).to.throw(PresentationError, "enumerators");
+    expect(() => updater.update([createChange(createField("Checksum", "BisCore:PhysicalElement", "string"), "x")])).to.throw(PresentationError, "read-only");
+    expect(() => updater.update([createChange(createField("Origin", "BisCore:PhysicalElement", "point3d"), { x: 1, y: 2 })])).to.throw(PresentationError, "3d point");
+  });
+
+  it("throws when value doesn't match property type", () => {
+    expect(() => updater.update([createChange(createField("IsVisible", "BisCore:PhysicalElement", "boolean"), 1)])).to.throw(PresentationError, "expected a boolean");
+    expect(() => updater.update([createChange(createField("FederationId", "BisCore:PhysicalElement", "long"), 1.5)])).to.throw(PresentationError, "expected an integer");
+    expect(() => updater.update([createChange(createField("Opacity", "BisCore:PhysicalElement", "double"), "0.5")])).to.throw(PresentationError, "expected a number");
+    expect(() => updater.update([createChange(createField("CreatedOn", "BisCore:PhysicalElement", "dateTime"), "yesterday")])).to.throw(PresentationError, "expected a date string");
+    expect(() => updater.update([createChange(createField("Placement", "BisCore:PhysicalElement", "point2d"), { x: 1 })])).to.throw(PresentationError, "2d point");
+    expect(() => updater.update([createChange(createField("Origin", "BisCore:PhysicalElement", "point3d"), [1, 2, 3])])).to.throw(PresentationError, "3d point");
+  });
+
+  it("updates properties of all supported types", () => {
+    updater.update([
+      createChange(createField("IsVisible", "BisCore:PhysicalElement", "boolean"), false),
+      createChange(createField("FederationId", "BisCore:PhysicalElement", "long"), 123),
+      createChange(createField("Opacity", "BisCore:PhysicalElement", "double"), 0.5),
+      createChange(createField("CreatedOn", "BisCore:PhysicalElement", "dateTime"), "2020-01-01T00:00:00Z"),
+      createChange(createField("Placement", "BisCore:PhysicalElement", "point2d"), { x: 1, y: 2 }),
+    ]);
+    expect(updatedElements).to.deep.eq([{
+      id: "0x10",
+      classFullName: "BisCore:PhysicalElement",
+      userLabel: "old",
+      isVisible: false,
+      federationId: 123,
+      opacity: 0.5,
+      createdOn: "2020-01-01T00:00:00Z",
+      placement: { x: 1, y: 2 },
+    }]);
+  });
+
+  it("throws when value exceeds maximum value or is shorter than minimum length", () => {
+    expect(() => updater.update([createChange(createField("Opacity", "BisCore:PhysicalElement", "double"), 1.5)])).to.throw(PresentationError, "greater than 1");
+    expect(() => updater.update([createChange(createField("Code", "BisCore:PhysicalElement", "string"), "a")])).to.throw(PresentationError, "shorter than 2");
+  });
+
+  it("throws when property type can't be updated", () => {
+    expect(() => updater.update([createChange(createField("Data", "BisCore:PhysicalElement", "binary"), "AAEC")])).to.throw(PresentationError, "can't be updated");
+  });
+
+  it("throws when KindOfQuantity of the field doesn't match KindOfQuantity of the property", () => {
+    expect(() => updater.update([createChange(createField("Width", "BisCore:PhysicalElement", "double"), 1.5)])).to.throw(PresentationError, "KindOfQuantity");
+  });
+
+  it("throws when value owner is neither an element nor an element aspect", () => {
+    const change = createChange(createField("IsPrivate", "BisCore:Model", "boolean"), true, [{ className: "BisCore:Model", id: "0x1" }]);
+    expect(() => updater.update([change])).to.throw(PresentationError, "only elements and element aspects");
+  });
+
+  it("throws when iModel is read-only", () => {
+    isReadonly = true;
+    expect(() => updater.update([createChange(createField("Count", "BisCore:PhysicalElement", "int"), 1)])).to.throw(PresentationError, "read-only iModel");
+  });
+
+});
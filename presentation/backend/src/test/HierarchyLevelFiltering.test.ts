@@ -0,0 +1,186 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { expect } from "chai";
+import {
+  ChildNodeRule, ChildNodeSpecification, ChildNodeSpecificationTypes, ECInstancesNodeKey, FieldDescriptorType, InstanceFilterDefinition,
+  InstanceFilterOperator, NodeKey, Ruleset, RuleTypes, StandardNodeTypes,
+} from "@bentley/presentation-common";
+import { createHierarchyLevelFilteredRuleset } from "../presentation-backend/HierarchyLevelFiltering";
+
+describe("createHierarchyLevelFilteredRuleset", () => {
+
+  const filter: InstanceFilterDefinition = {
+    conditions: [{
+      field: {
+        type: FieldDescriptorType.Properties,
+        pathFromSelectToPropertyClass: [],
+        properties: [{ class: "TestSchema:TestClass", name: "TestProperty" }],
+      },
+      operator: InstanceFilterOperator.Equal,
+      value: "test",
+    }],
+  };
+  const filterExpression = `this.TestProperty = "test"`;
+
+  const parentKey: ECInstancesNodeKey = {
+    type: StandardNodeTypes.ECInstancesNode,
+    pathFromRoot: ["a", "b"],
+    instanceKeys: [{ className: "TestSchema:TestClass", id: "0x1f" }],
+  };
+  const parentNodeCondition = `ParentNode.Type = "ECInstancesNode" AndAlso ParentNode.InstanceId = 31`;
+
+  const createInstancesSpec = (instanceFilter?: string): ChildNodeSpecification => ({
+    specType: ChildNodeSpecificationTypes.InstanceNodesOfSpecificClasses,
+    classes: { schemaName: "TestSchema", classNames: ["TestClass"] },
+    ...(instanceFilter ? { instanceFilter } : undefined),
+  });
+  const createRelatedInstancesSpec = (instanceFilter?: string): ChildNodeSpecification => ({
+    specType: ChildNodeSpecificationTypes.RelatedInstanceNodes,
+    relationshipPaths: [],
+    ...(instanceFilter ? { instanceFilter } : undefined),
+  });
+  const customNodeSpec: ChildNodeSpecification = {
+    specType: ChildNodeSpecificationTypes.CustomNode,
+    type: "test",
+    label: "test",
+  };
+
+  it("filters root node specifications when requesting root level", () => {
+    const ruleset: Ruleset = {
+      id: "test",
+      rules: [{
+        ruleType: RuleTypes.RootNodes,
+        specifications: [createInstancesSpec(), { ...createInstancesSpec(), nestedRules: [{ ruleType: RuleTypes.ChildNodes, specifications: [createRelatedInstancesSpec()] }] }, customNodeSpec],
+        subConditions: [{ specifications: [createRelatedInstancesSpec("this.X = 1")] }],
+      }, {
+        ruleType: RuleTypes.ChildNodes,
+        specifications: [createRelatedInstancesSpec()],
+      }, {
+        ruleType: RuleTypes.LabelOverride,
+        label: "test",
+      }],
+    };
+    expect(createHierarchyLevelFilteredRuleset(ruleset, filter)).to.deep.eq({
+      id: "test",
+      rules: [{
+        ruleType: RuleTypes.RootNodes,
+        specifications: [createInstancesSpec(filterExpression), { ...createInstancesSpec(filterExpression), nestedRules: [{ ruleType: RuleTypes.ChildNodes, specifications: [createRelatedInstancesSpec()] }] }, customNodeSpec],
+        subConditions: [{ specifications: [createRelatedInstancesSpec(`(this.X = 1) AndAlso (${filterExpression})`)] }],
+      }, {
+        ruleType: RuleTypes.ChildNodes,
+        specifications: [createRelatedInstancesSpec()],
+      }, {
+        ruleType: RuleTypes.LabelOverride,
+        label: "test",
+      }],
+    });
+  });
+
+  it("filters specifications that create children of the parent node when requesting child level", () => {
+    const ruleset: Ruleset = {
+      id: "test",
+      rules: [{
+        ruleType: RuleTypes.RootNodes,
+        specifications: [{ ...createInstancesSpec(), nestedRules: [{ ruleType: RuleTypes.ChildNodes, specifications: [createRelatedInstancesSpec()] }] }],
+      }, {
+        ruleType: RuleTypes.ChildNodes,
+        specifications: [createRelatedInstancesSpec(), customNodeSpec],
+        subConditions: [{ specifications: [createInstancesSpec()], subConditions: [{ specifications: [createInstancesSpec()] }] }],
+      }, {
+        ruleType: RuleTypes.ChildNodes,
+        condition: "ParentNode.IsInstanceNode",
+        specifications: [{ ...createRelatedInstancesSpec(), nestedRules: [{ ruleType: RuleTypes.ChildNodes, specifications: [createInstancesSpec()] }] }],
+      }, {
+        ruleType: RuleTypes.LabelOverride,
+        label: "test",
+      }],
+    };
+    expect(createHierarchyLevelFilteredRuleset(ruleset, filter, parentKey)).to.deep.eq({
+      id: "test",
+      rules: [{
+        ruleType: RuleTypes.RootNodes,
+        specifications: [{
+          ...createInstancesSpec(),
+          nestedRules: [
+            { ruleType: RuleTypes.ChildNodes, condition: parentNodeCondition, specifications: [createRelatedInstancesSpec(filterExpression)] },
+            { ruleType: RuleTypes.ChildNodes, condition: `Not (${parentNodeCondition})`, specifications: [createRelatedInstancesSpec()] },
+          ],
+        }],
+      }, {
+        ruleType: RuleTypes.ChildNodes,
+        condition: parentNodeCondition,
+        specifications: [createRelatedInstancesSpec(filterExpression), customNodeSpec],
+        subConditions: [{ specifications: [createInstancesSpec(filterExpression)], subConditions: [{ specifications: [createInstancesSpec(filterExpression)] }] }],
+      }, {
+        ruleType: RuleTypes.ChildNodes,
+        condition: `Not (${parentNodeCondition})`,
+        specifications: [createRelatedInstancesSpec(), customNodeSpec],
+        subConditions: [{ specifications: [createInstancesSpec()], subConditions: [{ specifications: [createInstancesSpec()] }] }],
+      }, {
+        // nested rules of the filtered specification create grandchildren of the parent node, so they are split the same way
+        ruleType: RuleTypes.ChildNodes,
+        condition: `(ParentNode.IsInstanceNode) AndAlso (${parentNodeCondition})`,
+        specifications: [{
+          ...createRelatedInstancesSpec(filterExpression),
+          nestedRules: [
+            { ruleType: RuleTypes.ChildNodes, condition: parentNodeCondition, specifications: [createInstancesSpec(filterExpression)] },
+            { ruleType: RuleTypes.ChildNodes, condition: `Not (${parentNodeCondition})`, specifications: [createInstancesSpec()] },
+          ],
+        }],
+      }, {
+        ruleType: RuleTypes.ChildNodes,
+        condition: `(ParentNode.IsInstanceNode) AndAlso (Not (${parentNodeCondition}))`,
+        specifications: [{
+          ...createRelatedInstancesSpec(),
+          nestedRules: [
+            { ruleType: RuleTypes.ChildNodes, condition: parentNodeCondition, specifications: [createInstancesSpec(filterExpression)] },
+            { ruleType: RuleTypes.ChildNodes, condition: `Not (${parentNodeCondition})`, specifications: [createInstancesSpec()] },
+          ],
+        }],
+      }, {
+        ruleType: RuleTypes.LabelOverride,
+        label: "test",
+      }],
+    });
+  });
+
+  it("identifies parent nodes of all types", () => {
+    const ruleset: Ruleset = {
+      id: "test",
+      rules: [{ ruleType: RuleTypes.ChildNodes, specifications: [createRelatedInstancesSpec()] }],
+    };
+    const getParentNodeCondition = (key: NodeKey) => (createHierarchyLevelFilteredRuleset(ruleset, filter, key).rules[0] as ChildNodeRule).condition;
+    const groupingKeyProps = { pathFromRoot: ["a", "b"], groupedInstancesCount: 2 };
+
+    expect(getParentNodeCondition({
+      type: StandardNodeTypes.ECInstancesNode,
+      pathFromRoot: ["a", "b"],
+      instanceKeys: [{ className: "TestSchema:TestClass", id: "0x1f" }, { className: "TestSchema:TestClass", id: "0x1000000000000001" }],
+    })).to.eq(`ParentNode.Type = "ECInstancesNode" AndAlso (ParentNode.InstanceId = 31 OrElse ParentNode.InstanceId = 1152921504606846977)`);
+    expect(getParentNodeCondition({ ...groupingKeyProps, type: StandardNodeTypes.ECClassGroupingNode, className: "TestSchema:TestClass" }))
+      .to.eq(`ParentNode.Type = "ECClassGroupingNode" AndAlso ParentNode.SchemaName = "TestSchema" AndAlso ParentNode.ClassName = "TestClass"`);
+    expect(getParentNodeCondition({
+      ...groupingKeyProps,
+      type: StandardNodeTypes.ECPropertyGroupingNode,
+      className: "TestSchema.TestClass",
+      propertyName: "TestProperty",
+      groupingValue: 1,
+      groupingValues: [1],
+    })).to.eq(`ParentNode.Type = "ECPropertyGroupingNode" AndAlso ParentNode.SchemaName = "TestSchema" AndAlso ParentNode.ClassName = "TestClass"`);
+    expect(getParentNodeCondition({ ...groupingKeyProps, type: StandardNodeTypes.DisplayLabelGroupingNode, label: `"quoted" label` }))
+      .to.eq(`ParentNode.Type = "DisplayLabelGroupingNode" AndAlso ParentNode.Label = """quoted"" label"`);
+    expect(getParentNodeCondition({ type: "custom", pathFromRoot: ["a"] })).to.eq(`ParentNode.Type = "custom"`);
+  });
+
+  it("doesn't modify the input ruleset", () => {
+    const ruleset: Ruleset = {
+      id: "test",
+      rules: [{ ruleType: RuleTypes.RootNodes, specifications: [createInstancesSpec()] }],
+    };
+    createHierarchyLevelFilteredRuleset(ruleset, filter);
+    expect(ruleset.rules).to.deep.eq([{ ruleType: RuleTypes.RootNodes, specifications: [createInstancesSpec()] }]);
+  });
+
+});
@@ -0,0 +1,343 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { expect } from "chai";
+import { IModelStatus } from "@bentley/bentleyjs-core";
+import { IModelDb } from "@bentley/imodeljs-backend";
+import {
+  ChildNodeSpecificationTypes, ContentSpecificationTypes, GroupingSpecificationTypes, InstanceLabelOverrideValueSpecificationType,
+  QuerySpecificationTypes, RelationshipDirection, Rule, Ruleset, RulesetValidationIssueSeverity, RuleTypes,
+} from "@bentley/presentation-common";
+import * as moq from "@bentley/presentation-common/lib/test/_helpers/Mocks";
+import { IModelRulesetValidator } from "../presentation-backend/IModelRulesetValidator";
+
+const createConstraint = (roleLabel: string, className: string) => ({
+  polymorphic: true,
+  multiplicity: "(0..*)",
+  roleLabel,
+  constraintClasses: [`Test.${className}`],
+});
+
+/* eslint-disable @typescript-eslint/naming-convention */
+const testSchema = {
+  $schema: "https://dev.bentley.com/json_schemas/ec/32/ecschema",
+  name: "Test",
+  version: "1.0.0",
+  alias: "t",
+  items: {
+    Model: {
+      schemaItemType: "EntityClass",
+      properties: [{ name: "IsPrivate", type: "PrimitiveProperty", typeName: "boolean" }],
+    },
+    Element: {
+      schemaItemType: "EntityClass",
+      properties: [{ name: "CodeValue", type: "PrimitiveProperty", typeName: "string" }],
+    },
+    PhysicalElement: {
+      schemaItemType: "EntityClass",
+      baseClass: "Test.Element",
+      properties: [{ name: "Material", type: "PrimitiveProperty", typeName: "string" }],
+    },
+    Category: {
+      schemaItemType: "EntityClass",
+    },
+    ModelContainsElements: {
+      schemaItemType: "RelationshipClass",
+      strength: "embedding",
+      strengthDirection: "forward",
+      source: createConstraint("contains", "Model"),
+      target: createConstraint("is contained by", "Element"),
+    },
+    ElementIsInCategory: {
+      schemaItemType: "RelationshipClass",
+      strength: "referencing",
+      strengthDirection: "forward",
+      source: createConstraint("is in", "Element"),
+      target: createConstraint("categorizes", "Category"),
+    },
+  },
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+describe("IModelRulesetValidator", () => {
+
+  let imodelMock: moq.IMock<IModelDb>;
+  let validator: IModelRulesetValidator;
+
+  beforeEach(() => {
+    const nativeDb = {
+      getSchema: (name: string) => (name === "Test") ? { result: JSON.stringify(testSchema) } : { error: { status: IModelStatus.NotFound } },
+    };
+    imodelMock = moq.Mock.ofType<IModelDb>();
+    imodelMock.setup((x) => x.nativeDb).returns(() => nativeDb as any);
+    validator = new IModelRulesetValidator({ imodel: imodelMock.object });
+  });
+
+  const createRuleset = (rules: Rule[]): Ruleset => ({ id: "test", rules });
+
+  it("returns no issues for ruleset matching iModel schemas", () => {
+    const ruleset = createRuleset([{
+      ruleType: RuleTypes.RootNodes,
+      specifications: [{
+        specType: ChildNodeSpecificationTypes.InstanceNodesOfSpecificClasses,
+        classes: { schemaName: "Test", classNames: ["Model", "E:Category"] },
+        relatedInstances: [{
+          relationshipPath: [{
+            relationship: { schemaName: "Test", className: "ModelContainsElements" },
+            direction: RelationshipDirection.Forward,
+            targetClass: { schemaName: "Test", className: "PhysicalElement" },
+          }, {
+            relationship: { schemaName: "Test", className: "ElementIsInCategory" },
+            direction: RelationshipDirection.Forward,
+          }],
+          alias: "category",
+        }],
+        nestedRules: [{
+          ruleType: RuleTypes.ChildNodes,
+          specifications: [{
+            specType: ChildNodeSpecificationTypes.CustomQueryInstanceNodes,
+            queries: [{ specType: QuerySpecificationTypes.String, class: { schemaName: "Test", className: "Element" }, query: "SELECT * FROM t.Element" }],
+          }],
+        }],
+      }],
+    }, {
+      ruleType: RuleTypes.ChildNodes,
+      subConditions: [{
+        specifications: [{
+          specType: ChildNodeSpecificationTypes.RelatedInstanceNodes,
+          relationshipPaths: [{
+            relationship: { schemaName: "Test", className: "ModelContainsElements" },
+            direction: RelationshipDirection.Backward,
+            targetClass: { schemaName: "Test", className: "Model" },
+          }],
+        }],
+      }],
+    }, {
+      ruleType: RuleTypes.Content,
+      specifications: [{
+        specType: ContentSpecificationTypes.ContentInstancesOfSpecificClasses,
+        classes: { schemaName: "Test", classNames: ["PhysicalElement"] },
+        propertyOverrides: [{ name: "Material" }, { name: "CodeValue" }, { name: "*" }],
+        relatedProperties: [{
+          propertiesSource: {
+            relationship: { schemaName: "Test", className: "ModelContainsElements" },
+            direction: RelationshipDirection.Backward,
+          },
+          properties: ["IsPrivate"],
+        }],
+      }],
+    }, {
+      ruleType: RuleTypes.ContentModifier,
+      class: { schemaName: "Test", className: "Element" },
+      relatedProperties: [{
+        relationships: { schemaName: "Test", classNames: ["ModelContainsElements"] },
+        relatedClasses: { schemaName: "Test", classNames: ["Model"] },
+        requiredDirection: RelationshipDirection.Backward,
+        propertyNames: ["IsPrivate"],
+      }],
+    }, {
+      ruleType: RuleTypes.Grouping,
+      class: { schemaName: "Test", className: "PhysicalElement" },
+      groups: [{ specType: GroupingSpecificationTypes.Property, propertyName: "Material" }],
+    }, {
+      ruleType: RuleTypes.InstanceLabelOverride,
+      class: { schemaName: "Test", className: "Element" },
+      values: [{
+        specType: InstanceLabelOverrideValueSpecificationType.Composite,
+        parts: [{ spec: { specType: InstanceLabelOverrideValueSpecificationType.Property, propertyName: "CodeValue" } }],
+      }],
+    }]);
+    expect(validator.validate({ ...ruleset, supportedSchemas: { schemaNames: ["Test"] } })).to.be.empty;
+  });
+
+  it("reports issues found without looking at iModel schemas", () => {
+    const ruleset = createRuleset([{
+      ruleType: RuleTypes.Content,
+      condition: "TRUE AND",
+      specifications: [],
+    }]);
+    expect(validator.validate(ruleset)).to.deep.eq([{
+      severity: RulesetValidationIssueSeverity.Error,
+      path: "rules[0].condition",
+      message: `Invalid ECExpression "TRUE AND": unexpected end of expression`,
+    }]);
+  });
+
+  it("reports schemas that don't exist in the iModel", () => {
+    const ruleset = { ...createRuleset([]), supportedSchemas: { schemaNames: ["Test", "Missing"] } };
+    expect(validator.validate(ruleset)).to.deep.eq([{
+      severity: RulesetValidationIssueSeverity.Warning,
+      path: "supportedSchemas.schemaNames[1]",
+      message: `Schema "Missing" does not exist in the iModel`,
+    }]);
+  });
+
+  it("reports unknown schemas and classes", () => {
+    const ruleset = createRuleset([{
+      ruleType: RuleTypes.RootNodes,
+      specifications: [{
+        specType: ChildNodeSpecificationTypes.InstanceNodesOfSpecificClasses,
+        classes: [{ schemaName: "Test", classNames: ["Model", "E:Modle"] }, { schemaName: "Tset", classNames: ["Model"] }],
+      }],
+    }, {
+      ruleType: RuleTypes.Grouping,
+      class: { schemaName: "Test", className: "Elemnt" },
+      groups: [{ specType: GroupingSpecificationTypes.Class, baseClass: { schemaName: "Test", className: "Elemnt" } }],
+    }, {
+      ruleType: RuleTypes.DisabledSorting,
+      class: { schemaName: "Test", className: "Elemnt" },
+    }]);
+    expect(validator.validate(ruleset)).to.deep.eq([{
+      severity: RulesetValidationIssueSeverity.Error,
+      path: "rules[0].specifications[0].classes[0].classNames[1]",
+      message: `Class "Test:Modle" does not exist in the iModel`,
+    }, {
+      severity: RulesetValidationIssueSeverity.Error,
+      path: "rules[0].specifications[0].classes[1].classNames[0]",
+      message: `Schema "Tset" does not exist in the iModel`,
+    }, {
+      severity: RulesetValidationIssueSeverity.Error,
+      path: "rules[1].class",
+      message: `Class "Test:Elemnt" does not exist in the iModel`,
+    }, {
+      severity: RulesetValidationIssueSeverity.Error,
+      path: "rules[1].groups[0].baseClass",
+      message: `Class "Test:Elemnt" does not exist in the iModel`,
+    }, {
+      severity: RulesetValidationIssueSeverity.Error,
+      path: "rules[2].class",
+      message: `Class "Test:Elemnt" does not exist in the iModel`,
+    }]);
+  });
+
+  it("reports non-relationship classes used as relationships", () => {
+    const ruleset = createRuleset([{
+      ruleType: RuleTypes.Content,
+      specifications: [{
+        specType: ContentSpecificationTypes.ContentRelatedInstances,
+        relationshipPaths: [{
+          relationship: { schemaName: "Test", className: "Element" },
+          direction: RelationshipDirection.Forward,
+        }],
+      }, {
+        specType: ContentSpecificationTypes.ContentRelatedInstances,
+        relationships: { schemaName: "Test", classNames: ["Model"] },
+      }],
+    }]);
+    expect(validator.validate(ruleset)).to.deep.eq([{
+      severity: RulesetValidationIssueSeverity.Error,
+      path: "rules[0].specifications[0].relationshipPaths[0].relationship",
+      message: `Class "Test.Element" is not a relationship class`,
+    }, {
+      severity: RulesetValidationIssueSeverity.Error,
+      path: "rules[0].specifications[1].relationships.classNames[0]",
+      message: `Class "Test.Model" is not a relationship class`,
+    }]);
+  });
+
+  it("reports unknown properties", () => {
+    const ruleset = createRuleset([{
+      ruleType: RuleTypes.ContentModifier,
+      class: { schemaName: "Test", className: "Element" },
+      propertyOverrides: [{ name: "Material" }],
+      propertiesDisplay: [{ propertyNames: ["CodeValue", "Code"] }],
+      propertyEditors: [{ propertyName: "Label", editorName: "test" }],
+      relatedProperties: [{
+        propertiesSource: {
+          relationship: { schemaName: "Test", className: "ElementIsInCategory" },
+          direction: RelationshipDirection.Forward,
+          targetClass: { schemaName: "Test", className: "Category" },
+        },
+        properties: [{ name: "CodeValue" }],
+      }],
+    }, {
+      ruleType: RuleTypes.PropertySorting,
+      class: { schemaName: "Test", className: "Model" },
+      propertyName: "Name",
+    }, {
+      ruleType: RuleTypes.Grouping,
+      class: { schemaName: "Test", className: "Model" },
+      groups: [{ specType: GroupingSpecificationTypes.Property, propertyName: "Name" }],
+    }, {
+      ruleType: RuleTypes.InstanceLabelOverride,
+      class: { schemaName: "Test", className: "Model" },
+      values: [{ specType: InstanceLabelOverrideValueSpecificationType.Property, propertyName: "Name" }],
+    }]);
+    expect(validator.validate(ruleset).map((issue) => [issue.path, issue.message])).to.deep.eq([
+      ["rules[0].relatedProperties[0].properties[0].name", `Property "CodeValue" does not exist in "Test.Category"`],
+      ["rules[0].propertyOverrides[0].name", `Property "Material" does not exist in "Test.Element"`],
+      ["rules[0].propertiesDisplay[0].propertyNames[1]", `Property "Code" does not exist in "Test.Element"`],
+      ["rules[0].propertyEditors[0].propertyName", `Property "Label" does not exist in "Test.Element"`],
+      ["rules[1].propertyName", `Property "Name" does not exist in "Test.Model"`],
+      ["rules[2].groups[0].propertyName", `Property "Name" does not exist in "Test.Model"`],
+      ["rules[3].values[0].propertyName", `Property "Name" does not exist in "Test.Model"`],
+    ]);
+  });
+
+  it("reports relationships followed in wrong direction", () => {
+    const ruleset = createRuleset([{
+      ruleType: RuleTypes.Content,
+      specifications: [{
+        specType: ContentSpecificationTypes.ContentInstancesOfSpecificClasses,
+        classes: { schemaName: "Test", classNames: ["Model"] },
+        relatedInstances: [{
+          relationshipPath: {
+            relationship: { schemaName: "Test", className: "ModelContainsElements" },
+            direction: RelationshipDirection.Backward,
+          },
+          alias: "element",
+        }, {
+          relationship: { schemaName: "Test", className: "ElementIsInCategory" },
+          class: { schemaName: "Test", className: "Category" },
+          requiredDirection: RelationshipDirection.Forward,
+          alias: "category",
+        }],
+      }, {
+        specType: ContentSpecificationTypes.ContentRelatedInstances,
+        relationshipPaths: [[{
+          relationship: { schemaName: "Test", className: "ModelContainsElements" },
+          direction: RelationshipDirection.Forward,
+          targetClass: { schemaName: "Test", className: "Model" },
+        }, {
+          relationship: { schemaName: "Test", className: "ElementIsInCategory" },
+          direction: RelationshipDirection.Forward,
+          targetClass: { schemaName: "Test", className: "Element" },
+        }]],
+      }, {
+        specType: ContentSpecificationTypes.ContentRelatedInstances,
+        relationships: { schemaName: "Test", classNames: ["ModelContainsElements"] },
+        relatedClasses: { schemaName: "Test", classNames: ["Model", "Category"] },
+        requiredDirection: RelationshipDirection.Forward,
+      }],
+    }]);
+    expect(validator.validate(ruleset).map((issue) => [issue.path, issue.message])).to.deep.eq([
+      ["rules[0].specifications[0].relatedInstances[0].relationshipPath.direction", `Relationship "Test.ModelContainsElements" can't be followed in "Backward" direction from "Test.Model" - the direction should be reversed`],
+      ["rules[0].specifications[0].relatedInstances[1]", `Relationship "Test.ElementIsInCategory" can't be followed from "Test.Model"`],
+      ["rules[0].specifications[1].relationshipPaths[0][0].direction", `Relationship "Test.ModelContainsElements" leads to "Test.Model" only in the opposite direction than "Forward"`],
+      ["rules[0].specifications[1].relationshipPaths[0][1].direction", `Relationship "Test.ElementIsInCategory" can't be followed from "Test.Model"`],
+      ["rules[0].specifications[2].relatedClasses", `Class "Test.Model" can only be reached by following the relationships in the opposite direction than "Forward"`],
+      ["rules[0].specifications[2].relatedClasses", `Class "Test.Category" can't be reached by following any of the relationships`],
+    ]);
+  });
+
+  it("reports relationship target classes that can't be reached", () => {
+    const ruleset = createRuleset([{
+      ruleType: RuleTypes.ChildNodes,
+      specifications: [{
+        specType: ChildNodeSpecificationTypes.RelatedInstanceNodes,
+        relationshipPaths: [{
+          relationship: { schemaName: "Test", className: "ElementIsInCategory" },
+          direction: RelationshipDirection.Forward,
+          targetClass: { schemaName: "Test", className: "Model" },
+        }],
+      }],
+    }]);
+    expect(validator.validate(ruleset)).to.deep.eq([{
+      severity: RulesetValidationIssueSeverity.Error,
+      path: "rules[0].specifications[0].relationshipPaths[0].targetClass",
+      message: `Class "Test.Model" can't be reached by following relationship "Test.ElementIsInCategory"`,
+    }]);
+  });
+
+});
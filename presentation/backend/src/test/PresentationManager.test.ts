@@ -6,25 +6,28 @@
 import "@bentley/presentation-common/lib/test/_helpers/Promises";
 import { expect } from "chai";
 import * as faker from "faker";
+import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 import * as sinon from "sinon";
+import { Writable } from "stream";
 import * as moq from "typemoq";
 import { ClientRequestContext, DbResult, using } from "@bentley/bentleyjs-core";
 import { BriefcaseDb, ECSqlStatement, ECSqlValue, EventSink, IModelDb, IModelHost } from "@bentley/imodeljs-backend";
 import {
-  ArrayTypeDescription, ContentDescriptorRequestOptions, ContentFlags, ContentJSON, ContentRequestOptions, DefaultContentDisplayTypes, Descriptor,
-  DescriptorJSON, DiagnosticsOptions, DiagnosticsScopeLogs, DisplayLabelRequestOptions, DisplayLabelsRequestOptions, DistinctValuesRequestOptions,
+  ArrayTypeDescription, ChildNodeSpecificationTypes, ContentDescriptorRequestOptions, ContentExportFormat, ContentExportRequestOptions, ContentFlags, ContentJSON,
+  ContentRequestOptions, DefaultContentDisplayTypes, Descriptor, DescriptorJSON, DiagnosticsOptions, DiagnosticsScopeLogs, DisplayLabelRequestOptions, DisplayLabelsRequestOptions, DistinctValuesRequestOptions,
   ExtendedContentRequestOptions, ExtendedHierarchyRequestOptions, FieldDescriptor, FieldDescriptorType, FieldJSON, getLocalesDirectory,
-  HierarchyRequestOptions, InstanceKey, ItemJSON, KeySet, KindOfQuantityInfo, LabelDefinition, LabelRequestOptions, NestedContentFieldJSON, NodeJSON,
+  HierarchyRequestOptions, InstanceFilterDefinition, InstanceFilterOperator, InstanceKey, Item, ItemJSON, KeySet, KindOfQuantityInfo, LabelDefinition, LabelRequestOptions, NestedContentFieldJSON, NodeJSON,
   NodeKey, Paged, PageOptions, PartialHierarchyModification, PartialHierarchyModificationJSON, PresentationDataCompareOptions, PresentationError,
   PresentationUnitSystem, PrimitiveTypeDescription, PropertiesFieldJSON, PropertyInfoJSON, PropertyJSON, RegisteredRuleset, RequestPriority, Ruleset,
-  SelectClassInfoJSON, SelectionInfo, SelectionScope, StandardNodeTypes, StructTypeDescription, VariableValueTypes,
+  RuleTypes, SelectClassInfoJSON, SelectionInfo, SelectionScope, StandardNodeTypes, StructTypeDescription, VariableValueTypes,
 } from "@bentley/presentation-common";
 import {
   createRandomCategory, createRandomDescriptor, createRandomDescriptorJSON, createRandomECClassInfoJSON, createRandomECInstanceKey,
   createRandomECInstanceKeyJSON, createRandomECInstancesNodeJSON, createRandomECInstancesNodeKey, createRandomECInstancesNodeKeyJSON, createRandomId,
-  createRandomLabelDefinitionJSON, createRandomNodePathElementJSON, createRandomRelatedClassInfoJSON, createRandomRelationshipPathJSON,
-  createRandomRuleset,
+  createRandomLabelDefinitionJSON, createRandomNodePathElementJSON, createRandomPropertiesField, createRandomRelatedClassInfoJSON,
+  createRandomRelationshipPathJSON, createRandomRuleset,
 } from "@bentley/presentation-common/lib/test/_helpers/random";
 import { PRESENTATION_BACKEND_ASSETS_ROOT, PRESENTATION_COMMON_ASSETS_ROOT } from "../presentation-backend/Constants";
 import { NativePlatformDefinition, NativePlatformRequestTypes } from "../presentation-backend/NativePlatform";
@@ -782,6 +785,143 @@ describe("PresentationManager", () => {
         verifyWithSnapshot(result, expectedParams);
       });
 
+      describe("with instance filter", () => {
+
+        const instanceFilter: InstanceFilterDefinition = {
+          conditions: [{
+            field: {
+              type: FieldDescriptorType.Properties,
+              pathFromSelectToPropertyClass: [],
+              properties: [{ class: "TestSchema:TestClass", name: "TestProperty" }],
+            },
+            operator: InstanceFilterOperator.Equal,
+            value: 123,
+          }],
+        };
+        const ruleset: Ruleset = {
+          id: "test",
+          rules: [{
+            ruleType: RuleTypes.RootNodes,
+            specifications: [{
+              specType: ChildNodeSpecificationTypes.InstanceNodesOfSpecificClasses,
+              classes: { schemaName: "TestSchema", classNames: ["TestClass"] },
+            }],
+          }],
+        };
+        const filteredRuleset: Ruleset = {
+          ...ruleset,
+          rules: [{
+            ruleType: RuleTypes.RootNodes,
+            specifications: [{
+              specType: ChildNodeSpecificationTypes.InstanceNodesOfSpecificClasses,
+              classes: { schemaName: "TestSchema", classNames: ["TestClass"] },
+              instanceFilter: "this.TestProperty = 123",
+            }],
+          }],
+        };
+
+        it("requests nodes using filtered ruleset", async () => {
+          setup([]);
+          const result = await manager.getNodes({
+            requestContext: ClientRequestContext.current,
+            imodel: imodelMock.object,
+            rulesetOrId: ruleset,
+            instanceFilter,
+          });
+          const registeredRuleset: Ruleset = (manager.rulesets().add as sinon.SinonStub).firstCall.args[0];
+          expect(registeredRuleset).to.deep.eq({ ...filteredRuleset, id: registeredRuleset.id });
+          expect(registeredRuleset.id).to.not.eq(manager.getRulesetId(ruleset));
+          verifyWithExpectedResult(result, [], {
+            requestId: NativePlatformRequestTypes.GetRootNodes,
+            params: { rulesetId: registeredRuleset.id },
+          });
+        });
+
+        it("requests nodes using filtered registered ruleset", async () => {
+          setup([]);
+          (manager.rulesets().get as sinon.SinonStub).returns(new RegisteredRuleset(ruleset, "", () => { }));
+          await manager.getNodes({
+            requestContext: ClientRequestContext.current,
+            imodel: imodelMock.object,
+            rulesetOrId: ruleset.id,
+            instanceFilter,
+          });
+          const registeredRuleset: Ruleset = (manager.rulesets().add as sinon.SinonStub).firstCall.args[0];
+          expect(registeredRuleset).to.deep.eq({ ...filteredRuleset, id: registeredRuleset.id });
+        });
+
+        it("requests nodes using original ruleset when filter has no conditions", async () => {
+          setup([]);
+          await manager.getNodes({
+            requestContext: ClientRequestContext.current,
+            imodel: imodelMock.object,
+            rulesetOrId: ruleset,
+            instanceFilter: { conditions: [] },
+          });
+          verifyMockRequest({
+            requestId: NativePlatformRequestTypes.GetRootNodes,
+            params: { rulesetId: manager.getRulesetId(ruleset) },
+          });
+        });
+
+        it("unregisters filtered ruleset when hierarchy level filter changes", async () => {
+          setup([]);
+          const requestNodes = async (filter?: InstanceFilterDefinition) => manager.getNodes({
+            requestContext: ClientRequestContext.current,
+            imodel: imodelMock.object,
+            rulesetOrId: ruleset,
+            instanceFilter: filter,
+          });
+          const getAddedRulesetId = (callIndex: number): string => (manager.rulesets().add as sinon.SinonStub).getCall(callIndex).args[0].id;
+          const getRemovedRulesetIds = (): string[] => (manager.rulesets().remove as sinon.SinonStub).getCalls().map((call) => call.args[0].id);
+
+          await requestNodes(instanceFilter);
+          await requestNodes(instanceFilter);
+          expect(getAddedRulesetId(1)).to.eq(getAddedRulesetId(0));
+          expect(getRemovedRulesetIds()).to.be.empty;
+
+          await requestNodes({ conditions: [{ ...instanceFilter.conditions[0], value: 456 }] });
+          expect(getAddedRulesetId(2)).to.not.eq(getAddedRulesetId(0));
+          expect(getRemovedRulesetIds()).to.deep.eq([getAddedRulesetId(0)]);
+
+          await requestNodes(undefined);
+          expect(getRemovedRulesetIds()).to.deep.eq([getAddedRulesetId(0), getAddedRulesetId(2)]);
+        });
+
+        it("registers separate filtered rulesets for different hierarchy levels", async () => {
+          setup([]);
+          const requestNodes = async (parentKey: NodeKey, filter?: InstanceFilterDefinition) => manager.getNodes({
+            requestContext: ClientRequestContext.current,
+            imodel: imodelMock.object,
+            rulesetOrId: ruleset,
+            parentKey,
+            instanceFilter: filter,
+          });
+          const getAddedRulesetId = (callIndex: number): string => (manager.rulesets().add as sinon.SinonStub).getCall(callIndex).args[0].id;
+          const getRemovedRulesetIds = (): string[] => (manager.rulesets().remove as sinon.SinonStub).getCalls().map((call) => call.args[0].id);
+
+          const parentKeys = [createRandomECInstancesNodeKey(), createRandomECInstancesNodeKey()];
+          await requestNodes(parentKeys[0], instanceFilter);
+          await requestNodes(parentKeys[1], instanceFilter);
+          expect(getAddedRulesetId(1)).to.not.eq(getAddedRulesetId(0));
+
+          await requestNodes(parentKeys[0], undefined);
+          expect(getRemovedRulesetIds()).to.deep.eq([getAddedRulesetId(0)]);
+        });
+
+        it("throws when ruleset with given id is not registered", async () => {
+          // the request fails before reaching the addon
+          nativePlatformMock.reset();
+          await expect(manager.getNodes({
+            requestContext: ClientRequestContext.current,
+            imodel: imodelMock.object,
+            rulesetOrId: "does-not-exist",
+            instanceFilter,
+          })).to.eventually.be.rejectedWith(PresentationError);
+        });
+
+      });
+
     });
 
     describe("getNodesCount", () => {
@@ -859,6 +999,48 @@ describe("PresentationManager", () => {
         verifyWithExpectedResult(result, addonResponse, expectedParams);
       });
 
+      it("returns child nodes count using ruleset filtered by instance filter", async () => {
+        const parentNodeKeyJSON = createRandomECInstancesNodeKeyJSON();
+        setup(5);
+        const ruleset: Ruleset = {
+          id: "test",
+          rules: [{
+            ruleType: RuleTypes.ChildNodes,
+            specifications: [{
+              specType: ChildNodeSpecificationTypes.RelatedInstanceNodes,
+              relationshipPaths: [],
+              instanceFilter: "this.A = 1",
+            }],
+          }],
+        };
+        const result = await manager.getNodesCount({
+          requestContext: ClientRequestContext.current,
+          imodel: imodelMock.object,
+          rulesetOrId: ruleset,
+          parentKey: NodeKey.fromJSON(parentNodeKeyJSON),
+          instanceFilter: {
+            conditions: [{
+              field: { type: FieldDescriptorType.Properties, pathFromSelectToPropertyClass: [], properties: [{ class: "TestSchema:TestClass", name: "B" }] },
+              operator: InstanceFilterOperator.IsNull,
+            }],
+          },
+        });
+        const registeredRuleset: Ruleset = (manager.rulesets().add as sinon.SinonStub).firstCall.args[0];
+        expect(registeredRuleset.rules).to.have.lengthOf(2);
+        expect(registeredRuleset.rules[0]).to.containSubset({
+          ruleType: RuleTypes.ChildNodes,
+          specifications: [{
+            specType: ChildNodeSpecificationTypes.RelatedInstanceNodes,
+            relationshipPaths: [],
+            instanceFilter: "(this.A = 1) AndAlso (IsNull(this.B))",
+          }],
+        });
+        verifyWithExpectedResult(result, 5, {
+          requestId: NativePlatformRequestTypes.GetChildrenCount,
+          params: { nodeKey: parentNodeKeyJSON, rulesetId: registeredRuleset.id },
+        });
+      });
+
     });
 
     describe("[deprecated] getNodesAndCount", () => {
@@ -2408,6 +2590,159 @@ describe("PresentationManager", () => {
 
     });
 
+    describe("exportContent", () => {
+
+      let keys: KeySet;
+      let descriptor: Descriptor;
+      let addonResponse: ContentJSON;
+
+      beforeEach(() => {
+        keys = new KeySet([createRandomECInstanceKey()]);
+        descriptor = createRandomDescriptor();
+        addonResponse = {
+          descriptor: {
+            connectionId: faker.random.uuid(),
+            inputKeysHash: faker.random.uuid(),
+            contentOptions: {},
+            displayType: descriptor.displayType,
+            selectClasses: [],
+            fields: [{
+              name: "name",
+              category: createRandomCategory(),
+              label: "Name",
+              type: {
+                typeName: "string",
+                valueFormat: "Primitive",
+              } as PrimitiveTypeDescription,
+              isReadonly: false,
+              priority: 0,
+            }],
+            contentFlags: 0,
+          } as DescriptorJSON,
+          contentSet: ["a", "b"].map((name) => ({
+            primaryKeys: [createRandomECInstanceKeyJSON()],
+            classInfo: createRandomECClassInfoJSON(),
+            labelDefinition: createRandomLabelDefinitionJSON(),
+            imageId: "",
+            values: { name },
+            displayValues: { name: name.toUpperCase() },
+            mergedFieldNames: [],
+          } as ItemJSON)),
+        };
+      });
+
+      const createExpectedParams = (start: number, size: number) => ({
+        requestId: NativePlatformRequestTypes.GetContent,
+        params: {
+          keys: keys.toJSON(),
+          descriptorOverrides: descriptor.createDescriptorOverrides(),
+          paging: { start, size },
+          rulesetId: manager.getRulesetId(testData.rulesetOrId),
+          unitSystem: PresentationUnitSystem.UsCustomary,
+        },
+      });
+
+      it("exports content to a stream", async () => {
+        let exported = "";
+        const stream = new Writable({
+          write: (chunk: Buffer, _encoding: string, callback: () => void) => {
+            exported += chunk.toString();
+            callback();
+          },
+        });
+        const options: WithClientRequestContext<ContentExportRequestOptions<IModelDb, Descriptor, KeySet>> = {
+          requestContext: ClientRequestContext.current,
+          imodel: imodelMock.object,
+          rulesetOrId: testData.rulesetOrId,
+          unitSystem: PresentationUnitSystem.UsCustomary,
+          keys,
+          descriptor,
+          format: ContentExportFormat.Csv,
+        };
+        setup(addonResponse);
+        const count = await manager.exportContent(options, stream);
+        verifyMockRequest(createExpectedParams(0, 1000));
+        expect(count).to.eq(2);
+        expect(exported).to.eq("Name\r\nA\r\nB\r\n");
+      });
+
+      it("requests next page when current page is full", async () => {
+        const stream = new Writable({ write: (_chunk: Buffer, _encoding: string, callback: () => void) => callback() });
+        const options: WithClientRequestContext<ContentExportRequestOptions<IModelDb, Descriptor, KeySet>> = {
+          requestContext: ClientRequestContext.current,
+          imodel: imodelMock.object,
+          rulesetOrId: testData.rulesetOrId,
+          unitSystem: PresentationUnitSystem.UsCustomary,
+          keys,
+          descriptor,
+          format: ContentExportFormat.Csv,
+          pageSize: 3,
+        };
+        const isPageRequest = (start: number) => moq.It.is((serializedParams: string) => JSON.parse(serializedParams).params.paging.start === start);
+        nativePlatformMock.setup(async (x) => x.handleRequest(moq.It.isAny(), isPageRequest(0)))
+          .returns(async () => ({ result: JSON.stringify({ ...addonResponse, contentSet: [...addonResponse.contentSet, addonResponse.contentSet[0]] }) }));
+        nativePlatformMock.setup(async (x) => x.handleRequest(moq.It.isAny(), isPageRequest(3)))
+          .returns(async () => ({ result: JSON.stringify({ ...addonResponse, contentSet: [] }) }));
+        const count = await manager.exportContent(options, stream);
+        verifyMockRequest(createExpectedParams(0, 3));
+        verifyMockRequest(createExpectedParams(3, 3));
+        expect(count).to.eq(3);
+      });
+
+      it("exports raw values to a file", async () => {
+        const outputPath = path.join(os.tmpdir(), `${faker.random.uuid()}.jsonl`);
+        const options: WithClientRequestContext<ContentExportRequestOptions<IModelDb, Descriptor, KeySet>> = {
+          requestContext: ClientRequestContext.current,
+          imodel: imodelMock.object,
+          rulesetOrId: testData.rulesetOrId,
+          unitSystem: PresentationUnitSystem.UsCustomary,
+          keys,
+          descriptor,
+          format: ContentExportFormat.JsonLines,
+          rawValues: true,
+        };
+        setup(addonResponse);
+        try {
+          expect(await manager.exportContent(options, outputPath)).to.eq(2);
+          expect(fs.readFileSync(outputPath, "utf8")).to.eq(`{"name":"a"}\n{"name":"b"}\n`);
+        } finally {
+          fs.unlinkSync(outputPath);
+        }
+      });
+
+      it("rejects when the file can't be written", async () => {
+        const outputPath = path.join(os.tmpdir(), faker.random.uuid(), "content.csv");
+        const options: WithClientRequestContext<ContentExportRequestOptions<IModelDb, Descriptor, KeySet>> = {
+          requestContext: ClientRequestContext.current,
+          imodel: imodelMock.object,
+          rulesetOrId: testData.rulesetOrId,
+          keys,
+          descriptor,
+          format: ContentExportFormat.Csv,
+        };
+        setup(addonResponse);
+        await expect(manager.exportContent(options, outputPath)).to.eventually.be.rejectedWith(Error, "ENOENT");
+      });
+
+    });
+
+    describe("updateContentValues", () => {
+
+      it("throws when iModel is read-only", async () => {
+        // the request fails before reaching the addon
+        nativePlatformMock.reset();
+        const readonlyIModelMock = moq.Mock.ofType<IModelDb>();
+        readonlyIModelMock.setup((x) => x.isReadonly).returns(() => true);
+        const item = new Item([createRandomECInstanceKey()], "", "", undefined, {}, {}, []);
+        await expect(manager.updateContentValues({
+          requestContext: ClientRequestContext.current,
+          imodel: readonlyIModelMock.object,
+          changes: [{ item, field: createRandomPropertiesField(), value: "test" }],
+        })).to.eventually.be.rejectedWith(PresentationError);
+      });
+
+    });
+
     describe("getDisplayLabelDefinition", () => {
 
       it("[deprecated] returns label from native addon", async () => {
@@ -9,8 +9,8 @@ import { ClientRequestContext, Id64String, Logger } from "@bentley/bentleyjs-cor
 import { IModelDb } from "@bentley/imodeljs-backend";
 import { IModelNotFoundResponse, IModelRpcProps } from "@bentley/imodeljs-common";
 import {
-  ContentDescriptorRequestOptions, ContentDescriptorRpcRequestOptions, ContentRequestOptions, ContentRpcRequestOptions, Descriptor, DescriptorJSON,
-  DescriptorOverrides, DiagnosticsScopeLogs, DisplayLabelRequestOptions, DisplayLabelRpcRequestOptions, DisplayLabelsRequestOptions,
+  ContentDescriptorRequestOptions, ContentDescriptorRpcRequestOptions, ContentExportFormat, ContentExportRequestOptions, ContentExportRpcRequestOptions,
+  ContentRequestOptions, ContentRpcRequestOptions, Descriptor, DescriptorJSON, DescriptorOverrides, DiagnosticsScopeLogs, DisplayLabelRequestOptions, DisplayLabelRpcRequestOptions, DisplayLabelsRequestOptions,
   DisplayLabelsRpcRequestOptions, DistinctValuesRequestOptions, ExtendedContentRequestOptions, ExtendedContentRpcRequestOptions,
   ExtendedHierarchyRequestOptions, ExtendedHierarchyRpcRequestOptions, FieldDescriptor, FieldDescriptorType, HierarchyRequestOptions,
   HierarchyRpcRequestOptions, HierarchyUpdateInfo, InstanceKey, Item, KeySet, KeySetJSON, Node, NodeKey, NodePathElement, Paged, PageOptions,
@@ -25,7 +25,7 @@ import {
 } from "@bentley/presentation-common/lib/test/_helpers/random";
 import { Presentation } from "../presentation-backend/Presentation";
 import { PresentationManager } from "../presentation-backend/PresentationManager";
-import { MAX_ALLOWED_PAGE_SIZE, PresentationRpcImpl } from "../presentation-backend/PresentationRpcImpl";
+import { MAX_ALLOWED_CONTENT_EXPORT_ROWS, MAX_ALLOWED_PAGE_SIZE, PresentationRpcImpl } from "../presentation-backend/PresentationRpcImpl";
 import { RulesetManager } from "../presentation-backend/RulesetManager";
 import { RulesetVariablesManager } from "../presentation-backend/RulesetVariablesManager";
 import { WithClientRequestContext } from "../presentation-backend/Utils";
@@ -1489,6 +1489,72 @@ describe("PresentationRpcImpl", () => {
 
     });
 
+    describe("exportContent", () => {
+
+      const testExport = async (format: ContentExportFormat, exportedData: Buffer) => {
+        const keys = new KeySet();
+        const descriptor = createRandomDescriptor();
+        const managerOptions: WithClientRequestContext<ContentExportRequestOptions<IModelDb, Descriptor, KeySet>> = {
+          requestContext: ClientRequestContext.current,
+          rulesetOrId: testData.rulesetOrId,
+          imodel: testData.imodelMock.object,
+          descriptor,
+          keys,
+          format,
+        };
+        const rpcOptions: ContentExportRpcRequestOptions = {
+          ...defaultRpcParams,
+          rulesetOrId: managerOptions.rulesetOrId,
+          descriptor: descriptor.toJSON(),
+          keys: keys.toJSON(),
+          format,
+        };
+        // typemoq clones invocation arguments, so the stream has to be written to by a fake that gets the actual stream
+        const getContentSetSize = sinon.fake.resolves(1);
+        const exportContent = sinon.fake(async (_options: any, stream: NodeJS.WritableStream) => {
+          stream.write(exportedData);
+          return 1;
+        });
+        sinon.stub(impl, "getManager").returns({ getContentSetSize, exportContent } as unknown as PresentationManager);
+        const actualResult = await impl.exportContent(testData.imodelToken, rpcOptions);
+        expect(getContentSetSize).to.be.calledOnceWithExactly({
+          requestContext: managerOptions.requestContext,
+          rulesetOrId: managerOptions.rulesetOrId,
+          imodel: managerOptions.imodel,
+          descriptor,
+          keys,
+        });
+        expect(exportContent).to.be.calledOnceWith(managerOptions);
+        return actualResult.result;
+      };
+
+      it("returns exported text", async () => {
+        const data = "Name,Size\r\nA,1\r\n";
+        expect(await testExport(ContentExportFormat.Csv, Buffer.from(data))).to.eq(data);
+      });
+
+      it("returns base64 encoded workbook", async () => {
+        const data = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0xff]);
+        expect(await testExport(ContentExportFormat.Xlsx, data)).to.eq(data.toString("base64"));
+      });
+
+      it("returns error when content is too large to export", async () => {
+        presentationManagerMock.setup(async (x) => x.getContentSetSize(moq.It.isAny()))
+          .returns(async () => MAX_ALLOWED_CONTENT_EXPORT_ROWS + 1);
+        const rpcOptions: ContentExportRpcRequestOptions = {
+          ...defaultRpcParams,
+          rulesetOrId: testData.rulesetOrId,
+          descriptor: createRandomDescriptor().toJSON(),
+          keys: new KeySet().toJSON(),
+          format: ContentExportFormat.Csv,
+        };
+        const actualResult = await impl.exportContent(testData.imodelToken, rpcOptions);
+        presentationManagerMock.verify((x) => x.exportContent(moq.It.isAny(), moq.It.isAny()), moq.Times.never());
+        expect(actualResult.statusCode).to.eq(PresentationStatus.InvalidArgument);
+      });
+
+    });
+
     describe("getDisplayLabelDefinition", () => {
 
       it("[deprecated] calls manager", async () => {
@@ -7,7 +7,7 @@ import faker from "faker";
 import { DbResult, Id64 } from "@bentley/bentleyjs-core";
 import { CodeSpecs, DefinitionModel, DefinitionPartition, ECSqlStatement, IModelDb, Model, Subject } from "@bentley/imodeljs-backend";
 import { BisCodeSpec, Code, CodeScopeSpec, CodeSpec, DefinitionElementProps, IModelError } from "@bentley/imodeljs-common";
-import { Ruleset } from "@bentley/presentation-common";
+import { Ruleset, RuleTypes } from "@bentley/presentation-common";
 import * as moq from "@bentley/presentation-common/lib/test/_helpers/Mocks";
 import { createRandomRuleset } from "@bentley/presentation-common/lib/test/_helpers/random";
 import { PresentationRules } from "../presentation-backend/domain/PresentationRulesDomain";
@@ -332,6 +332,25 @@ describe("RulesetEmbedder", () => {
     });
   });
 
+  describe("insertCompositeRuleset", () => {
+    it("inserts composite of the ruleset and its base rulesets", async () => {
+      // Setup
+      setupMocksForGettingRulesetModel();
+
+      const baseRuleset: Ruleset = { id: faker.random.uuid(), rules: [{ ruleType: RuleTypes.RootNodes, specifications: [] }] };
+      const extendingRuleset: Ruleset = { id: ruleset.id, baseRulesets: [baseRuleset.id], rules: [{ ruleType: RuleTypes.Content, specifications: [] }] };
+      const compositeRuleset: Ruleset = { id: ruleset.id, rules: [...baseRuleset.rules, ...extendingRuleset.rules] };
+      elementsMock.setup((x) => x.insertElement({ ...rulesetProperties, jsonProperties: { jsonProperties: compositeRuleset } })).returns(() => rulesetId);
+      imodelMock.setup((x) => x.containsClass(RulesetElements.Ruleset.classFullName)).returns(() => true);
+
+      // Act
+      const insertId = await embedder.insertCompositeRuleset(extendingRuleset, [baseRuleset]);
+
+      // Assert
+      expect(rulesetId).to.be.equal(insertId);
+    });
+  });
+
   describe("getRulesets", () => {
     it("loads rulesets equal to the inserted", async () => {
       // Setup
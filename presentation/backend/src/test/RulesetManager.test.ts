@@ -4,7 +4,7 @@
 *--------------------------------------------------------------------------------------------*/
 import { expect } from "chai";
 import * as faker from "faker";
-import { RegisteredRuleset } from "@bentley/presentation-common";
+import { RegisteredRuleset, Ruleset, RuleTypes } from "@bentley/presentation-common";
 import * as moq from "@bentley/presentation-common/lib/test/_helpers/Mocks";
 import { NativePlatformDefinition } from "../presentation-backend/NativePlatform";
 import { RulesetManagerImpl } from "../presentation-backend/RulesetManager";
@@ -76,6 +76,18 @@ describe("RulesetManager", () => {
       expect(hash).to.equal(result.uniqueIdentifier);
     });
 
+    it("registers composite ruleset when ruleset extends other rulesets", async () => {
+      const baseRuleset: Ruleset = { id: faker.random.uuid(), rules: [{ id: "root", ruleType: RuleTypes.RootNodes, specifications: [] }] };
+      const ruleset: Ruleset = { id: faker.random.uuid(), baseRulesets: [baseRuleset.id], rules: [{ ruleType: RuleTypes.Content, specifications: [] }] };
+      const compositeRuleset: Ruleset = { id: ruleset.id, rules: [...baseRuleset.rules, ...ruleset.rules] };
+      addonMock.setup((x) => x.addRuleset(JSON.stringify(baseRuleset))).returns(() => ({ result: faker.random.uuid() }));
+      addonMock.setup((x) => x.addRuleset(JSON.stringify(compositeRuleset))).returns(() => ({ result: faker.random.uuid() })).verifiable();
+      manager.add(baseRuleset);
+      const result = manager.add(ruleset);
+      addonMock.verifyAll();
+      expect(result.toJSON()).to.deep.eq(compositeRuleset);
+    });
+
   });
 
   describe("remove", () => {
@@ -0,0 +1,41 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+
+/* eslint-disable no-console */
+import * as fs from "fs";
+import * as path from "path";
+import { IModelHost, SnapshotDb } from "@bentley/imodeljs-backend";
+import { Ruleset, RulesetValidationIssueSeverity } from "@bentley/presentation-common";
+import { IModelRulesetValidator } from "./presentation-backend/IModelRulesetValidator";
+
+const [imodelPath, ...rulesetPaths] = process.argv.slice(2);
+if (!imodelPath || rulesetPaths.length === 0) {
+  console.log("Usage: validate-ruleset <iModel path> <ruleset path> [<ruleset path> ...]");
+  process.exit(1);
+}
+
+(async () => {
+  await IModelHost.startup();
+  const imodel = SnapshotDb.openFile(path.resolve(imodelPath));
+  let errorsCount = 0;
+  try {
+    const validator = new IModelRulesetValidator({ imodel });
+    for (const rulesetPath of rulesetPaths) {
+      const ruleset: Ruleset = JSON.parse(fs.readFileSync(rulesetPath, "utf8"));
+      for (const issue of validator.validate(ruleset)) {
+        console.log(`${rulesetPath}: ${issue.severity.toLowerCase()} at ${issue.path}: ${issue.message}`);
+        if (issue.severity === RulesetValidationIssueSeverity.Error)
+          ++errorsCount;
+      }
+    }
+  } finally {
+    imodel.close();
+    await IModelHost.shutdown();
+  }
+  process.exit(errorsCount > 0 ? 1 : 0);
+})().catch((e) => {
+  console.error(e.message);
+  process.exit(2);
+});
@@ -19,6 +19,7 @@ export * from "./presentation-common/PresentationManagerOptions";
 export * from "./presentation-common/RegisteredRuleset";
 export * from "./presentation-common/RulesetVariables";
 export * from "./presentation-common/RulesetsFactory";
+export * from "./presentation-common/RulesetValidation";
 export * from "./presentation-common/Update";
 export * from "./presentation-common/Utils";
 
@@ -64,6 +65,7 @@ export * from "./presentation-common/content/Value";
  * @docs-group-description Hierarchies
  * Types related to presentation [hierarchies]($docs/learning/presentation/Hierarchies/index.md).
  */
+export * from "./presentation-common/hierarchy/InstanceFilter";
 export * from "./presentation-common/hierarchy/Key";
 export * from "./presentation-common/hierarchy/Node";
 export * from "./presentation-common/hierarchy/NodePathElement";
@@ -7,7 +7,10 @@
  */
 
 import { DescriptorOverrides, SelectionInfo } from "./content/Descriptor";
-import { FieldDescriptor } from "./content/Fields";
+import { FieldDescriptor, PropertiesField } from "./content/Fields";
+import { Item } from "./content/Item";
+import { Value } from "./content/Value";
+import { InstanceFilterDefinition } from "./hierarchy/InstanceFilter";
 import { Ruleset } from "./rules/Ruleset";
 import { RulesetVariable } from "./RulesetVariables";
 
@@ -70,7 +73,14 @@ export interface RequestOptionsWithRuleset<TIModel> extends RequestOptions<TIMod
  * Base request type for hierarchy requests
  * @public
  */
-export interface HierarchyRequestOptions<TIModel> extends RequestOptionsWithRuleset<TIModel> { // eslint-disable-line @typescript-eslint/no-empty-interface
+export interface HierarchyRequestOptions<TIModel> extends RequestOptionsWithRuleset<TIModel> {
+  /**
+   * Property-based filter for ECInstance nodes of the requested hierarchy level. Only used
+   * by nodes and nodes count requests.
+   *
+   * @alpha
+   */
+  instanceFilter?: InstanceFilterDefinition;
 }
 
 /**
@@ -136,6 +146,54 @@ export const isExtendedContentRequestOptions = <TIModel, TDescriptor, TKeySet>(o
     && !!(opts as ExtendedContentRequestOptions<TIModel, TDescriptor, TKeySet>).keys;
 };
 
+/**
+ * Formats content may be exported to
+ * @alpha
+ */
+export enum ContentExportFormat {
+  /** Comma separated values, one row per content item */
+  Csv = "csv",
+  /** Office Open XML spreadsheet with a single worksheet */
+  Xlsx = "xlsx",
+  /** One JSON object per content item, keyed by column name */
+  JsonLines = "jsonl",
+}
+
+/**
+ * Request type for content export requests
+ * @alpha
+ */
+export interface ContentExportRequestOptions<TIModel, TDescriptor, TKeySet> extends ExtendedContentRequestOptions<TIModel, TDescriptor, TKeySet> {
+  /** Format to export content in */
+  format: ContentExportFormat;
+  /** Should raw values be exported instead of display values. Defaults to `false`. */
+  rawValues?: boolean;
+  /** Size of content pages requested while exporting. Defaults to `1000`. */
+  pageSize?: number;
+}
+
+/**
+ * A change of a single content value, used in [[ContentValuesUpdateRequestOptions]]
+ * @alpha
+ */
+export interface ContentValueChange {
+  /** Content item whose value is changed */
+  item: Item;
+  /** Changed field. May be nested in one or more [[NestedContentField]]s. */
+  field: PropertiesField;
+  /** New raw value. Values of properties with a KindOfQuantity are expected in persistence units. */
+  value: Value;
+}
+
+/**
+ * Request type for content values update requests
+ * @alpha
+ */
+export interface ContentValuesUpdateRequestOptions<TIModel> extends RequestOptions<TIModel> {
+  /** Content value changes to apply */
+  changes: ContentValueChange[];
+}
+
 /**
  * Request type for distinct values' requests
  * @alpha
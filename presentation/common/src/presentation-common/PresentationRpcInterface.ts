@@ -21,9 +21,9 @@ import { NodePathElementJSON } from "./hierarchy/NodePathElement";
 import { KeySetJSON } from "./KeySet";
 import { LabelDefinitionJSON } from "./LabelDefinition";
 import {
-  ContentDescriptorRequestOptions, ContentRequestOptions, DisplayLabelRequestOptions, DisplayLabelsRequestOptions, DistinctValuesRequestOptions,
-  ExtendedContentRequestOptions, ExtendedHierarchyRequestOptions, HierarchyRequestOptions, LabelRequestOptions, Paged, PresentationDataCompareOptions,
-  SelectionScopeRequestOptions,
+  ContentDescriptorRequestOptions, ContentExportRequestOptions, ContentRequestOptions, DisplayLabelRequestOptions, DisplayLabelsRequestOptions,
+  DistinctValuesRequestOptions, ExtendedContentRequestOptions, ExtendedHierarchyRequestOptions, HierarchyRequestOptions, LabelRequestOptions, Paged,
+  PresentationDataCompareOptions, SelectionScopeRequestOptions,
 } from "./PresentationManagerOptions";
 import { SelectionScope } from "./selection/SelectionScope";
 import { PartialHierarchyModificationJSON } from "./Update";
@@ -91,6 +91,12 @@ export type ExtendedContentRpcRequestOptions = PresentationRpcRequestOptions<Ext
  */
 export type DistinctValuesRpcRequestOptions = PresentationRpcRequestOptions<DistinctValuesRequestOptions<never, DescriptorJSON, KeySetJSON>>;
 
+/**
+ * Data structure for content export request options.
+ * @alpha
+ */
+export type ContentExportRpcRequestOptions = PresentationRpcRequestOptions<ContentExportRequestOptions<never, DescriptorJSON, KeySetJSON>>;
+
 /**
  * Data structure for label request options.
  * @public
@@ -137,7 +143,7 @@ export class PresentationRpcInterface extends RpcInterface {
   public static readonly interfaceName = "PresentationRpcInterface"; // eslint-disable-line @typescript-eslint/naming-convention
 
   /** The semantic version of the interface. */
-  public static interfaceVersion = "2.6.3";
+  public static interfaceVersion = "2.7.0";
 
   /*===========================================================================================
     NOTE: Any add/remove/change to the methods below requires an update of the interface version.
@@ -189,6 +195,8 @@ export class PresentationRpcInterface extends RpcInterface {
   public async getDistinctValues(_token: IModelRpcProps, _options: ContentRpcRequestOptions, _descriptor: DescriptorJSON | DescriptorOverrides, _keys: KeySetJSON, _fieldName: string, _maximumValueCount: number): PresentationRpcResponse<string[]> { return this.forward(arguments); }
   /** @alpha */
   public async getPagedDistinctValues(_token: IModelRpcProps, _options: DistinctValuesRpcRequestOptions): PresentationRpcResponse<PagedResponse<DisplayValueGroupJSON>> { return this.forward(arguments); }
+  /** @alpha Returns exported text for CSV and JSON Lines formats or a base64 encoded workbook for XLSX format */
+  public async exportContent(_token: IModelRpcProps, _options: ContentExportRpcRequestOptions): PresentationRpcResponse<string> { return this.forward(arguments); }
 
   /** @deprecated Use an overload with [[DisplayLabelRpcRequestOptions]] */
   public async getDisplayLabelDefinition(_token: IModelRpcProps, _options: LabelRpcRequestOptions, _key: InstanceKeyJSON): PresentationRpcResponse<LabelDefinitionJSON>;
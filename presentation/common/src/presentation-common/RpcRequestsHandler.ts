@@ -19,9 +19,9 @@ import { NodePathElementJSON } from "./hierarchy/NodePathElement";
 import { KeySetJSON } from "./KeySet";
 import { LabelDefinitionJSON } from "./LabelDefinition";
 import {
-  ContentDescriptorRequestOptions, ContentRequestOptions, DisplayLabelRequestOptions, DisplayLabelsRequestOptions, DistinctValuesRequestOptions,
-  ExtendedContentRequestOptions, ExtendedHierarchyRequestOptions, HierarchyRequestOptions, Paged, PresentationDataCompareOptions,
-  SelectionScopeRequestOptions,
+  ContentDescriptorRequestOptions, ContentExportRequestOptions, ContentRequestOptions, DisplayLabelRequestOptions, DisplayLabelsRequestOptions,
+  DistinctValuesRequestOptions, ExtendedContentRequestOptions, ExtendedHierarchyRequestOptions, HierarchyRequestOptions, Paged,
+  PresentationDataCompareOptions, SelectionScopeRequestOptions,
 } from "./PresentationManagerOptions";
 import { PresentationRpcInterface, PresentationRpcRequestOptions, PresentationRpcResponse } from "./PresentationRpcInterface";
 import { SelectionScope } from "./selection/SelectionScope";
@@ -166,6 +166,10 @@ export class RpcRequestsHandler implements IDisposable {
     return this.request<PagedResponse<DisplayValueGroupJSON>, DistinctValuesRequestOptions<IModelRpcProps, DescriptorJSON, KeySetJSON>>(
       this.rpcClient.getPagedDistinctValues.bind(this.rpcClient), options);
   }
+  public async exportContent(options: ContentExportRequestOptions<IModelRpcProps, DescriptorJSON, KeySetJSON>): Promise<string> {
+    return this.request<string, ContentExportRequestOptions<IModelRpcProps, DescriptorJSON, KeySetJSON>>(
+      this.rpcClient.exportContent.bind(this.rpcClient), options);
+  }
 
   public async getDisplayLabelDefinition(options: DisplayLabelRequestOptions<IModelRpcProps, InstanceKeyJSON>): Promise<LabelDefinitionJSON> {
     return this.request<LabelDefinitionJSON, DisplayLabelRequestOptions<IModelRpcProps, InstanceKeyJSON>, any>(
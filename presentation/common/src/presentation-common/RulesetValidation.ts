@@ -0,0 +1,488 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module Core
+ */
+
+import { ConditionContainer, Rule, RuleBase, RuleTypes } from "./rules/Rule";
+import { Ruleset } from "./rules/Ruleset";
+
+/**
+ * Severity of a [[RulesetValidationIssue]]
+ * @alpha
+ */
+export enum RulesetValidationIssueSeverity {
+  /** The ruleset part is invalid and is going to produce wrong or no results */
+  Error = "Error",
+  /** The ruleset part is valid, but has no effect */
+  Warning = "Warning",
+}
+
+/**
+ * An issue found while validating a [[Ruleset]]
+ * @alpha
+ */
+export interface RulesetValidationIssue {
+  /** Severity of the issue */
+  severity: RulesetValidationIssueSeverity;
+  /** Path to the ruleset part the issue was found in, e.g. `rules[1].specifications[0].classes`. Empty for the ruleset itself. */
+  path: string;
+  /** Description of the issue */
+  message: string;
+}
+
+/**
+ * Props for [[RulesetValidator]]
+ * @alpha
+ */
+export interface RulesetValidatorProps {
+  /**
+   * JSON schema to validate rulesets against. Generally that's the `Ruleset.schema.json`
+   * file delivered with this package. Rulesets are not validated against JSON schema if
+   * the schema is not specified.
+   */
+  jsonSchema?: object;
+}
+
+/**
+ * A validator that statically checks a [[Ruleset]] without looking at the iModel it's going to be used with:
+ * - ruleset structure is validated against the ruleset JSON schema,
+ * - syntax of ECExpressions used in the ruleset is validated,
+ * - rules that are never going to be applied are reported.
+ *
+ * @alpha
+ */
+export class RulesetValidator {
+  private _jsonSchema?: JsonSchema;
+
+  /** Constructor */
+  public constructor(props?: RulesetValidatorProps) {
+    this._jsonSchema = props?.jsonSchema;
+  }
+
+  /** Validate the given ruleset and get a list of found issues. The list is empty if the ruleset is valid. */
+  public validate(ruleset: Ruleset): RulesetValidationIssue[] {
+    const issues: RulesetValidationIssue[] = [];
+    if (this._jsonSchema)
+      validateJsonValue(ruleset, this._jsonSchema, this._jsonSchema, "", issues);
+    validateExpressions(ruleset, "", undefined, issues);
+    if (Array.isArray(ruleset.rules))
+      validateRulesReachability(ruleset.rules, issues);
+    return issues;
+  }
+}
+
+/**
+ * Append an attribute name or array index to a ruleset path.
+ * @internal
+ */
+export const appendRulesetPath = (path: string, key: string | number): string => {
+  if (typeof key === "number")
+    return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+};
+
+const createError = (path: string, message: string): RulesetValidationIssue => ({ severity: RulesetValidationIssueSeverity.Error, path, message });
+const createWarning = (path: string, message: string): RulesetValidationIssue => ({ severity: RulesetValidationIssueSeverity.Warning, path, message });
+
+/** The subset of JSON schema used by `Ruleset.schema.json` */
+interface JsonSchema {
+  $ref?: string;
+  definitions?: { [name: string]: JsonSchema };
+  type?: string | string[];
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema | JsonSchema[];
+  minLength?: number;
+  pattern?: string;
+  minimum?: number;
+}
+
+const getJsonType = (value: unknown): string => {
+  if (value === null)
+    return "null";
+  if (Array.isArray(value))
+    return "array";
+  if (typeof value === "number")
+    return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+};
+
+const isJsonTypeAllowed = (actualType: string, allowedTypes: string[]) => {
+  return allowedTypes.includes(actualType) || (actualType === "integer" && allowedTypes.includes("number"));
+};
+
+const getIssuesDepth = (issues: RulesetValidationIssue[]) => Math.max(...issues.map((issue) => issue.path.length));
+
+const validateJsonValue = (value: unknown, schema: JsonSchema, rootSchema: JsonSchema, path: string, issues: RulesetValidationIssue[]): void => {
+  if (schema.$ref) {
+    const definitionName = schema.$ref.replace(/^#\/definitions\//, "");
+    const definition = rootSchema.definitions ? rootSchema.definitions[definitionName] : undefined;
+    if (definition)
+      validateJsonValue(value, definition, rootSchema, path, issues);
+    return;
+  }
+
+  if (schema.anyOf) {
+    // report issues of the closest matching alternative - the one with least issues, found deepest in the value
+    let closestMatchIssues: RulesetValidationIssue[] | undefined;
+    for (const alternative of schema.anyOf) {
+      const alternativeIssues: RulesetValidationIssue[] = [];
+      validateJsonValue(value, alternative, rootSchema, path, alternativeIssues);
+      if (alternativeIssues.length === 0)
+        return;
+      if (!closestMatchIssues || alternativeIssues.length < closestMatchIssues.length
+        || (alternativeIssues.length === closestMatchIssues.length && getIssuesDepth(alternativeIssues) > getIssuesDepth(closestMatchIssues)))
+        closestMatchIssues = alternativeIssues;
+    }
+    issues.push(...closestMatchIssues!);
+    return;
+  }
+
+  const actualType = getJsonType(value);
+  if (schema.type) {
+    const allowedTypes = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!isJsonTypeAllowed(actualType, allowedTypes)) {
+      issues.push(createError(path, `Expected a value of type ${allowedTypes.join(" or ")}, got ${actualType}`));
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push(createError(path, `Expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}, got ${JSON.stringify(value)}`));
+    return;
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength)
+      issues.push(createError(path, `Expected a string of at least ${schema.minLength} characters`));
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value))
+      issues.push(createError(path, `Expected a string matching pattern "${schema.pattern}"`));
+    return;
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum)
+      issues.push(createError(path, `Expected a value of at least ${schema.minimum}, got ${value}`));
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    const items = schema.items;
+    if (items) {
+      value.forEach((item, index) => {
+        const itemSchema = Array.isArray(items) ? items[index] : items;
+        if (itemSchema)
+          validateJsonValue(item, itemSchema, rootSchema, appendRulesetPath(path, index), issues);
+      });
+    }
+    return;
+  }
+
+  if (actualType === "object") {
+    const obj = value as { [key: string]: unknown };
+    for (const requiredAttribute of schema.required ?? []) {
+      if (obj[requiredAttribute] === undefined)
+        issues.push(createError(path, `Missing required attribute "${requiredAttribute}"`));
+    }
+    for (const key in obj) {
+      // rulesets may reference their JSON schema for editor support
+      if (!obj.hasOwnProperty(key) || obj[key] === undefined || (path === "" && key === "$schema"))
+        continue;
+      const attributePath = appendRulesetPath(path, key);
+      const attributeSchema = schema.properties ? schema.properties[key] : undefined;
+      if (attributeSchema)
+        validateJsonValue(obj[key], attributeSchema, rootSchema, attributePath, issues);
+      else if (schema.additionalProperties === false)
+        issues.push(createError(attributePath, `Unknown attribute "${key}"`));
+      else if (typeof schema.additionalProperties === "object")
+        validateJsonValue(obj[key], schema.additionalProperties, rootSchema, attributePath, issues);
+    }
+  }
+};
+
+/** Attributes that contain ECExpressions no matter what rule they're in */
+const EXPRESSION_ATTRIBUTES = ["condition", "instanceFilter", "hideExpression", "imageIdExpression"];
+
+/** Additional attributes that contain ECExpressions in specific types of rules */
+const RULE_EXPRESSION_ATTRIBUTES: { [ruleType: string]: string[] } = {
+  [RuleTypes.LabelOverride]: ["label", "description"],
+  [RuleTypes.StyleOverride]: ["foreColor", "backColor", "fontStyle"],
+};
+
+/** Types of rules whose `items` attribute values are ECExpressions */
+const EXPRESSION_ITEMS_RULE_TYPES: string[] = [RuleTypes.ExtendedData, RuleTypes.NodeArtifacts];
+
+const validateExpressions = (value: unknown, path: string, parentKey: string | undefined, issues: RulesetValidationIssue[]): void => {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => validateExpressions(item, appendRulesetPath(path, index), parentKey, issues));
+    return;
+  }
+  if (typeof value !== "object" || value === null)
+    return;
+
+  const obj = value as { [key: string]: unknown };
+  const expressionAttributes = [...EXPRESSION_ATTRIBUTES];
+  if (typeof obj.ruleType === "string" && RULE_EXPRESSION_ATTRIBUTES.hasOwnProperty(obj.ruleType))
+    expressionAttributes.push(...RULE_EXPRESSION_ATTRIBUTES[obj.ruleType]);
+  if (parentKey === "calculatedProperties")
+    expressionAttributes.push("value");
+
+  for (const key in obj) {
+    if (!obj.hasOwnProperty(key))
+      continue;
+    const attributePath = appendRulesetPath(path, key);
+    const attributeValue = obj[key];
+    if (typeof attributeValue === "string") {
+      if (expressionAttributes.includes(key))
+        validateExpression(attributeValue, attributePath, issues);
+    } else if (key === "items" && typeof obj.ruleType === "string" && EXPRESSION_ITEMS_RULE_TYPES.includes(obj.ruleType) && typeof attributeValue === "object" && attributeValue !== null) {
+      const items = attributeValue as { [key: string]: unknown };
+      for (const itemKey in items) {
+        if (items.hasOwnProperty(itemKey) && typeof items[itemKey] === "string")
+          validateExpression(items[itemKey] as string, appendRulesetPath(attributePath, itemKey), issues);
+      }
+    } else {
+      validateExpressions(attributeValue, attributePath, key, issues);
+    }
+  }
+};
+
+const validateExpression = (expression: string, path: string, issues: RulesetValidationIssue[]) => {
+  const error = getECExpressionSyntaxError(expression);
+  if (error)
+    issues.push(createError(path, `Invalid ECExpression "${expression}": ${error}`));
+};
+
+/** Types of rules that stop other rules of the same type from being applied, if they handle the same input */
+const HANDLING_RULE_TYPES: string[] = [RuleTypes.RootNodes, RuleTypes.ChildNodes, RuleTypes.Content];
+
+const DEFAULT_RULE_PRIORITY = 1000;
+
+type ReachabilityCheckedRule = RuleBase & ConditionContainer & { specifications?: unknown[] };
+
+const isConditionAlwaysFalse = (condition: string | undefined) => (condition !== undefined && condition.trim().toUpperCase() === "FALSE");
+
+const isHandledBefore = (rules: ReachabilityCheckedRule[], handlingRuleIndex: number, ruleIndex: number): boolean => {
+  const handlingRule = rules[handlingRuleIndex];
+  const rule = rules[ruleIndex];
+  const handlingPriority = handlingRule.priority ?? DEFAULT_RULE_PRIORITY;
+  const priority = rule.priority ?? DEFAULT_RULE_PRIORITY;
+  return handlingPriority > priority || (handlingPriority === priority && handlingRuleIndex < ruleIndex);
+};
+
+const alwaysHandles = (handlingRule: ReachabilityCheckedRule, rule: ReachabilityCheckedRule) => {
+  const handlingCondition = handlingRule.condition?.trim();
+  return handlingRule.ruleType === rule.ruleType
+    && (!handlingCondition || handlingCondition === rule.condition?.trim())
+    && Array.isArray(handlingRule.specifications) && handlingRule.specifications.length > 0;
+};
+
+const validateRulesReachability = (allRules: Rule[], issues: RulesetValidationIssue[]) => {
+  const rules = allRules as ReachabilityCheckedRule[];
+  rules.forEach((rule, ruleIndex) => {
+    const path = appendRulesetPath("rules", ruleIndex);
+    if (isConditionAlwaysFalse(rule.condition)) {
+      issues.push(createWarning(path, "Rule is never applied, because its condition is always false"));
+      return;
+    }
+    if (!rule.onlyIfNotHandled || !HANDLING_RULE_TYPES.includes(rule.ruleType))
+      return;
+    const handlingRuleIndex = rules.findIndex((other, otherIndex) => (otherIndex !== ruleIndex
+      && !isConditionAlwaysFalse(other.condition) && alwaysHandles(other, rule) && isHandledBefore(rules, otherIndex, ruleIndex)));
+    if (handlingRuleIndex !== -1)
+      issues.push(createWarning(path, `Rule is never applied, because it's only applied if not handled and "${appendRulesetPath("rules", handlingRuleIndex)}" handles the same input before it`));
+  });
+};
+
+enum ECExpressionTokenType {
+  Literal,
+  Identifier,
+  Operator,
+  Punctuation,
+}
+
+interface ECExpressionToken {
+  type: ECExpressionTokenType;
+  value: string;
+  position: number;
+}
+
+const EC_EXPRESSION_LITERAL_KEYWORDS = ["TRUE", "FALSE", "NULL"];
+const EC_EXPRESSION_OPERATOR_KEYWORDS = ["AND", "ANDALSO", "OR", "ORELSE", "XOR", "NOT", "MOD"];
+// longer operators go first so they're matched before their prefixes
+const EC_EXPRESSION_OPERATORS = [">>>", "<<", ">>", "<=", ">=", "<>", "=>", "=", "<", ">", "+", "-", "*", "/", "\\", "^", "&"];
+const EC_EXPRESSION_PUNCTUATION = ["(", ")", "[", "]", ",", "."];
+
+class ECExpressionSyntaxError extends Error { }
+
+const tokenizeECExpression = (expression: string): ECExpressionToken[] => {
+  const tokens: ECExpressionToken[] = [];
+  let position = 0;
+  while (position < expression.length) {
+    const rest = expression.substr(position);
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      position += whitespace[0].length;
+      continue;
+    }
+    const numeric = rest.match(/^@?\d+(\.\d+)?([eE][+-]?\d+)?/);
+    if (numeric) {
+      tokens.push({ type: ECExpressionTokenType.Literal, value: numeric[0], position });
+      position += numeric[0].length;
+      continue;
+    }
+    if (rest[0] === "\"") {
+      const str = rest.match(/^"([^"]|"")*"/);
+      if (!str)
+        throw new ECExpressionSyntaxError(`unterminated string at position ${position}`);
+      tokens.push({ type: ECExpressionTokenType.Literal, value: str[0], position });
+      position += str[0].length;
+      continue;
+    }
+    const identifier = rest.match(/^[A-Za-z_]\w*/);
+    if (identifier) {
+      const keyword = identifier[0].toUpperCase();
+      const type = EC_EXPRESSION_LITERAL_KEYWORDS.includes(keyword) ? ECExpressionTokenType.Literal
+        : EC_EXPRESSION_OPERATOR_KEYWORDS.includes(keyword) ? ECExpressionTokenType.Operator : ECExpressionTokenType.Identifier;
+      tokens.push({ type, value: type === ECExpressionTokenType.Operator ? keyword : identifier[0], position });
+      position += identifier[0].length;
+      continue;
+    }
+    const operator = EC_EXPRESSION_OPERATORS.find((op) => rest.startsWith(op));
+    if (operator) {
+      tokens.push({ type: ECExpressionTokenType.Operator, value: operator, position });
+      position += operator.length;
+      continue;
+    }
+    if (EC_EXPRESSION_PUNCTUATION.includes(rest[0])) {
+      tokens.push({ type: ECExpressionTokenType.Punctuation, value: rest[0], position });
+      position += 1;
+      continue;
+    }
+    throw new ECExpressionSyntaxError(`unexpected character "${rest[0]}" at position ${position}`);
+  }
+  return tokens;
+};
+
+/**
+ * A recursive descent parser that only checks ECExpression syntax - operator
+ * precedence doesn't matter for that, so all binary operators are treated equally.
+ */
+class ECExpressionSyntaxChecker {
+  private _tokens: ECExpressionToken[];
+  private _index = 0;
+
+  public constructor(tokens: ECExpressionToken[]) {
+    this._tokens = tokens;
+  }
+
+  public check() {
+    this.parseExpression();
+    if (this._index < this._tokens.length)
+      throw this.createUnexpectedTokenError();
+  }
+
+  private get _current(): ECExpressionToken | undefined { return this._tokens[this._index]; }
+
+  private isCurrent(type: ECExpressionTokenType, value?: string) {
+    const token = this._current;
+    return !!token && token.type === type && (value === undefined || token.value === value);
+  }
+
+  private createUnexpectedTokenError() {
+    const token = this._current;
+    return new ECExpressionSyntaxError(token ? `unexpected "${token.value}" at position ${token.position}` : "unexpected end of expression");
+  }
+
+  private expect(type: ECExpressionTokenType, value?: string) {
+    if (!this.isCurrent(type, value))
+      throw this.createUnexpectedTokenError();
+    ++this._index;
+  }
+
+  private parseExpression(): void {
+    this.parseUnary();
+    while (this.isCurrent(ECExpressionTokenType.Operator) && this._current!.value !== "NOT" && this._current!.value !== "=>") {
+      ++this._index;
+      this.parseUnary();
+    }
+  }
+
+  private parseUnary(): void {
+    if (this.isCurrent(ECExpressionTokenType.Operator, "NOT") || this.isCurrent(ECExpressionTokenType.Operator, "-") || this.isCurrent(ECExpressionTokenType.Operator, "+")) {
+      ++this._index;
+      this.parseUnary();
+      return;
+    }
+    this.parsePrimary();
+    this.parsePostfix();
+  }
+
+  private parsePrimary(): void {
+    if (this.isCurrent(ECExpressionTokenType.Literal)) {
+      ++this._index;
+      return;
+    }
+    if (this.isCurrent(ECExpressionTokenType.Punctuation, "(")) {
+      ++this._index;
+      this.parseExpression();
+      this.expect(ECExpressionTokenType.Punctuation, ")");
+      return;
+    }
+    this.expect(ECExpressionTokenType.Identifier);
+    if (this.isCurrent(ECExpressionTokenType.Operator, "=>")) {
+      // lambda, e.g. `x => x.IsPrivate`
+      ++this._index;
+      this.parseExpression();
+    }
+  }
+
+  private parsePostfix(): void {
+    while (true) {
+      if (this.isCurrent(ECExpressionTokenType.Punctuation, ".")) {
+        ++this._index;
+        this.expect(ECExpressionTokenType.Identifier);
+      } else if (this.isCurrent(ECExpressionTokenType.Punctuation, "(")) {
+        ++this._index;
+        if (!this.isCurrent(ECExpressionTokenType.Punctuation, ")")) {
+          this.parseExpression();
+          while (this.isCurrent(ECExpressionTokenType.Punctuation, ",")) {
+            ++this._index;
+            this.parseExpression();
+          }
+        }
+        this.expect(ECExpressionTokenType.Punctuation, ")");
+      } else if (this.isCurrent(ECExpressionTokenType.Punctuation, "[")) {
+        ++this._index;
+        this.parseExpression();
+        this.expect(ECExpressionTokenType.Punctuation, "]");
+      } else {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Check syntax of the given ECExpression.
+ * @returns Description of the syntax error or `undefined` if the expression is valid. Empty expressions are valid.
+ * @internal
+ */
+export const getECExpressionSyntaxError = (expression: string): string | undefined => {
+  try {
+    const tokens = tokenizeECExpression(expression);
+    if (tokens.length > 0)
+      new ECExpressionSyntaxChecker(tokens).check();
+    return undefined;
+  } catch (e) {
+    if (e instanceof ECExpressionSyntaxError)
+      return e.message;
+    throw e;
+  }
+};
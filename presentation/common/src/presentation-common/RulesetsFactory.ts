@@ -16,8 +16,10 @@ import { MultiSchemaClassesSpecification, SingleSchemaClassSpecification } from
 import { ContentSpecificationTypes } from "./rules/content/ContentSpecification";
 import { RelatedInstanceSpecification } from "./rules/RelatedInstanceSpecification";
 import { RelationshipDirection } from "./rules/RelationshipDirection";
-import { RuleTypes } from "./rules/Rule";
+import { Rule, RuleTypes } from "./rules/Rule";
 import { Ruleset } from "./rules/Ruleset";
+import { SchemasSpecification } from "./rules/SchemasSpecification";
+import { VariablesGroup } from "./rules/Variables";
 
 /**
  * A factory class that can be used to create presentation rulesets targeted towards
@@ -72,6 +74,27 @@ export class RulesetsFactory {
     const description = await createDescriptionAsync(record, info.relatedClasses, field, info.propertyValue, computeDisplayValue);
     return { ruleset: info.ruleset, description };
   }
+
+  /**
+   * Create a composite ruleset by merging the given ruleset with its [[Ruleset.baseRulesets]]:
+   * - rules of base rulesets are included in the order base rulesets are listed, rules of later base
+   *   rulesets replace rules of earlier ones with the same [[RuleBase.id]];
+   * - rules listed in [[Ruleset.removedRules]] are excluded;
+   * - rules of the given ruleset replace base ruleset rules with the same [[RuleBase.id]] and take over
+   *   their priority, unless they specify one;
+   * - variables of base rulesets are put before variables of the given ruleset;
+   * - supported schemas of the given ruleset are used, if specified. Otherwise, supported schemas of the
+   *   last base ruleset that specifies them are used.
+   *
+   * Base rulesets may extend other rulesets - they're resolved recursively.
+   *
+   * @param ruleset Ruleset to create the composite for
+   * @param getBaseRuleset Function that returns a ruleset with the given id or `undefined` if it's not available
+   * @alpha
+   */
+  public createCompositeRuleset(ruleset: Ruleset, getBaseRuleset: (id: string) => Ruleset | undefined): Ruleset {
+    return createCompositeRuleset(ruleset, getBaseRuleset, []);
+  }
 }
 
 /**
@@ -282,3 +305,54 @@ const hexToDec = (id: Id64String) => {
   }
   return digits.reverse().join("");
 };
+
+const createCompositeRuleset = (ruleset: Ruleset, getBaseRuleset: (id: string) => Ruleset | undefined, extendingRulesetIds: string[]): Ruleset => {
+  const { baseRulesets, removedRules, ...composite } = ruleset;
+  if (!baseRulesets && !removedRules)
+    return ruleset;
+  if (extendingRulesetIds.includes(ruleset.id))
+    throw new Error(`Ruleset "${ruleset.id}" extends itself: ${[...extendingRulesetIds, ruleset.id].join(" -> ")}`);
+
+  let rules = new Array<Rule>();
+  const vars = new Array<VariablesGroup>();
+  let supportedSchemas: SchemasSpecification | undefined;
+  (baseRulesets ?? []).forEach((baseRulesetId) => {
+    const baseRuleset = getBaseRuleset(baseRulesetId);
+    if (!baseRuleset)
+      throw new Error(`Base ruleset "${baseRulesetId}" of ruleset "${ruleset.id}" is not available`);
+    const compositeBaseRuleset = createCompositeRuleset(baseRuleset, getBaseRuleset, [...extendingRulesetIds, ruleset.id]);
+    rules = overrideRules(rules, compositeBaseRuleset.rules);
+    vars.push(...(compositeBaseRuleset.vars ?? []));
+    supportedSchemas = compositeBaseRuleset.supportedSchemas ?? supportedSchemas;
+  });
+  (removedRules ?? []).forEach((ruleId) => {
+    const index = rules.findIndex((rule) => rule.id === ruleId);
+    if (index === -1)
+      throw new Error(`Rule "${ruleId}" removed by ruleset "${ruleset.id}" doesn't exist in its base rulesets`);
+    rules.splice(index, 1);
+  });
+  rules = overrideRules(rules, ruleset.rules);
+  vars.push(...(ruleset.vars ?? []));
+  supportedSchemas = ruleset.supportedSchemas ?? supportedSchemas;
+
+  return {
+    ...composite,
+    ...(supportedSchemas ? { supportedSchemas } : undefined),
+    ...(vars.length > 0 ? { vars } : undefined),
+    rules,
+  };
+};
+
+const overrideRules = (rules: Rule[], overrides: Rule[]): Rule[] => {
+  const result = [...rules];
+  overrides.forEach((rule) => {
+    const index = (rule.id !== undefined) ? result.findIndex((r) => r.id === rule.id) : -1;
+    if (index === -1) {
+      result.push(rule);
+      return;
+    }
+    const overriddenPriority = result[index].priority;
+    result[index] = (rule.priority === undefined && overriddenPriority !== undefined) ? { ...rule, priority: overriddenPriority } : rule;
+  });
+  return result;
+};
@@ -0,0 +1,119 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module Hierarchies
+ */
+
+import { PropertiesField, PropertiesFieldDescriptor } from "../content/Fields";
+import { PresentationError, PresentationStatus } from "../Error";
+
+/**
+ * Operators used to compare property values in [[InstanceFilterCondition]]
+ * @alpha
+ */
+export enum InstanceFilterOperator {
+  Equal = "=",
+  NotEqual = "<>",
+  Less = "<",
+  LessOrEqual = "<=",
+  Greater = ">",
+  GreaterOrEqual = ">=",
+  IsNull = "is-null",
+  IsNotNull = "is-not-null",
+}
+
+/**
+ * Operators used to join conditions of [[InstanceFilterDefinition]]
+ * @alpha
+ */
+export enum InstanceFilterJoinOperator {
+  And = "and",
+  Or = "or",
+}
+
+/**
+ * A condition on a single property value, used in [[InstanceFilterDefinition]]
+ * @alpha
+ */
+export interface InstanceFilterCondition {
+  /**
+   * Descriptor of the properties field whose value is checked. Properties of the filtered instance
+   * itself and properties of instances related through a single relationship step are supported.
+   */
+  field: PropertiesFieldDescriptor;
+  /** Operator used to compare the property value */
+  operator: InstanceFilterOperator;
+  /** Value to compare the property value with. Not used with [[InstanceFilterOperator.IsNull]] and [[InstanceFilterOperator.IsNotNull]]. */
+  value?: string | number | boolean;
+}
+
+/** @alpha */
+export namespace InstanceFilterCondition {
+  /** Create a condition for the given content field */
+  export function create(field: PropertiesField, operator: InstanceFilterOperator, value?: string | number | boolean): InstanceFilterCondition {
+    return { field: field.getFieldDescriptor() as PropertiesFieldDescriptor, operator, value };
+  }
+
+  /** Create an ECExpression that evaluates the given condition for `this` ECInstance */
+  export function toECExpression(condition: InstanceFilterCondition): string {
+    const path = condition.field.pathFromSelectToPropertyClass;
+    if (path.length > 1)
+      throw new PresentationError(PresentationStatus.InvalidArgument, "Only properties of directly related instances can be used in instance filter");
+    const propertyNames = condition.field.properties.map((p) => p.name).filter((name, index, names) => names.indexOf(name) === index);
+    const expressions = propertyNames.map((propertyName) => {
+      const valueExpression = (path.length === 0)
+        ? `this.${propertyName}`
+        : `this.GetRelatedValue(${[path[0].relationshipName, path[0].isForwardRelationship ? "Forward" : "Backward", path[0].targetClassName, propertyName].map(createStringLiteral).join(", ")})`;
+      return createComparisonExpression(valueExpression, condition.operator, condition.value);
+    });
+    return (expressions.length === 1) ? expressions[0] : `(${expressions.join(" OrElse ")})`;
+  }
+}
+
+/**
+ * Definition of a property-based filter for ECInstance nodes of a hierarchy level
+ * @alpha
+ */
+export interface InstanceFilterDefinition {
+  /** Conditions the instances have to meet */
+  conditions: InstanceFilterCondition[];
+  /** Operator used to join the conditions. Defaults to [[InstanceFilterJoinOperator.And]]. */
+  joinOperator?: InstanceFilterJoinOperator;
+}
+
+/** @alpha */
+export namespace InstanceFilterDefinition {
+  /**
+   * Create an ECExpression that evaluates the given filter for `this` ECInstance. The expression
+   * can be used as `instanceFilter` in presentation rules.
+   */
+  export function toECExpression(filter: InstanceFilterDefinition): string {
+    if (filter.conditions.length === 0)
+      return "TRUE";
+    if (filter.conditions.length === 1)
+      return InstanceFilterCondition.toECExpression(filter.conditions[0]);
+    const joinOperator = (filter.joinOperator === InstanceFilterJoinOperator.Or) ? " OrElse " : " AndAlso ";
+    return filter.conditions.map((condition) => `(${InstanceFilterCondition.toECExpression(condition)})`).join(joinOperator);
+  }
+}
+
+const createStringLiteral = (value: string) => `"${value.replace(/"/g, "\"\"")}"`;
+
+const createValueLiteral = (value: string | number | boolean | undefined) => {
+  switch (typeof value) {
+    case "string": return createStringLiteral(value);
+    case "number": return value.toString();
+    case "boolean": return value ? "TRUE" : "FALSE";
+  }
+  throw new PresentationError(PresentationStatus.InvalidArgument, "Instance filter condition value must be specified for comparison operators");
+};
+
+const createComparisonExpression = (valueExpression: string, operator: InstanceFilterOperator, value: string | number | boolean | undefined) => {
+  switch (operator) {
+    case InstanceFilterOperator.IsNull: return `IsNull(${valueExpression})`;
+    case InstanceFilterOperator.IsNotNull: return `Not IsNull(${valueExpression})`;
+  }
+  return `${valueExpression} ${operator} ${createValueLiteral(value)}`;
+};
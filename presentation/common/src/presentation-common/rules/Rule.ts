@@ -22,6 +22,15 @@ export interface RuleBase {
   /** Used for serializing to JSON. */
   ruleType: RuleTypes;
 
+  /**
+   * Rule identifier. Rulesets that extend the ruleset of this rule through [[Ruleset.baseRulesets]]
+   * may use it to override or remove the rule.
+   *
+   * @minLength 1
+   * @alpha
+   */
+  id?: string;
+
   /**
    * Defines the order in which presentation rules will be evaluated and executed. Defaults to `1000`.
    *
@@ -31,6 +31,22 @@ export interface Ruleset {
    */
   id: string;
 
+  /**
+   * IDs of rulesets this ruleset extends. Rules and variables of base rulesets are included into
+   * this ruleset, and rules of this ruleset replace base ruleset rules with the same [[RuleBase.id]].
+   * Base rulesets are resolved by ruleset managers when the ruleset is registered - see
+   * [[RulesetsFactory.createCompositeRuleset]].
+   *
+   * @alpha
+   */
+  baseRulesets?: string[];
+
+  /**
+   * IDs of base ruleset rules that should not be included into this ruleset.
+   * @alpha
+   */
+  removedRules?: string[];
+
   /**
    * Names of schemas which the rules should be applied for. Rules are applied to all
    * schemas if this property is not set.
@@ -8,9 +8,10 @@ import * as sinon from "sinon";
 import { Id64String, using } from "@bentley/bentleyjs-core";
 import { IModelRpcProps, RpcOperation, RpcRegistry, RpcRequest, RpcSerializedValue } from "@bentley/imodeljs-common";
 import {
-  ContentDescriptorRpcRequestOptions, ContentRpcRequestOptions, DisplayLabelRpcRequestOptions, DisplayLabelsRpcRequestOptions,
-  DistinctValuesRpcRequestOptions, ExtendedContentRpcRequestOptions, ExtendedHierarchyRpcRequestOptions, HierarchyRpcRequestOptions, KeySet,
-  LabelRpcRequestOptions, Paged, PresentationDataCompareRpcOptions, PresentationRpcInterface, SelectionScopeRpcRequestOptions,
+  ContentDescriptorRpcRequestOptions, ContentExportFormat, ContentExportRpcRequestOptions, ContentRpcRequestOptions, DisplayLabelRpcRequestOptions,
+  DisplayLabelsRpcRequestOptions, DistinctValuesRpcRequestOptions, ExtendedContentRpcRequestOptions, ExtendedHierarchyRpcRequestOptions,
+  HierarchyRpcRequestOptions, KeySet, LabelRpcRequestOptions, Paged, PresentationDataCompareRpcOptions, PresentationRpcInterface,
+  SelectionScopeRpcRequestOptions,
 } from "../presentation-common";
 import { FieldDescriptorType } from "../presentation-common/content/Fields";
 import {
@@ -258,6 +259,17 @@ describe("PresentationRpcInterface", () => {
       expect(spy).to.be.calledOnceWith(toArguments(token, options));
     });
 
+    it("forwards exportContent call", async () => {
+      const options: ContentExportRpcRequestOptions = {
+        rulesetOrId: faker.random.word(),
+        descriptor: createRandomDescriptorJSON(),
+        keys: new KeySet().toJSON(),
+        format: ContentExportFormat.JsonLines,
+      };
+      await rpcInterface.exportContent(token, options);
+      expect(spy).to.be.calledOnceWith(toArguments(token, options));
+    });
+
     it("[deprecated] forwards getDisplayLabelDefinition call", async () => {
       const key = createRandomECInstanceKey();
       const options: LabelRpcRequestOptions = {
@@ -18,12 +18,12 @@ import { ItemJSON } from "../presentation-common/content/Item";
 import { InstanceKeyJSON } from "../presentation-common/EC";
 import { NodeKey, NodeKeyJSON } from "../presentation-common/hierarchy/Key";
 import {
-  ContentDescriptorRequestOptions, DisplayLabelRequestOptions, DisplayLabelsRequestOptions, DistinctValuesRequestOptions,
-  ExtendedContentRequestOptions, ExtendedHierarchyRequestOptions, PresentationDataCompareOptions,
+  ContentDescriptorRequestOptions, ContentExportFormat, ContentExportRequestOptions, DisplayLabelRequestOptions, DisplayLabelsRequestOptions,
+  DistinctValuesRequestOptions, ExtendedContentRequestOptions, ExtendedHierarchyRequestOptions, PresentationDataCompareOptions,
 } from "../presentation-common/PresentationManagerOptions";
 import {
-  ContentDescriptorRpcRequestOptions, DisplayLabelRpcRequestOptions, DisplayLabelsRpcRequestOptions, ExtendedContentRpcRequestOptions,
-  ExtendedHierarchyRpcRequestOptions, PresentationDataCompareRpcOptions,
+  ContentDescriptorRpcRequestOptions, ContentExportRpcRequestOptions, DisplayLabelRpcRequestOptions, DisplayLabelsRpcRequestOptions,
+  ExtendedContentRpcRequestOptions, ExtendedHierarchyRpcRequestOptions, PresentationDataCompareRpcOptions,
 } from "../presentation-common/PresentationRpcInterface";
 import {
   createRandomDescriptorJSON, createRandomECInstanceKeyJSON, createRandomECInstancesNodeJSON, createRandomECInstancesNodeKeyJSON,
@@ -434,6 +434,27 @@ describe("RpcRequestsHandler", () => {
       rpcInterfaceMock.verifyAll();
     });
 
+    it("forwards exportContent call", async () => {
+      const handlerOptions: ContentExportRequestOptions<IModelRpcProps, DescriptorJSON, KeySetJSON> = {
+        imodel: token,
+        rulesetOrId: faker.random.word(),
+        descriptor: createRandomDescriptorJSON(),
+        keys: new KeySet().toJSON(),
+        format: ContentExportFormat.Csv,
+      };
+      const rpcOptions: ContentExportRpcRequestOptions = {
+        clientId,
+        rulesetOrId: handlerOptions.rulesetOrId,
+        descriptor: handlerOptions.descriptor,
+        keys: handlerOptions.keys,
+        format: ContentExportFormat.Csv,
+      };
+      const result = faker.random.words();
+      rpcInterfaceMock.setup(async (x) => x.exportContent(token, rpcOptions)).returns(async () => successResponse(result)).verifiable();
+      expect(await handler.exportContent(handlerOptions)).to.eq(result);
+      rpcInterfaceMock.verifyAll();
+    });
+
     it("forwards getDisplayLabelDefinition call", async () => {
       const key = createRandomECInstanceKeyJSON();
       const handlerOptions: DisplayLabelRequestOptions<IModelRpcProps, InstanceKeyJSON> = {
@@ -0,0 +1,345 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { expect } from "chai";
+import {
+  ChildNodeSpecificationTypes, ContentSpecificationTypes, getECExpressionSyntaxError, RelationshipDirection, Rule, Ruleset, RulesetValidationIssueSeverity, RulesetValidator,
+  RuleTypes,
+} from "../presentation-common";
+
+// eslint-disable-next-line
+const RulesetSchema = require("../../Ruleset.schema.json");
+
+describe("RulesetValidator", () => {
+
+  const createRuleset = (rules: Rule[]): Ruleset => ({ id: "test", rules });
+
+  describe("JSON schema validation", () => {
+
+    let validator: RulesetValidator;
+    beforeEach(() => {
+      validator = new RulesetValidator({ jsonSchema: RulesetSchema });
+    });
+
+    it("returns no issues for valid ruleset", () => {
+      const ruleset = createRuleset([{
+        ruleType: RuleTypes.RootNodes,
+        specifications: [{
+          specType: ChildNodeSpecificationTypes.InstanceNodesOfSpecificClasses,
+          classes: { schemaName: "BisCore", classNames: ["Subject"] },
+          instanceFilter: "this.Parent = NULL",
+        }],
+      }, {
+        ruleType: RuleTypes.ChildNodes,
+        condition: `ParentNode.IsOfClass("Subject", "BisCore")`,
+        specifications: [{
+          specType: ChildNodeSpecificationTypes.RelatedInstanceNodes,
+          relationshipPaths: [{
+            relationship: { schemaName: "BisCore", className: "SubjectOwnsSubjects" },
+            direction: RelationshipDirection.Forward,
+          }],
+        }],
+      }]);
+      expect(validator.validate({ ...ruleset, $schema: "../Ruleset.schema.json" } as Ruleset)).to.be.empty;
+    });
+
+    it("reports unknown attributes", () => {
+      const ruleset = createRuleset([{
+        ruleType: RuleTypes.RootNodes,
+        specifications: [{
+          specType: ChildNodeSpecificationTypes.InstanceNodesOfSpecificClasses,
+          classes: { schemaName: "BisCore", classNames: ["Subject"] },
+          groupByClas: true,
+        }],
+      } as unknown as Rule]);
+      expect(validator.validate(ruleset)).to.deep.eq([{
+        severity: RulesetValidationIssueSeverity.Error,
+        path: "rules[0].specifications[0].groupByClas",
+        message: `Unknown attribute "groupByClas"`,
+      }]);
+    });
+
+    it("reports missing required attributes", () => {
+      const ruleset = { rules: [] } as unknown as Ruleset;
+      expect(validator.validate(ruleset)).to.deep.eq([{
+        severity: RulesetValidationIssueSeverity.Error,
+        path: "",
+        message: `Missing required attribute "id"`,
+      }]);
+    });
+
+    it("reports values of invalid type", () => {
+      const ruleset = createRuleset([{
+        ruleType: RuleTypes.Content,
+        priority: "high",
+        specifications: [],
+      } as unknown as Rule]);
+      expect(validator.validate(ruleset)).to.deep.eq([{
+        severity: RulesetValidationIssueSeverity.Error,
+        path: "rules[0].priority",
+        message: "Expected a value of type integer, got string",
+      }]);
+    });
+
+    it("reports values not matching allowed values", () => {
+      const ruleset = createRuleset([{
+        ruleType: RuleTypes.Content,
+        specifications: [{
+          specType: ContentSpecificationTypes.ContentRelatedInstances,
+          relationshipPaths: [{
+            relationship: { schemaName: "BisCore", className: "ElementOwnsChildElements" },
+            direction: RelationshipDirection.Both, // eslint-disable-line deprecation/deprecation
+          }],
+        }],
+      } as unknown as Rule]);
+      expect(validator.validate(ruleset)).to.deep.eq([{
+        severity: RulesetValidationIssueSeverity.Error,
+        path: "rules[0].specifications[0].relationshipPaths[0].direction",
+        message: `Expected one of "Backward", "Forward", got "Both"`,
+      }]);
+    });
+
+    it("reports values not matching string and number restrictions", () => {
+      const ruleset = {
+        id: "",
+        rules: [{
+          ruleType: RuleTypes.Content,
+          specifications: [{
+            specType: ContentSpecificationTypes.ContentRelatedInstances,
+            relationships: { schemaName: "BisCore", classNames: ["ElementOwnsChildElements"] },
+            skipRelatedLevel: -1,
+            relatedInstances: [{
+              relationshipPath: {
+                relationship: { schemaName: "BisCore", className: "ElementOwnsChildElements" },
+                direction: RelationshipDirection.Forward,
+              },
+              alias: "my-alias",
+            }],
+          }],
+        }],
+      } as Ruleset;
+      expect(validator.validate(ruleset)).to.deep.eq([{
+        severity: RulesetValidationIssueSeverity.Error,
+        path: "id",
+        message: "Expected a string of at least 1 characters",
+      }, {
+        severity: RulesetValidationIssueSeverity.Error,
+        path: "rules[0].specifications[0].skipRelatedLevel",
+        message: "Expected a value of at least 0, got -1",
+      }, {
+        severity: RulesetValidationIssueSeverity.Error,
+        path: "rules[0].specifications[0].relatedInstances[0].alias",
+        message: `Expected a string matching pattern "^\\w[\\w\\d]*$"`,
+      }]);
+    });
+
+    it("doesn't validate against JSON schema when schema is not specified", () => {
+      validator = new RulesetValidator();
+      expect(validator.validate({ rules: [{ ruleType: "Something" }] } as unknown as Ruleset)).to.be.empty;
+    });
+
+  });
+
+  describe("ECExpressions' validation", () => {
+
+    let validator: RulesetValidator;
+    beforeEach(() => {
+      validator = new RulesetValidator();
+    });
+
+    it("reports invalid rule conditions", () => {
+      const ruleset = createRuleset([{
+        ruleType: RuleTypes.ChildNodes,
+        condition: `ParentNode.IsOfClass("Subject", "BisCore"`,
+        specifications: [],
+      }]);
+      expect(validator.validate(ruleset)).to.deep.eq([{
+        severity: RulesetValidationIssueSeverity.Error,
+        path: "rules[0].condition",
+        message: `Invalid ECExpression "ParentNode.IsOfClass("Subject", "BisCore"": unexpected end of expression`,
+      }]);
+    });
+
+    it("reports invalid instance filters and hide expressions", () => {
+      const ruleset = createRuleset([{
+        ruleType: RuleTypes.RootNodes,
+        specifications: [{
+          specType: ChildNodeSpecificationTypes.InstanceNodesOfSpecificClasses,
+          classes: { schemaName: "BisCore", classNames: ["Subject"] },
+          instanceFilter: "this.Parent = = NULL",
+          hideExpression: "ThisNode.HasChildren)",
+        }],
+      }]);
+      expect(validator.validate(ruleset)).to.deep.eq([{
+        severity: RulesetValidationIssueSeverity.Error,
+        path: "rules[0].specifications[0].instanceFilter",
+        message: `Invalid ECExpression "this.Parent = = NULL": unexpected "=" at position 14`,
+      }, {
+        severity: RulesetValidationIssueSeverity.Error,
+        path: "rules[0].specifications[0].hideExpression",
+        message: `Invalid ECExpression "ThisNode.HasChildren)": unexpected ")" at position 20`,
+      }]);
+    });
+
+    it("reports invalid rule-specific expressions", () => {
+      const ruleset = createRuleset([{
+        ruleType: RuleTypes.StyleOverride,
+        foreColor: `IIF(ThisNode.IsInstanceNode, "Red", "Blue"`,
+      }, {
+        ruleType: RuleTypes.LabelOverride,
+        label: "ThisNode.ECInstance.CodeValue &",
+      }, {
+        ruleType: RuleTypes.ExtendedData,
+        items: { isSubject: `ThisNode.IsOfClass("Subject", "BisCore)` },
+      }, {
+        ruleType: RuleTypes.ContentModifier,
+        calculatedProperties: [{ label: "Calculated", value: "this.Width * # this.Height" }],
+      }]);
+      expect(validator.validate(ruleset).map((issue) => issue.path)).to.deep.eq([
+        "rules[0].foreColor",
+        "rules[1].label",
+        "rules[2].items.isSubject",
+        "rules[3].calculatedProperties[0].value",
+      ]);
+    });
+
+    it("doesn't treat non-expression attributes as expressions", () => {
+      const ruleset = createRuleset([{
+        ruleType: RuleTypes.ContentModifier,
+        calculatedProperties: [{ label: "Width (m)", value: "this.Width" }],
+        propertyCategories: [{ id: "custom", label: "Custom (m)" }],
+      }, {
+        ruleType: RuleTypes.StyleOverride,
+        condition: "",
+        fontStyle: "Bold",
+      }]);
+      expect(validator.validate(ruleset)).to.be.empty;
+    });
+
+  });
+
+  describe("rules' reachability validation", () => {
+
+    let validator: RulesetValidator;
+    beforeEach(() => {
+      validator = new RulesetValidator();
+    });
+
+    it("reports rules with always false conditions", () => {
+      const ruleset = createRuleset([{
+        ruleType: RuleTypes.Content,
+        condition: " False ",
+        specifications: [],
+      }]);
+      expect(validator.validate(ruleset)).to.deep.eq([{
+        severity: RulesetValidationIssueSeverity.Warning,
+        path: "rules[0]",
+        message: "Rule is never applied, because its condition is always false",
+      }]);
+    });
+
+    it("reports 'only if not handled' rules that are always handled by other rules", () => {
+      const ruleset = createRuleset([{
+        ruleType: RuleTypes.Content,
+        onlyIfNotHandled: true,
+        specifications: [{ specType: ContentSpecificationTypes.SelectedNodeInstances }],
+      }, {
+        ruleType: RuleTypes.Content,
+        priority: 2000,
+        specifications: [{ specType: ContentSpecificationTypes.SelectedNodeInstances }],
+      }, {
+        ruleType: RuleTypes.ChildNodes,
+        condition: `ParentNode.IsOfClass("Subject", "BisCore")`,
+        specifications: [{ specType: ChildNodeSpecificationTypes.CustomNode, type: "T", label: "L" }],
+      }, {
+        ruleType: RuleTypes.ChildNodes,
+        condition: `ParentNode.IsOfClass("Subject", "BisCore")`,
+        onlyIfNotHandled: true,
+        specifications: [{ specType: ChildNodeSpecificationTypes.CustomNode, type: "T", label: "L" }],
+      }]);
+      expect(validator.validate(ruleset)).to.deep.eq([{
+        severity: RulesetValidationIssueSeverity.Warning,
+        path: "rules[0]",
+        message: `Rule is never applied, because it's only applied if not handled and "rules[1]" handles the same input before it`,
+      }, {
+        severity: RulesetValidationIssueSeverity.Warning,
+        path: "rules[3]",
+        message: `Rule is never applied, because it's only applied if not handled and "rules[2]" handles the same input before it`,
+      }]);
+    });
+
+    it("doesn't report 'only if not handled' rules that may be reached", () => {
+      const ruleset = createRuleset([{
+        ruleType: RuleTypes.RootNodes,
+        onlyIfNotHandled: true,
+        priority: 2000,
+        specifications: [{ specType: ChildNodeSpecificationTypes.CustomNode, type: "T", label: "L" }],
+      }, {
+        ruleType: RuleTypes.RootNodes,
+        specifications: [{ specType: ChildNodeSpecificationTypes.CustomNode, type: "T", label: "L" }],
+      }, {
+        ruleType: RuleTypes.ChildNodes,
+        condition: `ParentNode.IsOfClass("Subject", "BisCore")`,
+        specifications: [{ specType: ChildNodeSpecificationTypes.CustomNode, type: "T", label: "L" }],
+      }, {
+        ruleType: RuleTypes.ChildNodes,
+        condition: `ParentNode.IsOfClass("Model", "BisCore")`,
+        onlyIfNotHandled: true,
+        specifications: [{ specType: ChildNodeSpecificationTypes.CustomNode, type: "T", label: "L" }],
+      }, {
+        ruleType: RuleTypes.Content,
+        condition: "FALSE",
+        specifications: [{ specType: ContentSpecificationTypes.SelectedNodeInstances }],
+      }, {
+        ruleType: RuleTypes.Content,
+        specifications: [],
+      }, {
+        ruleType: RuleTypes.Content,
+        onlyIfNotHandled: true,
+        specifications: [{ specType: ContentSpecificationTypes.SelectedNodeInstances }],
+      }, {
+        ruleType: RuleTypes.LabelOverride,
+        label: `"a"`,
+      }, {
+        ruleType: RuleTypes.LabelOverride,
+        onlyIfNotHandled: true,
+        label: `"b"`,
+      }]);
+      expect(validator.validate(ruleset).filter((issue) => issue.path !== "rules[4]")).to.be.empty;
+    });
+
+  });
+
+});
+
+describe("getECExpressionSyntaxError", () => {
+
+  it("returns `undefined` for valid expressions", () => {
+    [
+      "",
+      "TRUE",
+      `"Dog and Cat" & "" & 1 & 2.5 & @1549278124937`,
+      `"escaped "" quote"`,
+      "-(2 * (3 + 4)) ^ 2 \\ 5 Mod 3 >> 1 <<  2 >>> 3",
+      "NOT ThisNode.HasChildren ANDALSO NOT ThisNode.ChildrenArtifacts.AnyMatches(x => x.isContentModel)",
+      `IIF(this.Parent.Id = NULL, "icon-imodel-hollow-2", "icon-folder")`,
+      `this.StructArray[5].Struct.PropertyName <> "" Or System.Math.Sin(1.57) >= 1 Xor a <= b OrElse a < b And a > b`,
+      `GetVariableStringValue("ViewType") = "2d"`,
+      "System.Math.PI.Round()",
+    ].forEach((expression) => expect(getECExpressionSyntaxError(expression), expression).to.be.undefined);
+  });
+
+  it("returns error for invalid expressions", () => {
+    expect(getECExpressionSyntaxError(`"unterminated`)).to.eq("unterminated string at position 0");
+    expect(getECExpressionSyntaxError("this.Value # 2")).to.eq(`unexpected character "#" at position 11`);
+    expect(getECExpressionSyntaxError("this.")).to.eq("unexpected end of expression");
+    expect(getECExpressionSyntaxError("this.(1)")).to.eq(`unexpected "(" at position 5`);
+    expect(getECExpressionSyntaxError("f(1,)")).to.eq(`unexpected ")" at position 4`);
+    expect(getECExpressionSyntaxError("a[1")).to.eq("unexpected end of expression");
+    expect(getECExpressionSyntaxError("1 => 2")).to.eq(`unexpected "=>" at position 2`);
+    expect(getECExpressionSyntaxError("a NOT b")).to.eq(`unexpected "NOT" at position 2`);
+    expect(getECExpressionSyntaxError("1 2")).to.eq(`unexpected "2" at position 2`);
+  });
+
+});
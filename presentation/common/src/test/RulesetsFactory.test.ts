@@ -7,7 +7,8 @@ import * as faker from "faker";
 import * as sinon from "sinon";
 import {
   ArrayTypeDescription, ClassInfo, ContentSpecificationTypes, Field, Item, NestedContentField, NestedContentValue, PrimitiveTypeDescription,
-  PropertiesField, Property, PropertyValueFormat, RelatedClassInfo, RelationshipDirection, Rule, RulesetsFactory, RuleTypes, StructTypeDescription,
+  PropertiesField, Property, PropertyValueFormat, RelatedClassInfo, RelationshipDirection, Rule, Ruleset, RulesetsFactory, RuleTypes, StructTypeDescription,
+  VariableValueType,
 } from "../presentation-common";
 import { createRandomCategory, createRandomECClassInfo, createRandomId, createRandomPrimitiveTypeDescription } from "./_helpers/random";
 
@@ -1476,4 +1477,108 @@ describe("RulesetsFactory", () => {
 
   });
 
+  describe("createCompositeRuleset", () => {
+
+    const createRulesetsLookup = (...rulesets: Ruleset[]) => (id: string) => rulesets.find((ruleset) => ruleset.id === id);
+
+    it("returns given ruleset when it doesn't extend any rulesets", () => {
+      const ruleset: Ruleset = { id: "test", rules: [{ ruleType: RuleTypes.RootNodes, specifications: [] }] };
+      expect(factory.createCompositeRuleset(ruleset, createRulesetsLookup())).to.eq(ruleset);
+    });
+
+    it("includes rules, variables and supported schemas of base rulesets", () => {
+      const base: Ruleset = {
+        id: "base",
+        supportedSchemas: { schemaNames: ["BisCore"] },
+        vars: [{ label: "Base", vars: [{ id: "a", label: "A", type: VariableValueType.YesNo }] }],
+        rules: [{ ruleType: RuleTypes.RootNodes, specifications: [] }],
+      };
+      const ruleset: Ruleset = {
+        id: "test",
+        baseRulesets: ["base"],
+        vars: [{ label: "Test", vars: [{ id: "b", label: "B", type: VariableValueType.Int }] }],
+        rules: [{ ruleType: RuleTypes.Content, specifications: [] }],
+      };
+      expect(factory.createCompositeRuleset(ruleset, createRulesetsLookup(base))).to.deep.eq({
+        id: "test",
+        supportedSchemas: { schemaNames: ["BisCore"] },
+        vars: [...base.vars!, ...ruleset.vars!],
+        rules: [...base.rules, ...ruleset.rules],
+      });
+    });
+
+    it("replaces base rules with the same id and takes over their priority", () => {
+      const base: Ruleset = {
+        id: "base",
+        rules: [
+          { id: "root", ruleType: RuleTypes.RootNodes, priority: 10, specifications: [] },
+          { id: "content", ruleType: RuleTypes.Content, priority: 20, specifications: [] },
+        ],
+      };
+      const ruleset: Ruleset = {
+        id: "test",
+        baseRulesets: ["base"],
+        rules: [
+          { id: "root", ruleType: RuleTypes.RootNodes, stopFurtherProcessing: true, specifications: [] },
+          { id: "content", ruleType: RuleTypes.Content, priority: 30, specifications: [] },
+        ],
+      };
+      expect(factory.createCompositeRuleset(ruleset, createRulesetsLookup(base)).rules).to.deep.eq([
+        { id: "root", ruleType: RuleTypes.RootNodes, stopFurtherProcessing: true, priority: 10, specifications: [] },
+        { id: "content", ruleType: RuleTypes.Content, priority: 30, specifications: [] },
+      ]);
+    });
+
+    it("replaces rules of earlier base rulesets with rules of later ones", () => {
+      const base1: Ruleset = { id: "base1", supportedSchemas: { schemaNames: ["A"] }, rules: [{ id: "root", ruleType: RuleTypes.RootNodes, specifications: [] }] };
+      const base2: Ruleset = { id: "base2", supportedSchemas: { schemaNames: ["B"] }, rules: [{ id: "root", ruleType: RuleTypes.RootNodes, stopFurtherProcessing: true, specifications: [] }] };
+      const ruleset: Ruleset = { id: "test", baseRulesets: ["base1", "base2"], rules: [] };
+      expect(factory.createCompositeRuleset(ruleset, createRulesetsLookup(base1, base2))).to.deep.eq({
+        id: "test",
+        supportedSchemas: { schemaNames: ["B"] },
+        rules: base2.rules,
+      });
+    });
+
+    it("excludes removed base rules", () => {
+      const base: Ruleset = {
+        id: "base",
+        rules: [
+          { id: "root", ruleType: RuleTypes.RootNodes, specifications: [] },
+          { id: "content", ruleType: RuleTypes.Content, specifications: [] },
+        ],
+      };
+      const ruleset: Ruleset = { id: "test", baseRulesets: ["base"], removedRules: ["root"], rules: [] };
+      expect(factory.createCompositeRuleset(ruleset, createRulesetsLookup(base)).rules).to.deep.eq([base.rules[1]]);
+    });
+
+    it("resolves base rulesets recursively", () => {
+      const base1: Ruleset = { id: "base1", rules: [{ id: "root", ruleType: RuleTypes.RootNodes, specifications: [] }] };
+      const base2: Ruleset = { id: "base2", baseRulesets: ["base1"], removedRules: ["root"], rules: [{ ruleType: RuleTypes.Content, specifications: [] }] };
+      const ruleset: Ruleset = { id: "test", baseRulesets: ["base2"], rules: [] };
+      expect(factory.createCompositeRuleset(ruleset, createRulesetsLookup(base1, base2))).to.deep.eq({
+        id: "test",
+        rules: base2.rules,
+      });
+    });
+
+    it("throws when base ruleset is not available", () => {
+      const ruleset: Ruleset = { id: "test", baseRulesets: ["base"], rules: [] };
+      expect(() => factory.createCompositeRuleset(ruleset, createRulesetsLookup())).to.throw("not available");
+    });
+
+    it("throws when removed rule doesn't exist in base rulesets", () => {
+      const base: Ruleset = { id: "base", rules: [] };
+      const ruleset: Ruleset = { id: "test", baseRulesets: ["base"], removedRules: ["root"], rules: [] };
+      expect(() => factory.createCompositeRuleset(ruleset, createRulesetsLookup(base))).to.throw("doesn't exist");
+    });
+
+    it("throws when ruleset extends itself", () => {
+      const base: Ruleset = { id: "base", baseRulesets: ["test"], rules: [] };
+      const ruleset: Ruleset = { id: "test", baseRulesets: ["base"], rules: [] };
+      expect(() => factory.createCompositeRuleset(ruleset, createRulesetsLookup(base, ruleset))).to.throw("test -> base -> test");
+    });
+
+  });
+
 });
@@ -35,5 +35,8 @@ export const createRandomRuleset = async () => {
   const ruleset: Ruleset = jsf.generate(RulesetSchema);
   jsf.reset();
   fixEmptyStrings(ruleset);
+  // random rulesets can't extend other rulesets, because base rulesets wouldn't be available
+  delete ruleset.baseRulesets;
+  delete ruleset.removedRules;
   return ruleset;
 };
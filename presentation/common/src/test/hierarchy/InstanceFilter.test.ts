@@ -0,0 +1,133 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { expect } from "chai";
+import { FieldDescriptorType, PropertiesFieldDescriptor } from "../../presentation-common/content/Fields";
+import { PresentationError } from "../../presentation-common/Error";
+import {
+  InstanceFilterCondition, InstanceFilterDefinition, InstanceFilterJoinOperator, InstanceFilterOperator,
+} from "../../presentation-common/hierarchy/InstanceFilter";
+import { createRandomPropertiesField } from "../_helpers/random";
+
+const createFieldDescriptor = (propertyNames: string[], relationshipPath?: PropertiesFieldDescriptor["pathFromSelectToPropertyClass"]): PropertiesFieldDescriptor => ({
+  type: FieldDescriptorType.Properties,
+  pathFromSelectToPropertyClass: relationshipPath ?? [],
+  properties: propertyNames.map((name) => ({ class: "TestSchema:TestClass", name })),
+});
+
+const createRelationshipStep = (isForwardRelationship: boolean) => ({
+  sourceClassName: "TestSchema:TestClass",
+  relationshipName: "TestSchema:TestRelationship",
+  targetClassName: "TestSchema:RelatedClass",
+  isForwardRelationship,
+});
+
+describe("InstanceFilterCondition", () => {
+
+  describe("create", () => {
+
+    it("creates condition for properties field", () => {
+      const field = createRandomPropertiesField();
+      const condition = InstanceFilterCondition.create(field, InstanceFilterOperator.Equal, "test");
+      expect(condition).to.deep.eq({
+        field: field.getFieldDescriptor(),
+        operator: InstanceFilterOperator.Equal,
+        value: "test",
+      });
+    });
+
+  });
+
+  describe("toECExpression", () => {
+
+    it("creates expression for comparison operators", () => {
+      const field = createFieldDescriptor(["Prop"]);
+      expect(InstanceFilterCondition.toECExpression({ field, operator: InstanceFilterOperator.Equal, value: 1 })).to.eq("this.Prop = 1");
+      expect(InstanceFilterCondition.toECExpression({ field, operator: InstanceFilterOperator.NotEqual, value: true })).to.eq("this.Prop <> TRUE");
+      expect(InstanceFilterCondition.toECExpression({ field, operator: InstanceFilterOperator.Less, value: false })).to.eq("this.Prop < FALSE");
+      expect(InstanceFilterCondition.toECExpression({ field, operator: InstanceFilterOperator.LessOrEqual, value: 1.5 })).to.eq("this.Prop <= 1.5");
+      expect(InstanceFilterCondition.toECExpression({ field, operator: InstanceFilterOperator.Greater, value: "a" })).to.eq(`this.Prop > "a"`);
+      expect(InstanceFilterCondition.toECExpression({ field, operator: InstanceFilterOperator.GreaterOrEqual, value: `"a"` })).to.eq(`this.Prop >= """a"""`);
+    });
+
+    it("creates expression for null checks", () => {
+      const field = createFieldDescriptor(["Prop"]);
+      expect(InstanceFilterCondition.toECExpression({ field, operator: InstanceFilterOperator.IsNull })).to.eq("IsNull(this.Prop)");
+      expect(InstanceFilterCondition.toECExpression({ field, operator: InstanceFilterOperator.IsNotNull, value: "ignored" })).to.eq("Not IsNull(this.Prop)");
+    });
+
+    it("creates expression for related property", () => {
+      expect(InstanceFilterCondition.toECExpression({
+        field: createFieldDescriptor(["Prop"], [createRelationshipStep(true)]),
+        operator: InstanceFilterOperator.Equal,
+        value: 2,
+      })).to.eq(`this.GetRelatedValue("TestSchema:TestRelationship", "Forward", "TestSchema:RelatedClass", "Prop") = 2`);
+      expect(InstanceFilterCondition.toECExpression({
+        field: createFieldDescriptor(["Prop"], [createRelationshipStep(false)]),
+        operator: InstanceFilterOperator.IsNull,
+      })).to.eq(`IsNull(this.GetRelatedValue("TestSchema:TestRelationship", "Backward", "TestSchema:RelatedClass", "Prop"))`);
+    });
+
+    it("creates expression for field with multiple properties", () => {
+      expect(InstanceFilterCondition.toECExpression({
+        field: createFieldDescriptor(["Prop1", "Prop2", "Prop1"]),
+        operator: InstanceFilterOperator.Equal,
+        value: 2,
+      })).to.eq(`(this.Prop1 = 2 OrElse this.Prop2 = 2)`);
+    });
+
+    it("throws when related property path is longer than one step", () => {
+      expect(() => InstanceFilterCondition.toECExpression({
+        field: createFieldDescriptor(["Prop"], [createRelationshipStep(true), createRelationshipStep(true)]),
+        operator: InstanceFilterOperator.IsNull,
+      })).to.throw(PresentationError);
+    });
+
+    it("throws when comparison value is not specified", () => {
+      expect(() => InstanceFilterCondition.toECExpression({
+        field: createFieldDescriptor(["Prop"]),
+        operator: InstanceFilterOperator.Equal,
+      })).to.throw(PresentationError);
+    });
+
+  });
+
+});
+
+describe("InstanceFilterDefinition", () => {
+
+  describe("toECExpression", () => {
+
+    it("returns TRUE for filter without conditions", () => {
+      expect(InstanceFilterDefinition.toECExpression({ conditions: [] })).to.eq("TRUE");
+    });
+
+    it("returns condition expression for filter with single condition", () => {
+      expect(InstanceFilterDefinition.toECExpression({
+        conditions: [{ field: createFieldDescriptor(["Prop"]), operator: InstanceFilterOperator.Equal, value: 1 }],
+      })).to.eq("this.Prop = 1");
+    });
+
+    it("joins multiple conditions with AndAlso by default", () => {
+      expect(InstanceFilterDefinition.toECExpression({
+        conditions: [
+          { field: createFieldDescriptor(["Prop1"]), operator: InstanceFilterOperator.Equal, value: 1 },
+          { field: createFieldDescriptor(["Prop2"]), operator: InstanceFilterOperator.IsNull },
+        ],
+      })).to.eq("(this.Prop1 = 1) AndAlso (IsNull(this.Prop2))");
+    });
+
+    it("joins multiple conditions with OrElse", () => {
+      expect(InstanceFilterDefinition.toECExpression({
+        conditions: [
+          { field: createFieldDescriptor(["Prop1"]), operator: InstanceFilterOperator.Equal, value: 1 },
+          { field: createFieldDescriptor(["Prop2"]), operator: InstanceFilterOperator.IsNull },
+        ],
+        joinOperator: InstanceFilterJoinOperator.Or,
+      })).to.eq("(this.Prop1 = 1) OrElse (IsNull(this.Prop2))");
+    });
+
+  });
+
+});
@@ -71,6 +71,7 @@ export { useControlledTreeFiltering, ControlledTreeFilteringProps } from "./pres
 export { DEPRECATED_controlledTreeWithFilteringSupport, ControlledTreeWithFilteringSupportProps } from "./presentation-components/tree/controlled/WithFilteringSupport";
 export { DEPRECATED_controlledTreeWithVisibleNodes, ControlledTreeWithVisibleNodesProps } from "./presentation-components/tree/controlled/WithVisibleNodes";
 export { usePresentationTreeNodeLoader, PresentationTreeNodeLoaderProps } from "./presentation-components/tree/controlled/TreeHooks";
+export { PresentationInstanceFilterBuilder, PresentationInstanceFilterBuilderProps } from "./presentation-components/tree/InstanceFilterBuilder";
 
 /**
  * @module Viewport
@@ -6,10 +6,14 @@
  * @module Tree
  */
 
+import { isEqual } from "lodash";
 import memoize from "micro-memoize";
 import { IDisposable, Logger } from "@bentley/bentleyjs-core";
 import { IModelConnection } from "@bentley/imodeljs-frontend";
-import { ExtendedHierarchyRequestOptions, Node, NodeKey, NodePathElement, Paged, Ruleset } from "@bentley/presentation-common";
+import {
+  ContentSpecificationTypes, DefaultContentDisplayTypes, Descriptor, ExtendedHierarchyRequestOptions, InstanceFilterDefinition, KeySet, Node, NodeKey,
+  NodePathElement, Paged, Ruleset, RuleTypes,
+} from "@bentley/presentation-common";
 import { Presentation } from "@bentley/presentation-frontend";
 import { DelayLoadedTreeNodeItem, PageOptions, TreeNodeItem } from "@bentley/ui-components";
 import { RulesetRegistrationHelper } from "../common/RulesetRegistrationHelper";
@@ -61,6 +65,17 @@ export interface PresentationTreeDataProviderProps {
    * @alpha
    */
   dataSourceOverrides?: Partial<PresentationTreeDataProviderDataSourceEntryPoints>;
+
+  /**
+   * Called to get a property-based filter for ECInstance nodes of the hierarchy level under the given
+   * parent node (`undefined` for the root level). Hierarchy levels, for which the callback returns
+   * `undefined`, are not filtered. The filters are not applied when requesting filtered node paths.
+   * The callback is called on every nodes request, so nodes are requested again when the returned filter changes.
+   *
+   * **Note:** [[PresentationInstanceFilterBuilder]] component may be used to build the filters.
+   * @alpha
+   */
+  getHierarchyLevelFilter?: (parentNode: TreeNodeItem | undefined) => InstanceFilterDefinition | undefined;
 }
 
 /** @alpha */
@@ -81,6 +96,7 @@ export class PresentationTreeDataProvider implements IPresentationTreeDataProvid
   private _appendChildrenCountForGroupingNodes?: boolean;
   private _disposeVariablesChangeListener: () => void;
   private _dataSource: PresentationTreeDataProviderDataSourceEntryPoints;
+  private _getHierarchyLevelFilter?: (parentNode: TreeNodeItem | undefined) => InstanceFilterDefinition | undefined;
 
   /** Constructor. */
   public constructor(props: PresentationTreeDataProviderProps) {
@@ -94,6 +110,7 @@ export class PresentationTreeDataProvider implements IPresentationTreeDataProvid
       getFilteredNodePaths: async (requestOptions: ExtendedHierarchyRequestOptions<IModelConnection, NodeKey>, filterText: string) => Presentation.presentation.getFilteredNodePaths(requestOptions, filterText),
       ...props.dataSourceOverrides,
     };
+    this._getHierarchyLevelFilter = props.getHierarchyLevelFilter;
     this._disposeVariablesChangeListener = Presentation.presentation.vars(this._rulesetRegistration.rulesetId).onVariableChanged.addListener(() => {
       this._getNodesAndCount.cache.values.length = 0;
       this._getNodesAndCount.cache.keys.length = 0;
@@ -120,14 +137,20 @@ export class PresentationTreeDataProvider implements IPresentationTreeDataProvid
   public set pagingSize(value: number | undefined) { this._pagingSize = value; }
 
   /** Called to get extended options for node requests */
-  private createRequestOptions(parentKey: NodeKey | undefined): ExtendedHierarchyRequestOptions<IModelConnection, NodeKey> {
+  private createRequestOptions(parentKey: NodeKey | undefined, instanceFilter?: InstanceFilterDefinition): ExtendedHierarchyRequestOptions<IModelConnection, NodeKey> {
     return {
       imodel: this._imodel,
       rulesetOrId: this._rulesetRegistration.rulesetId,
       ...(parentKey ? { parentKey } : undefined),
+      ...(instanceFilter ? { instanceFilter } : undefined),
     };
   }
 
+  /** Called to get instance filter for the hierarchy level under the given parent node */
+  private getHierarchyLevelFilter(parentNode: TreeNodeItem | undefined): InstanceFilterDefinition | undefined {
+    return this._getHierarchyLevelFilter ? this._getHierarchyLevelFilter(parentNode) : undefined;
+  }
+
   /**
    * Returns a [[NodeKey]] from given [[TreeNodeItem]].
    * **Warning:** the `node` must be created by this data provider.
@@ -147,7 +170,7 @@ export class PresentationTreeDataProvider implements IPresentationTreeDataProvid
         Make sure you set PresentationTreeDataProvider.pagingSize to avoid excessive backend requests.`;
       Logger.logWarning(PresentationComponentsLoggerCategory.Hierarchy, msg);
     }
-    return (await this._getNodesAndCount(parentNode, pageOptions)).nodes;
+    return (await this._getNodesAndCount(parentNode, pageOptions, this.getHierarchyLevelFilter(parentNode))).nodes;
   }
 
   /**
@@ -155,16 +178,17 @@ export class PresentationTreeDataProvider implements IPresentationTreeDataProvid
    * @param parentNode The parent node to return children count for.
    */
   public async getNodesCount(parentNode?: TreeNodeItem): Promise<number> {
+    const instanceFilter = this.getHierarchyLevelFilter(parentNode);
     if (this.pagingSize !== undefined)
-      return (await this._getNodesAndCount(parentNode, { start: 0, size: this.pagingSize })).count;
+      return (await this._getNodesAndCount(parentNode, { start: 0, size: this.pagingSize }, instanceFilter)).count;
 
     const parentKey = parentNode ? this.getNodeKey(parentNode) : undefined;
-    return this._dataSource.getNodesCount(this.createRequestOptions(parentKey));
+    return this._dataSource.getNodesCount(this.createRequestOptions(parentKey, instanceFilter));
   }
 
-  private _getNodesAndCount = memoize(async (parentNode?: TreeNodeItem, pageOptions?: PageOptions): Promise<{ nodes: TreeNodeItem[], count: number }> => {
+  private _getNodesAndCount = memoize(async (parentNode?: TreeNodeItem, pageOptions?: PageOptions, instanceFilter?: InstanceFilterDefinition): Promise<{ nodes: TreeNodeItem[], count: number }> => {
     const parentKey = parentNode ? this.getNodeKey(parentNode) : undefined;
-    const requestOptions = { ...this.createRequestOptions(parentKey), paging: pageOptionsUiToPresentation(pageOptions) };
+    const requestOptions = { ...this.createRequestOptions(parentKey, instanceFilter), paging: pageOptionsUiToPresentation(pageOptions) };
     const nodesCreateProps: CreateTreeNodeItemProps = {
       appendChildrenCountForGroupingNodes: this._appendChildrenCountForGroupingNodes,
     };
@@ -172,6 +196,27 @@ export class PresentationTreeDataProvider implements IPresentationTreeDataProvid
     return { nodes: createTreeNodeItems(result.nodes, parentNode?.id, nodesCreateProps), count: result.count };
   }, { isMatchingKey: MemoizationHelpers.areNodesRequestsEqual as any });
 
+  /**
+   * Returns a content descriptor, whose fields may be used to create an [[InstanceFilterDefinition]] for
+   * the hierarchy level under the given parent node. The descriptor is created for instances of the
+   * first page of unfiltered hierarchy level nodes. Returns `undefined` if the hierarchy level has
+   * no nodes.
+   * @alpha
+   */
+  public async getHierarchyLevelDescriptor(parentNode?: TreeNodeItem): Promise<Descriptor | undefined> {
+    const parentKey = parentNode ? this.getNodeKey(parentNode) : undefined;
+    const paging = (undefined !== this.pagingSize) ? { start: 0, size: this.pagingSize } : undefined;
+    const { nodes } = await this._dataSource.getNodesAndCount({ ...this.createRequestOptions(parentKey), paging });
+    if (nodes.length === 0)
+      return undefined;
+    return Presentation.presentation.getContentDescriptor({
+      imodel: this._imodel,
+      rulesetOrId: HIERARCHY_LEVEL_DESCRIPTOR_RULESET,
+      displayType: DefaultContentDisplayTypes.PropertyPane,
+      keys: new KeySet(nodes.map((node) => node.key)),
+    });
+  }
+
   /**
    * Returns filtered node paths.
    * @param filter Filter.
@@ -190,14 +235,24 @@ export class PresentationTreeDataProvider implements IPresentationTreeDataProvid
 
 }
 
+const HIERARCHY_LEVEL_DESCRIPTOR_RULESET: Ruleset = {
+  id: "presentation-components/HierarchyLevelDescriptor",
+  rules: [{
+    ruleType: RuleTypes.Content,
+    specifications: [{ specType: ContentSpecificationTypes.SelectedNodeInstances }],
+  }],
+};
+
 class MemoizationHelpers {
-  public static areNodesRequestsEqual(lhsArgs: [TreeNodeItem?, PageOptions?], rhsArgs: [TreeNodeItem?, PageOptions?]): boolean {
+  public static areNodesRequestsEqual(lhsArgs: [TreeNodeItem?, PageOptions?, InstanceFilterDefinition?], rhsArgs: [TreeNodeItem?, PageOptions?, InstanceFilterDefinition?]): boolean {
     if (lhsArgs[0]?.id !== rhsArgs[0]?.id)
       return false;
     if ((lhsArgs[1]?.start ?? 0) !== (rhsArgs[1]?.start ?? 0))
       return false;
     if ((lhsArgs[1]?.size ?? 0) !== (rhsArgs[1]?.size ?? 0))
       return false;
+    if (!isEqual(lhsArgs[2], rhsArgs[2]))
+      return false;
     return true;
   }
 }
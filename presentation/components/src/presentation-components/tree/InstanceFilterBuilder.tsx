@@ -0,0 +1,167 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+/** @packageDocumentation
+ * @module Tree
+ */
+
+import "./InstanceFilterBuilder.scss";
+import { isEqual } from "lodash";
+import * as React from "react";
+import {
+  Descriptor, Field, InstanceFilterCondition, InstanceFilterDefinition, InstanceFilterJoinOperator, InstanceFilterOperator, PropertiesField,
+  PropertiesFieldDescriptor, PropertyValueFormat,
+} from "@bentley/presentation-common";
+import { Button, ButtonType, Input, Select } from "@bentley/ui-core";
+import { translate } from "../common/Utils";
+
+/**
+ * Props for [[PresentationInstanceFilterBuilder]] component.
+ * @alpha
+ */
+export interface PresentationInstanceFilterBuilderProps {
+  /** Descriptor whose properties fields can be used to build the filter. See `PresentationTreeDataProvider.getHierarchyLevelDescriptor`. */
+  descriptor: Descriptor;
+  /** Initial filter */
+  filter?: InstanceFilterDefinition;
+  /** Called when the filter is applied or cleared. The filter is `undefined` when cleared. */
+  onFilterApplied: (filter: InstanceFilterDefinition | undefined) => void;
+}
+
+interface ConditionRow {
+  fieldKey: string;
+  operator: InstanceFilterOperator;
+  value: string;
+}
+
+/**
+ * A component for building an [[InstanceFilterDefinition]] from properties fields of the given
+ * content descriptor. Only primitive properties of the filtered instances and instances related
+ * through a single relationship step can be used in conditions.
+ *
+ * @alpha
+ */
+export function PresentationInstanceFilterBuilder(props: PresentationInstanceFilterBuilderProps) {
+  const { descriptor, filter, onFilterApplied } = props;
+  const fields = React.useMemo(() => getFilterableFields(descriptor.fields), [descriptor]);
+  const [rows, setRows] = React.useState<ConditionRow[]>(() => createConditionRows(fields, filter));
+  const [joinOperator, setJoinOperator] = React.useState(filter?.joinOperator ?? InstanceFilterJoinOperator.And);
+
+  React.useEffect(() => {
+    setRows(createConditionRows(fields, filter));
+    setJoinOperator(filter?.joinOperator ?? InstanceFilterJoinOperator.And);
+  }, [fields, filter]);
+
+  const fieldOptions = React.useMemo(() => fields.reduce<{ [key: string]: string }>((options, field) => ({ ...options, [getFieldKey(field)]: field.label }), {}), [fields]);
+  const operatorOptions = React.useMemo(() => Object.values(InstanceFilterOperator).reduce<{ [key: string]: string }>((options, operator) => ({
+    ...options, [operator]: translate(`instance-filter-builder.operators.${OPERATOR_LABEL_KEYS[operator]}`),
+  }), {}), []);
+  const joinOperatorOptions = React.useMemo(() => ({
+    [InstanceFilterJoinOperator.And]: translate("instance-filter-builder.join-operators.and"),
+    [InstanceFilterJoinOperator.Or]: translate("instance-filter-builder.join-operators.or"),
+  }), []);
+
+  const updateRow = (index: number, update: Partial<ConditionRow>) => setRows((prev) => prev.map((row, i) => (i === index) ? { ...row, ...update } : row));
+  const removeRow = (index: number) => setRows((prev) => prev.filter((_, i) => i !== index));
+  const addRow = () => setRows((prev) => [...prev, { fieldKey: getFieldKey(fields[0]), operator: InstanceFilterOperator.Equal, value: "" }]);
+  const applyFilter = () => onFilterApplied(createFilter(fields, rows, joinOperator));
+  const clearFilter = () => {
+    setRows([]);
+    onFilterApplied(undefined);
+  };
+
+  return (
+    <div className="pcomponents-instance-filter-builder">
+      {(rows.length > 1) && <Select className="join-operator" options={joinOperatorOptions} value={joinOperator}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setJoinOperator(e.target.value as InstanceFilterJoinOperator)} />}
+      {rows.map((row, index) => (
+        <div className="condition" key={index}>
+          <Select className="condition-field" options={fieldOptions} value={row.fieldKey}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateRow(index, { fieldKey: e.target.value })} />
+          <Select className="condition-operator" options={operatorOptions} value={row.operator}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateRow(index, { operator: e.target.value as InstanceFilterOperator })} />
+          {isValueRequired(row.operator) && <Input className="condition-value" value={row.value}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRow(index, { value: e.target.value })} />}
+          <Button className="condition-remove" buttonType={ButtonType.Hollow} onClick={() => removeRow(index)}>
+            {translate("instance-filter-builder.remove-condition")}
+          </Button>
+        </div>
+      ))}
+      <div className="actions">
+        <Button className="add-condition" buttonType={ButtonType.Hollow} disabled={fields.length === 0} onClick={addRow}>
+          {translate("instance-filter-builder.add-condition")}
+        </Button>
+        <Button className="clear-filter" buttonType={ButtonType.Hollow} onClick={clearFilter}>
+          {translate("instance-filter-builder.clear")}
+        </Button>
+        <Button className="apply-filter" buttonType={ButtonType.Primary} onClick={applyFilter}>
+          {translate("instance-filter-builder.apply")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+const OPERATOR_LABEL_KEYS: { [operator in InstanceFilterOperator]: string } = {
+  [InstanceFilterOperator.Equal]: "equal",
+  [InstanceFilterOperator.NotEqual]: "not-equal",
+  [InstanceFilterOperator.Less]: "less",
+  [InstanceFilterOperator.LessOrEqual]: "less-or-equal",
+  [InstanceFilterOperator.Greater]: "greater",
+  [InstanceFilterOperator.GreaterOrEqual]: "greater-or-equal",
+  [InstanceFilterOperator.IsNull]: "is-null",
+  [InstanceFilterOperator.IsNotNull]: "is-not-null",
+};
+
+const getFieldKey = (field: Field): string => field.parent ? `${getFieldKey(field.parent)}/${field.name}` : field.name;
+
+const isValueRequired = (operator: InstanceFilterOperator) => (operator !== InstanceFilterOperator.IsNull && operator !== InstanceFilterOperator.IsNotNull);
+
+const getFilterableFields = (fields: Field[]): PropertiesField[] => {
+  const result = new Array<PropertiesField>();
+  fields.forEach((field) => {
+    if (field.isNestedContentField())
+      result.push(...getFilterableFields(field.nestedFields));
+    else if (field.isPropertiesField() && field.type.valueFormat === PropertyValueFormat.Primitive && (field.getFieldDescriptor() as PropertiesFieldDescriptor).pathFromSelectToPropertyClass.length <= 1)
+      result.push(field);
+  });
+  return result;
+};
+
+const createConditionRows = (fields: PropertiesField[], filter: InstanceFilterDefinition | undefined): ConditionRow[] => {
+  if (!filter)
+    return [];
+  const rows = new Array<ConditionRow>();
+  filter.conditions.forEach((condition) => {
+    const field = fields.find((f) => isEqual(f.getFieldDescriptor(), condition.field));
+    if (field)
+      rows.push({ fieldKey: getFieldKey(field), operator: condition.operator, value: (condition.value !== undefined) ? condition.value.toString() : "" });
+  });
+  return rows;
+};
+
+const createFilter = (fields: PropertiesField[], rows: ConditionRow[], joinOperator: InstanceFilterJoinOperator): InstanceFilterDefinition | undefined => {
+  const conditions = new Array<InstanceFilterCondition>();
+  rows.forEach((row) => {
+    const field = fields.find((f) => getFieldKey(f) === row.fieldKey);
+    if (field)
+      conditions.push(InstanceFilterCondition.create(field, row.operator, isValueRequired(row.operator) ? parseValue(field, row.value) : undefined));
+  });
+  if (conditions.length === 0)
+    return undefined;
+  return { conditions, joinOperator };
+};
+
+const parseValue = (field: PropertiesField, value: string): string | number | boolean => {
+  switch (field.type.typeName.toLowerCase()) {
+    case "int":
+    case "long":
+    case "double":
+      return Number(value);
+    case "boolean":
+    case "bool":
+      return value.toLowerCase() === "true";
+  }
+  return value;
+};
@@ -6,14 +6,18 @@
 import "@bentley/presentation-frontend/lib/test/_helpers/MockFrontendEnvironment";
 import { expect } from "chai";
 import * as faker from "faker";
+import { isEqual } from "lodash";
 import * as sinon from "sinon";
 import { BeEvent, Logger } from "@bentley/bentleyjs-core";
 import { IModelConnection } from "@bentley/imodeljs-frontend";
-import { Node, RegisteredRuleset } from "@bentley/presentation-common";
+import {
+  ContentDescriptorRequestOptions, ContentSpecificationTypes, DefaultContentDisplayTypes, FieldDescriptorType, InstanceFilterDefinition,
+  InstanceFilterOperator, KeySet, Node, RegisteredRuleset, RuleTypes,
+} from "@bentley/presentation-common";
 import * as moq from "@bentley/presentation-common/lib/test/_helpers/Mocks";
 import { PromiseContainer, ResolvablePromise } from "@bentley/presentation-common/lib/test/_helpers/Promises";
 import {
-  createRandomECInstancesNode, createRandomECInstancesNodeKey, createRandomNodePathElement, createRandomRuleset,
+  createRandomDescriptor, createRandomECInstancesNode, createRandomECInstancesNodeKey, createRandomNodePathElement, createRandomRuleset,
 } from "@bentley/presentation-common/lib/test/_helpers/random";
 import { Presentation, PresentationManager, RulesetManager, RulesetVariablesManager } from "@bentley/presentation-frontend";
 import { PageOptions } from "@bentley/ui-components";
@@ -39,6 +43,13 @@ describe("TreeDataProvider", () => {
     Presentation.terminate();
   });
 
+  const instanceFilter: InstanceFilterDefinition = {
+    conditions: [{
+      field: { type: FieldDescriptorType.Properties, pathFromSelectToPropertyClass: [], properties: [{ class: "TestSchema:TestClass", name: "TestProperty" }] },
+      operator: InstanceFilterOperator.IsNotNull,
+    }],
+  };
+
   beforeEach(() => {
     onVariableChanged = new BeEvent();
     presentationManagerMock.reset();
@@ -156,6 +167,21 @@ describe("TreeDataProvider", () => {
       presentationManagerMock.verifyAll();
     });
 
+    it("passes hierarchy level filter to presentation manager", async () => {
+      const parentKey = createRandomECInstancesNodeKey();
+      const parentNode = createRandomTreeNodeItem(parentKey);
+      const getHierarchyLevelFilter = sinon.stub().returns(instanceFilter);
+      provider = new PresentationTreeDataProvider({ imodel: imodelMock.object, ruleset: rulesetId, getHierarchyLevelFilter });
+      presentationManagerMock
+        .setup(async (x) => x.getNodesCount({ imodel: imodelMock.object, rulesetOrId: rulesetId, parentKey, instanceFilter }))
+        .returns(async () => 999)
+        .verifiable();
+      const actualResult = await provider.getNodesCount(parentNode);
+      expect(actualResult).to.eq(999);
+      expect(getHierarchyLevelFilter).to.be.calledOnceWith(parentNode);
+      presentationManagerMock.verifyAll();
+    });
+
     it("uses `getNodesCount` data source override if supplied", async () => {
       const override = sinon.mock().resolves(0);
       provider = new PresentationTreeDataProvider({ imodel: imodelMock.object, ruleset: rulesetId, dataSourceOverrides: { getNodesCount: override } });
@@ -226,6 +252,42 @@ describe("TreeDataProvider", () => {
       presentationManagerMock.verifyAll();
     });
 
+    it("passes hierarchy level filter to presentation manager", async () => {
+      const getHierarchyLevelFilter = sinon.stub().returns(instanceFilter);
+      provider = new PresentationTreeDataProvider({ imodel: imodelMock.object, ruleset: rulesetId, getHierarchyLevelFilter });
+      presentationManagerMock
+        .setup(async (x) => x.getNodesAndCount({ imodel: imodelMock.object, rulesetOrId: rulesetId, paging: undefined, instanceFilter }))
+        .returns(async () => ({ nodes: [createRandomECInstancesNode()], count: 1 }))
+        .verifiable();
+      const actualResult = await provider.getNodes();
+      expect(actualResult.length).to.eq(1);
+      expect(getHierarchyLevelFilter).to.be.calledOnceWith(undefined);
+      presentationManagerMock.verifyAll();
+    });
+
+    it("requests nodes again when hierarchy level filter changes", async () => {
+      const getHierarchyLevelFilter = sinon.stub().returns(undefined);
+      provider = new PresentationTreeDataProvider({ imodel: imodelMock.object, ruleset: rulesetId, getHierarchyLevelFilter });
+      presentationManagerMock
+        .setup(async (x) => x.getNodesAndCount({ imodel: imodelMock.object, rulesetOrId: rulesetId, paging: undefined }))
+        .returns(async () => ({ nodes: [createRandomECInstancesNode(), createRandomECInstancesNode()], count: 2 }))
+        .verifiable(moq.Times.once());
+      presentationManagerMock
+        .setup(async (x) => x.getNodesAndCount({ imodel: imodelMock.object, rulesetOrId: rulesetId, paging: undefined, instanceFilter }))
+        .returns(async () => ({ nodes: [createRandomECInstancesNode()], count: 1 }))
+        .verifiable(moq.Times.once());
+
+      const unfilteredResult = await provider.getNodes();
+      expect(await provider.getNodes()).to.eq(unfilteredResult);
+      expect(unfilteredResult.length).to.eq(2);
+
+      getHierarchyLevelFilter.returns(instanceFilter);
+      const filteredResult = await provider.getNodes();
+      expect(await provider.getNodes()).to.eq(filteredResult);
+      expect(filteredResult.length).to.eq(1);
+      presentationManagerMock.verifyAll();
+    });
+
     it("uses `getNodesAndCount` data source override if supplied", async () => {
       const override = sinon.mock().resolves({ count: 0, nodes: [] });
       provider = new PresentationTreeDataProvider({ imodel: imodelMock.object, ruleset: rulesetId, dataSourceOverrides: { getNodesAndCount: override } });
@@ -265,6 +327,43 @@ describe("TreeDataProvider", () => {
 
   });
 
+  describe("getHierarchyLevelDescriptor", () => {
+
+    it("returns undefined when hierarchy level has no nodes", async () => {
+      presentationManagerMock
+        .setup(async (x) => x.getNodesAndCount({ imodel: imodelMock.object, rulesetOrId: rulesetId, paging: undefined }))
+        .returns(async () => ({ nodes: [], count: 0 }));
+      const descriptor = await provider.getHierarchyLevelDescriptor();
+      expect(descriptor).to.be.undefined;
+      presentationManagerMock.verify(async (x) => x.getContentDescriptor(moq.It.isAny()), moq.Times.never());
+    });
+
+    it("returns content descriptor for unfiltered hierarchy level nodes", async () => {
+      const getHierarchyLevelFilter = sinon.stub().returns(instanceFilter);
+      provider = new PresentationTreeDataProvider({ imodel: imodelMock.object, ruleset: rulesetId, pagingSize: 10, getHierarchyLevelFilter });
+      const parentKey = createRandomECInstancesNodeKey();
+      const parentNode = createRandomTreeNodeItem(parentKey);
+      const nodes = [createRandomECInstancesNode(), createRandomECInstancesNode()];
+      const descriptor = createRandomDescriptor();
+      presentationManagerMock
+        .setup(async (x) => x.getNodesAndCount({ imodel: imodelMock.object, rulesetOrId: rulesetId, paging: { start: 0, size: 10 }, parentKey }))
+        .returns(async () => ({ nodes, count: nodes.length }))
+        .verifiable();
+      presentationManagerMock
+        .setup(async (x) => x.getContentDescriptor(moq.It.is((options: ContentDescriptorRequestOptions<IModelConnection, KeySet>) => options.imodel === imodelMock.object
+          && typeof options.rulesetOrId === "object"
+          && isEqual(options.rulesetOrId.rules, [{ ruleType: RuleTypes.Content, specifications: [{ specType: ContentSpecificationTypes.SelectedNodeInstances }] }])
+          && options.displayType === DefaultContentDisplayTypes.PropertyPane
+          && options.keys.size === nodes.length && nodes.every((node) => options.keys.has(node.key)))))
+        .returns(async () => descriptor)
+        .verifiable();
+      const result = await provider.getHierarchyLevelDescriptor(parentNode);
+      expect(result).to.eq(descriptor);
+      presentationManagerMock.verifyAll();
+    });
+
+  });
+
   describe("getFilteredNodes", () => {
 
     it("returns presentation manager result", async () => {
@@ -0,0 +1,113 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import "@bentley/presentation-frontend/lib/test/_helpers/MockFrontendEnvironment";
+import { expect } from "chai";
+import { mount } from "enzyme";
+import * as path from "path";
+import * as React from "react";
+import * as sinon from "sinon";
+import { I18N } from "@bentley/imodeljs-i18n";
+import {
+  Descriptor, InstanceFilterDefinition, InstanceFilterJoinOperator, InstanceFilterOperator, PropertiesField, PropertiesFieldDescriptor, PropertyValueFormat,
+} from "@bentley/presentation-common";
+import {
+  createRandomDescriptor, createRandomNestedContentField, createRandomPrimitiveField, createRandomPropertiesField,
+} from "@bentley/presentation-common/lib/test/_helpers/random";
+import { Presentation } from "@bentley/presentation-frontend";
+import { initializeLocalization } from "../../presentation-components/common/Utils";
+import { PresentationInstanceFilterBuilder } from "../../presentation-components/tree/InstanceFilterBuilder";
+
+describe("PresentationInstanceFilterBuilder", () => {
+
+  let stringField: PropertiesField;
+  let numericField: PropertiesField;
+  let descriptor: Descriptor;
+
+  before(async () => {
+    Presentation.setI18nManager(new I18N("", {
+      urlTemplate: `file://${path.resolve("public/locales")}/{{lng}}/{{ns}}.json`,
+    }));
+    await initializeLocalization();
+  });
+
+  after(() => {
+    Presentation.terminate();
+  });
+
+  beforeEach(() => {
+    stringField = createRandomPropertiesField();
+    stringField.type = { valueFormat: PropertyValueFormat.Primitive, typeName: "string" };
+    numericField = createRandomPropertiesField();
+    numericField.type = { valueFormat: PropertyValueFormat.Primitive, typeName: "double" };
+    descriptor = createRandomDescriptor(undefined, [stringField, numericField]);
+  });
+
+  it("renders conditions of the initial filter", () => {
+    const filter: InstanceFilterDefinition = {
+      conditions: [
+        { field: stringField.getFieldDescriptor() as PropertiesFieldDescriptor, operator: InstanceFilterOperator.Equal, value: "test" },
+        { field: numericField.getFieldDescriptor() as PropertiesFieldDescriptor, operator: InstanceFilterOperator.IsNull },
+      ],
+      joinOperator: InstanceFilterJoinOperator.Or,
+    };
+    const component = mount(<PresentationInstanceFilterBuilder descriptor={descriptor} filter={filter} onFilterApplied={() => { }} />);
+    expect(component.find(".condition").hostNodes().length).to.eq(2);
+    expect(component.find("select.join-operator").prop("value")).to.eq(InstanceFilterJoinOperator.Or);
+    expect(component.find("input.condition-value").hostNodes().length).to.eq(1);
+    expect(component.find("input.condition-value").prop("value")).to.eq("test");
+  });
+
+  it("only offers primitive properties fields", () => {
+    const nestedPropertiesField = createRandomPropertiesField();
+    nestedPropertiesField.type = { valueFormat: PropertyValueFormat.Primitive, typeName: "string" };
+    const nestedContentField = createRandomNestedContentField([nestedPropertiesField]);
+    nestedContentField.pathToPrimaryClass = nestedContentField.pathToPrimaryClass.slice(0, 1);
+    const fields = [stringField, createRandomPrimitiveField(), nestedContentField];
+    const component = mount(<PresentationInstanceFilterBuilder descriptor={createRandomDescriptor(undefined, fields)} onFilterApplied={() => { }} />);
+    component.find("button.add-condition").simulate("click");
+    const optionValues = component.find("select.condition-field option").map((option) => option.prop("value"));
+    expect(optionValues).to.deep.eq([stringField.name, `${nestedContentField.name}/${nestedPropertiesField.name}`]);
+  });
+
+  it("applies filter with values converted to property type", () => {
+    const spy = sinon.spy();
+    const component = mount(<PresentationInstanceFilterBuilder descriptor={descriptor} onFilterApplied={spy} />);
+    component.find("button.add-condition").simulate("click");
+    component.find("button.add-condition").simulate("click");
+    component.find("input.condition-value").at(0).simulate("change", { target: { value: "test" } });
+    component.find("select.condition-field").at(1).simulate("change", { target: { value: numericField.name } });
+    component.find("select.condition-operator").at(1).simulate("change", { target: { value: InstanceFilterOperator.Greater } });
+    component.find("input.condition-value").at(1).simulate("change", { target: { value: "1.5" } });
+    component.find("button.apply-filter").simulate("click");
+    expect(spy).to.be.calledOnceWith({
+      conditions: [
+        { field: stringField.getFieldDescriptor(), operator: InstanceFilterOperator.Equal, value: "test" },
+        { field: numericField.getFieldDescriptor(), operator: InstanceFilterOperator.Greater, value: 1.5 },
+      ],
+      joinOperator: InstanceFilterJoinOperator.And,
+    });
+  });
+
+  it("applies `undefined` filter when all conditions are removed", () => {
+    const spy = sinon.spy();
+    const filter: InstanceFilterDefinition = {
+      conditions: [{ field: stringField.getFieldDescriptor() as PropertiesFieldDescriptor, operator: InstanceFilterOperator.IsNotNull }],
+    };
+    const component = mount(<PresentationInstanceFilterBuilder descriptor={descriptor} filter={filter} onFilterApplied={spy} />);
+    component.find("button.condition-remove").simulate("click");
+    component.find("button.apply-filter").simulate("click");
+    expect(spy).to.be.calledOnceWith(undefined);
+  });
+
+  it("applies `undefined` filter when cleared", () => {
+    const spy = sinon.spy();
+    const component = mount(<PresentationInstanceFilterBuilder descriptor={descriptor} onFilterApplied={spy} />);
+    component.find("button.add-condition").simulate("click");
+    component.find("button.clear-filter").simulate("click");
+    expect(spy).to.be.calledOnceWith(undefined);
+    expect(component.find(".condition").hostNodes().length).to.eq(0);
+  });
+
+});
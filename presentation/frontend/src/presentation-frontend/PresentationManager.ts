@@ -9,11 +9,11 @@
 import { BeEvent, IDisposable, Logger } from "@bentley/bentleyjs-core";
 import { EventSource, IModelApp, IModelConnection } from "@bentley/imodeljs-frontend";
 import {
-  Content, ContentDescriptorRequestOptions, ContentRequestOptions, ContentUpdateInfo, Descriptor, DescriptorOverrides, DisplayLabelRequestOptions,
-  DisplayLabelsRequestOptions, DisplayValueGroup, DistinctValuesRequestOptions, ExtendedContentRequestOptions, ExtendedHierarchyRequestOptions,
-  HierarchyRequestOptions, HierarchyUpdateInfo, InstanceKey, isContentDescriptorRequestOptions, isDisplayLabelRequestOptions,
-  isDisplayLabelsRequestOptions, isExtendedContentRequestOptions, isExtendedHierarchyRequestOptions, Item, Key, KeySet, LabelDefinition,
-  LabelRequestOptions, Node, NodeKey, NodeKeyJSON, NodePathElement, Paged, PagedResponse, PageOptions, PartialHierarchyModification,
+  Content, ContentDescriptorRequestOptions, ContentExportRequestOptions, ContentRequestOptions, ContentUpdateInfo, Descriptor, DescriptorOverrides,
+  DisplayLabelRequestOptions, DisplayLabelsRequestOptions, DisplayValueGroup, DistinctValuesRequestOptions, ExtendedContentRequestOptions,
+  ExtendedHierarchyRequestOptions, HierarchyRequestOptions, HierarchyUpdateInfo, InstanceKey, isContentDescriptorRequestOptions,
+  isDisplayLabelRequestOptions, isDisplayLabelsRequestOptions, isExtendedContentRequestOptions, isExtendedHierarchyRequestOptions, Item, Key, KeySet,
+  LabelDefinition, LabelRequestOptions, Node, NodeKey, NodeKeyJSON, NodePathElement, Paged, PagedResponse, PageOptions, PartialHierarchyModification,
   PresentationDataCompareOptions, PresentationError, PresentationRpcEvents, PresentationRpcInterface, PresentationStatus, PresentationUnitSystem,
   RegisteredRuleset, RequestPriority, RpcRequestsHandler, Ruleset, RulesetVariable, SelectionInfo, UpdateInfo, UpdateInfoJSON,
 } from "@bentley/presentation-common";
@@ -464,6 +464,24 @@ export class PresentationManager implements IDisposable {
     };
   }
 
+  /**
+   * Exports content on the backend. Content is exported in pages on the backend, so there's no need
+   * to page this request. The whole export is returned in a single response, so the request is rejected
+   * with [PresentationStatus.InvalidArgument]($presentation-common) when content has more than 100 000 items.
+   * @param requestOptions Options for the request
+   * @return A promise object that returns exported text for CSV and JSON Lines formats or a base64 encoded workbook for XLSX format.
+   * @alpha
+   */
+  public async exportContent(requestOptions: ContentExportRequestOptions<IModelConnection, Descriptor, KeySet>): Promise<string> {
+    await this.onConnection(requestOptions.imodel);
+    const options = await this.addRulesetAndVariablesToOptions(requestOptions);
+    return this._requestsHandler.exportContent({
+      ...this.toRpcTokenOptions(options),
+      descriptor: getDescriptorOverrides(options.descriptor),
+      keys: stripTransientElementKeys(options.keys).toJSON(),
+    });
+  }
+
   /**
    * Retrieves display label definition of specific item
    * @deprecated Use an overload with [[DisplayLabelRequestOptions]]
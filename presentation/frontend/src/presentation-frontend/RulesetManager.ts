@@ -7,7 +7,7 @@
  */
 
 import { BeEvent, Guid } from "@bentley/bentleyjs-core";
-import { RegisteredRuleset, Ruleset } from "@bentley/presentation-common";
+import { RegisteredRuleset, Ruleset, RulesetsFactory } from "@bentley/presentation-common";
 
 /**
  * Presentation ruleset registry.
@@ -23,7 +23,8 @@ export interface RulesetManager {
   get(id: string): Promise<RegisteredRuleset | undefined>;
 
   /**
-   * Register the supplied ruleset
+   * Register the supplied ruleset. If the ruleset extends other rulesets through [[Ruleset.baseRulesets]],
+   * they're looked up in this manager and the composite ruleset is registered instead.
    */
   add(ruleset: Ruleset): Promise<RegisteredRuleset>;
 
@@ -68,8 +69,9 @@ export class RulesetManagerImpl implements RulesetManager {
    * Register the supplied ruleset
    */
   public async add(ruleset: Ruleset): Promise<RegisteredRuleset> {
+    const compositeRuleset = new RulesetsFactory().createCompositeRuleset(ruleset, (id) => this._clientRulesets.get(id)?.[0]?.toJSON());
     // eslint-disable-next-line @typescript-eslint/promise-function-async
-    const registered = new RegisteredRuleset(ruleset, Guid.createValue(), (r: RegisteredRuleset) => this.remove(r));
+    const registered = new RegisteredRuleset(compositeRuleset, Guid.createValue(), (r: RegisteredRuleset) => this.remove(r));
     if (!this._clientRulesets.has(ruleset.id))
       this._clientRulesets.set(ruleset.id, []);
     this._clientRulesets.get(ruleset.id)!.push(registered);
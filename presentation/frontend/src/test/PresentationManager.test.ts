@@ -11,8 +11,8 @@ import { IModelRpcProps } from "@bentley/imodeljs-common";
 import { EventSource, IModelApp, IModelConnection } from "@bentley/imodeljs-frontend";
 import { I18N, I18NNamespace } from "@bentley/imodeljs-i18n";
 import {
-  Content, ContentDescriptorRequestOptions, ContentRequestOptions, ContentUpdateInfo, Descriptor, DisplayLabelRequestOptions,
-  DisplayLabelsRequestOptions, DisplayValueGroup, DistinctValuesRequestOptions, ExtendedContentRequestOptions, ExtendedHierarchyRequestOptions,
+  Content, ContentDescriptorRequestOptions, ContentExportFormat, ContentExportRequestOptions, ContentRequestOptions, ContentUpdateInfo, Descriptor,
+  DisplayLabelRequestOptions, DisplayLabelsRequestOptions, DisplayValueGroup, DistinctValuesRequestOptions, ExtendedContentRequestOptions, ExtendedHierarchyRequestOptions,
   FieldDescriptor, FieldDescriptorType, HierarchyRequestOptions, HierarchyUpdateInfo, InstanceKey, Item, KeySet, LabelDefinition, LabelRequestOptions,
   Node, NodeKey, NodePathElement, Paged, PresentationDataCompareOptions, PresentationError, PresentationRpcEvents, PresentationRpcInterface,
   PresentationStatus, PresentationUnitSystem, RegisteredRuleset, RequestPriority, RpcRequestsHandler, Ruleset, RulesetVariable, UpdateInfo,
@@ -1103,6 +1103,35 @@ describe("PresentationManager", () => {
 
   });
 
+  describe("exportContent", () => {
+
+    it("requests content export", async () => {
+      const keys = new KeySet();
+      const descriptor = createRandomDescriptor();
+      const result = faker.random.words();
+      const managerOptions: ContentExportRequestOptions<IModelConnection, Descriptor, KeySet> = {
+        imodel: testData.imodelMock.object,
+        rulesetOrId: testData.rulesetId,
+        descriptor,
+        keys,
+        format: ContentExportFormat.Csv,
+      };
+      const rpcHandlerOptions = {
+        ...prepareOptions(managerOptions),
+        descriptor: descriptor.createDescriptorOverrides(),
+        keys: keys.toJSON(),
+      };
+      rpcRequestsHandlerMock
+        .setup((x) => x.exportContent(rpcHandlerOptions))
+        .returns(async () => result)
+        .verifiable();
+      const actualResult = await manager.exportContent(managerOptions);
+      rpcRequestsHandlerMock.verifyAll();
+      expect(actualResult).to.eq(result);
+    });
+
+  });
+
   describe("getDisplayLabelDefinition", () => {
 
     it("[deprecated] requests display label definition", async () => {
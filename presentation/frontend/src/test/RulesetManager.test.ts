@@ -55,6 +55,19 @@ describe("RulesetManager", () => {
       }));
     });
 
+    it("registers composite ruleset when ruleset extends other rulesets", async () => {
+      const baseRuleset: Ruleset = { id: faker.random.uuid(), rules: [{ id: "root", ruleType: RuleTypes.RootNodes, priority: 10, specifications: [] }] };
+      const ruleset: Ruleset = { id: faker.random.uuid(), baseRulesets: [baseRuleset.id], rules: [{ id: "root", ruleType: RuleTypes.RootNodes, autoExpand: true }] };
+      await manager.add(baseRuleset);
+      const result = await manager.add(ruleset);
+      expect(result.toJSON()).to.deep.eq({ id: ruleset.id, rules: [{ id: "root", ruleType: RuleTypes.RootNodes, autoExpand: true, priority: 10 }] });
+    });
+
+    it("throws when base ruleset is not registered", async () => {
+      const ruleset: Ruleset = { id: faker.random.uuid(), baseRulesets: [faker.random.uuid()], rules: [] };
+      await expect(manager.add(ruleset)).to.eventually.be.rejected;
+    });
+
   });
 
   describe("modify", () => {